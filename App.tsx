@@ -1306,22 +1306,15 @@ function NotificationHandler() {
       response => {
         const actionIdentifier = response.actionIdentifier;
 
-        // Track notification opened
-        const reminderId = response.notification.request.content.data
-          ?.reminderId as string | undefined;
-        if (reminderId) {
-          trackNotificationOpened(
-            response.notification.request.identifier,
-            reminderId,
-          );
-        }
-
-        // Handle action if present
+        // Handle action if present, otherwise track the notification opened.
+        // Action buttons record their own analytics.
         if (
           actionIdentifier &&
           actionIdentifier !== Notifications.DEFAULT_ACTION_IDENTIFIER
         ) {
           handleNotificationAction(actionIdentifier, response.notification);
+        } else {
+          trackNotificationOpened(response.notification);
         }
       },
     );
@@ -1365,7 +1358,8 @@ function NotificationHandler() {
   };
 
   const handleCompleteTask = async (task: Task) => {
-    if (!task) return;
+    // Exams are not completed, only taken
+    if (!task || task.type === 'exam') return;
 
     try {
       await completeTaskMutation.mutateAsync({
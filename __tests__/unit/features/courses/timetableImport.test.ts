@@ -0,0 +1,155 @@
+import {
+  timetableImportApi,
+  buildTimetableImportRequest,
+  exceedsTimetableCourseLimit,
+  getDefaultTimetableSelection,
+} from '@/features/courses/services/timetableImport';
+import { TimetableImportPreview } from '@/types';
+
+jest.mock('@/services/VersionedApiClient', () => ({
+  versionedApiClient: {
+    previewTimetableImport: jest.fn(),
+    importTimetable: jest.fn(),
+  },
+}));
+
+import { versionedApiClient } from '@/services/VersionedApiClient';
+
+const mockClient = versionedApiClient as jest.Mocked<typeof versionedApiClient>;
+
+const lecture = (key: string, isDuplicate = false) => ({
+  key,
+  lecture_name: `Lecture ${key}`,
+  start_time: '2025-01-13T09:00:00.000Z',
+  end_time: '2025-01-13T10:00:00.000Z',
+  venue: 'Room 1',
+  recurring_pattern: 'weekly' as const,
+  occurrences: 12,
+  is_duplicate: isDuplicate,
+});
+
+const preview: TimetableImportPreview = {
+  calendar_name: 'Spring 2025',
+  time_zone: 'Europe/London',
+  warnings: [],
+  skipped_events: 0,
+  task_limit: { is_limited: true, limit: 5, used: 1, remaining: 4 },
+  course_limit: { limit: 2, used: 1, remaining: 1 },
+  courses: [
+    {
+      key: 'CS101',
+      course_code: 'CS101',
+      course_name: 'Intro to Computing',
+      existing_course_id: null,
+      existing_course_name: null,
+      lectures: [lecture('CS101#0'), lecture('CS101#1')],
+    },
+    {
+      key: 'MATH2001',
+      course_code: 'MATH2001',
+      course_name: 'Calculus',
+      existing_course_id: 'course-1',
+      existing_course_name: 'Calculus',
+      lectures: [lecture('MATH2001#0', true), lecture('MATH2001#1')],
+    },
+  ],
+};
+
+describe('timetableImport', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should select every lecture that is not already in the schedule', () => {
+    expect([...getDefaultTimetableSelection(preview)]).toEqual([
+      'CS101#0',
+      'CS101#1',
+      'MATH2001#1',
+    ]);
+  });
+
+  it('should merge into matched courses and drop courses with nothing selected', () => {
+    const request = buildTimetableImportRequest(
+      preview,
+      new Set(['MATH2001#1']),
+    );
+
+    expect(request.courses).toHaveLength(1);
+    expect(request.courses[0]).toEqual({
+      course_name: 'Calculus',
+      course_code: 'MATH2001',
+      existing_course_id: 'course-1',
+      lectures: [
+        {
+          lecture_name: 'Lecture MATH2001#1',
+          start_time: '2025-01-13T09:00:00.000Z',
+          end_time: '2025-01-13T10:00:00.000Z',
+          venue: 'Room 1',
+          recurring_pattern: 'weekly',
+        },
+      ],
+    });
+  });
+
+  it('should create a new course when merging is turned off', () => {
+    const request = buildTimetableImportRequest(
+      preview,
+      new Set(['MATH2001#1']),
+      { MATH2001: false },
+    );
+
+    expect(request.courses[0].existing_course_id).toBeNull();
+  });
+
+  it('should count only new courses towards the course limit', () => {
+    const selection = new Set(['CS101#0', 'MATH2001#1']);
+
+    expect(
+      exceedsTimetableCourseLimit(
+        preview,
+        buildTimetableImportRequest(preview, selection),
+      ),
+    ).toBe(false);
+    expect(
+      exceedsTimetableCourseLimit(
+        preview,
+        buildTimetableImportRequest(preview, selection, { MATH2001: false }),
+      ),
+    ).toBe(true);
+  });
+
+  it('should send URLs and the device time zone for preview', async () => {
+    mockClient.previewTimetableImport.mockResolvedValue({
+      data: preview as unknown as Record<string, unknown>,
+    });
+
+    const result = await timetableImportApi.preview({
+      url: ' webcal://uni.example.edu/timetable.ics ',
+    });
+
+    expect(result.courses).toHaveLength(2);
+    expect(mockClient.previewTimetableImport).toHaveBeenCalledWith(
+      expect.objectContaining({
+        url: 'webcal://uni.example.edu/timetable.ics',
+        timezone: expect.any(String),
+      }),
+    );
+  });
+
+  it('should surface the server error code when the import is rejected', async () => {
+    mockClient.importTimetable.mockResolvedValue({
+      error: 'RESOURCE_LIMIT_EXCEEDED',
+      code: 'RESOURCE_LIMIT_EXCEEDED',
+      message: 'You can only add 4 more this week.',
+    });
+
+    await expect(
+      timetableImportApi.import(
+        buildTimetableImportRequest(preview, new Set(['CS101#0'])),
+      ),
+    ).rejects.toMatchObject({
+      code: 'RESOURCE_LIMIT_EXCEEDED',
+      message: 'You can only add 4 more this week.',
+    });
+  });
+});
@@ -0,0 +1,161 @@
+import {
+  dataImportApi,
+  detectDataImportFormat,
+  exceedsDataImportTaskLimit,
+  formatEntityCount,
+  getDataImportTotals,
+  groupDataImportIssues,
+} from '@/features/data-management/services/dataImport';
+import { ApiError } from '@/services/api/errors';
+import { DataImportIssue, DataImportReport } from '@/types';
+
+jest.mock('@/utils/invokeEdgeFunction', () => ({
+  invokeEdgeFunctionWithAuth: jest.fn(),
+}));
+
+import { invokeEdgeFunctionWithAuth } from '@/utils/invokeEdgeFunction';
+
+const mockInvoke = invokeEdgeFunctionWithAuth as jest.MockedFunction<
+  typeof invokeEdgeFunctionWithAuth
+>;
+
+const counts = (create = 0, skip = 0, conflict = 0) => ({
+  create,
+  skip,
+  conflict,
+});
+
+const report: DataImportReport = {
+  dry_run: true,
+  counts: {
+    term: counts(1),
+    course: counts(2, 0, 1),
+    lecture: counts(10, 1),
+    assignment: counts(4),
+    study_session: counts(3),
+    reminder: counts(5, 2),
+  },
+  issues: [],
+  task_limit: null,
+};
+
+const issue = (
+  label: string,
+  overrides: Partial<DataImportIssue> = {},
+): DataImportIssue => ({
+  type: 'reminder',
+  source_id: null,
+  label,
+  action: 'skip',
+  reason: 'It was already sent',
+  ...overrides,
+});
+
+describe('dataImport', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('detectDataImportFormat', () => {
+    it('uses the file extension', () => {
+      expect(detectDataImportFormat('elaro-export.JSON', '')).toBe('json');
+      expect(detectDataImportFormat('elaro-export.csv', '{')).toBe('csv');
+    });
+
+    it('falls back to the content when the extension is unknown', () => {
+      expect(detectDataImportFormat('export', '  {"data": {}}')).toBe('json');
+      expect(
+        detectDataImportFormat('export.txt', 'course_name,id,type\n'),
+      ).toBe('csv');
+      expect(detectDataImportFormat('notes.txt', 'hello world')).toBeNull();
+    });
+  });
+
+  it('formats entity counts', () => {
+    expect(formatEntityCount('course', 1)).toBe('1 course');
+    expect(formatEntityCount('study_session', 3)).toBe('3 study sessions');
+  });
+
+  it('adds up the counts of every record type', () => {
+    expect(getDataImportTotals(report)).toEqual({
+      create: 25,
+      skip: 3,
+      conflict: 1,
+    });
+  });
+
+  it('groups issues by type and reason, conflicts first', () => {
+    const groups = groupDataImportIssues([
+      issue('Reminder A'),
+      issue('Reminder B'),
+      issue('Old lecture', {
+        type: 'lecture',
+        reason: 'Its course is not imported',
+      }),
+      issue('Calculus', {
+        type: 'course',
+        action: 'conflict',
+        reason: 'Matches your course "Calculus"; its items are added to it',
+      }),
+    ]);
+
+    expect(groups.map(group => [group.type, group.labels])).toEqual([
+      ['course', ['Calculus']],
+      ['reminder', ['Reminder A', 'Reminder B']],
+      ['lecture', ['Old lecture']],
+    ]);
+  });
+
+  it('checks the free plan task limit', () => {
+    expect(exceedsDataImportTaskLimit(report)).toBe(false);
+    expect(
+      exceedsDataImportTaskLimit({
+        ...report,
+        task_limit: { limit: 5, used: 3, required: 2 },
+      }),
+    ).toBe(false);
+    expect(
+      exceedsDataImportTaskLimit({
+        ...report,
+        task_limit: { limit: 5, used: 3, required: 3 },
+      }),
+    ).toBe(true);
+  });
+
+  describe('dataImportApi', () => {
+    it('runs a dry run for the preview', async () => {
+      mockInvoke.mockResolvedValue({ data: report, error: null });
+
+      await expect(dataImportApi.preview('csv', 'type\n')).resolves.toBe(
+        report,
+      );
+      expect(mockInvoke).toHaveBeenCalledWith('import-user-data', {
+        body: { format: 'csv', content: 'type\n', dry_run: true },
+      });
+    });
+
+    it('surfaces the error code returned by the function', async () => {
+      mockInvoke.mockResolvedValue({
+        data: null,
+        error: {
+          message: 'Edge Function returned a non-2xx status code',
+          context: {
+            status: 400,
+            error: 'Invalid input provided.',
+            code: 'INVALID_INPUT',
+          },
+        },
+      });
+
+      const error = await dataImportApi
+        .import('json', '{}')
+        .catch(caught => caught);
+
+      expect(error).toBeInstanceOf(ApiError);
+      expect(error.code).toBe('INVALID_INPUT');
+      expect(mockInvoke).toHaveBeenCalledWith('import-user-data', {
+        body: { format: 'json', content: '{}', dry_run: false },
+      });
+    });
+  });
+});
@@ -0,0 +1,76 @@
+import { SRSAnalyticsService } from '@/features/srs/services/SRSAnalyticsService';
+
+jest.mock('@/services/supabase', () => ({
+  supabase: {
+    from: jest.fn(),
+  },
+}));
+
+import { supabase } from '@/services/supabase';
+
+const mockFrom = supabase.from as jest.Mock;
+
+// Chainable query builder that resolves to the given result
+const queryResult = (result: { data: unknown; error: unknown }) => {
+  const builder: Record<string, jest.Mock> = {};
+  ['select', 'eq', 'order', 'limit'].forEach(method => {
+    builder[method] = jest.fn(() => builder);
+  });
+  builder.maybeSingle = jest.fn().mockResolvedValue(result);
+  builder.then = jest.fn((resolve: (value: unknown) => unknown) =>
+    Promise.resolve(result).then(resolve),
+  );
+  return builder;
+};
+
+describe('SRSAnalyticsService.getSchedulerFit', () => {
+  const service = SRSAnalyticsService.getInstance();
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should compare the fitted prediction with the current retention rate', async () => {
+    mockFrom.mockImplementation((table: string) =>
+      table === 'srs_scheduler_parameters'
+        ? queryResult({
+            data: {
+              version: 3,
+              created_at: '2025-03-02T05:00:00Z',
+              review_count: 420,
+              predicted_retention: '0.874',
+              actual_retention: '0.861',
+              log_loss: '0.351',
+              default_log_loss: '0.402',
+            },
+            error: null,
+          })
+        : queryResult({
+            data: [
+              { quality_rating: 5 },
+              { quality_rating: 4 },
+              { quality_rating: 3 },
+              { quality_rating: 1 },
+            ],
+            error: null,
+          }),
+    );
+
+    const fit = await service.getSchedulerFit('user-1');
+
+    expect(fit).toMatchObject({
+      version: 3,
+      reviewCount: 420,
+      currentRetentionRate: 75,
+      isPersonalized: true,
+    });
+    expect(fit?.predictedRetention).toBeCloseTo(87.4);
+    expect(fit?.actualRetention).toBeCloseTo(86.1);
+  });
+
+  it('should return null before the first fit', async () => {
+    mockFrom.mockImplementation(() => queryResult({ data: null, error: null }));
+
+    await expect(service.getSchedulerFit('user-1')).resolves.toBeNull();
+  });
+});
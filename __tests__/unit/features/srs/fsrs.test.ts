@@ -0,0 +1,90 @@
+import * as clientFsrs from '@/features/srs/services/fsrs';
+import * as serverFsrs from '@functions/_shared/fsrs';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const day = (n: number) => new Date(Date.UTC(2025, 0, 1) + n * DAY_MS);
+
+// The client keeps its own copy of the server scheduler, so both run the
+// same cases
+describe.each([
+  ['on the client', clientFsrs],
+  ['on the server', serverFsrs],
+])('fsrs %s', (_, fsrs) => {
+  const {
+    DEFAULT_FSRS_PARAMETERS,
+    nextInterval,
+    qualityToRating,
+    replayReviews,
+    retrievability,
+    reviewCard,
+  } = fsrs;
+
+  it('should map SM-2 quality ratings to FSRS ratings', () => {
+    expect([0, 1, 2, 3, 4, 5].map(qualityToRating)).toEqual([1, 1, 1, 2, 3, 4]);
+  });
+
+  it('should predict 90% recall after one stability period', () => {
+    expect(retrievability(0, 10)).toBe(1);
+    expect(retrievability(10, 10)).toBeCloseTo(0.9, 5);
+  });
+
+  it('should schedule one stability period ahead at 90% retention', () => {
+    expect(nextInterval(10, 0.9)).toBe(10);
+    expect(nextInterval(10, 0.8)).toBeGreaterThan(10);
+    expect(nextInterval(10, 0.95)).toBeLessThan(10);
+    expect(nextInterval(10000, 0.9)).toBe(365);
+  });
+
+  it('should start from the default weights on a first review', () => {
+    const result = reviewCard(null, 3, day(0));
+
+    expect(result.retrievability).toBeNull();
+    expect(result.state.stability).toBeCloseTo(DEFAULT_FSRS_PARAMETERS[2]);
+    expect(result.state.reps).toBe(1);
+    expect(result.nextIntervalDays).toBe(4);
+  });
+
+  it('should grow stability on recall and shrink it on a lapse', () => {
+    const first = reviewCard(null, 3, day(0)).state;
+    const recalled = reviewCard(first, 3, day(4));
+    const forgotten = reviewCard(first, 1, day(4));
+
+    expect(recalled.state.stability).toBeGreaterThan(first.stability);
+    expect(recalled.retrievability).toBeCloseTo(
+      retrievability(4, first.stability),
+    );
+    expect(forgotten.state.stability).toBeLessThan(first.stability);
+    expect(forgotten.state.difficulty).toBeGreaterThan(first.difficulty);
+    expect(forgotten.state.lapses).toBe(1);
+    expect(forgotten.nextIntervalDays).toBe(1);
+  });
+
+  it('should seed a state from SM-2 history in chronological order', () => {
+    const reviews = [
+      { reviewedAt: day(4), quality: 4 },
+      { reviewedAt: day(0), quality: 4 },
+      { reviewedAt: day(14), quality: 2 },
+    ];
+    const state = replayReviews(reviews);
+
+    expect(state?.reps).toBe(3);
+    expect(state?.lapses).toBe(1);
+    expect(state?.lastReviewAt).toEqual(day(14));
+    expect(replayReviews([])).toBeNull();
+  });
+});
+
+describe('projectReviewOffsets', () => {
+  it('should project increasing reminder offsets for the desired retention', () => {
+    const offsets = clientFsrs.projectReviewOffsets(5);
+    const cautious = clientFsrs.projectReviewOffsets(5, {
+      desiredRetention: 0.95,
+    });
+
+    expect(offsets).toHaveLength(5);
+    offsets.slice(1).forEach((offset, i) => {
+      expect(offset).toBeGreaterThan(offsets[i]);
+    });
+    expect(cautious[4]).toBeLessThan(offsets[4]);
+  });
+});
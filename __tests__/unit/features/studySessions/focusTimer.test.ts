@@ -0,0 +1,165 @@
+import {
+  DEFAULT_FOCUS_TIMER_CONFIG,
+  FocusTimerConfig,
+  buildFocusLog,
+  buildFocusPhases,
+  getFocusProgress,
+  getUpcomingPhaseEnds,
+  pauseFocusTimer,
+  recordAppBackground,
+  recordAppForeground,
+  resumeFocusTimer,
+  startFocusTimer,
+} from '@/features/studySessions/services/focusTimer';
+
+const MINUTE = 60 * 1000;
+const start = new Date('2026-03-02T09:00:00.000Z');
+const at = (minutes: number) => new Date(start.getTime() + minutes * MINUTE);
+
+const config: FocusTimerConfig = {
+  workMinutes: 25,
+  shortBreakMinutes: 5,
+  longBreakMinutes: 15,
+  cycles: 3,
+  longBreakEvery: 2,
+};
+
+describe('focusTimer', () => {
+  describe('buildFocusPhases', () => {
+    it('alternates work and breaks without a break after the last cycle', () => {
+      expect(
+        buildFocusPhases(config).map(phase => [phase.kind, phase.cycle]),
+      ).toEqual([
+        ['work', 1],
+        ['short_break', 1],
+        ['work', 2],
+        ['long_break', 2],
+        ['work', 3],
+      ]);
+    });
+
+    it('uses the defaults for a classic pomodoro', () => {
+      const phases = buildFocusPhases(DEFAULT_FOCUS_TIMER_CONFIG);
+      expect(phases).toHaveLength(7);
+      expect(phases[5]).toMatchObject({ kind: 'short_break', cycle: 3 });
+    });
+  });
+
+  describe('getFocusProgress', () => {
+    it('derives the current phase from elapsed time', () => {
+      const timer = startFocusTimer('run-1', 'session-1', config, start);
+
+      expect(getFocusProgress(timer, at(10))).toMatchObject({
+        phaseIndex: 0,
+        remainingMs: 15 * MINUTE,
+        completedCycles: 0,
+        focusedMs: 10 * MINUTE,
+      });
+      expect(getFocusProgress(timer, at(27))).toMatchObject({
+        phaseIndex: 1,
+        remainingMs: 3 * MINUTE,
+        completedCycles: 1,
+        focusedMs: 25 * MINUTE,
+        breakMs: 2 * MINUTE,
+      });
+    });
+
+    it('finishes after the last work phase', () => {
+      const timer = startFocusTimer('run-1', 'session-1', config, start);
+      const progress = getFocusProgress(timer, at(200));
+
+      expect(progress.isFinished).toBe(true);
+      expect(progress.completedCycles).toBe(3);
+      expect(progress.focusedMs).toBe(75 * MINUTE);
+      expect(progress.breakMs).toBe(20 * MINUTE);
+    });
+
+    it('does not count time spent paused', () => {
+      let timer = startFocusTimer('run-1', 'session-1', config, start);
+      timer = pauseFocusTimer(timer, at(10));
+
+      expect(getFocusProgress(timer, at(40)).focusedMs).toBe(10 * MINUTE);
+
+      timer = resumeFocusTimer(timer, at(40));
+      expect(getFocusProgress(timer, at(45)).focusedMs).toBe(15 * MINUTE);
+      expect(timer.interruptions).toEqual([
+        {
+          reason: 'paused',
+          startedAt: at(10).toISOString(),
+          endedAt: at(40).toISOString(),
+        },
+      ]);
+    });
+  });
+
+  it('lists when each remaining phase ends', () => {
+    const timer = startFocusTimer('run-1', 'session-1', config, start);
+    const ends = getUpcomingPhaseEnds(timer, at(27));
+
+    expect(ends.map(end => end.endsAt)).toEqual([
+      at(30),
+      at(55),
+      at(70),
+      at(95),
+    ]);
+    expect(ends[ends.length - 1].next).toBeNull();
+    expect(getUpcomingPhaseEnds(pauseFocusTimer(timer, at(27)))).toEqual([]);
+  });
+
+  it('only counts leaving the app during a work phase', () => {
+    const timer = startFocusTimer('run-1', 'session-1', config, start);
+
+    expect(recordAppBackground(timer, at(27)).interruptions).toEqual([]);
+
+    const interrupted = recordAppForeground(
+      recordAppBackground(timer, at(5)),
+      at(8),
+    );
+    expect(interrupted.interruptions).toEqual([
+      {
+        reason: 'left_app',
+        startedAt: at(5).toISOString(),
+        endedAt: at(8).toISOString(),
+      },
+    ]);
+  });
+
+  describe('buildFocusLog', () => {
+    it('summarises a stopped run', () => {
+      const timer = pauseFocusTimer(
+        startFocusTimer('run-1', 'session-1', config, start),
+        at(40),
+      );
+
+      expect(buildFocusLog(timer, at(41))).toEqual({
+        study_session_id: 'session-1',
+        started_at: start.toISOString(),
+        ended_at: at(41).toISOString(),
+        work_minutes: 25,
+        short_break_minutes: 5,
+        long_break_minutes: 15,
+        planned_cycles: 3,
+        completed_cycles: 1,
+        focused_seconds: 35 * 60,
+        break_seconds: 5 * 60,
+        interruptions: [
+          {
+            reason: 'paused',
+            started_at: at(40).toISOString(),
+            ended_at: at(41).toISOString(),
+          },
+        ],
+        status: 'stopped',
+      });
+    });
+
+    it('ends a run that finished in the background when its last phase did', () => {
+      const timer = startFocusTimer('run-1', null, config, start);
+      const log = buildFocusLog(timer, at(300));
+
+      expect(log.status).toBe('completed');
+      expect(log.ended_at).toBe(at(95).toISOString());
+      expect(log).not.toHaveProperty('study_session_id');
+    });
+  });
+});
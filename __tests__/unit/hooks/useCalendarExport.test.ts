@@ -0,0 +1,106 @@
+import { renderHook, act } from '@testing-library/react-native';
+import { useCalendarExport } from '@/features/calendar/hooks/useCalendarExport';
+
+jest.mock('expo-file-system', () => ({
+  cacheDirectory: 'file:///cache/',
+  EncodingType: { UTF8: 'utf8' },
+  writeAsStringAsync: jest.fn(),
+}));
+
+jest.mock('expo-sharing', () => ({
+  isAvailableAsync: jest.fn(),
+  shareAsync: jest.fn(),
+}));
+
+jest.mock('expo-clipboard', () => ({
+  setStringAsync: jest.fn(),
+}));
+
+jest.mock('@/services/api/queries/calendar', () => ({
+  calendarApi: {
+    exportIcs: jest.fn(),
+    getFeed: jest.fn(),
+  },
+}));
+
+import * as FileSystem from 'expo-file-system';
+import * as Sharing from 'expo-sharing';
+import * as Clipboard from 'expo-clipboard';
+import { calendarApi } from '@/services/api/queries/calendar';
+
+const mockCalendarApi = calendarApi as jest.Mocked<typeof calendarApi>;
+
+describe('useCalendarExport', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should write the .ics file and open the share sheet', async () => {
+    mockCalendarApi.exportIcs.mockResolvedValue({
+      filename: 'elaro-calendar-2025-01-14.ics',
+      content: 'BEGIN:VCALENDAR\r\nEND:VCALENDAR\r\n',
+      event_count: 3,
+      todo_count: 1,
+    });
+    (Sharing.isAvailableAsync as jest.Mock).mockResolvedValue(true);
+
+    const { result } = renderHook(() => useCalendarExport());
+
+    let eventCount = 0;
+    await act(async () => {
+      eventCount = await result.current.exportIcsFile();
+    });
+
+    expect(eventCount).toBe(3);
+    expect(FileSystem.writeAsStringAsync).toHaveBeenCalledWith(
+      'file:///cache/elaro-calendar-2025-01-14.ics',
+      'BEGIN:VCALENDAR\r\nEND:VCALENDAR\r\n',
+      { encoding: 'utf8' },
+    );
+    expect(Sharing.shareAsync).toHaveBeenCalledWith(
+      'file:///cache/elaro-calendar-2025-01-14.ics',
+      expect.objectContaining({ mimeType: 'text/calendar' }),
+    );
+    expect(result.current.isExporting).toBe(false);
+  });
+
+  it('should throw when sharing is unavailable', async () => {
+    mockCalendarApi.exportIcs.mockResolvedValue({
+      filename: 'elaro.ics',
+      content: '',
+      event_count: 0,
+      todo_count: 0,
+    });
+    (Sharing.isAvailableAsync as jest.Mock).mockResolvedValue(false);
+
+    const { result } = renderHook(() => useCalendarExport());
+
+    await act(async () => {
+      await expect(result.current.exportIcsFile()).rejects.toThrow(
+        'Sharing is not available',
+      );
+    });
+    expect(Sharing.shareAsync).not.toHaveBeenCalled();
+    expect(result.current.isExporting).toBe(false);
+  });
+
+  it('should copy the feed URL and pass through rotation', async () => {
+    mockCalendarApi.getFeed.mockResolvedValue({
+      token: 'abc',
+      feed_url: 'https://example.supabase.co/functions/v1/feed?token=abc',
+      webcal_url: 'webcal://example.supabase.co/functions/v1/feed?token=abc',
+      created_at: '2025-01-14T00:00:00Z',
+    });
+
+    const { result } = renderHook(() => useCalendarExport());
+
+    await act(async () => {
+      await result.current.copyFeedUrl(true);
+    });
+
+    expect(mockCalendarApi.getFeed).toHaveBeenCalledWith(true);
+    expect(Clipboard.setStringAsync).toHaveBeenCalledWith(
+      'https://example.supabase.co/functions/v1/feed?token=abc',
+    );
+  });
+});
@@ -21,6 +21,12 @@ jest.mock('@/utils/cache', () => ({
     remove: jest.fn().mockResolvedValue(undefined),
   },
 }));
+jest.mock('@/services/ApiVersioningService', () => ({
+  apiVersioningService: {
+    request: jest.fn(),
+    get: jest.fn(),
+  },
+}));
 
 const mockAsyncStorage = AsyncStorage as jest.Mocked<typeof AsyncStorage>;
 const mockNetInfo = NetInfo as jest.Mocked<typeof NetInfo>;
@@ -390,4 +396,137 @@ describe('SyncManager', () => {
       expect(results[0].error).toBeDefined();
     });
   });
+
+  describe('Conflict Resolution', () => {
+    const { apiVersioningService } = require('@/services/ApiVersioningService');
+    const mockRequest = apiVersioningService.request as jest.Mock;
+    const mockGet = apiVersioningService.get as jest.Mock;
+
+    const queueStaleTitleEdit = () =>
+      syncManager.addToQueue(
+        'UPDATE',
+        'assignment',
+        {
+          type: 'UPDATE',
+          id: 'assignment-1',
+          data: { title: 'Mine' },
+          baseVersion: 1,
+          baseData: { title: 'Old' },
+        },
+        'user-1',
+        { syncImmediately: false },
+      );
+
+    beforeEach(() => {
+      mockRequest.mockReset();
+      mockGet.mockReset();
+      (syncManager as any).circuitBreaker = {
+        execute: jest.fn(async fn => await fn()),
+      };
+    });
+
+    it('should send the base version with updates', async () => {
+      mockRequest.mockResolvedValue({ data: { id: 'assignment-1' } });
+
+      await queueStaleTitleEdit();
+      await syncManager.processQueue();
+
+      const [endpoint, options] = mockRequest.mock.calls[0];
+      expect(endpoint).toBe('api-v2/assignments/update/assignment-1');
+      expect(JSON.parse(options.body)).toEqual({
+        assignment_id: 'assignment-1',
+        title: 'Mine',
+        expected_version: 1,
+      });
+      expect(syncManager.getQueue()).toHaveLength(0);
+    });
+
+    it('should auto-merge edits to fields the server did not change', async () => {
+      mockRequest
+        .mockResolvedValueOnce({ error: 'Conflict', code: 'VERSION_CONFLICT' })
+        .mockResolvedValueOnce({ data: { id: 'assignment-1', version: 4 } });
+      mockGet.mockResolvedValue({
+        data: { id: 'assignment-1', version: 3, title: 'Old', notes: 'Theirs' },
+      });
+
+      await queueStaleTitleEdit();
+      await syncManager.processQueue();
+
+      expect(JSON.parse(mockRequest.mock.calls[1][1].body)).toMatchObject({
+        title: 'Mine',
+        expected_version: 3,
+      });
+      expect(syncManager.getQueue()).toHaveLength(0);
+    });
+
+    it('should park edits that overlap a server change', async () => {
+      mockRequest.mockResolvedValue({
+        error: 'Conflict',
+        code: 'VERSION_CONFLICT',
+      });
+      mockGet.mockResolvedValue({
+        data: { id: 'assignment-1', version: 2, title: 'Theirs' },
+      });
+
+      const action = await queueStaleTitleEdit();
+      await syncManager.processQueue();
+
+      expect(syncManager.getQueueStats().conflicts).toBe(1);
+      expect(syncManager.getConflicts()).toEqual([
+        expect.objectContaining({
+          actionId: action.id,
+          serverVersion: 2,
+          fields: [
+            {
+              field: 'title',
+              baseValue: 'Old',
+              localValue: 'Mine',
+              serverValue: 'Theirs',
+            },
+          ],
+        }),
+      ]);
+    });
+
+    it('should requeue the local value against the server version', async () => {
+      mockRequest.mockResolvedValue({
+        error: 'Conflict',
+        code: 'VERSION_CONFLICT',
+      });
+      mockGet.mockResolvedValue({
+        data: { id: 'assignment-1', version: 2, title: 'Theirs' },
+      });
+      (mockNetInfo.fetch as jest.Mock).mockResolvedValue({
+        isConnected: false,
+      });
+
+      const action = await queueStaleTitleEdit();
+      await syncManager.processQueue();
+      await syncManager.resolveConflict(action.id, { title: 'local' });
+
+      const [queued] = syncManager.getQueue();
+      expect(queued.status).toBe('pending');
+      expect(queued.payload).toMatchObject({
+        data: { title: 'Mine' },
+        baseVersion: 2,
+        baseData: { title: 'Theirs' },
+      });
+    });
+
+    it('should drop the action when keeping the server value', async () => {
+      mockRequest.mockResolvedValue({
+        error: 'Conflict',
+        code: 'VERSION_CONFLICT',
+      });
+      mockGet.mockResolvedValue({
+        data: { id: 'assignment-1', version: 2, title: 'Theirs' },
+      });
+
+      const action = await queueStaleTitleEdit();
+      await syncManager.processQueue();
+      await syncManager.resolveConflict(action.id, { title: 'server' });
+
+      expect(syncManager.getQueue()).toHaveLength(0);
+    });
+  });
 });
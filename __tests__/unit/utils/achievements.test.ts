@@ -0,0 +1,270 @@
+import { describeAchievement } from '@/utils/achievements';
+import {
+  AchievementStats,
+  advanceStreak,
+  awardAchievements,
+  consecutiveDays,
+  effectiveStreak,
+  evaluateAchievements,
+  localDate,
+  MAX_STREAK_FREEZES,
+  StreakState,
+} from '@functions/_shared/achievements';
+
+describe('describeAchievement', () => {
+  it('describes streak badges by their length', () => {
+    expect(
+      describeAchievement({ type: 'streak', metadata: { days: 7 } }, 'en'),
+    ).toEqual({
+      title: '7-Day Streak',
+      description: 'You studied 7 days in a row.',
+    });
+  });
+
+  it('pluralizes task milestones', () => {
+    expect(
+      describeAchievement({ type: 'milestone', metadata: { count: 1 } }, 'en')
+        .title,
+    ).toBe('First Task Done');
+    expect(
+      describeAchievement({ type: 'milestone', metadata: { count: 50 } }, 'en')
+        .title,
+    ).toBe('50 Tasks Done');
+  });
+
+  it('includes both weeks for improvement badges', () => {
+    expect(
+      describeAchievement(
+        { type: 'improvement', metadata: { this_week: 10, last_week: 6 } },
+        'en',
+      ).description,
+    ).toBe('You completed 10 tasks this week, up from 6 the week before.');
+  });
+
+  it('translates into the requested locale', () => {
+    expect(
+      describeAchievement(
+        { type: 'srs_consistency', metadata: { days: 30 } },
+        'es',
+      ).title,
+    ).toBe('30 días de repaso');
+  });
+
+  it('treats missing numbers as zero', () => {
+    expect(
+      describeAchievement({ type: 'streak', metadata: {} }, 'en').title,
+    ).toBe('0-Day Streak');
+  });
+});
+
+describe('streaks on the server', () => {
+  const streak = (overrides: Partial<StreakState> = {}): StreakState => ({
+    current_streak: 5,
+    longest_streak: 5,
+    last_activity_date: '2026-03-01',
+    freezes_available: 0,
+    freezes_used: 0,
+    ...overrides,
+  });
+
+  it('extends the streak on the next day and earns a freeze every week', () => {
+    expect(advanceStreak(streak({ current_streak: 6 }), '2026-03-02')).toEqual({
+      current_streak: 7,
+      longest_streak: 7,
+      last_activity_date: '2026-03-02',
+      freezes_available: 1,
+      freezes_used: 0,
+    });
+    expect(
+      advanceStreak(
+        streak({ current_streak: 13, freezes_available: MAX_STREAK_FREEZES }),
+        '2026-03-02',
+      ).freezes_available,
+    ).toBe(MAX_STREAK_FREEZES);
+  });
+
+  it('bridges a gap covered by freezes', () => {
+    expect(
+      advanceStreak(streak({ freezes_available: 2 }), '2026-03-04'),
+    ).toEqual({
+      current_streak: 6,
+      longest_streak: 6,
+      last_activity_date: '2026-03-04',
+      freezes_available: 0,
+      freezes_used: 2,
+    });
+  });
+
+  it('restarts after a gap the freezes do not cover', () => {
+    expect(
+      advanceStreak(streak({ freezes_available: 1 }), '2026-03-04'),
+    ).toEqual({
+      current_streak: 1,
+      longest_streak: 5,
+      last_activity_date: '2026-03-04',
+      freezes_available: 0,
+      freezes_used: 0,
+    });
+  });
+
+  it('counts a day only once', () => {
+    const state = streak();
+    expect(advanceStreak(state, '2026-03-01')).toBe(state);
+    expect(advanceStreak(state, '2026-02-27')).toBe(state);
+  });
+
+  it('lapses once more days are missed than freezes remain', () => {
+    expect(effectiveStreak(streak(), '2026-03-02')).toBe(5);
+    expect(effectiveStreak(streak(), '2026-03-03')).toBe(0);
+    expect(
+      effectiveStreak(streak({ freezes_available: 1 }), '2026-03-03'),
+    ).toBe(5);
+    expect(
+      effectiveStreak(streak({ last_activity_date: null }), '2026-03-01'),
+    ).toBe(0);
+  });
+
+  it('splits study days at midnight in the user timezone', () => {
+    // 23:30 and 00:30 in Tokyo, but the same day in UTC
+    const late = new Date('2026-03-01T14:30:00Z');
+    const early = new Date('2026-03-01T15:30:00Z');
+
+    const inTokyo = advanceStreak(
+      advanceStreak(
+        streak({ current_streak: 0 }),
+        localDate(late, 'Asia/Tokyo'),
+      ),
+      localDate(early, 'Asia/Tokyo'),
+    );
+    const inUtc = advanceStreak(
+      advanceStreak(streak({ current_streak: 0 }), localDate(late, 'UTC')),
+      localDate(early, 'UTC'),
+    );
+
+    expect(inTokyo.current_streak).toBe(2);
+    expect(inUtc.current_streak).toBe(1);
+    expect(localDate(late, 'Not/AZone')).toBe('2026-03-01');
+  });
+
+  it('counts the run of review days ending today or yesterday', () => {
+    const days = ['2026-02-27', '2026-03-01', '2026-03-02', '2026-03-03'];
+    expect(consecutiveDays(days, '2026-03-03')).toBe(3);
+    expect(consecutiveDays(days, '2026-03-04')).toBe(3);
+    expect(consecutiveDays(days, '2026-03-05')).toBe(0);
+  });
+});
+
+describe('badges on the server', () => {
+  const stats = (
+    overrides: Partial<AchievementStats> = {},
+  ): AchievementStats => ({
+    longestStreak: 0,
+    completedTasks: 0,
+    weekStart: '2026-03-02',
+    completedThisWeek: 0,
+    completedLastWeek: 0,
+    srsReviewDays: 0,
+    ...overrides,
+  });
+  const keys = (earned: { achievement_key: string }[]) =>
+    earned.map(achievement => achievement.achievement_key);
+
+  it('qualifies for every badge up to the reached threshold', () => {
+    expect(
+      keys(
+        evaluateAchievements(
+          stats({ longestStreak: 14, completedTasks: 10, srsReviewDays: 7 }),
+        ),
+      ),
+    ).toEqual([
+      'streak_3',
+      'streak_7',
+      'streak_14',
+      'tasks_1',
+      'tasks_10',
+      'srs_days_7',
+    ]);
+  });
+
+  it('needs a busy week that beats the last one by a quarter for improvement', () => {
+    const improvement = (
+      completedThisWeek: number,
+      completedLastWeek: number,
+    ) =>
+      keys(
+        evaluateAchievements(stats({ completedThisWeek, completedLastWeek })),
+      );
+
+    expect(improvement(5, 4)).toEqual(['improvement_2026-03-02']);
+    expect(improvement(10, 8)).toEqual(['improvement_2026-03-02']);
+    expect(improvement(9, 8)).toEqual([]);
+    expect(improvement(4, 1)).toEqual([]);
+    expect(improvement(20, 0)).toEqual([]);
+  });
+
+  it('awards each badge once however often it is re-checked', async () => {
+    const stored = new Map<string, unknown>();
+    const upserts: unknown[] = [];
+    const results: Record<string, unknown> = {
+      users: { data: { timezone: 'UTC' }, error: null },
+      streaks: { data: { longest_streak: 3 }, error: null },
+      assignments: { count: 1, error: null },
+      lectures: { count: 0, error: null },
+      study_sessions: { count: 0, error: null },
+      user_events: { data: [], error: null },
+      srs_performance: { data: [], error: null },
+    };
+    // Stands in for the upsert with ignoreDuplicates, which only returns
+    // rows it inserted
+    const client = {
+      from: (table: string) => {
+        let inserted: Record<string, unknown>[] | null = null;
+        const query = {
+          select: () => query,
+          eq: () => query,
+          is: () => query,
+          gte: () => query,
+          maybeSingle: () => query,
+          upsert: (rows: Record<string, unknown>[], options: unknown) => {
+            upserts.push(options);
+            inserted = rows.filter(
+              row => !stored.has(row.achievement_key as string),
+            );
+            inserted.forEach(row =>
+              stored.set(row.achievement_key as string, row),
+            );
+            return query;
+          },
+          then: (resolve: (value: unknown) => void) =>
+            resolve(
+              inserted
+                ? {
+                    data: inserted.map(
+                      ({ achievement_key, type, metadata }) => ({
+                        achievement_key,
+                        type,
+                        metadata,
+                      }),
+                    ),
+                    error: null,
+                  }
+                : results[table],
+            ),
+        };
+        return query;
+      },
+    } as never;
+    const now = new Date('2026-03-04T12:00:00Z');
+
+    expect(keys(await awardAchievements(client, 'user-1', now))).toEqual([
+      'streak_3',
+      'tasks_1',
+    ]);
+    expect(await awardAchievements(client, 'user-1', now)).toEqual([]);
+    expect(stored.size).toBe(2);
+    expect(upserts).toEqual([
+      { onConflict: 'user_id,achievement_key', ignoreDuplicates: true },
+      { onConflict: 'user_id,achievement_key', ignoreDuplicates: true },
+    ]);
+  });
+});
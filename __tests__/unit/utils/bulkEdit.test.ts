@@ -0,0 +1,150 @@
+import {
+  buildBulkEditRequest,
+  describeBulkEditResult,
+  formatDayShift,
+  getTaskSelectionKey,
+} from '@/utils/bulkEdit';
+import {
+  shiftReminderTimes,
+  shiftTimestamp,
+} from '@functions/batch-action/_reschedule';
+
+const items = [
+  { id: 'a1', type: 'assignment' as const },
+  { id: 'l1', type: 'lecture' as const },
+];
+
+const result = (succeeded: number, failed = 0) => ({
+  results: {
+    total: succeeded + failed,
+    succeeded,
+    failed,
+    details: { success: [], failed: [] },
+  },
+});
+
+describe('bulkEdit', () => {
+  it('keys selected tasks by type and id', () => {
+    expect(getTaskSelectionKey({ id: 'x', type: 'lecture' })).toBe('lecture:x');
+    expect(getTaskSelectionKey({ id: 'x', type: 'assignment' })).not.toBe(
+      getTaskSelectionKey({ id: 'x', type: 'lecture' }),
+    );
+  });
+
+  describe('buildBulkEditRequest', () => {
+    it('sends the day shift when rescheduling', () => {
+      expect(
+        buildBulkEditRequest({ action: 'RESCHEDULE', shiftDays: -2 }, items),
+      ).toEqual({ action: 'RESCHEDULE', items, shift_days: -2 });
+    });
+
+    it('sends the target course when moving', () => {
+      expect(
+        buildBulkEditRequest(
+          { action: 'MOVE_COURSE', courseId: 'c2', courseName: 'Physics' },
+          items,
+        ),
+      ).toEqual({ action: 'MOVE_COURSE', items, course_id: 'c2' });
+    });
+
+    it('sends only the items to complete or delete', () => {
+      expect(buildBulkEditRequest({ action: 'COMPLETE' }, items)).toEqual({
+        action: 'COMPLETE',
+        items,
+      });
+      expect(buildBulkEditRequest({ action: 'SOFT_DELETE' }, items)).toEqual({
+        action: 'SOFT_DELETE',
+        items,
+      });
+    });
+  });
+
+  it('formats day shifts in days or whole weeks', () => {
+    expect(formatDayShift(1)).toBe('1 day later');
+    expect(formatDayShift(-3)).toBe('3 days earlier');
+    expect(formatDayShift(7)).toBe('1 week later');
+    expect(formatDayShift(-14)).toBe('2 weeks earlier');
+  });
+
+  describe('describeBulkEditResult', () => {
+    it('says what happened to the tasks', () => {
+      expect(
+        describeBulkEditResult(
+          { action: 'RESCHEDULE', shiftDays: 2 },
+          result(3),
+        ),
+      ).toBe('3 tasks moved 2 days later');
+      expect(
+        describeBulkEditResult(
+          { action: 'MOVE_COURSE', courseId: 'c2', courseName: 'Physics' },
+          result(1),
+        ),
+      ).toBe('1 task moved to Physics');
+      expect(describeBulkEditResult({ action: 'COMPLETE' }, result(2))).toBe(
+        '2 tasks marked complete',
+      );
+      expect(describeBulkEditResult({ action: 'SOFT_DELETE' }, result(4))).toBe(
+        '4 tasks moved to Recycle Bin',
+      );
+    });
+
+    it('mentions tasks that could not be changed', () => {
+      expect(describeBulkEditResult({ action: 'COMPLETE' }, result(2, 1))).toBe(
+        "2 tasks marked complete; 1 couldn't be changed",
+      );
+    });
+  });
+
+  describe('rescheduling on the server', () => {
+    it('moves tasks by calendar days in the user time zone', () => {
+      // 9:00 in New York, across the start of daylight saving time
+      expect(
+        shiftTimestamp('2026-03-06T14:00:00.000Z', 3, 'America/New_York'),
+      ).toBe('2026-03-09T13:00:00.000Z');
+      expect(
+        shiftTimestamp('2026-03-09T13:00:00.000Z', -3, 'America/New_York'),
+      ).toBe('2026-03-06T14:00:00.000Z');
+      expect(shiftTimestamp('2026-03-06T14:00:00.000Z', 1, 'UTC')).toBe(
+        '2026-03-07T14:00:00.000Z',
+      );
+    });
+
+    it('leaves missing dates alone', () => {
+      expect(shiftTimestamp(null, 2, 'UTC')).toBeNull();
+      expect(shiftTimestamp('not a date', 2, 'UTC')).toBe('not a date');
+    });
+
+    it('moves pending reminders with the task', () => {
+      const now = Date.parse('2026-03-05T12:00:00.000Z');
+      expect(
+        shiftReminderTimes(
+          [
+            { id: 'r1', reminder_time: '2026-03-06T13:30:00.000Z' },
+            { id: 'r2', reminder_time: '2026-03-05T18:00:00.000Z' },
+          ],
+          3,
+          'America/New_York',
+          now,
+        ),
+      ).toEqual([
+        { id: 'r1', reminder_time: '2026-03-09T12:30:00.000Z' },
+        { id: 'r2', reminder_time: '2026-03-08T17:00:00.000Z' },
+      ]);
+    });
+
+    it('leaves reminders that would move into the past', () => {
+      const now = Date.parse('2026-03-05T12:00:00.000Z');
+      expect(
+        shiftReminderTimes(
+          [
+            { id: 'r1', reminder_time: '2026-03-06T10:00:00.000Z' },
+            { id: 'r2', reminder_time: '2026-03-08T10:00:00.000Z' },
+          ],
+          -2,
+          'UTC',
+          now,
+        ),
+      ).toEqual([{ id: 'r2', reminder_time: '2026-03-06T10:00:00.000Z' }]);
+    });
+  });
+});
@@ -0,0 +1,206 @@
+import {
+  applyTimeRange,
+  buildRescheduleRequest,
+  CalendarTask,
+  findLectureConflicts,
+  getTaskTimeRange,
+  moveTaskInCalendarData,
+  moveTaskRange,
+  resizeTaskRange,
+  snapMinutes,
+} from '@/utils/calendarReschedule';
+
+const at = (day: number, hour: number, minute = 0) =>
+  new Date(2030, 0, day, hour, minute);
+
+const task = (
+  id: string,
+  type: CalendarTask['type'],
+  start: Date,
+  end?: Date,
+  extra: Partial<CalendarTask> = {},
+): CalendarTask => ({
+  id,
+  type,
+  name: `Task ${id}`,
+  date: start.toISOString(),
+  startTime: start.toISOString(),
+  endTime: end?.toISOString(),
+  courses: { courseName: 'Physics' },
+  ...extra,
+});
+
+describe('calendarReschedule', () => {
+  describe('getTaskTimeRange', () => {
+    it('uses the lecture end time from the database row', () => {
+      const lecture = task('l1', 'lecture', at(14, 9), undefined, {
+        end_time: at(14, 10, 30).toISOString(),
+      });
+      expect(getTaskTimeRange(lecture).end).toEqual(at(14, 10, 30));
+    });
+
+    it('draws tasks without an end as an hour long', () => {
+      const assignment = task('a1', 'assignment', at(14, 9));
+      expect(getTaskTimeRange(assignment)).toEqual({
+        start: at(14, 9),
+        end: at(14, 10),
+      });
+    });
+  });
+
+  it('snaps to 15 minutes', () => {
+    expect(snapMinutes(7)).toBe(0);
+    expect(snapMinutes(8)).toBe(15);
+    expect(snapMinutes(-22)).toBe(-15);
+  });
+
+  it('moves a task by minutes and days, keeping its length', () => {
+    expect(
+      moveTaskRange({ start: at(14, 9), end: at(14, 10, 30) }, 44, 2),
+    ).toEqual({ start: at(16, 9, 45), end: at(16, 11, 15) });
+  });
+
+  it('resizes a task but keeps it at least 15 minutes long', () => {
+    const range = { start: at(14, 9), end: at(14, 10) };
+    expect(resizeTaskRange(range, 31)).toEqual({
+      start: at(14, 9),
+      end: at(14, 10, 30),
+    });
+    expect(resizeTaskRange(range, -120).end).toEqual(at(14, 9, 15));
+  });
+
+  describe('findLectureConflicts', () => {
+    const lecture = task('l1', 'lecture', at(14, 10), at(14, 11));
+    const session = task('s1', 'study_session', at(14, 8));
+
+    it('finds lectures a new range overlaps', () => {
+      expect(
+        findLectureConflicts(
+          session,
+          { start: at(14, 10, 30), end: at(14, 11, 30) },
+          [lecture, session],
+        ),
+      ).toEqual([lecture]);
+    });
+
+    it('ignores lectures that only touch the range', () => {
+      expect(
+        findLectureConflicts(session, { start: at(14, 11), end: at(14, 12) }, [
+          lecture,
+        ]),
+      ).toEqual([]);
+    });
+
+    it('does not count the lecture being moved', () => {
+      expect(
+        findLectureConflicts(
+          lecture,
+          { start: at(14, 10, 15), end: at(14, 11, 15) },
+          [lecture],
+        ),
+      ).toEqual([]);
+    });
+  });
+
+  describe('buildRescheduleRequest', () => {
+    const range = { start: at(15, 9), end: at(15, 11) };
+
+    it('moves assignments and study sessions by their date', () => {
+      expect(
+        buildRescheduleRequest(task('a1', 'assignment', at(14, 9)), range),
+      ).toEqual({
+        kind: 'assignment',
+        request: { due_date: range.start.toISOString() },
+      });
+      expect(
+        buildRescheduleRequest(task('s1', 'study_session', at(14, 9)), range),
+      ).toEqual({
+        kind: 'study_session',
+        request: { session_date: range.start.toISOString() },
+      });
+    });
+
+    it('saves the length of exams in minutes', () => {
+      expect(
+        buildRescheduleRequest(
+          task('e1', 'exam', at(14, 9), at(14, 10)),
+          range,
+        ),
+      ).toEqual({
+        kind: 'exam',
+        request: {
+          exam_id: 'e1',
+          exam_date: range.start.toISOString(),
+          duration_minutes: 120,
+        },
+      });
+    });
+
+    it('moves only the dragged occurrence of a recurring lecture', () => {
+      const occurrence = task('l1', 'lecture', at(14, 9), at(14, 10), {
+        is_occurrence: true,
+        occurrence_start: at(14, 9).toISOString(),
+      });
+      expect(buildRescheduleRequest(occurrence, range)).toEqual({
+        kind: 'lecture_occurrence',
+        request: {
+          lecture_id: 'l1',
+          occurrence_start: at(14, 9).toISOString(),
+          scope: 'this',
+          start_time: range.start.toISOString(),
+          end_time: range.end.toISOString(),
+        },
+      });
+      expect(
+        buildRescheduleRequest(task('l2', 'lecture', at(14, 9)), range),
+      ).toEqual({
+        kind: 'lecture',
+        request: {
+          start_time: range.start.toISOString(),
+          end_time: range.end.toISOString(),
+        },
+      });
+    });
+  });
+
+  it('keeps the end of point-in-time tasks unset', () => {
+    const moved = applyTimeRange(task('a1', 'assignment', at(14, 9)), {
+      start: at(15, 9),
+      end: at(15, 10),
+    });
+    expect(moved.date).toBe(at(15, 9).toISOString());
+    expect(moved.endTime).toBeUndefined();
+  });
+
+  describe('moveTaskInCalendarData', () => {
+    const moving = task('a1', 'assignment', new Date('2030-01-14T09:00:00Z'));
+    const staying = task(
+      's1',
+      'study_session',
+      new Date('2030-01-15T12:00:00Z'),
+    );
+    const data = {
+      '2030-01-14': [moving],
+      '2030-01-15': [staying],
+    };
+
+    it('moves the task to its new day in time order', () => {
+      const result = moveTaskInCalendarData(data, moving, {
+        start: new Date('2030-01-15T08:00:00Z'),
+        end: new Date('2030-01-15T09:00:00Z'),
+      });
+      expect(result['2030-01-14']).toBeUndefined();
+      expect(result['2030-01-15'].map(t => t.id)).toEqual(['a1', 's1']);
+    });
+
+    it('leaves data without the task untouched', () => {
+      const other = task('a2', 'assignment', new Date('2030-01-20T09:00:00Z'));
+      expect(
+        moveTaskInCalendarData(data, other, {
+          start: new Date('2030-01-15T08:00:00Z'),
+          end: new Date('2030-01-15T09:00:00Z'),
+        }),
+      ).toBe(data);
+    });
+  });
+});
@@ -0,0 +1,92 @@
+import {
+  addExamTopics,
+  describeExamRevisionPlan,
+  getExamCountdown,
+  getUpcomingExams,
+  MAX_EXAM_TOPICS,
+} from '@/utils/exams';
+import { Exam, ExamRevisionPlan } from '@/types';
+
+const exam = (id: string, examDate: Date, durationMinutes = 120): Exam => ({
+  id,
+  userId: 'u1',
+  courseId: 'c1',
+  title: `Exam ${id}`,
+  examDate: examDate.toISOString(),
+  durationMinutes,
+  topics: [],
+  createdAt: '2030-01-01T00:00:00.000Z',
+});
+
+const plan = (reviewCounts: number[]): ExamRevisionPlan => ({
+  exam_id: 'e1',
+  exam_date: '2030-02-01T09:00:00.000Z',
+  session_minutes: 60,
+  sessions: reviewCounts.map((count, index) => ({
+    topic: `Topic ${index}`,
+    session_date: '2030-01-20T10:00:00.000Z',
+    reviews: Array.from({ length: count }, () => '2030-01-25T10:00:00.000Z'),
+  })),
+  reviews_enabled: true,
+  replaced_session_count: 0,
+});
+
+describe('addExamTopics', () => {
+  it('splits comma and newline separated topics and skips repeats', () => {
+    expect(
+      addExamTopics(['Limits'], 'limits, Derivatives\n Integrals ,'),
+    ).toEqual(['Limits', 'Derivatives', 'Integrals']);
+  });
+
+  it('keeps at most the allowed number of topics', () => {
+    const many = Array.from({ length: 40 }, (_, index) => `T${index}`);
+    expect(addExamTopics([], many.join(','))).toHaveLength(MAX_EXAM_TOPICS);
+  });
+});
+
+describe('getExamCountdown', () => {
+  const now = new Date(2030, 0, 10, 20, 0);
+
+  it('counts calendar days, not hours', () => {
+    expect(
+      getExamCountdown(new Date(2030, 0, 10, 22).toISOString(), now),
+    ).toEqual({ days: 0, label: 'Today' });
+    expect(
+      getExamCountdown(new Date(2030, 0, 11, 8).toISOString(), now),
+    ).toEqual({ days: 1, label: 'Tomorrow' });
+    expect(
+      getExamCountdown(new Date(2030, 0, 22, 9).toISOString(), now).label,
+    ).toBe('In 12 days');
+  });
+});
+
+describe('getUpcomingExams', () => {
+  it('keeps exams that have not finished, soonest first', () => {
+    const now = new Date('2030-01-10T10:00:00.000Z');
+    const exams = [
+      exam('later', new Date('2030-01-20T09:00:00.000Z')),
+      exam('finished', new Date('2030-01-10T07:00:00.000Z'), 120),
+      exam('ongoing', new Date('2030-01-10T09:00:00.000Z'), 120),
+    ];
+
+    expect(getUpcomingExams(exams, now).map(item => item.id)).toEqual([
+      'ongoing',
+      'later',
+    ]);
+  });
+});
+
+describe('describeExamRevisionPlan', () => {
+  it('returns null when there is nothing to plan', () => {
+    expect(describeExamRevisionPlan(plan([]))).toBeNull();
+  });
+
+  it('counts sessions and reviews', () => {
+    expect(describeExamRevisionPlan(plan([3, 2]))).toBe(
+      '2 study sessions and 5 reviews before the exam',
+    );
+    expect(describeExamRevisionPlan(plan([0]))).toBe(
+      '1 study session before the exam',
+    );
+  });
+});
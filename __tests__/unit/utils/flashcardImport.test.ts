@@ -0,0 +1,365 @@
+import {
+  AnkiCollection,
+  getAnkiDueDate,
+  mapAnkiCollection,
+  mapAnkiReviews,
+  parseDelimitedFlashcards,
+  parseDelimitedRows,
+} from '@functions/_shared/anki-import';
+
+const CREATED_AT = 1700000000; // seconds
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const collection = (
+  overrides: Partial<AnkiCollection> = {},
+): AnkiCollection => ({
+  createdAt: CREATED_AT,
+  models: {
+    '1': {
+      name: 'Basic',
+      type: 0,
+      flds: [
+        { name: 'Front', ord: 0 },
+        { name: 'Back', ord: 1 },
+        { name: 'Notes', ord: 2 },
+      ],
+      tmpls: [
+        {
+          name: 'Card 1',
+          ord: 0,
+          qfmt: '{{Front}}',
+          afmt: '{{FrontSide}}<hr id=answer>{{Back}}',
+        },
+      ],
+    },
+    '2': {
+      name: 'Cloze',
+      type: 1,
+      flds: [
+        { name: 'Text', ord: 0 },
+        { name: 'Extra', ord: 1 },
+      ],
+      tmpls: [
+        {
+          name: 'Cloze',
+          ord: 0,
+          qfmt: '{{cloze:Text}}',
+          afmt: '{{cloze:Text}}<br>{{Extra}}',
+        },
+      ],
+    },
+  },
+  decks: { '10': { name: 'Biology::Cells' } },
+  notes: [
+    { id: 100, mid: 1, flds: 'Cell<br>wall\x1fCellulose\x1fmy own note' },
+    {
+      id: 200,
+      mid: 2,
+      flds: '{{c1::Mitochondria}} are the {{c2::powerhouse}}\x1fOf the cell',
+    },
+  ],
+  cards: [
+    { id: 3, nid: 200, did: 10, ord: 1, type: 0, queue: 0, due: 2, ivl: 0 },
+    { id: 2, nid: 200, did: 10, ord: 0, type: 0, queue: 0, due: 1, ivl: 0 },
+    { id: 1, nid: 100, did: 10, ord: 0, type: 2, queue: 2, due: 5, ivl: 3 },
+  ],
+  revlog: [
+    {
+      id: 1700086400000,
+      cid: 1,
+      ease: 1,
+      ivl: 3,
+      lastIvl: 1,
+      factor: 2300,
+      time: 0,
+      type: 1,
+    },
+    {
+      id: 1700000000000,
+      cid: 1,
+      ease: 3,
+      ivl: 1,
+      lastIvl: -600,
+      factor: 2500,
+      time: 8000,
+      type: 0,
+    },
+    {
+      id: 1700100000000,
+      cid: 1,
+      ease: 0,
+      ivl: 10,
+      lastIvl: 3,
+      factor: 2300,
+      time: 0,
+      type: 4,
+    },
+  ],
+  ...overrides,
+});
+
+describe('mapAnkiReviews', () => {
+  it('carries review history over oldest first, without manual reschedules', () => {
+    expect(mapAnkiReviews(collection().revlog)).toEqual([
+      {
+        review_date: new Date(1700000000000).toISOString(),
+        quality_rating: 4,
+        response_time_seconds: 8,
+        ease_factor: 2.5,
+        interval_days: 1,
+        next_interval_days: 1,
+        repetition_number: 1,
+      },
+      {
+        review_date: new Date(1700086400000).toISOString(),
+        quality_rating: 1,
+        response_time_seconds: null,
+        ease_factor: 2.3,
+        interval_days: 1,
+        next_interval_days: 3,
+        repetition_number: 2,
+      },
+    ]);
+  });
+
+  it('keeps ease factors within the SM-2 range', () => {
+    const [low, high] = mapAnkiReviews([
+      {
+        id: 1,
+        cid: 1,
+        ease: 2,
+        ivl: 1,
+        lastIvl: 1,
+        factor: 900,
+        time: 0,
+        type: 1,
+      },
+      {
+        id: 2,
+        cid: 1,
+        ease: 4,
+        ivl: 1,
+        lastIvl: 1,
+        factor: 4000,
+        time: 0,
+        type: 1,
+      },
+    ]);
+    expect(low.ease_factor).toBe(1.3);
+    expect(low.quality_rating).toBe(3);
+    expect(high.ease_factor).toBe(3);
+    expect(high.quality_rating).toBe(5);
+  });
+});
+
+describe('getAnkiDueDate', () => {
+  it('has no due date for new cards', () => {
+    expect(getAnkiDueDate({ type: 0, due: 12 }, CREATED_AT)).toBeNull();
+  });
+
+  it('counts review cards in days from the collection creation', () => {
+    expect(getAnkiDueDate({ type: 2, due: 5 }, CREATED_AT)).toBe(
+      new Date(CREATED_AT * 1000 + 5 * DAY_MS).toISOString(),
+    );
+  });
+
+  it('reads learning cards as a timestamp in seconds', () => {
+    expect(getAnkiDueDate({ type: 1, due: 1700003600 }, CREATED_AT)).toBe(
+      new Date(1700003600 * 1000).toISOString(),
+    );
+  });
+});
+
+describe('mapAnkiCollection', () => {
+  it('maps notes to cards in one deck per Anki deck', () => {
+    const { decks } = mapAnkiCollection(collection());
+
+    expect(decks).toHaveLength(1);
+    expect(decks[0].title).toBe('Biology / Cells');
+    expect(decks[0].cards).toEqual([
+      {
+        card_type: 'basic',
+        front: 'Cell\nwall',
+        back: 'Cellulose',
+        image: null,
+        due_at: new Date(CREATED_AT * 1000 + 5 * DAY_MS).toISOString(),
+        reviews: expect.arrayContaining([
+          expect.objectContaining({ repetition_number: 2 }),
+        ]),
+      },
+      {
+        card_type: 'cloze',
+        front: '{{c1::Mitochondria}} are the {{c2::powerhouse}}',
+        back: 'Of the cell',
+        image: null,
+        due_at: null,
+        reviews: [],
+      },
+    ]);
+  });
+
+  it('merges the cards of a cloze note into one and reports what it left out', () => {
+    const { decks, warnings } = mapAnkiCollection(collection());
+
+    expect(
+      decks[0].cards.filter(card => card.card_type === 'cloze'),
+    ).toHaveLength(1);
+    expect(warnings).toEqual([
+      'Field "Notes" of note type "Basic" is not shown on any card and was not imported',
+      "1 extra cloze card was merged into their note's cloze card",
+    ]);
+  });
+
+  it('keeps the first image and reports removed audio', () => {
+    const { decks, warnings } = mapAnkiCollection(
+      collection({
+        notes: [
+          {
+            id: 100,
+            mid: 1,
+            flds: 'Heart <img src="heart.png"> [sound:beat.mp3]\x1fOrgan <img src="two.png">\x1f',
+          },
+        ],
+        cards: [
+          {
+            id: 1,
+            nid: 100,
+            did: 10,
+            ord: 0,
+            type: 0,
+            queue: -1,
+            due: 0,
+            ivl: 0,
+          },
+        ],
+        revlog: [],
+      }),
+    );
+
+    expect(decks[0].cards[0]).toMatchObject({
+      front: 'Heart',
+      back: 'Organ',
+      image: 'heart.png',
+    });
+    expect(warnings).toEqual([
+      'Audio was removed from 1 card',
+      '1 card had more than one image; only the first was kept',
+      '1 suspended or buried card was imported as active',
+    ]);
+  });
+
+  it('skips cards without a note', () => {
+    const { decks, warnings } = mapAnkiCollection(
+      collection({
+        cards: [
+          {
+            id: 9,
+            nid: 999,
+            did: 10,
+            ord: 0,
+            type: 0,
+            queue: 0,
+            due: 0,
+            ivl: 0,
+          },
+        ],
+      }),
+    );
+
+    expect(decks).toEqual([]);
+    expect(warnings).toEqual([
+      '1 card without a note or note type was skipped',
+    ]);
+  });
+});
+
+describe('parseDelimitedRows', () => {
+  it('splits rows and cells, honouring quotes', () => {
+    expect(
+      parseDelimitedRows('a,"b, c"\n"say ""hi""",x\r\n\n"multi\nline",y', ','),
+    ).toEqual([
+      ['a', 'b, c'],
+      ['say "hi"', 'x'],
+      ['multi\nline', 'y'],
+    ]);
+  });
+
+  it('keeps a last row without a line break', () => {
+    expect(parseDelimitedRows('q\ta', '\t')).toEqual([['q', 'a']]);
+  });
+});
+
+describe('parseDelimitedFlashcards', () => {
+  it('skips a header row and names the deck after the file', () => {
+    const { decks, warnings } = parseDelimitedFlashcards(
+      'Front,Back\nmitosis,cell division\nosmosis,water diffusion\n',
+      'biology.csv',
+    );
+
+    expect(warnings).toEqual([]);
+    expect(decks).toEqual([
+      {
+        title: 'biology',
+        cards: [
+          expect.objectContaining({
+            card_type: 'basic',
+            front: 'mitosis',
+            back: 'cell division',
+          }),
+          expect.objectContaining({
+            front: 'osmosis',
+            back: 'water diffusion',
+          }),
+        ],
+      },
+    ]);
+  });
+
+  it('keeps a first row that is a card', () => {
+    const { decks } = parseDelimitedFlashcards('hola,hello\n', 'spanish.csv');
+    expect(decks[0].cards).toHaveLength(1);
+  });
+
+  it('reads Anki text export headers', () => {
+    const { decks, warnings } = parseDelimitedFlashcards(
+      '#separator:tab\n#html:true\n#deck:Spanish\nhola<br>adiós\thello\textra\n{{c1::gato}} means cat\t\n',
+      'export.txt',
+    );
+
+    expect(decks[0].title).toBe('Spanish');
+    expect(decks[0].cards).toEqual([
+      expect.objectContaining({
+        card_type: 'basic',
+        front: 'hola\nadiós',
+        back: 'hello',
+      }),
+      expect.objectContaining({
+        card_type: 'cloze',
+        front: '{{c1::gato}} means cat',
+        back: null,
+      }),
+    ]);
+    expect(warnings).toEqual(['Column 3 was not imported (1 row)']);
+  });
+
+  it('detects semicolon and tab separators', () => {
+    expect(
+      parseDelimitedFlashcards('q;a\n', 'cards.csv').decks[0].cards[0],
+    ).toMatchObject({ front: 'q', back: 'a' });
+    expect(
+      parseDelimitedFlashcards('q,1\ta\n', 'cards.tsv').decks[0].cards[0],
+    ).toMatchObject({ front: 'q,1', back: 'a' });
+  });
+
+  it('skips rows without a back', () => {
+    const { decks, warnings } = parseDelimitedFlashcards(
+      'only a front,\nq,a\n',
+      'cards.csv',
+    );
+
+    expect(decks[0].cards).toHaveLength(1);
+    expect(warnings).toEqual([
+      '1 row without both a front and a back was skipped',
+    ]);
+  });
+});
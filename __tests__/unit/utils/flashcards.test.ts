@@ -0,0 +1,105 @@
+import {
+  advanceReviewQueue,
+  describeNextCardReview,
+  getClozeQuestion,
+  getDueFlashcards,
+  isFlashcardComplete,
+  splitCloze,
+} from '@/utils/flashcards';
+import { Flashcard } from '@/types';
+
+const card = (id: string, dueAt: string): Flashcard => ({
+  id,
+  deckId: 'd1',
+  cardType: 'basic',
+  front: `Front ${id}`,
+  back: `Back ${id}`,
+  dueAt,
+  reviewCount: 0,
+  createdAt: '2030-01-01T00:00:00.000Z',
+});
+
+describe('splitCloze', () => {
+  it('splits plain and Anki-style deletions with hints', () => {
+    expect(
+      splitCloze('{{c1::Paris}} is the capital of {{France::country}}.'),
+    ).toEqual([
+      { text: 'Paris', hint: undefined, isCloze: true },
+      { text: ' is the capital of ', isCloze: false },
+      { text: 'France', hint: 'country', isCloze: true },
+      { text: '.', isCloze: false },
+    ]);
+  });
+
+  it('leaves text without deletions as one segment', () => {
+    expect(splitCloze('No deletions')).toEqual([
+      { text: 'No deletions', isCloze: false },
+    ]);
+  });
+});
+
+describe('getClozeQuestion', () => {
+  it('hides every deletion, showing hints where given', () => {
+    expect(getClozeQuestion('E = {{mc^2}} and {{c2::F = ma::Newton}}')).toBe(
+      'E = [...] and [Newton]',
+    );
+  });
+});
+
+describe('isFlashcardComplete', () => {
+  it('needs a back for basic cards and a deletion for cloze cards', () => {
+    expect(
+      isFlashcardComplete({ cardType: 'basic', front: 'Q', back: ' ' }),
+    ).toBe(false);
+    expect(
+      isFlashcardComplete({ cardType: 'basic', front: 'Q', back: 'A' }),
+    ).toBe(true);
+    expect(isFlashcardComplete({ cardType: 'cloze', front: 'No braces' })).toBe(
+      false,
+    );
+    expect(isFlashcardComplete({ cardType: 'cloze', front: 'A {{b}}' })).toBe(
+      true,
+    );
+  });
+});
+
+describe('getDueFlashcards', () => {
+  it('keeps due cards, the most overdue first', () => {
+    const now = new Date('2030-01-10T12:00:00.000Z');
+    const cards = [
+      card('later', '2030-01-11T00:00:00.000Z'),
+      card('today', '2030-01-10T08:00:00.000Z'),
+      card('overdue', '2030-01-02T00:00:00.000Z'),
+    ];
+
+    expect(getDueFlashcards(cards, now).map(item => item.id)).toEqual([
+      'overdue',
+      'today',
+    ]);
+  });
+});
+
+describe('advanceReviewQueue', () => {
+  const queue = [card('a', ''), card('b', ''), card('c', '')];
+
+  it('drops remembered cards and requeues forgotten ones at the back', () => {
+    expect(advanceReviewQueue(queue, 4).map(item => item.id)).toEqual([
+      'b',
+      'c',
+    ]);
+    expect(advanceReviewQueue(queue, 1).map(item => item.id)).toEqual([
+      'b',
+      'c',
+      'a',
+    ]);
+    expect(advanceReviewQueue([], 4)).toEqual([]);
+  });
+});
+
+describe('describeNextCardReview', () => {
+  it('describes when the card comes back', () => {
+    expect(describeNextCardReview(1, 1)).toBe('Again in this session');
+    expect(describeNextCardReview(4, 1)).toBe('Next review in 1 day');
+    expect(describeNextCardReview(5, 12)).toBe('Next review in 12 days');
+  });
+});
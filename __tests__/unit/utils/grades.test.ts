@@ -0,0 +1,122 @@
+import {
+  calculateCourseGrade,
+  calculateGpa,
+  getAssignmentWeights,
+  getLetterGrade,
+  getRequiredFinalScore,
+} from '@/utils/grades';
+import { GradingScheme } from '@/types';
+
+const scheme: GradingScheme = {
+  categories: [
+    { id: 'homework', name: 'Homework', weight: 20 },
+    { id: 'exams', name: 'Exams', weight: 80 },
+  ],
+  letterGrades: [
+    { letter: 'A', minPercent: 90, gradePoints: 4 },
+    { letter: 'B', minPercent: 80, gradePoints: 3 },
+    { letter: 'C', minPercent: 70, gradePoints: 2 },
+    { letter: 'F', minPercent: 0, gradePoints: 0 },
+  ],
+};
+
+describe('grades', () => {
+  describe('getAssignmentWeights', () => {
+    it('splits what is left of a category between unweighted assignments', () => {
+      const weights = getAssignmentWeights(
+        [
+          { id: 'hw1', gradeCategory: 'homework' },
+          { id: 'hw2', gradeCategory: 'homework' },
+          { id: 'midterm', gradeCategory: 'exams', weight: 30 },
+          { id: 'final', gradeCategory: 'exams' },
+          { id: 'extra' },
+        ],
+        scheme,
+      );
+
+      expect(Object.fromEntries(weights)).toEqual({
+        hw1: 10,
+        hw2: 10,
+        midterm: 30,
+        final: 50,
+        extra: 0,
+      });
+    });
+
+    it('falls back to points without weights or categories', () => {
+      const weights = getAssignmentWeights([
+        { id: 'a', maxScore: 50 },
+        { id: 'b', maxScore: 25 },
+      ]);
+      expect(Object.fromEntries(weights)).toEqual({ a: 50, b: 25 });
+    });
+  });
+
+  describe('calculateCourseGrade', () => {
+    it('averages graded work by weight', () => {
+      const grade = calculateCourseGrade(
+        [
+          { id: 'hw1', gradeCategory: 'homework', score: 9, maxScore: 10 },
+          { id: 'hw2', gradeCategory: 'homework', score: 7, maxScore: 10 },
+          {
+            id: 'midterm',
+            gradeCategory: 'exams',
+            weight: 30,
+            score: 80,
+            maxScore: 100,
+          },
+          { id: 'final', gradeCategory: 'exams' },
+        ],
+        scheme,
+      );
+
+      // (90*10 + 70*10 + 80*30) / 50
+      expect(grade.percent).toBeCloseTo(80);
+      expect(grade.letter?.letter).toBe('B');
+      expect(grade.gradedCount).toBe(3);
+      expect(grade.gradedWeight).toBe(50);
+      expect(grade.remainingWeight).toBe(50);
+    });
+
+    it('adds up points when nothing is weighted', () => {
+      const grade = calculateCourseGrade([
+        { id: 'a', score: 45, maxScore: 50 },
+        { id: 'b', score: 15, maxScore: 25 },
+        { id: 'c', maxScore: 25 },
+      ]);
+
+      expect(grade.percent).toBeCloseTo(80);
+      expect(grade.gradedWeight).toBeNull();
+      expect(grade.letter?.letter).toBe('B-');
+    });
+
+    it('has no grade until something is graded', () => {
+      const grade = calculateCourseGrade([{ id: 'a', maxScore: 10 }], scheme);
+      expect(grade.percent).toBeNull();
+      expect(grade.letter).toBeNull();
+    });
+  });
+
+  it('rounds before matching a letter boundary', () => {
+    expect(getLetterGrade(89.999999, scheme)?.letter).toBe('A');
+    expect(getLetterGrade(89.9, scheme)?.letter).toBe('B');
+  });
+
+  it('works out the score needed on the final', () => {
+    expect(getRequiredFinalScore(80, 50, 85)).toBeCloseTo(90);
+    expect(getRequiredFinalScore(60, 20, 90)).toBeGreaterThan(100);
+    expect(getRequiredFinalScore(95, 10, 80)).toBeLessThanOrEqual(0);
+    expect(getRequiredFinalScore(80, 0, 85)).toBeNull();
+  });
+
+  it('weights the GPA by credits and skips ungraded courses', () => {
+    expect(
+      calculateGpa([
+        { credits: 4, gradePoints: 4 },
+        { credits: 2, gradePoints: 2.5 },
+        { gradePoints: 3 },
+        { credits: 3, gradePoints: null },
+      ]),
+    ).toEqual({ gpa: 24 / 7, credits: 7, courseCount: 3 });
+  });
+});
@@ -0,0 +1,69 @@
+import { formatMessage, pluralCategory } from '@/i18n/messageFormat';
+import { resolveLocale, t } from '@/i18n';
+
+describe('pluralCategory', () => {
+  it('uses one/other for English and Spanish', () => {
+    expect(pluralCategory('en', 1)).toBe('one');
+    expect(pluralCategory('en', 0)).toBe('other');
+    expect(pluralCategory('es', 2)).toBe('other');
+  });
+
+  it('treats zero as singular in French', () => {
+    expect(pluralCategory('fr', 0)).toBe('one');
+    expect(pluralCategory('fr', 1)).toBe('one');
+    expect(pluralCategory('fr', 2)).toBe('other');
+  });
+
+  it('covers all six Arabic categories', () => {
+    expect(pluralCategory('ar', 0)).toBe('zero');
+    expect(pluralCategory('ar', 1)).toBe('one');
+    expect(pluralCategory('ar', 2)).toBe('two');
+    expect(pluralCategory('ar', 5)).toBe('few');
+    expect(pluralCategory('ar', 11)).toBe('many');
+    expect(pluralCategory('ar', 100)).toBe('other');
+  });
+});
+
+describe('formatMessage', () => {
+  it('interpolates named arguments', () => {
+    expect(formatMessage('Hi {name}!', { name: 'Ada' })).toBe('Hi Ada!');
+  });
+
+  it('selects plural branches and replaces #', () => {
+    const message = '{count, plural, =0 {none} one {# item} other {# items}}';
+    expect(formatMessage(message, { count: 0 })).toBe('none');
+    expect(formatMessage(message, { count: 1 })).toBe('1 item');
+    expect(formatMessage(message, { count: 4 })).toBe('4 items');
+  });
+
+  it('supports select arguments', () => {
+    const message = '{kind, select, exam {Exam} other {Task}}';
+    expect(formatMessage(message, { kind: 'exam' })).toBe('Exam');
+    expect(formatMessage(message, { kind: 'quiz' })).toBe('Task');
+  });
+
+  it('returns malformed messages unchanged', () => {
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    expect(formatMessage('{count, plural, one {#}')).toBe(
+      '{count, plural, one {#}',
+    );
+  });
+});
+
+describe('t', () => {
+  it('translates into the requested locale', () => {
+    expect(t('settings.language', undefined, 'es')).toBe('Idioma');
+    expect(t('reminders.chooseUpTo', { count: 2 }, 'ar')).toBe(
+      'اختر حتى تذكيرين',
+    );
+    expect(t('reminders.chooseUpTo', { count: 1 }, 'fr')).toBe(
+      "Choisissez jusqu'à 1 rappel",
+    );
+  });
+
+  it('resolves region variants to a supported locale', () => {
+    expect(resolveLocale('fr-CA')).toBe('fr');
+    expect(resolveLocale('ar_EG')).toBe('ar');
+    expect(resolveLocale('de-DE')).toBeNull();
+  });
+});
@@ -0,0 +1,270 @@
+import {
+  NO_RECURRENCE,
+  buildRecurringPattern,
+  describeLectureRecurrence,
+  parseLectureRecurrence,
+} from '@/utils/lectureRecurrence';
+import { buildTimeZone, formatZonedDateTime } from '@functions/_shared/ical';
+import { clipRecurrenceToTerm } from '@functions/_shared/lecture-occurrences';
+import {
+  expandRecurrence,
+  formatRRule,
+  parseRecurringPattern,
+  type RecurrenceSet,
+} from '@functions/_shared/rrule';
+
+const utc = (date: Date) =>
+  date
+    .toISOString()
+    .replace(/[-:]/g, '')
+    .replace(/\.\d{3}/, '');
+
+describe('lecture recurrence', () => {
+  const startTime = new Date(2026, 2, 2, 9, 30); // Mon 2 Mar 2026, 09:30
+
+  describe('parseLectureRecurrence', () => {
+    it('treats empty, none and non-recurring lectures as one-off', () => {
+      expect(parseLectureRecurrence(null)).toEqual(NO_RECURRENCE);
+      expect(parseLectureRecurrence('none')).toEqual(NO_RECURRENCE);
+      expect(parseLectureRecurrence('weekly', false)).toEqual(NO_RECURRENCE);
+    });
+
+    it('reads the legacy weekly and bi-weekly values', () => {
+      expect(parseLectureRecurrence('weekly')).toMatchObject({
+        frequency: 'weekly',
+        interval: 1,
+      });
+      expect(parseLectureRecurrence('bi-weekly')).toMatchObject({
+        frequency: 'weekly',
+        interval: 2,
+      });
+    });
+
+    it('reads BYDAY, INTERVAL and COUNT', () => {
+      expect(
+        parseLectureRecurrence(
+          'RRULE:FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,TH;COUNT=10',
+        ),
+      ).toMatchObject({
+        frequency: 'weekly',
+        interval: 2,
+        weekdays: ['MO', 'TH'],
+        end: 'count',
+        count: 10,
+      });
+    });
+
+    it('falls back to no recurrence for unsupported frequencies', () => {
+      expect(parseLectureRecurrence('RRULE:FREQ=YEARLY')).toEqual(
+        NO_RECURRENCE,
+      );
+    });
+  });
+
+  describe('buildRecurringPattern', () => {
+    it('returns null for one-off lectures', () => {
+      expect(buildRecurringPattern(NO_RECURRENCE, startTime)).toBeNull();
+    });
+
+    it('orders weekdays Monday-first and adds skipped dates at the lecture time', () => {
+      const pattern = buildRecurringPattern(
+        {
+          ...NO_RECURRENCE,
+          frequency: 'weekly',
+          weekdays: ['TH', 'MO', 'TH'],
+          skippedDates: [new Date(2026, 2, 5), new Date(2026, 2, 5, 15)],
+        },
+        startTime,
+      );
+
+      expect(pattern).toBe(
+        `RRULE:FREQ=WEEKLY;BYDAY=MO,TH\nEXDATE:${utc(new Date(2026, 2, 5, 9, 30))}`,
+      );
+    });
+
+    it('ends the series at the end of the UNTIL day', () => {
+      const pattern = buildRecurringPattern(
+        {
+          ...NO_RECURRENCE,
+          frequency: 'daily',
+          interval: 3,
+          end: 'until',
+          until: new Date(2026, 5, 12),
+        },
+        startTime,
+      );
+
+      expect(pattern).toBe(
+        `RRULE:FREQ=DAILY;INTERVAL=3;UNTIL=${utc(new Date(2026, 5, 12, 23, 59, 59))}`,
+      );
+    });
+
+    it('round-trips through parseLectureRecurrence', () => {
+      const recurrence = {
+        ...NO_RECURRENCE,
+        frequency: 'weekly' as const,
+        interval: 2,
+        weekdays: ['MO' as const, 'WE' as const],
+        end: 'count' as const,
+        count: 8,
+        skippedDates: [new Date(2026, 2, 16)],
+      };
+
+      expect(
+        parseLectureRecurrence(buildRecurringPattern(recurrence, startTime)),
+      ).toEqual(recurrence);
+    });
+  });
+
+  describe('describeLectureRecurrence', () => {
+    it('summarises the rule', () => {
+      expect(describeLectureRecurrence(NO_RECURRENCE)).toEqual({
+        title: 'One-time',
+        detail: '',
+      });
+      expect(
+        describeLectureRecurrence({
+          ...NO_RECURRENCE,
+          frequency: 'weekly',
+          interval: 2,
+          weekdays: ['MO', 'TH'],
+          end: 'until',
+          until: new Date(2026, 5, 12),
+          skippedDates: [new Date(2026, 2, 5)],
+        }),
+      ).toEqual({
+        title: 'Every 2 weeks',
+        detail: 'On Mon, Thu · until 12 Jun 2026 · 1 date skipped',
+      });
+    });
+  });
+});
+
+describe('exporting lectures on the server', () => {
+  it('writes times on the wall clock of the zone', () => {
+    // Monday 18:00 in Los Angeles is already Tuesday in UTC
+    const start = new Date('2026-03-03T02:00:00Z');
+
+    expect(formatZonedDateTime(start, 'America/Los_Angeles')).toBe(
+      '20260302T180000',
+    );
+    expect(formatZonedDateTime(start, 'UTC')).toBe('20260303T020000');
+  });
+
+  it('keeps a multi-day series on its local weekdays', () => {
+    // Mon/Wed 18:00 in Los Angeles is Tue/Thu in UTC, so the start and
+    // BYDAY have to be read on the zone's wall clock
+    const start = new Date('2026-03-03T02:00:00Z');
+    const recurrence = parseRecurringPattern('RRULE:FREQ=WEEKLY;BYDAY=MO,WE')!;
+
+    expect(formatRRule(recurrence.rule)).toBe('FREQ=WEEKLY;BYDAY=MO,WE');
+    expect(formatZonedDateTime(start, 'America/Los_Angeles')).toBe(
+      '20260302T180000',
+    );
+    expect(
+      expandRecurrence(
+        recurrence,
+        start,
+        start,
+        new Date('2026-03-10T00:00:00Z'),
+        'America/Los_Angeles',
+      ).map(date => formatZonedDateTime(date, 'America/Los_Angeles')),
+    ).toEqual(['20260302T180000', '20260304T180000']);
+  });
+
+  it('describes the daylight saving changes of the zone', () => {
+    const lines = buildTimeZone('America/Los_Angeles', 2026);
+
+    expect(lines.slice(0, 2)).toEqual([
+      'BEGIN:VTIMEZONE',
+      'TZID:America/Los_Angeles',
+    ]);
+    expect(lines).toEqual(
+      expect.arrayContaining([
+        'DTSTART:20260308T020000',
+        'DTSTART:20261101T020000',
+        'RRULE:FREQ=YEARLY;BYMONTH=3;BYDAY=2SU',
+        'RRULE:FREQ=YEARLY;BYMONTH=11;BYDAY=1SU',
+      ]),
+    );
+    // The change before the first event is listed so an offset is in force
+    expect(lines).toContain('DTSTART:20251102T020000');
+    expect(lines[lines.length - 1]).toBe('END:VTIMEZONE');
+  });
+
+  it('writes the last weekday of a month as -1', () => {
+    expect(buildTimeZone('Europe/Berlin', 2026)).toEqual(
+      expect.arrayContaining([
+        'RRULE:FREQ=YEARLY;BYMONTH=3;BYDAY=-1SU',
+        'RRULE:FREQ=YEARLY;BYMONTH=10;BYDAY=-1SU',
+      ]),
+    );
+  });
+
+  it('has a single observance for zones without daylight saving', () => {
+    expect(buildTimeZone('Asia/Tokyo', 2026)).toEqual([
+      'BEGIN:VTIMEZONE',
+      'TZID:Asia/Tokyo',
+      'BEGIN:STANDARD',
+      'DTSTART:19700101T000000',
+      'TZOFFSETFROM:+0900',
+      'TZOFFSETTO:+0900',
+      'END:STANDARD',
+      'END:VTIMEZONE',
+    ]);
+  });
+
+  describe('clipRecurrenceToTerm', () => {
+    // Mondays at 09:00 UTC, starting well before the term
+    const weekly: RecurrenceSet = {
+      rule: {
+        freq: 'WEEKLY',
+        interval: 1,
+        byDay: ['MO'],
+        until: null,
+        count: null,
+        weekStart: 'MO',
+      },
+      exdates: [],
+    };
+    const dtstart = new Date('2025-09-01T09:00:00Z');
+    const term = {
+      id: 'term-1',
+      start_date: '2026-01-05',
+      end_date: '2026-02-27',
+      breaks: [{ start_date: '2026-02-09', end_date: '2026-02-13' }],
+      archived_at: null,
+    };
+
+    it('runs the series from the first to the last lecture of the term', () => {
+      const clipped = clipRecurrenceToTerm(weekly, dtstart, term, 'UTC');
+
+      expect(clipped?.start).toEqual(new Date('2026-01-05T09:00:00Z'));
+      expect(clipped?.recurrence.rule.until).toEqual(
+        new Date('2026-02-23T09:00:00Z'),
+      );
+      expect(clipped?.recurrence.rule.count).toBeNull();
+    });
+
+    it('cancels lectures during breaks unless edited on their own', () => {
+      const inBreak = new Date('2026-02-09T09:00:00Z');
+
+      expect(
+        clipRecurrenceToTerm(weekly, dtstart, term, 'UTC')?.recurrence.exdates,
+      ).toEqual([inBreak]);
+      expect(
+        clipRecurrenceToTerm(weekly, dtstart, term, 'UTC', [inBreak])
+          ?.recurrence.exdates,
+      ).toEqual([]);
+    });
+
+    it('leaves out a series with no lectures in the term', () => {
+      const ended: RecurrenceSet = {
+        ...weekly,
+        rule: { ...weekly.rule, until: new Date('2025-12-15T09:00:00Z') },
+      };
+
+      expect(clipRecurrenceToTerm(ended, dtstart, term, 'UTC')).toBeNull();
+    });
+  });
+});
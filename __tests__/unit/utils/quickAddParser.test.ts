@@ -0,0 +1,122 @@
+import { parseQuickAdd } from '@/utils/quickAddParser';
+import { Course } from '@/types';
+
+const course = (
+  id: string,
+  courseCode: string,
+  courseName: string,
+): Course => ({
+  id,
+  courseCode,
+  courseName,
+  userId: 'user-1',
+  createdAt: '2030-01-01T00:00:00Z',
+  updatedAt: '2030-01-01T00:00:00Z',
+});
+
+const courses = [
+  course('c-cs', 'CS101', 'Intro to Programming'),
+  course('c-math', 'MATH 200', 'Linear Algebra'),
+];
+
+// Monday 4 March 2030, 08:00 UTC
+const now = new Date('2030-03-04T08:00:00Z');
+const parse = (input: string, timeZone = 'UTC') =>
+  parseQuickAdd(input, courses, now, timeZone);
+
+describe('parseQuickAdd', () => {
+  it('reads an assignment with a course and due date', () => {
+    const result = parse('CS101 problem set 3 due Fri 5pm');
+
+    expect(result.taskType).toBe('assignment');
+    expect(result.course?.id).toBe('c-cs');
+    expect(result.title).toBe('Problem set 3');
+    expect(result.dateTime?.toISOString()).toBe('2030-03-08T17:00:00.000Z');
+    expect(result.recurrence).toBeUndefined();
+  });
+
+  it('reads a recurring lecture with a time range and room', () => {
+    const result = parse('lecture MATH200 every Tue Thu 10-11 room B12');
+
+    expect(result.taskType).toBe('lecture');
+    expect(result.course?.id).toBe('c-math');
+    expect(result.title).toBe('Lecture');
+    expect(result.venue).toBe('Room B12');
+    expect(result.recurrence).toMatchObject({
+      frequency: 'weekly',
+      interval: 1,
+      weekdays: ['TU', 'TH'],
+    });
+    expect(result.dateTime?.toISOString()).toBe('2030-03-05T10:00:00.000Z');
+    expect(result.endTime?.toISOString()).toBe('2030-03-05T11:00:00.000Z');
+  });
+
+  it('reads a study session with a relative day and part of day', () => {
+    const result = parse('review chapter 4 tomorrow evening');
+
+    expect(result.taskType).toBe('study_session');
+    expect(result.course).toBeUndefined();
+    expect(result.title).toBe('Review chapter 4');
+    expect(result.dateTime?.toISOString()).toBe('2030-03-05T19:00:00.000Z');
+  });
+
+  it('resolves dates in the user time zone', () => {
+    // Still Sunday 3 March evening in New York (UTC-5)
+    const result = parseQuickAdd(
+      'essay due tomorrow 9am',
+      courses,
+      new Date('2030-03-04T02:00:00Z'),
+      'America/New_York',
+    );
+
+    expect(result.dateTime?.toISOString()).toBe('2030-03-04T14:00:00.000Z');
+  });
+
+  it('keeps bare numbers in the title unless they follow a date or "at"', () => {
+    expect(parse('read chapter 4-5 for CS101').title).toBe('Read chapter 4-5');
+    expect(parse('read chapter 4-5 for CS101').dateTime).toBeUndefined();
+    expect(parse('group meeting Wed at 3').dateTime?.toISOString()).toBe(
+      '2030-03-06T15:00:00.000Z',
+    );
+  });
+
+  it('matches courses by full name and month dates', () => {
+    const result = parse('Linear Algebra quiz on March 20th');
+
+    expect(result.course?.id).toBe('c-math');
+    expect(result.title).toBe('Quiz');
+    expect(result.dateTime?.toISOString()).toBe('2030-03-20T09:00:00.000Z');
+  });
+
+  it('maps recurrence phrases', () => {
+    expect(parse('seminar every other week').recurrence).toMatchObject({
+      frequency: 'weekly',
+      interval: 2,
+      weekdays: [],
+    });
+    expect(parse('lab daily 2pm').recurrence?.frequency).toBe('daily');
+    expect(
+      parse('tutorial on mondays and wednesdays').recurrence?.weekdays,
+    ).toEqual(['MO', 'WE']);
+  });
+
+  it('defaults assignments without a time to the end of the day', () => {
+    expect(parse('essay due Mar 10').dateTime?.toISOString()).toBe(
+      '2030-03-10T23:59:00.000Z',
+    );
+  });
+
+  it('ignores days the month does not have', () => {
+    expect(parse('essay due Feb 30').dateTime).toBeUndefined();
+    expect(parse('essay due 31st of April').dateTime).toBeUndefined();
+    expect(parse('essay due 2030-02-29').dateTime).toBeUndefined();
+    expect(parse('essay due Feb 29').dateTime).toBeUndefined();
+    expect(parse('essay due Feb 29 2032').dateTime?.toISOString()).toBe(
+      '2032-02-29T23:59:00.000Z',
+    );
+  });
+
+  it('returns only a title when nothing else is recognised', () => {
+    expect(parse('call mom')).toEqual({ title: 'Call mom' });
+  });
+});
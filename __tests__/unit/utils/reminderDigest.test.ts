@@ -0,0 +1,45 @@
+import { digestReminderTask, parseDigestIds } from '@/utils/reminderDigest';
+
+describe('parseDigestIds', () => {
+  it('splits the ids parameter', () => {
+    expect(parseDigestIds('a,b,c')).toEqual(['a', 'b', 'c']);
+  });
+
+  it('drops blanks and repeated ids', () => {
+    expect(parseDigestIds(' a, ,b,a,')).toEqual(['a', 'b']);
+  });
+
+  it('returns nothing for a missing parameter', () => {
+    expect(parseDigestIds(undefined)).toEqual([]);
+    expect(parseDigestIds('')).toEqual([]);
+  });
+
+  it('caps the number of ids', () => {
+    const ids = Array.from({ length: 80 }, (_, i) => `id-${i}`).join(',');
+    expect(parseDigestIds(ids)).toHaveLength(50);
+  });
+});
+
+describe('digestReminderTask', () => {
+  it('opens the task the reminder belongs to', () => {
+    expect(
+      digestReminderTask({ reminder_type: 'assignment', assignment_id: 'a1' }),
+    ).toEqual({ taskId: 'a1', taskType: 'assignment' });
+    expect(
+      digestReminderTask({ reminder_type: 'lecture', lecture_id: 'l1' }),
+    ).toEqual({ taskId: 'l1', taskType: 'lecture' });
+  });
+
+  it('opens the study session for spaced repetition reviews', () => {
+    expect(
+      digestReminderTask({
+        reminder_type: 'spaced_repetition',
+        session_id: 's1',
+      }),
+    ).toEqual({ taskId: 's1', taskType: 'study_session' });
+  });
+
+  it('has nothing to open for reminders without a task', () => {
+    expect(digestReminderTask({ reminder_type: 'exam' })).toBeNull();
+  });
+});
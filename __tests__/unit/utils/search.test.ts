@@ -0,0 +1,196 @@
+import {
+  addRecentSearch,
+  getHighlightSegments,
+  getSearchSnippet,
+  getSearchTerms,
+  rankSearchMatch,
+  searchCachedQueries,
+} from '@/utils/search';
+
+const course = (id: string, courseName: string, courseCode?: string) => ({
+  id,
+  courseName,
+  courseCode,
+  userId: 'u1',
+  createdAt: '2030-01-01T00:00:00Z',
+  updatedAt: '2030-01-01T00:00:00Z',
+});
+
+const cachedQueries: [readonly unknown[], unknown][] = [
+  [
+    ['courses', '', 'name-asc', false],
+    {
+      pages: [
+        {
+          courses: [
+            course('c1', 'Linear Algebra', 'MATH201'),
+            course('c2', 'Organic Chemistry', 'CHEM110'),
+          ],
+          nextOffset: undefined,
+          hasMore: false,
+        },
+      ],
+      pageParams: [0],
+    },
+  ],
+  [
+    ['assignments', 'due_date', true],
+    {
+      pages: [
+        {
+          assignments: [
+            {
+              id: 'a1',
+              userId: 'u1',
+              courseId: 'c1',
+              title: 'Problem set 3',
+              description: 'Eigenvalues and matrix diagonalisation',
+              dueDate: '2030-01-20T09:00:00Z',
+              createdAt: '2030-01-01T00:00:00Z',
+            },
+          ],
+        },
+      ],
+      pageParams: [0],
+    },
+  ],
+  [
+    ['calendarData', '2030-01-13'],
+    {
+      '2030-01-14': [
+        {
+          id: 'l1',
+          type: 'lecture',
+          name: 'Matrices',
+          date: '2030-01-14T10:00:00Z',
+          startTime: '2030-01-14T10:00:00Z',
+          course_id: 'c1',
+          venue: 'Hall B',
+          courses: { courseName: 'Linear Algebra' },
+        },
+        {
+          id: 's1',
+          type: 'study_session',
+          name: 'Matrix revision',
+          date: '2030-01-14T15:00:00Z',
+          course_id: 'c1',
+          courses: { courseName: 'Linear Algebra' },
+        },
+      ],
+      '2030-01-21': [
+        {
+          id: 'l1',
+          type: 'lecture',
+          name: 'Matrices',
+          date: '2030-01-21T10:00:00Z',
+          startTime: '2030-01-21T10:00:00Z',
+          course_id: 'c1',
+          venue: 'Hall B',
+          courses: { courseName: 'Linear Algebra' },
+        },
+      ],
+    },
+  ],
+];
+
+describe('search', () => {
+  it('splits a query into lowercase words', () => {
+    expect(getSearchTerms('  Lin-Alg, MATH201! ')).toEqual([
+      'lin',
+      'alg',
+      'math201',
+    ]);
+  });
+
+  describe('rankSearchMatch', () => {
+    it('needs every term to start a word', () => {
+      expect(rankSearchMatch(['lin', 'alg'], 'Linear Algebra')).toBe(1);
+      expect(rankSearchMatch(['near'], 'Linear Algebra')).toBe(0);
+      expect(rankSearchMatch(['lin', 'phys'], 'Linear Algebra')).toBe(0);
+    });
+
+    it('ranks matches in the title above matches in the text', () => {
+      expect(rankSearchMatch(['matrix'], 'Problem set', 'Matrix algebra')).toBe(
+        0.5,
+      );
+    });
+  });
+
+  it('highlights the matching start of each word', () => {
+    expect(getHighlightSegments('Linear Algebra, linked', ['lin'])).toEqual([
+      { text: 'Lin', highlighted: true },
+      { text: 'ear Algebra, ', highlighted: false },
+      { text: 'lin', highlighted: true },
+      { text: 'ked', highlighted: false },
+    ]);
+  });
+
+  it('shortens long text around the first match', () => {
+    const text = `${'word '.repeat(40)}eigenvalue ${'word '.repeat(40)}`;
+    const snippet = getSearchSnippet(text, ['eigen'], 60);
+    expect(snippet).toContain('eigenvalue');
+    expect(snippet.startsWith('…')).toBe(true);
+    expect(snippet.endsWith('…')).toBe(true);
+  });
+
+  describe('searchCachedQueries', () => {
+    it('finds courses by code and tasks by their text', () => {
+      expect(
+        searchCachedQueries(cachedQueries, { query: 'mat' }).map(
+          result => `${result.type}:${result.id}`,
+        ),
+      ).toEqual([
+        'course:c1',
+        'assignment:a1',
+        'study_session:s1',
+        'lecture:l1',
+      ]);
+    });
+
+    it('lists a recurring lecture once and fills in course names', () => {
+      const results = searchCachedQueries(cachedQueries, { query: 'hall' });
+      expect(results).toHaveLength(1);
+      expect(results[0]).toMatchObject({
+        type: 'lecture',
+        id: 'l1',
+        subtitle: 'Hall B',
+      });
+
+      const [assignment] = searchCachedQueries(cachedQueries, {
+        query: 'eigen',
+      });
+      expect(assignment.course_name).toBe('Linear Algebra');
+    });
+
+    it('applies type, course and date filters', () => {
+      expect(
+        searchCachedQueries(cachedQueries, {
+          query: 'mat',
+          types: ['lecture'],
+        }).map(result => result.id),
+      ).toEqual(['l1']);
+      expect(
+        searchCachedQueries(cachedQueries, { query: 'ch', course_id: 'c2' }),
+      ).toEqual([expect.objectContaining({ id: 'c2' })]);
+      // Courses have no date, so a date range leaves them out
+      expect(
+        searchCachedQueries(cachedQueries, {
+          query: 'mat',
+          from: '2030-01-19T00:00:00Z',
+          to: '2030-01-31T00:00:00Z',
+        }).map(result => `${result.type}:${result.date}`),
+      ).toEqual([
+        'assignment:2030-01-20T09:00:00Z',
+        'lecture:2030-01-21T10:00:00Z',
+      ]);
+    });
+  });
+
+  it('keeps recent searches unique, newest first', () => {
+    expect(addRecentSearch(['Algebra', 'chem'], ' algebra ')).toEqual([
+      'algebra',
+      'chem',
+    ]);
+    expect(addRecentSearch([], '   ')).toEqual([]);
+  });
+});
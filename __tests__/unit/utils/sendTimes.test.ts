@@ -0,0 +1,157 @@
+import {
+  formatLift,
+  formatSendWindow,
+  isShiftedWindow,
+  LearnedSendWindow,
+} from '@/utils/sendTimes';
+import {
+  learnSendTimes,
+  PastSend,
+  scoreSend,
+} from '@functions/_shared/send-time-model';
+
+const window = (
+  overrides: Partial<LearnedSendWindow> = {},
+): LearnedSendWindow => ({
+  reminder_type: 'spaced_repetition',
+  best_hour: 19,
+  fixed_hour: 10,
+  sample_size: 40,
+  learned_rate: 0.6,
+  fixed_rate: 0.4,
+  lift: 0.5,
+  learned_at: '2026-01-25T03:30:00Z',
+  ...overrides,
+});
+
+describe('formatSendWindow', () => {
+  it('spans half an hour either side of the hour', () => {
+    expect(formatSendWindow(19)).toBe('6:30 PM – 7:30 PM');
+    expect(formatSendWindow(12)).toBe('11:30 AM – 12:30 PM');
+  });
+
+  it('wraps around midnight', () => {
+    expect(formatSendWindow(0)).toBe('11:30 PM – 12:30 AM');
+    expect(formatSendWindow(23)).toBe('10:30 PM – 11:30 PM');
+  });
+});
+
+describe('formatLift', () => {
+  it('formats the lift as a signed percentage', () => {
+    expect(formatLift(0.25)).toBe('+25%');
+    expect(formatLift(-0.104)).toBe('-10%');
+    expect(formatLift(0)).toBe('0%');
+  });
+
+  it('has nothing to show without a lift', () => {
+    expect(formatLift(null)).toBeNull();
+    expect(formatLift(undefined)).toBeNull();
+  });
+});
+
+describe('isShiftedWindow', () => {
+  it('is true when the learned hour moved away from the fixed hour', () => {
+    expect(isShiftedWindow(window())).toBe(true);
+  });
+
+  it('is false before learning or when the fixed hour is best', () => {
+    expect(isShiftedWindow(window({ best_hour: null }))).toBe(false);
+    expect(isShiftedWindow(window({ best_hour: 10 }))).toBe(false);
+  });
+});
+
+describe('learning send times on the server', () => {
+  const sends = (hour: number, count: number, score: number): PastSend[] =>
+    Array.from({ length: count }, (_, day) => ({
+      sentAt: new Date(Date.UTC(2026, 0, day + 1, hour)),
+      score,
+    }));
+  const options = { timeZone: 'UTC', fixedHour: 10 };
+
+  it('picks the hour the user responds to best and reports the lift', () => {
+    const window = learnSendTimes(
+      [...sends(10, 12, 0.2), ...sends(19, 12, 1)],
+      options,
+    );
+
+    expect(window).toMatchObject({
+      bestHour: 19,
+      sampleSize: 24,
+      baselineRate: 0.6,
+      learnedRate: 1,
+      fixedRate: 0.2,
+      lift: 4,
+    });
+    expect(window.hourScores.map(score => score.hour)).toEqual([10, 19]);
+  });
+
+  it('never picks a quiet hour', () => {
+    const window = learnSendTimes(
+      [...sends(10, 12, 0.2), ...sends(19, 12, 1)],
+      { ...options, isQuietHour: hour => hour >= 19 },
+    );
+
+    expect(window.bestHour).toBe(18);
+    // Nothing was sent at 18 yet, so there is nothing to compare
+    expect(window.learnedRate).toBeNull();
+    expect(window.lift).toBeNull();
+  });
+
+  it('waits for enough sends before picking an hour', () => {
+    const window = learnSendTimes(
+      [...sends(10, 5, 0.2), ...sends(19, 6, 1)],
+      options,
+    );
+
+    expect(window.bestHour).toBeNull();
+    expect(window.sampleSize).toBe(11);
+    expect(
+      learnSendTimes([...sends(10, 6, 0.2), ...sends(19, 6, 1)], options)
+        .bestHour,
+    ).toBe(19);
+    expect(learnSendTimes([], options)).toMatchObject({
+      bestHour: null,
+      hourScores: [],
+      baselineRate: null,
+    });
+  });
+
+  it('breaks ties towards the fixed hour', () => {
+    const window = learnSendTimes([...sends(9, 6, 0.5), ...sends(14, 6, 0.5)], {
+      ...options,
+      fixedHour: 12,
+    });
+
+    expect(window.bestHour).toBe(13);
+  });
+
+  it('scores a send by the best action taken on it in time', () => {
+    const sentAt = new Date('2026-01-01T10:00:00Z');
+    const at = (minutes: number) =>
+      new Date(sentAt.getTime() + minutes * 60 * 1000);
+
+    expect(scoreSend(sentAt, [])).toBe(0);
+    expect(
+      scoreSend(sentAt, [
+        { actedAt: at(5), opened: true, effectivenessScore: null },
+      ]),
+    ).toBe(0.5);
+    expect(
+      scoreSend(sentAt, [
+        { actedAt: at(5), opened: true, effectivenessScore: null },
+        { actedAt: at(30), opened: true, effectivenessScore: 0.9 },
+      ]),
+    ).toBe(0.9);
+    expect(
+      scoreSend(sentAt, [
+        { actedAt: at(-5), opened: true, effectivenessScore: 1 },
+        { actedAt: at(7 * 60), opened: true, effectivenessScore: 1 },
+      ]),
+    ).toBe(0);
+    expect(
+      scoreSend(sentAt, [
+        { actedAt: at(1), opened: true, effectivenessScore: 3 },
+      ]),
+    ).toBe(1);
+  });
+});
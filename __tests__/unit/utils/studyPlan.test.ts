@@ -0,0 +1,112 @@
+import {
+  buildAcceptStudyPlanRequest,
+  describeStudyPlanChanges,
+  formatStudyMinutes,
+  getStudyPlanBlockKey,
+  groupStudyPlanBlocks,
+} from '@/utils/studyPlan';
+import { StudyPlanBlock, StudyPlanProposal } from '@/types';
+
+const block = (
+  assignmentId: string,
+  start: Date,
+  minutes = 60,
+): StudyPlanBlock => ({
+  assignment_id: assignmentId,
+  course_id: 'c1',
+  title: `Essay ${assignmentId}`,
+  start: start.toISOString(),
+  end: new Date(start.getTime() + minutes * 60 * 1000).toISOString(),
+  duration_minutes: minutes,
+  due_date: '2030-01-20T23:59:00.000Z',
+});
+
+const plan = (
+  overrides: Partial<StudyPlanProposal> = {},
+): StudyPlanProposal => ({
+  time_zone: 'UTC',
+  items: [],
+  blocks: [],
+  unscheduled: [],
+  missed_session_ids: [],
+  outdated_session_ids: [],
+  ...overrides,
+});
+
+describe('formatStudyMinutes', () => {
+  it('formats minutes and hours', () => {
+    expect(formatStudyMinutes(45)).toBe('45m');
+    expect(formatStudyMinutes(120)).toBe('2h');
+    expect(formatStudyMinutes(90)).toBe('1h 30m');
+  });
+});
+
+describe('groupStudyPlanBlocks', () => {
+  it('groups blocks by the day they start on', () => {
+    const today = new Date();
+    today.setHours(10, 0, 0, 0);
+    const later = new Date(today);
+    later.setHours(15);
+    const inThreeDays = new Date(today);
+    inThreeDays.setDate(today.getDate() + 3);
+
+    const days = groupStudyPlanBlocks([
+      block('a1', today),
+      block('a2', later),
+      block('a1', inThreeDays),
+    ]);
+
+    expect(days).toHaveLength(2);
+    expect(days[0].title).toBe('Today');
+    expect(days[0].blocks).toHaveLength(2);
+    expect(days[1].blocks[0].start).toBe(inThreeDays.toISOString());
+  });
+});
+
+describe('describeStudyPlanChanges', () => {
+  it('returns null when nothing needs replanning', () => {
+    expect(describeStudyPlanChanges(plan())).toBeNull();
+  });
+
+  it('mentions missed blocks and moved deadlines', () => {
+    expect(
+      describeStudyPlanChanges(
+        plan({
+          missed_session_ids: ['s1', 's2'],
+          outdated_session_ids: ['s3'],
+        }),
+      ),
+    ).toBe(
+      '2 missed blocks and 1 block for a moved deadline will be replanned',
+    );
+  });
+});
+
+describe('buildAcceptStudyPlanRequest', () => {
+  it('keeps only selected blocks and replaces missed and outdated sessions', () => {
+    const kept = block('a1', new Date('2030-01-10T10:00:00.000Z'));
+    const dropped = block('a2', new Date('2030-01-10T14:00:00.000Z'), 45);
+    const proposal = plan({
+      blocks: [kept, dropped],
+      missed_session_ids: ['s1'],
+      outdated_session_ids: ['s2'],
+    });
+
+    expect(
+      buildAcceptStudyPlanRequest(
+        proposal,
+        new Set([getStudyPlanBlockKey(kept)]),
+      ),
+    ).toEqual({
+      blocks: [
+        {
+          assignment_id: 'a1',
+          start: '2030-01-10T10:00:00.000Z',
+          duration_minutes: 60,
+        },
+      ],
+      replace_session_ids: ['s1', 's2'],
+      reminders: [15],
+    });
+  });
+});
@@ -0,0 +1,99 @@
+import {
+  formatSubtaskProgress,
+  getSubtaskProgress,
+  moveSubtask,
+  normalizeSubtasks,
+  removeSubtask,
+  toggleSubtask,
+} from '@/utils/subtasks';
+
+const subtasks = [
+  { id: 's1', title: 'Outline', completedAt: '2026-01-10T12:00:00.000Z' },
+  { id: 's2', title: 'Draft' },
+  { id: 's3', title: 'Proofread' },
+];
+
+describe('getSubtaskProgress', () => {
+  it('returns null without subtasks', () => {
+    expect(getSubtaskProgress(undefined)).toBeNull();
+    expect(getSubtaskProgress([])).toBeNull();
+  });
+
+  it('rounds the percentage down', () => {
+    expect(getSubtaskProgress(subtasks)).toEqual({
+      completed: 1,
+      total: 3,
+      percent: 33,
+    });
+  });
+
+  it('only reports 100% when every subtask is done', () => {
+    const almost = [
+      ...Array.from({ length: 199 }, (_, i) => ({
+        id: `d${i}`,
+        title: 'Done',
+        completedAt: '2026-01-10T12:00:00.000Z',
+      })),
+      { id: 'open', title: 'Open' },
+    ];
+    expect(getSubtaskProgress(almost)?.percent).toBe(99);
+  });
+});
+
+describe('formatSubtaskProgress', () => {
+  it('pluralises the subtask count', () => {
+    expect(formatSubtaskProgress({ completed: 2, total: 5, percent: 40 })).toBe(
+      '2 of 5 subtasks · 40%',
+    );
+    expect(formatSubtaskProgress({ completed: 0, total: 1, percent: 0 })).toBe(
+      '0 of 1 subtask · 0%',
+    );
+  });
+});
+
+describe('toggleSubtask', () => {
+  it('checks off an open subtask and unchecks a done one', () => {
+    const now = new Date('2026-01-12T09:00:00.000Z');
+    const toggled = toggleSubtask(subtasks, 's2', now);
+    expect(toggled[1].completedAt).toBe(now.toISOString());
+
+    expect(toggleSubtask(toggled, 's1', now)[0].completedAt).toBeUndefined();
+    expect(subtasks[1].completedAt).toBeUndefined();
+  });
+});
+
+describe('moveSubtask', () => {
+  it('swaps a subtask with its neighbour', () => {
+    expect(moveSubtask(subtasks, 's2', 'up').map(s => s.id)).toEqual([
+      's2',
+      's1',
+      's3',
+    ]);
+    expect(moveSubtask(subtasks, 's2', 'down').map(s => s.id)).toEqual([
+      's1',
+      's3',
+      's2',
+    ]);
+  });
+
+  it('leaves the list alone at either end', () => {
+    expect(moveSubtask(subtasks, 's1', 'up')).toBe(subtasks);
+    expect(moveSubtask(subtasks, 's3', 'down')).toBe(subtasks);
+    expect(moveSubtask(subtasks, 'missing', 'up')).toBe(subtasks);
+  });
+});
+
+describe('normalizeSubtasks / removeSubtask', () => {
+  it('trims titles and drops blank subtasks', () => {
+    expect(
+      normalizeSubtasks([
+        { id: 'a', title: '  Read chapter 3 ' },
+        { id: 'b', title: '   ' },
+      ]),
+    ).toEqual([{ id: 'a', title: 'Read chapter 3' }]);
+  });
+
+  it('removes a subtask by id', () => {
+    expect(removeSubtask(subtasks, 's2').map(s => s.id)).toEqual(['s1', 's3']);
+  });
+});
@@ -0,0 +1,74 @@
+import {
+  EMPTY_TASK_FILTER,
+  filterCalendarData,
+  filterTasks,
+  isFilterActive,
+  toggleFilterValue,
+} from '@/utils/taskTags';
+import { Task } from '@/types';
+
+const task = (
+  id: string,
+  overrides: Partial<Task> = {},
+  type: Task['type'] = 'assignment',
+): Task => ({
+  id,
+  type,
+  date: '2030-03-04T10:00:00Z',
+  name: id,
+  courses: { courseName: 'Biology' },
+  ...overrides,
+});
+
+const tasks = [
+  task('essay', { priority: 'high', tag_ids: ['t-lab', 't-group'] }),
+  task('reading', { priority: 'low', tag_ids: ['t-group'] }),
+  task('review', { tag_ids: [] }, 'study_session'),
+  task('final', {}, 'exam'),
+];
+
+describe('taskTags', () => {
+  it('lets every task through an empty filter', () => {
+    expect(isFilterActive(EMPTY_TASK_FILTER)).toBe(false);
+    expect(filterTasks(tasks, EMPTY_TASK_FILTER)).toBe(tasks);
+  });
+
+  it('matches tasks with any of the chosen tags', () => {
+    const ids = filterTasks(tasks, {
+      tagIds: ['t-lab', 't-missing'],
+      priorities: [],
+    }).map(t => t.id);
+    expect(ids).toEqual(['essay']);
+  });
+
+  it('treats tasks without a priority as medium and leaves out exams', () => {
+    const ids = filterTasks(tasks, {
+      tagIds: [],
+      priorities: ['medium'],
+    }).map(t => t.id);
+    expect(ids).toEqual(['review']);
+  });
+
+  it('requires both a chosen tag and a chosen priority', () => {
+    const ids = filterTasks(tasks, {
+      tagIds: ['t-group'],
+      priorities: ['low', 'medium'],
+    }).map(t => t.id);
+    expect(ids).toEqual(['reading']);
+  });
+
+  it('drops calendar days left without tasks', () => {
+    const data = {
+      '2030-03-04': [tasks[0], tasks[1]],
+      '2030-03-05': [tasks[2]],
+    };
+    expect(
+      filterCalendarData(data, { tagIds: [], priorities: ['high'] }),
+    ).toEqual({ '2030-03-04': [tasks[0]] });
+  });
+
+  it('toggles a value in and out of a list', () => {
+    expect(toggleFilterValue(['high'], 'low')).toEqual(['high', 'low']);
+    expect(toggleFilterValue(['high', 'low'], 'high')).toEqual(['low']);
+  });
+});
@@ -0,0 +1,145 @@
+import {
+  filterActiveTermCourses,
+  getCurrentTerm,
+  getTermBreak,
+  getTermStatus,
+  sortTerms,
+  validateTermDraft,
+} from '@/utils/terms';
+import { Term } from '@/types';
+
+const makeTerm = (overrides: Partial<Term>): Term => ({
+  id: 'term',
+  userId: 'user',
+  name: 'Fall 2026',
+  startDate: '2026-09-01',
+  endDate: '2026-12-18',
+  breaks: [],
+  createdAt: '2026-08-01T00:00:00Z',
+  updatedAt: '2026-08-01T00:00:00Z',
+  ...overrides,
+});
+
+describe('terms', () => {
+  describe('getTermStatus', () => {
+    const term = makeTerm({});
+
+    it('includes the first and last day of the term', () => {
+      expect(getTermStatus(term, '2026-08-31')).toBe('upcoming');
+      expect(getTermStatus(term, '2026-09-01')).toBe('current');
+      expect(getTermStatus(term, '2026-12-18')).toBe('current');
+      expect(getTermStatus(term, '2026-12-19')).toBe('past');
+    });
+
+    it('reports archived terms as archived whatever the date', () => {
+      expect(
+        getTermStatus(
+          makeTerm({ archivedAt: '2026-12-20T00:00:00Z' }),
+          '2026-10-01',
+        ),
+      ).toBe('archived');
+    });
+  });
+
+  it('finds the break a date falls in', () => {
+    const term = makeTerm({
+      breaks: [
+        {
+          name: 'Thanksgiving',
+          startDate: '2026-11-25',
+          endDate: '2026-11-29',
+        },
+      ],
+    });
+
+    expect(getTermBreak(term, '2026-11-25')?.name).toBe('Thanksgiving');
+    expect(getTermBreak(term, '2026-11-29')?.name).toBe('Thanksgiving');
+    expect(getTermBreak(term, '2026-11-30')).toBeNull();
+  });
+
+  it('picks the unarchived term that today falls in', () => {
+    const spring = makeTerm({
+      id: 'spring',
+      startDate: '2026-01-12',
+      endDate: '2026-05-08',
+    });
+    const fall = makeTerm({ id: 'fall' });
+    const archivedFall = makeTerm({
+      id: 'old-fall',
+      archivedAt: '2026-09-02T00:00:00Z',
+    });
+
+    expect(getCurrentTerm([spring, archivedFall, fall], '2026-10-01')?.id).toBe(
+      'fall',
+    );
+    expect(getCurrentTerm([spring, fall], '2026-06-15')).toBeNull();
+  });
+
+  it('lists unarchived terms first, newest first', () => {
+    const sorted = sortTerms([
+      makeTerm({
+        id: 'spring',
+        startDate: '2026-01-12',
+        endDate: '2026-05-08',
+      }),
+      makeTerm({
+        id: 'old',
+        startDate: '2025-09-01',
+        endDate: '2025-12-19',
+        archivedAt: '2026-01-01T00:00:00Z',
+      }),
+      makeTerm({ id: 'fall' }),
+    ]);
+
+    expect(sorted.map(term => term.id)).toEqual(['fall', 'spring', 'old']);
+  });
+
+  it('hides courses of archived terms but keeps courses without a term', () => {
+    const terms = [
+      makeTerm({ id: 'fall' }),
+      makeTerm({ id: 'old', archivedAt: '2026-01-01T00:00:00Z' }),
+    ];
+    const courses = [
+      { id: 'a', termId: 'fall' },
+      { id: 'b', termId: 'old' },
+      { id: 'c' },
+    ];
+
+    expect(
+      filterActiveTermCourses(courses, terms).map(course => course.id),
+    ).toEqual(['a', 'c']);
+  });
+
+  describe('validateTermDraft', () => {
+    const draft = {
+      name: 'Fall 2026',
+      startDate: '2026-09-01',
+      endDate: '2026-12-18',
+      breaks: [],
+    };
+
+    it('accepts a valid term', () => {
+      expect(validateTermDraft(draft)).toBeNull();
+    });
+
+    it('rejects impossible dates and terms that end before they start', () => {
+      expect(validateTermDraft({ ...draft, startDate: '2026-02-30' })).toBe(
+        'Enter dates as YYYY-MM-DD.',
+      );
+      expect(validateTermDraft({ ...draft, endDate: '2026-08-01' })).toBe(
+        'The term cannot end before it starts.',
+      );
+    });
+
+    it('rejects breaks outside the term', () => {
+      expect(
+        validateTermDraft({
+          ...draft,
+          breaks: [
+            { name: 'Winter', startDate: '2026-12-15', endDate: '2027-01-05' },
+          ],
+        }),
+      ).toBe('Winter must fall within the term.');
+    });
+  });
+});
@@ -0,0 +1,37 @@
+import { ratePercent, scaleBars, studyHours } from '@/utils/weeklyReports';
+
+describe('scaleBars', () => {
+  it('scales values against the busiest day', () => {
+    expect(scaleBars([0, 30, 60, 120])).toEqual([0, 0.25, 0.5, 1]);
+  });
+
+  it('keeps small non-zero days visible', () => {
+    expect(scaleBars([1, 600])).toEqual([0.04, 1]);
+  });
+
+  it('draws no bars for an empty week', () => {
+    expect(scaleBars([0, 0, 0])).toEqual([0, 0, 0]);
+    expect(scaleBars([])).toEqual([]);
+  });
+});
+
+describe('studyHours', () => {
+  it('rounds minutes to tenths of an hour', () => {
+    expect(studyHours(0)).toBe(0);
+    expect(studyHours(90)).toBe(1.5);
+    expect(studyHours(100)).toBe(1.7);
+  });
+});
+
+describe('ratePercent', () => {
+  it('converts rates to whole percentages', () => {
+    expect(ratePercent(0.666)).toBe(67);
+    expect(ratePercent(1)).toBe(100);
+  });
+
+  it('clamps out-of-range and missing rates', () => {
+    expect(ratePercent(1.4)).toBe(100);
+    expect(ratePercent(-0.2)).toBe(0);
+    expect(ratePercent(NaN)).toBe(0);
+  });
+});
@@ -24,6 +24,7 @@ module.exports = {
   moduleNameMapper: {
     '^@/(.*)$': '<rootDir>/src/$1',
     '^@tests/(.*)$': '<rootDir>/__tests__/$1',
+    '^@functions/(.*)$': '<rootDir>/supabase/functions/$1',
   },
 
   // Transform configuration - ensure ES modules are transformed
@@ -2,29 +2,53 @@
  * Locale Context
  *
  * Provides locale state and functions to change locale throughout the app.
+ * The app follows the device language unless the user picks one in
+ * Settings; that choice is stored on their profile (users.locale) through
+ * settingsSync so the server can translate pushes and emails too.
  */
 
 import React, {
   createContext,
   useContext,
   useState,
+  useEffect,
   ReactNode,
   useMemo,
   useCallback,
 } from 'react';
+import { Alert, I18nManager } from 'react-native';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as Updates from 'expo-updates';
 import {
   SupportedLocale,
+  MessageKey,
   setLocale,
-  getLocale,
+  detectLocale,
+  resolveLocale,
   isRTL,
+  t as translate,
+  formatDate as formatLocaleDate,
   LOCALES,
   LOCALE_NAMES,
 } from '@/i18n';
-import { I18nManager } from 'react-native';
+import { MessageParams } from '@/i18n/messageFormat';
+import { useAuth } from '@/contexts/AuthContext';
+import { settingsSyncService } from '@/services/settingsSync';
+
+const LOCALE_OVERRIDE_KEY = 'locale_override';
+const SYSTEM_LOCALE = 'system';
 
 interface LocaleContextType {
   locale: SupportedLocale;
-  setLocale: (locale: SupportedLocale) => void;
+  /** The user's chosen locale, or null to follow the device */
+  localeOverride: SupportedLocale | null;
+  deviceLocale: SupportedLocale;
+  setLocale: (locale: SupportedLocale | null) => void;
+  t: (key: MessageKey, params?: MessageParams) => string;
+  formatDate: (
+    date: Date | string | number,
+    options?: Intl.DateTimeFormatOptions,
+  ) => string;
   isRTL: boolean;
   localeNames: typeof LOCALE_NAMES;
   supportedLocales: SupportedLocale[];
@@ -40,41 +64,120 @@ export const useLocale = () => {
   return context;
 };
 
+// Layout direction only changes after a reload, so returns whether one is needed
+function applyLayoutDirection(rtl: boolean): boolean {
+  I18nManager.allowRTL(rtl);
+  if (I18nManager.isRTL === rtl) return false;
+  I18nManager.forceRTL(rtl);
+  return true;
+}
+
 interface LocaleProviderProps {
   children: ReactNode;
 }
 
 export const LocaleProvider: React.FC<LocaleProviderProps> = ({ children }) => {
-  const [locale, setLocaleState] = useState<SupportedLocale>(getLocale());
+  const { user } = useAuth();
+  const deviceLocale = useMemo(() => detectLocale(), []);
+  const [localeOverride, setLocaleOverride] = useState<SupportedLocale | null>(
+    null,
+  );
+
+  useEffect(() => {
+    (async () => {
+      const stored = await AsyncStorage.getItem(LOCALE_OVERRIDE_KEY);
+      setLocaleOverride(resolveLocale(stored));
+    })();
+  }, []);
+
+  // The profile is the source of truth once signed in
+  const profileLocale = user?.locale;
+  useEffect(() => {
+    if (profileLocale === undefined) return;
+    setLocaleOverride(profileLocale);
+    AsyncStorage.setItem(LOCALE_OVERRIDE_KEY, profileLocale ?? SYSTEM_LOCALE);
+  }, [profileLocale]);
+
+  // Keep the server's fallback language in step with the device
+  const userId = user?.id;
+  const profileDeviceLocale = user?.device_locale;
+  useEffect(() => {
+    if (!userId || profileDeviceLocale === deviceLocale) return;
+    settingsSyncService
+      .updateSetting(userId, 'profile', 'device_locale', deviceLocale)
+      .catch(error => console.error('Failed to sync device locale:', error));
+  }, [userId, profileDeviceLocale, deviceLocale]);
+
+  const locale = localeOverride ?? deviceLocale;
   const rtl = isRTL(locale);
 
-  // Update locale
+  // Set the module locale during render so children translate with it
+  setLocale(locale);
+
+  useEffect(() => {
+    applyLayoutDirection(rtl);
+  }, [rtl]);
+
   const handleSetLocale = useCallback(
-    (newLocale: SupportedLocale) => {
-      setLocaleState(newLocale);
-      setLocale(newLocale);
-
-      // Update RTL layout
-      if (I18nManager.forceRTL !== undefined) {
-        I18nManager.forceRTL(rtl);
-        // Note: App restart may be required for RTL changes to take effect
-        // Consider showing a message to user
+    (newOverride: SupportedLocale | null) => {
+      const newLocale = newOverride ?? deviceLocale;
+      setLocaleOverride(newOverride);
+      AsyncStorage.setItem(LOCALE_OVERRIDE_KEY, newOverride ?? SYSTEM_LOCALE);
+      if (userId) {
+        settingsSyncService
+          .updateSetting(userId, 'profile', 'locale', newOverride)
+          .catch(error => console.error('Failed to sync locale:', error));
       }
 
-      console.log(`🌍 Locale changed to: ${newLocale} (RTL: ${rtl})`);
+      if (applyLayoutDirection(isRTL(newLocale))) {
+        const t = (key: MessageKey, params?: MessageParams) =>
+          translate(key, params, newLocale);
+        Alert.alert(
+          t('settings.language.restartTitle'),
+          t('settings.language.restartMessage', {
+            language: LOCALE_NAMES[newLocale],
+          }),
+          [
+            { text: t('settings.language.later'), style: 'cancel' },
+            {
+              text: t('settings.language.restart'),
+              onPress: () => {
+                Updates.reloadAsync().catch(error =>
+                  console.error('Failed to reload app:', error),
+                );
+              },
+            },
+          ],
+        );
+      }
     },
-    [rtl],
+    [deviceLocale, userId],
+  );
+
+  const t = useCallback(
+    (key: MessageKey, params?: MessageParams) => translate(key, params, locale),
+    [locale],
+  );
+
+  const formatDate = useCallback(
+    (date: Date | string | number, options?: Intl.DateTimeFormatOptions) =>
+      formatLocaleDate(date, options, locale),
+    [locale],
   );
 
   const value = useMemo(
     () => ({
       locale,
+      localeOverride,
+      deviceLocale,
       setLocale: handleSetLocale,
+      t,
+      formatDate,
       isRTL: rtl,
       localeNames: LOCALE_NAMES,
       supportedLocales: Object.values(LOCALES),
     }),
-    [locale, handleSetLocale, rtl],
+    [locale, localeOverride, deviceLocale, handleSetLocale, t, formatDate, rtl],
   );
 
   return (
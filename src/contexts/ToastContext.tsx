@@ -7,11 +7,12 @@ import React, {
   ReactNode,
   useMemo,
 } from 'react';
-import { UndoToast } from '@/shared/components/UndoToast';
+import { UndoToast, UndoToastIcon } from '@/shared/components/UndoToast';
 
-interface ToastOptions {
+export interface ToastOptions {
   message: string;
   onUndo?: () => void;
+  icon?: UndoToastIcon; // default trash-outline
   duration?: number; // in milliseconds, default 5000
 }
 
@@ -38,6 +39,7 @@ export const ToastProvider: React.FC<ToastProviderProps> = ({ children }) => {
   const [visible, setVisible] = useState(false);
   const [message, setMessage] = useState('');
   const [onUndo, setOnUndo] = useState<(() => void) | null>(null);
+  const [icon, setIcon] = useState<UndoToastIcon | undefined>(undefined);
   const timeoutRef = useRef<NodeJS.Timeout | null>(null);
 
   const hideToast = useCallback(() => {
@@ -49,7 +51,7 @@ export const ToastProvider: React.FC<ToastProviderProps> = ({ children }) => {
   }, []);
 
   const showToast = useCallback((options: ToastOptions) => {
-    const { message, onUndo, duration = 5000 } = options;
+    const { message, onUndo, icon, duration = 5000 } = options;
 
     // Clear any existing timeout
     if (timeoutRef.current) {
@@ -59,6 +61,7 @@ export const ToastProvider: React.FC<ToastProviderProps> = ({ children }) => {
     // Set new toast state
     setMessage(message);
     setOnUndo(() => onUndo || null); // Wrap in arrow function to store function reference
+    setIcon(icon);
     setVisible(true);
 
     // Auto-dismiss after duration
@@ -90,6 +93,7 @@ export const ToastProvider: React.FC<ToastProviderProps> = ({ children }) => {
       <UndoToast
         visible={visible}
         message={message}
+        icon={icon}
         onUndo={handleUndo}
         onDismiss={hideToast}
       />
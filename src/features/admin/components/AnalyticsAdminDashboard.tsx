@@ -31,6 +31,26 @@ interface ReportTemplate {
   updated_at: string;
 }
 
+// Filled in by send-weekly-reports when a published template is rendered
+const TEMPLATE_VARIABLES = [
+  'first_name',
+  'study_time_hours',
+  'tasks_completed',
+  'assignments_completed',
+  'study_sessions_count',
+  'avg_session_duration',
+  'most_productive_day',
+  'max_daily_study',
+  'consistent_days',
+  'completion_rate',
+  'productivity_score',
+  'focus_sessions',
+  'current_streak',
+  'achievements_count',
+  'improvement_percentage',
+  'decline_percentage',
+];
+
 interface BatchProcessingLog {
   id: string;
   processing_date: string;
@@ -714,6 +734,10 @@ const TemplateModal: React.FC<TemplateModalProps> = ({
               multiline
               numberOfLines={6}
             />
+            <Text style={[styles.inputHint, { color: theme.textSecondary }]}>
+              Available variables:{' '}
+              {TEMPLATE_VARIABLES.map(variable => `{{${variable}}}`).join(', ')}
+            </Text>
           </View>
 
           <View style={styles.inputGroup}>
@@ -1010,6 +1034,10 @@ const styles = StyleSheet.create({
     fontSize: 16,
     textAlignVertical: 'top',
   },
+  inputHint: {
+    fontSize: 12,
+    marginTop: 6,
+  },
   radioGroup: {
     gap: 8,
   },
@@ -2,7 +2,12 @@ import React, { useState, useEffect } from 'react';
 import { View, StyleSheet, ScrollView, Alert } from 'react-native';
 import { useNavigation, useRoute, RouteProp } from '@react-navigation/native';
 import { StackNavigationProp } from '@react-navigation/stack';
-import { RootStackParamList, Course } from '@/types';
+import {
+  RootStackParamList,
+  Course,
+  AssignmentSubtask,
+  TaskPriority,
+} from '@/types';
 import { useAuth } from '@/contexts/AuthContext';
 import { useNetwork } from '@/contexts/NetworkContext';
 import { useQueryClient } from '@tanstack/react-query';
@@ -11,8 +16,11 @@ import { useTotalTaskCount } from '@/hooks';
 import { savePendingTask, getPendingTask } from '@/utils/taskPersistence';
 import { mapErrorCodeToMessage, getErrorTitle } from '@/utils/errorMapping';
 import { SPACING } from '@/constants/theme';
+import { mapSubtasksToDb } from '@/services/api/mappers';
+import { normalizeSubtasks } from '@/utils/subtasks';
 import { saveDraft, getDraft, clearDraft } from '@/utils/draftStorage';
 import { debounce } from '@/utils/debounce';
+import { DEFAULT_TASK_PRIORITY } from '@/utils/taskTags';
 import { TemplateBrowserModal } from '@/shared/components/TemplateBrowserModal';
 import { EmptyStateModal } from '@/shared/components/EmptyStateModal';
 import {
@@ -29,6 +37,7 @@ import {
   CourseModal,
   TaskTemplateSection,
   TaskFormFooter,
+  TaskPriorityTagsSection,
 } from '@/shared/components/task-forms';
 import { useCourseSelector } from '@/shared/hooks/task-forms';
 import { useReminders } from '@/shared/hooks/task-forms';
@@ -87,6 +96,12 @@ const AddAssignmentScreen = () => {
   const [submissionMethod, setSubmissionMethod] =
     useState<SubmissionMethod>(null);
   const [submissionLink, setSubmissionLink] = useState('');
+  const [subtasks, setSubtasks] = useState<AssignmentSubtask[]>([]);
+  const [estimatedMinutes, setEstimatedMinutes] = useState<number | null>(null);
+  const [priority, setPriority] = useState<TaskPriority>(
+    initialData?.priority || DEFAULT_TASK_PRIORITY,
+  );
+  const [tagIds, setTagIds] = useState<string[]>(initialData?.tagIds || []);
 
   // Reminders hook
   const { reminders, addReminder, removeReminder, setReminders } = useReminders(
@@ -164,6 +179,18 @@ const AddAssignmentScreen = () => {
       if ((taskToEdit as any).submission_link) {
         setSubmissionLink((taskToEdit as any).submission_link);
       }
+      if (taskToEdit.subtasks) {
+        setSubtasks(taskToEdit.subtasks);
+      }
+      if (taskToEdit.estimatedMinutes) {
+        setEstimatedMinutes(taskToEdit.estimatedMinutes);
+      }
+      if (taskToEdit.priority) {
+        setPriority(taskToEdit.priority);
+      }
+      if (taskToEdit.tag_ids) {
+        setTagIds(taskToEdit.tag_ids);
+      }
     }
   }, [taskToEdit, courses]);
 
@@ -190,9 +217,21 @@ const AddAssignmentScreen = () => {
         if (draft.submissionLink) {
           setSubmissionLink(draft.submissionLink);
         }
+        if (draft.subtasks) {
+          setSubtasks(draft.subtasks);
+        }
+        if (draft.estimatedMinutes) {
+          setEstimatedMinutes(draft.estimatedMinutes);
+        }
         if (draft.reminders) {
           setReminders(draft.reminders);
         }
+        if (draft.priority) {
+          setPriority(draft.priority);
+        }
+        if (draft.tagIds) {
+          setTagIds(draft.tagIds);
+        }
       }
     };
 
@@ -211,7 +250,11 @@ const AddAssignmentScreen = () => {
         description,
         submissionMethod,
         submissionLink,
+        subtasks,
+        estimatedMinutes,
         reminders,
+        priority,
+        tagIds,
       });
     }, 1000);
 
@@ -227,7 +270,11 @@ const AddAssignmentScreen = () => {
     description,
     submissionMethod,
     submissionLink,
+    subtasks,
+    estimatedMinutes,
     reminders,
+    priority,
+    tagIds,
   ]);
 
   const handleDateChange = (date: Date) => {
@@ -320,6 +367,10 @@ const AddAssignmentScreen = () => {
           submissionMethod === 'Online' ? submissionLink.trim() : undefined,
         due_date: dueDate.toISOString(),
         reminders,
+        subtasks: mapSubtasksToDb(normalizeSubtasks(subtasks)),
+        estimated_minutes: estimatedMinutes,
+        priority,
+        tag_ids: tagIds,
       };
 
       const isEditing = taskToEdit && taskToEdit.id;
@@ -465,9 +516,21 @@ const AddAssignmentScreen = () => {
           ]}
         />
 
+        <TaskPriorityTagsSection
+          priority={priority}
+          onPriorityChange={setPriority}
+          tagIds={tagIds}
+          onTagIdsChange={setTagIds}
+        />
+
         <AssignmentOptionalFields
           description={description}
           onDescriptionChange={setDescription}
+          subtasks={subtasks}
+          onSubtasksChange={setSubtasks}
+          dueDate={dueDate}
+          estimatedMinutes={estimatedMinutes}
+          onEstimatedMinutesChange={setEstimatedMinutes}
           submissionMethod={submissionMethod}
           submissionLink={submissionLink}
           onSubmissionMethodChange={setSubmissionMethod}
@@ -0,0 +1,105 @@
+import React from 'react';
+import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
+import { useTheme } from '@/contexts/ThemeContext';
+import { COLORS, FONT_SIZES, FONT_WEIGHTS, SPACING } from '@/constants/theme';
+import { EFFORT_OPTIONS, formatStudyMinutes } from '@/utils/studyPlan';
+
+interface AssignmentEffortFieldProps {
+  estimatedMinutes: number | null;
+  onEstimatedMinutesChange: (minutes: number | null) => void;
+}
+
+export const AssignmentEffortField: React.FC<AssignmentEffortFieldProps> = ({
+  estimatedMinutes,
+  onEstimatedMinutesChange,
+}) => {
+  const { isDark } = useTheme();
+
+  const options: (number | null)[] = [...EFFORT_OPTIONS, null];
+  // Keep an estimate set elsewhere (e.g. by an import) selectable
+  if (estimatedMinutes !== null && !EFFORT_OPTIONS.includes(estimatedMinutes)) {
+    options.unshift(estimatedMinutes);
+  }
+
+  return (
+    <View style={styles.field}>
+      <Text style={[styles.label, { color: isDark ? '#FFFFFF' : '#374151' }]}>
+        Estimated Effort
+      </Text>
+      <View style={styles.chips}>
+        {options.map(minutes => {
+          const isSelected = estimatedMinutes === minutes;
+          return (
+            <TouchableOpacity
+              key={minutes ?? 'unsure'}
+              style={[
+                styles.chip,
+                {
+                  backgroundColor: isSelected
+                    ? COLORS.primary + '1A'
+                    : isDark
+                      ? '#1C252E'
+                      : '#FFFFFF',
+                  borderColor: isSelected
+                    ? COLORS.primary + '33'
+                    : isDark
+                      ? '#3B4754'
+                      : '#E5E7EB',
+                },
+              ]}
+              onPress={() => onEstimatedMinutesChange(minutes)}
+              accessibilityRole="button"
+              accessibilityState={{ selected: isSelected }}>
+              <Text
+                style={[
+                  styles.chipText,
+                  {
+                    color: isSelected
+                      ? COLORS.primary
+                      : isDark
+                        ? '#FFFFFF'
+                        : '#111418',
+                    fontWeight: isSelected ? '600' : '500',
+                  },
+                ]}>
+                {minutes === null ? 'Not sure' : formatStudyMinutes(minutes)}
+              </Text>
+            </TouchableOpacity>
+          );
+        })}
+      </View>
+      <Text style={[styles.hint, { color: isDark ? '#9CA3AF' : '#6B7280' }]}>
+        Used by the study planner to book enough time before the due date
+      </Text>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  field: {
+    marginBottom: SPACING.lg,
+  },
+  label: {
+    fontSize: FONT_SIZES.sm,
+    fontWeight: FONT_WEIGHTS.medium,
+    marginBottom: SPACING.sm,
+  },
+  chips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: SPACING.sm,
+  },
+  chip: {
+    paddingVertical: SPACING.sm,
+    paddingHorizontal: SPACING.md,
+    borderRadius: 20,
+    borderWidth: 1,
+  },
+  chipText: {
+    fontSize: FONT_SIZES.sm,
+  },
+  hint: {
+    fontSize: FONT_SIZES.xs,
+    marginTop: SPACING.sm,
+  },
+});
@@ -2,9 +2,12 @@ import React from 'react';
 import { View, Text, StyleSheet } from 'react-native';
 import { TaskRemindersSection } from '@/shared/components/task-forms';
 import { AssignmentDescriptionField } from './AssignmentDescriptionField';
+import { AssignmentSubtasksField } from './AssignmentSubtasksField';
+import { AssignmentEffortField } from './AssignmentEffortField';
 import { AssignmentSubmissionSection } from './AssignmentSubmissionSection';
 import { useTheme } from '@/contexts/ThemeContext';
 import { FONT_SIZES, FONT_WEIGHTS, SPACING } from '@/constants/theme';
+import { AssignmentSubtask } from '@/types';
 
 type SubmissionMethod = 'Online' | 'In-person' | null;
 
@@ -12,6 +15,13 @@ interface AssignmentOptionalFieldsProps {
   description: string;
   onDescriptionChange: (description: string) => void;
 
+  subtasks?: AssignmentSubtask[];
+  onSubtasksChange?: (subtasks: AssignmentSubtask[]) => void;
+  dueDate?: Date;
+
+  estimatedMinutes?: number | null;
+  onEstimatedMinutesChange?: (minutes: number | null) => void;
+
   submissionMethod: SubmissionMethod;
   submissionLink: string;
   onSubmissionMethodChange: (method: SubmissionMethod) => void;
@@ -27,6 +37,11 @@ export const AssignmentOptionalFields: React.FC<
 > = ({
   description,
   onDescriptionChange,
+  subtasks,
+  onSubtasksChange,
+  dueDate,
+  estimatedMinutes,
+  onEstimatedMinutesChange,
   submissionMethod,
   submissionLink,
   onSubmissionMethodChange,
@@ -52,6 +67,21 @@ export const AssignmentOptionalFields: React.FC<
         onDescriptionChange={onDescriptionChange}
       />
 
+      {subtasks && onSubtasksChange && dueDate && (
+        <AssignmentSubtasksField
+          subtasks={subtasks}
+          onSubtasksChange={onSubtasksChange}
+          assignmentDueDate={dueDate}
+        />
+      )}
+
+      {estimatedMinutes !== undefined && onEstimatedMinutesChange && (
+        <AssignmentEffortField
+          estimatedMinutes={estimatedMinutes}
+          onEstimatedMinutesChange={onEstimatedMinutesChange}
+        />
+      )}
+
       <AssignmentSubmissionSection
         submissionMethod={submissionMethod}
         submissionLink={submissionLink}
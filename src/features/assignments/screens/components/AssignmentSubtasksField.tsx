@@ -0,0 +1,280 @@
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TextInput,
+  TouchableOpacity,
+  Platform,
+} from 'react-native';
+import DateTimePicker, {
+  DateTimePickerEvent,
+} from '@react-native-community/datetimepicker';
+import { Ionicons } from '@expo/vector-icons';
+import { format } from 'date-fns';
+import { AssignmentSubtask } from '@/types';
+import { useTheme } from '@/contexts/ThemeContext';
+import { COLORS, FONT_SIZES, FONT_WEIGHTS, SPACING } from '@/constants/theme';
+import {
+  MAX_SUBTASKS,
+  createSubtask,
+  moveSubtask,
+  removeSubtask,
+  updateSubtask,
+} from '@/utils/subtasks';
+
+interface AssignmentSubtasksFieldProps {
+  subtasks: AssignmentSubtask[];
+  onSubtasksChange: (subtasks: AssignmentSubtask[]) => void;
+  /** Subtask due dates default to, and can't be later than, this */
+  assignmentDueDate: Date;
+}
+
+export const AssignmentSubtasksField: React.FC<
+  AssignmentSubtasksFieldProps
+> = ({ subtasks, onSubtasksChange, assignmentDueDate }) => {
+  const { isDark } = useTheme();
+  const [newTitle, setNewTitle] = useState('');
+  const [datePickerFor, setDatePickerFor] = useState<string | null>(null);
+
+  const canAdd = newTitle.trim().length > 0 && subtasks.length < MAX_SUBTASKS;
+  const pickerSubtask = subtasks.find(subtask => subtask.id === datePickerFor);
+
+  const handleAdd = () => {
+    if (!canAdd) return;
+    onSubtasksChange([...subtasks, createSubtask(newTitle)]);
+    setNewTitle('');
+  };
+
+  const handleDueDateChange = (
+    event: DateTimePickerEvent,
+    selectedDate?: Date,
+  ) => {
+    const subtaskId = datePickerFor;
+    if (Platform.OS === 'android' || event.type !== 'set') {
+      setDatePickerFor(null);
+    }
+    if (event.type === 'set' && selectedDate && subtaskId) {
+      // Due at the same time of day as the assignment
+      const dueDate = new Date(selectedDate);
+      dueDate.setHours(
+        assignmentDueDate.getHours(),
+        assignmentDueDate.getMinutes(),
+        0,
+        0,
+      );
+      onSubtasksChange(
+        updateSubtask(subtasks, subtaskId, { dueDate: dueDate.toISOString() }),
+      );
+      if (Platform.OS === 'ios') {
+        setDatePickerFor(null);
+      }
+    }
+  };
+
+  const inputColors = {
+    backgroundColor: isDark ? '#1C252E' : '#FFFFFF',
+    borderColor: isDark ? '#3B4754' : 'transparent',
+    color: isDark ? '#FFFFFF' : '#111418',
+  };
+  const mutedColor = isDark ? '#9CA3AF' : '#6B7280';
+
+  return (
+    <View style={styles.field}>
+      <Text style={[styles.label, { color: isDark ? '#FFFFFF' : '#374151' }]}>
+        Subtasks
+      </Text>
+      <Text style={[styles.hint, { color: mutedColor }]}>
+        Break the assignment into steps to track your progress.
+      </Text>
+
+      {subtasks.map((subtask, index) => (
+        <View key={subtask.id} style={[styles.row, inputColors]}>
+          <View style={styles.reorder}>
+            <TouchableOpacity
+              onPress={() =>
+                onSubtasksChange(moveSubtask(subtasks, subtask.id, 'up'))
+              }
+              disabled={index === 0}
+              accessibilityRole="button"
+              accessibilityLabel={`Move ${subtask.title} up`}>
+              <Ionicons
+                name="chevron-up"
+                size={18}
+                color={index === 0 ? COLORS.border : mutedColor}
+              />
+            </TouchableOpacity>
+            <TouchableOpacity
+              onPress={() =>
+                onSubtasksChange(moveSubtask(subtasks, subtask.id, 'down'))
+              }
+              disabled={index === subtasks.length - 1}
+              accessibilityRole="button"
+              accessibilityLabel={`Move ${subtask.title} down`}>
+              <Ionicons
+                name="chevron-down"
+                size={18}
+                color={
+                  index === subtasks.length - 1 ? COLORS.border : mutedColor
+                }
+              />
+            </TouchableOpacity>
+          </View>
+
+          <View style={styles.rowBody}>
+            <TextInput
+              style={[styles.titleInput, { color: inputColors.color }]}
+              value={subtask.title}
+              onChangeText={title =>
+                onSubtasksChange(updateSubtask(subtasks, subtask.id, { title }))
+              }
+              maxLength={200}
+              accessibilityLabel={`Subtask ${index + 1}`}
+            />
+            <View style={styles.dueRow}>
+              <TouchableOpacity
+                style={styles.dueButton}
+                onPress={() => setDatePickerFor(subtask.id)}
+                accessibilityRole="button"
+                accessibilityLabel={`Set a due date for ${subtask.title}`}>
+                <Ionicons
+                  name="calendar-outline"
+                  size={14}
+                  color={subtask.dueDate ? COLORS.primary : mutedColor}
+                />
+                <Text
+                  style={[
+                    styles.dueText,
+                    { color: subtask.dueDate ? COLORS.primary : mutedColor },
+                  ]}>
+                  {subtask.dueDate
+                    ? `Due ${format(new Date(subtask.dueDate), 'MMM d')}`
+                    : 'No due date'}
+                </Text>
+              </TouchableOpacity>
+              {subtask.dueDate && (
+                <TouchableOpacity
+                  onPress={() =>
+                    onSubtasksChange(
+                      updateSubtask(subtasks, subtask.id, {
+                        dueDate: undefined,
+                      }),
+                    )
+                  }
+                  accessibilityRole="button"
+                  accessibilityLabel={`Clear the due date of ${subtask.title}`}>
+                  <Ionicons name="close-circle" size={16} color={mutedColor} />
+                </TouchableOpacity>
+              )}
+            </View>
+          </View>
+
+          <TouchableOpacity
+            onPress={() =>
+              onSubtasksChange(removeSubtask(subtasks, subtask.id))
+            }
+            accessibilityRole="button"
+            accessibilityLabel={`Remove ${subtask.title}`}>
+            <Ionicons name="trash-outline" size={20} color={mutedColor} />
+          </TouchableOpacity>
+        </View>
+      ))}
+
+      {subtasks.length < MAX_SUBTASKS && (
+        <View style={[styles.row, inputColors]}>
+          <TextInput
+            style={[styles.addInput, { color: inputColors.color }]}
+            value={newTitle}
+            onChangeText={setNewTitle}
+            onSubmitEditing={handleAdd}
+            placeholder="Add a subtask, e.g. Write outline"
+            placeholderTextColor={isDark ? '#6B7280' : '#9CA3AF'}
+            returnKeyType="done"
+            maxLength={200}
+          />
+          <TouchableOpacity
+            onPress={handleAdd}
+            disabled={!canAdd}
+            accessibilityRole="button"
+            accessibilityLabel="Add subtask">
+            <Ionicons
+              name="add-circle"
+              size={26}
+              color={canAdd ? COLORS.primary : COLORS.border}
+            />
+          </TouchableOpacity>
+        </View>
+      )}
+
+      {pickerSubtask && (
+        <DateTimePicker
+          value={
+            pickerSubtask.dueDate
+              ? new Date(pickerSubtask.dueDate)
+              : assignmentDueDate
+          }
+          mode="date"
+          maximumDate={assignmentDueDate}
+          display={Platform.OS === 'ios' ? 'spinner' : 'default'}
+          onChange={handleDueDateChange}
+        />
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  field: {
+    marginBottom: SPACING.lg,
+  },
+  label: {
+    fontSize: FONT_SIZES.sm,
+    fontWeight: FONT_WEIGHTS.medium,
+    marginBottom: SPACING.xs,
+  },
+  hint: {
+    fontSize: FONT_SIZES.xs,
+    marginBottom: SPACING.sm,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: SPACING.sm,
+    paddingHorizontal: SPACING.sm,
+    paddingVertical: SPACING.sm,
+    borderRadius: 12,
+    borderWidth: 1,
+    marginBottom: SPACING.sm,
+  },
+  reorder: {
+    alignItems: 'center',
+  },
+  rowBody: {
+    flex: 1,
+  },
+  titleInput: {
+    fontSize: FONT_SIZES.md,
+    paddingVertical: 2,
+  },
+  dueRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: SPACING.sm,
+    marginTop: 2,
+  },
+  dueButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+  },
+  dueText: {
+    fontSize: FONT_SIZES.xs,
+    fontWeight: FONT_WEIGHTS.medium,
+  },
+  addInput: {
+    flex: 1,
+    fontSize: FONT_SIZES.md,
+    paddingVertical: SPACING.xs,
+    paddingLeft: SPACING.xs,
+  },
+});
@@ -4,3 +4,5 @@ export { AssignmentOptionalFields } from './AssignmentOptionalFields';
 export { AssignmentDescriptionField } from './AssignmentDescriptionField';
 export { AssignmentSubmissionSection } from './AssignmentSubmissionSection';
 export { ReminderModal } from './ReminderModal';
+export { AssignmentSubtasksField } from './AssignmentSubtasksField';
+export { AssignmentEffortField } from './AssignmentEffortField';
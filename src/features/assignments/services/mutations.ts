@@ -3,6 +3,8 @@ import { Assignment } from '@/types';
 import { CreateAssignmentRequest, UpdateAssignmentRequest } from '@/types/api';
 import { handleApiError } from '@/services/api/errors';
 import { syncManager } from '@/services/syncManager';
+import { captureUpdateBase } from '@/utils/syncConflicts';
+import { getCachedTask, mergeTaskUpdates } from '@/utils/taskCache';
 import { generateTempId } from '@/utils/uuid';
 import { invokeEdgeFunctionWithAuth } from '@/utils/invokeEdgeFunction';
 
@@ -47,6 +49,10 @@ export const assignmentsApiMutations = {
           description: request.description || null,
           due_date: request.due_date,
           submission_method: request.submission_method || null,
+          subtasks: request.subtasks || [],
+          estimated_minutes: request.estimated_minutes ?? null,
+          priority: request.priority ?? 'medium',
+          tag_ids: request.tag_ids || [],
           status: 'pending',
           created_at: new Date().toISOString(),
           updated_at: new Date().toISOString(),
@@ -91,9 +97,6 @@ export const assignmentsApiMutations = {
         console.log('📴 Offline: Queueing UPDATE assignment action');
 
         // Get cached task data
-        const { getCachedTask, mergeTaskUpdates } = await import(
-          '@/utils/taskCache'
-        );
         const cachedTask = await getCachedTask(assignmentId, 'assignment');
 
         if (!cachedTask) {
@@ -116,6 +119,7 @@ export const assignmentsApiMutations = {
             type: 'UPDATE',
             id: assignmentId,
             data: request,
+            ...captureUpdateBase(cachedTask, request),
           },
           userId,
           { syncImmediately: false },
@@ -127,14 +131,20 @@ export const assignmentsApiMutations = {
         return optimisticTask as Assignment;
       }
 
-      // ONLINE MODE: Execute server mutation
+      // ONLINE MODE: Execute server mutation, rejected if the cached copy
+      // the edit was made against is out of date
       console.log('🌐 Online: Updating assignment on server');
+      const { baseVersion } = captureUpdateBase(
+        await getCachedTask(assignmentId, 'assignment'),
+        request,
+      );
       const { data, error } = await invokeEdgeFunctionWithAuth(
         'update-assignment',
         {
           body: {
             assignment_id: assignmentId,
             ...request,
+            expected_version: baseVersion,
           },
         },
       );
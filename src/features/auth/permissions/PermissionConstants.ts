@@ -36,6 +36,9 @@ export const PERMISSIONS = {
   DELETE_COURSE: { resource: 'courses', action: 'delete' },
   VIEW_COURSE: { resource: 'courses', action: 'view' },
 
+  // Flashcard permissions
+  CREATE_FLASHCARD: { resource: 'flashcards', action: 'create' },
+
   // Generic task permissions
   CREATE_TASK: { resource: 'tasks', action: 'create' },
   EDIT_TASK: { resource: 'tasks', action: 'update' },
@@ -84,6 +87,7 @@ export const ROLES: Record<string, UserRole> = {
       PERMISSIONS.UPDATE_COURSE,
       PERMISSIONS.DELETE_COURSE,
       PERMISSIONS.VIEW_COURSE,
+      PERMISSIONS.CREATE_FLASHCARD,
       PERMISSIONS.MANAGE_NOTIFICATIONS,
     ],
   },
@@ -138,6 +142,7 @@ export const TASK_LIMITS = {
     study_sessions: 15,
     courses: 2,
     srs_reminders: 15,
+    flashcards: 200,
   },
   oddity: {
     assignments: 70,
@@ -145,6 +150,7 @@ export const TASK_LIMITS = {
     study_sessions: 70,
     courses: 10,
     srs_reminders: 50,
+    flashcards: -1,
   },
   admin: {
     assignments: -1, // unlimited
@@ -152,6 +158,7 @@ export const TASK_LIMITS = {
     study_sessions: -1,
     courses: -1,
     srs_reminders: -1,
+    flashcards: -1,
   },
 } as const;
 
@@ -99,11 +99,11 @@ export class PermissionService {
   }
 
   /**
-   * Check if user can create a task (assignment, lecture, or study session)
+   * Check if user can create a task (assignment, lecture, study session or flashcard)
    */
   async canCreateTask(
     user: User,
-    taskType: 'assignments' | 'lectures' | 'study_sessions',
+    taskType: 'assignments' | 'lectures' | 'study_sessions' | 'flashcards',
   ): Promise<PermissionCheckResult> {
     try {
       // Check task limits first (premium/admin users have unlimited)
@@ -335,7 +335,7 @@ export class PermissionService {
    * Counts tasks created in the last 30 days, excluding soft-deleted tasks
    *
    * @param user - User object
-   * @param taskType - Type of task: 'assignments', 'lectures', 'study_sessions', 'courses', or 'srs_reminders'
+   * @param taskType - Type of task: 'assignments', 'lectures', 'study_sessions', 'courses', 'srs_reminders' or 'flashcards'
    * @returns Number of tasks of the specified type created in the last 30 days
    */
   async getTaskCount(user: User, taskType: string): Promise<number> {
@@ -437,6 +437,23 @@ export class PermissionService {
           break;
         }
 
+        case 'flashcards': {
+          // Count flashcards created since the date, excluding soft-deleted ones
+          const { count: flashcardCount, error } = await supabase
+            .from('flashcards')
+            .select('*', { count: 'exact', head: true })
+            .eq('user_id', user.id)
+            .gte('created_at', sinceDate.toISOString())
+            .is('deleted_at', null);
+
+          if (error) {
+            console.error('❌ Error counting flashcards:', error);
+            return 0;
+          }
+          count = flashcardCount || 0;
+          break;
+        }
+
         default:
           console.warn(`⚠️ Unknown task type: ${taskType}`);
           return 0;
@@ -13,6 +13,8 @@ interface CalendarAgendaViewProps {
   onDateSelect: (date: Date) => void;
   onTaskPress: (task: Task) => void;
   onLockedTaskPress: (task: Task) => void;
+  onTaskLongPress?: (task: Task) => void;
+  isTaskSelected?: (task: Task) => boolean;
   onScroll?: (event: any) => void;
 }
 
@@ -22,6 +24,8 @@ export const CalendarAgendaView: React.FC<CalendarAgendaViewProps> = ({
   onDateSelect,
   onTaskPress,
   onLockedTaskPress,
+  onTaskLongPress,
+  isTaskSelected,
   onScroll,
 }) => {
   const { theme } = useTheme();
@@ -97,7 +101,13 @@ export const CalendarAgendaView: React.FC<CalendarAgendaViewProps> = ({
                       onTaskPress(task);
                     }
                   }}
+                  onLongPress={
+                    onTaskLongPress && !task.isLocked
+                      ? () => onTaskLongPress(task)
+                      : undefined
+                  }
                   isLocked={task.isLocked}
+                  isSelected={isTaskSelected?.(task)}
                 />
               </View>
             );
@@ -0,0 +1,65 @@
+import React from 'react';
+import { View, StyleSheet } from 'react-native';
+import { Task } from '@/types';
+import { TaskTimeRange } from '@/utils/calendarReschedule';
+import WeekStrip from './WeekStrip';
+import Timeline from './Timeline';
+import { useTheme } from '@/contexts/ThemeContext';
+import { COLORS } from '@/constants/theme';
+
+interface CalendarDayViewProps {
+  selectedDate: Date;
+  tasksForSelectedDay: Task[];
+  /** Tasks of the surrounding week, checked for lecture conflicts */
+  weekTasks: Task[];
+  onDateSelect: (date: Date) => void;
+  onTaskPress: (task: Task) => void;
+  onLockedTaskPress: (task: Task) => void;
+  onTaskReschedule: (
+    task: Task,
+    range: TaskTimeRange,
+    conflicts: Task[],
+  ) => void;
+}
+
+export const CalendarDayView: React.FC<CalendarDayViewProps> = ({
+  selectedDate,
+  tasksForSelectedDay,
+  weekTasks,
+  onDateSelect,
+  onTaskPress,
+  onLockedTaskPress,
+  onTaskReschedule,
+}) => {
+  const { isDark } = useTheme();
+
+  return (
+    <>
+      <View
+        style={[
+          styles.weekStripContainer,
+          {
+            borderBottomColor: isDark ? '#374151' : COLORS.border,
+            backgroundColor: isDark ? '#101922' : COLORS.background,
+          },
+        ]}>
+        <WeekStrip selectedDate={selectedDate} onDateSelect={onDateSelect} />
+      </View>
+
+      <Timeline
+        tasks={tasksForSelectedDay}
+        conflictTasks={weekTasks}
+        onTaskPress={onTaskPress}
+        onLockedTaskPress={onLockedTaskPress}
+        onTaskReschedule={onTaskReschedule}
+      />
+    </>
+  );
+};
+
+const styles = StyleSheet.create({
+  weekStripContainer: {
+    borderBottomWidth: 1,
+    backgroundColor: COLORS.background,
+  },
+});
@@ -1,34 +1,64 @@
 import React from 'react';
-import { View, Text, StyleSheet } from 'react-native';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  ActivityIndicator,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
 import { NotificationBell } from '@/shared/components/NotificationBell';
 import { useTheme } from '@/contexts/ThemeContext';
 import { COLORS, FONT_SIZES, FONT_WEIGHTS, SPACING } from '@/constants/theme';
 
 interface CalendarHeaderProps {
   onNotificationPress: () => void;
+  onExportPress?: () => void;
+  isExporting?: boolean;
 }
 
 export const CalendarHeader: React.FC<CalendarHeaderProps> = ({
   onNotificationPress,
+  onExportPress,
+  isExporting = false,
 }) => {
-  const { theme } = useTheme();
+  const { isDark } = useTheme();
+  const iconColor = isDark ? '#FFFFFF' : COLORS.textPrimary;
 
   return (
     <View
       style={[
         styles.header,
         {
-          backgroundColor: theme.isDark ? '#101922' : COLORS.background,
+          backgroundColor: isDark ? '#101922' : COLORS.background,
         },
       ]}>
       <Text
         style={[
           styles.headerTitle,
-          { color: theme.isDark ? '#FFFFFF' : COLORS.textPrimary },
+          { color: isDark ? '#FFFFFF' : COLORS.textPrimary },
         ]}>
         Schedule
       </Text>
-      <NotificationBell onPress={onNotificationPress} />
+      <View style={styles.actions}>
+        {onExportPress && (
+          <TouchableOpacity
+            style={styles.exportButton}
+            onPress={onExportPress}
+            disabled={isExporting}
+            activeOpacity={0.7}
+            accessibilityLabel="Export calendar"
+            accessibilityHint="Export or subscribe to your schedule in another calendar app"
+            accessibilityRole="button">
+            {isExporting ? (
+              <ActivityIndicator size="small" color={iconColor} />
+            ) : (
+              <Ionicons name="share-outline" size={28} color={iconColor} />
+            )}
+          </TouchableOpacity>
+        )}
+        <NotificationBell onPress={onNotificationPress} />
+      </View>
     </View>
   );
 };
@@ -45,4 +75,11 @@ const styles = StyleSheet.create({
     fontSize: FONT_SIZES.xxl,
     fontWeight: FONT_WEIGHTS.bold,
   },
+  actions: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  exportButton: {
+    padding: 8,
+  },
 });
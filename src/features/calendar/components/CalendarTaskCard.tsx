@@ -4,6 +4,7 @@ import { Ionicons } from '@expo/vector-icons';
 import { Task } from '@/types';
 import { useTheme } from '@/contexts/ThemeContext';
 import {
+  COLORS,
   FONT_SIZES,
   FONT_WEIGHTS,
   SPACING,
@@ -16,7 +17,10 @@ interface CalendarTaskCardProps {
   task: Task;
   onPress?: () => void;
   onMorePress?: () => void;
+  onLongPress?: () => void;
   isLocked?: boolean;
+  /** Selected for a bulk edit; shows a check instead of the more button */
+  isSelected?: boolean;
 }
 
 const getCategoryConfig = (taskType: string) => {
@@ -42,6 +46,13 @@ const getCategoryConfig = (taskType: string) => {
         bgColor: '#FFEDD5',
         textColor: '#C2410C',
       };
+    case 'exam':
+      return {
+        label: 'EXAM',
+        borderColor: '#9333EA',
+        bgColor: '#F3E8FF',
+        textColor: '#7E22CE',
+      };
     default:
       // Review sessions also use blue
       return {
@@ -68,7 +79,9 @@ export const CalendarTaskCard: React.FC<CalendarTaskCardProps> = ({
   task,
   onPress,
   onMorePress,
+  onLongPress,
   isLocked = false,
+  isSelected = false,
 }) => {
   const { theme } = useTheme();
   const category = getCategoryConfig(task.type);
@@ -80,18 +93,21 @@ export const CalendarTaskCard: React.FC<CalendarTaskCardProps> = ({
   const endTimeStr = endTime ? format(new Date(endTime), 'h:mm a') : '';
 
   const lecture = task.type === 'lecture' ? (task as any) : null;
-  const venue = lecture?.venue || '';
+  const venue = lecture?.venue || (task.type === 'exam' && task.location) || '';
 
   return (
     <TouchableOpacity
       onPress={onPress}
+      onLongPress={onLongPress}
       activeOpacity={0.98}
+      accessibilityState={{ selected: isSelected }}
       style={[
         styles.card,
         {
           borderLeftColor: category.borderColor,
           backgroundColor: theme.isDark ? '#1E293B' : '#FFFFFF',
         },
+        isSelected && styles.cardSelected,
       ]}>
       <View style={styles.content}>
         <View style={styles.header}>
@@ -117,19 +133,28 @@ export const CalendarTaskCard: React.FC<CalendarTaskCardProps> = ({
               {task.name}
             </Text>
           </View>
-          {!isLocked && (
-            <TouchableOpacity
-              onPress={e => {
-                e.stopPropagation();
-                onMorePress?.();
-              }}
-              style={styles.moreButton}>
-              <Ionicons
-                name="ellipsis-horizontal"
-                size={20}
-                color={theme.isDark ? '#9CA3AF' : '#9DABB9'}
-              />
-            </TouchableOpacity>
+          {isSelected ? (
+            <Ionicons
+              name="checkmark-circle"
+              size={24}
+              color={COLORS.primary}
+              style={styles.moreButton}
+            />
+          ) : (
+            !isLocked && (
+              <TouchableOpacity
+                onPress={e => {
+                  e.stopPropagation();
+                  onMorePress?.();
+                }}
+                style={styles.moreButton}>
+                <Ionicons
+                  name="ellipsis-horizontal"
+                  size={20}
+                  color={theme.isDark ? '#9CA3AF' : '#9DABB9'}
+                />
+              </TouchableOpacity>
+            )
           )}
         </View>
         <View style={styles.metadata}>
@@ -207,6 +232,10 @@ const styles = StyleSheet.create({
     position: 'relative',
     overflow: 'hidden',
   },
+  cardSelected: {
+    borderWidth: 2,
+    borderColor: COLORS.primary,
+  },
   content: {
     gap: 8,
   },
@@ -9,7 +9,9 @@ import { COLORS, FONT_SIZES, FONT_WEIGHTS, SPACING } from '@/constants/theme';
 interface CalendarTaskItemProps {
   task: Task;
   onPress: () => void;
+  onLongPress?: () => void;
   isLocked?: boolean;
+  isSelected?: boolean;
 }
 
 const getTaskColor = (type: string) => {
@@ -20,6 +22,8 @@ const getTaskColor = (type: string) => {
       return '#F97316'; // Orange
     case 'study_session':
       return '#137FEC'; // Blue
+    case 'exam':
+      return '#9333EA'; // Purple
     default:
       return '#137FEC';
   }
@@ -28,7 +32,9 @@ const getTaskColor = (type: string) => {
 export const CalendarTaskItem: React.FC<CalendarTaskItemProps> = ({
   task,
   onPress,
+  onLongPress,
   isLocked = false,
+  isSelected = false,
 }) => {
   const { theme } = useTheme();
   const taskTime = format(new Date(task.date), 'h:mm a');
@@ -45,8 +51,10 @@ export const CalendarTaskItem: React.FC<CalendarTaskItemProps> = ({
           backgroundColor: theme.isDark ? '#1C252E' : '#FFFFFF',
           borderColor: theme.isDark ? '#3B4754' : '#E5E7EB',
         },
+        isSelected && styles.taskItemSelected,
       ]}
       onPress={onPress}
+      onLongPress={onLongPress}
       accessibilityLabel={`${task.name || task.title}, ${task.type}, ${taskTime}`}
       accessibilityHint={
         isLocked
@@ -54,7 +62,7 @@ export const CalendarTaskItem: React.FC<CalendarTaskItemProps> = ({
           : 'Opens task details'
       }
       accessibilityRole="button"
-      accessibilityState={{ disabled: isLocked }}>
+      accessibilityState={{ disabled: isLocked, selected: isSelected }}>
       <View style={styles.taskItemContent}>
         <View
           style={[
@@ -103,6 +111,9 @@ export const CalendarTaskItem: React.FC<CalendarTaskItemProps> = ({
         {isLocked && (
           <Ionicons name="lock-closed" size={20} color={COLORS.gray} />
         )}
+        {isSelected && (
+          <Ionicons name="checkmark-circle" size={22} color={COLORS.primary} />
+        )}
       </View>
     </TouchableOpacity>
   );
@@ -118,6 +129,10 @@ const styles = StyleSheet.create({
   taskItemLocked: {
     opacity: 0.6,
   },
+  taskItemSelected: {
+    borderWidth: 2,
+    borderColor: COLORS.primary,
+  },
   taskItemContent: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -0,0 +1,145 @@
+import React, { useRef } from 'react';
+import {
+  View,
+  StyleSheet,
+  PanResponder,
+  PanResponderGestureState,
+} from 'react-native';
+import * as Haptics from 'expo-haptics';
+import { Task } from '@/types';
+import EventItem from './EventItem';
+
+export type DragMode = 'move' | 'resize';
+
+interface Props {
+  task: Task;
+  position: { top: number; left: number; height: number; width: number };
+  isLocked: boolean;
+  isDraggable: boolean;
+  isExpanded: boolean;
+  canResize: boolean;
+  isDragging: boolean;
+  dragLabel?: string;
+  conflictLabel?: string | null;
+  onPress: () => void;
+  onViewDetails: () => void;
+  onDragStart: (mode: DragMode) => void;
+  onDragMove: (dx: number, dy: number) => void;
+  onDragEnd: (mode: DragMode, dx: number, dy: number) => void;
+  onDragCancel: () => void;
+}
+
+/**
+ * EventItem that can be moved after a long press, or made longer or
+ * shorter from the handle on its bottom edge. Gestures are reported as
+ * distances; the timeline turns them into times.
+ */
+const DraggableEventItem: React.FC<Props> = props => {
+  const { task, position, isLocked, isDraggable, isExpanded, canResize } =
+    props;
+  const callbacks = useRef(props);
+  callbacks.current = props;
+
+  // The long press arms a move; the first movement after it takes the touch
+  const isMoveArmed = useRef(false);
+  const isMoveGranted = useRef(false);
+
+  const finishMove = (gesture: PanResponderGestureState | null) => {
+    isMoveArmed.current = false;
+    isMoveGranted.current = false;
+    if (gesture) {
+      callbacks.current.onDragEnd('move', gesture.dx, gesture.dy);
+    } else {
+      callbacks.current.onDragCancel();
+    }
+  };
+
+  const moveResponder = useRef(
+    PanResponder.create({
+      onMoveShouldSetPanResponderCapture: () => isMoveArmed.current,
+      onPanResponderGrant: () => {
+        isMoveGranted.current = true;
+      },
+      onPanResponderMove: (_, gesture) =>
+        callbacks.current.onDragMove(gesture.dx, gesture.dy),
+      onPanResponderRelease: (_, gesture) => finishMove(gesture),
+      onPanResponderTerminationRequest: () => false,
+      onPanResponderTerminate: () => finishMove(null),
+    }),
+  ).current;
+
+  const resizeResponder = useRef(
+    PanResponder.create({
+      onStartShouldSetPanResponder: () => true,
+      onPanResponderGrant: () => callbacks.current.onDragStart('resize'),
+      onPanResponderMove: (_, gesture) =>
+        callbacks.current.onDragMove(0, gesture.dy),
+      onPanResponderRelease: (_, gesture) =>
+        callbacks.current.onDragEnd('resize', 0, gesture.dy),
+      onPanResponderTerminationRequest: () => false,
+      onPanResponderTerminate: () => callbacks.current.onDragCancel(),
+    }),
+  ).current;
+
+  const handleLongPress = () => {
+    isMoveArmed.current = true;
+    isMoveGranted.current = false;
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
+    callbacks.current.onDragStart('move');
+  };
+
+  // Lifting the finger without moving ends the drag where it started
+  const handlePressOut = () => {
+    if (isMoveArmed.current && !isMoveGranted.current) {
+      finishMove(null);
+    }
+  };
+
+  // The wrapper takes the event's place and the event is laid out inside
+  // it, as Android does not pass on touches outside a view's bounds
+  return (
+    <View
+      style={[
+        styles.container,
+        {
+          top: position.top,
+          left: position.left,
+          width: position.width,
+        },
+        (isExpanded || props.isDragging) && styles.raised,
+      ]}
+      {...(isDraggable ? moveResponder.panHandlers : {})}>
+      <EventItem
+        task={task}
+        position={{ ...position, top: 0, left: 0 }}
+        style={styles.inWrapper}
+        isLocked={isLocked}
+        isExpanded={isExpanded}
+        onPress={props.onPress}
+        onViewDetails={props.onViewDetails}
+        onLongPress={isDraggable ? handleLongPress : undefined}
+        onPressOut={isDraggable ? handlePressOut : undefined}
+        isDragging={props.isDragging}
+        dragLabel={props.dragLabel}
+        conflictLabel={props.conflictLabel}
+        resizeHandlers={
+          isDraggable && canResize ? resizeResponder.panHandlers : undefined
+        }
+      />
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    position: 'absolute',
+  },
+  raised: {
+    zIndex: 10,
+  },
+  inWrapper: {
+    position: 'relative',
+  },
+});
+
+export default DraggableEventItem;
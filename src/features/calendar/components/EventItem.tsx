@@ -7,6 +7,9 @@ import {
   LayoutAnimation,
   Platform,
   UIManager,
+  GestureResponderHandlers,
+  StyleProp,
+  ViewStyle,
 } from 'react-native';
 import { Ionicons } from '@expo/vector-icons';
 import { Task } from '@/types';
@@ -27,6 +30,16 @@ interface Props {
   onViewDetails: () => void;
   isExpanded: boolean;
   isLocked?: boolean;
+  onLongPress?: () => void;
+  onPressOut?: () => void;
+  /** Being dragged; the label shows where it would land */
+  isDragging?: boolean;
+  dragLabel?: string;
+  /** Lectures the dragged task would overlap, e.g. "Overlaps Physics" */
+  conflictLabel?: string | null;
+  /** Shows a handle at the bottom edge that changes the task's length */
+  resizeHandlers?: GestureResponderHandlers;
+  style?: StyleProp<ViewStyle>;
 }
 
 const EventItem: React.FC<Props> = ({
@@ -36,11 +49,19 @@ const EventItem: React.FC<Props> = ({
   onViewDetails,
   isExpanded,
   isLocked = false,
+  onLongPress,
+  onPressOut,
+  isDragging = false,
+  dragLabel,
+  conflictLabel,
+  resizeHandlers,
+  style,
 }) => {
   const eventColor = {
     lecture: '#007AFF',
     study_session: '#34C759',
     assignment: '#FF9500',
+    exam: '#AF52DE',
   };
 
   const backgroundColor = isLocked
@@ -71,6 +92,9 @@ const EventItem: React.FC<Props> = ({
   return (
     <TouchableOpacity
       onPress={handlePress}
+      onLongPress={onLongPress}
+      onPressOut={onPressOut}
+      delayLongPress={300}
       style={[
         styles.container,
         {
@@ -83,6 +107,8 @@ const EventItem: React.FC<Props> = ({
         },
         isLocked && styles.lockedContainer,
         isCompleted && styles.completedContainer,
+        isDragging && styles.draggingContainer,
+        style,
       ]}
       activeOpacity={0.7}>
       {isLocked && (
@@ -132,23 +158,33 @@ const EventItem: React.FC<Props> = ({
             size={12}
             color="rgba(255, 255, 255, 0.8)"
           />
-          <Text style={styles.timeRange}>{timeRange}</Text>
+          <Text style={styles.timeRange}>{dragLabel ?? timeRange}</Text>
         </View>
 
-        {/* Location (for lectures) */}
-        {task.type === 'lecture' && (task as any).location && (
-          <View style={styles.infoRow}>
-            <Ionicons
-              name="location-outline"
-              size={12}
-              color="rgba(255, 255, 255, 0.8)"
-            />
-            <Text style={styles.locationText} numberOfLines={1}>
-              {(task as any).location}
+        {conflictLabel && (
+          <View style={styles.conflictBadge}>
+            <Ionicons name="warning" size={12} color="#fff" />
+            <Text style={styles.conflictText} numberOfLines={1}>
+              {conflictLabel}
             </Text>
           </View>
         )}
 
+        {/* Location (for lectures and exams) */}
+        {(task.type === 'lecture' || task.type === 'exam') &&
+          (task as any).location && (
+            <View style={styles.infoRow}>
+              <Ionicons
+                name="location-outline"
+                size={12}
+                color="rgba(255, 255, 255, 0.8)"
+              />
+              <Text style={styles.locationText} numberOfLines={1}>
+                {(task as any).location}
+              </Text>
+            </View>
+          )}
+
         {/* Expanded Section */}
         {isExpanded && (
           <View style={styles.expandedSection}>
@@ -229,6 +265,16 @@ const EventItem: React.FC<Props> = ({
           />
         </View>
       </View>
+
+      {/* Resize Handle */}
+      {resizeHandlers && !isExpanded && (
+        <View
+          style={styles.resizeHandle}
+          accessibilityLabel="Drag to change length"
+          {...resizeHandlers}>
+          <View style={styles.resizeGrip} />
+        </View>
+      )}
     </TouchableOpacity>
   );
 };
@@ -252,6 +298,12 @@ const styles = StyleSheet.create({
   completedContainer: {
     opacity: 0.7,
   },
+  draggingContainer: {
+    opacity: 0.9,
+    zIndex: 20,
+    elevation: 8,
+    borderLeftColor: '#fff',
+  },
   lockIconContainer: {
     position: 'absolute',
     top: 4,
@@ -324,6 +376,37 @@ const styles = StyleSheet.create({
     fontSize: 11,
     flex: 1,
   },
+  conflictBadge: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    alignSelf: 'flex-start',
+    gap: 4,
+    backgroundColor: '#FF3B30',
+    paddingHorizontal: 6,
+    paddingVertical: 2,
+    borderRadius: BORDER_RADIUS.xs,
+    marginTop: 2,
+  },
+  conflictText: {
+    color: '#fff',
+    fontSize: 10,
+    fontWeight: '600',
+  },
+  resizeHandle: {
+    position: 'absolute',
+    left: 0,
+    right: 0,
+    bottom: 0,
+    height: 14,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  resizeGrip: {
+    width: 28,
+    height: 4,
+    borderRadius: 2,
+    backgroundColor: 'rgba(255, 255, 255, 0.6)',
+  },
   lockedText: {
     opacity: 0.7,
   },
@@ -1,60 +1,152 @@
-import React, { useState } from 'react';
-import { View, Text, StyleSheet, ScrollView } from 'react-native';
+import React, { useEffect, useRef, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  LayoutChangeEvent,
+} from 'react-native';
+import { format, isSameDay } from 'date-fns';
 import { Task } from '@/types';
-import EventItem from './EventItem';
+import {
+  canResizeTask,
+  findLectureConflicts,
+  isSameCalendarTask,
+  getTaskTimeRange,
+  moveTaskRange,
+  resizeTaskRange,
+  TaskTimeRange,
+} from '@/utils/calendarReschedule';
+import DraggableEventItem, { DragMode } from './DraggableEventItem';
 
 const HOUR_HEIGHT = 80;
+const HOUR_LABEL_WIDTH = 70;
+const DEFAULT_EVENT_WIDTH = 200;
+const INITIAL_SCROLL_HOUR = 7;
+
+// Sideways distance that moves a dragged task by one day
+const DAY_DRAG_DISTANCE = 100;
+
+interface DragState {
+  task: Task;
+  mode: DragMode;
+  dx: number;
+  dy: number;
+}
 
 interface Props {
   tasks: Task[];
   onTaskPress: (task: Task) => void;
   onLockedTaskPress?: (task: Task) => void;
-  onScroll: (event: any) => void;
+  onScroll?: (event: any) => void;
+  /**
+   * Makes tasks draggable: long-press to move one, drag its bottom edge to
+   * change its length. Called on drop with the lectures it now overlaps.
+   */
+  onTaskReschedule?: (
+    task: Task,
+    range: TaskTimeRange,
+    conflicts: Task[],
+  ) => void;
+  /** Tasks checked for lecture conflicts while dragging; defaults to tasks */
+  conflictTasks?: Task[];
 }
 
+const formatTime = (date: Date) => format(date, 'h:mm a');
+
+/** Where a dragged task would land; the day is named once it changes */
+const describeDragRange = (task: Task, { start, end }: TaskTimeRange) => {
+  const day = isSameDay(start, new Date(task.startTime || task.date))
+    ? ''
+    : `${format(start, 'EEE d MMM')}, `;
+  return `${day}${formatTime(start)} - ${formatTime(end)}`;
+};
+
+const describeConflicts = (conflicts: Task[]) =>
+  conflicts.length === 1
+    ? `Overlaps ${conflicts[0].name || 'a lecture'}`
+    : `Overlaps ${conflicts.length} lectures`;
+
 const Timeline: React.FC<Props> = ({
   tasks,
   onTaskPress,
   onLockedTaskPress,
   onScroll,
+  onTaskReschedule,
+  conflictTasks,
 }) => {
   const [expandedTaskId, setExpandedTaskId] = useState<string | null>(null);
+  const [drag, setDrag] = useState<DragState | null>(null);
+  const [width, setWidth] = useState<number | null>(null);
+  const scrollRef = useRef<ScrollView>(null);
   const hours = Array.from({ length: 24 }, (_, i) => i);
 
+  useEffect(() => {
+    scrollRef.current?.scrollTo({
+      y: INITIAL_SCROLL_HOUR * HOUR_HEIGHT,
+      animated: false,
+    });
+  }, []);
+
   const handleToggleExpand = (taskId: string) => {
     setExpandedTaskId(prev => (prev === taskId ? null : taskId));
   };
 
-  const calculatePosition = (task: Task) => {
-    const startTime = new Date(task.startTime || task.date);
-    const startMinutes = startTime.getHours() * 60 + startTime.getMinutes();
-    const top = (startMinutes / 60) * HOUR_HEIGHT;
-
-    let durationMinutes = 60;
-    if (task.type === 'lecture' && task.endTime) {
-      const endTime = new Date(task.endTime);
-      if (endTime > startTime) {
-        durationMinutes =
-          (endTime.getTime() - startTime.getTime()) / (1000 * 60);
-      }
-    }
+  const handleLayout = (event: LayoutChangeEvent) => {
+    setWidth(event.nativeEvent.layout.width);
+  };
+
+  const getDragRange = ({ task, mode, dx, dy }: DragState) => {
+    const range = getTaskTimeRange(task);
+    const minutes = (dy / HOUR_HEIGHT) * 60;
+    return mode === 'resize'
+      ? resizeTaskRange(range, minutes)
+      : moveTaskRange(range, minutes, Math.round(dx / DAY_DRAG_DISTANCE));
+  };
 
+  const calculatePosition = ({ start, end }: TaskTimeRange) => {
+    const startMinutes = start.getHours() * 60 + start.getMinutes();
+    const durationMinutes = (end.getTime() - start.getTime()) / (1000 * 60);
     const height = (durationMinutes / 60) * HOUR_HEIGHT - 2;
 
     return {
-      top,
-      left: 70,
+      top: (startMinutes / 60) * HOUR_HEIGHT,
+      left: HOUR_LABEL_WIDTH,
       height: Math.max(height, 20),
-      width: 200,
+      width: width ? width - HOUR_LABEL_WIDTH - 12 : DEFAULT_EVENT_WIDTH,
     };
   };
 
+  const handleDragEnd = (
+    task: Task,
+    mode: DragMode,
+    dx: number,
+    dy: number,
+  ) => {
+    setDrag(null);
+    const original = getTaskTimeRange(task);
+    const range = getDragRange({ task, mode, dx, dy });
+    if (
+      range.start.getTime() === original.start.getTime() &&
+      range.end.getTime() === original.end.getTime()
+    ) {
+      return;
+    }
+    onTaskReschedule?.(
+      task,
+      range,
+      findLectureConflicts(task, range, conflictTasks ?? tasks),
+    );
+  };
+
   return (
     <ScrollView
+      ref={scrollRef}
       style={styles.container}
       onScroll={onScroll}
-      scrollEventThrottle={16}>
-      <View style={styles.timelineContainer}>
+      scrollEventThrottle={16}
+      scrollEnabled={!drag}>
+      <View style={styles.timelineContainer} onLayout={handleLayout}>
         {hours.map((_, i) => (
           <View key={`hour-slot-${i}`} style={styles.hourSlot}>
             <Text
@@ -66,36 +158,52 @@ const Timeline: React.FC<Props> = ({
         ))}
 
         {tasks.map(task => {
-          const position = calculatePosition(task);
           const isLocked = task.isLocked || false;
           const isExpanded = expandedTaskId === task.id;
+          const isDragging = !!drag && isSameCalendarTask(drag.task, task);
+          const range =
+            drag && isDragging ? getDragRange(drag) : getTaskTimeRange(task);
+          const conflicts = isDragging
+            ? findLectureConflicts(task, range, conflictTasks ?? tasks)
+            : [];
 
           return (
-            <View
-              key={task.id}
-              style={[
-                styles.eventContainer,
-                position,
-                isExpanded && { zIndex: 10 },
-              ]}>
-              <EventItem
-                task={task}
-                position={position}
-                isLocked={isLocked}
-                isExpanded={isExpanded}
-                onPress={() => {
-                  if (isLocked && onLockedTaskPress) {
-                    onLockedTaskPress(task);
-                  } else {
-                    handleToggleExpand(task.id);
-                  }
-                }}
-                onViewDetails={() => {
-                  setExpandedTaskId(null);
-                  onTaskPress(task);
-                }}
-              />
-            </View>
+            <DraggableEventItem
+              key={`${task.type}-${task.id}-${task.date}`}
+              task={task}
+              position={calculatePosition(range)}
+              isLocked={isLocked}
+              isDraggable={!!onTaskReschedule && !isLocked}
+              isExpanded={isExpanded}
+              canResize={canResizeTask(task)}
+              isDragging={isDragging}
+              dragLabel={
+                isDragging ? describeDragRange(task, range) : undefined
+              }
+              conflictLabel={
+                conflicts.length > 0 ? describeConflicts(conflicts) : null
+              }
+              onPress={() => {
+                if (isLocked && onLockedTaskPress) {
+                  onLockedTaskPress(task);
+                } else {
+                  handleToggleExpand(task.id);
+                }
+              }}
+              onViewDetails={() => {
+                setExpandedTaskId(null);
+                onTaskPress(task);
+              }}
+              onDragStart={mode => {
+                setExpandedTaskId(null);
+                setDrag({ task, mode, dx: 0, dy: 0 });
+              }}
+              onDragMove={(dx, dy) =>
+                setDrag(prev => (prev ? { ...prev, dx, dy } : prev))
+              }
+              onDragEnd={(mode, dx, dy) => handleDragEnd(task, mode, dx, dy)}
+              onDragCancel={() => setDrag(null)}
+            />
           );
         })}
       </View>
@@ -118,7 +226,7 @@ const styles = StyleSheet.create({
     height: HOUR_HEIGHT,
   },
   hourText: {
-    width: 70,
+    width: HOUR_LABEL_WIDTH,
     textAlign: 'center',
     fontSize: 12,
     color: '#6c757d',
@@ -129,9 +237,6 @@ const styles = StyleSheet.create({
     height: 1,
     backgroundColor: '#e9ecef',
   },
-  eventContainer: {
-    position: 'absolute',
-  },
 });
 
 export default Timeline;
@@ -10,7 +10,7 @@ import {
   COLORS,
 } from '@/constants/theme';
 
-type ViewMode = 'month' | 'week' | 'agenda';
+type ViewMode = 'month' | 'week' | 'day' | 'agenda';
 
 interface ViewModeToggleProps {
   selectedMode: ViewMode;
@@ -26,6 +26,7 @@ export const ViewModeToggle: React.FC<ViewModeToggleProps> = ({
   const modes: { label: string; value: ViewMode }[] = [
     { label: 'Month', value: 'month' },
     { label: 'Week', value: 'week' },
+    { label: 'Day', value: 'day' },
     { label: 'Agenda', value: 'agenda' },
   ];
 
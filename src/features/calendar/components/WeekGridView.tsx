@@ -113,7 +113,7 @@ const WeekGridView: React.FC<WeekGridViewProps> = ({
 
         // Calculate end time
         let endMinutes = startMinutes + 60; // Default 1 hour
-        if (task.type === 'lecture' && task.endTime) {
+        if ((task.type === 'lecture' || task.type === 'exam') && task.endTime) {
           const endTime = new Date(task.endTime);
           if (endTime > startTime) {
             endMinutes = endTime.getHours() * 60 + endTime.getMinutes();
@@ -205,6 +205,8 @@ const WeekGridView: React.FC<WeekGridViewProps> = ({
         return '#FF9500';
       case 'study_session':
         return '#34C759';
+      case 'exam':
+        return '#AF52DE';
       default:
         return COLORS.gray;
     }
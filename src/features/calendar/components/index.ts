@@ -7,4 +7,5 @@ export { ViewModeToggle } from './ViewModeToggle';
 export { CalendarHeader } from './CalendarHeader';
 export { CalendarMonthView } from './CalendarMonthView';
 export { CalendarAgendaView } from './CalendarAgendaView';
+export { CalendarDayView } from './CalendarDayView';
 export { CalendarTaskItem } from './CalendarTaskItem';
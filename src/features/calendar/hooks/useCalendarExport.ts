@@ -0,0 +1,63 @@
+import { useState, useCallback } from 'react';
+import * as FileSystem from 'expo-file-system';
+import * as Sharing from 'expo-sharing';
+import * as Clipboard from 'expo-clipboard';
+import { calendarApi } from '@/services/api/queries/calendar';
+import { CalendarFeedInfo } from '@/types';
+
+/**
+ * Export the user's schedule as an iCalendar (.ics) file or subscription feed
+ */
+export const useCalendarExport = () => {
+  const [isExporting, setIsExporting] = useState(false);
+
+  /**
+   * Download a one-off .ics snapshot and open the system share sheet
+   * @returns Number of events exported
+   */
+  const exportIcsFile = useCallback(async (): Promise<number> => {
+    setIsExporting(true);
+    try {
+      const file = await calendarApi.exportIcs();
+      const fileUri = `${FileSystem.cacheDirectory}${file.filename}`;
+
+      await FileSystem.writeAsStringAsync(fileUri, file.content, {
+        encoding: FileSystem.EncodingType.UTF8,
+      });
+
+      if (!(await Sharing.isAvailableAsync())) {
+        throw new Error('Sharing is not available on this device.');
+      }
+
+      await Sharing.shareAsync(fileUri, {
+        mimeType: 'text/calendar',
+        UTI: 'public.calendar-event',
+        dialogTitle: 'Export calendar',
+      });
+
+      return file.event_count;
+    } finally {
+      setIsExporting(false);
+    }
+  }, []);
+
+  /**
+   * Copy the subscription URL so it can be added to Google/Apple/Outlook calendar
+   * @param rotate - Revoke the previous URL and issue a new one
+   */
+  const copyFeedUrl = useCallback(
+    async (rotate: boolean = false): Promise<CalendarFeedInfo> => {
+      setIsExporting(true);
+      try {
+        const feed = await calendarApi.getFeed(rotate);
+        await Clipboard.setStringAsync(feed.feed_url);
+        return feed;
+      } finally {
+        setIsExporting(false);
+      }
+    },
+    [],
+  );
+
+  return { exportIcsFile, copyFeedUrl, isExporting };
+};
@@ -15,6 +15,7 @@ import { Calendar, DateData } from 'react-native-calendars';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
 import { useAuth } from '@/contexts/AuthContext';
 import { useCalendarTasksWithLockState } from '@/features/calendar/hooks/useCalendarTasksWithLockState';
+import { useCalendarExport } from '@/features/calendar/hooks/useCalendarExport';
 import { useCalendarData, useCalendarMonthData } from '@/hooks/useDataQueries';
 import { useQueryClient } from '@tanstack/react-query';
 import { Task, RootStackParamList } from '@/types';
@@ -25,6 +26,7 @@ import {
   CalendarHeader,
   CalendarMonthView,
   CalendarAgendaView,
+  CalendarDayView,
   CalendarTaskItem,
   ViewModeToggle,
 } from '@/features/calendar/components';
@@ -32,7 +34,7 @@ import { CalendarTaskCard } from '@/features/calendar/components/CalendarTaskCar
 import { NotificationBell } from '@/shared/components/NotificationBell';
 import { NotificationHistoryModal } from '@/shared/components/NotificationHistoryModal';
 import TaskDetailSheet from '@/shared/components/TaskDetailSheet';
-import { QueryStateWrapper } from '@/shared/components';
+import { QueryStateWrapper, TaskFilterChips } from '@/shared/components';
 import {
   startOfWeek,
   isSameDay,
@@ -49,7 +51,22 @@ import {
   useCompleteTask,
   useRestoreTask,
 } from '@/hooks/useTaskMutations';
+import { useRescheduleTask } from '@/hooks/useRescheduleTask';
 import { useToast } from '@/contexts/ToastContext';
+import { useTaskSelection } from '@/hooks/useTaskSelection';
+import { useBulkTaskEdit } from '@/hooks/useBulkTaskEdit';
+import { BulkActionBar } from '@/shared/components/BulkActionBar';
+import { BulkTaskEdit } from '@/utils/bulkEdit';
+import {
+  applyTimeRange,
+  getTaskTimeRange,
+  TaskTimeRange,
+} from '@/utils/calendarReschedule';
+import {
+  EMPTY_TASK_FILTER,
+  TaskFilter,
+  filterCalendarData,
+} from '@/utils/taskTags';
 import { mapErrorCodeToMessage, getErrorTitle } from '@/utils/errorMapping';
 import { Ionicons } from '@expo/vector-icons';
 import { useJSThreadMonitor } from '@/hooks/useJSThreadMonitor';
@@ -61,7 +78,7 @@ import {
 } from '@/services/revenueCatWrapper';
 
 type CalendarScreenNavigationProp = StackNavigationProp<RootStackParamList>;
-type ViewMode = 'month' | 'week' | 'agenda';
+type ViewMode = 'month' | 'week' | 'day' | 'agenda';
 
 const CalendarScreen = () => {
   const navigation = useNavigation<CalendarScreenNavigationProp>();
@@ -80,6 +97,7 @@ const CalendarScreen = () => {
   const deleteTaskMutation = useDeleteTask();
   const completeTaskMutation = useCompleteTask();
   const restoreTaskMutation = useRestoreTask();
+  const { mutateAsync: rescheduleTask } = useRescheduleTask();
   const { showToast } = useToast();
 
   // JS Thread monitoring (dev only)
@@ -116,6 +134,16 @@ const CalendarScreen = () => {
     startOfWeek(new Date(), { weekStartsOn: 1 }),
   );
   const [selectedTask, setSelectedTask] = useState<Task | null>(null);
+  const [taskFilter, setTaskFilter] = useState<TaskFilter>(EMPTY_TASK_FILTER);
+  const {
+    items: selectedItems,
+    count: selectedCount,
+    isSelecting,
+    isSelected: isTaskSelected,
+    toggle: toggleTaskSelection,
+    clear: clearTaskSelection,
+  } = useTaskSelection();
+  const { applyEdit, isApplying } = useBulkTaskEdit();
   const scrollLock = useRef({ top: false, bottom: false });
 
   // Fetch data based on view mode
@@ -140,8 +168,15 @@ const CalendarScreen = () => {
   } = useCalendarMonthData(currentYear, currentMonth);
 
   // Select appropriate data based on view mode
-  const calendarData =
+  const unfilteredCalendarData =
     viewMode === 'month' ? monthCalendarData : weekCalendarData;
+  // Every view below shows only the tasks passing the tag/priority filter
+  const calendarData = useMemo(
+    () =>
+      unfilteredCalendarData &&
+      filterCalendarData(unfilteredCalendarData, taskFilter),
+    [unfilteredCalendarData, taskFilter],
+  );
   const isLoading = viewMode === 'month' ? isLoadingMonth : isLoadingWeek;
   const isError = viewMode === 'month' ? isErrorMonth : isErrorWeek;
   const error = viewMode === 'month' ? errorMonth : errorWeek;
@@ -186,9 +221,32 @@ const CalendarScreen = () => {
     }
   }, []);
 
-  const handleTaskPress = useCallback((task: Task) => {
-    setSelectedTask(task);
-  }, []);
+  // While selecting for a bulk edit, tapping a task adds or removes it
+  const handleTaskPress = useCallback(
+    (task: Task) => {
+      if (isSelecting) {
+        toggleTaskSelection(task);
+      } else {
+        setSelectedTask(task);
+      }
+    },
+    [isSelecting, toggleTaskSelection],
+  );
+
+  const handleTaskLongPress = useCallback(
+    (task: Task) => {
+      if (!task.isLocked) toggleTaskSelection(task);
+    },
+    [toggleTaskSelection],
+  );
+
+  const handleBulkEdit = useCallback(
+    async (edit: BulkTaskEdit) => {
+      const result = await applyEdit(edit, selectedItems);
+      if (result) clearTaskSelection();
+    },
+    [applyEdit, selectedItems, clearTaskSelection],
+  );
 
   const handleCloseSheet = useCallback(() => {
     setSelectedTask(null);
@@ -223,7 +281,8 @@ const CalendarScreen = () => {
   }, [selectedTask, handleCloseSheet, navigation]);
 
   const handleCompleteTask = useCallback(async () => {
-    if (!selectedTask) return;
+    // Exams are not completed, only taken
+    if (!selectedTask || selectedTask.type === 'exam') return;
 
     try {
       await completeTaskMutation.mutateAsync({
@@ -283,6 +342,43 @@ const CalendarScreen = () => {
     handleCloseSheet,
   ]);
 
+  // A task dropped on the day grid: save it, and offer to move it back
+  const handleTaskReschedule = useCallback(
+    async (task: Task, range: TaskTimeRange, conflicts: Task[]) => {
+      try {
+        const result = await rescheduleTask({ task, range });
+
+        const message = [
+          `Moved to ${format(range.start, 'EEE d MMM, h:mm a')}`,
+          conflicts.length > 0 &&
+            `overlaps ${conflicts.length === 1 ? conflicts[0].name : `${conflicts.length} lectures`}`,
+          result.offline && 'syncs when back online',
+          result.failedReminders > 0 &&
+            `${result.failedReminders} reminder${result.failedReminders === 1 ? '' : 's'} not moved`,
+        ]
+          .filter(Boolean)
+          .join(' · ');
+
+        const original = getTaskTimeRange(task);
+        showToast({
+          message,
+          icon: conflicts.length > 0 ? 'warning-outline' : 'calendar-outline',
+          onUndo: () =>
+            rescheduleTask({
+              task: applyTimeRange(task, range),
+              range: original,
+            }).catch(error =>
+              Alert.alert(getErrorTitle(error), mapErrorCodeToMessage(error)),
+            ),
+          duration: 5000,
+        });
+      } catch (error) {
+        Alert.alert(getErrorTitle(error), mapErrorCodeToMessage(error));
+      }
+    },
+    [rescheduleTask, showToast],
+  );
+
   const handleScroll = useCallback(
     (event: {
       nativeEvent: {
@@ -441,10 +537,17 @@ const CalendarScreen = () => {
         onPress={() =>
           item.isLocked ? handleLockedTaskPress(item) : handleTaskPress(item)
         }
+        onLongPress={() => handleTaskLongPress(item)}
         isLocked={item.isLocked}
+        isSelected={isTaskSelected(item)}
       />
     ),
-    [handleTaskPress, handleLockedTaskPress],
+    [
+      handleTaskPress,
+      handleTaskLongPress,
+      handleLockedTaskPress,
+      isTaskSelected,
+    ],
   );
 
   const [isNotificationHistoryVisible, setIsNotificationHistoryVisible] =
@@ -458,14 +561,72 @@ const CalendarScreen = () => {
     setIsNotificationHistoryVisible(false);
   }, []);
 
+  const { exportIcsFile, copyFeedUrl, isExporting } = useCalendarExport();
+
+  const handleExportIcs = useCallback(async () => {
+    try {
+      await exportIcsFile();
+    } catch (error) {
+      console.error('Error exporting calendar:', error);
+      Alert.alert(getErrorTitle(error), mapErrorCodeToMessage(error));
+    }
+  }, [exportIcsFile]);
+
+  const handleCopyFeedUrl = useCallback(
+    async (rotate: boolean) => {
+      try {
+        await copyFeedUrl(rotate);
+        showToast({
+          message: rotate
+            ? 'New subscription link copied. The old link no longer works.'
+            : 'Subscription link copied. Add it to your calendar app "From URL".',
+          duration: 4000,
+        });
+      } catch (error) {
+        console.error('Error getting calendar feed:', error);
+        Alert.alert(getErrorTitle(error), mapErrorCodeToMessage(error));
+      }
+    },
+    [copyFeedUrl, showToast],
+  );
+
+  const handleExportPress = useCallback(() => {
+    Alert.alert(
+      'Export Calendar',
+      'Export your lectures, deadlines and study sessions to Google, Apple or Outlook calendar.',
+      [
+        { text: 'Export .ics File', onPress: handleExportIcs },
+        {
+          text: 'Copy Subscription Link',
+          onPress: () => handleCopyFeedUrl(false),
+        },
+        {
+          text: 'Reset Subscription Link',
+          style: 'destructive',
+          onPress: () => handleCopyFeedUrl(true),
+        },
+        { text: 'Cancel', style: 'cancel' },
+      ],
+    );
+  }, [handleExportIcs, handleCopyFeedUrl]);
+
   // Render calendar content - used both for empty state and normal state
   const renderCalendarContent = () => (
     <View style={[styles.container, { paddingTop: insets.top }]}>
-      <CalendarHeader onNotificationPress={handleNotificationBellPress} />
+      <CalendarHeader
+        onNotificationPress={handleNotificationBellPress}
+        onExportPress={handleExportPress}
+        isExporting={isExporting}
+      />
 
       {/* View Mode Toggle */}
       <View style={styles.viewToggleContainer}>
         <ViewModeToggle selectedMode={viewMode} onModeChange={setViewMode} />
+        <TaskFilterChips
+          filter={taskFilter}
+          onFilterChange={setTaskFilter}
+          style={styles.filterChips}
+        />
       </View>
 
       {/* Month View */}
@@ -491,6 +652,19 @@ const CalendarScreen = () => {
         />
       )}
 
+      {/* Day View */}
+      {viewMode === 'day' && (
+        <CalendarDayView
+          selectedDate={selectedDate}
+          tasksForSelectedDay={tasksForSelectedDay}
+          weekTasks={weekTasks}
+          onDateSelect={handleDateSelect}
+          onTaskPress={handleTaskPress}
+          onLockedTaskPress={handleLockedTaskPress}
+          onTaskReschedule={handleTaskReschedule}
+        />
+      )}
+
       {/* Agenda View */}
       {viewMode === 'agenda' && (
         <CalendarAgendaView
@@ -499,10 +673,21 @@ const CalendarScreen = () => {
           onDateSelect={handleDateSelect}
           onTaskPress={handleTaskPress}
           onLockedTaskPress={handleLockedTaskPress}
+          onTaskLongPress={handleTaskLongPress}
+          isTaskSelected={isTaskSelected}
           onScroll={handleScroll}
         />
       )}
 
+      {isSelecting && (
+        <BulkActionBar
+          count={selectedCount}
+          isApplying={isApplying}
+          onApply={handleBulkEdit}
+          onCancel={clearTaskSelection}
+        />
+      )}
+
       <TaskDetailSheet
         task={selectedTask}
         isVisible={!!selectedTask}
@@ -570,7 +755,7 @@ const CalendarScreen = () => {
       isLoading={isLoading}
       isError={isError}
       error={error}
-      data={calendarData}
+      data={unfilteredCalendarData}
       refetch={refetch}
       isRefetching={isRefetching}
       onRefresh={refetch}
@@ -607,6 +792,9 @@ const styles = StyleSheet.create({
     paddingHorizontal: SPACING.md,
     paddingVertical: SPACING.xs, // Reduced spacing to bring day cards closer to view toggle
   },
+  filterChips: {
+    marginTop: SPACING.sm,
+  },
   weekStripContainer: {
     borderBottomWidth: 1,
     borderBottomColor: COLORS.border,
@@ -0,0 +1,326 @@
+/**
+ * AssignmentGradeModal Component
+ *
+ * Enters the score for one assignment along with how much it counts: its
+ * grade category and, optionally, its own weight.
+ */
+
+import React, { useEffect, useState } from 'react';
+import {
+  Modal,
+  View,
+  Text,
+  TextInput,
+  StyleSheet,
+  TouchableOpacity,
+  KeyboardAvoidingView,
+  Platform,
+} from 'react-native';
+import { useTheme } from '@/hooks/useTheme';
+import { COLORS, FONT_WEIGHTS } from '@/constants/theme';
+import { Assignment, GradeCategory } from '@/types';
+import { AssignmentGradeUpdate } from '@/hooks/useGrades';
+
+interface AssignmentGradeModalProps {
+  assignment: Assignment | null;
+  categories: GradeCategory[];
+  isSaving: boolean;
+  onClose: () => void;
+  onSave: (update: AssignmentGradeUpdate) => void;
+}
+
+const toInput = (value?: number) => (value === undefined ? '' : String(value));
+
+/** Empty clears the value; anything unparsable is rejected */
+const parseInput = (value: string): number | null | undefined => {
+  const trimmed = value.trim().replace(',', '.');
+  if (trimmed === '') return null;
+  const parsed = Number(trimmed);
+  return Number.isFinite(parsed) && parsed >= 0 ? parsed : undefined;
+};
+
+export const AssignmentGradeModal: React.FC<AssignmentGradeModalProps> = ({
+  assignment,
+  categories,
+  isSaving,
+  onClose,
+  onSave,
+}) => {
+  const { theme } = useTheme();
+  const [score, setScore] = useState('');
+  const [maxScore, setMaxScore] = useState('');
+  const [weight, setWeight] = useState('');
+  const [category, setCategory] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!assignment) return;
+    setScore(toInput(assignment.score));
+    setMaxScore(toInput(assignment.maxScore));
+    setWeight(toInput(assignment.weight));
+    setCategory(assignment.gradeCategory ?? null);
+    setError(null);
+  }, [assignment]);
+
+  const handleSave = () => {
+    if (!assignment) return;
+
+    const parsedScore = parseInput(score);
+    const parsedMax = parseInput(maxScore);
+    const parsedWeight = parseInput(weight);
+
+    if (
+      parsedScore === undefined ||
+      parsedMax === undefined ||
+      parsedWeight === undefined
+    ) {
+      setError('Enter numbers of 0 or more.');
+      return;
+    }
+    if (parsedScore !== null && !parsedMax) {
+      setError('Enter the points possible to record a score.');
+      return;
+    }
+    if (parsedWeight !== null && parsedWeight > 100) {
+      setError('Weight cannot be more than 100%.');
+      return;
+    }
+
+    onSave({
+      assignmentId: assignment.id,
+      score: parsedScore,
+      maxScore: parsedMax,
+      weight: parsedWeight,
+      gradeCategory: category,
+    });
+  };
+
+  const inputStyle = [
+    styles.input,
+    {
+      color: theme.text,
+      backgroundColor: theme.input,
+      borderColor: theme.inputBorder,
+    },
+  ];
+
+  return (
+    <Modal
+      visible={!!assignment}
+      transparent
+      animationType="fade"
+      onRequestClose={onClose}>
+      <KeyboardAvoidingView
+        style={styles.overlay}
+        behavior={Platform.OS === 'ios' ? 'padding' : undefined}>
+        <View style={[styles.container, { backgroundColor: theme.card }]}>
+          <Text style={[styles.title, { color: theme.text }]}>Grade</Text>
+          <Text
+            style={[styles.subtitle, { color: theme.textSecondary }]}
+            numberOfLines={2}>
+            {assignment?.title}
+          </Text>
+
+          <View style={styles.row}>
+            <View style={styles.field}>
+              <Text style={[styles.label, { color: theme.textSecondary }]}>
+                Score
+              </Text>
+              <TextInput
+                style={inputStyle}
+                value={score}
+                onChangeText={setScore}
+                keyboardType="decimal-pad"
+                placeholder="Not graded"
+                placeholderTextColor={theme.textSecondary}
+                accessibilityLabel="Score"
+              />
+            </View>
+            <Text style={[styles.divider, { color: theme.textSecondary }]}>
+              /
+            </Text>
+            <View style={styles.field}>
+              <Text style={[styles.label, { color: theme.textSecondary }]}>
+                Out of
+              </Text>
+              <TextInput
+                style={inputStyle}
+                value={maxScore}
+                onChangeText={setMaxScore}
+                keyboardType="decimal-pad"
+                placeholder="100"
+                placeholderTextColor={theme.textSecondary}
+                accessibilityLabel="Points possible"
+              />
+            </View>
+          </View>
+
+          {categories.length > 0 && (
+            <>
+              <Text style={[styles.label, { color: theme.textSecondary }]}>
+                Category
+              </Text>
+              <View style={styles.chips}>
+                {categories.map(option => {
+                  const selected = option.id === category;
+                  return (
+                    <TouchableOpacity
+                      key={option.id}
+                      style={[
+                        styles.chip,
+                        { borderColor: theme.border },
+                        selected && {
+                          backgroundColor: theme.primary,
+                          borderColor: theme.primary,
+                        },
+                      ]}
+                      onPress={() => setCategory(selected ? null : option.id)}
+                      accessibilityRole="button"
+                      accessibilityState={{ selected }}>
+                      <Text
+                        style={[
+                          styles.chipText,
+                          { color: selected ? COLORS.white : theme.text },
+                        ]}>
+                        {option.name} · {option.weight}%
+                      </Text>
+                    </TouchableOpacity>
+                  );
+                })}
+              </View>
+            </>
+          )}
+
+          <Text style={[styles.label, { color: theme.textSecondary }]}>
+            Weight (% of course grade)
+          </Text>
+          <TextInput
+            style={inputStyle}
+            value={weight}
+            onChangeText={setWeight}
+            keyboardType="decimal-pad"
+            placeholder={
+              categories.length > 0 ? 'Share of category' : 'By points'
+            }
+            placeholderTextColor={theme.textSecondary}
+            accessibilityLabel="Weight"
+          />
+
+          {error && (
+            <Text style={[styles.error, { color: theme.destructive }]}>
+              {error}
+            </Text>
+          )}
+
+          <View style={styles.actions}>
+            <TouchableOpacity
+              style={[styles.button, { borderColor: theme.border }]}
+              onPress={onClose}
+              disabled={isSaving}>
+              <Text style={[styles.buttonText, { color: theme.text }]}>
+                Cancel
+              </Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[
+                styles.button,
+                styles.primaryButton,
+                { backgroundColor: theme.primary },
+              ]}
+              onPress={handleSave}
+              disabled={isSaving}>
+              <Text style={[styles.buttonText, { color: COLORS.white }]}>
+                {isSaving ? 'Saving...' : 'Save'}
+              </Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      </KeyboardAvoidingView>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: COLORS.overlay,
+    justifyContent: 'center',
+    padding: 24,
+  },
+  container: {
+    borderRadius: 16,
+    padding: 20,
+    gap: 8,
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: FONT_WEIGHTS.bold,
+  },
+  subtitle: {
+    fontSize: 14,
+    marginBottom: 8,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'flex-end',
+    gap: 8,
+  },
+  field: {
+    flex: 1,
+    gap: 4,
+  },
+  divider: {
+    fontSize: 20,
+    paddingBottom: 10,
+  },
+  label: {
+    fontSize: 13,
+    fontWeight: FONT_WEIGHTS.medium,
+    marginTop: 4,
+  },
+  input: {
+    borderWidth: 1,
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    fontSize: 16,
+  },
+  chips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  chip: {
+    borderWidth: 1,
+    borderRadius: 16,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+  },
+  chipText: {
+    fontSize: 14,
+  },
+  error: {
+    fontSize: 13,
+    marginTop: 4,
+  },
+  actions: {
+    flexDirection: 'row',
+    gap: 12,
+    marginTop: 12,
+  },
+  button: {
+    flex: 1,
+    height: 44,
+    borderRadius: 10,
+    borderWidth: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  primaryButton: {
+    borderWidth: 0,
+  },
+  buttonText: {
+    fontSize: 16,
+    fontWeight: FONT_WEIGHTS.semibold,
+  },
+});
@@ -0,0 +1,81 @@
+/**
+ * CourseFlashcardsCard Component
+ *
+ * Flashcards section of the course screen: the course-wide decks, with
+ * reviews and card editing, and a way in to importing decks from Anki or
+ * a CSV/TSV file.
+ */
+
+import React from 'react';
+import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
+import { useNavigation } from '@react-navigation/native';
+import { NativeStackNavigationProp } from '@react-navigation/native-stack';
+import { Ionicons } from '@expo/vector-icons';
+import { useTheme } from '@/hooks/useTheme';
+import { COLORS, FONT_WEIGHTS } from '@/constants/theme';
+import { RootStackParamList } from '@/types';
+import { FlashcardDeckPanel } from '@/features/studySessions/components/FlashcardDeckPanel';
+
+interface CourseFlashcardsCardProps {
+  courseId: string;
+}
+
+export function CourseFlashcardsCard({ courseId }: CourseFlashcardsCardProps) {
+  const navigation =
+    useNavigation<NativeStackNavigationProp<RootStackParamList>>();
+  const { theme } = useTheme();
+
+  return (
+    <View
+      style={[styles.sectionCard, { backgroundColor: theme.surface }]}
+      testID="course-flashcards-card">
+      <View style={styles.sectionHeader}>
+        <Ionicons name="albums" size={24} color={theme.primary} />
+        <Text style={[styles.sectionTitle, { color: theme.text }]}>
+          Flashcards
+        </Text>
+        <TouchableOpacity
+          onPress={() => navigation.navigate('ImportFlashcards', { courseId })}
+          style={styles.importButton}
+          accessibilityLabel="Import flashcards"
+          accessibilityRole="button">
+          <Ionicons
+            name="cloud-upload-outline"
+            size={22}
+            color={theme.primary}
+          />
+        </TouchableOpacity>
+      </View>
+
+      <FlashcardDeckPanel courseId={courseId} topic="Course deck" />
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  sectionCard: {
+    borderRadius: 12,
+    padding: 20,
+    marginBottom: 24,
+    shadowColor: COLORS.black,
+    shadowOffset: { width: 0, height: 1 },
+    shadowOpacity: 0.05,
+    shadowRadius: 2,
+    elevation: 2,
+  },
+  sectionHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    marginBottom: 16,
+  },
+  sectionTitle: {
+    flex: 1,
+    fontSize: 18,
+    fontWeight: FONT_WEIGHTS.bold,
+    letterSpacing: -0.015,
+  },
+  importButton: {
+    padding: 4,
+  },
+});
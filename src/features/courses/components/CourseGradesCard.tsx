@@ -0,0 +1,447 @@
+/**
+ * CourseGradesCard Component
+ *
+ * Grades section of the course screen: the grade so far, each assignment's
+ * score, and a calculator for the score needed on the final to finish with
+ * a chosen letter grade.
+ */
+
+import React, { useEffect, useMemo, useState } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  StyleSheet,
+  TouchableOpacity,
+  ActivityIndicator,
+  Alert,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { useTheme } from '@/hooks/useTheme';
+import {
+  useCourseGrades,
+  useUpdateAssignmentGrade,
+  useUpdateGradingScheme,
+} from '@/hooks/useGrades';
+import { COLORS, FONT_WEIGHTS } from '@/constants/theme';
+import { Assignment } from '@/types';
+import {
+  formatGradePercent,
+  getAssignmentPercent,
+  getAssignmentWeights,
+  getLetterScale,
+  getRequiredFinalScore,
+} from '@/utils/grades';
+import { mapErrorCodeToMessage, getErrorTitle } from '@/utils/errorMapping';
+import { AssignmentGradeModal } from './AssignmentGradeModal';
+import { GradingSchemeModal } from './GradingSchemeModal';
+
+interface CourseGradesCardProps {
+  courseId: string;
+}
+
+const formatNumber = (value: number) =>
+  Number.isInteger(value) ? String(value) : value.toFixed(1);
+
+export const CourseGradesCard: React.FC<CourseGradesCardProps> = ({
+  courseId,
+}) => {
+  const { theme } = useTheme();
+  const { data, isLoading } = useCourseGrades(courseId);
+  const updateGrade = useUpdateAssignmentGrade(courseId);
+  const updateScheme = useUpdateGradingScheme(courseId);
+  const [editingAssignment, setEditingAssignment] = useState<Assignment | null>(
+    null,
+  );
+  const [showSchemeModal, setShowSchemeModal] = useState(false);
+  const [targetLetter, setTargetLetter] = useState<string | null>(null);
+  const [finalWeight, setFinalWeight] = useState('');
+
+  const scheme = data?.course.gradingScheme;
+  const grade = data?.grade;
+  const letterScale = useMemo(
+    () => getLetterScale(scheme).filter(boundary => boundary.minPercent > 0),
+    [scheme],
+  );
+  const weights = useMemo(
+    () => getAssignmentWeights(data?.assignments ?? [], scheme),
+    [data?.assignments, scheme],
+  );
+  const categoryNames = useMemo(
+    () =>
+      new Map(
+        (scheme?.categories ?? []).map(category => [
+          category.id,
+          category.name,
+        ]),
+      ),
+    [scheme],
+  );
+
+  // Assume whatever hasn't been graded yet is the final
+  useEffect(() => {
+    if (grade?.remainingWeight) {
+      setFinalWeight(formatNumber(grade.remainingWeight));
+    }
+  }, [grade?.remainingWeight]);
+
+  useEffect(() => {
+    if (!targetLetter && letterScale.length > 0) {
+      setTargetLetter(letterScale[0].letter);
+    }
+  }, [letterScale, targetLetter]);
+
+  const showError = (error: unknown) =>
+    Alert.alert(getErrorTitle(error), mapErrorCodeToMessage(error));
+
+  const target = letterScale.find(boundary => boundary.letter === targetLetter);
+  const parsedFinalWeight = Number(finalWeight.replace(',', '.'));
+  const required =
+    grade?.percent !== null && grade?.percent !== undefined && target
+      ? getRequiredFinalScore(
+          grade.percent,
+          parsedFinalWeight,
+          target.minPercent,
+        )
+      : null;
+
+  const describeRequired = () => {
+    if (required === null || !target) {
+      return 'Enter how much the final is worth.';
+    }
+    if (required <= 0) {
+      return `You will get ${target.letter} or better whatever you score on the final.`;
+    }
+    if (required > 100) {
+      return `You would need ${formatGradePercent(required)} on the final, so ${target.letter} is out of reach.`;
+    }
+    return `You need ${formatGradePercent(required)} on the final to finish with ${target.letter}.`;
+  };
+
+  const describeWeight = (assignment: Assignment) => {
+    const parts: string[] = [];
+    const category = assignment.gradeCategory
+      ? categoryNames.get(assignment.gradeCategory)
+      : undefined;
+    if (category) parts.push(category);
+    if (grade?.gradedWeight !== null) {
+      parts.push(`${formatNumber(weights.get(assignment.id) ?? 0)}%`);
+    }
+    return parts.join(' · ');
+  };
+
+  return (
+    <View
+      style={[styles.sectionCard, { backgroundColor: theme.surface }]}
+      testID="course-grades-card">
+      <View style={styles.sectionHeader}>
+        <Ionicons name="school" size={24} color={theme.primary} />
+        <Text style={[styles.sectionTitle, { color: theme.text }]}>Grades</Text>
+        <TouchableOpacity
+          onPress={() => setShowSchemeModal(true)}
+          style={styles.schemeButton}
+          accessibilityLabel="Edit grading scheme"
+          accessibilityRole="button">
+          <Ionicons name="options-outline" size={22} color={theme.primary} />
+        </TouchableOpacity>
+      </View>
+
+      {isLoading ? (
+        <ActivityIndicator color={theme.primary} />
+      ) : (
+        <>
+          <View style={styles.summary}>
+            <Text style={[styles.summaryGrade, { color: theme.text }]}>
+              {grade?.percent !== null && grade?.percent !== undefined
+                ? formatGradePercent(grade.percent)
+                : '—'}
+            </Text>
+            {grade?.letter && (
+              <View
+                style={[
+                  styles.letterBadge,
+                  { backgroundColor: theme.primary },
+                ]}>
+                <Text style={styles.letterBadgeText}>
+                  {grade.letter.letter}
+                </Text>
+              </View>
+            )}
+          </View>
+          <Text style={[styles.summaryDetail, { color: theme.textSecondary }]}>
+            {grade?.gradedCount
+              ? grade.gradedWeight !== null
+                ? `${grade.gradedCount} graded · ${formatNumber(grade.gradedWeight)}% of the course grade`
+                : `${grade.gradedCount} graded · by points`
+              : 'No grades yet. Tap an assignment to add its score.'}
+          </Text>
+
+          {(data?.assignments ?? []).map(assignment => {
+            const percent = getAssignmentPercent(assignment);
+            const detail = describeWeight(assignment);
+            return (
+              <TouchableOpacity
+                key={assignment.id}
+                style={[
+                  styles.assignmentRow,
+                  { borderBottomColor: theme.border },
+                ]}
+                onPress={() => setEditingAssignment(assignment)}
+                accessibilityRole="button"
+                accessibilityLabel={`Grade ${assignment.title}`}>
+                <View style={styles.assignmentInfo}>
+                  <Text
+                    style={[styles.assignmentTitle, { color: theme.text }]}
+                    numberOfLines={1}>
+                    {assignment.title}
+                  </Text>
+                  {!!detail && (
+                    <Text
+                      style={[
+                        styles.assignmentDetail,
+                        { color: theme.textSecondary },
+                      ]}>
+                      {detail}
+                    </Text>
+                  )}
+                </View>
+                <Text
+                  style={[
+                    styles.assignmentScore,
+                    {
+                      color:
+                        percent === null ? theme.textSecondary : theme.text,
+                    },
+                  ]}>
+                  {percent === null
+                    ? 'Add score'
+                    : `${formatNumber(assignment.score ?? 0)}/${formatNumber(assignment.maxScore ?? 0)}`}
+                </Text>
+              </TouchableOpacity>
+            );
+          })}
+
+          {grade?.percent !== null && grade?.percent !== undefined && (
+            <View style={styles.calculator}>
+              <Text style={[styles.calculatorTitle, { color: theme.text }]}>
+                What do I need on the final?
+              </Text>
+              <View style={styles.letterChips}>
+                {letterScale.map(boundary => {
+                  const selected = boundary.letter === targetLetter;
+                  return (
+                    <TouchableOpacity
+                      key={boundary.letter}
+                      style={[
+                        styles.letterChip,
+                        { borderColor: theme.border },
+                        selected && {
+                          backgroundColor: theme.primary,
+                          borderColor: theme.primary,
+                        },
+                      ]}
+                      onPress={() => setTargetLetter(boundary.letter)}
+                      accessibilityRole="button"
+                      accessibilityState={{ selected }}>
+                      <Text
+                        style={[
+                          styles.letterChipText,
+                          { color: selected ? COLORS.white : theme.text },
+                        ]}>
+                        {boundary.letter}
+                      </Text>
+                    </TouchableOpacity>
+                  );
+                })}
+              </View>
+              <View style={styles.finalWeightRow}>
+                <Text
+                  style={[
+                    styles.finalWeightLabel,
+                    { color: theme.textSecondary },
+                  ]}>
+                  Final is worth
+                </Text>
+                <TextInput
+                  style={[
+                    styles.finalWeightInput,
+                    {
+                      color: theme.text,
+                      backgroundColor: theme.input,
+                      borderColor: theme.inputBorder,
+                    },
+                  ]}
+                  value={finalWeight}
+                  onChangeText={setFinalWeight}
+                  keyboardType="decimal-pad"
+                  placeholder="30"
+                  placeholderTextColor={theme.textSecondary}
+                  accessibilityLabel="Final exam weight in percent"
+                />
+                <Text
+                  style={[
+                    styles.finalWeightLabel,
+                    { color: theme.textSecondary },
+                  ]}>
+                  % of the grade
+                </Text>
+              </View>
+              <Text style={[styles.calculatorResult, { color: theme.text }]}>
+                {describeRequired()}
+              </Text>
+            </View>
+          )}
+        </>
+      )}
+
+      <AssignmentGradeModal
+        assignment={editingAssignment}
+        categories={scheme?.categories ?? []}
+        isSaving={updateGrade.isPending}
+        onClose={() => setEditingAssignment(null)}
+        onSave={update =>
+          updateGrade.mutate(update, {
+            onSuccess: () => setEditingAssignment(null),
+            onError: showError,
+          })
+        }
+      />
+      <GradingSchemeModal
+        isVisible={showSchemeModal}
+        scheme={scheme}
+        credits={data?.course.credits}
+        isSaving={updateScheme.isPending}
+        onClose={() => setShowSchemeModal(false)}
+        onSave={(nextScheme, credits) =>
+          updateScheme.mutate(
+            { scheme: nextScheme, credits },
+            {
+              onSuccess: () => setShowSchemeModal(false),
+              onError: showError,
+            },
+          )
+        }
+      />
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  sectionCard: {
+    borderRadius: 12,
+    padding: 20,
+    marginBottom: 24,
+    shadowColor: COLORS.black,
+    shadowOffset: { width: 0, height: 1 },
+    shadowOpacity: 0.05,
+    shadowRadius: 2,
+    elevation: 2,
+  },
+  sectionHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    marginBottom: 16,
+  },
+  sectionTitle: {
+    flex: 1,
+    fontSize: 18,
+    fontWeight: FONT_WEIGHTS.bold,
+    letterSpacing: -0.015,
+  },
+  schemeButton: {
+    padding: 4,
+  },
+  summary: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+  },
+  summaryGrade: {
+    fontSize: 32,
+    fontWeight: FONT_WEIGHTS.bold,
+  },
+  letterBadge: {
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    borderRadius: 8,
+  },
+  letterBadgeText: {
+    color: COLORS.white,
+    fontSize: 16,
+    fontWeight: FONT_WEIGHTS.bold,
+  },
+  summaryDetail: {
+    fontSize: 14,
+    marginTop: 4,
+    marginBottom: 12,
+  },
+  assignmentRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 12,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+    gap: 12,
+  },
+  assignmentInfo: {
+    flex: 1,
+  },
+  assignmentTitle: {
+    fontSize: 16,
+    fontWeight: FONT_WEIGHTS.medium,
+  },
+  assignmentDetail: {
+    fontSize: 13,
+    marginTop: 2,
+  },
+  assignmentScore: {
+    fontSize: 15,
+    fontWeight: FONT_WEIGHTS.semibold,
+  },
+  calculator: {
+    marginTop: 20,
+    gap: 12,
+  },
+  calculatorTitle: {
+    fontSize: 16,
+    fontWeight: FONT_WEIGHTS.semibold,
+  },
+  letterChips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  letterChip: {
+    minWidth: 44,
+    alignItems: 'center',
+    borderWidth: 1,
+    borderRadius: 16,
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+  },
+  letterChipText: {
+    fontSize: 14,
+    fontWeight: FONT_WEIGHTS.semibold,
+  },
+  finalWeightRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  finalWeightLabel: {
+    fontSize: 14,
+  },
+  finalWeightInput: {
+    width: 64,
+    borderWidth: 1,
+    borderRadius: 8,
+    paddingHorizontal: 8,
+    paddingVertical: 6,
+    fontSize: 16,
+    textAlign: 'center',
+  },
+  calculatorResult: {
+    fontSize: 15,
+    lineHeight: 22,
+  },
+});
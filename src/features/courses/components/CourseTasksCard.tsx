@@ -0,0 +1,226 @@
+/**
+ * CourseTasksCard Component
+ *
+ * Tasks section of the course screen: the course's lectures, assignments and
+ * study sessions, which can be selected to edit several at once and
+ * filtered by tag and priority.
+ */
+
+import React, { useMemo, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  ActivityIndicator,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { useTheme } from '@/hooks/useTheme';
+import { useCourseTasks } from '@/hooks/useCourseTasks';
+import { COLORS, FONT_WEIGHTS } from '@/constants/theme';
+import { formatDate } from '@/i18n';
+import { Task } from '@/types';
+import { TaskFilterChips } from '@/shared/components/TaskFilterChips';
+import {
+  EMPTY_TASK_FILTER,
+  TaskFilter,
+  filterTasks,
+  isFilterActive,
+} from '@/utils/taskTags';
+
+interface CourseTasksCardProps {
+  courseId: string;
+  isSelected: (task: Task) => boolean;
+  onToggle: (task: Task) => void;
+  onSelectAll: (tasks: Task[]) => void;
+  onClearSelection: () => void;
+  selectedCount: number;
+}
+
+const TASK_ICONS: Record<Task['type'], keyof typeof Ionicons.glyphMap> = {
+  lecture: 'school-outline',
+  assignment: 'document-text-outline',
+  study_session: 'book-outline',
+  exam: 'ribbon-outline',
+};
+
+export const CourseTasksCard: React.FC<CourseTasksCardProps> = ({
+  courseId,
+  isSelected,
+  onToggle,
+  onSelectAll,
+  onClearSelection,
+  selectedCount,
+}) => {
+  const { theme } = useTheme();
+  const { data: allTasks = [], isLoading } = useCourseTasks(courseId);
+  const [taskFilter, setTaskFilter] = useState<TaskFilter>(EMPTY_TASK_FILTER);
+
+  // Select all works on the tasks the filter shows
+  const tasks = useMemo(
+    () => filterTasks(allTasks, taskFilter),
+    [allTasks, taskFilter],
+  );
+  const allSelected =
+    tasks.length > 0 &&
+    selectedCount >= tasks.length &&
+    tasks.every(isSelected);
+
+  return (
+    <View style={[styles.card, { backgroundColor: theme.surface }]}>
+      <View style={styles.header}>
+        <Ionicons name="list" size={24} color={COLORS.primary} />
+        <Text style={[styles.title, { color: theme.text }]}>Tasks</Text>
+        {tasks.length > 0 && (
+          <TouchableOpacity
+            onPress={() =>
+              allSelected ? onClearSelection() : onSelectAll(tasks)
+            }
+            accessibilityRole="button">
+            <Text style={styles.headerAction}>
+              {allSelected ? 'Clear' : 'Select all'}
+            </Text>
+          </TouchableOpacity>
+        )}
+      </View>
+
+      {allTasks.length > 0 && (
+        <TaskFilterChips
+          filter={taskFilter}
+          onFilterChange={setTaskFilter}
+          style={styles.filterChips}
+        />
+      )}
+
+      {isLoading ? (
+        <ActivityIndicator color={COLORS.primary} />
+      ) : tasks.length === 0 ? (
+        <Text style={[styles.emptyText, { color: theme.textSecondary }]}>
+          {isFilterActive(taskFilter)
+            ? 'No tasks match these filters.'
+            : 'No lectures, assignments or study sessions yet.'}
+        </Text>
+      ) : (
+        <>
+          <Text style={[styles.hint, { color: theme.textSecondary }]}>
+            Select tasks to reschedule, move, complete or delete them together.
+          </Text>
+          {tasks.map(task => {
+            const selected = isSelected(task);
+            const completed = task.status === 'completed';
+            return (
+              <TouchableOpacity
+                key={`${task.type}:${task.id}`}
+                style={[
+                  styles.row,
+                  { borderColor: selected ? COLORS.primary : theme.border },
+                  selected && styles.rowSelected,
+                ]}
+                onPress={() => onToggle(task)}
+                accessibilityRole="checkbox"
+                accessibilityState={{ checked: selected }}
+                accessibilityLabel={task.name}>
+                <Ionicons
+                  name={TASK_ICONS[task.type]}
+                  size={20}
+                  color={theme.textSecondary}
+                />
+                <View style={styles.rowInfo}>
+                  <Text
+                    style={[
+                      styles.rowTitle,
+                      { color: theme.text },
+                      completed && styles.completedText,
+                    ]}
+                    numberOfLines={1}>
+                    {task.name}
+                  </Text>
+                  {task.date ? (
+                    <Text
+                      style={[styles.rowDate, { color: theme.textSecondary }]}>
+                      {formatDate(new Date(task.date), {
+                        dateStyle: 'medium',
+                        timeStyle: 'short',
+                      })}
+                    </Text>
+                  ) : null}
+                </View>
+                <Ionicons
+                  name={selected ? 'checkmark-circle' : 'ellipse-outline'}
+                  size={22}
+                  color={selected ? COLORS.primary : theme.border}
+                />
+              </TouchableOpacity>
+            );
+          })}
+        </>
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  card: {
+    borderRadius: 12,
+    padding: 20,
+    marginBottom: 24,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 1 },
+    shadowOpacity: 0.05,
+    shadowRadius: 2,
+    elevation: 2,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    marginBottom: 8,
+  },
+  title: {
+    flex: 1,
+    fontSize: 18,
+    fontWeight: FONT_WEIGHTS.bold,
+  },
+  headerAction: {
+    color: COLORS.primary,
+    fontSize: 15,
+    fontWeight: FONT_WEIGHTS.semibold,
+  },
+  hint: {
+    fontSize: 13,
+    marginBottom: 12,
+  },
+  filterChips: {
+    marginBottom: 12,
+  },
+  emptyText: {
+    fontSize: 15,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    borderWidth: 1,
+    borderRadius: 8,
+    padding: 12,
+    marginBottom: 8,
+  },
+  rowSelected: {
+    borderWidth: 2,
+  },
+  rowInfo: {
+    flex: 1,
+  },
+  rowTitle: {
+    fontSize: 15,
+    fontWeight: FONT_WEIGHTS.medium,
+  },
+  completedText: {
+    textDecorationLine: 'line-through',
+    opacity: 0.6,
+  },
+  rowDate: {
+    fontSize: 13,
+    marginTop: 2,
+  },
+});
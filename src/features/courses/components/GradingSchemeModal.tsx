@@ -0,0 +1,467 @@
+/**
+ * GradingSchemeModal Component
+ *
+ * Edits how a course is graded: its credits, weighted grade categories and
+ * the letter-grade scale.
+ */
+
+import React, { useEffect, useState } from 'react';
+import {
+  Modal,
+  View,
+  Text,
+  TextInput,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  KeyboardAvoidingView,
+  Platform,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { useTheme } from '@/hooks/useTheme';
+import { COLORS, FONT_WEIGHTS } from '@/constants/theme';
+import { GradingScheme } from '@/types';
+import { generateUUID } from '@/utils/uuid';
+import { DEFAULT_LETTER_GRADES, getLetterScale } from '@/utils/grades';
+
+interface GradingSchemeModalProps {
+  isVisible: boolean;
+  scheme?: GradingScheme;
+  credits?: number;
+  isSaving: boolean;
+  onClose: () => void;
+  onSave: (scheme: GradingScheme, credits: number | null) => void;
+}
+
+interface CategoryDraft {
+  id: string;
+  name: string;
+  weight: string;
+}
+
+interface LetterDraft {
+  letter: string;
+  minPercent: string;
+  gradePoints: string;
+}
+
+const toLetterDrafts = (scheme?: GradingScheme): LetterDraft[] =>
+  getLetterScale(scheme).map(boundary => ({
+    letter: boundary.letter,
+    minPercent: String(boundary.minPercent),
+    gradePoints: String(boundary.gradePoints),
+  }));
+
+const parseNumber = (value: string) => {
+  const trimmed = value.trim().replace(',', '.');
+  return trimmed === '' ? NaN : Number(trimmed);
+};
+
+export const GradingSchemeModal: React.FC<GradingSchemeModalProps> = ({
+  isVisible,
+  scheme,
+  credits,
+  isSaving,
+  onClose,
+  onSave,
+}) => {
+  const { theme } = useTheme();
+  const [creditsInput, setCreditsInput] = useState('');
+  const [categories, setCategories] = useState<CategoryDraft[]>([]);
+  const [letters, setLetters] = useState<LetterDraft[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!isVisible) return;
+    setCreditsInput(credits === undefined ? '' : String(credits));
+    setCategories(
+      (scheme?.categories ?? []).map(category => ({
+        id: category.id,
+        name: category.name,
+        weight: String(category.weight),
+      })),
+    );
+    setLetters(toLetterDrafts(scheme));
+    setError(null);
+  }, [isVisible, scheme, credits]);
+
+  const updateCategory = (index: number, changes: Partial<CategoryDraft>) =>
+    setCategories(current =>
+      current.map((category, i) =>
+        i === index ? { ...category, ...changes } : category,
+      ),
+    );
+
+  const updateLetter = (index: number, changes: Partial<LetterDraft>) =>
+    setLetters(current =>
+      current.map((letter, i) =>
+        i === index ? { ...letter, ...changes } : letter,
+      ),
+    );
+
+  const handleSave = () => {
+    const parsedCredits =
+      creditsInput.trim() === '' ? null : parseNumber(creditsInput);
+    if (parsedCredits !== null && !(parsedCredits >= 0)) {
+      setError('Credits must be a number of 0 or more.');
+      return;
+    }
+
+    const parsedCategories = categories.map(category => ({
+      id: category.id,
+      name: category.name.trim(),
+      weight: parseNumber(category.weight),
+    }));
+    if (
+      parsedCategories.some(
+        category =>
+          !category.name || !(category.weight >= 0 && category.weight <= 100),
+      )
+    ) {
+      setError('Every category needs a name and a weight from 0 to 100%.');
+      return;
+    }
+    const totalWeight = parsedCategories.reduce(
+      (sum, category) => sum + category.weight,
+      0,
+    );
+    if (totalWeight > 100.001) {
+      setError(
+        `Category weights add up to ${totalWeight}%. Keep them at 100% or less.`,
+      );
+      return;
+    }
+
+    const parsedLetters = letters.map(letter => ({
+      letter: letter.letter.trim(),
+      minPercent: parseNumber(letter.minPercent),
+      gradePoints: parseNumber(letter.gradePoints),
+    }));
+    if (
+      parsedLetters.length === 0 ||
+      parsedLetters.some(
+        letter =>
+          !letter.letter ||
+          !(letter.minPercent >= 0 && letter.minPercent <= 100) ||
+          !(letter.gradePoints >= 0 && letter.gradePoints <= 5),
+      )
+    ) {
+      setError(
+        'Every letter grade needs a minimum from 0 to 100% and grade points from 0 to 5.',
+      );
+      return;
+    }
+
+    onSave(
+      {
+        categories: parsedCategories,
+        letterGrades: parsedLetters.sort((a, b) => b.minPercent - a.minPercent),
+      },
+      parsedCredits,
+    );
+  };
+
+  const inputStyle = [
+    styles.input,
+    {
+      color: theme.text,
+      backgroundColor: theme.input,
+      borderColor: theme.inputBorder,
+    },
+  ];
+
+  return (
+    <Modal
+      visible={isVisible}
+      transparent
+      animationType="slide"
+      onRequestClose={onClose}>
+      <KeyboardAvoidingView
+        style={styles.overlay}
+        behavior={Platform.OS === 'ios' ? 'padding' : undefined}>
+        <View style={[styles.container, { backgroundColor: theme.card }]}>
+          <View style={styles.header}>
+            <Text style={[styles.title, { color: theme.text }]}>
+              Grading Scheme
+            </Text>
+            <TouchableOpacity
+              onPress={onClose}
+              accessibilityLabel="Close"
+              accessibilityRole="button">
+              <Ionicons name="close" size={24} color={theme.text} />
+            </TouchableOpacity>
+          </View>
+
+          <ScrollView
+            contentContainerStyle={styles.content}
+            keyboardShouldPersistTaps="handled">
+            <Text style={[styles.sectionLabel, { color: theme.text }]}>
+              Credits
+            </Text>
+            <TextInput
+              style={[inputStyle, styles.creditsInput]}
+              value={creditsInput}
+              onChangeText={setCreditsInput}
+              keyboardType="decimal-pad"
+              placeholder="1"
+              placeholderTextColor={theme.textSecondary}
+              accessibilityLabel="Credits"
+            />
+
+            <Text style={[styles.sectionLabel, { color: theme.text }]}>
+              Categories
+            </Text>
+            <Text style={[styles.hint, { color: theme.textSecondary }]}>
+              Assignments in a category share its weight equally unless they
+              have a weight of their own.
+            </Text>
+            {categories.map((category, index) => (
+              <View key={category.id} style={styles.row}>
+                <TextInput
+                  style={[inputStyle, styles.nameInput]}
+                  value={category.name}
+                  onChangeText={name => updateCategory(index, { name })}
+                  placeholder="e.g. Homework"
+                  placeholderTextColor={theme.textSecondary}
+                  accessibilityLabel="Category name"
+                />
+                <TextInput
+                  style={[inputStyle, styles.numberInput]}
+                  value={category.weight}
+                  onChangeText={weight => updateCategory(index, { weight })}
+                  keyboardType="decimal-pad"
+                  placeholder="%"
+                  placeholderTextColor={theme.textSecondary}
+                  accessibilityLabel="Category weight"
+                />
+                <TouchableOpacity
+                  onPress={() =>
+                    setCategories(current =>
+                      current.filter((_, i) => i !== index),
+                    )
+                  }
+                  accessibilityLabel="Remove category"
+                  accessibilityRole="button">
+                  <Ionicons
+                    name="trash-outline"
+                    size={20}
+                    color={theme.destructive}
+                  />
+                </TouchableOpacity>
+              </View>
+            ))}
+            <TouchableOpacity
+              style={styles.addButton}
+              onPress={() =>
+                setCategories(current => [
+                  ...current,
+                  { id: generateUUID(), name: '', weight: '' },
+                ])
+              }>
+              <Ionicons name="add" size={20} color={theme.primary} />
+              <Text style={[styles.addButtonText, { color: theme.primary }]}>
+                Add category
+              </Text>
+            </TouchableOpacity>
+
+            <View style={styles.letterHeader}>
+              <Text style={[styles.sectionLabel, { color: theme.text }]}>
+                Letter grades
+              </Text>
+              <TouchableOpacity
+                onPress={() =>
+                  setLetters(
+                    toLetterDrafts({
+                      categories: [],
+                      letterGrades: DEFAULT_LETTER_GRADES,
+                    }),
+                  )
+                }>
+                <Text style={[styles.resetText, { color: theme.primary }]}>
+                  Reset to default
+                </Text>
+              </TouchableOpacity>
+            </View>
+            <View style={styles.row}>
+              <Text style={[styles.columnLabel, styles.nameInput]}>Letter</Text>
+              <Text style={[styles.columnLabel, styles.numberInput]}>
+                Min %
+              </Text>
+              <Text style={[styles.columnLabel, styles.numberInput]}>
+                Points
+              </Text>
+              <View style={styles.iconSpacer} />
+            </View>
+            {letters.map((letter, index) => (
+              <View key={index} style={styles.row}>
+                <TextInput
+                  style={[inputStyle, styles.nameInput]}
+                  value={letter.letter}
+                  onChangeText={value => updateLetter(index, { letter: value })}
+                  autoCapitalize="characters"
+                  accessibilityLabel="Letter"
+                />
+                <TextInput
+                  style={[inputStyle, styles.numberInput]}
+                  value={letter.minPercent}
+                  onChangeText={minPercent =>
+                    updateLetter(index, { minPercent })
+                  }
+                  keyboardType="decimal-pad"
+                  accessibilityLabel="Minimum percent"
+                />
+                <TextInput
+                  style={[inputStyle, styles.numberInput]}
+                  value={letter.gradePoints}
+                  onChangeText={gradePoints =>
+                    updateLetter(index, { gradePoints })
+                  }
+                  keyboardType="decimal-pad"
+                  accessibilityLabel="Grade points"
+                />
+                <TouchableOpacity
+                  onPress={() =>
+                    setLetters(current => current.filter((_, i) => i !== index))
+                  }
+                  accessibilityLabel="Remove letter grade"
+                  accessibilityRole="button">
+                  <Ionicons
+                    name="trash-outline"
+                    size={20}
+                    color={theme.destructive}
+                  />
+                </TouchableOpacity>
+              </View>
+            ))}
+            <TouchableOpacity
+              style={styles.addButton}
+              onPress={() =>
+                setLetters(current => [
+                  ...current,
+                  { letter: '', minPercent: '', gradePoints: '' },
+                ])
+              }>
+              <Ionicons name="add" size={20} color={theme.primary} />
+              <Text style={[styles.addButtonText, { color: theme.primary }]}>
+                Add letter grade
+              </Text>
+            </TouchableOpacity>
+
+            {error && (
+              <Text style={[styles.error, { color: theme.destructive }]}>
+                {error}
+              </Text>
+            )}
+          </ScrollView>
+
+          <TouchableOpacity
+            style={[styles.saveButton, { backgroundColor: theme.primary }]}
+            onPress={handleSave}
+            disabled={isSaving}>
+            <Text style={styles.saveButtonText}>
+              {isSaving ? 'Saving...' : 'Save'}
+            </Text>
+          </TouchableOpacity>
+        </View>
+      </KeyboardAvoidingView>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: COLORS.overlay,
+    justifyContent: 'flex-end',
+  },
+  container: {
+    maxHeight: '90%',
+    borderTopLeftRadius: 16,
+    borderTopRightRadius: 16,
+    padding: 20,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginBottom: 12,
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: FONT_WEIGHTS.bold,
+  },
+  content: {
+    gap: 8,
+    paddingBottom: 16,
+  },
+  sectionLabel: {
+    fontSize: 16,
+    fontWeight: FONT_WEIGHTS.semibold,
+    marginTop: 8,
+  },
+  hint: {
+    fontSize: 13,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  input: {
+    borderWidth: 1,
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    fontSize: 16,
+  },
+  creditsInput: {
+    width: 96,
+  },
+  nameInput: {
+    flex: 2,
+  },
+  numberInput: {
+    flex: 1,
+  },
+  columnLabel: {
+    fontSize: 12,
+    color: COLORS.textSecondary,
+  },
+  iconSpacer: {
+    width: 20,
+  },
+  addButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    paddingVertical: 6,
+  },
+  addButtonText: {
+    fontSize: 15,
+    fontWeight: FONT_WEIGHTS.medium,
+  },
+  letterHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  resetText: {
+    fontSize: 14,
+    marginTop: 8,
+  },
+  error: {
+    fontSize: 13,
+    marginTop: 4,
+  },
+  saveButton: {
+    height: 48,
+    borderRadius: 12,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  saveButtonText: {
+    color: COLORS.white,
+    fontSize: 16,
+    fontWeight: FONT_WEIGHTS.bold,
+  },
+});
@@ -0,0 +1,414 @@
+/**
+ * TermFormModal Component
+ *
+ * Creates or edits an academic term: its name, first and last day, breaks
+ * and the courses that belong to it.
+ */
+
+import React, { useEffect, useState } from 'react';
+import {
+  Modal,
+  View,
+  Text,
+  TextInput,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  KeyboardAvoidingView,
+  Platform,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { useTheme } from '@/hooks/useTheme';
+import { COLORS, FONT_WEIGHTS } from '@/constants/theme';
+import { Course, Term, TermBreak } from '@/types';
+import { TermInput } from '@/hooks/useTerms';
+import { validateTermDraft } from '@/utils/terms';
+
+interface TermFormModalProps {
+  isVisible: boolean;
+  /** The term being edited; a new term is created when unset */
+  term?: Term | null;
+  courses: Course[];
+  isSaving: boolean;
+  onClose: () => void;
+  onSave: (term: TermInput) => void;
+}
+
+const emptyBreak = (): TermBreak => ({ name: '', startDate: '', endDate: '' });
+
+export const TermFormModal: React.FC<TermFormModalProps> = ({
+  isVisible,
+  term,
+  courses,
+  isSaving,
+  onClose,
+  onSave,
+}) => {
+  const { theme } = useTheme();
+  const [name, setName] = useState('');
+  const [startDate, setStartDate] = useState('');
+  const [endDate, setEndDate] = useState('');
+  const [breaks, setBreaks] = useState<TermBreak[]>([]);
+  const [courseIds, setCourseIds] = useState<string[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!isVisible) return;
+    setName(term?.name ?? '');
+    setStartDate(term?.startDate ?? '');
+    setEndDate(term?.endDate ?? '');
+    setBreaks(term?.breaks ?? []);
+    setCourseIds(
+      term
+        ? courses
+            .filter(course => course.termId === term.id)
+            .map(course => course.id)
+        : [],
+    );
+    setError(null);
+  }, [isVisible, term, courses]);
+
+  const updateBreak = (index: number, changes: Partial<TermBreak>) =>
+    setBreaks(current =>
+      current.map((termBreak, i) =>
+        i === index ? { ...termBreak, ...changes } : termBreak,
+      ),
+    );
+
+  const toggleCourse = (courseId: string) =>
+    setCourseIds(current =>
+      current.includes(courseId)
+        ? current.filter(id => id !== courseId)
+        : [...current, courseId],
+    );
+
+  const handleSave = () => {
+    const draft = {
+      name,
+      startDate: startDate.trim(),
+      endDate: endDate.trim(),
+      breaks: breaks.map(termBreak => ({
+        name: termBreak.name,
+        startDate: termBreak.startDate.trim(),
+        endDate: termBreak.endDate.trim(),
+      })),
+    };
+
+    const problem = validateTermDraft(draft);
+    if (problem) {
+      setError(problem);
+      return;
+    }
+
+    onSave({ ...draft, courseIds });
+  };
+
+  const inputStyle = [
+    styles.input,
+    {
+      color: theme.text,
+      backgroundColor: theme.input,
+      borderColor: theme.inputBorder,
+    },
+  ];
+
+  return (
+    <Modal
+      visible={isVisible}
+      transparent
+      animationType="slide"
+      onRequestClose={onClose}>
+      <KeyboardAvoidingView
+        style={styles.overlay}
+        behavior={Platform.OS === 'ios' ? 'padding' : undefined}>
+        <View style={[styles.container, { backgroundColor: theme.card }]}>
+          <View style={styles.header}>
+            <Text style={[styles.title, { color: theme.text }]}>
+              {term ? 'Edit Term' : 'New Term'}
+            </Text>
+            <TouchableOpacity
+              onPress={onClose}
+              accessibilityLabel="Close"
+              accessibilityRole="button">
+              <Ionicons name="close" size={24} color={theme.text} />
+            </TouchableOpacity>
+          </View>
+
+          <ScrollView
+            contentContainerStyle={styles.content}
+            keyboardShouldPersistTaps="handled">
+            <Text style={[styles.sectionLabel, { color: theme.text }]}>
+              Name
+            </Text>
+            <TextInput
+              style={inputStyle}
+              value={name}
+              onChangeText={setName}
+              placeholder="e.g. Fall 2026"
+              placeholderTextColor={theme.textSecondary}
+              accessibilityLabel="Term name"
+            />
+
+            <View style={styles.row}>
+              <View style={styles.field}>
+                <Text style={[styles.sectionLabel, { color: theme.text }]}>
+                  First day
+                </Text>
+                <TextInput
+                  style={inputStyle}
+                  value={startDate}
+                  onChangeText={setStartDate}
+                  placeholder="YYYY-MM-DD"
+                  placeholderTextColor={theme.textSecondary}
+                  keyboardType="numbers-and-punctuation"
+                  accessibilityLabel="First day of the term"
+                />
+              </View>
+              <View style={styles.field}>
+                <Text style={[styles.sectionLabel, { color: theme.text }]}>
+                  Last day
+                </Text>
+                <TextInput
+                  style={inputStyle}
+                  value={endDate}
+                  onChangeText={setEndDate}
+                  placeholder="YYYY-MM-DD"
+                  placeholderTextColor={theme.textSecondary}
+                  keyboardType="numbers-and-punctuation"
+                  accessibilityLabel="Last day of the term"
+                />
+              </View>
+            </View>
+            <Text style={[styles.hint, { color: theme.textSecondary }]}>
+              Weekly lectures stop repeating after the last day, and reviews are
+              not scheduled past it.
+            </Text>
+
+            <Text style={[styles.sectionLabel, { color: theme.text }]}>
+              Breaks
+            </Text>
+            <Text style={[styles.hint, { color: theme.textSecondary }]}>
+              No lectures are shown on days off.
+            </Text>
+            {breaks.map((termBreak, index) => (
+              <View
+                key={index}
+                style={[styles.breakCard, { borderColor: theme.border }]}>
+                <View style={styles.row}>
+                  <TextInput
+                    style={[inputStyle, styles.breakName]}
+                    value={termBreak.name}
+                    onChangeText={value => updateBreak(index, { name: value })}
+                    placeholder="e.g. Spring break"
+                    placeholderTextColor={theme.textSecondary}
+                    accessibilityLabel="Break name"
+                  />
+                  <TouchableOpacity
+                    onPress={() =>
+                      setBreaks(current =>
+                        current.filter((_, i) => i !== index),
+                      )
+                    }
+                    accessibilityLabel="Remove break"
+                    accessibilityRole="button">
+                    <Ionicons
+                      name="trash-outline"
+                      size={20}
+                      color={theme.destructive}
+                    />
+                  </TouchableOpacity>
+                </View>
+                <View style={styles.row}>
+                  <TextInput
+                    style={[inputStyle, styles.field]}
+                    value={termBreak.startDate}
+                    onChangeText={value =>
+                      updateBreak(index, { startDate: value })
+                    }
+                    placeholder="From YYYY-MM-DD"
+                    placeholderTextColor={theme.textSecondary}
+                    keyboardType="numbers-and-punctuation"
+                    accessibilityLabel="First day of the break"
+                  />
+                  <TextInput
+                    style={[inputStyle, styles.field]}
+                    value={termBreak.endDate}
+                    onChangeText={value =>
+                      updateBreak(index, { endDate: value })
+                    }
+                    placeholder="To YYYY-MM-DD"
+                    placeholderTextColor={theme.textSecondary}
+                    keyboardType="numbers-and-punctuation"
+                    accessibilityLabel="Last day of the break"
+                  />
+                </View>
+              </View>
+            ))}
+            <TouchableOpacity
+              style={styles.addButton}
+              onPress={() => setBreaks(current => [...current, emptyBreak()])}>
+              <Ionicons name="add" size={20} color={theme.primary} />
+              <Text style={[styles.addButtonText, { color: theme.primary }]}>
+                Add break
+              </Text>
+            </TouchableOpacity>
+
+            <Text style={[styles.sectionLabel, { color: theme.text }]}>
+              Courses
+            </Text>
+            {courses.length === 0 ? (
+              <Text style={[styles.hint, { color: theme.textSecondary }]}>
+                Add courses first, then put them in a term.
+              </Text>
+            ) : (
+              <View style={styles.chips}>
+                {courses.map(course => {
+                  const selected = courseIds.includes(course.id);
+                  return (
+                    <TouchableOpacity
+                      key={course.id}
+                      style={[
+                        styles.chip,
+                        { borderColor: theme.border },
+                        selected && {
+                          backgroundColor: theme.primary,
+                          borderColor: theme.primary,
+                        },
+                      ]}
+                      onPress={() => toggleCourse(course.id)}
+                      accessibilityRole="button"
+                      accessibilityState={{ selected }}>
+                      <Text
+                        style={[
+                          styles.chipText,
+                          { color: selected ? COLORS.white : theme.text },
+                        ]}
+                        numberOfLines={1}>
+                        {course.courseName}
+                      </Text>
+                    </TouchableOpacity>
+                  );
+                })}
+              </View>
+            )}
+
+            {error && (
+              <Text style={[styles.error, { color: theme.destructive }]}>
+                {error}
+              </Text>
+            )}
+          </ScrollView>
+
+          <TouchableOpacity
+            style={[styles.saveButton, { backgroundColor: theme.primary }]}
+            onPress={handleSave}
+            disabled={isSaving}>
+            <Text style={styles.saveButtonText}>
+              {isSaving ? 'Saving...' : 'Save'}
+            </Text>
+          </TouchableOpacity>
+        </View>
+      </KeyboardAvoidingView>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: COLORS.overlay,
+    justifyContent: 'flex-end',
+  },
+  container: {
+    maxHeight: '90%',
+    borderTopLeftRadius: 16,
+    borderTopRightRadius: 16,
+    padding: 20,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginBottom: 12,
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: FONT_WEIGHTS.bold,
+  },
+  content: {
+    gap: 8,
+    paddingBottom: 16,
+  },
+  sectionLabel: {
+    fontSize: 16,
+    fontWeight: FONT_WEIGHTS.semibold,
+    marginTop: 8,
+  },
+  hint: {
+    fontSize: 13,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  field: {
+    flex: 1,
+  },
+  input: {
+    borderWidth: 1,
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    fontSize: 16,
+  },
+  breakCard: {
+    borderWidth: 1,
+    borderRadius: 12,
+    padding: 10,
+    gap: 8,
+  },
+  breakName: {
+    flex: 1,
+  },
+  addButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    paddingVertical: 6,
+  },
+  addButtonText: {
+    fontSize: 15,
+    fontWeight: FONT_WEIGHTS.medium,
+  },
+  chips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  chip: {
+    borderWidth: 1,
+    borderRadius: 16,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    maxWidth: '100%',
+  },
+  chipText: {
+    fontSize: 14,
+  },
+  error: {
+    fontSize: 13,
+    marginTop: 4,
+  },
+  saveButton: {
+    height: 48,
+    borderRadius: 12,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  saveButtonText: {
+    color: COLORS.white,
+    fontSize: 16,
+    fontWeight: FONT_WEIGHTS.bold,
+  },
+});
@@ -0,0 +1,6 @@
+export { CourseGradesCard } from './CourseGradesCard';
+export { AssignmentGradeModal } from './AssignmentGradeModal';
+export { GradingSchemeModal } from './GradingSchemeModal';
+export { TermFormModal } from './TermFormModal';
+export { CourseTasksCard } from './CourseTasksCard';
+export { CourseFlashcardsCard } from './CourseFlashcardsCard';
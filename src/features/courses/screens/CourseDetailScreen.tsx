@@ -24,6 +24,19 @@ import { useTheme } from '@/hooks/useTheme';
 import { useQuery, useQueryClient } from '@tanstack/react-query';
 import { formatDate } from '@/i18n';
 import { DeleteCourseModal } from '@/shared/components';
+import {
+  describeLectureRecurrence,
+  parseLectureRecurrence,
+} from '@/utils/lectureRecurrence';
+import { useTaskSelection } from '@/hooks/useTaskSelection';
+import { useBulkTaskEdit } from '@/hooks/useBulkTaskEdit';
+import { BulkActionBar } from '@/shared/components/BulkActionBar';
+import { BulkTaskEdit } from '@/utils/bulkEdit';
+import {
+  CourseFlashcardsCard,
+  CourseGradesCard,
+  CourseTasksCard,
+} from '../components';
 
 // Define the route prop type for this screen
 type CourseDetailScreenRouteProp = RouteProp<
@@ -52,6 +65,8 @@ const CourseDetailScreen = () => {
   } = useCourseDetail(courseId);
   const [isDeleting, setIsDeleting] = useState(false);
   const [showDeleteModal, setShowDeleteModal] = useState(false);
+  const taskSelection = useTaskSelection();
+  const { applyEdit, isApplying } = useBulkTaskEdit();
 
   // Fetch lectures for this course
   const { data: lectures } = useQuery({
@@ -93,6 +108,7 @@ const CourseDetailScreen = () => {
       await queryClient.invalidateQueries({ queryKey: ['homeScreenData'] });
       await queryClient.invalidateQueries({ queryKey: ['calendarData'] });
       await queryClient.invalidateQueries({ queryKey: ['lectures'] });
+      await queryClient.invalidateQueries({ queryKey: ['gradeSummary'] });
 
       setShowDeleteModal(false);
       Alert.alert('Success', 'Course deleted successfully.');
@@ -110,18 +126,16 @@ const CourseDetailScreen = () => {
     }
   };
 
+  const handleBulkEdit = async (edit: BulkTaskEdit) => {
+    const result = await applyEdit(edit, taskSelection.items);
+    if (result) taskSelection.clear();
+  };
+
   const formatTime = (dateString: string) => {
     const date = new Date(dateString);
     return formatDate(date, { timeStyle: 'short' });
   };
 
-  const formatRecurrence = (pattern?: string) => {
-    if (!pattern || pattern === 'none') return 'Does not repeat';
-    if (pattern === 'weekly') return 'Weekly';
-    if (pattern === 'bi-weekly') return 'Every 2 Weeks';
-    return pattern;
-  };
-
   const getDayOfWeek = (dateString: string) => {
     const date = new Date(dateString);
     const days = [
@@ -136,6 +150,21 @@ const CourseDetailScreen = () => {
     return days[date.getDay()];
   };
 
+  const formatRecurrence = (pattern?: string, startTime?: string) => {
+    const recurrence = parseLectureRecurrence(pattern);
+    if (recurrence.frequency === 'none') return 'Does not repeat';
+
+    const { title, detail } = describeLectureRecurrence(recurrence);
+    if (
+      recurrence.frequency === 'weekly' &&
+      recurrence.weekdays.length === 0 &&
+      startTime
+    ) {
+      return `${title} on ${getDayOfWeek(startTime)}s`;
+    }
+    return detail ? `${title} · ${detail}` : title;
+  };
+
   return (
     <View
       style={[
@@ -284,10 +313,10 @@ const CourseDetailScreen = () => {
                             styles.scheduleItemTitle,
                             { color: theme.text },
                           ]}>
-                          {formatRecurrence(lectures.recurring_pattern)} on{' '}
-                          {lectures.start_time
-                            ? getDayOfWeek(lectures.start_time) + 's'
-                            : ''}
+                          {formatRecurrence(
+                            lectures.recurring_pattern,
+                            lectures.start_time,
+                          )}
                         </Text>
                         <Text
                           style={[
@@ -336,6 +365,22 @@ const CourseDetailScreen = () => {
             </View>
           )}
 
+          {/* Tasks Section */}
+          <CourseTasksCard
+            courseId={courseId}
+            isSelected={taskSelection.isSelected}
+            onToggle={taskSelection.toggle}
+            onSelectAll={taskSelection.selectAll}
+            onClearSelection={taskSelection.clear}
+            selectedCount={taskSelection.count}
+          />
+
+          {/* Grades Section */}
+          <CourseGradesCard courseId={courseId} />
+
+          {/* Flashcards Section */}
+          <CourseFlashcardsCard courseId={courseId} />
+
           {/* Reminders Section - Placeholder for now */}
           <View
             style={[
@@ -412,6 +457,17 @@ const CourseDetailScreen = () => {
         </ScrollView>
       </QueryStateWrapper>
 
+      {taskSelection.isSelecting && (
+        <BulkActionBar
+          count={taskSelection.count}
+          isApplying={isApplying}
+          onApply={handleBulkEdit}
+          onCancel={taskSelection.clear}
+          currentCourseId={courseId}
+          bottomInset={insets.bottom}
+        />
+      )}
+
       {/* Delete Course Modal */}
       <DeleteCourseModal
         visible={showDeleteModal}
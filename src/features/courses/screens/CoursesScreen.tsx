@@ -1,5 +1,11 @@
 // FILE: src/features/courses/screens/CoursesScreen.tsx
-import React, { useLayoutEffect, useCallback, useState, memo } from 'react';
+import React, {
+  useLayoutEffect,
+  useCallback,
+  useMemo,
+  useState,
+  memo,
+} from 'react';
 import {
   View,
   Text,
@@ -17,12 +23,14 @@ import { NativeStackNavigationProp } from '@react-navigation/native-stack';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
 import { useCourses } from '@/hooks/useDataQueries';
 import { useDebounce } from '@/hooks/useDebounce';
+import { useTerms } from '@/hooks/useTerms';
+import { filterActiveTermCourses, sortTerms } from '@/utils/terms';
 import { RootStackParamList, Course } from '@/types';
 import { LockedItemsBanner } from '@/shared/components/LockedItemsBanner';
 import { useSubscription } from '@/hooks/useSubscription';
 import { QueryStateWrapper } from '@/shared/components';
 import { Ionicons } from '@expo/vector-icons';
-import { COLORS, SPACING } from '@/constants/theme';
+import { COLORS, FONT_WEIGHTS, SPACING } from '@/constants/theme';
 import { CourseSortOption } from '@/features/courses/services/queries';
 import { useTheme } from '@/contexts/ThemeContext';
 import { useJSThreadMonitor } from '@/hooks/useJSThreadMonitor';
@@ -33,33 +41,45 @@ import { BlurView } from 'expo-blur';
 type CoursesScreenNavigationProp =
   NativeStackNavigationProp<RootStackParamList>;
 
+// 'all', 'none' (courses outside any term) or a term id
+type TermFilter = string;
+
 // Memoized course item component - simplified design
-const CourseItem = memo<{ item: Course; onPress: (id: string) => void }>(
-  ({ item, onPress }) => {
-    const { theme } = useTheme();
-    return (
-      <TouchableOpacity
-        style={[
-          styles.courseItem,
-          { backgroundColor: theme.surface || '#FFFFFF' },
-        ]}
-        onPress={() => onPress(item.id)}
-        activeOpacity={0.7}
-        accessibilityLabel={item.courseName}
-        accessibilityHint="Opens course details"
-        accessibilityRole="button">
+const CourseItem = memo<{
+  item: Course;
+  termName?: string;
+  onPress: (id: string) => void;
+}>(({ item, termName, onPress }) => {
+  const { theme } = useTheme();
+  return (
+    <TouchableOpacity
+      style={[
+        styles.courseItem,
+        { backgroundColor: theme.surface || '#FFFFFF' },
+      ]}
+      onPress={() => onPress(item.id)}
+      activeOpacity={0.7}
+      accessibilityLabel={item.courseName}
+      accessibilityHint="Opens course details"
+      accessibilityRole="button">
+      <View style={styles.courseText}>
         <Text style={[styles.courseName, { color: theme.text }]}>
           {item.courseName}
         </Text>
-        <Ionicons
-          name="chevron-forward"
-          size={20}
-          color={theme.textSecondary || '#9ca3af'}
-        />
-      </TouchableOpacity>
-    );
-  },
-);
+        {termName && (
+          <Text style={[styles.courseTerm, { color: theme.textSecondary }]}>
+            {termName}
+          </Text>
+        )}
+      </View>
+      <Ionicons
+        name="chevron-forward"
+        size={20}
+        color={theme.textSecondary || '#9ca3af'}
+      />
+    </TouchableOpacity>
+  );
+});
 CourseItem.displayName = 'CourseItem';
 
 const CoursesScreen = () => {
@@ -97,6 +117,8 @@ const CoursesScreen = () => {
   const [showArchived, setShowArchived] = useState(false);
   const [isSortModalVisible, setSortModalVisible] = useState(false);
   const [isFilterModalVisible, setFilterModalVisible] = useState(false);
+  const [termFilter, setTermFilter] = useState<TermFilter>('all');
+  const { data: terms = [] } = useTerms();
 
   // Debounce the search query (500ms delay)
   const debouncedSearchQuery = useDebounce(searchQuery, 500);
@@ -118,8 +140,24 @@ const CoursesScreen = () => {
     showArchived,
   });
 
-  // Flatten all pages into a single array
-  const courses = data?.pages.flatMap(page => page.courses) ?? [];
+  // Flatten all pages into a single array; courses in archived terms only
+  // show with archived courses
+  const courses = useMemo(() => {
+    const all = data?.pages.flatMap(page => page.courses) ?? [];
+    const visible = showArchived ? all : filterActiveTermCourses(all, terms);
+    if (termFilter === 'all') return visible;
+    if (termFilter === 'none') return visible.filter(course => !course.termId);
+    return visible.filter(course => course.termId === termFilter);
+  }, [data, terms, showArchived, termFilter]);
+
+  const termNames = useMemo(
+    () => new Map(terms.map(term => [term.id, term.name])),
+    [terms],
+  );
+  const termOptions = useMemo(
+    () => sortTerms(terms).filter(term => showArchived || !term.archivedAt),
+    [terms, showArchived],
+  );
 
   // Handle upgrade to unlock locked courses
   const handleUpgrade = useCallback(async () => {
@@ -162,9 +200,13 @@ const CoursesScreen = () => {
   // Render item for the FlatList
   const renderCourse = useCallback(
     ({ item }: { item: Course }) => (
-      <CourseItem item={item} onPress={handleNavigateToCourse} />
+      <CourseItem
+        item={item}
+        termName={item.termId ? termNames.get(item.termId) : undefined}
+        onPress={handleNavigateToCourse}
+      />
     ),
-    [handleNavigateToCourse],
+    [handleNavigateToCourse, termNames],
   );
 
   // Sort options
@@ -236,6 +278,28 @@ const CoursesScreen = () => {
             <Text style={[styles.headerTitle, { color: theme.text }]}>
               My Courses
             </Text>
+            <View style={styles.headerActions}>
+              <TouchableOpacity
+                style={styles.importButton}
+                onPress={() => navigation.navigate('Terms')}
+                accessibilityLabel="Terms"
+                accessibilityHint="Manage the terms your courses belong to"
+                accessibilityRole="button">
+                <Ionicons name="school-outline" size={26} color={theme.text} />
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={styles.importButton}
+                onPress={() => navigation.navigate('ImportTimetable')}
+                accessibilityLabel="Import timetable"
+                accessibilityHint="Import courses and lectures from a calendar file or link"
+                accessibilityRole="button">
+                <Ionicons
+                  name="download-outline"
+                  size={26}
+                  color={theme.text}
+                />
+              </TouchableOpacity>
+            </View>
           </View>
 
           {/* Search Bar */}
@@ -280,6 +344,45 @@ const CoursesScreen = () => {
               )}
             </View>
           </View>
+
+          {/* Term Filter */}
+          {termOptions.length > 0 && (
+            <ScrollView
+              horizontal
+              showsHorizontalScrollIndicator={false}
+              contentContainerStyle={styles.termChips}>
+              {[
+                { id: 'all', name: 'All' },
+                ...termOptions,
+                { id: 'none', name: 'No term' },
+              ].map(option => {
+                const selected = termFilter === option.id;
+                return (
+                  <TouchableOpacity
+                    key={option.id}
+                    style={[
+                      styles.termChip,
+                      { borderColor: theme.border },
+                      selected && {
+                        backgroundColor: theme.primary,
+                        borderColor: theme.primary,
+                      },
+                    ]}
+                    onPress={() => setTermFilter(option.id)}
+                    accessibilityRole="button"
+                    accessibilityState={{ selected }}>
+                    <Text
+                      style={[
+                        styles.termChipText,
+                        { color: selected ? COLORS.white : theme.text },
+                      ]}>
+                      {option.name}
+                    </Text>
+                  </TouchableOpacity>
+                );
+              })}
+            </ScrollView>
+          )}
         </View>
 
         {/* Course List */}
@@ -476,8 +579,32 @@ const styles = StyleSheet.create({
     paddingBottom: 8,
   },
   headerContent: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingBottom: 8,
+  },
+  headerActions: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  importButton: {
+    padding: 8,
+  },
+  termChips: {
+    gap: 8,
     paddingBottom: 8,
   },
+  termChip: {
+    borderWidth: 1,
+    borderRadius: 16,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+  },
+  termChipText: {
+    fontSize: 14,
+    fontWeight: FONT_WEIGHTS.medium,
+  },
   headerTitle: {
     fontSize: 32,
     fontWeight: 'bold',
@@ -546,10 +673,16 @@ const styles = StyleSheet.create({
     shadowRadius: 2,
     elevation: 2,
   },
+  courseText: {
+    flex: 1,
+  },
   courseName: {
     fontSize: 18,
     fontWeight: '600',
-    flex: 1,
+  },
+  courseTerm: {
+    fontSize: 14,
+    marginTop: 2,
   },
   bottomSection: {
     position: 'absolute',
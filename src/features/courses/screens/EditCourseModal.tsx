@@ -17,7 +17,7 @@ import { useSafeAreaInsets } from 'react-native-safe-area-context';
 import DateTimePicker, {
   DateTimePickerEvent,
 } from '@react-native-community/datetimepicker';
-import { RootStackParamList } from '@/types';
+import { Course, RootStackParamList } from '@/types';
 import { useAuth } from '@/contexts/AuthContext';
 import { useNetwork } from '@/contexts/NetworkContext';
 import { coursesApiMutations } from '@/features/courses/services/mutations';
@@ -29,6 +29,12 @@ import { useQuery, useQueryClient } from '@tanstack/react-query';
 import { supabase } from '@/services/supabase';
 import { formatDate } from '@/i18n';
 import { DeleteCourseModal } from '@/shared/components';
+import {
+  describeLectureRecurrence,
+  LectureRecurrence,
+  NO_RECURRENCE,
+  parseLectureRecurrence,
+} from '@/utils/lectureRecurrence';
 
 type EditCourseModalRouteProp = RouteProp<
   RootStackParamList,
@@ -82,9 +88,8 @@ const EditCourseModal = () => {
   const [lectureDate, setLectureDate] = useState<Date>(new Date());
   const [startTime, setStartTime] = useState<Date>(new Date());
   const [endTime, setEndTime] = useState<Date>(new Date());
-  const [recurrence, setRecurrence] = useState<'none' | 'weekly' | 'bi-weekly'>(
-    'none',
-  );
+  const [recurrence, setRecurrence] =
+    useState<LectureRecurrence>(NO_RECURRENCE);
 
   // Reminders state
   const [remindersEnabled, setRemindersEnabled] = useState(false);
@@ -119,12 +124,7 @@ const EditCourseModal = () => {
       if (lecture.end_time) {
         setEndTime(new Date(lecture.end_time));
       }
-      if (lecture.recurring_pattern) {
-        setRecurrence(
-          (lecture.recurring_pattern as 'none' | 'weekly' | 'bi-weekly') ||
-            'none',
-        );
-      }
+      setRecurrence(parseLectureRecurrence(lecture.recurring_pattern));
     }
   }, [lecture]);
 
@@ -150,6 +150,7 @@ const EditCourseModal = () => {
         },
         isOnline,
         user.id,
+        courseData as Course | undefined,
       );
 
       // TODO: Update lecture schedule if changed
@@ -217,10 +218,25 @@ const EditCourseModal = () => {
     return formatDate(date, { timeStyle: 'short' });
   };
 
-  const recurrenceOptions: Array<'none' | 'weekly' | 'bi-weekly'> = [
-    'weekly',
-    'bi-weekly',
+  const formatRecurrence = (value: LectureRecurrence) => {
+    if (value.frequency === 'none') return 'Does not repeat';
+    const { title, detail } = describeLectureRecurrence(value);
+    return detail ? `${title} · ${detail}` : title;
+  };
+
+  // Simple weekly series; anything else set on the lecture is listed as is
+  const recurrenceOptions: LectureRecurrence[] = [
+    { ...NO_RECURRENCE, frequency: 'weekly', interval: 1 },
+    { ...NO_RECURRENCE, frequency: 'weekly', interval: 2 },
   ];
+  const isSameRecurrence = (a: LectureRecurrence, b: LectureRecurrence) =>
+    formatRecurrence(a) === formatRecurrence(b);
+  if (
+    recurrence.frequency !== 'none' &&
+    !recurrenceOptions.some(option => isSameRecurrence(option, recurrence))
+  ) {
+    recurrenceOptions.unshift(recurrence);
+  }
 
   const reminderOptions = [
     '10 minutes before',
@@ -501,11 +517,7 @@ const EditCourseModal = () => {
                     styles.scheduleRowValue,
                     { color: theme.textSecondary },
                   ]}>
-                  {recurrence === 'none'
-                    ? 'Does not repeat'
-                    : recurrence === 'weekly'
-                      ? 'Weekly'
-                      : 'Every 2 Weeks'}
+                  {formatRecurrence(recurrence)}
                 </Text>
                 <Ionicons
                   name="chevron-forward"
@@ -679,33 +691,34 @@ const EditCourseModal = () => {
             <TouchableOpacity
               style={[
                 styles.modalOption,
-                recurrence === 'none' && styles.modalOptionSelected,
+                recurrence.frequency === 'none' && styles.modalOptionSelected,
               ]}
               onPress={() => {
-                setRecurrence('none');
+                setRecurrence(NO_RECURRENCE);
                 setShowRecurrenceModal(false);
               }}>
               <Text
                 style={[
                   styles.modalOptionText,
                   { color: theme.text },
-                  recurrence === 'none' && {
+                  recurrence.frequency === 'none' && {
                     color: '#135bec',
                     fontWeight: '600',
                   },
                 ]}>
                 Does not repeat
               </Text>
-              {recurrence === 'none' && (
+              {recurrence.frequency === 'none' && (
                 <Ionicons name="checkmark" size={24} color="#135bec" />
               )}
             </TouchableOpacity>
             {recurrenceOptions.map(option => (
               <TouchableOpacity
-                key={option}
+                key={formatRecurrence(option)}
                 style={[
                   styles.modalOption,
-                  recurrence === option && styles.modalOptionSelected,
+                  isSameRecurrence(recurrence, option) &&
+                    styles.modalOptionSelected,
                 ]}
                 onPress={() => {
                   setRecurrence(option);
@@ -715,14 +728,14 @@ const EditCourseModal = () => {
                   style={[
                     styles.modalOptionText,
                     { color: theme.text },
-                    recurrence === option && {
+                    isSameRecurrence(recurrence, option) && {
                       color: '#135bec',
                       fontWeight: '600',
                     },
                   ]}>
-                  {option === 'weekly' ? 'Weekly' : 'Every 2 Weeks'}
+                  {formatRecurrence(option)}
                 </Text>
-                {recurrence === option && (
+                {isSameRecurrence(recurrence, option) && (
                   <Ionicons name="checkmark" size={24} color="#135bec" />
                 )}
               </TouchableOpacity>
@@ -0,0 +1,366 @@
+import React, { useCallback, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  ScrollView,
+  Alert,
+  ActivityIndicator,
+} from 'react-native';
+import { useNavigation, useRoute, RouteProp } from '@react-navigation/native';
+import { NativeStackNavigationProp } from '@react-navigation/native-stack';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
+import * as DocumentPicker from 'expo-document-picker';
+import * as FileSystem from 'expo-file-system';
+import { useTheme } from '@/hooks/useTheme';
+import { useAuth } from '@/contexts/AuthContext';
+import { usePermissions } from '@/shared/hooks/usePermissions';
+import { useImportFlashcards } from '@/hooks/useFlashcards';
+import { ApiError } from '@/services/api/errors';
+import { COLORS, FONT_WEIGHTS } from '@/constants/theme';
+import { mapErrorCodeToMessage, getErrorTitle } from '@/utils/errorMapping';
+import {
+  FlashcardImportFormat,
+  FlashcardImportResult,
+  RootStackParamList,
+} from '@/types';
+
+type ImportFlashcardsRouteProp = RouteProp<
+  RootStackParamList,
+  'ImportFlashcards'
+>;
+type ImportFlashcardsNavigationProp =
+  NativeStackNavigationProp<RootStackParamList>;
+
+// Packages are sent base64-encoded, which grows them by a third
+const MAX_FILE_BYTES = 25 * 1024 * 1024;
+
+const getImportFormat = (fileName: string): FlashcardImportFormat | null => {
+  const extension = fileName.split('.').pop()?.toLowerCase();
+  if (extension === 'apkg') return 'apkg';
+  if (extension === 'csv' || extension === 'tsv' || extension === 'txt') {
+    return 'text';
+  }
+  return null;
+};
+
+const plural = (count: number, word: string) =>
+  `${count} ${word}${count === 1 ? '' : 's'}`;
+
+const ImportFlashcardsScreen = () => {
+  const navigation = useNavigation<ImportFlashcardsNavigationProp>();
+  const { courseId } = useRoute<ImportFlashcardsRouteProp>().params;
+  const insets = useSafeAreaInsets();
+  const { theme } = useTheme();
+  const { user } = useAuth();
+  const { canCreateTask } = usePermissions(user);
+  const importFlashcards = useImportFlashcards();
+
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [result, setResult] = useState<FlashcardImportResult | null>(null);
+
+  const showUpgrade = useCallback(
+    (message: string) => {
+      Alert.alert('Flashcard limit reached', message, [
+        { text: 'Not now', style: 'cancel' },
+        {
+          text: 'Upgrade',
+          onPress: () =>
+            navigation.navigate('PaywallScreen', { variant: 'general' }),
+        },
+      ]);
+    },
+    [navigation],
+  );
+
+  const handlePickFile = useCallback(async () => {
+    const permission = await canCreateTask('flashcards');
+    if (!permission.allowed) {
+      showUpgrade(
+        'You have added all the flashcards the free plan allows this week. Upgrade for unlimited flashcards.',
+      );
+      return;
+    }
+
+    const picked = await DocumentPicker.getDocumentAsync({
+      type: '*/*',
+      copyToCacheDirectory: true,
+    });
+    const asset = picked.canceled ? null : picked.assets?.[0];
+    if (!asset) return;
+
+    const format = getImportFormat(asset.name);
+    if (!format) {
+      Alert.alert(
+        'Unsupported file',
+        'Choose an Anki package (.apkg) or a .csv, .tsv or .txt file.',
+      );
+      return;
+    }
+    if (asset.size && asset.size > MAX_FILE_BYTES) {
+      Alert.alert('File too large', 'Files up to 25 MB can be imported.');
+      return;
+    }
+
+    setFileName(asset.name);
+    try {
+      const content = await FileSystem.readAsStringAsync(asset.uri, {
+        encoding:
+          format === 'apkg'
+            ? FileSystem.EncodingType.Base64
+            : FileSystem.EncodingType.UTF8,
+      });
+      setResult(
+        await importFlashcards.mutateAsync({
+          course_id: courseId,
+          file_name: asset.name,
+          format,
+          content,
+        }),
+      );
+    } catch (error) {
+      if (
+        error instanceof ApiError &&
+        error.code === 'RESOURCE_LIMIT_EXCEEDED'
+      ) {
+        showUpgrade(error.message);
+      } else {
+        Alert.alert(getErrorTitle(error), mapErrorCodeToMessage(error));
+      }
+    } finally {
+      setFileName(null);
+    }
+  }, [canCreateTask, showUpgrade, importFlashcards, courseId]);
+
+  const renderSourcePicker = () => (
+    <View>
+      <Text style={[styles.intro, { color: theme.textSecondary }]}>
+        Import flashcards from an Anki package (.apkg) or a spreadsheet saved as
+        CSV or TSV, with the front in the first column and the back in the
+        second. Review history from Anki is kept, so cards stay on schedule.
+      </Text>
+
+      <TouchableOpacity
+        style={[styles.sourceButton, { borderColor: theme.border }]}
+        onPress={handlePickFile}
+        disabled={importFlashcards.isPending}
+        accessibilityRole="button"
+        accessibilityLabel="Choose a flashcard file">
+        <Ionicons name="document-outline" size={24} color={theme.accent} />
+        <Text style={[styles.sourceButtonText, { color: theme.text }]}>
+          Choose file
+        </Text>
+      </TouchableOpacity>
+
+      <Text style={[styles.hint, { color: theme.textSecondary }]}>
+        From recent Anki versions, export with “Support older Anki versions”
+        ticked.
+      </Text>
+
+      {importFlashcards.isPending && (
+        <View style={styles.loader}>
+          <ActivityIndicator size="large" color={theme.accent} />
+          {fileName && (
+            <Text style={[styles.loaderText, { color: theme.textSecondary }]}>
+              {`Importing ${fileName}…`}
+            </Text>
+          )}
+        </View>
+      )}
+    </View>
+  );
+
+  const renderResult = (data: FlashcardImportResult) => (
+    <View>
+      <View
+        style={[
+          styles.summaryCard,
+          { backgroundColor: theme.surface, borderColor: theme.border },
+        ]}>
+        <Ionicons name="checkmark-circle" size={28} color={COLORS.success} />
+        <Text style={[styles.summaryTitle, { color: theme.text }]}>
+          {`Imported ${plural(data.card_count, 'card')}`}
+        </Text>
+        <Text style={[styles.summaryMeta, { color: theme.textSecondary }]}>
+          {[
+            plural(data.decks.length, 'deck'),
+            data.review_count > 0 &&
+              `${plural(data.review_count, 'past review')} kept`,
+            data.image_count > 0 && plural(data.image_count, 'image'),
+          ]
+            .filter(Boolean)
+            .join(' · ')}
+        </Text>
+      </View>
+
+      {data.decks.map(deck => (
+        <View key={deck.id} style={styles.deckRow}>
+          <Ionicons name="albums-outline" size={18} color={theme.accent} />
+          <Text style={[styles.deckTitle, { color: theme.text }]}>
+            {deck.title}
+          </Text>
+          <Text style={[styles.deckCount, { color: theme.textSecondary }]}>
+            {plural(deck.card_count, 'card')}
+          </Text>
+        </View>
+      ))}
+
+      {data.warnings.length > 0 && (
+        <Text style={[styles.sectionLabel, { color: theme.text }]}>
+          Not imported
+        </Text>
+      )}
+      {data.warnings.map(warning => (
+        <View key={warning} style={styles.warningRow}>
+          <Ionicons
+            name="alert-circle-outline"
+            size={16}
+            color={COLORS.warning}
+          />
+          <Text style={[styles.warningText, { color: theme.textSecondary }]}>
+            {warning}
+          </Text>
+        </View>
+      ))}
+
+      <TouchableOpacity
+        style={[styles.primaryButton, { backgroundColor: theme.accent }]}
+        onPress={() => navigation.goBack()}
+        accessibilityRole="button">
+        <Text style={styles.primaryButtonText}>Done</Text>
+      </TouchableOpacity>
+
+      <TouchableOpacity
+        style={styles.secondaryButton}
+        onPress={() => setResult(null)}
+        accessibilityRole="button">
+        <Text style={[styles.secondaryButtonText, { color: theme.accent }]}>
+          Import another file
+        </Text>
+      </TouchableOpacity>
+    </View>
+  );
+
+  return (
+    <ScrollView
+      style={[styles.container, { backgroundColor: theme.background }]}
+      contentContainerStyle={[
+        styles.content,
+        { paddingBottom: insets.bottom + 24 },
+      ]}>
+      {result ? renderResult(result) : renderSourcePicker()}
+    </ScrollView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  content: {
+    padding: 16,
+  },
+  intro: {
+    fontSize: 15,
+    lineHeight: 22,
+    marginBottom: 24,
+  },
+  sourceButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    borderWidth: 1,
+    borderStyle: 'dashed',
+    borderRadius: 12,
+    paddingVertical: 20,
+  },
+  sourceButtonText: {
+    fontSize: 16,
+    fontWeight: FONT_WEIGHTS.semibold,
+    marginLeft: 8,
+  },
+  hint: {
+    fontSize: 13,
+    lineHeight: 18,
+    marginTop: 12,
+  },
+  loader: {
+    alignItems: 'center',
+    marginTop: 24,
+  },
+  loaderText: {
+    fontSize: 14,
+    marginTop: 8,
+  },
+  summaryCard: {
+    alignItems: 'center',
+    borderWidth: 1,
+    borderRadius: 12,
+    padding: 20,
+    marginBottom: 12,
+  },
+  summaryTitle: {
+    fontSize: 18,
+    fontWeight: FONT_WEIGHTS.semibold,
+    marginTop: 8,
+  },
+  summaryMeta: {
+    fontSize: 14,
+    marginTop: 4,
+    textAlign: 'center',
+  },
+  deckRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 8,
+  },
+  deckTitle: {
+    flex: 1,
+    fontSize: 15,
+    fontWeight: FONT_WEIGHTS.medium,
+    marginLeft: 8,
+  },
+  deckCount: {
+    fontSize: 13,
+  },
+  sectionLabel: {
+    fontSize: 15,
+    fontWeight: FONT_WEIGHTS.semibold,
+    marginTop: 16,
+    marginBottom: 8,
+  },
+  warningRow: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    marginBottom: 8,
+  },
+  warningText: {
+    flex: 1,
+    fontSize: 13,
+    lineHeight: 18,
+    marginLeft: 6,
+  },
+  primaryButton: {
+    borderRadius: 12,
+    paddingVertical: 14,
+    alignItems: 'center',
+    marginTop: 16,
+  },
+  primaryButtonText: {
+    color: COLORS.white,
+    fontSize: 16,
+    fontWeight: FONT_WEIGHTS.semibold,
+  },
+  secondaryButton: {
+    paddingVertical: 14,
+    alignItems: 'center',
+  },
+  secondaryButtonText: {
+    fontSize: 15,
+    fontWeight: FONT_WEIGHTS.medium,
+  },
+});
+
+export default ImportFlashcardsScreen;
@@ -0,0 +1,543 @@
+import React, { useCallback, useMemo, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  TextInput,
+  ScrollView,
+  Switch,
+  Alert,
+  ActivityIndicator,
+} from 'react-native';
+import { useNavigation } from '@react-navigation/native';
+import { NativeStackNavigationProp } from '@react-navigation/native-stack';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { useQueryClient } from '@tanstack/react-query';
+import { Ionicons } from '@expo/vector-icons';
+import * as DocumentPicker from 'expo-document-picker';
+import * as FileSystem from 'expo-file-system';
+import { format } from 'date-fns';
+import { useTheme } from '@/hooks/useTheme';
+import { COLORS, FONT_WEIGHTS } from '@/constants/theme';
+import { mapErrorCodeToMessage, getErrorTitle } from '@/utils/errorMapping';
+import {
+  describeLectureRecurrence,
+  parseLectureRecurrence,
+} from '@/utils/lectureRecurrence';
+import {
+  RootStackParamList,
+  TimetableImportPreview,
+  TimetableLecturePreview,
+} from '@/types';
+import {
+  timetableImportApi,
+  buildTimetableImportRequest,
+  exceedsTimetableCourseLimit,
+  getDefaultTimetableSelection,
+  TimetableSource,
+} from '@/features/courses/services/timetableImport';
+
+type ImportTimetableNavigationProp =
+  NativeStackNavigationProp<RootStackParamList>;
+
+const formatLectureSlot = (lecture: TimetableLecturePreview): string => {
+  const start = new Date(lecture.start_time);
+  const end = new Date(lecture.end_time);
+  return `${format(start, 'EEE d MMM')}, ${format(start, 'h:mm a')} – ${format(end, 'h:mm a')}`;
+};
+
+const formatRecurrence = (lecture: TimetableLecturePreview): string => {
+  const recurrence = parseLectureRecurrence(lecture.recurring_pattern);
+  if (recurrence.frequency === 'none') return 'One-off';
+  const { title, detail } = describeLectureRecurrence(recurrence);
+  return detail ? `${title} · ${detail}` : title;
+};
+
+const ImportTimetableScreen = () => {
+  const navigation = useNavigation<ImportTimetableNavigationProp>();
+  const queryClient = useQueryClient();
+  const insets = useSafeAreaInsets();
+  const { theme } = useTheme();
+
+  const [url, setUrl] = useState('');
+  const [preview, setPreview] = useState<TimetableImportPreview | null>(null);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [mergeOverrides, setMergeOverrides] = useState<Record<string, boolean>>(
+    {},
+  );
+  const [isLoadingPreview, setIsLoadingPreview] = useState(false);
+  const [isImporting, setIsImporting] = useState(false);
+
+  const loadPreview = useCallback(async (source: TimetableSource) => {
+    setIsLoadingPreview(true);
+    try {
+      const result = await timetableImportApi.preview(source);
+      if (result.courses.length === 0) {
+        Alert.alert(
+          'No classes found',
+          'This calendar has no timed events that could be imported.',
+        );
+        return;
+      }
+      setPreview(result);
+      setSelected(getDefaultTimetableSelection(result));
+      setMergeOverrides({});
+    } catch (error) {
+      Alert.alert(getErrorTitle(error), mapErrorCodeToMessage(error));
+    } finally {
+      setIsLoadingPreview(false);
+    }
+  }, []);
+
+  const handlePickFile = useCallback(async () => {
+    const result = await DocumentPicker.getDocumentAsync({
+      type: ['text/calendar', 'text/plain', 'application/octet-stream'],
+      copyToCacheDirectory: true,
+    });
+    if (result.canceled || !result.assets?.[0]) return;
+
+    try {
+      const icsContent = await FileSystem.readAsStringAsync(
+        result.assets[0].uri,
+        { encoding: FileSystem.EncodingType.UTF8 },
+      );
+      await loadPreview({ icsContent });
+    } catch (error) {
+      Alert.alert(getErrorTitle(error), mapErrorCodeToMessage(error));
+    }
+  }, [loadPreview]);
+
+  const handlePreviewUrl = useCallback(() => {
+    if (!url.trim()) return;
+    loadPreview({ url });
+  }, [url, loadPreview]);
+
+  const toggleLecture = useCallback((key: string) => {
+    setSelected(prev => {
+      const next = new Set(prev);
+      if (next.has(key)) next.delete(key);
+      else next.add(key);
+      return next;
+    });
+  }, []);
+
+  const selectedCount = selected.size;
+  const taskLimit = preview?.task_limit;
+  const exceedsLimit =
+    !!taskLimit?.is_limited && selectedCount > (taskLimit.remaining ?? 0);
+
+  const importRequest = useMemo(
+    () =>
+      preview
+        ? buildTimetableImportRequest(preview, selected, mergeOverrides)
+        : null,
+    [preview, selected, mergeOverrides],
+  );
+  const courseLimit = preview?.course_limit;
+  const exceedsCourseLimit =
+    !!preview &&
+    !!importRequest &&
+    exceedsTimetableCourseLimit(preview, importRequest);
+  const cannotImport =
+    selectedCount === 0 || exceedsLimit || exceedsCourseLimit || isImporting;
+
+  const handleImport = useCallback(async () => {
+    if (!importRequest || importRequest.courses.length === 0) return;
+
+    setIsImporting(true);
+    try {
+      const result = await timetableImportApi.import(importRequest);
+
+      await queryClient.invalidateQueries({ queryKey: ['courses'] });
+      await queryClient.invalidateQueries({ queryKey: ['lectures'] });
+      await queryClient.invalidateQueries({ queryKey: ['homeScreenData'] });
+      await queryClient.invalidateQueries({ queryKey: ['calendarData'] });
+
+      Alert.alert(
+        'Timetable imported',
+        `Added ${result.lectures_created} lecture${result.lectures_created === 1 ? '' : 's'} across ${result.courses_created + result.courses_merged} course${result.courses_created + result.courses_merged === 1 ? '' : 's'}.`,
+        [{ text: 'OK', onPress: () => navigation.goBack() }],
+      );
+    } catch (error) {
+      Alert.alert(getErrorTitle(error), mapErrorCodeToMessage(error));
+    } finally {
+      setIsImporting(false);
+    }
+  }, [importRequest, queryClient, navigation]);
+
+  const renderSourcePicker = () => (
+    <View>
+      <Text style={[styles.intro, { color: theme.textSecondary }]}>
+        Import your university timetable from an .ics file or a calendar
+        subscription link. You can review everything before it is added.
+      </Text>
+
+      <TouchableOpacity
+        style={[styles.sourceButton, { borderColor: theme.border }]}
+        onPress={handlePickFile}
+        disabled={isLoadingPreview}
+        accessibilityRole="button"
+        accessibilityLabel="Choose an .ics file">
+        <Ionicons name="document-outline" size={24} color={theme.accent} />
+        <Text style={[styles.sourceButtonText, { color: theme.text }]}>
+          Choose .ics file
+        </Text>
+      </TouchableOpacity>
+
+      <Text style={[styles.orText, { color: theme.textSecondary }]}>or</Text>
+
+      <TextInput
+        style={[
+          styles.urlInput,
+          {
+            color: theme.text,
+            borderColor: theme.border,
+            backgroundColor: theme.surface,
+          },
+        ]}
+        placeholder="https:// or webcal:// link"
+        placeholderTextColor={theme.textSecondary}
+        value={url}
+        onChangeText={setUrl}
+        autoCapitalize="none"
+        autoCorrect={false}
+        keyboardType="url"
+        returnKeyType="go"
+        onSubmitEditing={handlePreviewUrl}
+      />
+      <TouchableOpacity
+        style={[
+          styles.primaryButton,
+          { backgroundColor: theme.accent },
+          (!url.trim() || isLoadingPreview) && styles.buttonDisabled,
+        ]}
+        onPress={handlePreviewUrl}
+        disabled={!url.trim() || isLoadingPreview}
+        accessibilityRole="button">
+        <Text style={styles.primaryButtonText}>Preview link</Text>
+      </TouchableOpacity>
+
+      {isLoadingPreview && (
+        <ActivityIndicator
+          style={styles.loader}
+          size="large"
+          color={theme.accent}
+        />
+      )}
+    </View>
+  );
+
+  const renderPreview = (data: TimetableImportPreview) => (
+    <View>
+      {taskLimit?.is_limited && (
+        <View
+          style={[
+            styles.banner,
+            { backgroundColor: exceedsLimit ? '#FEF2F2' : '#EFF6FF' },
+          ]}>
+          <Text
+            style={[
+              styles.bannerText,
+              { color: exceedsLimit ? '#B91C1C' : '#1D4ED8' },
+            ]}>
+            {`Free plan: you can add ${taskLimit.remaining} more lecture${taskLimit.remaining === 1 ? '' : 's'} this week. ${selectedCount} selected.`}
+          </Text>
+          {exceedsLimit && (
+            <TouchableOpacity
+              onPress={() =>
+                navigation.navigate('PaywallScreen', { variant: 'general' })
+              }
+              accessibilityRole="button">
+              <Text style={styles.bannerLink}>Upgrade for unlimited</Text>
+            </TouchableOpacity>
+          )}
+        </View>
+      )}
+
+      {courseLimit && exceedsCourseLimit && (
+        <View style={[styles.banner, { backgroundColor: COLORS.red50 }]}>
+          <Text style={[styles.bannerText, { color: COLORS.red600 }]}>
+            {`Your plan allows ${courseLimit.remaining} more course${courseLimit.remaining === 1 ? '' : 's'} (limit ${courseLimit.limit}). Add lectures to existing courses or deselect some courses.`}
+          </Text>
+          <TouchableOpacity
+            onPress={() =>
+              navigation.navigate('PaywallScreen', { variant: 'general' })
+            }
+            accessibilityRole="button">
+            <Text style={styles.bannerLink}>Upgrade for more courses</Text>
+          </TouchableOpacity>
+        </View>
+      )}
+
+      {data.warnings.map(warning => (
+        <View key={warning} style={styles.warningRow}>
+          <Ionicons
+            name="alert-circle-outline"
+            size={16}
+            color={COLORS.warning}
+          />
+          <Text style={[styles.warningText, { color: theme.textSecondary }]}>
+            {warning}
+          </Text>
+        </View>
+      ))}
+
+      {data.courses.map(course => {
+        const merge =
+          mergeOverrides[course.key] ?? course.existing_course_id !== null;
+
+        return (
+          <View
+            key={course.key}
+            style={[
+              styles.courseCard,
+              { backgroundColor: theme.surface, borderColor: theme.border },
+            ]}>
+            <Text style={[styles.courseName, { color: theme.text }]}>
+              {course.course_name}
+            </Text>
+            {course.course_code && (
+              <Text style={[styles.courseCode, { color: theme.textSecondary }]}>
+                {course.course_code}
+              </Text>
+            )}
+
+            {course.existing_course_id && (
+              <View style={styles.mergeRow}>
+                <Text
+                  style={[styles.mergeText, { color: theme.textSecondary }]}>
+                  {`Add to existing "${course.existing_course_name}"`}
+                </Text>
+                <Switch
+                  value={merge}
+                  onValueChange={value =>
+                    setMergeOverrides(prev => ({
+                      ...prev,
+                      [course.key]: value,
+                    }))
+                  }
+                  accessibilityLabel="Merge into existing course"
+                />
+              </View>
+            )}
+
+            {course.lectures.map(lecture => {
+              const isSelected = selected.has(lecture.key);
+              return (
+                <TouchableOpacity
+                  key={lecture.key}
+                  style={styles.lectureRow}
+                  onPress={() => toggleLecture(lecture.key)}
+                  accessibilityRole="checkbox"
+                  accessibilityState={{ checked: isSelected }}>
+                  <Ionicons
+                    name={isSelected ? 'checkbox' : 'square-outline'}
+                    size={22}
+                    color={isSelected ? theme.accent : theme.textSecondary}
+                  />
+                  <View style={styles.lectureInfo}>
+                    <Text style={[styles.lectureName, { color: theme.text }]}>
+                      {lecture.lecture_name}
+                    </Text>
+                    <Text
+                      style={[
+                        styles.lectureMeta,
+                        { color: theme.textSecondary },
+                      ]}>
+                      {formatLectureSlot(lecture)} · {formatRecurrence(lecture)}
+                      {lecture.venue ? ` · ${lecture.venue}` : ''}
+                    </Text>
+                    {lecture.is_duplicate && (
+                      <Text style={styles.duplicateBadge}>Already added</Text>
+                    )}
+                  </View>
+                </TouchableOpacity>
+              );
+            })}
+          </View>
+        );
+      })}
+
+      <TouchableOpacity
+        style={[
+          styles.primaryButton,
+          { backgroundColor: theme.accent },
+          cannotImport && styles.buttonDisabled,
+        ]}
+        onPress={handleImport}
+        disabled={cannotImport}
+        accessibilityRole="button">
+        {isImporting ? (
+          <ActivityIndicator color={COLORS.white} />
+        ) : (
+          <Text style={styles.primaryButtonText}>
+            {`Import ${selectedCount} lecture${selectedCount === 1 ? '' : 's'}`}
+          </Text>
+        )}
+      </TouchableOpacity>
+
+      <TouchableOpacity
+        style={styles.secondaryButton}
+        onPress={() => setPreview(null)}
+        disabled={isImporting}
+        accessibilityRole="button">
+        <Text style={[styles.secondaryButtonText, { color: theme.accent }]}>
+          Choose a different calendar
+        </Text>
+      </TouchableOpacity>
+    </View>
+  );
+
+  return (
+    <ScrollView
+      style={[styles.container, { backgroundColor: theme.background }]}
+      contentContainerStyle={[
+        styles.content,
+        { paddingBottom: insets.bottom + 24 },
+      ]}
+      keyboardShouldPersistTaps="handled">
+      {preview ? renderPreview(preview) : renderSourcePicker()}
+    </ScrollView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  content: {
+    padding: 16,
+  },
+  intro: {
+    fontSize: 15,
+    lineHeight: 22,
+    marginBottom: 24,
+  },
+  sourceButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    borderWidth: 1,
+    borderStyle: 'dashed',
+    borderRadius: 12,
+    paddingVertical: 20,
+  },
+  sourceButtonText: {
+    fontSize: 16,
+    fontWeight: FONT_WEIGHTS.semibold,
+    marginLeft: 8,
+  },
+  orText: {
+    textAlign: 'center',
+    marginVertical: 16,
+  },
+  urlInput: {
+    borderWidth: 1,
+    borderRadius: 12,
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    fontSize: 16,
+  },
+  primaryButton: {
+    borderRadius: 12,
+    paddingVertical: 14,
+    alignItems: 'center',
+    marginTop: 16,
+  },
+  primaryButtonText: {
+    color: COLORS.white,
+    fontSize: 16,
+    fontWeight: FONT_WEIGHTS.semibold,
+  },
+  buttonDisabled: {
+    opacity: 0.5,
+  },
+  secondaryButton: {
+    paddingVertical: 14,
+    alignItems: 'center',
+  },
+  secondaryButtonText: {
+    fontSize: 15,
+    fontWeight: FONT_WEIGHTS.medium,
+  },
+  loader: {
+    marginTop: 24,
+  },
+  banner: {
+    borderRadius: 12,
+    padding: 12,
+    marginBottom: 12,
+  },
+  bannerText: {
+    fontSize: 14,
+    lineHeight: 20,
+  },
+  bannerLink: {
+    color: COLORS.primary,
+    fontSize: 14,
+    fontWeight: FONT_WEIGHTS.semibold,
+    marginTop: 6,
+  },
+  warningRow: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    marginBottom: 8,
+  },
+  warningText: {
+    flex: 1,
+    fontSize: 13,
+    lineHeight: 18,
+    marginLeft: 6,
+  },
+  courseCard: {
+    borderWidth: 1,
+    borderRadius: 12,
+    padding: 16,
+    marginTop: 12,
+  },
+  courseName: {
+    fontSize: 17,
+    fontWeight: FONT_WEIGHTS.semibold,
+  },
+  courseCode: {
+    fontSize: 13,
+    marginTop: 2,
+  },
+  mergeRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginTop: 8,
+  },
+  mergeText: {
+    flex: 1,
+    fontSize: 13,
+    marginRight: 8,
+  },
+  lectureRow: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    paddingVertical: 10,
+  },
+  lectureInfo: {
+    flex: 1,
+    marginLeft: 10,
+  },
+  lectureName: {
+    fontSize: 15,
+    fontWeight: FONT_WEIGHTS.medium,
+  },
+  lectureMeta: {
+    fontSize: 13,
+    marginTop: 2,
+  },
+  duplicateBadge: {
+    color: COLORS.warning,
+    fontSize: 12,
+    fontWeight: FONT_WEIGHTS.semibold,
+    marginTop: 4,
+  },
+});
+
+export default ImportTimetableScreen;
@@ -0,0 +1,362 @@
+import React, { useMemo, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  Alert,
+  ActivityIndicator,
+} from 'react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
+import { format, parseISO } from 'date-fns';
+import { useTheme } from '@/hooks/useTheme';
+import {
+  TermInput,
+  useArchiveTerm,
+  useDeleteTerm,
+  useSaveTerm,
+  useTermCourses,
+  useTerms,
+} from '@/hooks/useTerms';
+import { COLORS, FONT_WEIGHTS } from '@/constants/theme';
+import { Term } from '@/types';
+import { getTermStatus, sortTerms, TermStatus } from '@/utils/terms';
+import { TermFormModal } from '../components/TermFormModal';
+
+const STATUS_LABELS: Record<TermStatus, string> = {
+  current: 'Current',
+  upcoming: 'Upcoming',
+  past: 'Ended',
+  archived: 'Archived',
+};
+
+const formatTermDates = (term: Term) =>
+  `${format(parseISO(term.startDate), 'd MMM yyyy')} – ${format(
+    parseISO(term.endDate),
+    'd MMM yyyy',
+  )}`;
+
+const TermsScreen = () => {
+  const { theme } = useTheme();
+  const insets = useSafeAreaInsets();
+  const { data: terms, isLoading } = useTerms();
+  const { data: courses = [] } = useTermCourses();
+  const saveTerm = useSaveTerm();
+  const archiveTerm = useArchiveTerm();
+  const deleteTerm = useDeleteTerm();
+
+  const [isFormVisible, setFormVisible] = useState(false);
+  const [editingTerm, setEditingTerm] = useState<Term | null>(null);
+
+  const sortedTerms = useMemo(() => sortTerms(terms ?? []), [terms]);
+  const coursesByTerm = useMemo(() => {
+    const grouped = new Map<string, string[]>();
+    courses.forEach(course => {
+      if (!course.termId) return;
+      grouped.set(course.termId, [
+        ...(grouped.get(course.termId) ?? []),
+        course.courseName,
+      ]);
+    });
+    return grouped;
+  }, [courses]);
+
+  const openForm = (term: Term | null) => {
+    setEditingTerm(term);
+    setFormVisible(true);
+  };
+
+  const handleSave = (input: TermInput) => {
+    saveTerm.mutate(
+      { termId: editingTerm?.id, term: input },
+      {
+        onSuccess: () => setFormVisible(false),
+        onError: error => Alert.alert('Could not save term', error.message),
+      },
+    );
+  };
+
+  const handleArchive = (term: Term) => {
+    const archived = !term.archivedAt;
+    const save = () =>
+      archiveTerm.mutate(
+        { termId: term.id, archived },
+        {
+          onError: error => Alert.alert('Could not update term', error.message),
+        },
+      );
+
+    if (!archived) {
+      save();
+      return;
+    }
+    Alert.alert(
+      `Archive ${term.name}?`,
+      'Its courses, lectures, assignments and study sessions will be hidden from your home screen and calendar. Nothing is deleted, and you can unarchive the term at any time.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Archive', onPress: save },
+      ],
+    );
+  };
+
+  const handleDelete = (term: Term) => {
+    Alert.alert(
+      `Delete ${term.name}?`,
+      'The term is removed but its courses and their tasks are kept.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: () =>
+            deleteTerm.mutate(term.id, {
+              onError: error =>
+                Alert.alert('Could not delete term', error.message),
+            }),
+        },
+      ],
+    );
+  };
+
+  return (
+    <View style={[styles.container, { backgroundColor: theme.background }]}>
+      <ScrollView
+        contentContainerStyle={[
+          styles.content,
+          { paddingBottom: insets.bottom + 96 },
+        ]}>
+        <Text style={[styles.intro, { color: theme.textSecondary }]}>
+          Group your courses by semester. Lectures only repeat within their
+          term, and archiving a term hides its courses from your home screen and
+          calendar.
+        </Text>
+
+        {isLoading && <ActivityIndicator color={COLORS.primary} />}
+
+        {!isLoading && sortedTerms.length === 0 && (
+          <Text style={[styles.emptyText, { color: theme.textSecondary }]}>
+            You have no terms yet.
+          </Text>
+        )}
+
+        {sortedTerms.map(term => {
+          const status = getTermStatus(term);
+          const courseNames = coursesByTerm.get(term.id) ?? [];
+          return (
+            <View
+              key={term.id}
+              style={[
+                styles.card,
+                { backgroundColor: theme.card, borderColor: theme.border },
+              ]}>
+              <View style={styles.cardHeader}>
+                <View style={styles.cardTitle}>
+                  <Text style={[styles.termName, { color: theme.text }]}>
+                    {term.name}
+                  </Text>
+                  <Text
+                    style={[styles.termDates, { color: theme.textSecondary }]}>
+                    {formatTermDates(term)}
+                  </Text>
+                </View>
+                <View
+                  style={[
+                    styles.badge,
+                    {
+                      backgroundColor:
+                        status === 'current' ? theme.primary : theme.surface,
+                    },
+                  ]}>
+                  <Text
+                    style={[
+                      styles.badgeText,
+                      {
+                        color:
+                          status === 'current'
+                            ? COLORS.white
+                            : theme.textSecondary,
+                      },
+                    ]}>
+                    {STATUS_LABELS[status]}
+                  </Text>
+                </View>
+              </View>
+
+              {term.breaks.length > 0 && (
+                <Text
+                  style={[styles.detailText, { color: theme.textSecondary }]}>
+                  Breaks:{' '}
+                  {term.breaks.map(termBreak => termBreak.name).join(', ')}
+                </Text>
+              )}
+              <Text style={[styles.detailText, { color: theme.textSecondary }]}>
+                {courseNames.length > 0
+                  ? courseNames.join(', ')
+                  : 'No courses in this term'}
+              </Text>
+
+              <View style={[styles.actions, { borderTopColor: theme.border }]}>
+                <TouchableOpacity
+                  style={styles.action}
+                  onPress={() => openForm(term)}
+                  accessibilityRole="button">
+                  <Ionicons
+                    name="create-outline"
+                    size={18}
+                    color={theme.primary}
+                  />
+                  <Text style={[styles.actionText, { color: theme.primary }]}>
+                    Edit
+                  </Text>
+                </TouchableOpacity>
+                <TouchableOpacity
+                  style={styles.action}
+                  onPress={() => handleArchive(term)}
+                  disabled={archiveTerm.isPending}
+                  accessibilityRole="button">
+                  <Ionicons
+                    name={
+                      term.archivedAt ? 'arrow-undo-outline' : 'archive-outline'
+                    }
+                    size={18}
+                    color={theme.primary}
+                  />
+                  <Text style={[styles.actionText, { color: theme.primary }]}>
+                    {term.archivedAt ? 'Unarchive' : 'Archive'}
+                  </Text>
+                </TouchableOpacity>
+                <TouchableOpacity
+                  style={styles.action}
+                  onPress={() => handleDelete(term)}
+                  accessibilityRole="button">
+                  <Ionicons
+                    name="trash-outline"
+                    size={18}
+                    color={theme.destructive}
+                  />
+                  <Text
+                    style={[styles.actionText, { color: theme.destructive }]}>
+                    Delete
+                  </Text>
+                </TouchableOpacity>
+              </View>
+            </View>
+          );
+        })}
+      </ScrollView>
+
+      <TouchableOpacity
+        style={[
+          styles.addButton,
+          { backgroundColor: theme.primary, bottom: insets.bottom + 16 },
+        ]}
+        onPress={() => openForm(null)}
+        activeOpacity={0.8}
+        accessibilityLabel="Add term"
+        accessibilityRole="button">
+        <Ionicons name="add" size={24} color={COLORS.white} />
+        <Text style={styles.addButtonText}>Add Term</Text>
+      </TouchableOpacity>
+
+      <TermFormModal
+        isVisible={isFormVisible}
+        term={editingTerm}
+        courses={courses}
+        isSaving={saveTerm.isPending}
+        onClose={() => setFormVisible(false)}
+        onSave={handleSave}
+      />
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  content: {
+    padding: 16,
+    gap: 12,
+  },
+  intro: {
+    fontSize: 14,
+    lineHeight: 20,
+  },
+  emptyText: {
+    fontSize: 16,
+    textAlign: 'center',
+    paddingVertical: 40,
+  },
+  card: {
+    borderRadius: 16,
+    borderWidth: 1,
+    padding: 16,
+    gap: 6,
+  },
+  cardHeader: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    justifyContent: 'space-between',
+    gap: 8,
+  },
+  cardTitle: {
+    flex: 1,
+  },
+  termName: {
+    fontSize: 18,
+    fontWeight: FONT_WEIGHTS.semibold,
+  },
+  termDates: {
+    fontSize: 14,
+    marginTop: 2,
+  },
+  badge: {
+    borderRadius: 10,
+    paddingHorizontal: 8,
+    paddingVertical: 3,
+  },
+  badgeText: {
+    fontSize: 12,
+    fontWeight: FONT_WEIGHTS.semibold,
+  },
+  detailText: {
+    fontSize: 14,
+  },
+  actions: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    borderTopWidth: StyleSheet.hairlineWidth,
+    marginTop: 8,
+    paddingTop: 10,
+  },
+  action: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+  },
+  actionText: {
+    fontSize: 15,
+    fontWeight: FONT_WEIGHTS.medium,
+  },
+  addButton: {
+    position: 'absolute',
+    left: 16,
+    right: 16,
+    height: 56,
+    borderRadius: 16,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 12,
+  },
+  addButtonText: {
+    color: COLORS.white,
+    fontSize: 18,
+    fontWeight: FONT_WEIGHTS.bold,
+  },
+});
+
+export default TermsScreen;
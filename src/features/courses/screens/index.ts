@@ -1,6 +1,9 @@
 // Main course screens
 export { default as CoursesScreen } from './CoursesScreen';
 export { default as CourseDetailScreen } from './CourseDetailScreen';
+export { default as ImportTimetableScreen } from './ImportTimetableScreen';
+export { default as ImportFlashcardsScreen } from './ImportFlashcardsScreen';
+export { default as TermsScreen } from './TermsScreen';
 
 // Course modals
 export { default as EditCourseModal } from './EditCourseModal';
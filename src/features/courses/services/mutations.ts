@@ -2,6 +2,7 @@ import { supabase } from '@/services/supabase';
 import { handleApiError } from '@/services/api/errors';
 import { Course, CreateCourseRequest } from '@/types';
 import { syncManager } from '@/services/syncManager';
+import { captureUpdateBase } from '@/utils/syncConflicts';
 import { generateTempId } from '@/utils/uuid';
 import { invokeEdgeFunctionWithAuth } from '@/utils/invokeEdgeFunction';
 
@@ -11,13 +12,15 @@ export const coursesApiMutations = {
    *
    * OFFLINE SUPPORT:
    * - When online: Executes server mutation immediately
-   * - When offline: Adds to sync queue
+   * - When offline: Adds to sync queue, with the loaded course as the base
+   *   for conflict detection when it syncs
    */
   async update(
     courseId: string,
     updates: Partial<CreateCourseRequest>,
     isOnline: boolean,
     userId: string,
+    original?: Course,
   ): Promise<Course> {
     try {
       // OFFLINE MODE: Queue for later sync
@@ -33,6 +36,7 @@ export const coursesApiMutations = {
             type: 'UPDATE',
             resourceId: courseId,
             updates,
+            ...captureUpdateBase(original, updates),
           },
           userId,
           { syncImmediately: false },
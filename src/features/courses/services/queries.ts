@@ -1,6 +1,7 @@
 import { versionedApiClient } from '@/services/VersionedApiClient';
 import { Course } from '@/types';
 import { handleApiError } from '@/services/api/errors';
+import { DbCourse, mapDbCourseToAppCourse } from '@/services/api/mappers';
 
 export type CourseSortOption =
   | 'name-asc'
@@ -34,7 +35,10 @@ export const coursesApi = {
         );
       }
 
-      let courses = (response.data || []) as Course[];
+      // api-v2 returns database rows
+      let courses: Course[] = (
+        (response.data || []) as unknown as DbCourse[]
+      ).map(mapDbCourseToAppCourse);
 
       // Apply client-side filtering and sorting (can be moved to API later)
       const {
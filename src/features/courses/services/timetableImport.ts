@@ -0,0 +1,126 @@
+import { versionedApiClient } from '@/services/VersionedApiClient';
+import { ApiError, handleApiError } from '@/services/api/errors';
+import {
+  TimetableImportPreview,
+  TimetableImportRequest,
+  TimetableImportResult,
+} from '@/types';
+
+export type TimetableSource = { icsContent: string } | { url: string };
+
+/**
+ * Device time zone, used by the server to place floating (zone-less) event times
+ */
+const getDeviceTimeZone = (): string | undefined => {
+  try {
+    return Intl.DateTimeFormat().resolvedOptions().timeZone;
+  } catch {
+    return undefined;
+  }
+};
+
+export const timetableImportApi = {
+  /**
+   * Parse a timetable and propose courses/lectures without saving anything
+   */
+  async preview(source: TimetableSource): Promise<TimetableImportPreview> {
+    try {
+      const response = await versionedApiClient.previewTimetableImport({
+        ...('url' in source
+          ? { url: source.url.trim() }
+          : { ics_content: source.icsContent }),
+        timezone: getDeviceTimeZone(),
+      });
+
+      if (response.error || !response.data) {
+        throw new ApiError(
+          response.message || response.error || 'Failed to read timetable',
+          response.code,
+        );
+      }
+
+      return response.data as unknown as TimetableImportPreview;
+    } catch (error) {
+      throw handleApiError(error);
+    }
+  },
+
+  /**
+   * Create the selected courses and lectures from a (possibly edited) preview
+   */
+  async import(plan: TimetableImportRequest): Promise<TimetableImportResult> {
+    try {
+      const response = await versionedApiClient.importTimetable(plan);
+
+      if (response.error || !response.data) {
+        throw new ApiError(
+          response.message || response.error || 'Failed to import timetable',
+          response.code,
+        );
+      }
+
+      return response.data as unknown as TimetableImportResult;
+    } catch (error) {
+      throw handleApiError(error);
+    }
+  },
+};
+
+/**
+ * Build the import request from the preview and the user's selection.
+ * Courses with no selected lectures are left out.
+ *
+ * @param mergeOverrides - Course key -> whether to merge into the matched existing course
+ */
+export const buildTimetableImportRequest = (
+  preview: TimetableImportPreview,
+  selectedLectureKeys: ReadonlySet<string>,
+  mergeOverrides: Record<string, boolean> = {},
+): TimetableImportRequest => ({
+  courses: preview.courses
+    .map(course => {
+      const merge =
+        mergeOverrides[course.key] ?? course.existing_course_id !== null;
+
+      return {
+        course_name: course.course_name,
+        course_code: course.course_code,
+        existing_course_id: merge ? course.existing_course_id : null,
+        lectures: course.lectures
+          .filter(lecture => selectedLectureKeys.has(lecture.key))
+          .map(lecture => ({
+            lecture_name: lecture.lecture_name,
+            start_time: lecture.start_time,
+            end_time: lecture.end_time,
+            venue: lecture.venue,
+            recurring_pattern: lecture.recurring_pattern,
+          })),
+      };
+    })
+    .filter(course => course.lectures.length > 0),
+});
+
+/**
+ * Whether the request creates more new courses than the plan allows.
+ * Courses merged into existing ones don't count.
+ */
+export const exceedsTimetableCourseLimit = (
+  preview: TimetableImportPreview,
+  request: TimetableImportRequest,
+): boolean =>
+  request.courses.filter(course => !course.existing_course_id).length >
+  preview.course_limit.remaining;
+
+/**
+ * Lectures selected by default: everything that isn't already in the schedule
+ */
+export const getDefaultTimetableSelection = (
+  preview: TimetableImportPreview,
+): Set<string> =>
+  new Set(
+    preview.courses.flatMap(course =>
+      course.lectures
+        .filter(lecture => !lecture.is_duplicate)
+        .map(lecture => lecture.key),
+    ),
+  );
@@ -0,0 +1,142 @@
+import React from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { format } from 'date-fns';
+import { useTheme } from '@/contexts/ThemeContext';
+import {
+  FONT_SIZES,
+  FONT_WEIGHTS,
+  SPACING,
+  BORDER_RADIUS,
+  SHADOWS,
+} from '@/constants/theme';
+import { Exam } from '@/types';
+import { getExamCountdown } from '@/utils/exams';
+
+const EXAM_COLOR = '#7E22CE';
+
+interface ExamCountdownCardProps {
+  /** Upcoming exams, soonest first */
+  exams: Exam[];
+}
+
+export const ExamCountdownCard: React.FC<ExamCountdownCardProps> = ({
+  exams,
+}) => {
+  const { theme, isDark } = useTheme();
+
+  return (
+    <View
+      style={[
+        styles.card,
+        {
+          backgroundColor: isDark ? '#1E293B' : '#FFFFFF',
+          borderColor: isDark ? 'rgba(255, 255, 255, 0.1)' : '#F3F4F6',
+        },
+      ]}>
+      {exams.map((exam, index) => {
+        const countdown = getExamCountdown(exam.examDate);
+        const details = [
+          exam.courseName,
+          format(new Date(exam.examDate), 'EEE, MMM d · h:mm a'),
+          exam.location,
+        ].filter(Boolean);
+
+        return (
+          <View
+            key={exam.id}
+            style={[
+              styles.row,
+              index > 0 && {
+                borderTopWidth: 1,
+                borderTopColor: isDark ? '#374151' : '#F3F4F6',
+              },
+            ]}
+            accessibilityLabel={`${exam.title}, ${countdown.label}`}>
+            <View style={styles.iconContainer}>
+              <Ionicons name="ribbon-outline" size={20} color={EXAM_COLOR} />
+            </View>
+            <View style={styles.info}>
+              <Text
+                style={[styles.title, { color: theme.text }]}
+                numberOfLines={1}>
+                {exam.title}
+              </Text>
+              <Text
+                style={[
+                  styles.details,
+                  { color: isDark ? '#9CA3AF' : '#637588' },
+                ]}
+                numberOfLines={1}>
+                {details.join(' · ')}
+              </Text>
+            </View>
+            <View style={styles.countdown}>
+              {countdown.days > 1 ? (
+                <>
+                  <Text style={styles.days}>{countdown.days}</Text>
+                  <Text style={styles.daysLabel}>days</Text>
+                </>
+              ) : (
+                <Text style={styles.soon}>{countdown.label}</Text>
+              )}
+            </View>
+          </View>
+        );
+      })}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  card: {
+    borderRadius: BORDER_RADIUS.xl,
+    borderWidth: 1,
+    paddingHorizontal: SPACING.md,
+    ...SHADOWS.sm,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: SPACING.md,
+  },
+  iconContainer: {
+    width: 40,
+    height: 40,
+    borderRadius: BORDER_RADIUS.md,
+    backgroundColor: '#F3E8FF',
+    alignItems: 'center',
+    justifyContent: 'center',
+    marginRight: SPACING.md,
+  },
+  info: {
+    flex: 1,
+  },
+  title: {
+    fontSize: FONT_SIZES.md,
+    fontWeight: FONT_WEIGHTS.semibold,
+  },
+  details: {
+    fontSize: FONT_SIZES.sm,
+    marginTop: 2,
+  },
+  countdown: {
+    minWidth: 56,
+    alignItems: 'center',
+    marginLeft: SPACING.sm,
+  },
+  days: {
+    fontSize: FONT_SIZES.xl,
+    fontWeight: FONT_WEIGHTS.bold,
+    color: EXAM_COLOR,
+  },
+  daysLabel: {
+    fontSize: FONT_SIZES.xs,
+    color: EXAM_COLOR,
+  },
+  soon: {
+    fontSize: FONT_SIZES.sm,
+    fontWeight: FONT_WEIGHTS.semibold,
+    color: EXAM_COLOR,
+  },
+});
@@ -128,7 +128,8 @@ export const useTaskManagement = () => {
   }, [selectedTask, handleCloseSheet]);
 
   const handleCompleteTask = useCallback(async () => {
-    if (!selectedTask) return;
+    // Exams are not completed, only taken
+    if (!selectedTask || selectedTask.type === 'exam') return;
 
     try {
       await completeTaskMutation.mutateAsync({
@@ -16,7 +16,9 @@ import { COLORS } from '@/constants/theme';
 import { useLimitCheck } from '@/hooks/useLimitCheck';
 import { useUsageLimitPaywall } from '@/contexts/UsageLimitPaywallContext';
 
-import FloatingActionButton from '@/shared/components/FloatingActionButton';
+import FloatingActionButton, {
+  FloatingAction,
+} from '@/shared/components/FloatingActionButton';
 
 type HomeScreenFABNavigationProp = StackNavigationProp<
   RootStackParamList,
@@ -90,7 +92,11 @@ export const HomeScreenFAB: React.FC<HomeScreenFABProps> = ({
   };
 
   const handleAddActivity = async (
-    flowName: 'AddAssignmentFlow' | 'AddLectureFlow' | 'AddStudySessionFlow',
+    flowName:
+      | 'AddAssignmentFlow'
+      | 'AddLectureFlow'
+      | 'AddStudySessionFlow'
+      | 'AddExamFlow',
   ) => {
     const limitCheck = await checkActivityLimit();
     if (!limitCheck.allowed && limitCheck.limitType) {
@@ -106,25 +112,31 @@ export const HomeScreenFAB: React.FC<HomeScreenFABProps> = ({
     navigation.navigate(flowName);
   };
 
-  const fabActions = [
+  const fabActions: FloatingAction[] = [
     {
-      icon: 'book-outline' as any,
+      icon: 'book-outline',
       label: 'Add Course',
       onPress: handleAddCourse,
       backgroundColor: COLORS.primary,
     },
     {
-      icon: 'calendar-outline' as any,
+      icon: 'calendar-outline',
       label: 'Add Assignment',
       onPress: () => handleAddActivity('AddAssignmentFlow'),
       backgroundColor: COLORS.secondary,
     },
     {
-      icon: 'time-outline' as any,
+      icon: 'time-outline',
       label: 'Add Study Session',
       onPress: () => handleAddActivity('AddStudySessionFlow'),
       backgroundColor: COLORS.success,
     },
+    {
+      icon: 'ribbon-outline',
+      label: 'Add Exam',
+      onPress: () => handleAddActivity('AddExamFlow'),
+      backgroundColor: COLORS.warning,
+    },
   ];
 
   return (
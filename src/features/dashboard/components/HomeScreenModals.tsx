@@ -68,7 +68,8 @@ export const HomeScreenModals: React.FC<HomeScreenModalsProps> = ({
   }, [selectedTask, onCloseSheet, navigation]);
 
   const handleCompleteTask = useCallback(async () => {
-    if (!selectedTask) return;
+    // Exams are not completed, only taken
+    if (!selectedTask || selectedTask.type === 'exam') return;
 
     try {
       await completeTaskMutation.mutateAsync({
@@ -11,7 +11,7 @@ import { Ionicons } from '@expo/vector-icons';
 import { useNavigation } from '@react-navigation/native';
 import { StackNavigationProp } from '@react-navigation/stack';
 import { RootStackParamList, Task } from '@/types';
-import { Button } from '@/shared/components';
+import { Button, SubtaskProgressBar } from '@/shared/components';
 import { isTempId } from '@/utils/uuid';
 import { formatDate } from '@/i18n';
 
@@ -79,6 +79,13 @@ const NextTaskCard: React.FC<Props> = ({
 
           <Text style={styles.taskName}>{task.name}</Text>
 
+          {/* Checklist progress - for assignments with subtasks */}
+          {task.subtasks?.length ? (
+            <View style={styles.subtaskProgress}>
+              <SubtaskProgressBar subtasks={task.subtasks} />
+            </View>
+          ) : null}
+
           <View style={styles.footer}>
             <Text style={styles.courseName}>{task.courses.courseName}</Text>
             <Text style={styles.time}>{getTaskTime(task.date)}</Text>
@@ -222,6 +229,10 @@ const styles = StyleSheet.create({
     marginBottom: 20,
     lineHeight: 36,
   },
+  subtaskProgress: {
+    marginTop: -8,
+    marginBottom: 20,
+  },
   footer: {
     flexDirection: 'row',
     justifyContent: 'space-between',
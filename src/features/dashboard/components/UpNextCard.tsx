@@ -12,6 +12,7 @@ import {
   SHADOWS,
 } from '@/constants/theme';
 import { format, differenceInMinutes } from 'date-fns';
+import { SubtaskProgressBar } from '@/shared/components/SubtaskProgressBar';
 
 interface UpNextCardProps {
   task: Task | null;
@@ -41,6 +42,13 @@ const getCategoryConfig = (taskType: string) => {
         bgColor: '#FFEDD5',
         textColor: '#C2410C',
       };
+    case 'exam':
+      return {
+        label: 'EXAM',
+        icon: 'ribbon-outline',
+        bgColor: '#F3E8FF',
+        textColor: '#7E22CE',
+      };
     default:
       return {
         label: 'REVIEW',
@@ -52,7 +60,7 @@ const getCategoryConfig = (taskType: string) => {
 };
 
 export const UpNextCard: React.FC<UpNextCardProps> = ({ task, onPress }) => {
-  const { theme } = useTheme();
+  const { theme, isDark } = useTheme();
 
   const timeRemaining = useMemo(() => {
     if (!task?.date) return null;
@@ -163,6 +171,15 @@ export const UpNextCard: React.FC<UpNextCardProps> = ({ task, onPress }) => {
             {task.courses.courseName}
           </Text>
         )}
+        {task.subtasks?.length ? (
+          <View style={styles.subtaskProgress}>
+            <SubtaskProgressBar
+              subtasks={task.subtasks}
+              textColor={isDark ? '#9CA3AF' : '#637588'}
+              trackColor={isDark ? 'rgba(255, 255, 255, 0.1)' : '#E5E7EB'}
+            />
+          </View>
+        ) : null}
       </View>
     </TouchableOpacity>
   );
@@ -223,6 +240,9 @@ const styles = StyleSheet.create({
     fontSize: FONT_SIZES.sm,
     lineHeight: 20,
   },
+  subtaskProgress: {
+    marginTop: SPACING.md,
+  },
   emptyText: {
     fontSize: FONT_SIZES.md,
     textAlign: 'center',
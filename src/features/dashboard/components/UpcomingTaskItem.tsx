@@ -37,6 +37,12 @@ const getCategoryConfig = (taskType: string) => {
         bgColor: '#FFEDD5',
         iconColor: '#C2410C',
       };
+    case 'exam':
+      return {
+        icon: 'ribbon-outline' as const,
+        bgColor: '#F3E8FF',
+        iconColor: '#7E22CE',
+      };
     default:
       return {
         icon: 'menu-book-outline' as const,
@@ -4,3 +4,4 @@ export * from './UpNextCard';
 export * from './TodayOverviewGrid';
 export * from './MonthlyLimitCard';
 export * from './UpcomingTaskItem';
+export * from './ExamCountdownCard';
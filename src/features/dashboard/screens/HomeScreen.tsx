@@ -13,8 +13,10 @@ import {
   RefreshControl,
   Animated,
   TouchableWithoutFeedback,
+  TouchableOpacity,
   Alert,
 } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
 import { BlurView } from 'expo-blur';
 import { useNavigation, useFocusEffect } from '@react-navigation/native';
 import { StackNavigationProp } from '@react-navigation/stack';
@@ -26,15 +28,25 @@ import { NotificationHistoryModal } from '@/shared/components/NotificationHistor
 
 import { RootStackParamList, Task } from '@/types';
 import { useAuth } from '@/contexts/AuthContext';
-import { format, isAfter } from 'date-fns';
+import { useLocale } from '@/contexts/LocaleContext';
+import { MessageKey } from '@/i18n';
+import { isAfter } from 'date-fns';
 import { useHomeScreenData, useCalendarData } from '@/hooks/useDataQueries';
 import { useQueryClient } from '@tanstack/react-query';
 import { useMonthlyTaskCount } from '@/hooks/useWeeklyTaskCount';
 import { useCompleteTask, useDeleteTask, useRestoreTask } from '@/hooks';
 import { useLimitCheck } from '@/hooks/useLimitCheck';
+import { useExams } from '@/hooks/useExams';
+import { getUpcomingExams } from '@/utils/exams';
+import { EMPTY_TASK_FILTER, TaskFilter, filterTasks } from '@/utils/taskTags';
 import { useUsageLimitPaywall } from '@/contexts/UsageLimitPaywallContext';
 import FloatingActionButton from '@/shared/components/FloatingActionButton';
-import { Button, QueryStateWrapper, QuickAddModal } from '@/shared/components';
+import {
+  Button,
+  QueryStateWrapper,
+  QuickAddModal,
+  TaskFilterChips,
+} from '@/shared/components';
 import { useToast } from '@/contexts/ToastContext';
 import { mapErrorCodeToMessage, getErrorTitle } from '@/utils/errorMapping';
 import { COLORS, FONT_SIZES, FONT_WEIGHTS, SPACING } from '@/constants/theme';
@@ -42,6 +54,7 @@ import { UpNextCard } from '../components/UpNextCard';
 import { TodayOverviewGrid } from '../components/TodayOverviewGrid';
 import { MonthlyLimitCard } from '../components/MonthlyLimitCard';
 import { UpcomingTaskItem } from '../components/UpcomingTaskItem';
+import { ExamCountdownCard } from '../components/ExamCountdownCard';
 import TaskDetailSheet from '@/shared/components/TaskDetailSheet';
 import TaskCardSkeleton from '../components/TaskCardSkeleton';
 import { SwipeableTaskCard } from '../components/SwipeableTaskCard';
@@ -56,17 +69,18 @@ import { useMemoryMonitor } from '@/hooks/useMemoryMonitor';
 
 type HomeScreenNavigationProp = StackNavigationProp<RootStackParamList, 'Main'>;
 
-// Helper function to get greeting based on time of day
-const getGreeting = () => {
+// Helper function to get the greeting message for the time of day
+const getGreetingKey = (): MessageKey => {
   const hour = new Date().getHours();
-  if (hour < 12) return 'Good morning'; // 0:00 - 11:59
-  if (hour < 17) return 'Good afternoon'; // 12:00 - 16:59
-  return 'Good evening'; // 17:00 - 23:59
+  if (hour < 12) return 'home.greeting.morning'; // 0:00 - 11:59
+  if (hour < 17) return 'home.greeting.afternoon'; // 12:00 - 16:59
+  return 'home.greeting.evening'; // 17:00 - 23:59
 };
 
 const HomeScreen = () => {
   const navigation = useNavigation<HomeScreenNavigationProp>();
   const { session, user } = useAuth();
+  const { t, formatDate } = useLocale();
   const isGuest = !session;
   const queryClient = useQueryClient();
   const insets = useSafeAreaInsets();
@@ -87,11 +101,22 @@ const HomeScreen = () => {
   // Get calendar data for upcoming tasks
   const { data: calendarData } = useCalendarData(new Date());
 
-  // Extract upcoming tasks (next 4, excluding the "Up Next" task)
+  const { data: exams } = useExams(shouldFetchData);
+  const upcomingExams = useMemo(
+    () => getUpcomingExams(exams || []).slice(0, 3),
+    [exams],
+  );
+
+  const [taskFilter, setTaskFilter] = useState<TaskFilter>(EMPTY_TASK_FILTER);
+
+  // Extract upcoming tasks (next 4 passing the filter, excluding the "Up Next" task)
   const upcomingTasks = useMemo(() => {
     if (!calendarData || isGuest) return [];
     const now = new Date();
-    const allTasks = Object.values(calendarData).flat();
+    const allTasks = filterTasks(
+      Object.values(calendarData).flat(),
+      taskFilter,
+    );
     const upcoming = allTasks
       .filter(task => {
         const taskDate = new Date(task.startTime || task.date);
@@ -104,7 +129,7 @@ const HomeScreen = () => {
       })
       .slice(0, 4);
     return upcoming;
-  }, [calendarData, isGuest]);
+  }, [calendarData, isGuest, taskFilter]);
   const [isFabOpen, setIsFabOpen] = useState(false);
   const [selectedTask, setSelectedTask] = useState<Task | null>(null);
   const [isBannerDismissed, setIsBannerDismissed] = useState(false);
@@ -183,7 +208,11 @@ const HomeScreen = () => {
 
   const handleAddActivity = useCallback(
     async (
-      flowName: 'AddAssignmentFlow' | 'AddLectureFlow' | 'AddStudySessionFlow',
+      flowName:
+        | 'AddAssignmentFlow'
+        | 'AddLectureFlow'
+        | 'AddStudySessionFlow'
+        | 'AddExamFlow',
       eventName: string,
     ) => {
       const limitCheck = await checkActivityLimit();
@@ -238,6 +267,12 @@ const HomeScreen = () => {
         onPress: () =>
           handleAddActivity('AddLectureFlow', AnalyticsEvents.LECTURE_CREATED),
       },
+      {
+        icon: 'ribbon-outline' as const,
+        label: 'Add Exam',
+        onPress: () =>
+          handleAddActivity('AddExamFlow', AnalyticsEvents.EXAM_CREATED),
+      },
     ],
     [handleAddActivity],
   );
@@ -316,7 +351,8 @@ const HomeScreen = () => {
   }, [selectedTask, handleCloseSheet, navigation]);
 
   const handleCompleteTask = useCallback(async () => {
-    if (!selectedTask) return;
+    // Exams are not completed, only taken
+    if (!selectedTask || selectedTask.type === 'exam') return;
 
     try {
       // The mutation handles optimistic updates automatically
@@ -339,7 +375,7 @@ const HomeScreen = () => {
   // Handle swipe-to-complete for next task card
   const handleSwipeComplete = useCallback(async () => {
     const nextTask = homeData?.nextUpcomingTask;
-    if (!nextTask || isGuest) return;
+    if (!nextTask || nextTask.type === 'exam' || isGuest) return;
 
     try {
       await completeTaskMutation.mutateAsync({
@@ -410,17 +446,22 @@ const HomeScreen = () => {
   // Get personalized title - memoized to prevent recalculation on every render
   const personalizedTitle = useMemo(() => {
     if (isGuest) {
-      return "Let's Make Today Count";
+      return t('home.greeting.guest');
     }
 
-    const name = user?.username || user?.first_name || 'there';
-    return `${getGreeting()}, ${name}!`;
-  }, [isGuest, user?.username, user?.first_name]);
+    const name =
+      user?.username || user?.first_name || t('home.greeting.fallbackName');
+    return t(getGreetingKey(), { name });
+  }, [isGuest, user?.username, user?.first_name, t]);
 
   // Get formatted date for header
   const formattedDate = useMemo(() => {
-    return format(new Date(), 'EEEE, MMM d');
-  }, []);
+    return formatDate(new Date(), {
+      weekday: 'long',
+      month: 'short',
+      day: 'numeric',
+    });
+  }, [formatDate]);
 
   // Get subscription limit
   const subscriptionLimit = useMemo(() => {
@@ -491,6 +532,10 @@ const HomeScreen = () => {
     queryClient.invalidateQueries({ queryKey: ['homeScreenData'] });
   }, [queryClient]);
 
+  const handleSearchPress = useCallback(() => {
+    navigation.navigate('Search');
+  }, [navigation]);
+
   const handleCalendarPress = useCallback(() => {
     navigation.navigate('Calendar');
   }, [navigation]);
@@ -545,13 +590,22 @@ const HomeScreen = () => {
   // Wrap content with QueryStateWrapper for authenticated users
   const content = (
     <View style={styles.container} testID="home-screen">
-      {/* Header with Date, Greeting, and Notification Bell */}
+      {/* Header with Date, Greeting, Search and Notification Bell */}
       {!isGuest && (
         <View style={[styles.header, { paddingTop: SPACING.md }]}>
           <View style={styles.headerLeft}>
             <Text style={styles.headerDate}>{formattedDate}</Text>
             <Text style={styles.headerTitle}>{personalizedTitle}</Text>
           </View>
+          <TouchableOpacity
+            style={styles.headerButton}
+            onPress={handleSearchPress}
+            activeOpacity={0.7}
+            accessibilityRole="button"
+            accessibilityLabel="Search"
+            testID="home-search-button">
+            <Ionicons name="search" size={28} color={COLORS.textPrimary} />
+          </TouchableOpacity>
           <NotificationBell onPress={handleNotificationBellPress} />
         </View>
       )}
@@ -578,6 +632,14 @@ const HomeScreen = () => {
           </View>
         )}
 
+        {/* Exam Countdown Section */}
+        {!isGuest && upcomingExams.length > 0 && (
+          <View style={[styles.section, { marginTop: SPACING.xl }]}>
+            <Text style={styles.sectionTitle}>Exams</Text>
+            <ExamCountdownCard exams={upcomingExams} />
+          </View>
+        )}
+
         {/* Today's Overview Section */}
         {!isGuest && (
           <View style={[styles.section, { marginTop: SPACING.xl }]}>
@@ -595,7 +657,12 @@ const HomeScreen = () => {
         {/* Upcoming Section */}
         {!isGuest && (
           <View style={[styles.section, { marginTop: SPACING.xl }]}>
-            <Text style={styles.sectionTitle}>Upcoming</Text>
+            <Text style={styles.sectionTitle}>{t('home.upcoming')}</Text>
+            <TaskFilterChips
+              filter={taskFilter}
+              onFilterChange={setTaskFilter}
+              style={styles.filterChips}
+            />
             {upcomingTasks.length > 0 ? (
               upcomingTasks.map(task => (
                 <UpcomingTaskItem
@@ -713,6 +780,9 @@ const styles = StyleSheet.create({
   headerLeft: {
     flex: 1,
   },
+  headerButton: {
+    padding: 8,
+  },
   headerDate: {
     fontSize: FONT_SIZES.sm,
     fontWeight: FONT_WEIGHTS.medium,
@@ -742,6 +812,9 @@ const styles = StyleSheet.create({
     marginBottom: SPACING.md,
     paddingHorizontal: SPACING.xs,
   },
+  filterChips: {
+    marginBottom: SPACING.md,
+  },
   emptyText: {
     fontSize: FONT_SIZES.md,
     color: COLORS.textSecondary,
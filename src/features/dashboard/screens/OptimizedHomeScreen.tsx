@@ -110,6 +110,9 @@ const HomeScreen = () => {
   // Performance-optimized callbacks
   const handleCompleteTask = useStableCallback(async () => {
     if (!selectedTask) return;
+    const taskType = selectedTask.type;
+    // Exams are not completed, only taken
+    if (taskType === 'exam') return;
 
     try {
       performanceMonitoringService.startTimer('task-completion');
@@ -120,7 +123,7 @@ const HomeScreen = () => {
         async () => {
           return completeTaskMutation.mutateAsync({
             taskId: selectedTask.id,
-            taskType: selectedTask.type,
+            taskType,
             taskTitle: selectedTask.title || selectedTask.name,
           });
         },
@@ -1,2 +1,3 @@
 export * from './screens';
 export * from './components';
+export * from './services';
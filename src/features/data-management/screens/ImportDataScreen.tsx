@@ -0,0 +1,416 @@
+import React, { useCallback, useMemo, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  ScrollView,
+  Alert,
+  ActivityIndicator,
+} from 'react-native';
+import { useNavigation } from '@react-navigation/native';
+import { NativeStackNavigationProp } from '@react-navigation/native-stack';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { useQueryClient } from '@tanstack/react-query';
+import { Ionicons } from '@expo/vector-icons';
+import * as DocumentPicker from 'expo-document-picker';
+import * as FileSystem from 'expo-file-system';
+import { useTheme } from '@/hooks/useTheme';
+import { COLORS, FONT_WEIGHTS } from '@/constants/theme';
+import { mapErrorCodeToMessage, getErrorTitle } from '@/utils/errorMapping';
+import { ApiError } from '@/services/api/errors';
+import {
+  DataImportFormat,
+  DataImportReport,
+  RootStackParamList,
+} from '@/types';
+import {
+  DATA_IMPORT_ENTITIES,
+  dataImportApi,
+  detectDataImportFormat,
+  exceedsDataImportTaskLimit,
+  formatEntityCount,
+  getDataImportTotals,
+  groupDataImportIssues,
+} from '@/features/data-management/services/dataImport';
+
+type ImportDataNavigationProp = NativeStackNavigationProp<RootStackParamList>;
+
+interface ImportFile {
+  name: string;
+  format: DataImportFormat;
+  content: string;
+}
+
+// Labels shown per issue group before "and N more"
+const MAX_LISTED_LABELS = 3;
+
+const showImportError = (error: unknown) => {
+  if (error instanceof ApiError && error.code === 'INVALID_INPUT') {
+    Alert.alert(
+      'Not an ELARO export',
+      'Choose the .json or .csv file of an ELARO data export.',
+    );
+    return;
+  }
+  Alert.alert(getErrorTitle(error), mapErrorCodeToMessage(error));
+};
+
+const ImportDataScreen = () => {
+  const navigation = useNavigation<ImportDataNavigationProp>();
+  const queryClient = useQueryClient();
+  const insets = useSafeAreaInsets();
+  const { theme } = useTheme();
+
+  const [file, setFile] = useState<ImportFile | null>(null);
+  const [report, setReport] = useState<DataImportReport | null>(null);
+  const [isChecking, setIsChecking] = useState(false);
+  const [isImporting, setIsImporting] = useState(false);
+
+  const handlePickFile = useCallback(async () => {
+    const result = await DocumentPicker.getDocumentAsync({
+      type: ['application/json', 'text/csv', 'text/plain'],
+      copyToCacheDirectory: true,
+    });
+    if (result.canceled || !result.assets?.[0]) return;
+
+    const asset = result.assets[0];
+    setIsChecking(true);
+    try {
+      const content = await FileSystem.readAsStringAsync(asset.uri, {
+        encoding: FileSystem.EncodingType.UTF8,
+      });
+      const format = detectDataImportFormat(asset.name, content);
+      if (!format) {
+        Alert.alert(
+          'Not an ELARO export',
+          'Choose the .json or .csv file of an ELARO data export.',
+        );
+        return;
+      }
+
+      setReport(await dataImportApi.preview(format, content));
+      setFile({ name: asset.name, format, content });
+    } catch (error) {
+      showImportError(error);
+    } finally {
+      setIsChecking(false);
+    }
+  }, []);
+
+  const handleImport = useCallback(async () => {
+    if (!file) return;
+
+    setIsImporting(true);
+    try {
+      const result = await dataImportApi.import(file.format, file.content);
+      await queryClient.invalidateQueries();
+
+      Alert.alert(
+        'Data imported',
+        `Added ${getDataImportTotals(result).create} items to your account.`,
+        [{ text: 'OK', onPress: () => navigation.goBack() }],
+      );
+    } catch (error) {
+      showImportError(error);
+    } finally {
+      setIsImporting(false);
+    }
+  }, [file, queryClient, navigation]);
+
+  const reset = useCallback(() => {
+    setFile(null);
+    setReport(null);
+  }, []);
+
+  const totals = useMemo(
+    () => (report ? getDataImportTotals(report) : null),
+    [report],
+  );
+  const issueGroups = useMemo(
+    () => (report ? groupDataImportIssues(report.issues) : []),
+    [report],
+  );
+  const exceedsLimit = !!report && exceedsDataImportTaskLimit(report);
+
+  const renderFilePicker = () => (
+    <View>
+      <Text style={[styles.intro, { color: theme.textSecondary }]}>
+        Restore your courses, lectures, assignments, study sessions and upcoming
+        reminders from an ELARO data export, in JSON or CSV. Nothing is saved
+        until you have reviewed what will be imported.
+      </Text>
+
+      <TouchableOpacity
+        style={[styles.sourceButton, { borderColor: theme.border }]}
+        onPress={handlePickFile}
+        disabled={isChecking}
+        accessibilityRole="button"
+        accessibilityLabel="Choose an export file">
+        <Ionicons name="document-outline" size={24} color={theme.accent} />
+        <Text style={[styles.sourceButtonText, { color: theme.text }]}>
+          Choose export file
+        </Text>
+      </TouchableOpacity>
+
+      {isChecking && (
+        <ActivityIndicator
+          style={styles.loader}
+          size="large"
+          color={theme.accent}
+        />
+      )}
+    </View>
+  );
+
+  const renderReport = (data: DataImportReport) => (
+    <View>
+      <Text style={[styles.fileName, { color: theme.textSecondary }]}>
+        {file?.name}
+      </Text>
+
+      {data.task_limit && (
+        <View
+          style={[
+            styles.banner,
+            { backgroundColor: exceedsLimit ? '#FEF2F2' : '#EFF6FF' },
+          ]}>
+          <Text
+            style={[
+              styles.bannerText,
+              { color: exceedsLimit ? '#B91C1C' : '#1D4ED8' },
+            ]}>
+            {`Free plan: ${data.task_limit.required} of these tasks were added in the past week, and you can add ${Math.max(0, data.task_limit.limit - data.task_limit.used)} more this week.`}
+          </Text>
+          {exceedsLimit && (
+            <TouchableOpacity
+              onPress={() =>
+                navigation.navigate('PaywallScreen', { variant: 'general' })
+              }
+              accessibilityRole="button">
+              <Text style={styles.bannerLink}>Upgrade for unlimited</Text>
+            </TouchableOpacity>
+          )}
+        </View>
+      )}
+
+      <View
+        style={[
+          styles.card,
+          { backgroundColor: theme.surface, borderColor: theme.border },
+        ]}>
+        <Text style={[styles.cardTitle, { color: theme.text }]}>
+          Will be created
+        </Text>
+        {totals?.create === 0 ? (
+          <Text style={[styles.rowText, { color: theme.textSecondary }]}>
+            Nothing new to import.
+          </Text>
+        ) : (
+          DATA_IMPORT_ENTITIES.filter(type => data.counts[type].create > 0).map(
+            type => (
+              <View key={type} style={styles.row}>
+                <Ionicons
+                  name="add-circle-outline"
+                  size={18}
+                  color={COLORS.success}
+                />
+                <Text style={[styles.rowText, { color: theme.text }]}>
+                  {formatEntityCount(type, data.counts[type].create)}
+                </Text>
+              </View>
+            ),
+          )
+        )}
+      </View>
+
+      {issueGroups.length > 0 && (
+        <View
+          style={[
+            styles.card,
+            { backgroundColor: theme.surface, borderColor: theme.border },
+          ]}>
+          <Text style={[styles.cardTitle, { color: theme.text }]}>
+            {`Conflicts (${totals?.conflict ?? 0}) and skipped (${totals?.skip ?? 0})`}
+          </Text>
+          {issueGroups.map(group => {
+            const more = group.labels.length - MAX_LISTED_LABELS;
+            return (
+              <View
+                key={`${group.action}|${group.type}|${group.reason}`}
+                style={styles.row}>
+                <Ionicons
+                  name={
+                    group.action === 'conflict'
+                      ? 'git-merge-outline'
+                      : 'remove-circle-outline'
+                  }
+                  size={18}
+                  color={
+                    group.action === 'conflict'
+                      ? COLORS.warning
+                      : theme.textSecondary
+                  }
+                />
+                <View style={styles.issueInfo}>
+                  <Text style={[styles.rowText, { color: theme.text }]}>
+                    {`${formatEntityCount(group.type, group.labels.length)} ${group.action === 'conflict' ? 'conflicting' : 'skipped'}: ${group.reason}`}
+                  </Text>
+                  <Text
+                    style={[styles.issueLabels, { color: theme.textSecondary }]}
+                    numberOfLines={2}>
+                    {group.labels.slice(0, MAX_LISTED_LABELS).join(', ')}
+                    {more > 0 ? ` and ${more} more` : ''}
+                  </Text>
+                </View>
+              </View>
+            );
+          })}
+        </View>
+      )}
+
+      <TouchableOpacity
+        style={[
+          styles.primaryButton,
+          { backgroundColor: theme.accent },
+          (totals?.create === 0 || exceedsLimit || isImporting) &&
+            styles.buttonDisabled,
+        ]}
+        onPress={handleImport}
+        disabled={totals?.create === 0 || exceedsLimit || isImporting}
+        accessibilityRole="button">
+        {isImporting ? (
+          <ActivityIndicator color={COLORS.white} />
+        ) : (
+          <Text style={styles.primaryButtonText}>
+            {`Import ${totals?.create ?? 0} item${totals?.create === 1 ? '' : 's'}`}
+          </Text>
+        )}
+      </TouchableOpacity>
+
+      <TouchableOpacity
+        style={styles.secondaryButton}
+        onPress={reset}
+        disabled={isImporting}
+        accessibilityRole="button">
+        <Text style={[styles.secondaryButtonText, { color: theme.accent }]}>
+          Choose a different file
+        </Text>
+      </TouchableOpacity>
+    </View>
+  );
+
+  return (
+    <ScrollView
+      style={[styles.container, { backgroundColor: theme.background }]}
+      contentContainerStyle={[
+        styles.content,
+        { paddingBottom: insets.bottom + 24 },
+      ]}>
+      {report ? renderReport(report) : renderFilePicker()}
+    </ScrollView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  content: {
+    padding: 16,
+  },
+  intro: {
+    fontSize: 15,
+    lineHeight: 22,
+    marginBottom: 24,
+  },
+  sourceButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    borderWidth: 1,
+    borderStyle: 'dashed',
+    borderRadius: 12,
+    paddingVertical: 20,
+  },
+  sourceButtonText: {
+    fontSize: 16,
+    fontWeight: FONT_WEIGHTS.semibold,
+    marginLeft: 8,
+  },
+  loader: {
+    marginTop: 24,
+  },
+  fileName: {
+    fontSize: 13,
+    marginBottom: 12,
+  },
+  banner: {
+    borderRadius: 12,
+    padding: 12,
+    marginBottom: 12,
+  },
+  bannerText: {
+    fontSize: 14,
+    lineHeight: 20,
+  },
+  bannerLink: {
+    color: COLORS.primary,
+    fontSize: 14,
+    fontWeight: FONT_WEIGHTS.semibold,
+    marginTop: 6,
+  },
+  card: {
+    borderWidth: 1,
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 12,
+  },
+  cardTitle: {
+    fontSize: 17,
+    fontWeight: FONT_WEIGHTS.semibold,
+    marginBottom: 8,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    paddingVertical: 6,
+  },
+  rowText: {
+    flex: 1,
+    fontSize: 15,
+    marginLeft: 8,
+  },
+  issueInfo: {
+    flex: 1,
+  },
+  issueLabels: {
+    fontSize: 13,
+    marginLeft: 8,
+    marginTop: 2,
+  },
+  primaryButton: {
+    borderRadius: 12,
+    paddingVertical: 14,
+    alignItems: 'center',
+    marginTop: 4,
+  },
+  primaryButtonText: {
+    color: COLORS.white,
+    fontSize: 16,
+    fontWeight: FONT_WEIGHTS.semibold,
+  },
+  buttonDisabled: {
+    opacity: 0.5,
+  },
+  secondaryButton: {
+    paddingVertical: 14,
+    alignItems: 'center',
+  },
+  secondaryButtonText: {
+    fontSize: 15,
+    fontWeight: FONT_WEIGHTS.medium,
+  },
+});
+
+export default ImportDataScreen;
@@ -1 +1,2 @@
 export * from './RecycleBinScreen';
+export { default as ImportDataScreen } from './ImportDataScreen';
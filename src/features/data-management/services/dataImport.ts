@@ -0,0 +1,142 @@
+import { ApiError, handleApiError } from '@/services/api/errors';
+import { invokeEdgeFunctionWithAuth } from '@/utils/invokeEdgeFunction';
+import {
+  DataImportAction,
+  DataImportEntity,
+  DataImportFormat,
+  DataImportIssue,
+  DataImportReport,
+  DataImportRequest,
+} from '@/types';
+
+/** Parents before children, the order the import creates them in */
+export const DATA_IMPORT_ENTITIES: DataImportEntity[] = [
+  'term',
+  'course',
+  'lecture',
+  'assignment',
+  'study_session',
+  'reminder',
+];
+
+const ENTITY_NAMES: Record<DataImportEntity, [string, string]> = {
+  term: ['term', 'terms'],
+  course: ['course', 'courses'],
+  lecture: ['lecture', 'lectures'],
+  assignment: ['assignment', 'assignments'],
+  study_session: ['study session', 'study sessions'],
+  reminder: ['reminder', 'reminders'],
+};
+
+export interface DataImportIssueGroup {
+  type: DataImportEntity;
+  action: DataImportIssue['action'];
+  reason: string;
+  labels: string[];
+}
+
+/** "1 course", "3 study sessions" */
+export const formatEntityCount = (
+  type: DataImportEntity,
+  count: number,
+): string => `${count} ${ENTITY_NAMES[type][count === 1 ? 0 : 1]}`;
+
+/**
+ * Format of an export file, from its name or else its first line
+ */
+export const detectDataImportFormat = (
+  fileName: string,
+  content: string,
+): DataImportFormat | null => {
+  const extension = fileName.split('.').pop()?.toLowerCase();
+  if (extension === 'json' || extension === 'csv') return extension;
+
+  const firstLine = content.trimStart().split('\n')[0] ?? '';
+  if (firstLine.startsWith('{')) return 'json';
+  if (firstLine.split(',').includes('type')) return 'csv';
+  return null;
+};
+
+const runImport = async (request: DataImportRequest) => {
+  try {
+    const { data, error } = await invokeEdgeFunctionWithAuth<DataImportReport>(
+      'import-user-data',
+      { body: request },
+    );
+
+    if (error || !data) {
+      throw new ApiError(
+        error?.context?.error || error?.message || 'Failed to import data',
+        error?.context?.code,
+        error?.context?.details,
+        error,
+      );
+    }
+
+    return data;
+  } catch (error) {
+    throw handleApiError(error);
+  }
+};
+
+export const dataImportApi = {
+  /**
+   * Check an export file and report what importing it would do, without
+   * saving anything
+   */
+  preview: (format: DataImportFormat, content: string) =>
+    runImport({ format, content, dry_run: true }),
+
+  /**
+   * Import an export file into the signed-in account
+   */
+  import: (format: DataImportFormat, content: string) =>
+    runImport({ format, content, dry_run: false }),
+};
+
+export const getDataImportTotals = (
+  report: DataImportReport,
+): Record<DataImportAction, number> =>
+  DATA_IMPORT_ENTITIES.reduce(
+    (totals, type) => ({
+      create: totals.create + report.counts[type].create,
+      skip: totals.skip + report.counts[type].skip,
+      conflict: totals.conflict + report.counts[type].conflict,
+    }),
+    { create: 0, skip: 0, conflict: 0 },
+  );
+
+/**
+ * Skipped and conflicting records grouped by what they are and why, so a
+ * thousand sent reminders show up as one line. Conflicts come first, then
+ * larger groups.
+ */
+export const groupDataImportIssues = (
+  issues: DataImportIssue[],
+): DataImportIssueGroup[] => {
+  const groups = new Map<string, DataImportIssueGroup>();
+  issues.forEach(issue => {
+    const key = `${issue.action}|${issue.type}|${issue.reason}`;
+    const group = groups.get(key) ?? {
+      type: issue.type,
+      action: issue.action,
+      reason: issue.reason,
+      labels: [],
+    };
+    group.labels.push(issue.label);
+    groups.set(key, group);
+  });
+
+  return [...groups.values()].sort(
+    (a, b) =>
+      Number(b.action === 'conflict') - Number(a.action === 'conflict') ||
+      b.labels.length - a.labels.length ||
+      DATA_IMPORT_ENTITIES.indexOf(a.type) -
+        DATA_IMPORT_ENTITIES.indexOf(b.type),
+  );
+};
+
+/** Free plan: whether the import would go over the weekly task limit */
+export const exceedsDataImportTaskLimit = (report: DataImportReport) =>
+  !!report.task_limit &&
+  report.task_limit.used + report.task_limit.required > report.task_limit.limit;
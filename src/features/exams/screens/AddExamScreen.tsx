@@ -0,0 +1,583 @@
+import React, { useCallback, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  ScrollView,
+  Modal,
+  Alert,
+  ActivityIndicator,
+} from 'react-native';
+import { useNavigation, useRoute, RouteProp } from '@react-navigation/native';
+import { StackNavigationProp } from '@react-navigation/stack';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
+import { useTheme } from '@/hooks/useTheme';
+import { useTermCourses } from '@/hooks/useTerms';
+import {
+  useAcceptExamRevision,
+  useCreateExam,
+  useExamRevisionPlan,
+} from '@/hooks/useExams';
+import { Input, CardBasedDateTimePicker } from '@/shared/components';
+import { COLORS, FONT_WEIGHTS } from '@/constants/theme';
+import { mapErrorCodeToMessage, getErrorTitle } from '@/utils/errorMapping';
+import { formatReminderLabel } from '@/utils/reminderUtils';
+import { formatStudyMinutes } from '@/utils/studyPlan';
+import {
+  addExamTopics,
+  DEFAULT_EXAM_DURATION_MINUTES,
+  describeExamRevisionPlan,
+  EXAM_DURATION_OPTIONS,
+  MAX_EXAM_TOPICS,
+} from '@/utils/exams';
+import { Course, Exam, RootStackParamList } from '@/types';
+
+type AddExamScreenNavigationProp = StackNavigationProp<RootStackParamList>;
+type AddExamScreenRouteProp = RouteProp<RootStackParamList, 'AddExamFlow'>;
+
+/** Reminders offered for an exam, in minutes before it starts */
+const EXAM_REMINDER_OPTIONS = [60, 1440, 4320, 10080];
+const MAX_EXAM_REMINDERS = 3;
+
+const defaultExamDate = () => {
+  const date = new Date();
+  date.setDate(date.getDate() + 14);
+  date.setHours(9, 0, 0, 0);
+  return date;
+};
+
+const AddExamScreen = () => {
+  const navigation = useNavigation<AddExamScreenNavigationProp>();
+  const route = useRoute<AddExamScreenRouteProp>();
+  const insets = useSafeAreaInsets();
+  const { theme } = useTheme();
+  const { data: courses = [], isLoading: isLoadingCourses } = useTermCourses();
+  const createExam = useCreateExam();
+  const revisionPlan = useExamRevisionPlan();
+  const acceptRevision = useAcceptExamRevision();
+
+  const initialData = route.params?.initialData;
+  const [selectedCourse, setSelectedCourse] = useState<Course | null>(
+    initialData?.course || null,
+  );
+  const [title, setTitle] = useState(initialData?.title || '');
+  const [examDate, setExamDate] = useState<Date>(() =>
+    initialData?.dateTime ? new Date(initialData.dateTime) : defaultExamDate(),
+  );
+  const [durationMinutes, setDurationMinutes] = useState(
+    DEFAULT_EXAM_DURATION_MINUTES,
+  );
+  const [location, setLocation] = useState('');
+  const [topics, setTopics] = useState<string[]>([]);
+  const [topicInput, setTopicInput] = useState('');
+  const [weight, setWeight] = useState('');
+  const [reminders, setReminders] = useState<number[]>([1440]);
+  const [showCourseModal, setShowCourseModal] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const parsedWeight = weight.trim() === '' ? null : Number(weight);
+  const isWeightValid =
+    parsedWeight === null ||
+    (Number.isFinite(parsedWeight) && parsedWeight >= 0 && parsedWeight <= 100);
+  const isFormValid =
+    !!selectedCourse &&
+    title.trim().length > 0 &&
+    examDate.getTime() > Date.now() &&
+    isWeightValid;
+
+  const handleDateChange = (date: Date) => {
+    const next = new Date(date);
+    next.setHours(examDate.getHours(), examDate.getMinutes(), 0, 0);
+    setExamDate(next);
+  };
+
+  const handleTimeChange = (time: Date) => {
+    const next = new Date(examDate);
+    next.setHours(time.getHours(), time.getMinutes(), 0, 0);
+    setExamDate(next);
+  };
+
+  const handleAddTopics = () => {
+    setTopics(prev => addExamTopics(prev, topicInput));
+    setTopicInput('');
+  };
+
+  const toggleReminder = (minutes: number) => {
+    setReminders(prev =>
+      prev.includes(minutes)
+        ? prev.filter(value => value !== minutes)
+        : prev.length < MAX_EXAM_REMINDERS
+          ? [...prev, minutes].sort((a, b) => a - b)
+          : prev,
+    );
+  };
+
+  // Offers the back-scheduled revision plan for a newly added exam
+  const offerRevisionPlan = useCallback(
+    async (exam: Exam) => {
+      const done = () => navigation.goBack();
+      let summary: string | null = null;
+      let reviewsEnabled = true;
+      try {
+        const plan = await revisionPlan.mutateAsync(exam.id);
+        summary = describeExamRevisionPlan(plan);
+        reviewsEnabled = plan.reviews_enabled;
+      } catch (planError) {
+        console.warn('Failed to plan exam revision:', planError);
+      }
+
+      if (!summary) {
+        Alert.alert('Exam added', `${exam.title} is on your calendar.`, [
+          { text: 'OK', onPress: done },
+        ]);
+        return;
+      }
+
+      Alert.alert(
+        'Plan your revision?',
+        `We can add ${summary}, one session per topic.` +
+          (reviewsEnabled
+            ? ''
+            : ' Upgrade to add spaced-repetition reviews as well.'),
+        [
+          { text: 'Not now', style: 'cancel', onPress: done },
+          {
+            text: 'Create revision plan',
+            onPress: async () => {
+              try {
+                const result = await acceptRevision.mutateAsync(exam.id);
+                const created = result.created.length;
+                Alert.alert(
+                  'Revision planned',
+                  `Added ${created} study session${created === 1 ? '' : 's'}` +
+                    (result.review_count > 0
+                      ? ` and ${result.review_count} review${result.review_count === 1 ? '' : 's'}.`
+                      : '.'),
+                  [{ text: 'OK', onPress: done }],
+                );
+              } catch (acceptError) {
+                Alert.alert(
+                  getErrorTitle(acceptError),
+                  mapErrorCodeToMessage(acceptError),
+                  [{ text: 'OK', onPress: done }],
+                );
+              }
+            },
+          },
+        ],
+      );
+    },
+    [navigation, revisionPlan, acceptRevision],
+  );
+
+  const handleSave = async () => {
+    if (!isFormValid || !selectedCourse) return;
+
+    setIsSaving(true);
+    try {
+      const pendingTopics = addExamTopics(topics, topicInput);
+      const exam = await createExam.mutateAsync({
+        course_id: selectedCourse.id,
+        title: title.trim(),
+        exam_date: examDate.toISOString(),
+        duration_minutes: durationMinutes,
+        location: location.trim() || null,
+        topics: pendingTopics,
+        weight: parsedWeight,
+        reminders,
+      });
+      await offerRevisionPlan(exam);
+    } catch (saveError) {
+      Alert.alert(getErrorTitle(saveError), mapErrorCodeToMessage(saveError));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const renderChip = (
+    key: string | number,
+    label: string,
+    selected: boolean,
+    onPress: () => void,
+  ) => (
+    <TouchableOpacity
+      key={key}
+      style={[
+        styles.chip,
+        {
+          borderColor: selected ? theme.accent : theme.border,
+          backgroundColor: selected ? theme.accent + '1A' : theme.surface,
+        },
+      ]}
+      onPress={onPress}
+      accessibilityRole="button"
+      accessibilityState={{ selected }}>
+      <Text
+        style={[
+          styles.chipText,
+          { color: selected ? theme.accent : theme.text },
+        ]}>
+        {label}
+      </Text>
+    </TouchableOpacity>
+  );
+
+  return (
+    <View
+      style={[
+        styles.container,
+        { backgroundColor: theme.background, paddingTop: insets.top },
+      ]}>
+      <View style={[styles.header, { borderBottomColor: theme.border }]}>
+        <TouchableOpacity
+          onPress={() => navigation.goBack()}
+          style={styles.headerButton}
+          accessibilityRole="button"
+          accessibilityLabel="Close">
+          <Ionicons name="close" size={24} color={theme.text} />
+        </TouchableOpacity>
+        <Text style={[styles.headerTitle, { color: theme.text }]}>
+          New Exam
+        </Text>
+        <View style={styles.headerButton} />
+      </View>
+
+      <ScrollView
+        style={styles.scrollView}
+        contentContainerStyle={[
+          styles.content,
+          { paddingBottom: insets.bottom + 24 },
+        ]}
+        keyboardShouldPersistTaps="handled">
+        <View style={styles.field}>
+          <Text style={[styles.label, { color: theme.text }]}>Course</Text>
+          <TouchableOpacity
+            style={[
+              styles.selectButton,
+              { backgroundColor: theme.surface, borderColor: theme.border },
+            ]}
+            onPress={() => setShowCourseModal(true)}
+            disabled={isLoadingCourses}>
+            <Text
+              style={[
+                styles.selectButtonText,
+                { color: selectedCourse ? theme.text : theme.textSecondary },
+              ]}>
+              {isLoadingCourses
+                ? 'Loading courses...'
+                : selectedCourse?.courseName || 'Select Course'}
+            </Text>
+            <Ionicons name="chevron-down" size={20} color={theme.text} />
+          </TouchableOpacity>
+        </View>
+
+        <View style={styles.field}>
+          <Input
+            label="Title"
+            value={title}
+            onChangeText={setTitle}
+            placeholder="e.g., Midterm exam"
+            maxLength={200}
+          />
+        </View>
+
+        <View style={styles.field}>
+          <CardBasedDateTimePicker
+            date={examDate}
+            time={examDate}
+            onDateChange={handleDateChange}
+            onTimeChange={handleTimeChange}
+            label="Exam Date & Time"
+          />
+        </View>
+
+        <View style={styles.field}>
+          <Text style={[styles.label, { color: theme.text }]}>Duration</Text>
+          <View style={styles.chips}>
+            {EXAM_DURATION_OPTIONS.map(minutes =>
+              renderChip(
+                minutes,
+                formatStudyMinutes(minutes),
+                durationMinutes === minutes,
+                () => setDurationMinutes(minutes),
+              ),
+            )}
+          </View>
+        </View>
+
+        <View style={styles.field}>
+          <Input
+            label="Location"
+            value={location}
+            onChangeText={setLocation}
+            placeholder="e.g., Main Hall, room 2"
+            maxLength={200}
+          />
+        </View>
+
+        <View style={styles.field}>
+          <Input
+            label="Topics covered"
+            value={topicInput}
+            onChangeText={setTopicInput}
+            onSubmitEditing={handleAddTopics}
+            placeholder="e.g., Limits, Derivatives"
+            rightIcon="add-circle-outline"
+            onRightIconPress={handleAddTopics}
+            helperText={`Each topic gets its own revision session (up to ${MAX_EXAM_TOPICS})`}
+            returnKeyType="done"
+          />
+          {topics.length > 0 && (
+            <View style={styles.chips}>
+              {topics.map(topic => (
+                <TouchableOpacity
+                  key={topic}
+                  style={[
+                    styles.chip,
+                    styles.topicChip,
+                    {
+                      borderColor: theme.border,
+                      backgroundColor: theme.surface,
+                    },
+                  ]}
+                  onPress={() =>
+                    setTopics(prev => prev.filter(value => value !== topic))
+                  }
+                  accessibilityRole="button"
+                  accessibilityLabel={`Remove ${topic}`}>
+                  <Text style={[styles.chipText, { color: theme.text }]}>
+                    {topic}
+                  </Text>
+                  <Ionicons
+                    name="close"
+                    size={14}
+                    color={theme.textSecondary}
+                  />
+                </TouchableOpacity>
+              ))}
+            </View>
+          )}
+        </View>
+
+        <View style={styles.field}>
+          <Input
+            label="Weight (% of course grade)"
+            value={weight}
+            onChangeText={setWeight}
+            placeholder="e.g., 40"
+            keyboardType="decimal-pad"
+            error={isWeightValid ? undefined : 'Enter a number from 0 to 100'}
+          />
+        </View>
+
+        <View style={styles.field}>
+          <Text style={[styles.label, { color: theme.text }]}>Reminders</Text>
+          <View style={styles.chips}>
+            {EXAM_REMINDER_OPTIONS.map(minutes =>
+              renderChip(
+                minutes,
+                formatReminderLabel(minutes),
+                reminders.includes(minutes),
+                () => toggleReminder(minutes),
+              ),
+            )}
+          </View>
+        </View>
+
+        <TouchableOpacity
+          style={[
+            styles.saveButton,
+            { backgroundColor: theme.accent },
+            (!isFormValid || isSaving) && styles.buttonDisabled,
+          ]}
+          onPress={handleSave}
+          disabled={!isFormValid || isSaving}
+          accessibilityRole="button">
+          {isSaving ? (
+            <ActivityIndicator color={COLORS.white} />
+          ) : (
+            <Text style={styles.saveButtonText}>Save Exam</Text>
+          )}
+        </TouchableOpacity>
+      </ScrollView>
+
+      <Modal
+        visible={showCourseModal}
+        transparent
+        animationType="fade"
+        onRequestClose={() => setShowCourseModal(false)}>
+        <TouchableOpacity
+          style={styles.modalOverlay}
+          activeOpacity={1}
+          onPress={() => setShowCourseModal(false)}>
+          <View
+            style={[styles.modalContent, { backgroundColor: theme.surface }]}>
+            <Text style={[styles.modalTitle, { color: theme.text }]}>
+              Select Course
+            </Text>
+            <ScrollView>
+              {courses.length === 0 ? (
+                <TouchableOpacity
+                  style={styles.courseOption}
+                  onPress={() => {
+                    setShowCourseModal(false);
+                    navigation.navigate('AddCourseFlow');
+                  }}>
+                  <Text style={[styles.courseName, { color: theme.accent }]}>
+                    Add a course first
+                  </Text>
+                </TouchableOpacity>
+              ) : (
+                courses.map(course => (
+                  <TouchableOpacity
+                    key={course.id}
+                    style={[
+                      styles.courseOption,
+                      selectedCourse?.id === course.id && {
+                        backgroundColor: theme.accent + '1A',
+                      },
+                    ]}
+                    onPress={() => {
+                      setSelectedCourse(course);
+                      setShowCourseModal(false);
+                    }}>
+                    <Text style={[styles.courseName, { color: theme.text }]}>
+                      {course.courseName}
+                    </Text>
+                    {course.courseCode && (
+                      <Text
+                        style={[
+                          styles.courseCode,
+                          { color: theme.textSecondary },
+                        ]}>
+                        {course.courseCode}
+                      </Text>
+                    )}
+                  </TouchableOpacity>
+                ))
+              )}
+            </ScrollView>
+          </View>
+        </TouchableOpacity>
+      </Modal>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 8,
+    paddingVertical: 8,
+    borderBottomWidth: 1,
+  },
+  headerButton: {
+    width: 40,
+    height: 40,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  headerTitle: {
+    fontSize: 18,
+    fontWeight: FONT_WEIGHTS.semibold,
+  },
+  scrollView: {
+    flex: 1,
+  },
+  content: {
+    padding: 16,
+  },
+  field: {
+    marginBottom: 20,
+  },
+  label: {
+    fontSize: 15,
+    fontWeight: FONT_WEIGHTS.medium,
+    marginBottom: 8,
+  },
+  selectButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    borderWidth: 1,
+    borderRadius: 12,
+    paddingHorizontal: 16,
+    paddingVertical: 14,
+  },
+  selectButtonText: {
+    fontSize: 16,
+  },
+  chips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    marginTop: 4,
+  },
+  chip: {
+    borderWidth: 1,
+    borderRadius: 16,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    marginRight: 8,
+    marginBottom: 8,
+  },
+  topicChip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+  },
+  chipText: {
+    fontSize: 14,
+  },
+  saveButton: {
+    borderRadius: 12,
+    paddingVertical: 14,
+    alignItems: 'center',
+    marginTop: 8,
+  },
+  saveButtonText: {
+    color: COLORS.white,
+    fontSize: 16,
+    fontWeight: FONT_WEIGHTS.semibold,
+  },
+  buttonDisabled: {
+    opacity: 0.5,
+  },
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'center',
+    padding: 24,
+  },
+  modalContent: {
+    borderRadius: 16,
+    padding: 16,
+    maxHeight: '70%',
+  },
+  modalTitle: {
+    fontSize: 18,
+    fontWeight: FONT_WEIGHTS.semibold,
+    marginBottom: 12,
+  },
+  courseOption: {
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 12,
+  },
+  courseName: {
+    fontSize: 16,
+    fontWeight: FONT_WEIGHTS.medium,
+  },
+  courseCode: {
+    fontSize: 13,
+    marginTop: 2,
+  },
+});
+
+export default AddExamScreen;
@@ -43,8 +43,13 @@ import {
   LectureOptionalFields,
   ReminderModal,
 } from './components';
+import {
+  buildRecurringPattern,
+  LectureRecurrence,
+  NO_RECURRENCE,
+  parseLectureRecurrence,
+} from '@/utils/lectureRecurrence';
 
-type RecurrenceType = 'none' | 'weekly' | 'bi-weekly';
 type AddLectureScreenNavigationProp = StackNavigationProp<RootStackParamList>;
 type AddLectureScreenRouteProp = RouteProp<
   RootStackParamList,
@@ -102,7 +107,8 @@ const AddLectureScreen = () => {
     return end;
   });
   const [venue, setVenue] = useState('');
-  const [recurrence, setRecurrence] = useState<RecurrenceType>('none');
+  const [recurrence, setRecurrence] =
+    useState<LectureRecurrence>(NO_RECURRENCE);
 
   // Reminders hook
   const { reminders, addReminder, removeReminder, setReminders } = useReminders(
@@ -135,8 +141,12 @@ const AddLectureScreen = () => {
           setSelectedCourse(course);
         }
       }
-      if (templateData.recurrence) {
-        setRecurrence(templateData.recurrence);
+      if (templateData.recurring_pattern || templateData.recurrence) {
+        setRecurrence(
+          parseLectureRecurrence(
+            templateData.recurring_pattern ?? templateData.recurrence,
+          ),
+        );
       }
       if (templateData.reminders) {
         setReminders(templateData.reminders);
@@ -165,8 +175,8 @@ const AddLectureScreen = () => {
         setLectureName(taskToEdit.name);
       } else if (taskToEdit.title) {
         setLectureName(taskToEdit.title);
-      } else if ((taskToEdit as any).lecture_name) {
-        setLectureName((taskToEdit as any).lecture_name);
+      } else if (taskToEdit.lecture_name) {
+        setLectureName(taskToEdit.lecture_name);
       }
 
       if (taskToEdit.date) {
@@ -182,6 +192,15 @@ const AddLectureScreen = () => {
         end.setHours(end.getHours() + 1);
         setEndTime(end);
       }
+
+      if (taskToEdit.recurring_pattern) {
+        setRecurrence(
+          parseLectureRecurrence(
+            taskToEdit.recurring_pattern,
+            taskToEdit.is_recurring ?? true,
+          ),
+        );
+      }
     }
   }, [taskToEdit, courses]);
 
@@ -202,7 +221,7 @@ const AddLectureScreen = () => {
         if (draft.endTime) {
           setEndTime(new Date(draft.endTime));
         }
-        setRecurrence(draft.recurrence || 'none');
+        setRecurrence(parseLectureRecurrence(draft.recurrence));
         if (draft.reminders) {
           setReminders(draft.reminders);
         }
@@ -212,6 +231,8 @@ const AddLectureScreen = () => {
     loadDraft();
   }, [initialData, taskToEdit, setReminders]);
 
+  const recurringPattern = buildRecurringPattern(recurrence, startTime);
+
   // Auto-save draft when form data changes (debounced)
   useEffect(() => {
     if (!selectedCourse) return;
@@ -223,7 +244,7 @@ const AddLectureScreen = () => {
         dateTime: startTime,
         endTime,
         venue,
-        recurrence,
+        recurrence: recurringPattern ?? 'none',
         reminders,
       });
     }, 1000);
@@ -239,7 +260,7 @@ const AddLectureScreen = () => {
     startTime,
     endTime,
     venue,
-    recurrence,
+    recurringPattern,
     reminders,
   ]);
 
@@ -305,7 +326,7 @@ const AddLectureScreen = () => {
           title: lectureName,
           startTime,
           endTime,
-          recurrence,
+          recurrence: recurringPattern ?? 'none',
           reminders,
         },
         'lecture',
@@ -348,8 +369,8 @@ const AddLectureScreen = () => {
         start_time: startTime.toISOString(),
         end_time: endTime.toISOString(),
         venue: venue.trim() || undefined,
-        is_recurring: recurrence !== 'none',
-        recurring_pattern: recurrence,
+        is_recurring: recurringPattern !== null,
+        recurring_pattern: recurringPattern ?? 'none',
         reminders,
       };
 
@@ -499,6 +520,7 @@ const AddLectureScreen = () => {
           onVenueChange={setVenue}
           recurrence={recurrence}
           onRecurrenceChange={setRecurrence}
+          startTime={startTime}
           reminders={reminders}
           onRemindersChange={setReminders}
           onAddReminder={handleAddReminder}
@@ -515,7 +537,7 @@ const AddLectureScreen = () => {
               start_time: startTime,
               end_time: endTime,
               venue,
-              recurrence,
+              recurrence: recurringPattern ?? 'none',
               reminders,
             },
             'lecture',
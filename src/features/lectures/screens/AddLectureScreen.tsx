@@ -2,7 +2,7 @@ import React, { useState, useEffect } from 'react';
 import { View, StyleSheet, ScrollView, Alert } from 'react-native';
 import { useNavigation, useRoute, RouteProp } from '@react-navigation/native';
 import { StackNavigationProp } from '@react-navigation/stack';
-import { RootStackParamList, Course } from '@/types';
+import { RootStackParamList, Course, TaskPriority } from '@/types';
 import { useAuth } from '@/contexts/AuthContext';
 import { useNetwork } from '@/contexts/NetworkContext';
 import { useQueryClient } from '@tanstack/react-query';
@@ -17,6 +17,7 @@ import { mapErrorCodeToMessage, getErrorTitle } from '@/utils/errorMapping';
 import { SPACING } from '@/constants/theme';
 import { saveDraft, getDraft, clearDraft } from '@/utils/draftStorage';
 import { debounce } from '@/utils/debounce';
+import { DEFAULT_TASK_PRIORITY } from '@/utils/taskTags';
 import { TemplateBrowserModal } from '@/shared/components/TemplateBrowserModal';
 import { EmptyStateModal } from '@/shared/components/EmptyStateModal';
 import {
@@ -33,6 +34,7 @@ import {
   CourseModal,
   TaskTemplateSection,
   TaskFormFooter,
+  TaskPriorityTagsSection,
 } from '@/shared/components/task-forms';
 import { useCourseSelector } from '@/shared/hooks/task-forms';
 import { useReminders } from '@/shared/hooks/task-forms';
@@ -43,8 +45,13 @@ import {
   LectureOptionalFields,
   ReminderModal,
 } from './components';
+import {
+  buildRecurringPattern,
+  LectureRecurrence,
+  NO_RECURRENCE,
+  parseLectureRecurrence,
+} from '@/utils/lectureRecurrence';
 
-type RecurrenceType = 'none' | 'weekly' | 'bi-weekly';
 type AddLectureScreenNavigationProp = StackNavigationProp<RootStackParamList>;
 type AddLectureScreenRouteProp = RouteProp<
   RootStackParamList,
@@ -102,7 +109,12 @@ const AddLectureScreen = () => {
     return end;
   });
   const [venue, setVenue] = useState('');
-  const [recurrence, setRecurrence] = useState<RecurrenceType>('none');
+  const [recurrence, setRecurrence] =
+    useState<LectureRecurrence>(NO_RECURRENCE);
+  const [priority, setPriority] = useState<TaskPriority>(
+    initialData?.priority || DEFAULT_TASK_PRIORITY,
+  );
+  const [tagIds, setTagIds] = useState<string[]>(initialData?.tagIds || []);
 
   // Reminders hook
   const { reminders, addReminder, removeReminder, setReminders } = useReminders(
@@ -135,8 +147,12 @@ const AddLectureScreen = () => {
           setSelectedCourse(course);
         }
       }
-      if (templateData.recurrence) {
-        setRecurrence(templateData.recurrence);
+      if (templateData.recurring_pattern || templateData.recurrence) {
+        setRecurrence(
+          parseLectureRecurrence(
+            templateData.recurring_pattern ?? templateData.recurrence,
+          ),
+        );
       }
       if (templateData.reminders) {
         setReminders(templateData.reminders);
@@ -165,8 +181,8 @@ const AddLectureScreen = () => {
         setLectureName(taskToEdit.name);
       } else if (taskToEdit.title) {
         setLectureName(taskToEdit.title);
-      } else if ((taskToEdit as any).lecture_name) {
-        setLectureName((taskToEdit as any).lecture_name);
+      } else if (taskToEdit.lecture_name) {
+        setLectureName(taskToEdit.lecture_name);
       }
 
       if (taskToEdit.date) {
@@ -182,6 +198,21 @@ const AddLectureScreen = () => {
         end.setHours(end.getHours() + 1);
         setEndTime(end);
       }
+
+      if (taskToEdit.recurring_pattern) {
+        setRecurrence(
+          parseLectureRecurrence(
+            taskToEdit.recurring_pattern,
+            taskToEdit.is_recurring ?? true,
+          ),
+        );
+      }
+      if (taskToEdit.priority) {
+        setPriority(taskToEdit.priority);
+      }
+      if (taskToEdit.tag_ids) {
+        setTagIds(taskToEdit.tag_ids);
+      }
     }
   }, [taskToEdit, courses]);
 
@@ -202,16 +233,24 @@ const AddLectureScreen = () => {
         if (draft.endTime) {
           setEndTime(new Date(draft.endTime));
         }
-        setRecurrence(draft.recurrence || 'none');
+        setRecurrence(parseLectureRecurrence(draft.recurrence));
         if (draft.reminders) {
           setReminders(draft.reminders);
         }
+        if (draft.priority) {
+          setPriority(draft.priority);
+        }
+        if (draft.tagIds) {
+          setTagIds(draft.tagIds);
+        }
       }
     };
 
     loadDraft();
   }, [initialData, taskToEdit, setReminders]);
 
+  const recurringPattern = buildRecurringPattern(recurrence, startTime);
+
   // Auto-save draft when form data changes (debounced)
   useEffect(() => {
     if (!selectedCourse) return;
@@ -223,8 +262,10 @@ const AddLectureScreen = () => {
         dateTime: startTime,
         endTime,
         venue,
-        recurrence,
+        recurrence: recurringPattern ?? 'none',
         reminders,
+        priority,
+        tagIds,
       });
     }, 1000);
 
@@ -239,8 +280,10 @@ const AddLectureScreen = () => {
     startTime,
     endTime,
     venue,
-    recurrence,
+    recurringPattern,
     reminders,
+    priority,
+    tagIds,
   ]);
 
   const handleStartTimeChange = (time: Date) => {
@@ -305,7 +348,7 @@ const AddLectureScreen = () => {
           title: lectureName,
           startTime,
           endTime,
-          recurrence,
+          recurrence: recurringPattern ?? 'none',
           reminders,
         },
         'lecture',
@@ -348,9 +391,11 @@ const AddLectureScreen = () => {
         start_time: startTime.toISOString(),
         end_time: endTime.toISOString(),
         venue: venue.trim() || undefined,
-        is_recurring: recurrence !== 'none',
-        recurring_pattern: recurrence,
+        is_recurring: recurringPattern !== null,
+        recurring_pattern: recurringPattern ?? 'none',
         reminders,
+        priority,
+        tag_ids: tagIds,
       };
 
       const isEditing = taskToEdit && taskToEdit.id;
@@ -494,11 +539,19 @@ const AddLectureScreen = () => {
           ]}
         />
 
+        <TaskPriorityTagsSection
+          priority={priority}
+          onPriorityChange={setPriority}
+          tagIds={tagIds}
+          onTagIdsChange={setTagIds}
+        />
+
         <LectureOptionalFields
           venue={venue}
           onVenueChange={setVenue}
           recurrence={recurrence}
           onRecurrenceChange={setRecurrence}
+          startTime={startTime}
           reminders={reminders}
           onRemindersChange={setReminders}
           onAddReminder={handleAddReminder}
@@ -515,7 +568,7 @@ const AddLectureScreen = () => {
               start_time: startTime,
               end_time: endTime,
               venue,
-              recurrence,
+              recurrence: recurringPattern ?? 'none',
               reminders,
             },
             'lecture',
@@ -3,6 +3,7 @@ import { View, Text, StyleSheet } from 'react-native';
 import { TaskRemindersSection } from '@/shared/components/task-forms';
 import { LectureVenueField } from './LectureVenueField';
 import { LectureRecurrenceSection } from './LectureRecurrenceSection';
+import { LectureRecurrence } from '@/utils/lectureRecurrence';
 import { useTheme } from '@/contexts/ThemeContext';
 import { FONT_SIZES, FONT_WEIGHTS, SPACING } from '@/constants/theme';
 
@@ -10,8 +11,9 @@ interface LectureOptionalFieldsProps {
   venue: string;
   onVenueChange: (venue: string) => void;
 
-  recurrence: 'none' | 'weekly' | 'bi-weekly';
-  onRecurrenceChange: (recurrence: 'none' | 'weekly' | 'bi-weekly') => void;
+  recurrence: LectureRecurrence;
+  onRecurrenceChange: (recurrence: LectureRecurrence) => void;
+  startTime: Date;
 
   reminders: number[];
   onRemindersChange: (reminders: number[]) => void;
@@ -23,6 +25,7 @@ export const LectureOptionalFields: React.FC<LectureOptionalFieldsProps> = ({
   onVenueChange,
   recurrence,
   onRecurrenceChange,
+  startTime,
   reminders,
   onRemindersChange,
   onAddReminder,
@@ -44,6 +47,7 @@ export const LectureOptionalFields: React.FC<LectureOptionalFieldsProps> = ({
       <LectureRecurrenceSection
         recurrence={recurrence}
         onRecurrenceChange={onRecurrenceChange}
+        startTime={startTime}
       />
 
       <TaskRemindersSection
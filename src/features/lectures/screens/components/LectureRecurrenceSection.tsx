@@ -1,73 +1,340 @@
-import React from 'react';
-import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  Platform,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import DateTimePicker, {
+  DateTimePickerEvent,
+} from '@react-native-community/datetimepicker';
+import { format } from 'date-fns';
 import { useTheme } from '@/contexts/ThemeContext';
 import { COLORS, FONT_SIZES, FONT_WEIGHTS, SPACING } from '@/constants/theme';
-
-type RecurrenceType = 'none' | 'weekly' | 'bi-weekly';
+import {
+  describeLectureRecurrence,
+  LectureRecurrence,
+  RecurrenceEnd,
+  RecurrenceFrequency,
+  RecurrenceWeekday,
+  RECURRENCE_WEEKDAYS,
+  WEEKDAY_LABELS,
+} from '@/utils/lectureRecurrence';
 
 interface LectureRecurrenceSectionProps {
-  recurrence: RecurrenceType;
-  onRecurrenceChange: (recurrence: RecurrenceType) => void;
+  recurrence: LectureRecurrence;
+  onRecurrenceChange: (recurrence: LectureRecurrence) => void;
+  /** Start of the first lecture, used for defaults */
+  startTime: Date;
 }
 
+const FREQUENCY_OPTIONS: { value: RecurrenceFrequency; label: string }[] = [
+  { value: 'none', label: 'None' },
+  { value: 'daily', label: 'Daily' },
+  { value: 'weekly', label: 'Weekly' },
+  { value: 'monthly', label: 'Monthly' },
+];
+
+const END_OPTIONS: { value: RecurrenceEnd; label: string }[] = [
+  { value: 'never', label: 'Never' },
+  { value: 'until', label: 'On date' },
+  { value: 'count', label: 'After' },
+];
+
+const INTERVAL_UNITS: Record<Exclude<RecurrenceFrequency, 'none'>, string> = {
+  daily: 'day',
+  weekly: 'week',
+  monthly: 'month',
+};
+
+// Monday first, as on most university timetables
+const WEEKDAY_ORDER: RecurrenceWeekday[] = [
+  ...RECURRENCE_WEEKDAYS.slice(1),
+  RECURRENCE_WEEKDAYS[0],
+];
+
+const MAX_INTERVAL = 12;
+const MAX_COUNT = 100;
+const DEFAULT_COUNT = 12;
+const DEFAULT_TERM_WEEKS = 12;
+
+type PickerTarget = 'until' | 'skip' | null;
+
 export const LectureRecurrenceSection: React.FC<
   LectureRecurrenceSectionProps
-> = ({ recurrence, onRecurrenceChange }) => {
+> = ({ recurrence, onRecurrenceChange, startTime }) => {
   const { theme } = useTheme();
+  const [pickerTarget, setPickerTarget] = useState<PickerTarget>(null);
 
-  const recurrenceOptions: RecurrenceType[] = ['none', 'weekly', 'bi-weekly'];
+  const update = (changes: Partial<LectureRecurrence>) =>
+    onRecurrenceChange({ ...recurrence, ...changes });
 
-  return (
-    <View style={styles.field}>
+  const handleFrequencyChange = (frequency: RecurrenceFrequency) => {
+    update({
+      frequency,
+      weekdays:
+        frequency === 'weekly' && recurrence.weekdays.length === 0
+          ? [RECURRENCE_WEEKDAYS[startTime.getDay()]]
+          : recurrence.weekdays,
+    });
+  };
+
+  const toggleWeekday = (day: RecurrenceWeekday) => {
+    const weekdays = recurrence.weekdays.includes(day)
+      ? recurrence.weekdays.filter(selected => selected !== day)
+      : [...recurrence.weekdays, day];
+    // At least one day has to stay selected
+    if (weekdays.length > 0) update({ weekdays });
+  };
+
+  const handleEndChange = (end: RecurrenceEnd) => {
+    if (end === 'until' && !recurrence.until) {
+      const until = new Date(startTime);
+      until.setDate(until.getDate() + DEFAULT_TERM_WEEKS * 7);
+      update({ end, until });
+    } else if (end === 'count' && !recurrence.count) {
+      update({ end, count: DEFAULT_COUNT });
+    } else {
+      update({ end });
+    }
+  };
+
+  const handlePickerChange = (
+    event: DateTimePickerEvent,
+    selectedDate?: Date,
+  ) => {
+    const target = pickerTarget;
+    if (Platform.OS === 'android' || event.type === 'dismissed') {
+      setPickerTarget(null);
+    }
+    if (event.type !== 'set' || !selectedDate) return;
+
+    if (target === 'until') {
+      update({ until: selectedDate });
+    } else if (target === 'skip') {
+      update({ skippedDates: [...recurrence.skippedDates, selectedDate] });
+    }
+    if (Platform.OS === 'ios') setPickerTarget(null);
+  };
+
+  const removeSkippedDate = (index: number) =>
+    update({
+      skippedDates: recurrence.skippedDates.filter((_, i) => i !== index),
+    });
+
+  const renderChip = (
+    key: string,
+    label: string,
+    selected: boolean,
+    onPress: () => void,
+    accessibilityLabel?: string,
+  ) => (
+    <TouchableOpacity
+      key={key}
+      style={[
+        styles.chip,
+        {
+          backgroundColor: selected ? COLORS.primary + '1A' : theme.surface,
+          borderColor: selected ? COLORS.primary + '33' : theme.border,
+        },
+      ]}
+      onPress={onPress}
+      accessibilityRole="button"
+      accessibilityLabel={accessibilityLabel}
+      accessibilityState={{ selected }}>
       <Text
-        style={[styles.label, { color: theme.isDark ? '#FFFFFF' : '#374151' }]}>
-        Recurrence
+        style={[
+          styles.chipText,
+          {
+            color: selected ? COLORS.primary : theme.text,
+            fontWeight: selected ? FONT_WEIGHTS.semibold : FONT_WEIGHTS.medium,
+          },
+        ]}>
+        {label}
       </Text>
-      <View style={styles.recurrenceGrid}>
-        {recurrenceOptions.map(option => {
-          const isSelected = recurrence === option;
-          return (
+    </TouchableOpacity>
+  );
+
+  const renderStepper = (
+    value: number,
+    min: number,
+    max: number,
+    onChange: (value: number) => void,
+    label: string,
+  ) => (
+    <View style={styles.stepper}>
+      <TouchableOpacity
+        onPress={() => onChange(Math.max(min, value - 1))}
+        disabled={value <= min}
+        accessibilityRole="button"
+        accessibilityLabel={`Decrease ${label}`}>
+        <Ionicons
+          name="remove-circle-outline"
+          size={24}
+          color={value <= min ? theme.border : COLORS.primary}
+        />
+      </TouchableOpacity>
+      <Text style={[styles.stepperValue, { color: theme.text }]}>{value}</Text>
+      <TouchableOpacity
+        onPress={() => onChange(Math.min(max, value + 1))}
+        disabled={value >= max}
+        accessibilityRole="button"
+        accessibilityLabel={`Increase ${label}`}>
+        <Ionicons
+          name="add-circle-outline"
+          size={24}
+          color={value >= max ? theme.border : COLORS.primary}
+        />
+      </TouchableOpacity>
+    </View>
+  );
+
+  const summary = describeLectureRecurrence(recurrence);
+  const unit =
+    recurrence.frequency !== 'none' ? INTERVAL_UNITS[recurrence.frequency] : '';
+
+  return (
+    <View style={styles.field}>
+      <Text style={[styles.label, { color: theme.text }]}>Recurrence</Text>
+      <View style={styles.chipRow}>
+        {FREQUENCY_OPTIONS.map(option =>
+          renderChip(
+            option.value,
+            option.label,
+            recurrence.frequency === option.value,
+            () => handleFrequencyChange(option.value),
+          ),
+        )}
+      </View>
+
+      {recurrence.frequency !== 'none' && (
+        <View style={styles.details}>
+          <View style={styles.row}>
+            <Text style={[styles.rowLabel, { color: theme.textSecondary }]}>
+              Every
+            </Text>
+            {renderStepper(
+              recurrence.interval,
+              1,
+              MAX_INTERVAL,
+              interval => update({ interval }),
+              'interval',
+            )}
+            <Text style={[styles.rowLabel, { color: theme.textSecondary }]}>
+              {recurrence.interval === 1 ? unit : `${unit}s`}
+            </Text>
+          </View>
+
+          {recurrence.frequency === 'weekly' && (
+            <View style={styles.chipRow}>
+              {WEEKDAY_ORDER.map(day =>
+                renderChip(
+                  day,
+                  WEEKDAY_LABELS[day].charAt(0),
+                  recurrence.weekdays.includes(day),
+                  () => toggleWeekday(day),
+                  WEEKDAY_LABELS[day],
+                ),
+              )}
+            </View>
+          )}
+
+          <Text style={[styles.subLabel, { color: theme.textSecondary }]}>
+            Ends
+          </Text>
+          <View style={styles.chipRow}>
+            {END_OPTIONS.map(option =>
+              renderChip(
+                option.value,
+                option.label,
+                recurrence.end === option.value,
+                () => handleEndChange(option.value),
+              ),
+            )}
+          </View>
+
+          {recurrence.end === 'until' && recurrence.until && (
             <TouchableOpacity
-              key={option}
-              style={[
-                styles.recurrenceOption,
-                isSelected && styles.recurrenceOptionSelected,
-                {
-                  backgroundColor: isSelected
-                    ? COLORS.primary + '1A'
-                    : theme.isDark
-                      ? '#1C252E'
-                      : '#FFFFFF',
-                  borderColor: isSelected
-                    ? COLORS.primary + '33'
-                    : theme.isDark
-                      ? '#3B4754'
-                      : '#E5E7EB',
-                },
-              ]}
-              onPress={() => onRecurrenceChange(option)}>
-              <Text
-                style={[
-                  styles.recurrenceOptionText,
-                  {
-                    color: isSelected
-                      ? COLORS.primary
-                      : theme.isDark
-                        ? '#FFFFFF'
-                        : '#111418',
-                    fontWeight: isSelected ? '600' : '500',
-                  },
-                ]}>
-                {option === 'none'
-                  ? 'None'
-                  : option === 'weekly'
-                    ? 'Weekly'
-                    : 'Bi-weekly'}
+              style={[styles.dateButton, { borderColor: theme.border }]}
+              onPress={() => setPickerTarget('until')}
+              accessibilityRole="button"
+              accessibilityLabel="Change last date">
+              <Ionicons
+                name="calendar-outline"
+                size={18}
+                color={COLORS.primary}
+              />
+              <Text style={[styles.dateButtonText, { color: theme.text }]}>
+                {format(recurrence.until, 'EEE, d MMM yyyy')}
               </Text>
             </TouchableOpacity>
-          );
-        })}
-      </View>
+          )}
+
+          {recurrence.end === 'count' && (
+            <View style={styles.row}>
+              {renderStepper(
+                recurrence.count ?? DEFAULT_COUNT,
+                1,
+                MAX_COUNT,
+                count => update({ count }),
+                'number of lectures',
+              )}
+              <Text style={[styles.rowLabel, { color: theme.textSecondary }]}>
+                lectures
+              </Text>
+            </View>
+          )}
+
+          <Text style={[styles.subLabel, { color: theme.textSecondary }]}>
+            Skipped dates
+          </Text>
+          <View style={styles.chipRow}>
+            {recurrence.skippedDates.map((date, index) => (
+              <TouchableOpacity
+                key={date.toISOString()}
+                style={[styles.skippedChip, { borderColor: theme.border }]}
+                onPress={() => removeSkippedDate(index)}
+                accessibilityRole="button"
+                accessibilityLabel={`Stop skipping ${format(date, 'd MMMM')}`}>
+                <Text style={[styles.chipText, { color: theme.text }]}>
+                  {format(date, 'd MMM')}
+                </Text>
+                <Ionicons name="close" size={14} color={theme.textSecondary} />
+              </TouchableOpacity>
+            ))}
+            <TouchableOpacity
+              style={[styles.skippedChip, { borderColor: COLORS.primary }]}
+              onPress={() => setPickerTarget('skip')}
+              accessibilityRole="button"
+              accessibilityLabel="Skip a date">
+              <Ionicons name="add" size={14} color={COLORS.primary} />
+              <Text style={[styles.chipText, { color: COLORS.primary }]}>
+                Skip a date
+              </Text>
+            </TouchableOpacity>
+          </View>
+
+          <Text style={[styles.summary, { color: theme.textSecondary }]}>
+            {[summary.title, summary.detail].filter(Boolean).join(' · ')}
+          </Text>
+        </View>
+      )}
+
+      {pickerTarget && (
+        <DateTimePicker
+          value={
+            pickerTarget === 'until' && recurrence.until
+              ? recurrence.until
+              : startTime
+          }
+          minimumDate={startTime}
+          mode="date"
+          display={Platform.OS === 'ios' ? 'spinner' : 'default'}
+          onChange={handlePickerChange}
+        />
+      )}
     </View>
   );
 };
@@ -81,24 +348,76 @@ const styles = StyleSheet.create({
     fontWeight: FONT_WEIGHTS.medium,
     marginBottom: SPACING.sm,
   },
-  recurrenceGrid: {
+  subLabel: {
+    fontSize: FONT_SIZES.xs,
+    fontWeight: FONT_WEIGHTS.medium,
+    marginTop: SPACING.sm,
+  },
+  chipRow: {
     flexDirection: 'row',
+    flexWrap: 'wrap',
     gap: SPACING.sm,
   },
-  recurrenceOption: {
-    flex: 1,
-    paddingVertical: SPACING.md,
-    paddingHorizontal: SPACING.sm,
+  chip: {
+    minWidth: 40,
+    paddingVertical: SPACING.sm,
+    paddingHorizontal: SPACING.md,
     borderRadius: 12,
     borderWidth: 1,
     alignItems: 'center',
     justifyContent: 'center',
   },
-  recurrenceOptionSelected: {
-    borderWidth: 2,
-  },
-  recurrenceOptionText: {
+  chipText: {
     fontSize: FONT_SIZES.sm,
     fontWeight: FONT_WEIGHTS.medium,
   },
+  details: {
+    marginTop: SPACING.md,
+    gap: SPACING.sm,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: SPACING.sm,
+  },
+  rowLabel: {
+    fontSize: FONT_SIZES.sm,
+  },
+  stepper: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: SPACING.xs,
+  },
+  stepperValue: {
+    minWidth: 24,
+    textAlign: 'center',
+    fontSize: FONT_SIZES.md,
+    fontWeight: FONT_WEIGHTS.semibold,
+  },
+  dateButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    alignSelf: 'flex-start',
+    gap: SPACING.sm,
+    paddingVertical: SPACING.sm,
+    paddingHorizontal: SPACING.md,
+    borderRadius: 12,
+    borderWidth: 1,
+  },
+  dateButtonText: {
+    fontSize: FONT_SIZES.sm,
+  },
+  skippedChip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    paddingVertical: 6,
+    paddingHorizontal: SPACING.sm,
+    borderRadius: 16,
+    borderWidth: 1,
+  },
+  summary: {
+    fontSize: FONT_SIZES.xs,
+    marginTop: SPACING.xs,
+  },
 });
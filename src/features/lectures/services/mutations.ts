@@ -1,8 +1,16 @@
 import { supabase } from '@/services/supabase';
 import { Lecture } from '@/types';
-import { CreateLectureRequest, UpdateLectureRequest } from '@/types/api';
-import { handleApiError } from '@/services/api/errors';
+import {
+  CancelLectureOccurrenceRequest,
+  CreateLectureRequest,
+  UpdateLectureOccurrenceRequest,
+  UpdateLectureRequest,
+} from '@/types/api';
+import { ApiError, handleApiError } from '@/services/api/errors';
+import { versionedApiClient } from '@/services/VersionedApiClient';
 import { syncManager } from '@/services/syncManager';
+import { captureUpdateBase } from '@/utils/syncConflicts';
+import { getCachedTask, mergeTaskUpdates } from '@/utils/taskCache';
 import { generateTempId } from '@/utils/uuid';
 import { invokeEdgeFunctionWithAuth } from '@/utils/invokeEdgeFunction';
 
@@ -48,6 +56,8 @@ export const lecturesApiMutations = {
             ? request.recurring_pattern
             : null,
           recurrence_end_date: null,
+          priority: request.priority ?? 'medium',
+          tag_ids: request.tag_ids || [],
           status: 'pending',
           created_at: new Date().toISOString(),
           updated_at: new Date().toISOString(),
@@ -92,9 +102,6 @@ export const lecturesApiMutations = {
         console.log('📴 Offline: Queueing UPDATE lecture action');
 
         // Get cached task data
-        const { getCachedTask, mergeTaskUpdates } = await import(
-          '@/utils/taskCache'
-        );
         const cachedTask = await getCachedTask(lectureId, 'lecture');
 
         if (!cachedTask) {
@@ -114,6 +121,7 @@ export const lecturesApiMutations = {
             type: 'UPDATE',
             id: lectureId,
             data: request,
+            ...captureUpdateBase(cachedTask, request),
           },
           userId,
           { syncImmediately: false },
@@ -123,14 +131,20 @@ export const lecturesApiMutations = {
         return optimisticTask as Lecture;
       }
 
-      // ONLINE MODE: Execute server mutation
+      // ONLINE MODE: Execute server mutation, rejected if the cached copy
+      // the edit was made against is out of date
       console.log('🌐 Online: Updating lecture on server');
+      const { baseVersion } = captureUpdateBase(
+        await getCachedTask(lectureId, 'lecture'),
+        request,
+      );
       const { data, error } = await invokeEdgeFunctionWithAuth(
         'update-lecture',
         {
           body: {
             lecture_id: lectureId,
             ...request,
+            expected_version: baseVersion,
           },
         },
       );
@@ -140,4 +154,54 @@ export const lecturesApiMutations = {
       throw handleApiError(error);
     }
   },
+
+  /**
+   * Edit one occurrence of a recurring lecture, or it and all following ones
+   *
+   * Online only: the server has to split the series
+   */
+  async updateOccurrence(
+    request: UpdateLectureOccurrenceRequest,
+  ): Promise<Record<string, unknown>> {
+    try {
+      const response =
+        await versionedApiClient.updateLectureOccurrence(request);
+
+      if (response.error || !response.data) {
+        throw new ApiError(
+          response.message || response.error || 'Failed to update lecture',
+          response.code,
+        );
+      }
+
+      return response.data;
+    } catch (error) {
+      throw handleApiError(error);
+    }
+  },
+
+  /**
+   * Cancel one occurrence of a recurring lecture, or it and all following ones
+   *
+   * Online only: the server has to split the series
+   */
+  async cancelOccurrence(
+    request: CancelLectureOccurrenceRequest,
+  ): Promise<Record<string, unknown>> {
+    try {
+      const response =
+        await versionedApiClient.cancelLectureOccurrence(request);
+
+      if (response.error || !response.data) {
+        throw new ApiError(
+          response.message || response.error || 'Failed to cancel lecture',
+          response.code,
+        );
+      }
+
+      return response.data;
+    } catch (error) {
+      throw handleApiError(error);
+    }
+  },
 };
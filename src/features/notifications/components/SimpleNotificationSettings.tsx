@@ -240,6 +240,22 @@ export const SimpleNotificationSettings: React.FC<
           />
         </View>
 
+        <View style={styles.settingRow}>
+          <View style={styles.settingInfo}>
+            <Text style={[styles.settingLabel, { color: theme.text }]}>
+              Weekly Reports
+            </Text>
+            <Text style={[styles.settingDescription, { color: theme.gray }]}>
+              Your week in review, every Sunday evening
+            </Text>
+          </View>
+          <Switch
+            value={preferences.weeklyReports}
+            onValueChange={value => handleToggle('weeklyReports', value)}
+            disabled={saving || !preferences.enabled}
+          />
+        </View>
+
         <View style={styles.settingRow}>
           <View style={styles.settingInfo}>
             <Text style={[styles.settingLabel, { color: theme.text }]}>
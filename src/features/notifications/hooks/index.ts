@@ -1,2 +1,3 @@
 export * from './useNotificationPreferences';
 export * from './usePushNotifications';
+export * from './useReminderDigest';
@@ -20,6 +20,7 @@ export const useNotificationPreferences = () => {
         lectures: true,
         studySessions: true,
         dailySummaries: false,
+        weeklyReports: true,
         marketing: false,
         quietHours: {
           enabled: false,
@@ -0,0 +1,40 @@
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '@/services/supabase';
+import { useAuth } from '@/contexts/AuthContext';
+import { DigestReminderLinks } from '@/utils/reminderDigest';
+
+export interface DigestReminder extends DigestReminderLinks {
+  id: string;
+  title: string | null;
+  body: string | null;
+  reminder_time: string;
+}
+
+/**
+ * React Query hook for the reminders sent together in one digest push,
+ * in the order they fall due
+ */
+export const useReminderDigest = (reminderIds: string[]) => {
+  const { user } = useAuth();
+
+  return useQuery<DigestReminder[], Error>({
+    queryKey: ['reminderDigest', user?.id, reminderIds],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('reminders')
+        .select(
+          'id, title, body, reminder_type, reminder_time, assignment_id, lecture_id, session_id',
+        )
+        .eq('user_id', user!.id)
+        .in('id', reminderIds)
+        .order('reminder_time', { ascending: true });
+
+      if (error) {
+        throw error;
+      }
+
+      return data ?? [];
+    },
+    enabled: !!user?.id && reminderIds.length > 0,
+  });
+};
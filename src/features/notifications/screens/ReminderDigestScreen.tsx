@@ -0,0 +1,188 @@
+import React, { useMemo } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  FlatList,
+  TouchableOpacity,
+  ActivityIndicator,
+} from 'react-native';
+import { useNavigation, useRoute, RouteProp } from '@react-navigation/native';
+import { StackNavigationProp } from '@react-navigation/stack';
+import { Ionicons } from '@expo/vector-icons';
+import { useTheme } from '@/contexts/ThemeContext';
+import { useLocale } from '@/contexts/LocaleContext';
+import { formatDate } from '@/i18n';
+import { RootStackParamList } from '@/types/navigation';
+import { digestReminderTask, parseDigestIds } from '@/utils/reminderDigest';
+import { COLORS, FONT_SIZES, FONT_WEIGHTS, SPACING } from '@/constants/theme';
+import { DigestReminder, useReminderDigest } from '../hooks/useReminderDigest';
+
+type ReminderDigestNavigationProp = StackNavigationProp<
+  RootStackParamList,
+  'ReminderDigest'
+>;
+type ReminderDigestRouteProp = RouteProp<RootStackParamList, 'ReminderDigest'>;
+
+const TYPE_ICONS: Record<string, keyof typeof Ionicons.glyphMap> = {
+  assignment: 'document-text-outline',
+  exam: 'school-outline',
+  lecture: 'easel-outline',
+  spaced_repetition: 'repeat-outline',
+  study_session: 'book-outline',
+};
+
+/**
+ * The reminders sent together in one digest push, opened from the push
+ */
+const ReminderDigestScreen: React.FC = () => {
+  const navigation = useNavigation<ReminderDigestNavigationProp>();
+  const route = useRoute<ReminderDigestRouteProp>();
+  const { theme } = useTheme();
+  const { t } = useLocale();
+  const reminderIds = useMemo(
+    () => parseDigestIds(route.params?.ids),
+    [route.params?.ids],
+  );
+  const {
+    data: reminders,
+    isLoading,
+    isError,
+  } = useReminderDigest(reminderIds);
+
+  const renderReminder = ({ item }: { item: DigestReminder }) => {
+    const task = digestReminderTask(item);
+
+    return (
+      <TouchableOpacity
+        style={[
+          styles.row,
+          { backgroundColor: theme.card, borderColor: theme.border },
+        ]}
+        disabled={!task}
+        onPress={() => task && navigation.navigate('TaskDetailModal', task)}
+        accessibilityRole="button">
+        <Ionicons
+          name={TYPE_ICONS[item.reminder_type] ?? 'notifications-outline'}
+          size={22}
+          color={COLORS.primary}
+        />
+        <View style={styles.rowText}>
+          <Text style={[styles.rowTitle, { color: theme.text }]}>
+            {item.title ||
+              t('reminderDigest.type', { type: item.reminder_type })}
+          </Text>
+          {!!item.body && (
+            <Text style={[styles.rowBody, { color: theme.textSecondary }]}>
+              {item.body}
+            </Text>
+          )}
+          <Text style={[styles.rowMeta, { color: theme.textSecondary }]}>
+            {t('reminderDigest.type', { type: item.reminder_type })} ·{' '}
+            {formatDate(item.reminder_time, {
+              weekday: 'short',
+              hour: 'numeric',
+              minute: '2-digit',
+            })}
+          </Text>
+        </View>
+        {task && (
+          <Ionicons
+            name="chevron-forward"
+            size={20}
+            color={theme.textSecondary}
+          />
+        )}
+      </TouchableOpacity>
+    );
+  };
+
+  if (isLoading && reminderIds.length > 0) {
+    return (
+      <View style={[styles.centered, { backgroundColor: theme.background }]}>
+        <ActivityIndicator color={COLORS.primary} />
+      </View>
+    );
+  }
+
+  return (
+    <FlatList
+      style={{ backgroundColor: theme.background }}
+      contentContainerStyle={styles.list}
+      data={reminders ?? []}
+      keyExtractor={reminder => reminder.id}
+      renderItem={renderReminder}
+      ListHeaderComponent={
+        reminders && reminders.length > 0 ? (
+          <Text style={[styles.subtitle, { color: theme.textSecondary }]}>
+            {t('reminderDigest.subtitle', { count: reminders.length })}
+          </Text>
+        ) : null
+      }
+      ListEmptyComponent={
+        <View style={styles.empty}>
+          <Ionicons
+            name="notifications-off-outline"
+            size={48}
+            color={theme.textSecondary}
+          />
+          <Text style={[styles.emptyText, { color: theme.textSecondary }]}>
+            {isError
+              ? t('reminderDigest.loadError')
+              : t('reminderDigest.empty')}
+          </Text>
+        </View>
+      }
+    />
+  );
+};
+
+const styles = StyleSheet.create({
+  centered: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  list: {
+    padding: SPACING.md,
+    gap: SPACING.sm,
+  },
+  subtitle: {
+    fontSize: FONT_SIZES.sm,
+    marginBottom: SPACING.sm,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: SPACING.md,
+    borderRadius: 12,
+    borderWidth: 1,
+    padding: SPACING.md,
+  },
+  rowText: {
+    flex: 1,
+  },
+  rowTitle: {
+    fontSize: FONT_SIZES.md,
+    fontWeight: FONT_WEIGHTS.medium,
+  },
+  rowBody: {
+    fontSize: FONT_SIZES.sm,
+    marginTop: 2,
+  },
+  rowMeta: {
+    fontSize: FONT_SIZES.xs,
+    marginTop: 4,
+  },
+  empty: {
+    alignItems: 'center',
+    paddingVertical: SPACING.xl,
+    gap: SPACING.sm,
+  },
+  emptyText: {
+    fontSize: FONT_SIZES.sm,
+    textAlign: 'center',
+  },
+});
+
+export default ReminderDigestScreen;
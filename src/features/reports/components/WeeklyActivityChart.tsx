@@ -0,0 +1,87 @@
+import React from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+import { useTheme } from '@/contexts/ThemeContext';
+import { formatDate } from '@/i18n';
+import { DailyActivity } from '@/services/analytics/WeeklyAnalyticsService';
+import { scaleBars } from '@/utils/weeklyReports';
+import { COLORS, FONT_SIZES, SPACING } from '@/constants/theme';
+
+const CHART_HEIGHT = 120;
+
+interface WeeklyActivityChartProps {
+  days: DailyActivity[];
+}
+
+/**
+ * Study minutes for each day of the report week, as vertical bars
+ */
+export function WeeklyActivityChart({ days }: WeeklyActivityChartProps) {
+  const { theme } = useTheme();
+  const heights = scaleBars(days.map(day => day.study_time));
+
+  return (
+    <View style={styles.chart}>
+      {days.map((day, index) => {
+        // Report dates are calendar days, so format them as UTC
+        const weekday = formatDate(`${day.date}T00:00:00Z`, {
+          weekday: 'short',
+          timeZone: 'UTC',
+        });
+        return (
+          <View
+            key={day.date}
+            style={styles.column}
+            accessible
+            accessibilityLabel={`${weekday}: ${day.study_time} min`}>
+            <Text style={[styles.value, { color: theme.textSecondary }]}>
+              {day.study_time > 0 ? day.study_time : ''}
+            </Text>
+            <View style={[styles.track, { backgroundColor: theme.border }]}>
+              <View
+                style={[
+                  styles.bar,
+                  { height: `${Math.round(heights[index] * 100)}%` },
+                ]}
+              />
+            </View>
+            <Text style={[styles.label, { color: theme.textSecondary }]}>
+              {weekday}
+            </Text>
+          </View>
+        );
+      })}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  chart: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginTop: SPACING.sm,
+  },
+  column: {
+    flex: 1,
+    alignItems: 'center',
+  },
+  value: {
+    fontSize: FONT_SIZES.xs,
+    marginBottom: 4,
+  },
+  track: {
+    width: 16,
+    height: CHART_HEIGHT,
+    borderRadius: 8,
+    justifyContent: 'flex-end',
+    overflow: 'hidden',
+  },
+  bar: {
+    width: '100%',
+    borderRadius: 8,
+    backgroundColor: COLORS.primary,
+  },
+  label: {
+    fontSize: FONT_SIZES.xs,
+    marginTop: 4,
+  },
+});
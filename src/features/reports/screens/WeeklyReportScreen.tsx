@@ -0,0 +1,350 @@
+import React, { useEffect } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  ActivityIndicator,
+} from 'react-native';
+import { useRoute, RouteProp } from '@react-navigation/native';
+import { Ionicons } from '@expo/vector-icons';
+import { useTheme } from '@/contexts/ThemeContext';
+import { useLocale } from '@/contexts/LocaleContext';
+import {
+  useMarkWeeklyReportRead,
+  useWeeklyReport,
+} from '@/hooks/useWeeklyReports';
+import { formatDate, MessageKey } from '@/i18n';
+import { RootStackParamList } from '@/types/navigation';
+import { ratePercent, studyHours } from '@/utils/weeklyReports';
+import { COLORS, FONT_SIZES, FONT_WEIGHTS, SPACING } from '@/constants/theme';
+import { WeeklyActivityChart } from '../components/WeeklyActivityChart';
+
+type WeeklyReportRouteProp = RouteProp<RootStackParamList, 'WeeklyReport'>;
+
+const COMPLETION_RATES: {
+  key: 'assignments' | 'lectures' | 'study_sessions' | 'overall';
+  label: MessageKey;
+}[] = [
+  { key: 'assignments', label: 'weeklyReports.assignments' },
+  { key: 'lectures', label: 'weeklyReports.lectures' },
+  { key: 'study_sessions', label: 'weeklyReports.studySessions' },
+  { key: 'overall', label: 'weeklyReports.overall' },
+];
+
+const formatDay = (day: string) =>
+  formatDate(`${day}T00:00:00Z`, {
+    month: 'short',
+    day: 'numeric',
+    timeZone: 'UTC',
+  });
+
+/**
+ * A week's report: totals, the admin-written narrative for the week,
+ * study time by day, completion rates, badges and tips for next week
+ */
+const WeeklyReportScreen: React.FC = () => {
+  const route = useRoute<WeeklyReportRouteProp>();
+  const { reportId } = route.params;
+  const { theme } = useTheme();
+  const { t } = useLocale();
+  const { data: report, isLoading } = useWeeklyReport(reportId);
+  const { mutate: markRead } = useMarkWeeklyReportRead();
+
+  useEffect(() => {
+    if (report && !report.is_read) {
+      markRead(report.id);
+    }
+  }, [report, markRead]);
+
+  if (isLoading) {
+    return (
+      <View style={[styles.centered, { backgroundColor: theme.background }]}>
+        <ActivityIndicator color={COLORS.primary} />
+      </View>
+    );
+  }
+
+  if (!report) {
+    return (
+      <View style={[styles.centered, { backgroundColor: theme.background }]}>
+        <Text style={[styles.muted, { color: theme.textSecondary }]}>
+          {t('weeklyReports.notFound')}
+        </Text>
+      </View>
+    );
+  }
+
+  const {
+    academic_performance: academic,
+    time_management: time,
+    progress_tracking: progress,
+    summary,
+  } = report.report_data;
+
+  const stats: {
+    icon: keyof typeof Ionicons.glyphMap;
+    label: string;
+    value: string;
+  }[] = [
+    {
+      icon: 'time-outline',
+      label: t('weeklyReports.studyTime'),
+      value: t('weeklyReports.hours', {
+        hours: studyHours(academic.total_study_time),
+      }),
+    },
+    {
+      icon: 'checkmark-done-outline',
+      label: t('weeklyReports.tasksCompleted'),
+      value: String(academic.completed_tasks),
+    },
+    {
+      icon: 'timer-outline',
+      label: t('weeklyReports.focusSessions'),
+      value: String(time.focus_sessions),
+    },
+    {
+      icon: 'flame-outline',
+      label: t('weeklyReports.streak'),
+      value: t('weeklyReports.days', { count: progress.current_streak ?? 0 }),
+    },
+  ];
+
+  const cardStyle = [
+    styles.card,
+    { backgroundColor: theme.card, borderColor: theme.border },
+  ];
+  const renderList = (items: string[]) =>
+    items.map(item => (
+      <View key={item} style={styles.listItem}>
+        <Text style={[styles.bullet, { color: COLORS.primary }]}>•</Text>
+        <Text style={[styles.body, { color: theme.text }]}>{item}</Text>
+      </View>
+    ));
+
+  return (
+    <ScrollView
+      style={{ backgroundColor: theme.background }}
+      contentContainerStyle={styles.content}>
+      <Text style={[styles.range, { color: theme.textSecondary }]}>
+        {formatDay(report.week_start_date)} – {formatDay(report.week_end_date)}
+      </Text>
+
+      <View style={styles.stats}>
+        {stats.map(stat => (
+          <View key={stat.label} style={[cardStyle, styles.stat]}>
+            <Ionicons name={stat.icon} size={20} color={COLORS.primary} />
+            <Text style={[styles.statValue, { color: theme.text }]}>
+              {stat.value}
+            </Text>
+            <Text style={[styles.muted, { color: theme.textSecondary }]}>
+              {stat.label}
+            </Text>
+          </View>
+        ))}
+      </View>
+
+      {(summary.key_highlights.length > 0 ||
+        (report.report_data.narrative?.length ?? 0) > 0) && (
+        <View style={cardStyle}>
+          <Text style={[styles.sectionTitle, { color: theme.text }]}>
+            {t('weeklyReports.highlights')}
+          </Text>
+          {renderList(summary.key_highlights)}
+          {report.report_data.narrative
+            ?.filter(section => section.text)
+            .map(section => (
+              <Text
+                key={section.template_id}
+                style={[styles.body, styles.paragraph, { color: theme.text }]}>
+                {section.text}
+              </Text>
+            ))}
+        </View>
+      )}
+
+      <View style={cardStyle}>
+        <Text style={[styles.sectionTitle, { color: theme.text }]}>
+          {t('weeklyReports.dailyActivity')}
+        </Text>
+        <WeeklyActivityChart days={time.daily_activity} />
+        {time.peak_study_hours.length > 0 && (
+          <Text
+            style={[
+              styles.muted,
+              styles.paragraph,
+              { color: theme.textSecondary },
+            ]}>
+            {t('weeklyReports.peakHours', {
+              hours: time.peak_study_hours.join(', '),
+            })}
+          </Text>
+        )}
+      </View>
+
+      <View style={cardStyle}>
+        <Text style={[styles.sectionTitle, { color: theme.text }]}>
+          {t('weeklyReports.completionRates')}
+        </Text>
+        {COMPLETION_RATES.map(({ key, label }) => {
+          const percent = ratePercent(academic.completion_rates[key]);
+          return (
+            <View key={key} style={styles.rateRow}>
+              <View style={styles.rateHeader}>
+                <Text style={[styles.body, { color: theme.text }]}>
+                  {t(label)}
+                </Text>
+                <Text style={[styles.muted, { color: theme.textSecondary }]}>
+                  {percent}%
+                </Text>
+              </View>
+              <View
+                style={[styles.rateTrack, { backgroundColor: theme.border }]}>
+                <View style={[styles.rateFill, { width: `${percent}%` }]} />
+              </View>
+            </View>
+          );
+        })}
+      </View>
+
+      {academic.subject_breakdown.length > 0 && (
+        <View style={cardStyle}>
+          <Text style={[styles.sectionTitle, { color: theme.text }]}>
+            {t('weeklyReports.subjects')}
+          </Text>
+          {academic.subject_breakdown.map(subject => (
+            <View key={subject.subject} style={styles.rateHeader}>
+              <Text style={[styles.body, { color: theme.text }]}>
+                {subject.subject}
+              </Text>
+              <Text style={[styles.muted, { color: theme.textSecondary }]}>
+                {t('weeklyReports.tasksCompleted')}: {subject.tasks_completed}
+                {subject.average_score !== undefined &&
+                  ` · ${t('weeklyReports.averageScore', {
+                    score: subject.average_score,
+                  })}`}
+              </Text>
+            </View>
+          ))}
+        </View>
+      )}
+
+      {progress.achievements.length > 0 && (
+        <View style={cardStyle}>
+          <Text style={[styles.sectionTitle, { color: theme.text }]}>
+            {t('weeklyReports.achievements')}
+          </Text>
+          {progress.achievements.map(achievement => (
+            <View
+              key={`${achievement.type}-${achievement.earned_at}`}
+              style={styles.listItem}>
+              <Ionicons name="ribbon" size={18} color={COLORS.warning} />
+              <View style={styles.achievementText}>
+                <Text style={[styles.body, { color: theme.text }]}>
+                  {achievement.title}
+                </Text>
+                <Text style={[styles.muted, { color: theme.textSecondary }]}>
+                  {achievement.description}
+                </Text>
+              </View>
+            </View>
+          ))}
+        </View>
+      )}
+
+      {progress.next_week_recommendations.length > 0 && (
+        <View style={cardStyle}>
+          <Text style={[styles.sectionTitle, { color: theme.text }]}>
+            {t('weeklyReports.tips')}
+          </Text>
+          {renderList(progress.next_week_recommendations)}
+        </View>
+      )}
+    </ScrollView>
+  );
+};
+
+const styles = StyleSheet.create({
+  centered: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: SPACING.lg,
+  },
+  content: {
+    padding: SPACING.md,
+    gap: SPACING.md,
+  },
+  range: {
+    fontSize: FONT_SIZES.sm,
+  },
+  stats: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: SPACING.sm,
+  },
+  stat: {
+    flexBasis: '47%',
+    flexGrow: 1,
+    gap: 4,
+  },
+  statValue: {
+    fontSize: FONT_SIZES.xl,
+    fontWeight: FONT_WEIGHTS.bold,
+  },
+  card: {
+    borderRadius: 16,
+    borderWidth: 1,
+    padding: SPACING.md,
+  },
+  sectionTitle: {
+    fontSize: FONT_SIZES.md,
+    fontWeight: FONT_WEIGHTS.bold,
+    marginBottom: SPACING.sm,
+  },
+  body: {
+    fontSize: FONT_SIZES.md,
+    flexShrink: 1,
+  },
+  paragraph: {
+    marginTop: SPACING.sm,
+  },
+  muted: {
+    fontSize: FONT_SIZES.sm,
+  },
+  listItem: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    gap: SPACING.sm,
+    marginTop: 4,
+  },
+  bullet: {
+    fontSize: FONT_SIZES.md,
+  },
+  achievementText: {
+    flex: 1,
+  },
+  rateRow: {
+    marginTop: SPACING.sm,
+  },
+  rateHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginTop: 4,
+  },
+  rateTrack: {
+    height: 8,
+    borderRadius: 4,
+    marginTop: 4,
+    overflow: 'hidden',
+  },
+  rateFill: {
+    height: '100%',
+    borderRadius: 4,
+    backgroundColor: COLORS.primary,
+  },
+});
+
+export default WeeklyReportScreen;
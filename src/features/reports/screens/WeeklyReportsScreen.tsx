@@ -0,0 +1,189 @@
+import React from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  FlatList,
+  TouchableOpacity,
+  ActivityIndicator,
+  RefreshControl,
+} from 'react-native';
+import { useNavigation } from '@react-navigation/native';
+import { StackNavigationProp } from '@react-navigation/stack';
+import { Ionicons } from '@expo/vector-icons';
+import { useTheme } from '@/contexts/ThemeContext';
+import { useLocale } from '@/contexts/LocaleContext';
+import { useWeeklyReports } from '@/hooks/useWeeklyReports';
+import { formatDate } from '@/i18n';
+import { RootStackParamList } from '@/types/navigation';
+import { WeeklyReport } from '@/services/analytics/WeeklyAnalyticsService';
+import { studyHours } from '@/utils/weeklyReports';
+import { COLORS, FONT_SIZES, FONT_WEIGHTS, SPACING } from '@/constants/theme';
+
+type WeeklyReportsNavigationProp = StackNavigationProp<
+  RootStackParamList,
+  'WeeklyReports'
+>;
+
+/**
+ * Past weekly reports, newest week first
+ */
+const WeeklyReportsScreen: React.FC = () => {
+  const navigation = useNavigation<WeeklyReportsNavigationProp>();
+  const { theme } = useTheme();
+  const { t } = useLocale();
+  const {
+    data: reports,
+    isLoading,
+    isError,
+    refetch,
+    isRefetching,
+  } = useWeeklyReports();
+
+  const renderReport = ({ item }: { item: WeeklyReport }) => {
+    const academic = item.report_data.academic_performance;
+    const isNew = !item.is_read;
+
+    return (
+      <TouchableOpacity
+        style={[
+          styles.row,
+          { backgroundColor: theme.card, borderColor: theme.border },
+        ]}
+        onPress={() =>
+          navigation.navigate('WeeklyReport', { reportId: item.id })
+        }
+        accessibilityRole="button">
+        <View style={styles.rowText}>
+          <View style={styles.rowHeader}>
+            <Text style={[styles.rowTitle, { color: theme.text }]}>
+              {t('weeklyReports.weekOf', {
+                date: formatDate(`${item.week_start_date}T00:00:00Z`, {
+                  month: 'short',
+                  day: 'numeric',
+                  year: 'numeric',
+                  timeZone: 'UTC',
+                }),
+              })}
+            </Text>
+            {isNew && (
+              <View style={styles.badge}>
+                <Text style={styles.badgeText}>{t('weeklyReports.new')}</Text>
+              </View>
+            )}
+          </View>
+          <Text style={[styles.rowSubtitle, { color: theme.textSecondary }]}>
+            {t('weeklyReports.summaryLine', {
+              hours: studyHours(academic?.total_study_time ?? 0),
+              count: academic?.completed_tasks ?? 0,
+            })}
+          </Text>
+        </View>
+        <Ionicons
+          name="chevron-forward"
+          size={20}
+          color={theme.textSecondary}
+        />
+      </TouchableOpacity>
+    );
+  };
+
+  if (isLoading) {
+    return (
+      <View style={[styles.centered, { backgroundColor: theme.background }]}>
+        <ActivityIndicator color={COLORS.primary} />
+      </View>
+    );
+  }
+
+  return (
+    <FlatList
+      style={{ backgroundColor: theme.background }}
+      contentContainerStyle={styles.list}
+      data={reports ?? []}
+      keyExtractor={report => report.id}
+      renderItem={renderReport}
+      refreshControl={
+        <RefreshControl refreshing={isRefetching} onRefresh={refetch} />
+      }
+      ListHeaderComponent={
+        <Text style={[styles.subtitle, { color: theme.textSecondary }]}>
+          {t('weeklyReports.subtitle')}
+        </Text>
+      }
+      ListEmptyComponent={
+        <View style={styles.empty}>
+          <Ionicons
+            name="bar-chart-outline"
+            size={48}
+            color={theme.textSecondary}
+          />
+          <Text style={[styles.emptyText, { color: theme.textSecondary }]}>
+            {isError ? t('weeklyReports.loadError') : t('weeklyReports.empty')}
+          </Text>
+        </View>
+      }
+    />
+  );
+};
+
+const styles = StyleSheet.create({
+  centered: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  list: {
+    padding: SPACING.md,
+    gap: SPACING.sm,
+  },
+  subtitle: {
+    fontSize: FONT_SIZES.sm,
+    marginBottom: SPACING.sm,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    borderRadius: 12,
+    borderWidth: 1,
+    padding: SPACING.md,
+  },
+  rowText: {
+    flex: 1,
+  },
+  rowHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: SPACING.sm,
+  },
+  rowTitle: {
+    fontSize: FONT_SIZES.md,
+    fontWeight: FONT_WEIGHTS.medium,
+  },
+  rowSubtitle: {
+    fontSize: FONT_SIZES.sm,
+    marginTop: 4,
+  },
+  badge: {
+    paddingHorizontal: SPACING.sm,
+    paddingVertical: 2,
+    borderRadius: 8,
+    backgroundColor: COLORS.primary,
+  },
+  badgeText: {
+    color: '#FFFFFF',
+    fontSize: FONT_SIZES.xs,
+    fontWeight: FONT_WEIGHTS.bold,
+  },
+  empty: {
+    alignItems: 'center',
+    paddingVertical: SPACING.xl,
+    gap: SPACING.sm,
+  },
+  emptyText: {
+    fontSize: FONT_SIZES.sm,
+    textAlign: 'center',
+  },
+});
+
+export default WeeklyReportsScreen;
@@ -0,0 +1,593 @@
+import React, { useCallback, useMemo, useState } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  StyleSheet,
+  TouchableOpacity,
+  ScrollView,
+  SectionList,
+  ActivityIndicator,
+  Keyboard,
+} from 'react-native';
+import { useNavigation } from '@react-navigation/native';
+import { StackNavigationProp } from '@react-navigation/stack';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
+import { addDays, endOfDay, format, startOfDay } from 'date-fns';
+import { useTheme } from '@/hooks/useTheme';
+import { useDebounce } from '@/hooks/useDebounce';
+import { useCourses } from '@/hooks/useDataQueries';
+import { useRecentSearches, useSearch } from '@/hooks/useSearch';
+import { COLORS, FONT_WEIGHTS } from '@/constants/theme';
+import { RootStackParamList, SearchRequest, SearchResult } from '@/types';
+import { SearchResultType } from '@/types/api';
+import {
+  getHighlightSegments,
+  getSearchSnippet,
+  getSearchTerms,
+  isSearchable,
+  SEARCH_RESULT_TYPES,
+  SEARCH_TYPE_LABELS,
+} from '@/utils/search';
+
+type SearchNavigationProp = StackNavigationProp<RootStackParamList>;
+
+type DateRange = 'any' | 'past_week' | 'next_week' | 'next_month';
+
+const DATE_RANGES: { key: DateRange; label: string }[] = [
+  { key: 'any', label: 'Any time' },
+  { key: 'past_week', label: 'Past 7 days' },
+  { key: 'next_week', label: 'Next 7 days' },
+  { key: 'next_month', label: 'Next 30 days' },
+];
+
+const TYPE_ICONS: Record<SearchResultType, keyof typeof Ionicons.glyphMap> = {
+  course: 'book-outline',
+  assignment: 'document-text-outline',
+  study_session: 'school-outline',
+  lecture: 'location-outline',
+  notification: 'notifications-outline',
+};
+
+const getDateRange = (range: DateRange): { from?: string; to?: string } => {
+  const today = new Date();
+  switch (range) {
+    case 'past_week':
+      return {
+        from: startOfDay(addDays(today, -7)).toISOString(),
+        to: endOfDay(today).toISOString(),
+      };
+    case 'next_week':
+      return {
+        from: startOfDay(today).toISOString(),
+        to: endOfDay(addDays(today, 7)).toISOString(),
+      };
+    case 'next_month':
+      return {
+        from: startOfDay(today).toISOString(),
+        to: endOfDay(addDays(today, 30)).toISOString(),
+      };
+    default:
+      return {};
+  }
+};
+
+const HighlightedText: React.FC<{
+  text: string;
+  terms: string[];
+  style: object;
+  highlightColor: string;
+  numberOfLines?: number;
+}> = ({ text, terms, style, highlightColor, numberOfLines }) => (
+  <Text style={style} numberOfLines={numberOfLines}>
+    {getHighlightSegments(text, terms).map((segment, index) =>
+      segment.highlighted ? (
+        <Text
+          key={index}
+          style={[styles.highlight, { backgroundColor: highlightColor }]}>
+          {segment.text}
+        </Text>
+      ) : (
+        segment.text
+      ),
+    )}
+  </Text>
+);
+
+const Chip: React.FC<{
+  label: string;
+  selected: boolean;
+  onPress: () => void;
+  colors: { accent: string; border: string; text: string };
+}> = ({ label, selected, onPress, colors }) => (
+  <TouchableOpacity
+    style={[
+      styles.chip,
+      {
+        borderColor: selected ? colors.accent : colors.border,
+        backgroundColor: selected ? colors.accent : 'transparent',
+      },
+    ]}
+    onPress={onPress}
+    accessibilityRole="button"
+    accessibilityState={{ selected }}>
+    <Text
+      style={[
+        styles.chipText,
+        { color: selected ? COLORS.white : colors.text },
+      ]}>
+      {label}
+    </Text>
+  </TouchableOpacity>
+);
+
+const SearchScreen = () => {
+  const navigation = useNavigation<SearchNavigationProp>();
+  const insets = useSafeAreaInsets();
+  const { theme } = useTheme();
+  const [query, setQuery] = useState('');
+  const [types, setTypes] = useState<SearchResultType[]>([]);
+  const [courseId, setCourseId] = useState<string | null>(null);
+  const [dateRange, setDateRange] = useState<DateRange>('any');
+  const debouncedQuery = useDebounce(query.trim(), 300);
+  const {
+    recentSearches,
+    addRecentSearch,
+    removeRecentSearch,
+    clearRecentSearches,
+  } = useRecentSearches();
+  const { data: coursePages } = useCourses();
+
+  const courses = useMemo(
+    () => coursePages?.pages.flatMap(page => page.courses) ?? [],
+    [coursePages],
+  );
+
+  const request = useMemo<SearchRequest | null>(
+    () =>
+      isSearchable(debouncedQuery)
+        ? {
+            query: debouncedQuery,
+            types: types.length > 0 ? types : undefined,
+            course_id: courseId ?? undefined,
+            ...getDateRange(dateRange),
+          }
+        : null,
+    [debouncedQuery, types, courseId, dateRange],
+  );
+  const { data, isFetching, error } = useSearch(request);
+
+  const terms = useMemo(() => getSearchTerms(debouncedQuery), [debouncedQuery]);
+  const sections = useMemo(
+    () =>
+      request && data
+        ? SEARCH_RESULT_TYPES.map(type => ({
+            type,
+            title: SEARCH_TYPE_LABELS[type],
+            data: data.results.filter(result => result.type === type),
+          })).filter(section => section.data.length > 0)
+        : [],
+    [request, data],
+  );
+
+  const toggleType = useCallback((type: SearchResultType) => {
+    setTypes(prev =>
+      prev.includes(type) ? prev.filter(t => t !== type) : [...prev, type],
+    );
+  }, []);
+
+  const handleResultPress = useCallback(
+    (result: SearchResult) => {
+      addRecentSearch(debouncedQuery);
+      Keyboard.dismiss();
+      switch (result.type) {
+        case 'course':
+          navigation.navigate('CourseDetail', { courseId: result.id });
+          break;
+        case 'assignment':
+        case 'study_session':
+        case 'lecture':
+          navigation.navigate('TaskDetailModal', {
+            taskId: result.id,
+            taskType: result.type,
+          });
+          break;
+      }
+    },
+    [addRecentSearch, debouncedQuery, navigation],
+  );
+
+  const chipColors = {
+    accent: theme.accent,
+    border: theme.border,
+    text: theme.text,
+  };
+  const highlightColor = `${theme.accent}33`;
+
+  const renderResult = ({ item }: { item: SearchResult }) => {
+    const meta = [
+      item.type !== 'course' ? item.course_name : null,
+      item.date ? format(new Date(item.date), 'EEE, MMM d · h:mm a') : null,
+    ]
+      .filter(Boolean)
+      .join(' · ');
+    const isLinked = item.type !== 'notification';
+
+    return (
+      <TouchableOpacity
+        style={[styles.resultRow, { borderBottomColor: theme.border }]}
+        onPress={() => handleResultPress(item)}
+        disabled={!isLinked}
+        accessibilityRole={isLinked ? 'button' : undefined}>
+        <Ionicons
+          name={TYPE_ICONS[item.type]}
+          size={20}
+          color={theme.textSecondary}
+          style={styles.resultIcon}
+        />
+        <View style={styles.resultBody}>
+          <HighlightedText
+            text={item.title || 'Untitled'}
+            terms={terms}
+            style={[styles.resultTitle, { color: theme.text }]}
+            highlightColor={highlightColor}
+            numberOfLines={1}
+          />
+          {item.subtitle ? (
+            <HighlightedText
+              text={getSearchSnippet(item.subtitle, terms)}
+              terms={terms}
+              style={[styles.resultSubtitle, { color: theme.textSecondary }]}
+              highlightColor={highlightColor}
+              numberOfLines={2}
+            />
+          ) : null}
+          {meta ? (
+            <Text style={[styles.resultMeta, { color: theme.textSecondary }]}>
+              {meta}
+            </Text>
+          ) : null}
+        </View>
+        {isLinked && (
+          <Ionicons
+            name="chevron-forward"
+            size={18}
+            color={theme.textSecondary}
+          />
+        )}
+      </TouchableOpacity>
+    );
+  };
+
+  const renderEmpty = () => {
+    if (!request) {
+      if (recentSearches.length === 0) {
+        return (
+          <Text style={[styles.hint, { color: theme.textSecondary }]}>
+            Search your courses, assignments, study sessions, lecture venues and
+            notifications.
+          </Text>
+        );
+      }
+      return (
+        <View>
+          <View style={styles.recentHeader}>
+            <Text style={[styles.sectionTitle, { color: theme.textSecondary }]}>
+              Recent searches
+            </Text>
+            <TouchableOpacity onPress={clearRecentSearches}>
+              <Text style={[styles.clearText, { color: theme.accent }]}>
+                Clear
+              </Text>
+            </TouchableOpacity>
+          </View>
+          {recentSearches.map(recent => (
+            <View
+              key={recent}
+              style={[styles.recentRow, { borderBottomColor: theme.border }]}>
+              <TouchableOpacity
+                style={styles.recentButton}
+                onPress={() => setQuery(recent)}>
+                <Ionicons
+                  name="time-outline"
+                  size={18}
+                  color={theme.textSecondary}
+                />
+                <Text style={[styles.recentText, { color: theme.text }]}>
+                  {recent}
+                </Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                onPress={() => removeRecentSearch(recent)}
+                accessibilityLabel={`Remove ${recent} from recent searches`}>
+                <Ionicons name="close" size={18} color={theme.textSecondary} />
+              </TouchableOpacity>
+            </View>
+          ))}
+        </View>
+      );
+    }
+    if (isFetching && !data) {
+      return <ActivityIndicator style={styles.loading} color={theme.accent} />;
+    }
+    if (error) {
+      return (
+        <Text style={[styles.hint, { color: COLORS.error }]}>
+          {error.message}
+        </Text>
+      );
+    }
+    return (
+      <Text style={[styles.hint, { color: theme.textSecondary }]}>
+        {`No results for "${debouncedQuery}".`}
+      </Text>
+    );
+  };
+
+  return (
+    <View style={[styles.container, { backgroundColor: theme.background }]}>
+      <View
+        style={[
+          styles.searchBar,
+          { borderColor: theme.border, backgroundColor: theme.surface },
+        ]}>
+        <Ionicons name="search" size={20} color={theme.textSecondary} />
+        <TextInput
+          style={[styles.input, { color: theme.text }]}
+          value={query}
+          onChangeText={setQuery}
+          onSubmitEditing={() => addRecentSearch(query)}
+          placeholder="Search courses, tasks and notifications"
+          placeholderTextColor={theme.textSecondary}
+          returnKeyType="search"
+          autoFocus
+          autoCorrect={false}
+          testID="search-input"
+        />
+        {isFetching && request ? (
+          <ActivityIndicator size="small" color={theme.accent} />
+        ) : query ? (
+          <TouchableOpacity
+            onPress={() => setQuery('')}
+            accessibilityLabel="Clear search">
+            <Ionicons
+              name="close-circle"
+              size={20}
+              color={theme.textSecondary}
+            />
+          </TouchableOpacity>
+        ) : null}
+      </View>
+
+      <ScrollView
+        horizontal
+        showsHorizontalScrollIndicator={false}
+        style={styles.filterRow}
+        contentContainerStyle={styles.filterContent}
+        keyboardShouldPersistTaps="handled">
+        {SEARCH_RESULT_TYPES.map(type => (
+          <Chip
+            key={type}
+            label={SEARCH_TYPE_LABELS[type]}
+            selected={types.includes(type)}
+            onPress={() => toggleType(type)}
+            colors={chipColors}
+          />
+        ))}
+      </ScrollView>
+
+      <ScrollView
+        horizontal
+        showsHorizontalScrollIndicator={false}
+        style={styles.filterRow}
+        contentContainerStyle={styles.filterContent}
+        keyboardShouldPersistTaps="handled">
+        {DATE_RANGES.map(range => (
+          <Chip
+            key={range.key}
+            label={range.label}
+            selected={dateRange === range.key}
+            onPress={() => setDateRange(range.key)}
+            colors={chipColors}
+          />
+        ))}
+      </ScrollView>
+
+      {courses.length > 0 && (
+        <ScrollView
+          horizontal
+          showsHorizontalScrollIndicator={false}
+          style={styles.filterRow}
+          contentContainerStyle={styles.filterContent}
+          keyboardShouldPersistTaps="handled">
+          <Chip
+            label="All courses"
+            selected={!courseId}
+            onPress={() => setCourseId(null)}
+            colors={chipColors}
+          />
+          {courses.map(course => (
+            <Chip
+              key={course.id}
+              label={course.courseCode || course.courseName}
+              selected={courseId === course.id}
+              onPress={() => setCourseId(course.id)}
+              colors={chipColors}
+            />
+          ))}
+        </ScrollView>
+      )}
+
+      {request && data?.offline && (
+        <View style={[styles.banner, { backgroundColor: theme.surface }]}>
+          <Ionicons
+            name="cloud-offline-outline"
+            size={18}
+            color={theme.textSecondary}
+          />
+          <Text style={[styles.bannerText, { color: theme.textSecondary }]}>
+            {
+              "You're offline. Showing matches from data saved on this device; notifications can't be searched."
+            }
+          </Text>
+        </View>
+      )}
+
+      <SectionList
+        sections={sections}
+        keyExtractor={item => `${item.type}-${item.id}`}
+        renderItem={renderResult}
+        renderSectionHeader={({ section }) => (
+          <Text
+            style={[
+              styles.sectionTitle,
+              styles.sectionHeader,
+              { color: theme.textSecondary, backgroundColor: theme.background },
+            ]}>
+            {section.title}
+          </Text>
+        )}
+        ListEmptyComponent={renderEmpty}
+        keyboardShouldPersistTaps="handled"
+        contentContainerStyle={[
+          styles.content,
+          { paddingBottom: insets.bottom + 16 },
+        ]}
+        stickySectionHeadersEnabled
+      />
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  searchBar: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    borderWidth: 1,
+    borderRadius: 12,
+    marginHorizontal: 16,
+    marginTop: 12,
+    paddingHorizontal: 12,
+    height: 44,
+  },
+  input: {
+    flex: 1,
+    fontSize: 16,
+    marginHorizontal: 8,
+  },
+  filterRow: {
+    flexGrow: 0,
+    marginTop: 8,
+  },
+  filterContent: {
+    paddingHorizontal: 16,
+  },
+  chip: {
+    borderWidth: 1,
+    borderRadius: 16,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    marginRight: 8,
+  },
+  chipText: {
+    fontSize: 13,
+    fontWeight: FONT_WEIGHTS.medium,
+  },
+  banner: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    borderRadius: 12,
+    padding: 12,
+    marginHorizontal: 16,
+    marginTop: 12,
+  },
+  bannerText: {
+    flex: 1,
+    fontSize: 13,
+    lineHeight: 18,
+    marginLeft: 8,
+  },
+  content: {
+    paddingHorizontal: 16,
+    paddingTop: 8,
+  },
+  sectionHeader: {
+    paddingTop: 12,
+    paddingBottom: 4,
+  },
+  sectionTitle: {
+    fontSize: 13,
+    fontWeight: FONT_WEIGHTS.semibold,
+    textTransform: 'uppercase',
+  },
+  resultRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 12,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+  },
+  resultIcon: {
+    marginRight: 12,
+  },
+  resultBody: {
+    flex: 1,
+    marginRight: 8,
+  },
+  resultTitle: {
+    fontSize: 15,
+    fontWeight: FONT_WEIGHTS.medium,
+  },
+  resultSubtitle: {
+    fontSize: 13,
+    lineHeight: 18,
+    marginTop: 2,
+  },
+  resultMeta: {
+    fontSize: 12,
+    marginTop: 4,
+  },
+  highlight: {
+    fontWeight: FONT_WEIGHTS.bold,
+  },
+  hint: {
+    fontSize: 14,
+    lineHeight: 20,
+    textAlign: 'center',
+    marginTop: 32,
+  },
+  loading: {
+    marginTop: 32,
+  },
+  recentHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginTop: 12,
+    marginBottom: 4,
+  },
+  clearText: {
+    fontSize: 14,
+    fontWeight: FONT_WEIGHTS.medium,
+  },
+  recentRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 12,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+  },
+  recentButton: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  recentText: {
+    fontSize: 15,
+    marginLeft: 10,
+  },
+});
+
+export default SearchScreen;
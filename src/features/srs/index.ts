@@ -0,0 +1,6 @@
+export {
+  SRSSchedulingService,
+  type SRSAlgorithm,
+  type SRSUserPreferences,
+} from './services/SRSSchedulingService';
+export { DEFAULT_DESIRED_RETENTION } from './services/fsrs';
@@ -46,8 +46,22 @@ export interface TopicMastery {
   nextReview: string;
   easeFactor: number;
   reviewCount: number;
+  /** Set for a flashcard deck, whose mastery is measured per card */
+  deckId?: string;
+  cardCount?: number;
 }
 
+/** Review columns shared by srs_performance and flashcard_reviews */
+interface ReviewRow {
+  quality_rating: number;
+  ease_factor: number;
+  response_time_seconds?: number | null;
+  created_at: string;
+}
+
+// A card counts as mastered once it is recalled with 3 weeks to the next review
+const MATURE_CARD_INTERVAL_DAYS = 21;
+
 export interface StudyStreak {
   startDate: string;
   endDate?: string;
@@ -74,6 +88,18 @@ export interface OverallStats {
   currentStreak: number;
 }
 
+export interface SchedulerFit {
+  version: number;
+  fittedAt: string;
+  reviewCount: number;
+  predictedRetention: number; // 0-100, mean predicted recall when fitted
+  actualRetention: number; // 0-100, recalled share of the fitted reviews
+  currentRetentionRate: number; // 0-100, across all reviews today
+  logLoss: number;
+  defaultLogLoss: number;
+  isPersonalized: boolean; // false if the defaults fit better
+}
+
 export class SRSAnalyticsService {
   private static instance: SRSAnalyticsService;
 
@@ -151,17 +177,80 @@ export class SRSAnalyticsService {
     }
   }
 
+  /**
+   * Get the latest FSRS parameter fit, with today's retention rate to check
+   * the prediction against
+   */
+  async getSchedulerFit(userId: string): Promise<SchedulerFit | null> {
+    try {
+      const { data: fit, error } = await supabase
+        .from('srs_scheduler_parameters')
+        .select(
+          'version, created_at, review_count, predicted_retention, actual_retention, log_loss, default_log_loss',
+        )
+        .eq('user_id', userId)
+        .eq('algorithm', 'fsrs')
+        .order('version', { ascending: false })
+        .limit(1)
+        .maybeSingle();
+
+      if (error || !fit) {
+        return null;
+      }
+
+      const currentRetentionRate = await this.calculateRetentionRate(userId);
+
+      return {
+        version: fit.version,
+        fittedAt: fit.created_at,
+        reviewCount: fit.review_count,
+        predictedRetention: Number(fit.predicted_retention) * 100,
+        actualRetention: Number(fit.actual_retention) * 100,
+        currentRetentionRate,
+        logLoss: Number(fit.log_loss),
+        defaultLogLoss: Number(fit.default_log_loss),
+        isPersonalized: Number(fit.log_loss) < Number(fit.default_log_loss),
+      };
+    } catch (error) {
+      console.error('❌ Error getting scheduler fit:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Flashcard reviews; each card is reviewed on its own, so they count
+   * alongside study session reviews in retention and mastery
+   */
+  private async getFlashcardReviews(userId: string): Promise<ReviewRow[]> {
+    const { data, error } = await supabase
+      .from('flashcard_reviews')
+      .select('quality_rating, ease_factor, response_time_seconds, created_at')
+      .eq('user_id', userId);
+
+    if (error || !data) {
+      return [];
+    }
+    return data as ReviewRow[];
+  }
+
   /**
    * Calculate retention rate based on performance history
    */
   private async calculateRetentionRate(userId: string): Promise<number> {
     try {
-      const { data: performance, error } = await supabase
-        .from('srs_performance')
-        .select('quality_rating')
-        .eq('user_id', userId);
+      const [{ data: sessionReviews, error }, cardReviews] = await Promise.all([
+        supabase
+          .from('srs_performance')
+          .select('quality_rating')
+          .eq('user_id', userId),
+        this.getFlashcardReviews(userId),
+      ]);
 
-      if (error || !performance || performance.length === 0) {
+      if (error) {
+        return 0;
+      }
+      const performance = [...(sessionReviews ?? []), ...cardReviews];
+      if (performance.length === 0) {
         return 0;
       }
 
@@ -430,12 +519,19 @@ export class SRSAnalyticsService {
     userId: string,
   ): Promise<'beginner' | 'intermediate' | 'advanced'> {
     try {
-      const { data: performance, error } = await supabase
-        .from('srs_performance')
-        .select('quality_rating, ease_factor')
-        .eq('user_id', userId);
+      const [{ data: sessionReviews, error }, cardReviews] = await Promise.all([
+        supabase
+          .from('srs_performance')
+          .select('quality_rating, ease_factor')
+          .eq('user_id', userId),
+        this.getFlashcardReviews(userId),
+      ]);
 
-      if (error || !performance || performance.length === 0) {
+      if (error) {
+        return 'beginner';
+      }
+      const performance = [...(sessionReviews ?? []), ...cardReviews];
+      if (performance.length === 0) {
         return 'beginner';
       }
 
@@ -583,6 +679,8 @@ export class SRSAnalyticsService {
         });
       }
 
+      topicMastery.push(...(await this.getDeckMasteryLevels(userId)));
+
       return topicMastery.sort((a, b) => b.masteryLevel - a.masteryLevel);
     } catch (error) {
       console.error('❌ Error getting topic mastery levels:', error);
@@ -590,6 +688,109 @@ export class SRSAnalyticsService {
     }
   }
 
+  /**
+   * Mastery of each flashcard deck: the share of its cards whose latest
+   * review was recalled with a long enough interval to count as mature
+   */
+  private async getDeckMasteryLevels(userId: string): Promise<TopicMastery[]> {
+    const { data: decks, error } = await supabase
+      .from('flashcard_decks')
+      .select(
+        `
+        id,
+        study_session_id,
+        study_sessions(topic),
+        courses(course_name),
+        flashcards(
+          id,
+          due_at,
+          review_count,
+          deleted_at
+        )
+      `,
+      )
+      .eq('user_id', userId)
+      .is('deleted_at', null);
+
+    if (error || !decks || decks.length === 0) {
+      return [];
+    }
+
+    const { data: reviews } = await supabase
+      .from('flashcard_reviews')
+      .select(
+        'flashcard_id, quality_rating, ease_factor, next_interval_days, review_date',
+      )
+      .eq('user_id', userId)
+      .order('review_date', { ascending: false });
+
+    interface LatestCardReview {
+      quality_rating: number;
+      ease_factor: number;
+      next_interval_days: number | null;
+      review_date: string;
+    }
+    const latestByCard = new Map<string, LatestCardReview>();
+    for (const review of reviews ?? []) {
+      if (!latestByCard.has(review.flashcard_id)) {
+        latestByCard.set(review.flashcard_id, review);
+      }
+    }
+
+    interface DeckWithCards {
+      id: string;
+      study_session_id: string | null;
+      study_sessions: { topic: string } | { topic: string }[] | null;
+      courses: { course_name: string } | { course_name: string }[] | null;
+      flashcards: {
+        id: string;
+        due_at: string;
+        review_count: number;
+        deleted_at: string | null;
+      }[];
+    }
+    const first = <T>(value: T | T[] | null): T | undefined =>
+      Array.isArray(value) ? value[0] : (value ?? undefined);
+
+    const mastery: TopicMastery[] = [];
+    for (const deck of decks as DeckWithCards[]) {
+      const cards = (deck.flashcards ?? []).filter(card => !card.deleted_at);
+      const latest = cards
+        .map(card => latestByCard.get(card.id))
+        .filter((review): review is LatestCardReview => Boolean(review));
+      if (latest.length === 0) continue;
+
+      const mature = latest.filter(
+        review =>
+          review.quality_rating >= 3 &&
+          (review.next_interval_days ?? 0) >= MATURE_CARD_INTERVAL_DAYS,
+      ).length;
+      const nextReview = cards
+        .map(card => card.due_at)
+        .sort((a, b) => a.localeCompare(b))[0];
+
+      mastery.push({
+        sessionId: deck.study_session_id ?? '',
+        deckId: deck.id,
+        topic:
+          first(deck.study_sessions)?.topic ||
+          first(deck.courses)?.course_name ||
+          'Flashcards',
+        masteryLevel: (mature / cards.length) * 100,
+        lastReviewed: latest
+          .map(review => review.review_date)
+          .sort((a, b) => b.localeCompare(a))[0],
+        nextReview,
+        easeFactor:
+          latest.reduce((sum, review) => sum + Number(review.ease_factor), 0) /
+          latest.length,
+        reviewCount: cards.reduce((sum, card) => sum + card.review_count, 0),
+        cardCount: cards.length,
+      });
+    }
+    return mastery;
+  }
+
   /**
    * Get study streaks
    */
@@ -719,14 +920,32 @@ export class SRSAnalyticsService {
    */
   private async getOverallStats(userId: string): Promise<OverallStats> {
     try {
-      const { data: performance, error } = await supabase
-        .from('srs_performance')
-        .select(
-          'quality_rating, ease_factor, response_time_seconds, session_id',
-        )
-        .eq('user_id', userId);
-
-      if (error || !performance) {
+      const [{ data: sessionReviews, error }, { data: cardReviews }] =
+        await Promise.all([
+          supabase
+            .from('srs_performance')
+            .select(
+              'quality_rating, ease_factor, response_time_seconds, session_id',
+            )
+            .eq('user_id', userId),
+          supabase
+            .from('flashcard_reviews')
+            .select(
+              'quality_rating, ease_factor, response_time_seconds, deck_id',
+            )
+            .eq('user_id', userId),
+        ]);
+
+      const performance = [
+        ...(sessionReviews ?? []),
+        ...(cardReviews ?? []).map(review => ({
+          ...review,
+          // Each deck counts as one topic
+          session_id: `deck:${review.deck_id}`,
+        })),
+      ];
+
+      if (error || performance.length === 0) {
         return {
           totalReviews: 0,
           averageQuality: 0,
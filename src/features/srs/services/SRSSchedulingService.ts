@@ -1,5 +1,6 @@
 import { supabase } from '@/services/supabase';
 import { User } from '@/types';
+import { DEFAULT_DESIRED_RETENTION, projectReviewOffsets } from './fsrs';
 
 // NOTE: This service uses direct Supabase queries for SRS configuration.
 // TODO: Create API endpoints in api-v2 or extend srs-system for:
@@ -14,8 +15,14 @@ export interface SRSUserPreferences {
   learningStyle: 'visual' | 'auditory' | 'kinesthetic' | 'mixed';
   customIntervals: number[];
   timezone: string;
+  /** Scheduling algorithm used when a review is recorded */
+  algorithm: SRSAlgorithm;
+  /** FSRS target probability of recall at review time (0.7 - 0.97) */
+  desiredRetention: number;
 }
 
+export type SRSAlgorithm = 'sm2' | 'fsrs';
+
 export interface TimeSlot {
   start: string; // HH:MM format
   end: string; // HH:MM format
@@ -68,6 +75,7 @@ export class SRSSchedulingService {
         userId,
         sessionId,
         config,
+        preferences,
       );
 
       // 3. Generate reminders with user preferences
@@ -166,8 +174,25 @@ export class SRSSchedulingService {
     userId: string,
     sessionId: string,
     config: SRSConfiguration,
+    preferences?: Partial<SRSUserPreferences>,
   ): Promise<number[]> {
     try {
+      const storedPreferences = preferences?.algorithm
+        ? null
+        : await this.getUserPreferences(userId);
+      const algorithm =
+        preferences?.algorithm ?? storedPreferences?.algorithm ?? 'sm2';
+
+      if (algorithm === 'fsrs') {
+        // FSRS spaces reviews by predicted recall rather than fixed intervals
+        return projectReviewOffsets(config.intervals.length, {
+          desiredRetention:
+            preferences?.desiredRetention ??
+            storedPreferences?.desiredRetention ??
+            DEFAULT_DESIRED_RETENTION,
+        });
+      }
+
       // Get user's performance history for similar topics
       const { data: performanceHistory, error } = await supabase
         .from('srs_performance')
@@ -225,13 +250,30 @@ export class SRSSchedulingService {
     try {
       const remindersToInsert = await Promise.all(
         intervals.map(async days => {
+          const seed = `${sessionId}-${days}`;
+
+          // Send at the hour the user has learned to act on reviews, if any
+          const { data: learnedHour } = await supabase.rpc(
+            'get_optimal_reminder_hour',
+            {
+              p_user_id: userId,
+              p_reminder_type: 'spaced_repetition',
+              p_fixed_hour: config.preferredHour,
+              p_seed: seed,
+            },
+          );
+          const hour =
+            typeof learnedHour === 'number'
+              ? learnedHour
+              : config.preferredHour;
+
           // Use timezone-aware scheduling
           const { data: timezoneAwareTime, error: tzError } =
             await supabase.rpc('schedule_reminder_in_user_timezone', {
               p_user_id: userId,
               p_base_time: sessionDate.toISOString(),
               p_days_offset: days,
-              p_hour: config.preferredHour,
+              p_hour: hour,
             });
 
           let reminderTime: Date;
@@ -240,14 +282,13 @@ export class SRSSchedulingService {
             // Fallback to UTC calculation
             reminderTime = new Date(sessionDate);
             reminderTime.setDate(sessionDate.getDate() + days);
-            reminderTime.setHours(config.preferredHour, 0, 0, 0);
+            reminderTime.setHours(hour, 0, 0, 0);
           } else {
             reminderTime = new Date(timezoneAwareTime);
           }
 
           // Apply deterministic jitter (same session + interval = same jitter)
           // This makes scheduling predictable for testing while still preventing clustering
-          const seed = `${sessionId}-${days}`;
           const jitteredTime = this.addDeterministicJitter(
             reminderTime,
             config.jitterMinutes,
@@ -387,10 +428,12 @@ export class SRSSchedulingService {
     preferences: Partial<SRSUserPreferences>,
   ): Promise<void> {
     try {
+      // Merge so that updating one setting keeps the others
+      const currentPreferences = await this.getUserPreferences(userId);
       const { error } = await supabase
         .from('users')
         .update({
-          srs_preferences: preferences,
+          srs_preferences: { ...currentPreferences, ...preferences },
         })
         .eq('id', userId);
 
@@ -0,0 +1,474 @@
+import React, { useEffect, useRef, useState } from 'react';
+import {
+  View,
+  Text,
+  TouchableOpacity,
+  StyleSheet,
+  Alert,
+  ActivityIndicator,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { useQueryClient } from '@tanstack/react-query';
+import { useTheme } from '@/contexts/ThemeContext';
+import {
+  useCreateFlashcardDeck,
+  useFlashcardDecks,
+  useFlashcards,
+  useReviewFlashcard,
+  useSaveFlashcard,
+} from '@/hooks/useFlashcards';
+import { Input, PrimaryButton } from '@/shared/components';
+import { COLORS, FONT_WEIGHTS } from '@/constants/theme';
+import { mapErrorCodeToMessage, getErrorTitle } from '@/utils/errorMapping';
+import {
+  advanceReviewQueue,
+  describeNextCardReview,
+  getDueFlashcards,
+  isFlashcardComplete,
+} from '@/utils/flashcards';
+import { Flashcard, FlashcardDeck, FlashcardType } from '@/types';
+import { FlashcardReviewCard } from './FlashcardReviewCard';
+
+interface FlashcardDeckPanelProps {
+  /** Without a session only the course-wide decks are shown */
+  studySessionId?: string;
+  /** Course of the session; its course-wide decks are listed too */
+  courseId?: string;
+  /** Title given to new decks */
+  topic: string;
+}
+
+/**
+ * Flashcard decks of a study session or course: pick a deck, add cards and
+ * review the due ones. Each card is scheduled on its own.
+ */
+export function FlashcardDeckPanel({
+  studySessionId,
+  courseId,
+  topic,
+}: FlashcardDeckPanelProps) {
+  const { theme } = useTheme();
+  const queryClient = useQueryClient();
+  const { data: decks = [], isLoading } = useFlashcardDecks({
+    studySessionId,
+    courseId,
+  });
+  const createDeck = useCreateFlashcardDeck();
+  const saveCard = useSaveFlashcard();
+  const reviewCard = useReviewFlashcard();
+
+  const [deckId, setDeckId] = useState<string | undefined>();
+  const { data: cards = [] } = useFlashcards(deckId);
+  const deck = decks.find(item => item.id === deckId);
+
+  const [queue, setQueue] = useState<Flashcard[] | null>(null);
+  const [flipped, setFlipped] = useState(false);
+  const [reviewed, setReviewed] = useState(0);
+  const [lastResult, setLastResult] = useState<string | null>(null);
+  const shownAt = useRef(Date.now());
+
+  const [isAdding, setIsAdding] = useState(false);
+  const [cardType, setCardType] = useState<FlashcardType>('basic');
+  const [front, setFront] = useState('');
+  const [back, setBack] = useState('');
+  const [imageUrl, setImageUrl] = useState('');
+
+  useEffect(() => {
+    if (!deckId && decks.length > 0) setDeckId(decks[0].id);
+  }, [deckId, decks]);
+
+  const handleCreateDeck = async (forCourse: boolean) => {
+    try {
+      const created = await createDeck.mutateAsync(
+        forCourse
+          ? { course_id: courseId, title: topic }
+          : { study_session_id: studySessionId, title: topic },
+      );
+      setDeckId(created.id);
+      setIsAdding(true);
+    } catch (error) {
+      Alert.alert(getErrorTitle(error), mapErrorCodeToMessage(error));
+    }
+  };
+
+  const resetEditor = () => {
+    setFront('');
+    setBack('');
+    setImageUrl('');
+  };
+
+  const handleSaveCard = async () => {
+    if (!deckId) return;
+    try {
+      await saveCard.mutateAsync({
+        deck_id: deckId,
+        card_type: cardType,
+        front: front.trim(),
+        back: back.trim() || null,
+        image_url: imageUrl.trim() || null,
+      });
+      resetEditor();
+    } catch (error) {
+      Alert.alert(getErrorTitle(error), mapErrorCodeToMessage(error));
+    }
+  };
+
+  const startReview = () => {
+    setQueue(getDueFlashcards(cards));
+    setReviewed(0);
+    setLastResult(null);
+    setFlipped(false);
+    setIsAdding(false);
+    shownAt.current = Date.now();
+  };
+
+  const finishReview = () => {
+    setQueue(null);
+    queryClient.invalidateQueries({ queryKey: ['flashcards', deckId] });
+  };
+
+  const handleRate = async (quality: number) => {
+    const current = queue?.[0];
+    if (!queue || !current) return;
+    try {
+      const result = await reviewCard.mutateAsync({
+        flashcard_id: current.id,
+        quality_rating: quality,
+        response_time_seconds:
+          Math.round((Date.now() - shownAt.current) / 1000) || undefined,
+      });
+      setLastResult(describeNextCardReview(quality, result.next_interval_days));
+      setReviewed(count => count + 1);
+      setQueue(advanceReviewQueue(queue, quality));
+      setFlipped(false);
+      shownAt.current = Date.now();
+    } catch (error) {
+      Alert.alert(getErrorTitle(error), mapErrorCodeToMessage(error));
+    }
+  };
+
+  const renderDeck = (item: FlashcardDeck) => {
+    const selected = item.id === deckId;
+    return (
+      <TouchableOpacity
+        key={item.id}
+        style={[
+          styles.deckRow,
+          {
+            borderColor: selected ? theme.accent : theme.border,
+            backgroundColor: selected ? theme.accent + '1A' : theme.surface,
+          },
+        ]}
+        onPress={() => {
+          setDeckId(item.id);
+          setQueue(null);
+        }}
+        accessibilityRole="button"
+        accessibilityState={{ selected }}>
+        <Ionicons
+          name={item.courseId ? 'library-outline' : 'albums-outline'}
+          size={20}
+          color={selected ? theme.accent : theme.textSecondary}
+        />
+        <View style={styles.deckInfo}>
+          <Text style={[styles.deckTitle, { color: theme.text }]}>
+            {item.title}
+          </Text>
+          <Text style={[styles.deckMeta, { color: theme.textSecondary }]}>
+            {item.courseId ? 'Course deck · ' : ''}
+            {item.cardCount} card{item.cardCount === 1 ? '' : 's'} ·{' '}
+            {item.dueCount} due
+          </Text>
+        </View>
+      </TouchableOpacity>
+    );
+  };
+
+  if (isLoading) {
+    return <ActivityIndicator style={styles.loading} color={COLORS.primary} />;
+  }
+
+  if (queue) {
+    const current = queue[0];
+    return (
+      <View>
+        <View style={styles.reviewHeader}>
+          <Text style={[styles.progress, { color: theme.textSecondary }]}>
+            {reviewed} reviewed · {queue.length} left
+          </Text>
+          <TouchableOpacity onPress={finishReview} accessibilityRole="button">
+            <Text style={[styles.link, { color: theme.accent }]}>End</Text>
+          </TouchableOpacity>
+        </View>
+        {lastResult && (
+          <Text style={[styles.lastResult, { color: theme.textSecondary }]}>
+            {lastResult}
+          </Text>
+        )}
+        {current ? (
+          <FlashcardReviewCard
+            card={current}
+            flipped={flipped}
+            onFlip={() => setFlipped(true)}
+            onRate={handleRate}
+            disabled={reviewCard.isPending}
+          />
+        ) : (
+          <View style={[styles.done, { backgroundColor: theme.card }]}>
+            <Ionicons name="checkmark-circle" size={48} color="#10B981" />
+            <Text style={[styles.doneText, { color: theme.text }]}>
+              No cards left to review in this deck.
+            </Text>
+            <PrimaryButton title="Done" onPress={finishReview} />
+          </View>
+        )}
+      </View>
+    );
+  }
+
+  const dueCount = getDueFlashcards(cards).length;
+
+  return (
+    <View>
+      {decks.map(renderDeck)}
+
+      {decks.length === 0 && (
+        <Text style={[styles.empty, { color: theme.textSecondary }]}>
+          Make a deck of flashcards for terms, formulas or anything else you
+          want to memorize. Each card is scheduled on its own.
+        </Text>
+      )}
+
+      <View style={styles.actions}>
+        {studySessionId && (
+          <TouchableOpacity
+            style={styles.action}
+            onPress={() => handleCreateDeck(false)}
+            disabled={createDeck.isPending}
+            accessibilityRole="button">
+            <Ionicons
+              name="add-circle-outline"
+              size={18}
+              color={theme.accent}
+            />
+            <Text style={[styles.link, { color: theme.accent }]}>
+              Session deck
+            </Text>
+          </TouchableOpacity>
+        )}
+        {courseId && (
+          <TouchableOpacity
+            style={styles.action}
+            onPress={() => handleCreateDeck(true)}
+            disabled={createDeck.isPending}
+            accessibilityRole="button">
+            <Ionicons
+              name="add-circle-outline"
+              size={18}
+              color={theme.accent}
+            />
+            <Text style={[styles.link, { color: theme.accent }]}>
+              Course deck
+            </Text>
+          </TouchableOpacity>
+        )}
+      </View>
+
+      {deck && (
+        <>
+          <PrimaryButton
+            title={
+              dueCount > 0
+                ? `Review ${dueCount} due card${dueCount === 1 ? '' : 's'}`
+                : 'No cards due'
+            }
+            onPress={startReview}
+            disabled={dueCount === 0}
+            style={styles.reviewButton}
+          />
+
+          {isAdding ? (
+            <View style={[styles.editor, { backgroundColor: theme.card }]}>
+              <View style={styles.chips}>
+                {(['basic', 'cloze'] as const).map(type => {
+                  const selected = cardType === type;
+                  return (
+                    <TouchableOpacity
+                      key={type}
+                      style={[
+                        styles.chip,
+                        {
+                          borderColor: selected ? theme.accent : theme.border,
+                          backgroundColor: selected
+                            ? theme.accent + '1A'
+                            : theme.surface,
+                        },
+                      ]}
+                      onPress={() => setCardType(type)}
+                      accessibilityRole="button"
+                      accessibilityState={{ selected }}>
+                      <Text
+                        style={{
+                          color: selected ? theme.accent : theme.text,
+                        }}>
+                        {type === 'basic' ? 'Front & back' : 'Cloze'}
+                      </Text>
+                    </TouchableOpacity>
+                  );
+                })}
+              </View>
+              <Input
+                label={cardType === 'cloze' ? 'Text' : 'Front'}
+                value={front}
+                onChangeText={setFront}
+                placeholder={
+                  cardType === 'cloze'
+                    ? 'e.g., The powerhouse of the cell is the {{mitochondria}}'
+                    : 'e.g., Photosynthesis'
+                }
+                helperText={
+                  cardType === 'cloze'
+                    ? 'Wrap the parts to hide in {{double braces}}'
+                    : undefined
+                }
+                maxLength={2000}
+                multiline
+              />
+              <Input
+                label={cardType === 'cloze' ? 'Extra (optional)' : 'Back'}
+                value={back}
+                onChangeText={setBack}
+                maxLength={2000}
+                multiline
+              />
+              <Input
+                label="Image URL (optional)"
+                value={imageUrl}
+                onChangeText={setImageUrl}
+                autoCapitalize="none"
+                keyboardType="url"
+              />
+              <PrimaryButton
+                title="Add card"
+                onPress={handleSaveCard}
+                loading={saveCard.isPending}
+                disabled={!isFlashcardComplete({ cardType, front, back })}
+              />
+              <TouchableOpacity
+                onPress={() => {
+                  resetEditor();
+                  setIsAdding(false);
+                }}
+                style={styles.closeEditor}
+                accessibilityRole="button">
+                <Text style={[styles.link, { color: theme.textSecondary }]}>
+                  Close
+                </Text>
+              </TouchableOpacity>
+            </View>
+          ) : (
+            <TouchableOpacity
+              style={styles.action}
+              onPress={() => setIsAdding(true)}
+              accessibilityRole="button">
+              <Ionicons name="create-outline" size={18} color={theme.accent} />
+              <Text style={[styles.link, { color: theme.accent }]}>
+                Add cards to {deck.title}
+              </Text>
+            </TouchableOpacity>
+          )}
+        </>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  loading: {
+    marginVertical: 24,
+  },
+  deckRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: 12,
+    borderRadius: 12,
+    borderWidth: 1,
+    marginBottom: 8,
+  },
+  deckInfo: {
+    flex: 1,
+    marginLeft: 12,
+  },
+  deckTitle: {
+    fontSize: 16,
+    fontWeight: FONT_WEIGHTS.semibold,
+  },
+  deckMeta: {
+    fontSize: 13,
+    marginTop: 2,
+  },
+  empty: {
+    fontSize: 14,
+    marginBottom: 8,
+  },
+  actions: {
+    flexDirection: 'row',
+    gap: 16,
+  },
+  action: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    paddingVertical: 8,
+  },
+  link: {
+    fontSize: 15,
+    fontWeight: FONT_WEIGHTS.semibold,
+  },
+  reviewButton: {
+    marginVertical: 12,
+  },
+  editor: {
+    borderRadius: 16,
+    padding: 16,
+    gap: 8,
+  },
+  chips: {
+    flexDirection: 'row',
+    gap: 8,
+    marginBottom: 4,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    borderWidth: 1,
+  },
+  closeEditor: {
+    alignItems: 'center',
+    paddingVertical: 8,
+  },
+  reviewHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  progress: {
+    fontSize: 14,
+  },
+  lastResult: {
+    fontSize: 13,
+    marginTop: 4,
+  },
+  done: {
+    borderRadius: 16,
+    padding: 20,
+    alignItems: 'center',
+    gap: 12,
+    marginVertical: 10,
+  },
+  doneText: {
+    fontSize: 16,
+    textAlign: 'center',
+  },
+});
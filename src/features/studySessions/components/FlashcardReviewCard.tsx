@@ -0,0 +1,167 @@
+import React from 'react';
+import { View, Text, TouchableOpacity, StyleSheet } from 'react-native';
+import { Image } from 'expo-image';
+import { useTheme } from '@/contexts/ThemeContext';
+import { Flashcard } from '@/types';
+import { FONT_WEIGHTS } from '@/constants/theme';
+import {
+  FLASHCARD_RATINGS,
+  getClozeQuestion,
+  splitCloze,
+} from '@/utils/flashcards';
+
+interface FlashcardReviewCardProps {
+  card: Flashcard;
+  flipped: boolean;
+  onFlip: () => void;
+  onRate: (quality: number) => void;
+  disabled?: boolean;
+}
+
+/**
+ * One card of a deck review: tap to show the answer, then rate how well it
+ * was remembered
+ */
+export function FlashcardReviewCard({
+  card,
+  flipped,
+  onFlip,
+  onRate,
+  disabled,
+}: FlashcardReviewCardProps) {
+  const { theme } = useTheme();
+
+  const renderFront = () => {
+    if (card.cardType !== 'cloze') {
+      return (
+        <Text style={[styles.front, { color: theme.text }]}>{card.front}</Text>
+      );
+    }
+    if (!flipped) {
+      return (
+        <Text style={[styles.front, { color: theme.text }]}>
+          {getClozeQuestion(card.front)}
+        </Text>
+      );
+    }
+    return (
+      <Text style={[styles.front, { color: theme.text }]}>
+        {splitCloze(card.front).map((segment, index) =>
+          segment.isCloze ? (
+            <Text key={index} style={[styles.cloze, { color: theme.primary }]}>
+              {segment.text}
+            </Text>
+          ) : (
+            segment.text
+          ),
+        )}
+      </Text>
+    );
+  };
+
+  return (
+    <View style={[styles.container, { backgroundColor: theme.card }]}>
+      <TouchableOpacity
+        onPress={onFlip}
+        disabled={flipped}
+        activeOpacity={0.8}
+        accessibilityRole="button"
+        accessibilityLabel={flipped ? 'Answer shown' : 'Show answer'}
+        testID="flashcard">
+        {card.imageUrl && (
+          <Image
+            source={{ uri: card.imageUrl }}
+            style={styles.image}
+            contentFit="contain"
+          />
+        )}
+        {renderFront()}
+
+        {flipped && card.back ? (
+          <>
+            <View style={[styles.divider, { backgroundColor: theme.border }]} />
+            <Text style={[styles.back, { color: theme.text }]}>
+              {card.back}
+            </Text>
+          </>
+        ) : null}
+
+        {!flipped && (
+          <Text style={[styles.hint, { color: theme.textSecondary }]}>
+            Tap to show the answer
+          </Text>
+        )}
+      </TouchableOpacity>
+
+      {flipped && (
+        <View style={styles.ratings}>
+          {FLASHCARD_RATINGS.map(rating => (
+            <TouchableOpacity
+              key={rating.quality}
+              style={[styles.ratingButton, { borderColor: rating.color }]}
+              onPress={() => onRate(rating.quality)}
+              disabled={disabled}
+              accessibilityRole="button"
+              accessibilityLabel={`Rate ${rating.label}`}>
+              <Text style={[styles.ratingLabel, { color: rating.color }]}>
+                {rating.label}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    borderRadius: 16,
+    padding: 20,
+    marginVertical: 10,
+  },
+  image: {
+    width: '100%',
+    height: 180,
+    marginBottom: 16,
+    borderRadius: 12,
+  },
+  front: {
+    fontSize: 20,
+    fontWeight: FONT_WEIGHTS.semibold,
+    textAlign: 'center',
+  },
+  cloze: {
+    fontWeight: FONT_WEIGHTS.bold,
+    textDecorationLine: 'underline',
+  },
+  divider: {
+    height: 1,
+    marginVertical: 16,
+  },
+  back: {
+    fontSize: 17,
+    textAlign: 'center',
+  },
+  hint: {
+    fontSize: 13,
+    textAlign: 'center',
+    marginTop: 16,
+  },
+  ratings: {
+    flexDirection: 'row',
+    gap: 8,
+    marginTop: 20,
+  },
+  ratingButton: {
+    flex: 1,
+    paddingVertical: 12,
+    borderRadius: 12,
+    borderWidth: 2,
+    alignItems: 'center',
+  },
+  ratingLabel: {
+    fontSize: 15,
+    fontWeight: FONT_WEIGHTS.semibold,
+  },
+});
@@ -0,0 +1,204 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { AppState, AppStateStatus } from 'react-native';
+import { generateUUID } from '@/utils/uuid';
+import { FocusLogRequest } from '@/types/api';
+import {
+  FocusProgress,
+  FocusTimerConfig,
+  FocusTimerState,
+  DEFAULT_FOCUS_TIMER_CONFIG,
+  buildFocusLog,
+  getFocusProgress,
+  isFocusTimerRunning,
+  pauseFocusTimer,
+  recordAppBackground,
+  recordAppForeground,
+  resumeFocusTimer,
+  startFocusTimer,
+} from '../services/focusTimer';
+import { focusTimerService } from '../services/focusTimerService';
+
+export interface UseFocusTimerReturn {
+  loading: boolean;
+  config: FocusTimerConfig;
+  setConfig: (config: FocusTimerConfig) => void;
+  timer: FocusTimerState | null;
+  progress: FocusProgress | null;
+  isRunning: boolean;
+  /** Summary of the run that just ended */
+  result: (FocusLogRequest & { saved: boolean }) | null;
+  start: () => Promise<void>;
+  pause: () => Promise<void>;
+  resume: () => Promise<void>;
+  stop: () => Promise<void>;
+  dismissResult: () => void;
+}
+
+/**
+ * Drives the focus timer for a study session
+ *
+ * Only one run exists at a time. It's kept in storage and its phase-end
+ * notifications are scheduled up front, so the timer keeps going while the
+ * app is in the background; the run is logged when its last phase ends or
+ * the user stops it.
+ *
+ * @param studySessionId - Study session the time is recorded against; an
+ * already running timer keeps its own session
+ */
+export const useFocusTimer = (
+  studySessionId: string | null,
+): UseFocusTimerReturn => {
+  const [loading, setLoading] = useState(true);
+  const [config, setConfigState] = useState<FocusTimerConfig>(
+    DEFAULT_FOCUS_TIMER_CONFIG,
+  );
+  const [timer, setTimer] = useState<FocusTimerState | null>(null);
+  const [now, setNow] = useState(() => new Date());
+  const [result, setResult] = useState<UseFocusTimerReturn['result']>(null);
+  const timerRef = useRef<FocusTimerState | null>(null);
+  const finishingRef = useRef(false);
+
+  const updateTimer = useCallback(async (next: FocusTimerState | null) => {
+    timerRef.current = next;
+    setTimer(next);
+    setNow(new Date());
+    if (next) {
+      await focusTimerService.saveActiveTimer(next);
+    } else {
+      await focusTimerService.clearActiveTimer();
+    }
+  }, []);
+
+  const finish = useCallback(
+    async (state: FocusTimerState) => {
+      if (finishingRef.current) return;
+      finishingRef.current = true;
+
+      try {
+        const endedAt = new Date();
+        await focusTimerService.cancelNotifications(state);
+        const saved = await focusTimerService.recordLog(state, endedAt);
+        setResult({ ...buildFocusLog(state, endedAt), saved });
+        await updateTimer(null);
+      } finally {
+        finishingRef.current = false;
+      }
+    },
+    [updateTimer],
+  );
+
+  // Restore a run started earlier and retry logs that couldn't be sent
+  useEffect(() => {
+    let cancelled = false;
+
+    const load = async () => {
+      const [savedConfig, activeTimer] = await Promise.all([
+        focusTimerService.getConfig(),
+        focusTimerService.getActiveTimer(),
+      ]);
+      if (cancelled) return;
+
+      setConfigState(savedConfig);
+      timerRef.current = activeTimer;
+      setTimer(activeTimer);
+      setNow(new Date());
+      setLoading(false);
+
+      focusTimerService.flushPendingLogs().catch(() => {});
+    };
+
+    load();
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  // Tick while running
+  useEffect(() => {
+    if (!timer || !isFocusTimerRunning(timer)) return;
+
+    const interval = setInterval(() => setNow(new Date()), 1000);
+    return () => clearInterval(interval);
+  }, [timer]);
+
+  const progress = timer ? getFocusProgress(timer, now) : null;
+
+  useEffect(() => {
+    if (timer && progress?.isFinished) {
+      finish(timer);
+    }
+  }, [timer, progress?.isFinished, finish]);
+
+  useEffect(() => {
+    const subscription = AppState.addEventListener(
+      'change',
+      (nextAppState: AppStateStatus) => {
+        const current = timerRef.current;
+        if (!current) return;
+
+        if (nextAppState === 'background') {
+          updateTimer(recordAppBackground(current));
+        } else if (nextAppState === 'active') {
+          updateTimer(recordAppForeground(current));
+        }
+      },
+    );
+
+    return () => {
+      subscription.remove();
+    };
+  }, [updateTimer]);
+
+  const setConfig = useCallback((next: FocusTimerConfig) => {
+    setConfigState(next);
+    focusTimerService.saveConfig(next);
+  }, []);
+
+  const start = useCallback(async () => {
+    if (timerRef.current) return;
+
+    setResult(null);
+    const next = startFocusTimer(generateUUID(), studySessionId, config);
+    await updateTimer(next);
+    await focusTimerService.scheduleNotifications(next);
+  }, [config, studySessionId, updateTimer]);
+
+  const pause = useCallback(async () => {
+    const current = timerRef.current;
+    if (!current) return;
+
+    await focusTimerService.cancelNotifications(current);
+    await updateTimer(pauseFocusTimer(current));
+  }, [updateTimer]);
+
+  const resume = useCallback(async () => {
+    const current = timerRef.current;
+    if (!current) return;
+
+    const next = resumeFocusTimer(current);
+    await updateTimer(next);
+    await focusTimerService.scheduleNotifications(next);
+  }, [updateTimer]);
+
+  const stop = useCallback(async () => {
+    const current = timerRef.current;
+    if (current) await finish(current);
+  }, [finish]);
+
+  const dismissResult = useCallback(() => setResult(null), []);
+
+  return {
+    loading,
+    config,
+    setConfig,
+    timer,
+    progress,
+    isRunning: !!timer && isFocusTimerRunning(timer),
+    result,
+    start,
+    pause,
+    resume,
+    stop,
+    dismissResult,
+  };
+};
@@ -18,7 +18,7 @@ import DateTimePicker from '@react-native-community/datetimepicker';
 import { Ionicons } from '@expo/vector-icons';
 import { format } from 'date-fns';
 
-import { RootStackParamList, Course } from '@/types';
+import { RootStackParamList, Course, TaskPriority } from '@/types';
 import { useAuth } from '@/contexts/AuthContext';
 import { useNetwork } from '@/contexts/NetworkContext';
 import {
@@ -42,8 +42,10 @@ import { mapErrorCodeToMessage, getErrorTitle } from '@/utils/errorMapping';
 import { COLORS, FONT_SIZES, FONT_WEIGHTS, SPACING } from '@/constants/theme';
 import { saveDraft, getDraft, clearDraft } from '@/utils/draftStorage';
 import { debounce } from '@/utils/debounce';
+import { DEFAULT_TASK_PRIORITY } from '@/utils/taskTags';
 import { TemplateBrowserModal } from '@/shared/components/TemplateBrowserModal';
 import { EmptyStateModal } from '@/shared/components/EmptyStateModal';
+import { TaskPriorityTagsSection } from '@/shared/components/task-forms';
 import { useTemplateManagement } from '@/shared/hooks/useTemplateManagement';
 import { useTemplateSelection } from '@/shared/hooks/useTemplateSelection';
 import {
@@ -75,7 +77,7 @@ const AddStudySessionScreen = () => {
     useMonthlyTaskCount();
   const { isFirstTask, isLoading: isTotalTaskCountLoading } =
     useTotalTaskCount();
-  const { theme } = useTheme();
+  const { theme, isDark } = useTheme();
   const insets = useSafeAreaInsets();
   const {
     currentReminders,
@@ -120,6 +122,10 @@ const AddStudySessionScreen = () => {
   const [description, setDescription] = useState('');
   const [hasSpacedRepetition, setHasSpacedRepetition] = useState(false);
   const [reminders, setReminders] = useState<number[]>([15]); // Default 15-min reminder
+  const [priority, setPriority] = useState<TaskPriority>(
+    initialData?.priority || DEFAULT_TASK_PRIORITY,
+  );
+  const [tagIds, setTagIds] = useState<string[]>(initialData?.tagIds || []);
 
   // UI state
   const [showOptionalFields, setShowOptionalFields] = useState(true);
@@ -149,6 +155,12 @@ const AddStudySessionScreen = () => {
       if (taskToEdit.description) {
         setDescription(taskToEdit.description);
       }
+      if (taskToEdit.priority) {
+        setPriority(taskToEdit.priority);
+      }
+      if (taskToEdit.tag_ids) {
+        setTagIds(taskToEdit.tag_ids);
+      }
       // Note: hasSpacedRepetition would need to come from study session data
       // which isn't fully available in Task type - this is a limitation
     }
@@ -170,6 +182,8 @@ const AddStudySessionScreen = () => {
         setDescription(draft.description || '');
         setHasSpacedRepetition(draft.hasSpacedRepetition || false);
         setReminders(draft.reminders || [15]);
+        setPriority(draft.priority || DEFAULT_TASK_PRIORITY);
+        setTagIds(draft.tagIds || []);
       }
     };
 
@@ -189,6 +203,8 @@ const AddStudySessionScreen = () => {
         description,
         hasSpacedRepetition,
         reminders,
+        priority,
+        tagIds,
       });
     }, 1000);
 
@@ -204,6 +220,8 @@ const AddStudySessionScreen = () => {
     description,
     hasSpacedRepetition,
     reminders,
+    priority,
+    tagIds,
   ]);
 
   // Fetch courses
@@ -371,6 +389,8 @@ const AddStudySessionScreen = () => {
         session_date: sessionDate.toISOString(),
         has_spaced_repetition: hasSpacedRepetition,
         reminders,
+        priority,
+        tag_ids: tagIds,
       };
 
       const isEditing = taskToEdit && taskToEdit.id;
@@ -527,6 +547,29 @@ const AddStudySessionScreen = () => {
           styles.scrollContent,
           { paddingBottom: insets.bottom + 100 },
         ]}>
+        <TouchableOpacity
+          style={[
+            styles.planButton,
+            { backgroundColor: isDark ? '#1C252E' : '#FFFFFF' },
+          ]}
+          onPress={() => navigation.navigate('StudyPlanner')}
+          accessibilityRole="button">
+          <Ionicons name="sparkles-outline" size={20} color={theme.accent} />
+          <View style={styles.planButtonText}>
+            <Text
+              style={[
+                styles.planButtonTitle,
+                { color: isDark ? '#FFFFFF' : '#111418' },
+              ]}>
+              Plan my study time
+            </Text>
+            <Text style={styles.planButtonSubtitle}>
+              Fit sessions into free time before your deadlines
+            </Text>
+          </View>
+          <Ionicons name="chevron-forward" size={18} color="#9CA3AF" />
+        </TouchableOpacity>
+
         {/* Required Fields Section */}
         <View style={styles.section}>
           <Text
@@ -674,6 +717,13 @@ const AddStudySessionScreen = () => {
             </View>
           </View>
 
+          <TaskPriorityTagsSection
+            priority={priority}
+            onPriorityChange={setPriority}
+            tagIds={tagIds}
+            onTagIdsChange={setTagIds}
+          />
+
           {/* Spaced Repetition */}
           <View style={styles.field}>
             <TemplateCard
@@ -1009,6 +1059,26 @@ const styles = StyleSheet.create({
     paddingTop: SPACING.lg,
     paddingBottom: SPACING.md,
   },
+  planButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 24,
+  },
+  planButtonText: {
+    flex: 1,
+    marginLeft: 12,
+  },
+  planButtonTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  planButtonSubtitle: {
+    fontSize: 13,
+    color: '#9CA3AF',
+    marginTop: 2,
+  },
   section: {
     marginBottom: SPACING.lg,
   },
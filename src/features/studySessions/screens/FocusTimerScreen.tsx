@@ -0,0 +1,481 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  ActivityIndicator,
+  TouchableOpacity,
+  Alert,
+} from 'react-native';
+import { useRoute, useNavigation, RouteProp } from '@react-navigation/native';
+import { StackNavigationProp } from '@react-navigation/stack';
+import { Ionicons } from '@expo/vector-icons';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+
+import { RootStackParamList } from '@/types';
+import { useTheme } from '@/contexts/ThemeContext';
+import { supabase } from '@/services/supabase';
+import {
+  PrimaryButton,
+  SecondaryButton,
+  OutlineButton,
+} from '@/shared/components';
+import {
+  COLORS,
+  FONT_SIZES,
+  FONT_WEIGHTS,
+  SPACING,
+  BORDER_RADIUS,
+} from '@/constants/theme';
+import { useFocusTimer } from '../hooks/useFocusTimer';
+import { FocusPhaseKind, FocusTimerConfig } from '../services/focusTimer';
+
+type FocusTimerScreenRouteProp = RouteProp<RootStackParamList, 'FocusTimer'>;
+type FocusTimerScreenNavigationProp = StackNavigationProp<
+  RootStackParamList,
+  'FocusTimer'
+>;
+
+const PHASE_LABELS: Record<FocusPhaseKind, string> = {
+  work: 'Focus',
+  short_break: 'Short break',
+  long_break: 'Long break',
+};
+
+const CONFIG_FIELDS: {
+  key: keyof FocusTimerConfig;
+  label: string;
+  unit: string;
+  min: number;
+  max: number;
+  step: number;
+}[] = [
+  { key: 'workMinutes', label: 'Focus', unit: 'min', min: 5, max: 90, step: 5 },
+  {
+    key: 'shortBreakMinutes',
+    label: 'Short break',
+    unit: 'min',
+    min: 1,
+    max: 30,
+    step: 1,
+  },
+  {
+    key: 'longBreakMinutes',
+    label: 'Long break',
+    unit: 'min',
+    min: 5,
+    max: 60,
+    step: 5,
+  },
+  { key: 'cycles', label: 'Cycles', unit: '', min: 1, max: 12, step: 1 },
+  {
+    key: 'longBreakEvery',
+    label: 'Long break every',
+    unit: 'cycles',
+    min: 2,
+    max: 6,
+    step: 1,
+  },
+];
+
+const formatCountdown = (ms: number) => {
+  const totalSeconds = Math.ceil(ms / 1000);
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${String(minutes).padStart(2, '0')}:${String(seconds).padStart(2, '0')}`;
+};
+
+/**
+ * FocusTimerScreen - Pomodoro-style focus timer for a study session
+ *
+ * Runs configurable work/break cycles and records the real time spent
+ * (and interruptions) against the study session when the run ends.
+ */
+const FocusTimerScreen: React.FC = () => {
+  const route = useRoute<FocusTimerScreenRouteProp>();
+  const navigation = useNavigation<FocusTimerScreenNavigationProp>();
+  const { theme } = useTheme();
+  const insets = useSafeAreaInsets();
+
+  const sessionId = route.params?.sessionId ?? null;
+  const {
+    loading,
+    config,
+    setConfig,
+    timer,
+    progress,
+    isRunning,
+    result,
+    start,
+    pause,
+    resume,
+    stop,
+    dismissResult,
+  } = useFocusTimer(sessionId);
+
+  const [topic, setTopic] = useState<string | null>(null);
+  const activeSessionId = timer ? timer.studySessionId : sessionId;
+
+  useEffect(() => {
+    if (!activeSessionId) {
+      setTopic(null);
+      return;
+    }
+
+    supabase
+      .from('study_sessions')
+      .select('topic')
+      .eq('id', activeSessionId)
+      .maybeSingle()
+      .then(({ data }) => setTopic(data?.topic ?? null));
+  }, [activeSessionId]);
+
+  const handleStop = () => {
+    Alert.alert(
+      'End Focus Session?',
+      'The time you have focused so far will be saved.',
+      [
+        { text: 'Keep Going', style: 'cancel' },
+        { text: 'End Session', style: 'destructive', onPress: stop },
+      ],
+    );
+  };
+
+  const renderConfigRow = (field: (typeof CONFIG_FIELDS)[number]) => {
+    const value = config[field.key];
+    const change = (delta: number) =>
+      setConfig({
+        ...config,
+        [field.key]: Math.min(field.max, Math.max(field.min, value + delta)),
+      });
+
+    return (
+      <View
+        key={field.key}
+        style={[styles.configRow, { borderBottomColor: theme.border }]}>
+        <Text style={[styles.configLabel, { color: theme.text }]}>
+          {field.label}
+        </Text>
+        <View style={styles.stepper}>
+          <TouchableOpacity
+            onPress={() => change(-field.step)}
+            disabled={value <= field.min}
+            accessibilityRole="button"
+            accessibilityLabel={`Decrease ${field.label.toLowerCase()}`}>
+            <Ionicons
+              name="remove-circle-outline"
+              size={24}
+              color={value <= field.min ? theme.border : COLORS.primary}
+            />
+          </TouchableOpacity>
+          <Text style={[styles.stepperValue, { color: theme.text }]}>
+            {value}
+            {field.unit ? ` ${field.unit}` : ''}
+          </Text>
+          <TouchableOpacity
+            onPress={() => change(field.step)}
+            disabled={value >= field.max}
+            accessibilityRole="button"
+            accessibilityLabel={`Increase ${field.label.toLowerCase()}`}>
+            <Ionicons
+              name="add-circle-outline"
+              size={24}
+              color={value >= field.max ? theme.border : COLORS.primary}
+            />
+          </TouchableOpacity>
+        </View>
+      </View>
+    );
+  };
+
+  const renderSetup = () => (
+    <>
+      <View
+        style={[
+          styles.card,
+          { backgroundColor: theme.surface, borderColor: theme.border },
+        ]}>
+        {CONFIG_FIELDS.filter(
+          field => field.key !== 'longBreakEvery' || config.cycles > 2,
+        ).map(renderConfigRow)}
+        <Text style={[styles.hint, { color: theme.textSecondary }]}>
+          {config.cycles} × {config.workMinutes} min of focus. You will get a
+          notification when each phase ends, even if you leave the app.
+        </Text>
+      </View>
+      <PrimaryButton title="Start Focusing" onPress={start} />
+    </>
+  );
+
+  const renderRunning = () => {
+    if (!timer || !progress) return null;
+
+    const isBreak = progress.phase.kind !== 'work';
+    const phaseColor = isBreak ? COLORS.success : COLORS.primary;
+
+    return (
+      <>
+        <View style={styles.timerSection}>
+          <Text style={[styles.phaseLabel, { color: phaseColor }]}>
+            {PHASE_LABELS[progress.phase.kind]}
+            {isRunning ? '' : ' · Paused'}
+          </Text>
+          <Text
+            style={[styles.countdown, { color: theme.text }]}
+            accessibilityRole="timer">
+            {formatCountdown(progress.remainingMs)}
+          </Text>
+          <Text style={[styles.cycleLabel, { color: theme.textSecondary }]}>
+            Cycle {progress.phase.cycle} of {timer.config.cycles}
+          </Text>
+          <View style={styles.cycleDots}>
+            {Array.from({ length: timer.config.cycles }, (_, index) => (
+              <View
+                key={index}
+                style={[
+                  styles.cycleDot,
+                  {
+                    backgroundColor:
+                      index < progress.completedCycles
+                        ? COLORS.primary
+                        : theme.border,
+                  },
+                ]}
+              />
+            ))}
+          </View>
+        </View>
+
+        <View style={styles.actions}>
+          {isRunning ? (
+            <SecondaryButton title="Pause" onPress={pause} />
+          ) : (
+            <PrimaryButton title="Resume" onPress={resume} />
+          )}
+          <OutlineButton title="End Session" onPress={handleStop} />
+        </View>
+      </>
+    );
+  };
+
+  const renderResult = () => {
+    if (!result) return null;
+
+    const focusedMinutes = Math.round(result.focused_seconds / 60);
+    return (
+      <>
+        <View
+          style={[
+            styles.card,
+            styles.resultCard,
+            { backgroundColor: theme.surface, borderColor: theme.border },
+          ]}>
+          <Ionicons
+            name={
+              result.status === 'completed'
+                ? 'trophy-outline'
+                : 'checkmark-circle-outline'
+            }
+            size={40}
+            color={COLORS.primary}
+          />
+          <Text style={[styles.resultTitle, { color: theme.text }]}>
+            {result.status === 'completed'
+              ? 'Session complete'
+              : 'Session ended'}
+          </Text>
+          <Text style={[styles.resultStat, { color: theme.text }]}>
+            {focusedMinutes} min focused · {result.completed_cycles}/
+            {result.planned_cycles} cycles
+          </Text>
+          <Text style={[styles.hint, { color: theme.textSecondary }]}>
+            {result.interruptions.length === 0
+              ? 'No interruptions'
+              : `${result.interruptions.length} interruption${result.interruptions.length === 1 ? '' : 's'}`}
+          </Text>
+          {!result.saved && (
+            <Text style={[styles.hint, { color: theme.textSecondary }]}>
+              Saved on this device; it will sync when you are back online.
+            </Text>
+          )}
+        </View>
+        <PrimaryButton
+          title="Done"
+          onPress={() => {
+            dismissResult();
+            navigation.goBack();
+          }}
+        />
+      </>
+    );
+  };
+
+  return (
+    <View
+      style={[
+        styles.container,
+        { backgroundColor: theme.background, paddingTop: insets.top },
+      ]}
+      testID="focus-timer-screen">
+      <View style={[styles.header, { borderBottomColor: theme.border }]}>
+        <TouchableOpacity
+          onPress={() => navigation.goBack()}
+          style={styles.backButton}
+          testID="back-button"
+          hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}>
+          <Ionicons name="arrow-back" size={20} color={theme.text} />
+        </TouchableOpacity>
+        <Text style={[styles.headerTitle, { color: theme.text }]}>
+          Focus Timer
+        </Text>
+        <View style={styles.headerSpacer} />
+      </View>
+
+      {loading ? (
+        <View style={styles.loadingContainer}>
+          <ActivityIndicator size="large" color={COLORS.primary} />
+        </View>
+      ) : (
+        <ScrollView
+          style={styles.content}
+          contentContainerStyle={[
+            styles.contentContainer,
+            { paddingBottom: insets.bottom + SPACING.xl },
+          ]}
+          showsVerticalScrollIndicator={false}>
+          {topic && (
+            <Text style={[styles.topic, { color: theme.textSecondary }]}>
+              {topic}
+            </Text>
+          )}
+          {result ? renderResult() : timer ? renderRunning() : renderSetup()}
+        </ScrollView>
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: SPACING.md,
+    paddingTop: SPACING.md,
+    paddingBottom: SPACING.md,
+    borderBottomWidth: 1,
+  },
+  backButton: {
+    width: 40,
+    height: 40,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  headerSpacer: {
+    width: 40,
+  },
+  headerTitle: {
+    fontSize: FONT_SIZES.xl,
+    fontWeight: FONT_WEIGHTS.bold,
+    flex: 1,
+    textAlign: 'center',
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  content: {
+    flex: 1,
+  },
+  contentContainer: {
+    padding: SPACING.md,
+    gap: SPACING.md,
+  },
+  topic: {
+    fontSize: FONT_SIZES.md,
+    fontWeight: FONT_WEIGHTS.medium,
+    textAlign: 'center',
+  },
+  card: {
+    borderRadius: BORDER_RADIUS.md,
+    borderWidth: 1,
+    padding: SPACING.md,
+  },
+  configRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingVertical: SPACING.sm,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+  },
+  configLabel: {
+    fontSize: FONT_SIZES.md,
+    fontWeight: FONT_WEIGHTS.medium,
+  },
+  stepper: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: SPACING.sm,
+  },
+  stepperValue: {
+    minWidth: 72,
+    textAlign: 'center',
+    fontSize: FONT_SIZES.md,
+    fontWeight: FONT_WEIGHTS.semibold,
+  },
+  hint: {
+    marginTop: SPACING.sm,
+    fontSize: FONT_SIZES.sm,
+    textAlign: 'center',
+  },
+  timerSection: {
+    alignItems: 'center',
+    paddingVertical: SPACING.xl,
+  },
+  phaseLabel: {
+    fontSize: FONT_SIZES.lg,
+    fontWeight: FONT_WEIGHTS.semibold,
+  },
+  countdown: {
+    fontSize: 72,
+    fontWeight: FONT_WEIGHTS.bold,
+    fontVariant: ['tabular-nums'],
+    marginVertical: SPACING.md,
+  },
+  cycleLabel: {
+    fontSize: FONT_SIZES.md,
+  },
+  cycleDots: {
+    flexDirection: 'row',
+    gap: SPACING.sm,
+    marginTop: SPACING.md,
+  },
+  cycleDot: {
+    width: 10,
+    height: 10,
+    borderRadius: 5,
+  },
+  actions: {
+    gap: SPACING.sm,
+  },
+  resultCard: {
+    alignItems: 'center',
+  },
+  resultTitle: {
+    marginTop: SPACING.sm,
+    fontSize: FONT_SIZES.xl,
+    fontWeight: FONT_WEIGHTS.bold,
+  },
+  resultStat: {
+    marginTop: SPACING.sm,
+    fontSize: FONT_SIZES.md,
+    fontWeight: FONT_WEIGHTS.medium,
+  },
+});
+
+export default FocusTimerScreen;
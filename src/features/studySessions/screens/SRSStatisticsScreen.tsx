@@ -13,6 +13,10 @@ import { Ionicons } from '@expo/vector-icons';
 import { useTheme } from '@/contexts/ThemeContext';
 import { useAuth } from '@/contexts/AuthContext';
 import { getSRSStatistics } from '@/utils/reminderUtils';
+import {
+  SRSAnalyticsService,
+  SchedulerFit,
+} from '@/features/srs/services/SRSAnalyticsService';
 
 interface SRSStats {
   total_reviews: number;
@@ -39,6 +43,7 @@ export function SRSStatisticsScreen() {
   const { theme } = useTheme();
   const { user } = useAuth();
   const [stats, setStats] = useState<SRSStats | null>(null);
+  const [schedulerFit, setSchedulerFit] = useState<SchedulerFit | null>(null);
   const [loading, setLoading] = useState(true);
   const [refreshing, setRefreshing] = useState(false);
 
@@ -50,8 +55,12 @@ export function SRSStatisticsScreen() {
     if (!user) return;
 
     try {
-      const data = await getSRSStatistics(user.id);
+      const [data, fit] = await Promise.all([
+        getSRSStatistics(user.id),
+        SRSAnalyticsService.getInstance().getSchedulerFit(user.id),
+      ]);
       setStats(data);
+      setSchedulerFit(fit);
     } catch (error) {
       console.error('Error loading SRS statistics:', error);
     } finally {
@@ -85,7 +94,7 @@ export function SRSStatisticsScreen() {
     );
   }
 
-  if (!stats) {
+  if (!stats && !schedulerFit) {
     return (
       <View style={[styles.container, { backgroundColor: theme.background }]}>
         <View style={styles.header}>
@@ -140,142 +149,215 @@ export function SRSStatisticsScreen() {
             tintColor={theme.primary}
           />
         }>
-        {/* Overview Stats */}
-        <View style={styles.statsGrid}>
-          <View style={[styles.statCard, { backgroundColor: theme.card }]}>
-            <Ionicons name="sync-outline" size={24} color={theme.primary} />
-            <Text style={[styles.statValue, { color: theme.text }]}>
-              {stats.total_reviews}
-            </Text>
-            <Text style={[styles.statLabel, { color: theme.textSecondary }]}>
-              Total Reviews
-            </Text>
-          </View>
-
-          <View style={[styles.statCard, { backgroundColor: theme.card }]}>
-            <Ionicons name="trending-up-outline" size={24} color="#10B981" />
-            <Text style={[styles.statValue, { color: theme.text }]}>
-              {stats.retention_rate.toFixed(0)}%
-            </Text>
-            <Text style={[styles.statLabel, { color: theme.textSecondary }]}>
-              Retention Rate
-            </Text>
-          </View>
+        {stats && (
+          <>
+            {/* Overview Stats */}
+            <View style={styles.statsGrid}>
+              <View style={[styles.statCard, { backgroundColor: theme.card }]}>
+                <Ionicons name="sync-outline" size={24} color={theme.primary} />
+                <Text style={[styles.statValue, { color: theme.text }]}>
+                  {stats.total_reviews}
+                </Text>
+                <Text
+                  style={[styles.statLabel, { color: theme.textSecondary }]}>
+                  Total Reviews
+                </Text>
+              </View>
 
-          <View style={[styles.statCard, { backgroundColor: theme.card }]}>
-            <Ionicons name="library-outline" size={24} color={theme.primary} />
-            <Text style={[styles.statValue, { color: theme.text }]}>
-              {stats.topics_reviewed}
-            </Text>
-            <Text style={[styles.statLabel, { color: theme.textSecondary }]}>
-              Topics Reviewed
-            </Text>
-          </View>
+              <View style={[styles.statCard, { backgroundColor: theme.card }]}>
+                <Ionicons
+                  name="trending-up-outline"
+                  size={24}
+                  color="#10B981"
+                />
+                <Text style={[styles.statValue, { color: theme.text }]}>
+                  {stats.retention_rate.toFixed(0)}%
+                </Text>
+                <Text
+                  style={[styles.statLabel, { color: theme.textSecondary }]}>
+                  Retention Rate
+                </Text>
+              </View>
 
-          <View style={[styles.statCard, { backgroundColor: theme.card }]}>
-            <Ionicons name="star-outline" size={24} color="#FBBF24" />
-            <Text style={[styles.statValue, { color: theme.text }]}>
-              {stats.average_quality.toFixed(1)}
-            </Text>
-            <Text style={[styles.statLabel, { color: theme.textSecondary }]}>
-              Avg Quality
-            </Text>
-          </View>
-        </View>
+              <View style={[styles.statCard, { backgroundColor: theme.card }]}>
+                <Ionicons
+                  name="library-outline"
+                  size={24}
+                  color={theme.primary}
+                />
+                <Text style={[styles.statValue, { color: theme.text }]}>
+                  {stats.topics_reviewed}
+                </Text>
+                <Text
+                  style={[styles.statLabel, { color: theme.textSecondary }]}>
+                  Topics Reviewed
+                </Text>
+              </View>
 
-        {/* Strongest Topics */}
-        {stats.strongest_topics && stats.strongest_topics.length > 0 && (
-          <View style={[styles.section, { backgroundColor: theme.card }]}>
-            <View style={styles.sectionHeader}>
-              <Ionicons name="trophy-outline" size={20} color="#10B981" />
-              <Text style={[styles.sectionTitle, { color: theme.text }]}>
-                Strongest Topics
-              </Text>
+              <View style={[styles.statCard, { backgroundColor: theme.card }]}>
+                <Ionicons name="star-outline" size={24} color="#FBBF24" />
+                <Text style={[styles.statValue, { color: theme.text }]}>
+                  {stats.average_quality.toFixed(1)}
+                </Text>
+                <Text
+                  style={[styles.statLabel, { color: theme.textSecondary }]}>
+                  Avg Quality
+                </Text>
+              </View>
             </View>
-            {stats.strongest_topics.map((topic, index) => (
-              <View key={topic.session_id} style={styles.topicRow}>
-                <View style={styles.topicRank}>
-                  <Text
-                    style={[styles.rankText, { color: theme.textSecondary }]}>
-                    {index + 1}
-                  </Text>
-                </View>
-                <View style={styles.topicInfo}>
-                  <Text style={[styles.topicName, { color: theme.text }]}>
-                    {topic.topic}
-                  </Text>
-                  <Text
-                    style={[styles.topicStats, { color: theme.textSecondary }]}>
-                    Quality: {topic.avg_quality?.toFixed(1)} • Ease:{' '}
-                    {topic.ease_factor?.toFixed(1)}
+
+            {/* Strongest Topics */}
+            {stats.strongest_topics && stats.strongest_topics.length > 0 && (
+              <View style={[styles.section, { backgroundColor: theme.card }]}>
+                <View style={styles.sectionHeader}>
+                  <Ionicons name="trophy-outline" size={20} color="#10B981" />
+                  <Text style={[styles.sectionTitle, { color: theme.text }]}>
+                    Strongest Topics
                   </Text>
                 </View>
-                <View
-                  style={[
-                    styles.qualityBadge,
-                    {
-                      backgroundColor:
-                        getQualityColor(topic.avg_quality) + '20',
-                    },
-                  ]}>
-                  <Text
-                    style={{
-                      color: getQualityColor(topic.avg_quality),
-                      fontWeight: '600',
-                    }}>
-                    {topic.avg_quality?.toFixed(1)}
+                {stats.strongest_topics.map((topic, index) => (
+                  <View key={topic.session_id} style={styles.topicRow}>
+                    <View style={styles.topicRank}>
+                      <Text
+                        style={[
+                          styles.rankText,
+                          { color: theme.textSecondary },
+                        ]}>
+                        {index + 1}
+                      </Text>
+                    </View>
+                    <View style={styles.topicInfo}>
+                      <Text style={[styles.topicName, { color: theme.text }]}>
+                        {topic.topic}
+                      </Text>
+                      <Text
+                        style={[
+                          styles.topicStats,
+                          { color: theme.textSecondary },
+                        ]}>
+                        Quality: {topic.avg_quality?.toFixed(1)} • Ease:{' '}
+                        {topic.ease_factor?.toFixed(1)}
+                      </Text>
+                    </View>
+                    <View
+                      style={[
+                        styles.qualityBadge,
+                        {
+                          backgroundColor:
+                            getQualityColor(topic.avg_quality) + '20',
+                        },
+                      ]}>
+                      <Text
+                        style={{
+                          color: getQualityColor(topic.avg_quality),
+                          fontWeight: '600',
+                        }}>
+                        {topic.avg_quality?.toFixed(1)}
+                      </Text>
+                    </View>
+                  </View>
+                ))}
+              </View>
+            )}
+
+            {/* Weakest Topics */}
+            {stats.weakest_topics && stats.weakest_topics.length > 0 && (
+              <View style={[styles.section, { backgroundColor: theme.card }]}>
+                <View style={styles.sectionHeader}>
+                  <Ionicons
+                    name="alert-circle-outline"
+                    size={20}
+                    color="#F59E0B"
+                  />
+                  <Text style={[styles.sectionTitle, { color: theme.text }]}>
+                    Topics Needing Practice
                   </Text>
                 </View>
+                {stats.weakest_topics.map((topic, index) => (
+                  <View key={topic.session_id} style={styles.topicRow}>
+                    <View style={styles.topicRank}>
+                      <Text
+                        style={[
+                          styles.rankText,
+                          { color: theme.textSecondary },
+                        ]}>
+                        {index + 1}
+                      </Text>
+                    </View>
+                    <View style={styles.topicInfo}>
+                      <Text style={[styles.topicName, { color: theme.text }]}>
+                        {topic.topic}
+                      </Text>
+                      <Text
+                        style={[
+                          styles.topicStats,
+                          { color: theme.textSecondary },
+                        ]}>
+                        Quality: {topic.avg_quality?.toFixed(1)} • Ease:{' '}
+                        {topic.ease_factor?.toFixed(1)}
+                      </Text>
+                    </View>
+                    <View
+                      style={[
+                        styles.qualityBadge,
+                        {
+                          backgroundColor:
+                            getQualityColor(topic.avg_quality) + '20',
+                        },
+                      ]}>
+                      <Text
+                        style={{
+                          color: getQualityColor(topic.avg_quality),
+                          fontWeight: '600',
+                        }}>
+                        {topic.avg_quality?.toFixed(1)}
+                      </Text>
+                    </View>
+                  </View>
+                ))}
               </View>
-            ))}
-          </View>
+            )}
+          </>
         )}
 
-        {/* Weakest Topics */}
-        {stats.weakest_topics && stats.weakest_topics.length > 0 && (
+        {/* Scheduler Accuracy */}
+        {schedulerFit && (
           <View style={[styles.section, { backgroundColor: theme.card }]}>
             <View style={styles.sectionHeader}>
-              <Ionicons name="alert-circle-outline" size={20} color="#F59E0B" />
+              <Ionicons name="pulse-outline" size={20} color={theme.primary} />
               <Text style={[styles.sectionTitle, { color: theme.text }]}>
-                Topics Needing Practice
+                Scheduler Accuracy
               </Text>
             </View>
-            {stats.weakest_topics.map((topic, index) => (
-              <View key={topic.session_id} style={styles.topicRow}>
-                <View style={styles.topicRank}>
-                  <Text
-                    style={[styles.rankText, { color: theme.textSecondary }]}>
-                    {index + 1}
-                  </Text>
-                </View>
-                <View style={styles.topicInfo}>
-                  <Text style={[styles.topicName, { color: theme.text }]}>
-                    {topic.topic}
-                  </Text>
-                  <Text
-                    style={[styles.topicStats, { color: theme.textSecondary }]}>
-                    Quality: {topic.avg_quality?.toFixed(1)} • Ease:{' '}
-                    {topic.ease_factor?.toFixed(1)}
-                  </Text>
-                </View>
-                <View
-                  style={[
-                    styles.qualityBadge,
-                    {
-                      backgroundColor:
-                        getQualityColor(topic.avg_quality) + '20',
-                    },
-                  ]}>
-                  <Text
-                    style={{
-                      color: getQualityColor(topic.avg_quality),
-                      fontWeight: '600',
-                    }}>
-                    {topic.avg_quality?.toFixed(1)}
-                  </Text>
-                </View>
-              </View>
-            ))}
+            <View style={styles.fitRow}>
+              <Text style={[styles.fitLabel, { color: theme.textSecondary }]}>
+                Predicted retention
+              </Text>
+              <Text style={[styles.fitValue, { color: theme.text }]}>
+                {schedulerFit.predictedRetention.toFixed(0)}%
+              </Text>
+            </View>
+            <View style={styles.fitRow}>
+              <Text style={[styles.fitLabel, { color: theme.textSecondary }]}>
+                Actual retention
+              </Text>
+              <Text style={[styles.fitValue, { color: theme.text }]}>
+                {schedulerFit.actualRetention.toFixed(0)}%
+              </Text>
+            </View>
+            <View style={styles.fitRow}>
+              <Text style={[styles.fitLabel, { color: theme.textSecondary }]}>
+                Retention across all reviews
+              </Text>
+              <Text style={[styles.fitValue, { color: theme.text }]}>
+                {schedulerFit.currentRetentionRate.toFixed(0)}%
+              </Text>
+            </View>
+            <Text style={[styles.topicStats, { color: theme.textSecondary }]}>
+              {schedulerFit.isPersonalized
+                ? `Personalized parameters v${schedulerFit.version}, fitted on ${schedulerFit.reviewCount} reviews`
+                : `Default parameters still fit your ${schedulerFit.reviewCount} reviews best`}
+            </Text>
           </View>
         )}
 
@@ -423,6 +505,18 @@ const styles = StyleSheet.create({
     textAlign: 'center',
     lineHeight: 20,
   },
+  fitRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    paddingVertical: 8,
+  },
+  fitLabel: {
+    fontSize: 14,
+  },
+  fitValue: {
+    fontSize: 15,
+    fontWeight: '600',
+  },
   infoBox: {
     flexDirection: 'row',
     padding: 16,
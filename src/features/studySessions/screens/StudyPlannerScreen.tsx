@@ -0,0 +1,381 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  ScrollView,
+  Alert,
+  ActivityIndicator,
+} from 'react-native';
+import { useFocusEffect, useNavigation } from '@react-navigation/native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
+import { format } from 'date-fns';
+import { useTheme } from '@/hooks/useTheme';
+import { useAcceptStudyPlan, useStudyPlan } from '@/hooks/useStudyPlan';
+import { COLORS, FONT_WEIGHTS } from '@/constants/theme';
+import { mapErrorCodeToMessage, getErrorTitle } from '@/utils/errorMapping';
+import {
+  buildAcceptStudyPlanRequest,
+  describeStudyPlanChanges,
+  formatStudyMinutes,
+  getStudyPlanBlockKey,
+  groupStudyPlanBlocks,
+  STUDY_PLAN_REMINDER_MINUTES,
+} from '@/utils/studyPlan';
+import { StudyPlanProposal } from '@/types';
+
+const formatDue = (dueDate: string) =>
+  `Due ${format(new Date(dueDate), 'EEE, MMM d · h:mm a')}`;
+
+const StudyPlannerScreen = () => {
+  const navigation = useNavigation();
+  const insets = useSafeAreaInsets();
+  const { theme } = useTheme();
+  const { data: plan, isLoading, error, refetch } = useStudyPlan();
+  const acceptPlan = useAcceptStudyPlan();
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+
+  // Deadlines and the calendar may have changed since the last visit
+  useFocusEffect(
+    useCallback(() => {
+      refetch();
+    }, [refetch]),
+  );
+
+  useEffect(() => {
+    if (plan) setSelected(new Set(plan.blocks.map(getStudyPlanBlockKey)));
+  }, [plan]);
+
+  const toggleBlock = useCallback((key: string) => {
+    setSelected(prev => {
+      const next = new Set(prev);
+      if (next.has(key)) next.delete(key);
+      else next.add(key);
+      return next;
+    });
+  }, []);
+
+  const days = useMemo(
+    () => (plan ? groupStudyPlanBlocks(plan.blocks) : []),
+    [plan],
+  );
+  const changes = plan ? describeStudyPlanChanges(plan) : null;
+  const selectedCount = selected.size;
+  const canAccept = selectedCount > 0 || !!changes;
+
+  const handleAccept = useCallback(async () => {
+    if (!plan) return;
+
+    try {
+      const result = await acceptPlan.mutateAsync(
+        buildAcceptStudyPlanRequest(plan, selected),
+      );
+      const created = result.created.length;
+      Alert.alert(
+        'Study plan saved',
+        created > 0
+          ? `Added ${created} study session${created === 1 ? '' : 's'} with a reminder ${STUDY_PLAN_REMINDER_MINUTES} minutes before each.`
+          : 'Your previous plan was updated.',
+        [{ text: 'OK', onPress: () => navigation.goBack() }],
+      );
+    } catch (acceptError) {
+      Alert.alert(
+        getErrorTitle(acceptError),
+        mapErrorCodeToMessage(acceptError),
+      );
+    }
+  }, [plan, selected, acceptPlan, navigation]);
+
+  const renderItems = (data: StudyPlanProposal) => (
+    <View
+      style={[
+        styles.card,
+        { backgroundColor: theme.surface, borderColor: theme.border },
+      ]}>
+      <Text style={[styles.cardTitle, { color: theme.text }]}>
+        Upcoming assignments
+      </Text>
+      {data.items.map(item => (
+        <View key={item.assignment_id} style={styles.itemRow}>
+          <Text style={[styles.itemTitle, { color: theme.text }]}>
+            {item.title}
+          </Text>
+          <Text style={[styles.meta, { color: theme.textSecondary }]}>
+            {formatDue(item.due_date)}
+          </Text>
+          <Text style={[styles.meta, { color: theme.textSecondary }]}>
+            {`${formatStudyMinutes(item.planned_minutes)} of ${formatStudyMinutes(item.estimated_minutes)} planned`}
+            {item.is_default_estimate ? ' · estimated' : ''}
+          </Text>
+        </View>
+      ))}
+      {data.items.some(item => item.is_default_estimate) && (
+        <Text style={[styles.hint, { color: theme.textSecondary }]}>
+          Assignments marked &quot;estimated&quot; have no effort set yet. Add
+          one when editing the assignment for a better plan.
+        </Text>
+      )}
+    </View>
+  );
+
+  const renderPlan = (data: StudyPlanProposal) => (
+    <View>
+      <Text style={[styles.intro, { color: theme.textSecondary }]}>
+        Study blocks fitted around your lectures, quiet hours and preferred
+        study times. Untick any you don't want before adding them.
+      </Text>
+
+      {changes && (
+        <View
+          style={[styles.banner, { backgroundColor: COLORS.warning + '1A' }]}>
+          <Ionicons name="refresh" size={16} color={COLORS.warning} />
+          <Text style={[styles.bannerText, { color: theme.text }]}>
+            {changes}
+          </Text>
+        </View>
+      )}
+
+      {data.items.length > 0 && renderItems(data)}
+
+      {data.unscheduled.map(item => (
+        <View key={item.assignment_id} style={styles.warningRow}>
+          <Ionicons
+            name="alert-circle-outline"
+            size={16}
+            color={COLORS.warning}
+          />
+          <Text style={[styles.warningText, { color: theme.textSecondary }]}>
+            {`${formatStudyMinutes(item.minutes)} of "${item.title}" doesn't fit in your free time before it's due.`}
+          </Text>
+        </View>
+      ))}
+
+      {days.map(day => (
+        <View key={day.title} style={styles.day}>
+          <Text style={[styles.dayTitle, { color: theme.text }]}>
+            {day.title}
+          </Text>
+          {day.blocks.map(block => {
+            const key = getStudyPlanBlockKey(block);
+            const isSelected = selected.has(key);
+            return (
+              <TouchableOpacity
+                key={key}
+                style={[
+                  styles.blockRow,
+                  { backgroundColor: theme.surface, borderColor: theme.border },
+                ]}
+                onPress={() => toggleBlock(key)}
+                accessibilityRole="checkbox"
+                accessibilityState={{ checked: isSelected }}>
+                <Ionicons
+                  name={isSelected ? 'checkbox' : 'square-outline'}
+                  size={22}
+                  color={isSelected ? theme.accent : theme.textSecondary}
+                />
+                <View style={styles.blockInfo}>
+                  <Text style={[styles.blockTitle, { color: theme.text }]}>
+                    {block.title}
+                  </Text>
+                  <Text style={[styles.meta, { color: theme.textSecondary }]}>
+                    {`${format(new Date(block.start), 'h:mm a')} – ${format(new Date(block.end), 'h:mm a')} · ${formatStudyMinutes(block.duration_minutes)}`}
+                  </Text>
+                  <Text style={[styles.meta, { color: theme.textSecondary }]}>
+                    {formatDue(block.due_date)}
+                  </Text>
+                </View>
+              </TouchableOpacity>
+            );
+          })}
+        </View>
+      ))}
+
+      {data.blocks.length === 0 && data.unscheduled.length === 0 && (
+        <Text style={[styles.emptyText, { color: theme.textSecondary }]}>
+          {data.items.length === 0
+            ? 'No assignments are due in the next four weeks.'
+            : 'Your upcoming assignments already have enough study time planned.'}
+        </Text>
+      )}
+
+      <TouchableOpacity
+        style={[
+          styles.primaryButton,
+          { backgroundColor: theme.accent },
+          (!canAccept || acceptPlan.isPending) && styles.buttonDisabled,
+        ]}
+        onPress={handleAccept}
+        disabled={!canAccept || acceptPlan.isPending}
+        accessibilityRole="button">
+        {acceptPlan.isPending ? (
+          <ActivityIndicator color={COLORS.white} />
+        ) : (
+          <Text style={styles.primaryButtonText}>
+            {selectedCount > 0
+              ? `Add ${selectedCount} study session${selectedCount === 1 ? '' : 's'}`
+              : 'Update plan'}
+          </Text>
+        )}
+      </TouchableOpacity>
+    </View>
+  );
+
+  return (
+    <ScrollView
+      style={[styles.container, { backgroundColor: theme.background }]}
+      contentContainerStyle={[
+        styles.content,
+        { paddingBottom: insets.bottom + 24 },
+      ]}>
+      {plan ? (
+        renderPlan(plan)
+      ) : isLoading ? (
+        <ActivityIndicator
+          style={styles.loader}
+          size="large"
+          color={theme.accent}
+        />
+      ) : (
+        <View>
+          <Text style={[styles.emptyText, { color: theme.textSecondary }]}>
+            {error
+              ? mapErrorCodeToMessage(error)
+              : 'Could not plan study time.'}
+          </Text>
+          <TouchableOpacity
+            style={styles.secondaryButton}
+            onPress={() => refetch()}
+            accessibilityRole="button">
+            <Text style={[styles.secondaryButtonText, { color: theme.accent }]}>
+              Try again
+            </Text>
+          </TouchableOpacity>
+        </View>
+      )}
+    </ScrollView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  content: {
+    padding: 16,
+  },
+  intro: {
+    fontSize: 15,
+    lineHeight: 22,
+    marginBottom: 16,
+  },
+  banner: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    borderRadius: 12,
+    padding: 12,
+    marginBottom: 12,
+  },
+  bannerText: {
+    flex: 1,
+    fontSize: 14,
+    lineHeight: 20,
+    marginLeft: 8,
+  },
+  card: {
+    borderWidth: 1,
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 12,
+  },
+  cardTitle: {
+    fontSize: 17,
+    fontWeight: FONT_WEIGHTS.semibold,
+    marginBottom: 4,
+  },
+  itemRow: {
+    paddingVertical: 8,
+  },
+  itemTitle: {
+    fontSize: 15,
+    fontWeight: FONT_WEIGHTS.medium,
+  },
+  meta: {
+    fontSize: 13,
+    marginTop: 2,
+  },
+  hint: {
+    fontSize: 13,
+    lineHeight: 18,
+    marginTop: 8,
+  },
+  warningRow: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    marginBottom: 8,
+  },
+  warningText: {
+    flex: 1,
+    fontSize: 13,
+    lineHeight: 18,
+    marginLeft: 6,
+  },
+  day: {
+    marginTop: 12,
+  },
+  dayTitle: {
+    fontSize: 15,
+    fontWeight: FONT_WEIGHTS.semibold,
+    marginBottom: 8,
+  },
+  blockRow: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    borderWidth: 1,
+    borderRadius: 12,
+    padding: 12,
+    marginBottom: 8,
+  },
+  blockInfo: {
+    flex: 1,
+    marginLeft: 10,
+  },
+  blockTitle: {
+    fontSize: 15,
+    fontWeight: FONT_WEIGHTS.medium,
+  },
+  emptyText: {
+    fontSize: 15,
+    lineHeight: 22,
+    textAlign: 'center',
+    marginTop: 24,
+  },
+  primaryButton: {
+    borderRadius: 12,
+    paddingVertical: 14,
+    alignItems: 'center',
+    marginTop: 16,
+  },
+  primaryButtonText: {
+    color: COLORS.white,
+    fontSize: 16,
+    fontWeight: FONT_WEIGHTS.semibold,
+  },
+  buttonDisabled: {
+    opacity: 0.5,
+  },
+  secondaryButton: {
+    paddingVertical: 14,
+    alignItems: 'center',
+  },
+  secondaryButtonText: {
+    fontSize: 15,
+    fontWeight: FONT_WEIGHTS.medium,
+  },
+  loader: {
+    marginTop: 24,
+  },
+});
+
+export default StudyPlannerScreen;
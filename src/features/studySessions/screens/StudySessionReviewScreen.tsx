@@ -16,6 +16,7 @@ import { RootStackParamList } from '@/types';
 import { useTheme } from '@/contexts/ThemeContext';
 import { useAuth } from '@/contexts/AuthContext';
 import { SRSReviewCard } from '../components/SRSReviewCard';
+import { FlashcardDeckPanel } from '../components/FlashcardDeckPanel';
 import { supabase } from '@/services/supabase';
 import { PrimaryButton } from '@/shared/components';
 import {
@@ -40,7 +41,8 @@ type StudySessionReviewScreenNavigationProp = StackNavigationProp<
  * StudySessionReviewScreen - Displays SRS review interface for a study session
  *
  * This screen allows users to review their study session and rate their recall quality.
- * After rating, it navigates to StudyResult screen.
+ * After rating, it navigates to StudyResult screen. In flashcard mode the
+ * session's decks are reviewed card by card instead.
  */
 const StudySessionReviewScreen: React.FC = () => {
   const route = useRoute<StudySessionReviewScreenRouteProp>();
@@ -63,6 +65,7 @@ const StudySessionReviewScreen: React.FC = () => {
   const [loading, setLoading] = useState(true);
   const [studySession, setStudySession] = useState<any>(null);
   const [error, setError] = useState<string | null>(null);
+  const [mode, setMode] = useState<'session' | 'flashcards'>('session');
 
   useEffect(() => {
     const fetchStudySession = async () => {
@@ -101,6 +104,10 @@ const StudySessionReviewScreen: React.FC = () => {
     navigation.goBack();
   };
 
+  const handleStartFocus = () => {
+    navigation.navigate('FocusTimer', { sessionId });
+  };
+
   if (loading) {
     return (
       <View
@@ -196,7 +203,15 @@ const StudySessionReviewScreen: React.FC = () => {
         <Text style={[styles.headerTitle, { color: textColor }]}>
           Review Study Session
         </Text>
-        <View style={styles.headerSpacer} />
+        <TouchableOpacity
+          onPress={handleStartFocus}
+          style={styles.backButton}
+          testID="focus-timer-button"
+          accessibilityRole="button"
+          accessibilityLabel="Start focus timer"
+          hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}>
+          <Ionicons name="timer-outline" size={22} color={COLORS.primary} />
+        </TouchableOpacity>
       </View>
 
       {/* Content */}
@@ -225,16 +240,51 @@ const StudySessionReviewScreen: React.FC = () => {
           )}
         </View>
 
-        {/* SRS Review Card */}
-        <SRSReviewCard
-          sessionId={sessionId}
-          topic={studySession.topic || 'Study Session'}
-          reminderId={undefined}
-          onComplete={() => {
-            // Optional: Handle completion without navigation
-          }}
-          onStudyComplete={handleStudyComplete}
-        />
+        {/* Review mode */}
+        <View
+          style={[
+            styles.modeToggle,
+            { backgroundColor: surfaceColor, borderColor: borderColor },
+          ]}>
+          {(['session', 'flashcards'] as const).map(option => (
+            <TouchableOpacity
+              key={option}
+              style={[
+                styles.modeOption,
+                mode === option && { backgroundColor: COLORS.primary },
+              ]}
+              onPress={() => setMode(option)}
+              accessibilityRole="button"
+              accessibilityState={{ selected: mode === option }}
+              testID={`review-mode-${option}`}>
+              <Text
+                style={[
+                  styles.modeText,
+                  { color: mode === option ? '#FFFFFF' : textColor },
+                ]}>
+                {option === 'session' ? 'Whole session' : 'Flashcards'}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+
+        {mode === 'session' ? (
+          <SRSReviewCard
+            sessionId={sessionId}
+            topic={studySession.topic || 'Study Session'}
+            reminderId={undefined}
+            onComplete={() => {
+              // Optional: Handle completion without navigation
+            }}
+            onStudyComplete={handleStudyComplete}
+          />
+        ) : (
+          <FlashcardDeckPanel
+            studySessionId={sessionId}
+            courseId={studySession.course_id || undefined}
+            topic={studySession.topic || 'Study Session'}
+          />
+        )}
       </ScrollView>
     </View>
   );
@@ -313,6 +363,23 @@ const styles = StyleSheet.create({
     fontWeight: FONT_WEIGHTS.semibold,
     marginLeft: SPACING.md,
   },
+  modeToggle: {
+    flexDirection: 'row',
+    padding: 4,
+    borderRadius: BORDER_RADIUS.md,
+    borderWidth: 1,
+    marginBottom: SPACING.md,
+  },
+  modeOption: {
+    flex: 1,
+    paddingVertical: SPACING.sm,
+    borderRadius: BORDER_RADIUS.sm,
+    alignItems: 'center',
+  },
+  modeText: {
+    fontSize: FONT_SIZES.sm,
+    fontWeight: FONT_WEIGHTS.semibold,
+  },
   infoDescription: {
     marginTop: SPACING.sm,
     fontSize: FONT_SIZES.sm,
@@ -0,0 +1,331 @@
+/**
+ * Focus Timer
+ *
+ * Pure state for the focus (Pomodoro) timer. The timer only stores when it
+ * was started, paused and resumed; the current phase is always derived from
+ * the clock, so it stays correct while the app is in the background or
+ * killed and the state is restored from storage.
+ */
+
+import { FocusLogRequest } from '@/types/api';
+
+export type FocusPhaseKind = 'work' | 'short_break' | 'long_break';
+export type FocusInterruptionReason = 'paused' | 'left_app';
+
+export interface FocusTimerConfig {
+  workMinutes: number;
+  shortBreakMinutes: number;
+  longBreakMinutes: number;
+  cycles: number;
+  /** A long break replaces every Nth short break */
+  longBreakEvery: number;
+}
+
+export const DEFAULT_FOCUS_TIMER_CONFIG: FocusTimerConfig = {
+  workMinutes: 25,
+  shortBreakMinutes: 5,
+  longBreakMinutes: 15,
+  cycles: 4,
+  longBreakEvery: 4,
+};
+
+export interface FocusPhase {
+  kind: FocusPhaseKind;
+  /** 1-based work cycle the phase belongs to */
+  cycle: number;
+  durationMs: number;
+}
+
+export interface FocusInterruption {
+  reason: FocusInterruptionReason;
+  startedAt: string;
+  endedAt: string | null;
+}
+
+export interface FocusTimerState {
+  /** Client id of the run; doubles as the idempotency key when saving */
+  id: string;
+  studySessionId: string | null;
+  config: FocusTimerConfig;
+  startedAt: string;
+  /** Set while running; null while paused */
+  resumedAt: string | null;
+  /** Running time accumulated before the last pause */
+  elapsedMs: number;
+  interruptions: FocusInterruption[];
+}
+
+export interface FocusProgress {
+  phases: FocusPhase[];
+  phaseIndex: number;
+  phase: FocusPhase;
+  remainingMs: number;
+  completedCycles: number;
+  focusedMs: number;
+  breakMs: number;
+  isFinished: boolean;
+}
+
+const MINUTE_MS = 60 * 1000;
+
+/**
+ * Work and break phases for a run; there's no break after the last cycle
+ */
+export function buildFocusPhases(config: FocusTimerConfig): FocusPhase[] {
+  const phases: FocusPhase[] = [];
+
+  for (let cycle = 1; cycle <= config.cycles; cycle++) {
+    phases.push({
+      kind: 'work',
+      cycle,
+      durationMs: config.workMinutes * MINUTE_MS,
+    });
+    if (cycle === config.cycles) break;
+
+    const isLong =
+      config.longBreakEvery > 0 && cycle % config.longBreakEvery === 0;
+    const breakMinutes = isLong
+      ? config.longBreakMinutes
+      : config.shortBreakMinutes;
+    if (breakMinutes > 0) {
+      phases.push({
+        kind: isLong ? 'long_break' : 'short_break',
+        cycle,
+        durationMs: breakMinutes * MINUTE_MS,
+      });
+    }
+  }
+
+  return phases;
+}
+
+export function startFocusTimer(
+  id: string,
+  studySessionId: string | null,
+  config: FocusTimerConfig,
+  now: Date = new Date(),
+): FocusTimerState {
+  return {
+    id,
+    studySessionId,
+    config,
+    startedAt: now.toISOString(),
+    resumedAt: now.toISOString(),
+    elapsedMs: 0,
+    interruptions: [],
+  };
+}
+
+export function isFocusTimerRunning(state: FocusTimerState): boolean {
+  return state.resumedAt !== null;
+}
+
+function runningMs(state: FocusTimerState, now: Date): number {
+  return state.resumedAt
+    ? state.elapsedMs +
+        Math.max(0, now.getTime() - new Date(state.resumedAt).getTime())
+    : state.elapsedMs;
+}
+
+export function getFocusProgress(
+  state: FocusTimerState,
+  now: Date = new Date(),
+): FocusProgress {
+  const phases = buildFocusPhases(state.config);
+  let remaining = runningMs(state, now);
+  let focusedMs = 0;
+  let breakMs = 0;
+  let completedCycles = 0;
+
+  for (let index = 0; index < phases.length; index++) {
+    const phase = phases[index];
+    const spent = Math.min(remaining, phase.durationMs);
+
+    if (phase.kind === 'work') {
+      focusedMs += spent;
+      if (spent === phase.durationMs) completedCycles++;
+    } else {
+      breakMs += spent;
+    }
+
+    if (spent < phase.durationMs) {
+      return {
+        phases,
+        phaseIndex: index,
+        phase,
+        remainingMs: phase.durationMs - spent,
+        completedCycles,
+        focusedMs,
+        breakMs,
+        isFinished: false,
+      };
+    }
+    remaining -= spent;
+  }
+
+  return {
+    phases,
+    phaseIndex: phases.length - 1,
+    phase: phases[phases.length - 1],
+    remainingMs: 0,
+    completedCycles,
+    focusedMs,
+    breakMs,
+    isFinished: true,
+  };
+}
+
+/**
+ * When each phase still to come (the current one included) ends, if the
+ * timer keeps running; used to schedule the phase notifications
+ */
+export function getUpcomingPhaseEnds(
+  state: FocusTimerState,
+  now: Date = new Date(),
+): { phase: FocusPhase; next: FocusPhase | null; endsAt: Date }[] {
+  if (!isFocusTimerRunning(state)) return [];
+
+  const progress = getFocusProgress(state, now);
+  if (progress.isFinished) return [];
+
+  const ends: { phase: FocusPhase; next: FocusPhase | null; endsAt: Date }[] =
+    [];
+  let endsAt = now.getTime() + progress.remainingMs;
+  for (
+    let index = progress.phaseIndex;
+    index < progress.phases.length;
+    index++
+  ) {
+    if (index > progress.phaseIndex) {
+      endsAt += progress.phases[index].durationMs;
+    }
+    ends.push({
+      phase: progress.phases[index],
+      next: progress.phases[index + 1] ?? null,
+      endsAt: new Date(endsAt),
+    });
+  }
+  return ends;
+}
+
+function closeOpenInterruption(
+  interruptions: FocusInterruption[],
+  reason: FocusInterruptionReason,
+  now: Date,
+): FocusInterruption[] {
+  return interruptions.map(interruption =>
+    interruption.reason === reason && interruption.endedAt === null
+      ? { ...interruption, endedAt: now.toISOString() }
+      : interruption,
+  );
+}
+
+export function pauseFocusTimer(
+  state: FocusTimerState,
+  now: Date = new Date(),
+): FocusTimerState {
+  if (!isFocusTimerRunning(state)) return state;
+
+  return {
+    ...state,
+    elapsedMs: runningMs(state, now),
+    resumedAt: null,
+    interruptions: [
+      ...state.interruptions,
+      { reason: 'paused', startedAt: now.toISOString(), endedAt: null },
+    ],
+  };
+}
+
+export function resumeFocusTimer(
+  state: FocusTimerState,
+  now: Date = new Date(),
+): FocusTimerState {
+  if (isFocusTimerRunning(state)) return state;
+
+  return {
+    ...state,
+    resumedAt: now.toISOString(),
+    interruptions: closeOpenInterruption(state.interruptions, 'paused', now),
+  };
+}
+
+/**
+ * Leaving the app during a work phase counts as an interruption; the timer
+ * keeps running
+ */
+export function recordAppBackground(
+  state: FocusTimerState,
+  now: Date = new Date(),
+): FocusTimerState {
+  if (!isFocusTimerRunning(state)) return state;
+
+  const progress = getFocusProgress(state, now);
+  if (progress.isFinished || progress.phase.kind !== 'work') return state;
+
+  return {
+    ...state,
+    interruptions: [
+      ...state.interruptions,
+      { reason: 'left_app', startedAt: now.toISOString(), endedAt: null },
+    ],
+  };
+}
+
+export function recordAppForeground(
+  state: FocusTimerState,
+  now: Date = new Date(),
+): FocusTimerState {
+  return {
+    ...state,
+    interruptions: closeOpenInterruption(state.interruptions, 'left_app', now),
+  };
+}
+
+/**
+ * Summary of a run for study-sessions/focus-log
+ *
+ * A run that finished while the app was closed ends when its last phase
+ * did, not when the user came back to it
+ */
+export function buildFocusLog(
+  state: FocusTimerState,
+  now: Date = new Date(),
+): FocusLogRequest {
+  const progress = getFocusProgress(state, now);
+  const endedAt =
+    progress.isFinished && isFocusTimerRunning(state)
+      ? new Date(
+          now.getTime() -
+            (runningMs(state, now) - progress.focusedMs - progress.breakMs),
+        )
+      : now;
+
+  return {
+    ...(state.studySessionId ? { study_session_id: state.studySessionId } : {}),
+    started_at: state.startedAt,
+    ended_at: endedAt.toISOString(),
+    work_minutes: state.config.workMinutes,
+    short_break_minutes: state.config.shortBreakMinutes,
+    long_break_minutes: state.config.longBreakMinutes,
+    planned_cycles: state.config.cycles,
+    completed_cycles: progress.completedCycles,
+    focused_seconds: Math.round(progress.focusedMs / 1000),
+    break_seconds: Math.round(progress.breakMs / 1000),
+    interruptions: state.interruptions
+      .filter(
+        interruption =>
+          new Date(interruption.startedAt).getTime() <= endedAt.getTime(),
+      )
+      .map(interruption => ({
+        reason: interruption.reason,
+        started_at: interruption.startedAt,
+        ended_at:
+          interruption.endedAt &&
+          new Date(interruption.endedAt).getTime() < endedAt.getTime()
+            ? interruption.endedAt
+            : endedAt.toISOString(),
+      })),
+    status: progress.isFinished ? 'completed' : 'stopped',
+  };
+}
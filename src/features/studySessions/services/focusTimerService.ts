@@ -0,0 +1,193 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { versionedApiClient } from '@/services/VersionedApiClient';
+import { notificationService } from '@/services/notifications';
+import { ApiError, handleApiError } from '@/services/api/errors';
+import { FocusLogRequest } from '@/types/api';
+import {
+  DEFAULT_FOCUS_TIMER_CONFIG,
+  FocusPhase,
+  FocusTimerConfig,
+  FocusTimerState,
+  buildFocusLog,
+  getUpcomingPhaseEnds,
+} from './focusTimer';
+
+const ACTIVE_TIMER_KEY = '@focus_timer_active';
+const CONFIG_KEY = '@focus_timer_config';
+const PENDING_LOGS_KEY = '@focus_timer_pending_logs';
+
+interface PendingFocusLog {
+  idempotencyKey: string;
+  log: FocusLogRequest;
+}
+
+const notificationPrefix = (state: FocusTimerState) => `focus_${state.id}`;
+
+function phaseEndMessage(
+  phase: FocusPhase,
+  next: FocusPhase | null,
+  config: FocusTimerConfig,
+): { title: string; body: string } {
+  if (!next) {
+    return {
+      title: 'Focus session complete',
+      body: `You finished ${config.cycles} focus cycle${config.cycles === 1 ? '' : 's'}. Nice work!`,
+    };
+  }
+  if (phase.kind === 'work') {
+    const minutes =
+      next.kind === 'long_break'
+        ? config.longBreakMinutes
+        : config.shortBreakMinutes;
+    return {
+      title: `Focus cycle ${phase.cycle} done`,
+      body: `Take a ${minutes} min break.`,
+    };
+  }
+  return {
+    title: 'Break over',
+    body: `Time to start focus cycle ${next.cycle} of ${config.cycles}.`,
+  };
+}
+
+async function readPendingLogs(): Promise<PendingFocusLog[]> {
+  try {
+    const json = await AsyncStorage.getItem(PENDING_LOGS_KEY);
+    return json ? JSON.parse(json) : [];
+  } catch (error) {
+    console.error('Error reading pending focus logs:', error);
+    return [];
+  }
+}
+
+async function sendFocusLog({ idempotencyKey, log }: PendingFocusLog) {
+  const response = await versionedApiClient.recordFocusLog(log, idempotencyKey);
+  if (response.error) {
+    throw new ApiError(
+      response.message || response.error || 'Failed to save focus session',
+      response.code,
+    );
+  }
+}
+
+export const focusTimerService = {
+  async getActiveTimer(): Promise<FocusTimerState | null> {
+    try {
+      const json = await AsyncStorage.getItem(ACTIVE_TIMER_KEY);
+      return json ? (JSON.parse(json) as FocusTimerState) : null;
+    } catch (error) {
+      console.error('Error loading focus timer:', error);
+      return null;
+    }
+  },
+
+  async saveActiveTimer(state: FocusTimerState): Promise<void> {
+    try {
+      await AsyncStorage.setItem(ACTIVE_TIMER_KEY, JSON.stringify(state));
+    } catch (error) {
+      console.error('Error saving focus timer:', error);
+    }
+  },
+
+  async clearActiveTimer(): Promise<void> {
+    try {
+      await AsyncStorage.removeItem(ACTIVE_TIMER_KEY);
+    } catch (error) {
+      console.error('Error clearing focus timer:', error);
+    }
+  },
+
+  /**
+   * The work/break lengths the user picked last time
+   */
+  async getConfig(): Promise<FocusTimerConfig> {
+    try {
+      const json = await AsyncStorage.getItem(CONFIG_KEY);
+      return json
+        ? { ...DEFAULT_FOCUS_TIMER_CONFIG, ...JSON.parse(json) }
+        : DEFAULT_FOCUS_TIMER_CONFIG;
+    } catch (error) {
+      console.error('Error loading focus timer settings:', error);
+      return DEFAULT_FOCUS_TIMER_CONFIG;
+    }
+  },
+
+  async saveConfig(config: FocusTimerConfig): Promise<void> {
+    try {
+      await AsyncStorage.setItem(CONFIG_KEY, JSON.stringify(config));
+    } catch (error) {
+      console.error('Error saving focus timer settings:', error);
+    }
+  },
+
+  /**
+   * Schedule a local notification for the end of every remaining phase, so
+   * the user hears about phase changes while the app is in the background
+   */
+  async scheduleNotifications(state: FocusTimerState): Promise<void> {
+    await this.cancelNotifications(state);
+
+    const ends = getUpcomingPhaseEnds(state);
+    for (const [index, { phase, next, endsAt }] of ends.entries()) {
+      const { title, body } = phaseEndMessage(phase, next, state.config);
+      await notificationService.scheduleReminder({
+        id: `${notificationPrefix(state)}_${index}`,
+        title,
+        body,
+        triggerDate: endsAt,
+        type: 'focus_timer',
+        data: { url: 'FocusTimer' },
+      });
+    }
+  },
+
+  async cancelNotifications(state: FocusTimerState): Promise<void> {
+    try {
+      await notificationService.cancelItemReminders(notificationPrefix(state));
+    } catch (error) {
+      console.error('Error cancelling focus timer notifications:', error);
+    }
+  },
+
+  /**
+   * Save a finished or stopped run. Runs that can't be sent yet (e.g.
+   * offline) are kept and retried by flushPendingLogs
+   *
+   * @returns Whether the log reached the server
+   */
+  async recordLog(state: FocusTimerState, now?: Date): Promise<boolean> {
+    const pending: PendingFocusLog = {
+      idempotencyKey: state.id,
+      log: buildFocusLog(state, now),
+    };
+
+    try {
+      await sendFocusLog(pending);
+      return true;
+    } catch (error) {
+      console.error('Error saving focus session:', handleApiError(error));
+      const queued = await readPendingLogs();
+      await AsyncStorage.setItem(
+        PENDING_LOGS_KEY,
+        JSON.stringify([...queued, pending]),
+      );
+      return false;
+    }
+  },
+
+  async flushPendingLogs(): Promise<void> {
+    const queued = await readPendingLogs();
+    if (queued.length === 0) return;
+
+    const remaining: PendingFocusLog[] = [];
+    for (const pending of queued) {
+      try {
+        await sendFocusLog(pending);
+      } catch {
+        remaining.push(pending);
+      }
+    }
+
+    await AsyncStorage.setItem(PENDING_LOGS_KEY, JSON.stringify(remaining));
+  },
+};
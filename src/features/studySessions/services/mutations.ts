@@ -6,6 +6,8 @@ import {
 } from '@/types/api';
 import { handleApiError } from '@/services/api/errors';
 import { syncManager } from '@/services/syncManager';
+import { captureUpdateBase } from '@/utils/syncConflicts';
+import { getCachedTask, mergeTaskUpdates } from '@/utils/taskCache';
 import { generateTempId } from '@/utils/uuid';
 import { invokeEdgeFunctionWithAuth } from '@/utils/invokeEdgeFunction';
 
@@ -50,6 +52,8 @@ export const studySessionsApiMutations = {
           date: request.session_date,
           duration_minutes: null,
           notes: request.notes || null,
+          priority: request.priority ?? 'medium',
+          tag_ids: request.tag_ids || [],
           status: 'pending',
           created_at: new Date().toISOString(),
           updated_at: new Date().toISOString(),
@@ -96,9 +100,6 @@ export const studySessionsApiMutations = {
         console.log('📴 Offline: Queueing UPDATE study_session action');
 
         // Get cached task data
-        const { getCachedTask, mergeTaskUpdates } = await import(
-          '@/utils/taskCache'
-        );
         const cachedTask = await getCachedTask(sessionId, 'study_session');
 
         if (!cachedTask) {
@@ -121,6 +122,7 @@ export const studySessionsApiMutations = {
             type: 'UPDATE',
             id: sessionId,
             data: request,
+            ...captureUpdateBase(cachedTask, request),
           },
           userId,
           { syncImmediately: false },
@@ -132,14 +134,20 @@ export const studySessionsApiMutations = {
         return optimisticTask as StudySession;
       }
 
-      // ONLINE MODE: Execute server mutation
+      // ONLINE MODE: Execute server mutation, rejected if the cached copy
+      // the edit was made against is out of date
       console.log('🌐 Online: Updating study session on server');
+      const { baseVersion } = captureUpdateBase(
+        await getCachedTask(sessionId, 'study_session'),
+        request,
+      );
       const { data, error } = await invokeEdgeFunctionWithAuth(
         'update-study-session',
         {
           body: {
             study_session_id: sessionId,
             ...request,
+            expected_version: baseVersion,
           },
         },
       );
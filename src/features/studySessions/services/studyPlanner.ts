@@ -0,0 +1,52 @@
+import { versionedApiClient } from '@/services/VersionedApiClient';
+import { ApiError, handleApiError } from '@/services/api/errors';
+import {
+  AcceptStudyPlanRequest,
+  AcceptStudyPlanResult,
+  StudyPlanProposal,
+} from '@/types';
+
+export const studyPlannerApi = {
+  /**
+   * Propose study blocks for upcoming assignments without saving anything
+   */
+  async propose(): Promise<StudyPlanProposal> {
+    try {
+      const response = await versionedApiClient.getStudyPlan();
+
+      if (response.error || !response.data) {
+        throw new ApiError(
+          response.message || response.error || 'Failed to plan study time',
+          response.code,
+        );
+      }
+
+      return response.data as unknown as StudyPlanProposal;
+    } catch (error) {
+      throw handleApiError(error);
+    }
+  },
+
+  /**
+   * Turn the kept blocks into study sessions and replace the previous plan's
+   * missed or outdated blocks
+   */
+  async accept(
+    request: AcceptStudyPlanRequest,
+  ): Promise<AcceptStudyPlanResult> {
+    try {
+      const response = await versionedApiClient.acceptStudyPlan(request);
+
+      if (response.error || !response.data) {
+        throw new ApiError(
+          response.message || response.error || 'Failed to save study plan',
+          response.code,
+        );
+      }
+
+      return response.data as unknown as AcceptStudyPlanResult;
+    } catch (error) {
+      throw handleApiError(error);
+    }
+  },
+};
@@ -0,0 +1,166 @@
+import React from 'react';
+import { View, Text, StyleSheet, ActivityIndicator } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { useTheme } from '@/contexts/ThemeContext';
+import { useLocale } from '@/contexts/LocaleContext';
+import { useAchievements } from '@/hooks/useAchievements';
+import { describeAchievement } from '@/utils/achievements';
+import { AchievementType } from '@/types';
+import { COLORS, FONT_SIZES, FONT_WEIGHTS, SPACING } from '@/constants/theme';
+
+const BADGE_ICONS: Record<AchievementType, keyof typeof Ionicons.glyphMap> = {
+  streak: 'flame',
+  milestone: 'trophy',
+  improvement: 'trending-up',
+  srs_consistency: 'repeat',
+};
+
+/**
+ * The user's study streak, with freezes left, and the badges they have
+ * earned, newest first
+ */
+export function AchievementsCard() {
+  const { theme } = useTheme();
+  const { t, locale } = useLocale();
+  const { data, isLoading } = useAchievements();
+
+  const streak = data?.streak;
+  const achievements = data?.achievements ?? [];
+
+  return (
+    <View
+      style={[
+        styles.card,
+        { backgroundColor: theme.card, borderColor: theme.border },
+      ]}>
+      <View style={styles.header}>
+        <View>
+          <Text style={[styles.title, { color: theme.text }]}>
+            {t('achievements.title')}
+          </Text>
+          <Text style={[styles.subtitle, { color: theme.textSecondary }]}>
+            {t('achievements.longestStreak')}:{' '}
+            {t('achievements.days', { count: streak?.longest_streak ?? 0 })}
+            {' · '}
+            {t('achievements.freezes', {
+              count: streak?.freezes_available ?? 0,
+            })}
+          </Text>
+        </View>
+        {isLoading ? (
+          <ActivityIndicator color={COLORS.primary} />
+        ) : (
+          <View
+            style={styles.streak}
+            accessibilityLabel={`${t('achievements.currentStreak')}: ${t(
+              'achievements.days',
+              { count: streak?.current_streak ?? 0 },
+            )}`}>
+            <Ionicons name="flame" size={22} color={COLORS.warning} />
+            <Text style={[styles.streakCount, { color: theme.text }]}>
+              {streak?.current_streak ?? 0}
+            </Text>
+          </View>
+        )}
+      </View>
+
+      {!isLoading && achievements.length === 0 && (
+        <Text style={[styles.emptyText, { color: theme.textSecondary }]}>
+          {t('achievements.empty')}
+        </Text>
+      )}
+
+      {achievements.map(achievement => {
+        const { title, description } = describeAchievement(achievement, locale);
+        return (
+          <View
+            key={achievement.id}
+            style={[styles.badgeRow, { borderTopColor: theme.border }]}>
+            <View style={styles.badgeIcon}>
+              <Ionicons
+                name={BADGE_ICONS[achievement.type] ?? 'ribbon'}
+                size={18}
+                color={COLORS.primary}
+              />
+            </View>
+            <View style={styles.badgeText}>
+              <Text style={[styles.badgeTitle, { color: theme.text }]}>
+                {title}
+              </Text>
+              <Text
+                style={[
+                  styles.badgeDescription,
+                  { color: theme.textSecondary },
+                ]}>
+                {description}
+              </Text>
+            </View>
+          </View>
+        );
+      })}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  card: {
+    marginHorizontal: SPACING.md,
+    marginTop: SPACING.lg,
+    borderRadius: 16,
+    borderWidth: 1,
+    padding: SPACING.md,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  title: {
+    fontSize: FONT_SIZES.lg,
+    fontWeight: FONT_WEIGHTS.bold,
+  },
+  subtitle: {
+    fontSize: FONT_SIZES.sm,
+    marginTop: 2,
+  },
+  streak: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+  },
+  streakCount: {
+    fontSize: FONT_SIZES.xxl,
+    fontWeight: FONT_WEIGHTS.bold,
+  },
+  emptyText: {
+    fontSize: FONT_SIZES.sm,
+    marginTop: SPACING.sm,
+  },
+  badgeRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: SPACING.sm,
+    paddingVertical: SPACING.sm + 4,
+    borderTopWidth: StyleSheet.hairlineWidth,
+    marginTop: SPACING.sm,
+  },
+  badgeIcon: {
+    width: 32,
+    height: 32,
+    borderRadius: 16,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: COLORS.primary + '1A',
+  },
+  badgeText: {
+    flex: 1,
+  },
+  badgeTitle: {
+    fontSize: FONT_SIZES.md,
+    fontWeight: FONT_WEIGHTS.medium,
+  },
+  badgeDescription: {
+    fontSize: FONT_SIZES.sm,
+    marginTop: 2,
+  },
+});
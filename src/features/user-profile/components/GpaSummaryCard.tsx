@@ -0,0 +1,144 @@
+import React from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  ActivityIndicator,
+} from 'react-native';
+import { useNavigation } from '@react-navigation/native';
+import { StackNavigationProp } from '@react-navigation/stack';
+import { Ionicons } from '@expo/vector-icons';
+import { useTheme } from '@/contexts/ThemeContext';
+import { useGradeSummary } from '@/hooks/useGrades';
+import { formatGradePercent } from '@/utils/grades';
+import { RootStackParamList } from '@/types/navigation';
+import { COLORS, FONT_SIZES, FONT_WEIGHTS, SPACING } from '@/constants/theme';
+
+/**
+ * Credit-weighted GPA over the user's active courses, with the grade so far
+ * in each course
+ */
+export function GpaSummaryCard() {
+  const { theme } = useTheme();
+  const navigation = useNavigation<StackNavigationProp<RootStackParamList>>();
+  const { data, isLoading } = useGradeSummary();
+
+  const gradedCourses = (data?.courses ?? []).filter(
+    ({ grade }) => grade.percent !== null,
+  );
+
+  return (
+    <View
+      style={[
+        styles.card,
+        { backgroundColor: theme.card, borderColor: theme.border },
+      ]}>
+      <View style={styles.header}>
+        <View>
+          <Text style={[styles.title, { color: theme.text }]}>Term GPA</Text>
+          <Text style={[styles.subtitle, { color: theme.textSecondary }]}>
+            {data?.courseCount
+              ? `${data.courseCount} graded course${data.courseCount === 1 ? '' : 's'} · ${data.credits} credit${data.credits === 1 ? '' : 's'}`
+              : 'Active courses'}
+          </Text>
+        </View>
+        {isLoading ? (
+          <ActivityIndicator color={COLORS.primary} />
+        ) : (
+          <Text style={[styles.gpa, { color: COLORS.primary }]}>
+            {data?.gpa !== null && data?.gpa !== undefined
+              ? data.gpa.toFixed(2)
+              : '—'}
+          </Text>
+        )}
+      </View>
+
+      {!isLoading && gradedCourses.length === 0 && (
+        <Text style={[styles.emptyText, { color: theme.textSecondary }]}>
+          Add scores to your assignments to see your GPA.
+        </Text>
+      )}
+
+      {gradedCourses.map(({ course, grade }) => (
+        <TouchableOpacity
+          key={course.id}
+          style={[styles.courseRow, { borderTopColor: theme.border }]}
+          onPress={() =>
+            navigation.navigate('CourseDetail', { courseId: course.id })
+          }
+          activeOpacity={0.7}>
+          <Text
+            style={[styles.courseName, { color: theme.text }]}
+            numberOfLines={1}>
+            {course.courseName}
+          </Text>
+          <Text style={[styles.coursePercent, { color: theme.textSecondary }]}>
+            {formatGradePercent(grade.percent ?? 0)}
+          </Text>
+          <Text style={[styles.courseLetter, { color: theme.text }]}>
+            {grade.letter?.letter ?? '—'}
+          </Text>
+          <Ionicons
+            name="chevron-forward"
+            size={16}
+            color={theme.textSecondary}
+          />
+        </TouchableOpacity>
+      ))}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  card: {
+    marginHorizontal: SPACING.md,
+    marginTop: SPACING.lg,
+    borderRadius: 16,
+    borderWidth: 1,
+    padding: SPACING.md,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  title: {
+    fontSize: FONT_SIZES.lg,
+    fontWeight: FONT_WEIGHTS.bold,
+  },
+  subtitle: {
+    fontSize: FONT_SIZES.sm,
+    marginTop: 2,
+  },
+  gpa: {
+    fontSize: FONT_SIZES.xxxl,
+    fontWeight: FONT_WEIGHTS.bold,
+  },
+  emptyText: {
+    fontSize: FONT_SIZES.sm,
+    marginTop: SPACING.sm,
+  },
+  courseRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: SPACING.sm,
+    paddingVertical: SPACING.sm + 4,
+    borderTopWidth: StyleSheet.hairlineWidth,
+    marginTop: SPACING.sm,
+  },
+  courseName: {
+    flex: 1,
+    fontSize: FONT_SIZES.md,
+    fontWeight: FONT_WEIGHTS.medium,
+  },
+  coursePercent: {
+    fontSize: FONT_SIZES.sm,
+  },
+  courseLetter: {
+    minWidth: 28,
+    textAlign: 'right',
+    fontSize: FONT_SIZES.md,
+    fontWeight: FONT_WEIGHTS.bold,
+  },
+});
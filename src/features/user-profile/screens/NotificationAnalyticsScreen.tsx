@@ -12,13 +12,23 @@ import { useNavigation } from '@react-navigation/native';
 import { Ionicons } from '@expo/vector-icons';
 import { useTheme } from '@/contexts/ThemeContext';
 import { useAuth } from '@/contexts/AuthContext';
-import { getNotificationAnalytics } from '@/utils/notificationQueue';
+import {
+  getLearnedSendWindows,
+  getNotificationAnalytics,
+} from '@/utils/notificationQueue';
+import {
+  formatLift,
+  formatSendWindow,
+  isShiftedWindow,
+  LearnedSendWindow,
+} from '@/utils/sendTimes';
 
 export function NotificationAnalyticsScreen() {
   const navigation = useNavigation();
   const { theme } = useTheme();
   const { user } = useAuth();
   const [analytics, setAnalytics] = useState<any>(null);
+  const [sendWindows, setSendWindows] = useState<LearnedSendWindow[]>([]);
   const [loading, setLoading] = useState(true);
   const [refreshing, setRefreshing] = useState(false);
 
@@ -30,8 +40,12 @@ export function NotificationAnalyticsScreen() {
     if (!user) return;
 
     try {
-      const data = await getNotificationAnalytics(user.id);
+      const [data, windows] = await Promise.all([
+        getNotificationAnalytics(user.id),
+        getLearnedSendWindows(user.id),
+      ]);
       setAnalytics(data);
+      setSendWindows(windows);
     } catch (error) {
       console.error('Error loading analytics:', error);
     } finally {
@@ -191,6 +205,80 @@ export function NotificationAnalyticsScreen() {
               )}
             </View>
 
+            {/* Learned Send Times */}
+            {sendWindows.length > 0 && (
+              <View style={[styles.section, { backgroundColor: theme.card }]}>
+                <Text style={[styles.sectionTitle, { color: theme.text }]}>
+                  Learned Send Times
+                </Text>
+
+                {sendWindows.map(window => {
+                  const lift = formatLift(window.lift);
+                  return (
+                    <View key={window.reminder_type} style={styles.typeRow}>
+                      <View
+                        style={[
+                          styles.typeIcon,
+                          { backgroundColor: theme.primary + '20' },
+                        ]}>
+                        <Ionicons
+                          name="time-outline"
+                          size={20}
+                          color={theme.primary}
+                        />
+                      </View>
+                      <View style={styles.typeInfo}>
+                        <Text style={[styles.typeName, { color: theme.text }]}>
+                          {getTypeLabel(window.reminder_type)}
+                        </Text>
+                        <Text
+                          style={[
+                            styles.typeStats,
+                            { color: theme.textSecondary },
+                          ]}>
+                          {window.best_hour !== null
+                            ? `Sent ${formatSendWindow(window.best_hour)}`
+                            : 'Still learning your best time'}
+                          {isShiftedWindow(window) &&
+                            ` • Was ${formatSendWindow(window.fixed_hour)}`}
+                        </Text>
+                        <Text
+                          style={[
+                            styles.typeStats,
+                            { color: theme.textSecondary },
+                          ]}>
+                          Based on {window.sample_size} notifications
+                        </Text>
+                      </View>
+                      {lift && (
+                        <View style={styles.typeRate}>
+                          <Text
+                            style={[
+                              styles.rateValue,
+                              {
+                                color:
+                                  (window.lift ?? 0) > 0
+                                    ? '#10B981'
+                                    : theme.text,
+                              },
+                            ]}>
+                            {lift}
+                          </Text>
+                          <Text
+                            style={[
+                              styles.rateLabel,
+                              { color: theme.textSecondary },
+                            ]}>
+                            vs. fixed time
+                          </Text>
+                        </View>
+                      )}
+                    </View>
+                  );
+                })}
+              </View>
+            )}
+
             {/* Insights */}
             <View
               style={[
@@ -325,6 +413,10 @@ const styles = StyleSheet.create({
     fontSize: 18,
     fontWeight: '600',
   },
+  rateLabel: {
+    fontSize: 11,
+    marginTop: 2,
+  },
   emptyContainer: {
     alignItems: 'center',
     justifyContent: 'center',
@@ -25,8 +25,11 @@ import { mapErrorCodeToMessage, getErrorTitle } from '@/utils/errorMapping';
 import { invokeEdgeFunctionWithAuth } from '@/utils/invokeEdgeFunction';
 import { sanitizeProfileData } from '@/utils/profileDataValidator';
 import { useTheme } from '@/contexts/ThemeContext';
+import { useLocale } from '@/contexts/LocaleContext';
 import { COLORS, FONT_SIZES, FONT_WEIGHTS, SPACING } from '@/constants/theme';
 import countriesData from '@/data/countries.json';
+import { AchievementsCard } from '../components/AchievementsCard';
+import { GpaSummaryCard } from '../components/GpaSummaryCard';
 
 type ScreenNavigationProp = StackNavigationProp<RootStackParamList, 'Profile'>;
 
@@ -35,6 +38,7 @@ const ProfileScreen = () => {
   const { user, refreshUser, loading: authLoading } = useAuth();
   const queryClient = useQueryClient();
   const { theme } = useTheme();
+  const { t } = useLocale();
   const insets = useSafeAreaInsets();
 
   const [isEditMode, setIsEditMode] = useState(false);
@@ -448,6 +452,33 @@ const ProfileScreen = () => {
               )}
             </View>
 
+            <GpaSummaryCard />
+
+            <AchievementsCard />
+
+            <TouchableOpacity
+              style={[
+                styles.reportsRow,
+                { backgroundColor: theme.card, borderColor: theme.border },
+              ]}
+              onPress={() => navigation.navigate('WeeklyReports')}
+              activeOpacity={0.7}
+              accessibilityRole="button">
+              <Ionicons
+                name="bar-chart-outline"
+                size={20}
+                color={COLORS.primary}
+              />
+              <Text style={[styles.reportsRowText, { color: theme.text }]}>
+                {t('weeklyReports.title')}
+              </Text>
+              <Ionicons
+                name="chevron-forward"
+                size={20}
+                color={theme.textSecondary}
+              />
+            </TouchableOpacity>
+
             <View style={styles.footerNote}>
               <Text
                 style={[
@@ -589,6 +620,21 @@ const styles = StyleSheet.create({
     shadowRadius: 2,
     elevation: 1,
   },
+  reportsRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: SPACING.sm,
+    marginHorizontal: SPACING.md,
+    marginTop: SPACING.md,
+    padding: SPACING.md,
+    borderRadius: 16,
+    borderWidth: 1,
+  },
+  reportsRowText: {
+    flex: 1,
+    fontSize: FONT_SIZES.md,
+    fontWeight: FONT_WEIGHTS.medium,
+  },
   footerNote: {
     paddingHorizontal: SPACING.xl,
     paddingTop: SPACING.xl,
@@ -21,6 +21,7 @@ import { supabase } from '@/services/supabase';
 import { ExpandableDetails } from '@/shared/components';
 import { AnalyticsToggle } from '@/shared/components/AnalyticsToggle';
 import { useTheme } from '@/contexts/ThemeContext';
+import { useLocale } from '@/contexts/LocaleContext';
 import { showToast } from '@/utils/showToast';
 import { cache } from '@/utils/cache';
 import { COLORS, FONT_SIZES, FONT_WEIGHTS, SPACING } from '@/constants/theme';
@@ -30,6 +31,8 @@ import {
   SettingsCategoryCard,
   SettingsItem,
   SettingsNotificationsSection,
+  SettingsLanguageSection,
+  SettingsReviewSchedulerSection,
 } from './components';
 
 type SettingsScreenNavigationProp = StackNavigationProp<RootStackParamList>;
@@ -37,7 +40,8 @@ type SettingsScreenNavigationProp = StackNavigationProp<RootStackParamList>;
 export function SettingsScreen() {
   const { user, session, signOut } = useAuth();
   const navigation = useNavigation<SettingsScreenNavigationProp>();
-  const { theme } = useTheme();
+  const { theme, isDark } = useTheme();
+  const { t } = useLocale();
   const queryClient = useQueryClient();
   const insets = useSafeAreaInsets();
 
@@ -241,9 +245,11 @@ export function SettingsScreen() {
         contentContainerStyle={styles.scrollContent}
         showsVerticalScrollIndicator={false}>
         {/* Profile & Security */}
-        <SettingsCategoryCard title="PROFILE & SECURITY" icon="shield">
+        <SettingsCategoryCard
+          title={t('settings.profileSecurity')}
+          icon="shield">
           <SettingsItem
-            label="Change Password"
+            label={t('settings.changePassword')}
             onPress={handleChangePassword}
             icon="key"
             iconColor={COLORS.primary}
@@ -257,7 +263,7 @@ export function SettingsScreen() {
             ]}
           />
           <SettingsItem
-            label="Multi-Factor Authentication"
+            label={t('settings.mfa')}
             onPress={handleEnableMfa}
             icon="lock-closed"
             iconColor={COLORS.primary}
@@ -267,9 +273,27 @@ export function SettingsScreen() {
         </SettingsCategoryCard>
 
         {/* App Settings */}
-        <SettingsCategoryCard title="APP SETTINGS" icon="settings">
+        <SettingsCategoryCard title={t('settings.appSettings')} icon="settings">
           <SettingsNotificationsSection />
 
+          <View
+            style={[
+              styles.divider,
+              { backgroundColor: isDark ? '#374151' : '#F3F4F6' },
+            ]}
+          />
+
+          <SettingsLanguageSection />
+
+          <View
+            style={[
+              styles.divider,
+              { backgroundColor: isDark ? '#374151' : '#F3F4F6' },
+            ]}
+          />
+
+          <SettingsReviewSchedulerSection />
+
           <View
             style={[
               styles.divider,
@@ -297,7 +321,7 @@ export function SettingsScreen() {
                   />
                 </View>
                 <Text style={[styles.privacyTitle, { color: theme.text }]}>
-                  Share Usage Analytics
+                  {t('settings.shareAnalytics')}
                 </Text>
               </View>
             }>
@@ -306,8 +330,7 @@ export function SettingsScreen() {
                 styles.privacyDescription,
                 { color: theme.isDark ? '#9CA3AF' : '#6B7280' },
               ]}>
-              Help us improve the app by sharing anonymous usage data. No
-              personal information is collected.
+              {t('settings.shareAnalyticsDescription')}
             </Text>
             <View
               style={[
@@ -323,7 +346,7 @@ export function SettingsScreen() {
               ]}>
               <Text
                 style={[styles.analyticsToggleLabel, { color: theme.text }]}>
-                Share Data
+                {t('settings.shareData')}
               </Text>
               <AnalyticsToggle />
             </View>
@@ -338,7 +361,7 @@ export function SettingsScreen() {
 
           {/* Clear Cache */}
           <SettingsItem
-            label="Clear Cache"
+            label={t('settings.clearCache')}
             onPress={handleClearCache}
             icon="trash-outline"
             iconColor={theme.isDark ? '#9CA3AF' : '#4B5563'}
@@ -361,7 +384,7 @@ export function SettingsScreen() {
 
           {/* Reset All Settings */}
           <SettingsItem
-            label="Reset All Settings"
+            label={t('settings.resetAll')}
             onPress={handleResetSettings}
             icon="refresh"
             iconColor="#EF4444"
@@ -373,15 +396,31 @@ export function SettingsScreen() {
         </SettingsCategoryCard>
 
         {/* Account Management */}
-        <SettingsCategoryCard title="ACCOUNT MANAGEMENT" icon="person-circle">
+        <SettingsCategoryCard
+          title={t('settings.accountManagement')}
+          icon="person-circle">
           <SettingsItem
-            label="Recycle Bin"
+            label={t('settings.recycleBin')}
             onPress={() => navigation.navigate('RecycleBin')}
             icon="trash-outline"
             iconColor={theme.isDark ? '#9CA3AF' : '#4B5563'}
             iconBgColor={theme.isDark ? '#374151' : '#F3F4F6'}
             showChevron
           />
+          <View
+            style={[
+              styles.divider,
+              { backgroundColor: isDark ? '#374151' : '#F3F4F6' },
+            ]}
+          />
+          <SettingsItem
+            label={t('settings.importData')}
+            onPress={() => navigation.navigate('ImportData')}
+            icon="cloud-upload-outline"
+            iconColor={isDark ? '#9CA3AF' : '#4B5563'}
+            iconBgColor={isDark ? '#374151' : '#F3F4F6'}
+            showChevron
+          />
           <View
             style={[
               styles.divider,
@@ -389,7 +428,7 @@ export function SettingsScreen() {
             ]}
           />
           <SettingsItem
-            label="Log Out From All Devices"
+            label={t('settings.logOutAll')}
             onPress={handleGlobalSignOut}
             icon="phone-portrait-outline"
             iconColor="#EF4444"
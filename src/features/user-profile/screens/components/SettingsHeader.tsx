@@ -3,6 +3,7 @@ import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
 import { Ionicons } from '@expo/vector-icons';
 import { BlurView } from 'expo-blur';
 import { useTheme } from '@/contexts/ThemeContext';
+import { useLocale } from '@/contexts/LocaleContext';
 import { FONT_SIZES, FONT_WEIGHTS, SPACING } from '@/constants/theme';
 
 interface SettingsHeaderProps {
@@ -11,6 +12,7 @@ interface SettingsHeaderProps {
 
 export const SettingsHeader: React.FC<SettingsHeaderProps> = ({ onBack }) => {
   const { theme } = useTheme();
+  const { t } = useLocale();
 
   return (
     <View style={styles.header}>
@@ -35,7 +37,7 @@ export const SettingsHeader: React.FC<SettingsHeaderProps> = ({ onBack }) => {
             styles.headerTitle,
             { color: theme.isDark ? '#FFFFFF' : '#111318' },
           ]}>
-          Settings
+          {t('settings.title')}
         </Text>
         <View style={styles.headerSpacer} />
       </View>
@@ -0,0 +1,119 @@
+import React from 'react';
+import { View, Text, TouchableOpacity, StyleSheet } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { ExpandableDetails } from '@/shared/components';
+import { useTheme } from '@/contexts/ThemeContext';
+import { useLocale } from '@/contexts/LocaleContext';
+import { SupportedLocale } from '@/i18n';
+import { COLORS, FONT_SIZES, FONT_WEIGHTS, SPACING } from '@/constants/theme';
+
+export const SettingsLanguageSection: React.FC = () => {
+  const { theme, isDark } = useTheme();
+  const {
+    locale,
+    localeOverride,
+    deviceLocale,
+    setLocale,
+    t,
+    localeNames,
+    supportedLocales,
+  } = useLocale();
+
+  const options: { value: SupportedLocale | null; label: string }[] = [
+    {
+      value: null,
+      label: t('settings.language.system', {
+        language: localeNames[deviceLocale],
+      }),
+    },
+    ...supportedLocales.map(value => ({ value, label: localeNames[value] })),
+  ];
+
+  return (
+    <ExpandableDetails
+      summary={
+        <View style={styles.summary}>
+          <View
+            style={[
+              styles.iconContainer,
+              {
+                backgroundColor: isDark ? 'rgba(20, 184, 166, 0.2)' : '#CCFBF1',
+              },
+            ]}>
+            <Ionicons
+              name="language"
+              size={22}
+              color={isDark ? '#2DD4BF' : '#0D9488'}
+            />
+          </View>
+          <Text style={[styles.title, { color: theme.text }]}>
+            {t('settings.language')}
+          </Text>
+          <Text style={[styles.current, { color: theme.textSecondary }]}>
+            {localeNames[locale]}
+          </Text>
+        </View>
+      }>
+      {options.map(option => {
+        const selected = option.value === localeOverride;
+        return (
+          <TouchableOpacity
+            key={option.value ?? 'system'}
+            style={styles.option}
+            onPress={() => setLocale(option.value)}
+            accessibilityRole="radio"
+            accessibilityState={{ selected }}>
+            <Text
+              style={[
+                styles.optionLabel,
+                { color: theme.text },
+                selected && styles.optionLabelSelected,
+              ]}>
+              {option.label}
+            </Text>
+            {selected && (
+              <Ionicons name="checkmark" size={20} color={COLORS.primary} />
+            )}
+          </TouchableOpacity>
+        );
+      })}
+    </ExpandableDetails>
+  );
+};
+
+const styles = StyleSheet.create({
+  summary: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    flex: 1,
+  },
+  iconContainer: {
+    width: 40,
+    height: 40,
+    borderRadius: 12,
+    justifyContent: 'center',
+    alignItems: 'center',
+    flexShrink: 0,
+  },
+  title: {
+    flex: 1,
+    fontSize: FONT_SIZES.md,
+    fontWeight: FONT_WEIGHTS.medium,
+  },
+  current: {
+    fontSize: FONT_SIZES.sm,
+  },
+  option: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingVertical: SPACING.sm,
+  },
+  optionLabel: {
+    fontSize: FONT_SIZES.md,
+  },
+  optionLabelSelected: {
+    fontWeight: FONT_WEIGHTS.semibold,
+  },
+});
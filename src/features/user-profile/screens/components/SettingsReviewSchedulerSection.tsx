@@ -0,0 +1,251 @@
+import React, { useEffect, useState } from 'react';
+import { View, Text, TouchableOpacity, StyleSheet } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { ExpandableDetails } from '@/shared/components';
+import { useTheme } from '@/contexts/ThemeContext';
+import { useLocale } from '@/contexts/LocaleContext';
+import { useAuth } from '@/contexts/AuthContext';
+import {
+  DEFAULT_DESIRED_RETENTION,
+  SRSAlgorithm,
+  SRSSchedulingService,
+  SRSUserPreferences,
+} from '@/features/srs';
+import { showToast } from '@/utils/showToast';
+import { COLORS, FONT_SIZES, FONT_WEIGHTS, SPACING } from '@/constants/theme';
+
+const RETENTION_OPTIONS = [0.8, 0.85, 0.9, 0.95];
+
+type SchedulerSettings = Pick<
+  SRSUserPreferences,
+  'algorithm' | 'desiredRetention'
+>;
+
+const formatRetention = (retention: number) =>
+  `${Math.round(retention * 100)}%`;
+
+export const SettingsReviewSchedulerSection: React.FC = () => {
+  const { theme, isDark } = useTheme();
+  const { t } = useLocale();
+  const { user } = useAuth();
+  const [settings, setSettings] = useState<SchedulerSettings>({
+    algorithm: 'sm2',
+    desiredRetention: DEFAULT_DESIRED_RETENTION,
+  });
+
+  useEffect(() => {
+    if (!user?.id) return;
+    let cancelled = false;
+    SRSSchedulingService.getInstance()
+      .getUserPreferences(user.id)
+      .then(preferences => {
+        if (cancelled || !preferences) return;
+        setSettings({
+          algorithm: preferences.algorithm ?? 'sm2',
+          desiredRetention:
+            preferences.desiredRetention ?? DEFAULT_DESIRED_RETENTION,
+        });
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [user?.id]);
+
+  const save = async (update: Partial<SchedulerSettings>) => {
+    if (!user?.id) return;
+    const previous = settings;
+    setSettings({ ...previous, ...update });
+    try {
+      await SRSSchedulingService.getInstance().updateUserPreferences(
+        user.id,
+        update,
+      );
+    } catch {
+      setSettings(previous);
+      showToast({
+        type: 'error',
+        message: t('settings.reviewScheduler.saveFailed'),
+      });
+    }
+  };
+
+  const algorithms: {
+    value: SRSAlgorithm;
+    label: string;
+    description: string;
+  }[] = [
+    {
+      value: 'sm2',
+      label: t('settings.reviewScheduler.sm2'),
+      description: t('settings.reviewScheduler.sm2Description'),
+    },
+    {
+      value: 'fsrs',
+      label: t('settings.reviewScheduler.fsrs'),
+      description: t('settings.reviewScheduler.fsrsDescription'),
+    },
+  ];
+  const current = algorithms.find(
+    option => option.value === settings.algorithm,
+  );
+
+  return (
+    <ExpandableDetails
+      summary={
+        <View style={styles.summary}>
+          <View
+            style={[
+              styles.iconContainer,
+              {
+                backgroundColor: isDark ? 'rgba(139, 92, 246, 0.2)' : '#EDE9FE',
+              },
+            ]}>
+            <Ionicons
+              name="repeat"
+              size={22}
+              color={isDark ? '#A78BFA' : '#7C3AED'}
+            />
+          </View>
+          <Text style={[styles.title, { color: theme.text }]}>
+            {t('settings.reviewScheduler')}
+          </Text>
+          <Text style={[styles.current, { color: theme.textSecondary }]}>
+            {current?.label}
+          </Text>
+        </View>
+      }>
+      {algorithms.map(option => {
+        const selected = option.value === settings.algorithm;
+        return (
+          <TouchableOpacity
+            key={option.value}
+            style={styles.option}
+            onPress={() => save({ algorithm: option.value })}
+            accessibilityRole="radio"
+            accessibilityState={{ selected }}>
+            <View style={styles.optionText}>
+              <Text
+                style={[
+                  styles.optionLabel,
+                  { color: theme.text },
+                  selected && styles.optionLabelSelected,
+                ]}>
+                {option.label}
+              </Text>
+              <Text
+                style={[
+                  styles.optionDescription,
+                  { color: theme.textSecondary },
+                ]}>
+                {option.description}
+              </Text>
+            </View>
+            {selected && (
+              <Ionicons name="checkmark" size={20} color={COLORS.primary} />
+            )}
+          </TouchableOpacity>
+        );
+      })}
+      {settings.algorithm === 'fsrs' && (
+        <View style={styles.retention}>
+          <Text style={[styles.optionLabel, { color: theme.text }]}>
+            {t('settings.reviewScheduler.retention')}
+          </Text>
+          <Text
+            style={[styles.optionDescription, { color: theme.textSecondary }]}>
+            {t('settings.reviewScheduler.retentionDescription')}
+          </Text>
+          <View style={styles.chips}>
+            {RETENTION_OPTIONS.map(retention => {
+              const selected = retention === settings.desiredRetention;
+              return (
+                <TouchableOpacity
+                  key={retention}
+                  style={[
+                    styles.chip,
+                    { borderColor: selected ? COLORS.primary : theme.border },
+                    selected && { backgroundColor: COLORS.primary },
+                  ]}
+                  onPress={() => save({ desiredRetention: retention })}
+                  accessibilityRole="radio"
+                  accessibilityState={{ selected }}>
+                  <Text
+                    style={[
+                      styles.chipLabel,
+                      { color: selected ? COLORS.white : theme.text },
+                    ]}>
+                    {formatRetention(retention)}
+                  </Text>
+                </TouchableOpacity>
+              );
+            })}
+          </View>
+        </View>
+      )}
+    </ExpandableDetails>
+  );
+};
+
+const styles = StyleSheet.create({
+  summary: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    flex: 1,
+  },
+  iconContainer: {
+    width: 40,
+    height: 40,
+    borderRadius: 12,
+    justifyContent: 'center',
+    alignItems: 'center',
+    flexShrink: 0,
+  },
+  title: {
+    flex: 1,
+    fontSize: FONT_SIZES.md,
+    fontWeight: FONT_WEIGHTS.medium,
+  },
+  current: {
+    fontSize: FONT_SIZES.sm,
+  },
+  option: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingVertical: SPACING.sm,
+  },
+  optionText: {
+    flex: 1,
+    marginRight: SPACING.sm,
+  },
+  optionLabel: {
+    fontSize: FONT_SIZES.md,
+  },
+  optionLabelSelected: {
+    fontWeight: FONT_WEIGHTS.semibold,
+  },
+  optionDescription: {
+    fontSize: FONT_SIZES.sm,
+    marginTop: 2,
+  },
+  retention: {
+    paddingTop: SPACING.sm,
+  },
+  chips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: SPACING.sm,
+    marginTop: SPACING.sm,
+  },
+  chip: {
+    paddingHorizontal: SPACING.md,
+    paddingVertical: SPACING.xs,
+    borderRadius: 16,
+    borderWidth: 1,
+  },
+  chipLabel: {
+    fontSize: FONT_SIZES.sm,
+    fontWeight: FONT_WEIGHTS.medium,
+  },
+});
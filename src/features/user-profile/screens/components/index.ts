@@ -2,3 +2,5 @@ export { SettingsHeader } from './SettingsHeader';
 export { SettingsCategoryCard } from './SettingsCategoryCard';
 export { SettingsItem } from './SettingsItem';
 export { SettingsNotificationsSection } from './SettingsNotificationsSection';
+export { SettingsLanguageSection } from './SettingsLanguageSection';
+export { SettingsReviewSchedulerSection } from './SettingsReviewSchedulerSection';
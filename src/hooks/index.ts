@@ -10,6 +10,45 @@ export { useWeeklyTaskCount, useMonthlyTaskCount } from './useWeeklyTaskCount';
 export { useDeletedItems } from './useDeletedItems';
 export { useDeletedItemsQuery } from './useDeletedItemsQuery';
 export { useCourseDetail } from './useCourseDetail';
+export {
+  useCourseGrades,
+  useGradeSummary,
+  useUpdateAssignmentGrade,
+  useUpdateGradingScheme,
+} from './useGrades';
+export {
+  useTerms,
+  useTermCourses,
+  useSaveTerm,
+  useArchiveTerm,
+  useDeleteTerm,
+} from './useTerms';
+export { useTags, useSaveTag, useDeleteTag } from './useTags';
+export { useAchievements } from './useAchievements';
+export {
+  useWeeklyReports,
+  useWeeklyReport,
+  useMarkWeeklyReportRead,
+} from './useWeeklyReports';
+export { useStudyPlan, useAcceptStudyPlan } from './useStudyPlan';
+export {
+  useExams,
+  useCreateExam,
+  useUpdateExam,
+  useDeleteExam,
+  useExamRevisionPlan,
+  useAcceptExamRevision,
+} from './useExams';
+export {
+  useFlashcardDecks,
+  useFlashcards,
+  useCreateFlashcardDeck,
+  useDeleteFlashcardDeck,
+  useImportFlashcards,
+  useSaveFlashcard,
+  useDeleteFlashcard,
+  useReviewFlashcard,
+} from './useFlashcards';
 export { useTotalTaskCount } from './useTotalTaskCount';
 export { useTheme } from './useTheme';
 export {
@@ -17,5 +56,7 @@ export {
   useDeleteTask,
   useRestoreTask,
 } from './useTaskMutations';
+export { useRescheduleTask } from './useRescheduleTask';
+export { useSearch, useRecentSearches } from './useSearch';
 export { useDebounce } from './useDebounce';
 export { useUsernameAvailability } from './useUsernameAvailability';
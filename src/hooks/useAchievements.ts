@@ -0,0 +1,27 @@
+import { useQuery } from '@tanstack/react-query';
+import { versionedApiClient } from '@/services/VersionedApiClient';
+import { ApiError } from '@/services/api/errors';
+import { StreakSummary, UserAchievement } from '@/types';
+
+/**
+ * React Query hook for the user's study streak and earned badges,
+ * newest badge first
+ */
+export const useAchievements = () => {
+  return useQuery<
+    { streak: StreakSummary; achievements: UserAchievement[] },
+    Error
+  >({
+    queryKey: ['achievements'],
+    queryFn: async () => {
+      const response = await versionedApiClient.getAchievements();
+      if (response.error || !response.data) {
+        throw new ApiError(
+          response.message || response.error || 'Failed to load achievements',
+          response.code,
+        );
+      }
+      return response.data;
+    },
+  });
+};
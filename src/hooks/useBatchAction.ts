@@ -5,8 +5,31 @@ import { useNetwork } from '@/contexts/NetworkContext';
 import { useAuth } from '@/contexts/AuthContext';
 import { syncManager } from '@/services/syncManager';
 import { invokeEdgeFunctionWithAuth } from '@/utils/invokeEdgeFunction';
-
-export type BatchActionType = 'RESTORE' | 'DELETE_PERMANENTLY';
+import { invalidateTaskQueries } from '@/utils/queryInvalidation';
+
+/** Bulk edits of tasks; each returns an undo token for the whole batch */
+export type BatchEditActionType =
+  | 'RESCHEDULE'
+  | 'MOVE_COURSE'
+  | 'COMPLETE'
+  | 'SOFT_DELETE';
+
+export type BatchActionType =
+  | 'RESTORE'
+  | 'DELETE_PERMANENTLY'
+  | BatchEditActionType
+  | 'UNDO';
+
+const BATCH_EDIT_ACTIONS: BatchActionType[] = [
+  'RESCHEDULE',
+  'MOVE_COURSE',
+  'COMPLETE',
+  'SOFT_DELETE',
+];
+
+export const isBatchEditAction = (
+  action: BatchActionType,
+): action is BatchEditActionType => BATCH_EDIT_ACTIONS.includes(action);
 
 export interface BatchItem {
   id: string;
@@ -16,6 +39,12 @@ export interface BatchItem {
 export interface BatchActionRequest {
   action: BatchActionType;
   items: BatchItem[];
+  /** RESCHEDULE: days to move the items by, negative for earlier */
+  shift_days?: number;
+  /** MOVE_COURSE: course to move the items to */
+  course_id?: string;
+  /** UNDO: token returned by the bulk edit being undone */
+  undo_token?: string;
 }
 
 export interface BatchActionResult {
@@ -29,6 +58,12 @@ export interface BatchActionResult {
       failed: Array<{ id: string; type: string; error: string }>;
     };
   };
+  /** Bulk edits: pass back with UNDO to revert the whole batch */
+  undo_token?: string;
+  undo_expires_at?: string;
+  /** Offline bulk edits: the queued action, removed from the queue to undo */
+  queued_action_id?: string;
+  offline?: boolean;
 }
 
 async function batchAction(
@@ -55,13 +90,36 @@ export function useBatchAction() {
   return useMutation({
     mutationFn: async (request: BatchActionRequest) => {
       // OFFLINE MODE: Add to queue instead of calling server
+      if (!isOnline && request.action === 'UNDO') {
+        throw new Error('Connect to the internet to undo this change.');
+      }
+
       if (!isOnline) {
         console.log(
           `📴 Offline: Queueing BATCH ${request.action} for ${request.items.length} items`,
         );
 
         // Add to sync queue
-        if (user?.id) {
+        let queuedActionId: string | undefined;
+        if (user?.id && isBatchEditAction(request.action)) {
+          const queued = await syncManager.addToQueue(
+            'BATCH_UPDATE',
+            'assignment', // This is just for type - batch actions work across types
+            {
+              type: 'BATCH_UPDATE',
+              action: request.action,
+              items: request.items.map(item => ({
+                id: item.id,
+                type: item.type as Exclude<BatchItem['type'], 'course'>,
+              })),
+              shiftDays: request.shift_days,
+              courseId: request.course_id,
+            },
+            user.id,
+            { syncImmediately: false },
+          );
+          queuedActionId = queued.id;
+        } else if (user?.id) {
           await syncManager.addToQueue(
             request.action === 'RESTORE' ? 'BATCH_RESTORE' : 'BATCH_DELETE',
             'assignment', // This is just for type - batch actions work across types
@@ -93,6 +151,7 @@ export function useBatchAction() {
               failed: [],
             },
           },
+          queued_action_id: queuedActionId,
           offline: true,
         };
       }
@@ -107,7 +166,17 @@ export function useBatchAction() {
       console.log(`✅ Batch operation completed:`, data);
 
       // Only invalidate queries when online - offline changes are in the queue
-      if (isOnline) {
+      if (
+        isOnline &&
+        (variables.action === 'UNDO' || isBatchEditAction(variables.action))
+      ) {
+        // Edited tasks show up on home, calendar and course screens
+        await invalidateTaskQueries(queryClient);
+        queryClient.invalidateQueries({ queryKey: ['courseTasks'] });
+        queryClient.invalidateQueries({ queryKey: ['courseGrades'] });
+        queryClient.invalidateQueries({ queryKey: ['deletedItems'] });
+        await cache.remove('homeScreenData');
+      } else if (isOnline) {
         // Invalidate relevant queries
         queryClient.invalidateQueries({ queryKey: ['deletedItems'] });
 
@@ -0,0 +1,75 @@
+import { useCallback } from 'react';
+import { Alert } from 'react-native';
+import { useToast, ToastOptions } from '@/contexts/ToastContext';
+import { syncManager } from '@/services/syncManager';
+import { BatchItem, useBatchAction } from '@/hooks/useBatchAction';
+import {
+  BulkTaskEdit,
+  buildBulkEditRequest,
+  describeBulkEditResult,
+} from '@/utils/bulkEdit';
+import { mapErrorCodeToMessage, getErrorTitle } from '@/utils/errorMapping';
+
+const UNDO_TOAST_DURATION = 8000;
+
+const TOAST_ICONS: Record<BulkTaskEdit['action'], ToastOptions['icon']> = {
+  RESCHEDULE: 'calendar-outline',
+  MOVE_COURSE: 'folder-outline',
+  COMPLETE: 'checkmark-circle-outline',
+  SOFT_DELETE: 'trash-outline',
+};
+
+/**
+ * Apply one edit to a set of tasks and offer to undo the whole batch from
+ * the toast. Offline, undoing takes the edit back out of the sync queue.
+ */
+export function useBulkTaskEdit() {
+  const batchAction = useBatchAction();
+  const { showToast } = useToast();
+  const { mutateAsync } = batchAction;
+
+  const applyEdit = useCallback(
+    async (edit: BulkTaskEdit, items: BatchItem[]) => {
+      try {
+        const result = await mutateAsync(buildBulkEditRequest(edit, items));
+        const { undo_token: undoToken, queued_action_id: queuedActionId } =
+          result;
+
+        const undo = async () => {
+          try {
+            if (queuedActionId) {
+              await syncManager.removeAction(queuedActionId);
+            } else if (undoToken) {
+              await mutateAsync({
+                action: 'UNDO',
+                items: [],
+                undo_token: undoToken,
+              });
+            }
+          } catch (error) {
+            Alert.alert(
+              "Couldn't undo",
+              error instanceof Error
+                ? error.message
+                : mapErrorCodeToMessage(error),
+            );
+          }
+        };
+
+        showToast({
+          message: describeBulkEditResult(edit, result),
+          onUndo: undoToken || queuedActionId ? undo : undefined,
+          icon: TOAST_ICONS[edit.action],
+          duration: UNDO_TOAST_DURATION,
+        });
+        return result;
+      } catch (error) {
+        Alert.alert(getErrorTitle(error), mapErrorCodeToMessage(error));
+        return null;
+      }
+    },
+    [mutateAsync, showToast],
+  );
+
+  return { applyEdit, isApplying: batchAction.isPending };
+}
@@ -0,0 +1,112 @@
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '@/services/supabase';
+import { mapDbSubtasks } from '@/services/api/mappers';
+import { Task, TaskPriority } from '@/types';
+import { AssignmentSubtaskPayload } from '@/types/api';
+
+// A lectures, assignments or study_sessions row with its course name
+interface CourseTaskRow {
+  id: string;
+  status?: string | null;
+  lecture_name?: string | null;
+  lecture_date?: string;
+  start_time?: string | null;
+  end_time?: string | null;
+  title?: string;
+  due_date?: string;
+  topic?: string;
+  session_date?: string;
+  subtasks?: AssignmentSubtaskPayload[] | null;
+  estimated_minutes?: number | null;
+  priority?: TaskPriority;
+  tag_ids?: string[] | null;
+  courses?: { course_name?: string } | null;
+}
+
+const toTaskStatus = (row: CourseTaskRow): Task['status'] =>
+  row.status === 'completed' ? 'completed' : 'pending';
+
+const courseNameOf = (row: CourseTaskRow) => ({
+  courseName: row.courses?.course_name ?? '',
+});
+
+/**
+ * React Query hook for a course's lectures, assignments and study sessions
+ * as tasks, earliest first
+ */
+export const useCourseTasks = (courseId: string) => {
+  return useQuery<Task[], Error>({
+    queryKey: ['courseTasks', courseId],
+    queryFn: async () => {
+      const [lectures, assignments, studySessions] = await Promise.all([
+        supabase
+          .from('lectures')
+          .select('*, courses(course_name)')
+          .eq('course_id', courseId)
+          .is('deleted_at', null),
+        supabase
+          .from('assignments')
+          .select('*, courses(course_name)')
+          .eq('course_id', courseId)
+          .is('deleted_at', null),
+        supabase
+          .from('study_sessions')
+          .select('*, courses(course_name)')
+          .eq('course_id', courseId)
+          .is('deleted_at', null),
+      ]);
+
+      if (lectures.error) throw lectures.error;
+      if (assignments.error) throw assignments.error;
+      if (studySessions.error) throw studySessions.error;
+
+      const tasks: Task[] = [
+        ...(lectures.data || []).map(
+          (row: CourseTaskRow): Task => ({
+            id: row.id,
+            type: 'lecture',
+            date: row.start_time || row.lecture_date || '',
+            startTime: row.start_time ?? undefined,
+            endTime: row.end_time ?? undefined,
+            name: row.lecture_name || 'Lecture',
+            status: toTaskStatus(row),
+            courses: courseNameOf(row),
+            priority: row.priority,
+            tag_ids: row.tag_ids ?? [],
+          }),
+        ),
+        ...(assignments.data || []).map(
+          (row: CourseTaskRow): Task => ({
+            id: row.id,
+            type: 'assignment',
+            date: row.due_date || '',
+            name: row.title || '',
+            status: toTaskStatus(row),
+            courses: courseNameOf(row),
+            priority: row.priority,
+            tag_ids: row.tag_ids ?? [],
+            subtasks: mapDbSubtasks(row.subtasks),
+            estimatedMinutes: row.estimated_minutes ?? undefined,
+          }),
+        ),
+        ...(studySessions.data || []).map(
+          (row: CourseTaskRow): Task => ({
+            id: row.id,
+            type: 'study_session',
+            date: row.session_date || '',
+            name: row.topic || '',
+            status: toTaskStatus(row),
+            courses: courseNameOf(row),
+            priority: row.priority,
+            tag_ids: row.tag_ids ?? [],
+          }),
+        ),
+      ];
+
+      return tasks.sort(
+        (a, b) => new Date(a.date).getTime() - new Date(b.date).getTime(),
+      );
+    },
+    enabled: !!courseId,
+  });
+};
@@ -0,0 +1,122 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { versionedApiClient } from '@/services/VersionedApiClient';
+import { ApiResponse } from '@/services/ApiVersioningService';
+import { ApiError } from '@/services/api/errors';
+import { DbExam, mapDbExamToAppExam } from '@/services/api/mappers';
+import { invalidateTaskQueries } from '@/utils/queryInvalidation';
+import {
+  CreateExamRequest,
+  Exam,
+  ExamRevisionPlan,
+  ExamRevisionResult,
+  UpdateExamRequest,
+} from '@/types';
+
+const unwrap = <T>(response: ApiResponse<T>, fallback: string): T => {
+  if (response.error || !response.data) {
+    throw new ApiError(
+      response.message || response.error || fallback,
+      response.code,
+    );
+  }
+  return response.data;
+};
+
+/**
+ * React Query hook for the user's exams, soonest first
+ */
+export const useExams = (enabled = true) => {
+  return useQuery<Exam[], Error>({
+    queryKey: ['exams'],
+    queryFn: async () => {
+      const exams = unwrap(
+        await versionedApiClient.getExams(),
+        'Failed to load exams',
+      );
+      return (exams as unknown as DbExam[]).map(mapDbExamToAppExam);
+    },
+    enabled,
+  });
+};
+
+export const useCreateExam = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (request: CreateExamRequest) =>
+      mapDbExamToAppExam(
+        unwrap(
+          await versionedApiClient.createExam(request),
+          'Failed to add exam',
+        ) as unknown as DbExam,
+      ),
+    onSuccess: () => invalidateTaskQueries(queryClient, 'exam'),
+  });
+};
+
+/**
+ * Updates an exam. revisionOutdated is set when the exam moved and reviews
+ * after its new date were cancelled, so the plan should be offered again.
+ */
+export const useUpdateExam = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (request: UpdateExamRequest) => {
+      const result = unwrap(
+        await versionedApiClient.updateExam(request),
+        'Failed to update exam',
+      ) as unknown as DbExam & { revision_outdated?: boolean };
+      return {
+        exam: mapDbExamToAppExam(result),
+        revisionOutdated: result.revision_outdated === true,
+      };
+    },
+    onSuccess: () => invalidateTaskQueries(queryClient),
+  });
+};
+
+/**
+ * Deletes an exam and its pending reminders; revision sessions stay
+ */
+export const useDeleteExam = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (examId: string) =>
+      unwrap(
+        await versionedApiClient.deleteExam(examId),
+        'Failed to delete exam',
+      ),
+    onSuccess: () => invalidateTaskQueries(queryClient, 'exam'),
+  });
+};
+
+/**
+ * Fetches the revision plan proposed for an exam without saving anything
+ */
+export const useExamRevisionPlan = () => {
+  return useMutation({
+    mutationFn: async (examId: string) =>
+      unwrap(
+        await versionedApiClient.getExamRevisionPlan(examId),
+        'Failed to plan revision',
+      ) as unknown as ExamRevisionPlan,
+  });
+};
+
+/**
+ * Creates the study sessions and reviews of an exam's revision plan
+ */
+export const useAcceptExamRevision = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (examId: string) =>
+      unwrap(
+        await versionedApiClient.acceptExamRevisionPlan(examId),
+        'Failed to create revision plan',
+      ) as unknown as ExamRevisionResult,
+    onSuccess: () => invalidateTaskQueries(queryClient, 'study_session'),
+  });
+};
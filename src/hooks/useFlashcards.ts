@@ -0,0 +1,172 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { versionedApiClient } from '@/services/VersionedApiClient';
+import { ApiResponse } from '@/services/ApiVersioningService';
+import { ApiError } from '@/services/api/errors';
+import {
+  DbFlashcard,
+  DbFlashcardDeck,
+  mapDbFlashcardDeckToAppFlashcardDeck,
+  mapDbFlashcardToAppFlashcard,
+} from '@/services/api/mappers';
+import {
+  CreateFlashcardDeckRequest,
+  CreateFlashcardRequest,
+  Flashcard,
+  FlashcardDeck,
+  FlashcardImportResult,
+  FlashcardReviewResult,
+  ImportFlashcardsRequest,
+  ReviewFlashcardRequest,
+  UpdateFlashcardRequest,
+} from '@/types';
+
+const unwrap = <T>(response: ApiResponse<T>, fallback: string): T => {
+  if (response.error || !response.data) {
+    throw new ApiError(
+      response.message || response.error || fallback,
+      response.code,
+    );
+  }
+  return response.data;
+};
+
+/**
+ * Decks of a study session, plus the course-wide decks of its course when
+ * courseId is given
+ */
+export const useFlashcardDecks = (owner: {
+  studySessionId?: string;
+  courseId?: string;
+}) => {
+  return useQuery<FlashcardDeck[], Error>({
+    queryKey: ['flashcardDecks', owner.studySessionId, owner.courseId],
+    queryFn: async () => {
+      const decks = unwrap(
+        await versionedApiClient.getFlashcardDecks(owner),
+        'Failed to load flashcard decks',
+      );
+      return (decks as unknown as DbFlashcardDeck[]).map(
+        mapDbFlashcardDeckToAppFlashcardDeck,
+      );
+    },
+    enabled: Boolean(owner.studySessionId || owner.courseId),
+  });
+};
+
+/** The cards of a deck, the most overdue first */
+export const useFlashcards = (deckId?: string) => {
+  return useQuery<Flashcard[], Error>({
+    queryKey: ['flashcards', deckId],
+    queryFn: async () => {
+      const cards = unwrap(
+        await versionedApiClient.getFlashcards(deckId!),
+        'Failed to load flashcards',
+      );
+      return (cards as unknown as DbFlashcard[]).map(
+        mapDbFlashcardToAppFlashcard,
+      );
+    },
+    enabled: Boolean(deckId),
+  });
+};
+
+export const useCreateFlashcardDeck = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (request: CreateFlashcardDeckRequest) =>
+      mapDbFlashcardDeckToAppFlashcardDeck(
+        unwrap(
+          await versionedApiClient.createFlashcardDeck(request),
+          'Failed to create deck',
+        ) as unknown as DbFlashcardDeck,
+      ),
+    onSuccess: () =>
+      queryClient.invalidateQueries({ queryKey: ['flashcardDecks'] }),
+  });
+};
+
+export const useDeleteFlashcardDeck = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (deckId: string) =>
+      unwrap(
+        await versionedApiClient.deleteFlashcardDeck(deckId),
+        'Failed to delete deck',
+      ),
+    onSuccess: () =>
+      queryClient.invalidateQueries({ queryKey: ['flashcardDecks'] }),
+  });
+};
+
+/** Import an Anki package or CSV/TSV file into course decks */
+export const useImportFlashcards = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (request: ImportFlashcardsRequest) =>
+      unwrap(
+        await versionedApiClient.importFlashcards(request),
+        'Failed to import flashcards',
+      ) as unknown as FlashcardImportResult,
+    onSuccess: () =>
+      queryClient.invalidateQueries({ queryKey: ['flashcardDecks'] }),
+  });
+};
+
+export const useSaveFlashcard = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (
+      request: CreateFlashcardRequest | UpdateFlashcardRequest,
+    ) =>
+      mapDbFlashcardToAppFlashcard(
+        unwrap(
+          'flashcard_id' in request
+            ? await versionedApiClient.updateFlashcard(request)
+            : await versionedApiClient.createFlashcard(request),
+          'Failed to save flashcard',
+        ) as unknown as DbFlashcard,
+      ),
+    onSuccess: card => {
+      queryClient.invalidateQueries({ queryKey: ['flashcards', card.deckId] });
+      queryClient.invalidateQueries({ queryKey: ['flashcardDecks'] });
+    },
+  });
+};
+
+export const useDeleteFlashcard = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (card: Pick<Flashcard, 'id' | 'deckId'>) =>
+      unwrap(
+        await versionedApiClient.deleteFlashcard(card.id),
+        'Failed to delete flashcard',
+      ),
+    onSuccess: (_result, card) => {
+      queryClient.invalidateQueries({ queryKey: ['flashcards', card.deckId] });
+      queryClient.invalidateQueries({ queryKey: ['flashcardDecks'] });
+    },
+  });
+};
+
+/**
+ * Records a review of one card. The card list is not refetched here, so a
+ * review in progress keeps its queue; due counts are refreshed.
+ */
+export const useReviewFlashcard = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (request: ReviewFlashcardRequest) =>
+      unwrap(
+        await versionedApiClient.reviewFlashcard(request),
+        'Failed to record review',
+      ) as FlashcardReviewResult,
+    onSuccess: () =>
+      queryClient.invalidateQueries({ queryKey: ['flashcardDecks'] }),
+  });
+};
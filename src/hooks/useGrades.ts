@@ -0,0 +1,178 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/services/supabase';
+import {
+  mapDbAssignmentToAppAssignment,
+  mapDbCourseToAppCourse,
+  mapGradingSchemeToDb,
+} from '@/services/api/mappers';
+import { invokeEdgeFunctionWithAuth } from '@/utils/invokeEdgeFunction';
+import {
+  CourseGrade,
+  GpaSummary,
+  calculateCourseGrade,
+  calculateGpa,
+} from '@/utils/grades';
+import { Assignment, Course, GradingScheme } from '@/types';
+
+export interface CourseGrades {
+  course: Course;
+  assignments: Assignment[];
+  grade: CourseGrade;
+}
+
+export interface GradeSummary extends GpaSummary {
+  courses: { course: Course; grade: CourseGrade }[];
+}
+
+export interface AssignmentGradeUpdate {
+  assignmentId: string;
+  score?: number | null;
+  maxScore?: number | null;
+  weight?: number | null;
+  gradeCategory?: string | null;
+}
+
+/**
+ * React Query hook for a course's grading scheme, its assignments and the
+ * grade so far
+ */
+export const useCourseGrades = (courseId: string) => {
+  return useQuery<CourseGrades, Error>({
+    queryKey: ['courseGrades', courseId],
+    queryFn: async () => {
+      const [courseResult, assignmentsResult] = await Promise.all([
+        supabase.from('courses').select('*').eq('id', courseId).single(),
+        supabase
+          .from('assignments')
+          .select('*')
+          .eq('course_id', courseId)
+          .is('deleted_at', null)
+          .order('due_date', { ascending: true }),
+      ]);
+
+      if (courseResult.error) throw courseResult.error;
+      if (assignmentsResult.error) throw assignmentsResult.error;
+
+      const course = mapDbCourseToAppCourse(courseResult.data);
+      const assignments = (assignmentsResult.data || []).map(
+        mapDbAssignmentToAppAssignment,
+      );
+
+      return {
+        course,
+        assignments,
+        grade: calculateCourseGrade(assignments, course.gradingScheme),
+      };
+    },
+    enabled: !!courseId,
+  });
+};
+
+/**
+ * React Query hook for the grade of every active course and the GPA across
+ * them
+ */
+export const useGradeSummary = () => {
+  return useQuery<GradeSummary, Error>({
+    queryKey: ['gradeSummary'],
+    queryFn: async () => {
+      const [coursesResult, assignmentsResult] = await Promise.all([
+        supabase.from('courses').select('*').is('deleted_at', null),
+        supabase.from('assignments').select('*').is('deleted_at', null),
+      ]);
+
+      if (coursesResult.error) throw coursesResult.error;
+      if (assignmentsResult.error) throw assignmentsResult.error;
+
+      const assignments = (assignmentsResult.data || []).map(
+        mapDbAssignmentToAppAssignment,
+      );
+      const courses = (coursesResult.data || []).map(dbCourse => {
+        const course = mapDbCourseToAppCourse(dbCourse);
+        return {
+          course,
+          grade: calculateCourseGrade(
+            assignments.filter(a => a.courseId === course.id),
+            course.gradingScheme,
+          ),
+        };
+      });
+
+      return {
+        courses,
+        ...calculateGpa(
+          courses.map(({ course, grade }) => ({
+            credits: course.credits,
+            gradePoints: grade.letter?.gradePoints ?? null,
+          })),
+        ),
+      };
+    },
+  });
+};
+
+/**
+ * Saves the score, max score, weight or category of an assignment
+ */
+export const useUpdateAssignmentGrade = (courseId: string) => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ assignmentId, ...grade }: AssignmentGradeUpdate) => {
+      const { data, error } = await invokeEdgeFunctionWithAuth(
+        'update-assignment',
+        {
+          body: {
+            assignment_id: assignmentId,
+            score: grade.score,
+            max_score: grade.maxScore,
+            weight: grade.weight,
+            grade_category: grade.gradeCategory,
+          },
+        },
+      );
+      if (error) throw error;
+      return data;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['courseGrades', courseId] });
+      queryClient.invalidateQueries({ queryKey: ['gradeSummary'] });
+      queryClient.invalidateQueries({ queryKey: ['assignments'] });
+    },
+  });
+};
+
+/**
+ * Saves a course's grading scheme and credits
+ */
+export const useUpdateGradingScheme = (courseId: string) => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({
+      scheme,
+      credits,
+    }: {
+      scheme: GradingScheme;
+      credits: number | null;
+    }) => {
+      const { data, error } = await invokeEdgeFunctionWithAuth(
+        'update-course',
+        {
+          body: {
+            course_id: courseId,
+            grading_scheme: mapGradingSchemeToDb(scheme),
+            credits,
+          },
+        },
+      );
+      if (error) throw error;
+      return data;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['courseGrades', courseId] });
+      queryClient.invalidateQueries({ queryKey: ['gradeSummary'] });
+      queryClient.invalidateQueries({ queryKey: ['courseDetail', courseId] });
+    },
+  });
+};
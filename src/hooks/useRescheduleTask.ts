@@ -0,0 +1,151 @@
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { useNetwork } from '@/contexts/NetworkContext';
+import { useAuth } from '@/contexts/AuthContext';
+import { assignmentsApiMutations } from '@/features/assignments/services/mutations';
+import { lecturesApiMutations } from '@/features/lectures/services/mutations';
+import { studySessionsApiMutations } from '@/features/studySessions/services/mutations';
+import { rescheduleTaskReminders } from '@/services/reminderRescheduling';
+import { ApiError } from '@/services/api/errors';
+import { useUpdateExam } from '@/hooks/useExams';
+import { CalendarData } from '@/types';
+import {
+  buildRescheduleRequest,
+  CalendarTask,
+  getTaskTimeRange,
+  moveTaskInCalendarData,
+  TaskTimeRange,
+} from '@/utils/calendarReschedule';
+import { invalidateTaskQueries } from '@/utils/queryInvalidation';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const CALENDAR_QUERY_KEYS = [['calendarData'], ['calendarMonthData']];
+
+interface RescheduleTaskParams {
+  task: CalendarTask;
+  range: TaskTimeRange;
+}
+
+export interface RescheduleTaskResult {
+  offline: boolean;
+  /** Reminders that could not be moved with the task */
+  failedReminders: number;
+}
+
+/**
+ * Saves a task dragged to a new time or length on the calendar.
+ *
+ * Assignments, lectures and study sessions go through their update
+ * mutations, so a move made offline waits in the sync queue. Exams and
+ * single occurrences of a recurring lecture need a connection. The task's
+ * reminders are moved with it; exam reminders are moved by the server.
+ */
+export const useRescheduleTask = () => {
+  const queryClient = useQueryClient();
+  const { isOnline } = useNetwork();
+  const { user } = useAuth();
+  const updateExam = useUpdateExam();
+
+  return useMutation({
+    mutationFn: async ({
+      task,
+      range,
+    }: RescheduleTaskParams): Promise<RescheduleTaskResult> => {
+      if (!user?.id) {
+        throw new ApiError('Sign in to move tasks.', 'UNAUTHORIZED');
+      }
+
+      const update = buildRescheduleRequest(task, range);
+      if (
+        !isOnline &&
+        (update.kind === 'exam' || update.kind === 'lecture_occurrence')
+      ) {
+        throw new ApiError(
+          update.kind === 'exam'
+            ? 'Moving an exam needs an internet connection.'
+            : 'Moving one lecture of a series needs an internet connection.',
+          'NETWORK_ERROR',
+        );
+      }
+
+      switch (update.kind) {
+        case 'assignment':
+          await assignmentsApiMutations.update(
+            task.id,
+            update.request,
+            isOnline,
+            user.id,
+          );
+          break;
+        case 'study_session':
+          await studySessionsApiMutations.update(
+            task.id,
+            update.request,
+            isOnline,
+            user.id,
+          );
+          break;
+        case 'lecture':
+          await lecturesApiMutations.update(
+            task.id,
+            update.request,
+            isOnline,
+            user.id,
+          );
+          break;
+        case 'lecture_occurrence':
+          await lecturesApiMutations.updateOccurrence(update.request);
+          break;
+        case 'exam':
+          await updateExam.mutateAsync(update.request);
+          break;
+      }
+
+      const oldStart = getTaskTimeRange(task).start;
+      const shiftMs = range.start.getTime() - oldStart.getTime();
+      if (!isOnline || task.type === 'exam' || shiftMs === 0) {
+        return { offline: !isOnline, failedReminders: 0 };
+      }
+
+      const { failed } = await rescheduleTaskReminders({
+        taskId: task.id,
+        taskType: task.type,
+        shiftMs,
+        userId: user.id,
+        window:
+          update.kind === 'lecture_occurrence'
+            ? { from: new Date(oldStart.getTime() - DAY_MS), to: oldStart }
+            : undefined,
+      });
+      return { offline: false, failedReminders: failed };
+    },
+
+    // Show the task at its new time straight away
+    onMutate: async ({ task, range }: RescheduleTaskParams) => {
+      const snapshots: [readonly unknown[], CalendarData | undefined][] = [];
+      for (const queryKey of CALENDAR_QUERY_KEYS) {
+        await queryClient.cancelQueries({ queryKey });
+        snapshots.push(
+          ...queryClient.getQueriesData<CalendarData>({ queryKey }),
+        );
+        queryClient.setQueriesData<CalendarData>({ queryKey }, old =>
+          old ? moveTaskInCalendarData(old, task, range) : old,
+        );
+      }
+      return { snapshots };
+    },
+
+    onError: (_error, _params, context) => {
+      for (const [queryKey, data] of context?.snapshots ?? []) {
+        queryClient.setQueryData(queryKey, data);
+      }
+    },
+
+    // Offline, the moved task stays as shown until the queue syncs
+    onSettled: async () => {
+      if (isOnline) {
+        await invalidateTaskQueries(queryClient);
+      }
+    },
+  });
+};
@@ -0,0 +1,102 @@
+import { useCallback, useEffect, useState } from 'react';
+import {
+  keepPreviousData,
+  useQuery,
+  useQueryClient,
+} from '@tanstack/react-query';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { versionedApiClient } from '@/services/VersionedApiClient';
+import { ApiError } from '@/services/api/errors';
+import { useNetwork } from '@/contexts/NetworkContext';
+import { SearchRequest, SearchResult } from '@/types';
+import {
+  addRecentSearch,
+  isSearchable,
+  searchCachedQueries,
+} from '@/utils/search';
+
+const RECENT_SEARCHES_KEY = '@recent_searches';
+
+export interface SearchResponse {
+  results: SearchResult[];
+  /** Found in cached data because the server could not be reached */
+  offline: boolean;
+}
+
+/**
+ * React Query hook for global search. Offline, or when the request cannot
+ * reach the server, it searches the data already in the query cache.
+ */
+export const useSearch = (request: SearchRequest | null) => {
+  const queryClient = useQueryClient();
+  const { isOnline } = useNetwork();
+
+  const searchCache = (search: SearchRequest): SearchResponse => ({
+    results: searchCachedQueries(
+      queryClient
+        .getQueryCache()
+        .getAll()
+        .map(query => [query.queryKey, query.state.data]),
+      search,
+    ),
+    offline: true,
+  });
+
+  return useQuery<SearchResponse, Error>({
+    queryKey: ['search', request, isOnline],
+    queryFn: async () => {
+      const search = request as SearchRequest;
+      if (!isOnline) return searchCache(search);
+
+      const response = await versionedApiClient.search(search);
+      if (response.error === 'Network error') return searchCache(search);
+      if (response.error || !response.data) {
+        throw new ApiError(
+          response.message || response.error || 'Search failed',
+          response.code,
+        );
+      }
+      return { results: response.data, offline: false };
+    },
+    enabled: !!request && isSearchable(request.query),
+    placeholderData: keepPreviousData,
+    staleTime: 1000 * 30,
+    retry: false,
+  });
+};
+
+/** Searches the user ran, most recent first, kept on the device */
+export const useRecentSearches = () => {
+  const [recentSearches, setRecentSearches] = useState<string[]>([]);
+
+  useEffect(() => {
+    AsyncStorage.getItem(RECENT_SEARCHES_KEY)
+      .then(stored => {
+        if (stored) setRecentSearches(JSON.parse(stored));
+      })
+      .catch(error => console.error('Error loading recent searches:', error));
+  }, []);
+
+  const save = useCallback((update: (recent: string[]) => string[]) => {
+    setRecentSearches(prev => {
+      const next = update(prev);
+      AsyncStorage.setItem(RECENT_SEARCHES_KEY, JSON.stringify(next)).catch(
+        error => console.error('Error saving recent searches:', error),
+      );
+      return next;
+    });
+  }, []);
+
+  return {
+    recentSearches,
+    addRecentSearch: useCallback(
+      (query: string) => save(recent => addRecentSearch(recent, query)),
+      [save],
+    ),
+    removeRecentSearch: useCallback(
+      (query: string) => save(recent => recent.filter(item => item !== query)),
+      [save],
+    ),
+    clearRecentSearches: useCallback(() => save(() => []), [save]),
+  };
+};
@@ -0,0 +1,31 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { studyPlannerApi } from '@/features/studySessions/services/studyPlanner';
+import { invalidateTaskQueries } from '@/utils/queryInvalidation';
+import { AcceptStudyPlanRequest, StudyPlanProposal } from '@/types';
+
+/**
+ * React Query hook for the study blocks proposed for upcoming assignments.
+ * Recomputed whenever tasks change, so a moved deadline or a missed block
+ * shows up in the next proposal.
+ */
+export const useStudyPlan = (enabled = true) => {
+  return useQuery<StudyPlanProposal, Error>({
+    queryKey: ['studyPlan'],
+    queryFn: () => studyPlannerApi.propose(),
+    enabled,
+    staleTime: 5 * 60 * 1000,
+  });
+};
+
+/**
+ * Saves the kept blocks of a proposed plan as study sessions
+ */
+export const useAcceptStudyPlan = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (request: AcceptStudyPlanRequest) =>
+      studyPlannerApi.accept(request),
+    onSuccess: () => invalidateTaskQueries(queryClient, 'study_session'),
+  });
+};
@@ -0,0 +1,79 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { versionedApiClient } from '@/services/VersionedApiClient';
+import { ApiResponse } from '@/services/ApiVersioningService';
+import { ApiError } from '@/services/api/errors';
+import { DbTag, mapDbTagToAppTag } from '@/services/api/mappers';
+import { Tag } from '@/types';
+import { CreateTagRequest } from '@/types/api';
+
+const unwrap = <T>(response: ApiResponse<T>, fallback: string): T => {
+  if (response.error || !response.data) {
+    throw new ApiError(
+      response.message || response.error || fallback,
+      response.code,
+    );
+  }
+  return response.data;
+};
+
+/**
+ * React Query hook for the user's tags, by name
+ */
+export const useTags = () => {
+  return useQuery<Tag[], Error>({
+    queryKey: ['tags'],
+    queryFn: async () => {
+      const data = unwrap(
+        await versionedApiClient.getTags(),
+        'Failed to load tags',
+      );
+      return (data as unknown as DbTag[]).map(mapDbTagToAppTag);
+    },
+  });
+};
+
+/**
+ * Creates a tag, or renames or recolors it when tagId is given
+ */
+export const useSaveTag = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({
+      tagId,
+      tag,
+    }: {
+      tagId?: string;
+      tag: CreateTagRequest;
+    }): Promise<Tag> => {
+      const request = { name: tag.name.trim(), color: tag.color };
+      const response = tagId
+        ? await versionedApiClient.updateTag({ tag_id: tagId, ...request })
+        : await versionedApiClient.createTag(request);
+      return mapDbTagToAppTag(
+        unwrap(response, 'Failed to save tag') as unknown as DbTag,
+      );
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['tags'] });
+    },
+  });
+};
+
+/**
+ * Deletes a tag; the server takes it off every task that had it
+ */
+export const useDeleteTag = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (tagId: string) =>
+      unwrap(await versionedApiClient.deleteTag(tagId), 'Failed to delete tag'),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['tags'] });
+      queryClient.invalidateQueries({ queryKey: ['calendarData'] });
+      queryClient.invalidateQueries({ queryKey: ['calendarMonthData'] });
+      queryClient.invalidateQueries({ queryKey: ['courseTasks'] });
+    },
+  });
+};
@@ -11,6 +11,8 @@ import { syncManager } from '@/services/syncManager';
 import { cache } from '@/utils/cache';
 import { mapErrorCodeToMessage, getErrorTitle } from '@/utils/errorMapping';
 import { invokeEdgeFunctionWithAuth } from '@/utils/invokeEdgeFunction';
+import { versionedApiClient } from '@/services/VersionedApiClient';
+import { ApiError } from '@/services/api/errors';
 
 interface CompleteTaskParams {
   taskId: string;
@@ -19,15 +21,16 @@ interface CompleteTaskParams {
   skipNotificationCancellation?: boolean; // For recurring lectures - don't cancel future reminders
 }
 
+// Exams are deleted and restored through api-v2 and need a connection
 interface DeleteTaskParams {
   taskId: string;
-  taskType: 'lecture' | 'study_session' | 'assignment';
+  taskType: Task['type'];
   taskTitle: string;
 }
 
 interface RestoreTaskParams {
   taskId: string;
-  taskType: 'lecture' | 'study_session' | 'assignment';
+  taskType: Task['type'];
   taskTitle: string;
 }
 
@@ -219,6 +222,17 @@ export const useDeleteTask = () => {
 
   return useMutation({
     mutationFn: async ({ taskId, taskType }: DeleteTaskParams) => {
+      if (taskType === 'exam') {
+        const response = await versionedApiClient.deleteExam(taskId);
+        if (response.error) {
+          throw new ApiError(
+            response.message || response.error || 'Failed to delete exam',
+            response.code,
+          );
+        }
+        return;
+      }
+
       // OFFLINE MODE: Add to queue instead of calling server
       if (!isOnline) {
         console.log(
@@ -368,6 +382,17 @@ export const useRestoreTask = () => {
 
   return useMutation({
     mutationFn: async ({ taskId, taskType }: RestoreTaskParams) => {
+      if (taskType === 'exam') {
+        const response = await versionedApiClient.restoreExam(taskId);
+        if (response.error) {
+          throw new ApiError(
+            response.message || response.error || 'Failed to restore exam',
+            response.code,
+          );
+        }
+        return { success: true, offline: false };
+      }
+
       // Map task type to correct parameter name
       const getParameterName = (type: string) => {
         switch (type) {
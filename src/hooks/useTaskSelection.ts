@@ -0,0 +1,60 @@
+import { useCallback, useMemo, useState } from 'react';
+import { Task } from '@/types';
+import type { BatchItem } from '@/hooks/useBatchAction';
+import { getTaskSelectionKey } from '@/utils/bulkEdit';
+
+/**
+ * Multi-select state for task lists. Long-pressing a task starts selecting;
+ * clearing the last selected task ends it. Exams have no bulk actions and
+ * are never selected.
+ */
+export function useTaskSelection() {
+  const [selected, setSelected] = useState<Map<string, BatchItem>>(new Map());
+
+  const toggle = useCallback((task: Pick<Task, 'id' | 'type'>) => {
+    const { type } = task;
+    if (type === 'exam') return;
+    setSelected(current => {
+      const next = new Map(current);
+      const key = getTaskSelectionKey(task);
+      if (next.has(key)) {
+        next.delete(key);
+      } else {
+        next.set(key, { id: task.id, type });
+      }
+      return next;
+    });
+  }, []);
+
+  const selectAll = useCallback((tasks: Pick<Task, 'id' | 'type'>[]) => {
+    setSelected(
+      new Map(
+        tasks.flatMap(({ id, type }) =>
+          type === 'exam'
+            ? []
+            : [[getTaskSelectionKey({ id, type }), { id, type }]],
+        ),
+      ),
+    );
+  }, []);
+
+  const clear = useCallback(() => setSelected(new Map()), []);
+
+  const isSelected = useCallback(
+    (task: Pick<Task, 'id' | 'type'>) =>
+      selected.has(getTaskSelectionKey(task)),
+    [selected],
+  );
+
+  const items = useMemo(() => [...selected.values()], [selected]);
+
+  return {
+    items,
+    count: selected.size,
+    isSelecting: selected.size > 0,
+    isSelected,
+    toggle,
+    selectAll,
+    clear,
+  };
+}
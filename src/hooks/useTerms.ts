@@ -0,0 +1,152 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/services/supabase';
+import { versionedApiClient } from '@/services/VersionedApiClient';
+import { ApiResponse } from '@/services/ApiVersioningService';
+import { ApiError } from '@/services/api/errors';
+import {
+  mapDbCourseToAppCourse,
+  mapDbTermToAppTerm,
+  mapTermBreaksToDb,
+} from '@/services/api/mappers';
+import { Course, Term } from '@/types';
+import { TermDraft } from '@/utils/terms';
+
+export interface TermInput extends TermDraft {
+  /** Courses in the term; replaces the term's current courses */
+  courseIds: string[];
+}
+
+const unwrap = <T>(response: ApiResponse<T>, fallback: string): T => {
+  if (response.error || !response.data) {
+    throw new ApiError(
+      response.message || response.error || fallback,
+      response.code,
+    );
+  }
+  return response.data;
+};
+
+/** Archiving a term or moving courses changes what home and calendar show */
+const useInvalidateTermQueries = () => {
+  const queryClient = useQueryClient();
+  return () => {
+    queryClient.invalidateQueries({ queryKey: ['terms'] });
+    queryClient.invalidateQueries({ queryKey: ['courses'] });
+    queryClient.invalidateQueries({ queryKey: ['gradeSummary'] });
+    queryClient.invalidateQueries({ queryKey: ['homeScreenData'] });
+    queryClient.invalidateQueries({ queryKey: ['calendarData'] });
+    queryClient.invalidateQueries({ queryKey: ['calendarMonthData'] });
+  };
+};
+
+/**
+ * React Query hook for the user's terms, archived ones included
+ */
+export const useTerms = () => {
+  return useQuery<Term[], Error>({
+    queryKey: ['terms'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('terms')
+        .select('*')
+        .order('start_date', { ascending: false });
+
+      if (error) throw error;
+      return (data || []).map(mapDbTermToAppTerm);
+    },
+  });
+};
+
+/**
+ * React Query hook for every active course with the term it belongs to, for
+ * moving courses between terms
+ */
+export const useTermCourses = () => {
+  return useQuery<Course[], Error>({
+    queryKey: ['courses', 'terms'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('courses')
+        .select('*')
+        .is('deleted_at', null)
+        .order('course_name', { ascending: true });
+
+      if (error) throw error;
+      return (data || []).map(mapDbCourseToAppCourse);
+    },
+  });
+};
+
+/**
+ * Creates a term, or updates it when termId is given
+ */
+export const useSaveTerm = () => {
+  const invalidate = useInvalidateTermQueries();
+
+  return useMutation({
+    mutationFn: async ({
+      termId,
+      term,
+    }: {
+      termId?: string;
+      term: TermInput;
+    }) => {
+      const request = {
+        name: term.name.trim(),
+        start_date: term.startDate,
+        end_date: term.endDate,
+        breaks: mapTermBreaksToDb(
+          term.breaks.map(termBreak => ({
+            ...termBreak,
+            name: termBreak.name.trim(),
+          })),
+        ),
+        course_ids: term.courseIds,
+      };
+
+      const response = termId
+        ? await versionedApiClient.updateTerm({ term_id: termId, ...request })
+        : await versionedApiClient.createTerm(request);
+      return unwrap(response, 'Failed to save term');
+    },
+    onSuccess: invalidate,
+  });
+};
+
+/**
+ * Archives or unarchives a term; its courses and tasks are kept either way
+ */
+export const useArchiveTerm = () => {
+  const invalidate = useInvalidateTermQueries();
+
+  return useMutation({
+    mutationFn: async ({
+      termId,
+      archived,
+    }: {
+      termId: string;
+      archived: boolean;
+    }) =>
+      unwrap(
+        await versionedApiClient.archiveTerm(termId, archived),
+        'Failed to archive term',
+      ),
+    onSuccess: invalidate,
+  });
+};
+
+/**
+ * Deletes a term; its courses stay, outside any term
+ */
+export const useDeleteTerm = () => {
+  const invalidate = useInvalidateTermQueries();
+
+  return useMutation({
+    mutationFn: async (termId: string) =>
+      unwrap(
+        await versionedApiClient.deleteTerm(termId),
+        'Failed to delete term',
+      ),
+    onSuccess: invalidate,
+  });
+};
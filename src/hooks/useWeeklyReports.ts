@@ -0,0 +1,46 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { useAuth } from '@/contexts/AuthContext';
+import {
+  WeeklyReport,
+  weeklyAnalyticsService,
+} from '@/services/analytics/WeeklyAnalyticsService';
+
+// Covers roughly the last six months
+const REPORT_HISTORY_LIMIT = 26;
+
+/**
+ * React Query hook for the user's past weekly reports, newest week first
+ */
+export const useWeeklyReports = () => {
+  const { user } = useAuth();
+
+  return useQuery<WeeklyReport[], Error>({
+    queryKey: ['weeklyReports', user?.id],
+    queryFn: () =>
+      weeklyAnalyticsService.getUserReports(user!.id, REPORT_HISTORY_LIMIT),
+    enabled: !!user?.id,
+  });
+};
+
+/**
+ * React Query hook for a single weekly report
+ */
+export const useWeeklyReport = (reportId: string) => {
+  return useQuery<WeeklyReport | null, Error>({
+    queryKey: ['weeklyReport', reportId],
+    queryFn: () => weeklyAnalyticsService.getReport(reportId),
+    enabled: !!reportId,
+  });
+};
+
+export const useMarkWeeklyReportRead = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (reportId: string) =>
+      weeklyAnalyticsService.markReportRead(reportId),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['weeklyReports'] });
+    },
+  });
+};
@@ -1,20 +1,60 @@
 /**
  * Internationalization (i18n) Configuration
  *
- * Provides basic i18n infrastructure for future translation support.
- * Currently uses English as default, but structure is ready for multi-language support.
+ * Message catalogs live in ./locales, one per supported locale, with English
+ * as the source and fallback. The locale starts as the device's and can be
+ * overridden per user (see LocaleContext).
  */
 
+import { NativeModules, Platform } from 'react-native';
+import { formatMessage, MessageParams } from './messageFormat';
+import { en, MessageKey, Messages } from './locales/en';
+import { es } from './locales/es';
+import { fr } from './locales/fr';
+import { ar } from './locales/ar';
+
+export type { MessageKey } from './locales/en';
+
 // Supported locales
 export type SupportedLocale = 'en' | 'es' | 'fr' | 'ar'; // English, Spanish, French, Arabic (RTL)
 
+const CATALOGS: Record<SupportedLocale, Messages> = { en, es, fr, ar };
+
 // Current locale (defaults to device locale or 'en')
 let currentLocale: SupportedLocale = 'en';
 
+/** The supported locale for a BCP 47 tag like "es-MX" or "fr_CA", if any */
+export function resolveLocale(
+  tag: string | null | undefined,
+): SupportedLocale | null {
+  if (!tag) return null;
+  const language = tag.toLowerCase().split(/[-_]/)[0];
+  return language in CATALOGS ? (language as SupportedLocale) : null;
+}
+
+// Preferred languages of the device, most preferred first
+function deviceLocaleTags(): string[] {
+  const tags: (string | undefined)[] = [];
+  try {
+    if (Platform.OS === 'ios') {
+      const settings = NativeModules.SettingsManager?.settings;
+      tags.push(...(settings?.AppleLanguages ?? []), settings?.AppleLocale);
+    } else {
+      tags.push(NativeModules.I18nManager?.localeIdentifier);
+    }
+    tags.push(Intl.DateTimeFormat().resolvedOptions().locale);
+  } catch (error) {
+    console.error('Error reading device locale:', error);
+  }
+  return tags.filter((tag): tag is string => !!tag);
+}
+
 // Locale detection
 export function detectLocale(): SupportedLocale {
-  // In the future, this can detect device locale
-  // For now, default to English
+  for (const tag of deviceLocaleTags()) {
+    const locale = resolveLocale(tag);
+    if (locale) return locale;
+  }
   return 'en';
 }
 
@@ -36,22 +76,17 @@ export function isRTL(locale?: SupportedLocale): boolean {
   return rtlLocales.includes(loc);
 }
 
-// Translation function (placeholder for future i18n library)
-// Currently returns the key as-is (English)
+/**
+ * Translate a catalog message into the current locale, falling back to
+ * English for keys a catalog doesn't have yet
+ */
 export function t(
-  key: string,
-  params?: Record<string, string | number>,
+  key: MessageKey,
+  params?: MessageParams,
+  locale: SupportedLocale = currentLocale,
 ): string {
-  // Future: Replace with i18next or react-i18next
-  // For now, return key with params replaced
-  if (params) {
-    let result = key;
-    Object.entries(params).forEach(([paramKey, value]) => {
-      result = result.replace(`{{${paramKey}}}`, String(value));
-    });
-    return result;
-  }
-  return key;
+  const message = CATALOGS[locale][key] ?? en[key] ?? key;
+  return formatMessage(message, params, locale);
 }
 
 // Format number based on locale
@@ -71,13 +106,14 @@ export function formatNumber(
 export function formatDate(
   date: Date | string | number,
   options?: Intl.DateTimeFormatOptions,
+  locale: SupportedLocale = currentLocale,
 ): string {
   try {
     const dateObj =
       typeof date === 'string' || typeof date === 'number'
         ? new Date(date)
         : date;
-    return new Intl.DateTimeFormat(currentLocale, options).format(dateObj);
+    return new Intl.DateTimeFormat(locale, options).format(dateObj);
   } catch (error) {
     console.error('Error formatting date:', error);
     return String(date);
@@ -106,16 +142,6 @@ export function formatCurrency(
 export function initializeI18n(): void {
   currentLocale = detectLocale();
   console.log(`🌍 i18n initialized with locale: ${currentLocale}`);
-
-  // Future: Initialize i18next or react-i18next here
-  // i18n.init({
-  //   lng: currentLocale,
-  //   resources: {
-  //     en: { translation: require('./locales/en.json') },
-  //     es: { translation: require('./locales/es.json') },
-  //     // ...
-  //   },
-  // });
 }
 
 // Export locale constants
@@ -0,0 +1,117 @@
+import { Messages } from './en';
+
+export const ar: Messages = {
+  'common.cancel': 'إلغاء',
+  'common.save': 'حفظ',
+  'common.done': 'تم',
+  'common.clear': 'مسح',
+  'common.selectAll': 'تحديد الكل',
+
+  'tabs.calendar': 'التقويم',
+  'tabs.account': 'الحساب',
+
+  'home.greeting.morning': 'صباح الخير يا {name}!',
+  'home.greeting.afternoon': 'مساء الخير يا {name}!',
+  'home.greeting.evening': 'مساء الخير يا {name}!',
+  'home.greeting.guest': 'لنجعل اليوم مميزًا',
+  'home.greeting.fallbackName': 'صديقي',
+  'home.upcoming': 'القادمة',
+
+  'reminders.select': 'اختر التذكيرات',
+  'reminders.chooseUpTo':
+    '{count, plural, zero {لا يمكن اختيار تذكيرات} one {اختر تذكيرًا واحدًا} two {اختر حتى تذكيرين} few {اختر حتى # تذكيرات} many {اختر حتى # تذكيرًا} other {اختر حتى # تذكير}}',
+
+  'settings.title': 'الإعدادات',
+  'settings.profileSecurity': 'الملف الشخصي والأمان',
+  'settings.changePassword': 'تغيير كلمة المرور',
+  'settings.mfa': 'المصادقة متعددة العوامل',
+  'settings.appSettings': 'إعدادات التطبيق',
+  'settings.shareAnalytics': 'مشاركة بيانات الاستخدام',
+  'settings.shareAnalyticsDescription':
+    'ساعدنا في تحسين التطبيق بمشاركة بيانات استخدام مجهولة الهوية. لا يتم جمع أي معلومات شخصية.',
+  'settings.shareData': 'مشاركة البيانات',
+  'settings.clearCache': 'مسح ذاكرة التخزين المؤقت',
+  'settings.resetAll': 'إعادة ضبط جميع الإعدادات',
+  'settings.accountManagement': 'إدارة الحساب',
+  'settings.recycleBin': 'سلة المحذوفات',
+  'settings.importData': 'استيراد البيانات',
+  'settings.logOutAll': 'تسجيل الخروج من جميع الأجهزة',
+
+  'settings.language': 'اللغة',
+  'settings.language.system': 'لغة النظام ({language})',
+  'settings.language.restartTitle': 'إعادة التشغيل للتطبيق',
+  'settings.language.restartMessage':
+    'يحتاج ELARO إلى إعادة التشغيل لتغيير اتجاه الواجهة إلى {language}.',
+  'settings.language.restart': 'إعادة التشغيل الآن',
+  'settings.language.later': 'لاحقًا',
+
+  'settings.reviewScheduler': 'جدولة المراجعة',
+  'settings.reviewScheduler.sm2': 'كلاسيكي (SM-2)',
+  'settings.reviewScheduler.sm2Description':
+    'فترات ثابتة تطول أو تقصر حسب أداء مراجعاتك.',
+  'settings.reviewScheduler.fsrs': 'تكيّفي (FSRS)',
+  'settings.reviewScheduler.fsrsDescription':
+    'يجدول كل مراجعة في الوقت الذي يُرجَّح أن تبدأ فيه بالنسيان.',
+  'settings.reviewScheduler.retention': 'نسبة التذكّر المستهدفة',
+  'settings.reviewScheduler.retentionDescription':
+    'كلما ارتفع الهدف زادت المراجعات.',
+  'settings.reviewScheduler.saveFailed':
+    'تعذّر حفظ إعدادات المراجعة. حاول مرة أخرى.',
+
+  'achievements.title': 'الإنجازات',
+  'achievements.currentStreak': 'السلسلة الحالية',
+  'achievements.longestStreak': 'الأطول',
+  'achievements.days':
+    '{count, plural, one {يوم واحد} two {يومان} few {# أيام} many {# يومًا} other {# يوم}}',
+  'achievements.freezes':
+    '{count, plural, =0 {لا توجد أيام تجميد} one {يوم تجميد واحد} two {يوما تجميد} few {# أيام تجميد} other {# يوم تجميد}}',
+  'achievements.empty': 'أكمل مهمة لتبدأ في كسب الشارات.',
+  'achievements.streak.title': 'سلسلة {days} يومًا',
+  'achievements.streak.description': 'درست {days} يومًا متتاليًا.',
+  'achievements.milestone.title':
+    '{count, plural, one {أول مهمة مكتملة} other {# مهمة مكتملة}}',
+  'achievements.milestone.description':
+    '{count, plural, one {أكملت مهمتك الأولى.} other {أكملت # مهمة.}}',
+  'achievements.improvement.title': 'الأكثر تحسنًا',
+  'achievements.improvement.description':
+    'أكملت {thisWeek} مهام هذا الأسبوع مقابل {lastWeek} في الأسبوع السابق.',
+  'achievements.srsConsistency.title': '{days} يومًا من المراجعة',
+  'achievements.srsConsistency.description':
+    'واصلت المراجعات المتباعدة {days} يومًا متتاليًا.',
+
+  'weeklyReports.title': 'التقارير الأسبوعية',
+  'weeklyReports.subtitle': 'نظرة على كل أسبوع، تصلك مساء الأحد.',
+  'weeklyReports.empty': 'سيصلك تقريرك الأول مساء الأحد.',
+  'weeklyReports.loadError': 'تعذر تحميل تقاريرك.',
+  'weeklyReports.notFound': 'هذا التقرير لم يعد متاحًا.',
+  'weeklyReports.new': 'جديد',
+  'weeklyReports.weekOf': 'أسبوع {date}',
+  'weeklyReports.summaryLine':
+    '{hours} س من الدراسة · {count, plural, zero {لا مهام مكتملة} one {مهمة واحدة مكتملة} two {مهمتان مكتملتان} few {# مهام مكتملة} many {# مهمة مكتملة} other {# مهمة مكتملة}}',
+  'weeklyReports.studyTime': 'وقت الدراسة',
+  'weeklyReports.tasksCompleted': 'المهام المكتملة',
+  'weeklyReports.focusSessions': 'جلسات التركيز',
+  'weeklyReports.streak': 'سلسلة الدراسة',
+  'weeklyReports.hours': '{hours} س',
+  'weeklyReports.days':
+    '{count, plural, zero {لا أيام} one {يوم واحد} two {يومان} few {# أيام} many {# يومًا} other {# يوم}}',
+  'weeklyReports.dailyActivity': 'وقت الدراسة حسب اليوم (بالدقائق)',
+  'weeklyReports.peakHours': 'أكثر تركيزًا حوالي {hours}',
+  'weeklyReports.completionRates': 'معدلات الإنجاز',
+  'weeklyReports.assignments': 'الواجبات',
+  'weeklyReports.lectures': 'المحاضرات',
+  'weeklyReports.studySessions': 'جلسات الدراسة',
+  'weeklyReports.overall': 'الإجمالي',
+  'weeklyReports.subjects': 'حسب المقرر',
+  'weeklyReports.averageScore': 'المتوسط {score}%',
+  'weeklyReports.highlights': 'أبرز النقاط',
+  'weeklyReports.achievements': 'الشارات المكتسبة',
+  'weeklyReports.tips': 'للأسبوع القادم',
+
+  'reminderDigest.subtitle':
+    '{count, plural, one {جمع هذا الإشعار تذكيرًا واحدًا.} two {جمع هذا الإشعار تذكيرين.} few {جمع هذا الإشعار # تذكيرات.} many {جمع هذا الإشعار # تذكيرًا.} other {جمع هذا الإشعار # تذكير.}}',
+  'reminderDigest.empty': 'هذه التذكيرات لم تعد متاحة.',
+  'reminderDigest.loadError': 'تعذّر تحميل هذه التذكيرات.',
+  'reminderDigest.type':
+    '{type, select, assignment {واجب} exam {اختبار} lecture {محاضرة} spaced_repetition {مراجعة} study_session {جلسة مذاكرة} other {تذكير}}',
+};
@@ -0,0 +1,125 @@
+/**
+ * English messages, the source catalog
+ *
+ * Every other locale translates these keys; a key missing there falls back
+ * to the English message. Messages use ICU syntax (see messageFormat.ts).
+ */
+
+export const en = {
+  'common.cancel': 'Cancel',
+  'common.save': 'Save',
+  'common.done': 'Done',
+  'common.clear': 'Clear',
+  'common.selectAll': 'Select all',
+
+  'tabs.calendar': 'Calendar',
+  'tabs.account': 'Account',
+
+  'home.greeting.morning': 'Good morning, {name}!',
+  'home.greeting.afternoon': 'Good afternoon, {name}!',
+  'home.greeting.evening': 'Good evening, {name}!',
+  'home.greeting.guest': "Let's Make Today Count",
+  'home.greeting.fallbackName': 'there',
+  'home.upcoming': 'Upcoming',
+
+  'reminders.select': 'Select Reminders',
+  'reminders.chooseUpTo':
+    '{count, plural, one {Choose up to # reminder} other {Choose up to # reminders}}',
+
+  'settings.title': 'Settings',
+  'settings.profileSecurity': 'PROFILE & SECURITY',
+  'settings.changePassword': 'Change Password',
+  'settings.mfa': 'Multi-Factor Authentication',
+  'settings.appSettings': 'APP SETTINGS',
+  'settings.shareAnalytics': 'Share Usage Analytics',
+  'settings.shareAnalyticsDescription':
+    'Help us improve the app by sharing anonymous usage data. No personal information is collected.',
+  'settings.shareData': 'Share Data',
+  'settings.clearCache': 'Clear Cache',
+  'settings.resetAll': 'Reset All Settings',
+  'settings.accountManagement': 'ACCOUNT MANAGEMENT',
+  'settings.recycleBin': 'Recycle Bin',
+  'settings.importData': 'Import Data',
+  'settings.logOutAll': 'Log Out From All Devices',
+
+  'settings.language': 'Language',
+  'settings.language.system': 'System default ({language})',
+  'settings.language.restartTitle': 'Restart to Apply',
+  'settings.language.restartMessage':
+    'ELARO needs to restart to switch the layout direction for {language}.',
+  'settings.language.restart': 'Restart Now',
+  'settings.language.later': 'Later',
+
+  'settings.reviewScheduler': 'Review Scheduling',
+  'settings.reviewScheduler.sm2': 'Classic (SM-2)',
+  'settings.reviewScheduler.sm2Description':
+    'Set intervals, stretched or shortened by how your reviews go.',
+  'settings.reviewScheduler.fsrs': 'Adaptive (FSRS)',
+  'settings.reviewScheduler.fsrsDescription':
+    'Schedules each review for when you are likely to start forgetting.',
+  'settings.reviewScheduler.retention': 'Target recall',
+  'settings.reviewScheduler.retentionDescription':
+    'Higher targets mean more frequent reviews.',
+  'settings.reviewScheduler.saveFailed':
+    'Could not save your review settings. Please try again.',
+
+  'achievements.title': 'Achievements',
+  'achievements.currentStreak': 'Current streak',
+  'achievements.longestStreak': 'Longest',
+  'achievements.days': '{count, plural, one {# day} other {# days}}',
+  'achievements.freezes':
+    '{count, plural, =0 {No streak freezes} one {# streak freeze} other {# streak freezes}}',
+  'achievements.empty': 'Complete a task to start earning badges.',
+  'achievements.streak.title': '{days}-Day Streak',
+  'achievements.streak.description': 'You studied {days} days in a row.',
+  'achievements.milestone.title':
+    '{count, plural, one {First Task Done} other {# Tasks Done}}',
+  'achievements.milestone.description':
+    '{count, plural, one {You completed your first task.} other {You have completed # tasks.}}',
+  'achievements.improvement.title': 'Most Improved',
+  'achievements.improvement.description':
+    'You completed {thisWeek} tasks this week, up from {lastWeek} the week before.',
+  'achievements.srsConsistency.title': '{days}-Day Review Run',
+  'achievements.srsConsistency.description':
+    'You kept up your spaced-repetition reviews {days} days in a row.',
+
+  'weeklyReports.title': 'Weekly Reports',
+  'weeklyReports.subtitle':
+    'A look back at each week, delivered Sunday evening.',
+  'weeklyReports.empty': 'Your first report arrives on Sunday evening.',
+  'weeklyReports.loadError': 'Could not load your reports.',
+  'weeklyReports.notFound': 'This report is no longer available.',
+  'weeklyReports.new': 'New',
+  'weeklyReports.weekOf': 'Week of {date}',
+  'weeklyReports.summaryLine':
+    '{hours} h studied · {count, plural, one {# task} other {# tasks}} completed',
+  'weeklyReports.studyTime': 'Study time',
+  'weeklyReports.tasksCompleted': 'Tasks completed',
+  'weeklyReports.focusSessions': 'Focus sessions',
+  'weeklyReports.streak': 'Study streak',
+  'weeklyReports.hours': '{hours} h',
+  'weeklyReports.days': '{count, plural, one {# day} other {# days}}',
+  'weeklyReports.dailyActivity': 'Study time by day (minutes)',
+  'weeklyReports.peakHours': 'Most focused around {hours}',
+  'weeklyReports.completionRates': 'Completion rates',
+  'weeklyReports.assignments': 'Assignments',
+  'weeklyReports.lectures': 'Lectures',
+  'weeklyReports.studySessions': 'Study sessions',
+  'weeklyReports.overall': 'Overall',
+  'weeklyReports.subjects': 'By course',
+  'weeklyReports.averageScore': 'Avg {score}%',
+  'weeklyReports.highlights': 'Highlights',
+  'weeklyReports.achievements': 'Badges earned',
+  'weeklyReports.tips': 'For next week',
+
+  'reminderDigest.subtitle':
+    '{count, plural, one {# reminder was sent in this notification.} other {# reminders were sent together in this notification.}}',
+  'reminderDigest.empty': 'These reminders are no longer available.',
+  'reminderDigest.loadError': 'Could not load these reminders.',
+  'reminderDigest.type':
+    '{type, select, assignment {Assignment} exam {Exam} lecture {Lecture} spaced_repetition {Review} study_session {Study session} other {Reminder}}',
+} as const;
+
+export type MessageKey = keyof typeof en;
+
+export type Messages = Record<MessageKey, string>;
@@ -0,0 +1,116 @@
+import { Messages } from './en';
+
+export const es: Messages = {
+  'common.cancel': 'Cancelar',
+  'common.save': 'Guardar',
+  'common.done': 'Listo',
+  'common.clear': 'Borrar',
+  'common.selectAll': 'Seleccionar todo',
+
+  'tabs.calendar': 'Calendario',
+  'tabs.account': 'Cuenta',
+
+  'home.greeting.morning': '¡Buenos días, {name}!',
+  'home.greeting.afternoon': '¡Buenas tardes, {name}!',
+  'home.greeting.evening': '¡Buenas noches, {name}!',
+  'home.greeting.guest': 'Haz que hoy cuente',
+  'home.greeting.fallbackName': 'estudiante',
+  'home.upcoming': 'Próximas',
+
+  'reminders.select': 'Seleccionar recordatorios',
+  'reminders.chooseUpTo':
+    '{count, plural, one {Elige hasta # recordatorio} other {Elige hasta # recordatorios}}',
+
+  'settings.title': 'Ajustes',
+  'settings.profileSecurity': 'PERFIL Y SEGURIDAD',
+  'settings.changePassword': 'Cambiar contraseña',
+  'settings.mfa': 'Autenticación multifactor',
+  'settings.appSettings': 'AJUSTES DE LA APP',
+  'settings.shareAnalytics': 'Compartir datos de uso',
+  'settings.shareAnalyticsDescription':
+    'Ayúdanos a mejorar la app compartiendo datos de uso anónimos. No se recopila información personal.',
+  'settings.shareData': 'Compartir datos',
+  'settings.clearCache': 'Borrar caché',
+  'settings.resetAll': 'Restablecer todos los ajustes',
+  'settings.accountManagement': 'GESTIÓN DE LA CUENTA',
+  'settings.recycleBin': 'Papelera',
+  'settings.importData': 'Importar datos',
+  'settings.logOutAll': 'Cerrar sesión en todos los dispositivos',
+
+  'settings.language': 'Idioma',
+  'settings.language.system': 'Predeterminado del sistema ({language})',
+  'settings.language.restartTitle': 'Reiniciar para aplicar',
+  'settings.language.restartMessage':
+    'ELARO debe reiniciarse para cambiar la dirección del diseño a {language}.',
+  'settings.language.restart': 'Reiniciar ahora',
+  'settings.language.later': 'Más tarde',
+
+  'settings.reviewScheduler': 'Programación de repasos',
+  'settings.reviewScheduler.sm2': 'Clásico (SM-2)',
+  'settings.reviewScheduler.sm2Description':
+    'Intervalos fijos que se alargan o acortan según tus repasos.',
+  'settings.reviewScheduler.fsrs': 'Adaptativo (FSRS)',
+  'settings.reviewScheduler.fsrsDescription':
+    'Programa cada repaso para cuando es probable que empieces a olvidar.',
+  'settings.reviewScheduler.retention': 'Recuerdo objetivo',
+  'settings.reviewScheduler.retentionDescription':
+    'Un objetivo más alto implica repasos más frecuentes.',
+  'settings.reviewScheduler.saveFailed':
+    'No se pudieron guardar los ajustes de repaso. Inténtalo de nuevo.',
+
+  'achievements.title': 'Logros',
+  'achievements.currentStreak': 'Racha actual',
+  'achievements.longestStreak': 'Mejor',
+  'achievements.days': '{count, plural, one {# día} other {# días}}',
+  'achievements.freezes':
+    '{count, plural, =0 {Sin comodines de racha} one {# comodín de racha} other {# comodines de racha}}',
+  'achievements.empty': 'Completa una tarea para empezar a ganar insignias.',
+  'achievements.streak.title': 'Racha de {days} días',
+  'achievements.streak.description': 'Estudiaste {days} días seguidos.',
+  'achievements.milestone.title':
+    '{count, plural, one {Primera tarea completada} other {# tareas completadas}}',
+  'achievements.milestone.description':
+    '{count, plural, one {Completaste tu primera tarea.} other {Has completado # tareas.}}',
+  'achievements.improvement.title': 'Gran mejora',
+  'achievements.improvement.description':
+    'Completaste {thisWeek} tareas esta semana, frente a {lastWeek} la semana anterior.',
+  'achievements.srsConsistency.title': '{days} días de repaso',
+  'achievements.srsConsistency.description':
+    'Mantuviste tus repasos espaciados {days} días seguidos.',
+
+  'weeklyReports.title': 'Informes semanales',
+  'weeklyReports.subtitle':
+    'Un repaso de cada semana, enviado el domingo por la tarde.',
+  'weeklyReports.empty': 'Tu primer informe llegará el domingo por la tarde.',
+  'weeklyReports.loadError': 'No se pudieron cargar tus informes.',
+  'weeklyReports.notFound': 'Este informe ya no está disponible.',
+  'weeklyReports.new': 'Nuevo',
+  'weeklyReports.weekOf': 'Semana del {date}',
+  'weeklyReports.summaryLine':
+    '{hours} h de estudio · {count, plural, one {# tarea completada} other {# tareas completadas}}',
+  'weeklyReports.studyTime': 'Tiempo de estudio',
+  'weeklyReports.tasksCompleted': 'Tareas completadas',
+  'weeklyReports.focusSessions': 'Sesiones de concentración',
+  'weeklyReports.streak': 'Racha de estudio',
+  'weeklyReports.hours': '{hours} h',
+  'weeklyReports.days': '{count, plural, one {# día} other {# días}}',
+  'weeklyReports.dailyActivity': 'Tiempo de estudio por día (minutos)',
+  'weeklyReports.peakHours': 'Más concentración hacia las {hours}',
+  'weeklyReports.completionRates': 'Tasas de finalización',
+  'weeklyReports.assignments': 'Tareas',
+  'weeklyReports.lectures': 'Clases',
+  'weeklyReports.studySessions': 'Sesiones de estudio',
+  'weeklyReports.overall': 'General',
+  'weeklyReports.subjects': 'Por curso',
+  'weeklyReports.averageScore': 'Media {score}%',
+  'weeklyReports.highlights': 'Lo más destacado',
+  'weeklyReports.achievements': 'Insignias obtenidas',
+  'weeklyReports.tips': 'Para la próxima semana',
+
+  'reminderDigest.subtitle':
+    '{count, plural, one {Esta notificación incluía # recordatorio.} other {Esta notificación incluía # recordatorios.}}',
+  'reminderDigest.empty': 'Estos recordatorios ya no están disponibles.',
+  'reminderDigest.loadError': 'No se pudieron cargar estos recordatorios.',
+  'reminderDigest.type':
+    '{type, select, assignment {Tarea} exam {Examen} lecture {Clase} spaced_repetition {Repaso} study_session {Sesión de estudio} other {Recordatorio}}',
+};
@@ -0,0 +1,116 @@
+import { Messages } from './en';
+
+export const fr: Messages = {
+  'common.cancel': 'Annuler',
+  'common.save': 'Enregistrer',
+  'common.done': 'Terminé',
+  'common.clear': 'Effacer',
+  'common.selectAll': 'Tout sélectionner',
+
+  'tabs.calendar': 'Calendrier',
+  'tabs.account': 'Compte',
+
+  'home.greeting.morning': 'Bonjour, {name} !',
+  'home.greeting.afternoon': 'Bon après-midi, {name} !',
+  'home.greeting.evening': 'Bonsoir, {name} !',
+  'home.greeting.guest': 'Faites que chaque jour compte',
+  'home.greeting.fallbackName': 'étudiant',
+  'home.upcoming': 'À venir',
+
+  'reminders.select': 'Choisir des rappels',
+  'reminders.chooseUpTo':
+    "{count, plural, one {Choisissez jusqu'à # rappel} other {Choisissez jusqu'à # rappels}}",
+
+  'settings.title': 'Réglages',
+  'settings.profileSecurity': 'PROFIL ET SÉCURITÉ',
+  'settings.changePassword': 'Changer le mot de passe',
+  'settings.mfa': 'Authentification multifacteur',
+  'settings.appSettings': "RÉGLAGES DE L'APP",
+  'settings.shareAnalytics': "Partager les statistiques d'utilisation",
+  'settings.shareAnalyticsDescription':
+    "Aidez-nous à améliorer l'app en partageant des données d'utilisation anonymes. Aucune information personnelle n'est collectée.",
+  'settings.shareData': 'Partager les données',
+  'settings.clearCache': 'Vider le cache',
+  'settings.resetAll': 'Réinitialiser tous les réglages',
+  'settings.accountManagement': 'GESTION DU COMPTE',
+  'settings.recycleBin': 'Corbeille',
+  'settings.importData': 'Importer des données',
+  'settings.logOutAll': 'Se déconnecter de tous les appareils',
+
+  'settings.language': 'Langue',
+  'settings.language.system': 'Langue du système ({language})',
+  'settings.language.restartTitle': 'Redémarrer pour appliquer',
+  'settings.language.restartMessage':
+    "ELARO doit redémarrer pour changer le sens d'affichage en {language}.",
+  'settings.language.restart': 'Redémarrer',
+  'settings.language.later': 'Plus tard',
+
+  'settings.reviewScheduler': 'Planification des révisions',
+  'settings.reviewScheduler.sm2': 'Classique (SM-2)',
+  'settings.reviewScheduler.sm2Description':
+    'Intervalles fixes, allongés ou raccourcis selon vos révisions.',
+  'settings.reviewScheduler.fsrs': 'Adaptatif (FSRS)',
+  'settings.reviewScheduler.fsrsDescription':
+    'Planifie chaque révision au moment où vous risquez de commencer à oublier.',
+  'settings.reviewScheduler.retention': 'Taux de rappel visé',
+  'settings.reviewScheduler.retentionDescription':
+    'Un objectif plus élevé signifie des révisions plus fréquentes.',
+  'settings.reviewScheduler.saveFailed':
+    "Impossible d'enregistrer vos réglages de révision. Veuillez réessayer.",
+
+  'achievements.title': 'Succès',
+  'achievements.currentStreak': 'Série en cours',
+  'achievements.longestStreak': 'Record',
+  'achievements.days': '{count, plural, one {# jour} other {# jours}}',
+  'achievements.freezes':
+    '{count, plural, =0 {Aucun joker de série} one {# joker de série} other {# jokers de série}}',
+  'achievements.empty': 'Terminez une tâche pour gagner vos premiers badges.',
+  'achievements.streak.title': 'Série de {days} jours',
+  'achievements.streak.description': "Vous avez étudié {days} jours d'affilée.",
+  'achievements.milestone.title':
+    '{count, plural, one {Première tâche terminée} other {# tâches terminées}}',
+  'achievements.milestone.description':
+    '{count, plural, one {Vous avez terminé votre première tâche.} other {Vous avez terminé # tâches.}}',
+  'achievements.improvement.title': 'Belle progression',
+  'achievements.improvement.description':
+    'Vous avez terminé {thisWeek} tâches cette semaine, contre {lastWeek} la semaine précédente.',
+  'achievements.srsConsistency.title': '{days} jours de révision',
+  'achievements.srsConsistency.description':
+    "Vous avez fait vos révisions espacées {days} jours d'affilée.",
+
+  'weeklyReports.title': 'Rapports hebdomadaires',
+  'weeklyReports.subtitle':
+    'Un bilan de chaque semaine, envoyé le dimanche soir.',
+  'weeklyReports.empty': 'Votre premier rapport arrivera dimanche soir.',
+  'weeklyReports.loadError': 'Impossible de charger vos rapports.',
+  'weeklyReports.notFound': "Ce rapport n'est plus disponible.",
+  'weeklyReports.new': 'Nouveau',
+  'weeklyReports.weekOf': 'Semaine du {date}',
+  'weeklyReports.summaryLine':
+    "{hours} h d'étude · {count, plural, one {# tâche terminée} other {# tâches terminées}}",
+  'weeklyReports.studyTime': "Temps d'étude",
+  'weeklyReports.tasksCompleted': 'Tâches terminées',
+  'weeklyReports.focusSessions': 'Sessions de concentration',
+  'weeklyReports.streak': "Série d'étude",
+  'weeklyReports.hours': '{hours} h',
+  'weeklyReports.days': '{count, plural, one {# jour} other {# jours}}',
+  'weeklyReports.dailyActivity': "Temps d'étude par jour (minutes)",
+  'weeklyReports.peakHours': 'Plus concentré vers {hours}',
+  'weeklyReports.completionRates': "Taux d'achèvement",
+  'weeklyReports.assignments': 'Devoirs',
+  'weeklyReports.lectures': 'Cours magistraux',
+  'weeklyReports.studySessions': "Sessions d'étude",
+  'weeklyReports.overall': 'Global',
+  'weeklyReports.subjects': 'Par cours',
+  'weeklyReports.averageScore': 'Moy. {score} %',
+  'weeklyReports.highlights': 'Points forts',
+  'weeklyReports.achievements': 'Badges obtenus',
+  'weeklyReports.tips': 'Pour la semaine prochaine',
+
+  'reminderDigest.subtitle':
+    '{count, plural, one {Cette notification regroupait # rappel.} other {Cette notification regroupait # rappels.}}',
+  'reminderDigest.empty': 'Ces rappels ne sont plus disponibles.',
+  'reminderDigest.loadError': 'Impossible de charger ces rappels.',
+  'reminderDigest.type':
+    '{type, select, assignment {Devoir} exam {Examen} lecture {Cours} spaced_repetition {Révision} study_session {Session de révision} other {Rappel}}',
+};
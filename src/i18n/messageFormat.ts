@@ -0,0 +1,216 @@
+/**
+ * ICU Message Formatting
+ *
+ * Formats the subset of ICU MessageFormat our catalogs use:
+ * - `{name}` interpolation
+ * - `{count, plural, =0 {…} one {# task} other {# tasks}}`, where `#` is
+ *   the count written for the locale
+ * - `{kind, select, lecture {…} other {…}}`
+ *
+ * Plural categories follow the CLDR rules of the supported locales, so
+ * Arabic gets its zero/one/two/few/many forms without relying on
+ * Intl.PluralRules, which Hermes doesn't ship.
+ */
+
+type PluralCategory = 'zero' | 'one' | 'two' | 'few' | 'many' | 'other';
+
+type MessageNode =
+  | string
+  | { type: 'argument'; name: string }
+  | { type: 'pound' }
+  | {
+      type: 'plural' | 'select';
+      name: string;
+      options: Record<string, MessageNode[]>;
+    };
+
+export type MessageParams = Record<string, string | number>;
+
+const parsedMessages = new Map<string, MessageNode[]>();
+
+export function pluralCategory(locale: string, count: number): PluralCategory {
+  const n = Math.abs(count);
+  const isInteger = Number.isInteger(n);
+
+  switch (locale) {
+    case 'ar': {
+      if (!isInteger) return 'other';
+      const lastTwo = n % 100;
+      if (n === 0) return 'zero';
+      if (n === 1) return 'one';
+      if (n === 2) return 'two';
+      if (lastTwo >= 3 && lastTwo <= 10) return 'few';
+      if (lastTwo >= 11 && lastTwo <= 99) return 'many';
+      return 'other';
+    }
+    case 'fr':
+      return n < 2 ? 'one' : 'other';
+    default:
+      return n === 1 ? 'one' : 'other';
+  }
+}
+
+function parseNodes(
+  message: string,
+  start: number,
+  inPlural: boolean,
+): [MessageNode[], number] {
+  const nodes: MessageNode[] = [];
+  let text = '';
+  let i = start;
+
+  const flushText = () => {
+    if (text) nodes.push(text);
+    text = '';
+  };
+
+  while (i < message.length) {
+    const char = message[i];
+    if (char === '}') break;
+
+    if (char === '#' && inPlural) {
+      flushText();
+      nodes.push({ type: 'pound' });
+      i++;
+    } else if (char === '{') {
+      flushText();
+      const [node, end] = parseArgument(message, i + 1, inPlural);
+      nodes.push(node);
+      i = end;
+    } else {
+      text += char;
+      i++;
+    }
+  }
+
+  flushText();
+  return [nodes, i];
+}
+
+// Parses from just after "{" to just after the matching "}"
+function parseArgument(
+  message: string,
+  start: number,
+  inPlural: boolean,
+): [MessageNode, number] {
+  const close = message.indexOf('}', start);
+  const comma = message.indexOf(',', start);
+
+  if (comma === -1 || (close !== -1 && close < comma)) {
+    const end = close === -1 ? message.length : close;
+    return [
+      { type: 'argument', name: message.slice(start, end).trim() },
+      end + 1,
+    ];
+  }
+
+  const name = message.slice(start, comma).trim();
+  const typeEnd = message.indexOf(',', comma + 1);
+  const type = message.slice(comma + 1, typeEnd).trim();
+  if (typeEnd === -1 || (type !== 'plural' && type !== 'select')) {
+    throw new Error(`Unsupported message argument "${name}, ${type}"`);
+  }
+
+  const options: Record<string, MessageNode[]> = {};
+  let i = typeEnd + 1;
+
+  while (i < message.length) {
+    while (/\s/.test(message[i] ?? '')) i++;
+    if (message[i] === '}' || i >= message.length) break;
+
+    const selectorStart = i;
+    while (i < message.length && !/[\s{]/.test(message[i])) i++;
+    const selector = message.slice(selectorStart, i);
+    while (/\s/.test(message[i] ?? '')) i++;
+
+    if (message[i] !== '{') {
+      throw new Error(`Expected "{" after "${selector}" in "${name}"`);
+    }
+    const [nodes, end] = parseNodes(
+      message,
+      i + 1,
+      type === 'plural' || inPlural,
+    );
+    if (end >= message.length) {
+      throw new Error(`Unclosed "${selector}" option in "${name}"`);
+    }
+    options[selector] = nodes;
+    i = end + 1;
+  }
+
+  if (i >= message.length) {
+    throw new Error(`Unclosed argument "${name}"`);
+  }
+
+  return [{ type, name, options }, i + 1];
+}
+
+function formatCount(locale: string, count: number): string {
+  try {
+    return new Intl.NumberFormat(locale).format(count);
+  } catch {
+    return String(count);
+  }
+}
+
+function formatNodes(
+  nodes: MessageNode[],
+  params: MessageParams,
+  locale: string,
+  count?: number,
+): string {
+  return nodes
+    .map(node => {
+      if (typeof node === 'string') return node;
+
+      switch (node.type) {
+        case 'argument': {
+          const value = params[node.name];
+          return value === undefined ? `{${node.name}}` : String(value);
+        }
+        case 'pound':
+          return count === undefined ? '#' : formatCount(locale, count);
+        case 'plural': {
+          const value = Number(params[node.name] ?? 0);
+          const option =
+            node.options[`=${value}`] ??
+            node.options[pluralCategory(locale, value)] ??
+            node.options.other ??
+            [];
+          return formatNodes(option, params, locale, value);
+        }
+        case 'select': {
+          const option =
+            node.options[String(params[node.name])] ?? node.options.other ?? [];
+          return formatNodes(option, params, locale, count);
+        }
+      }
+    })
+    .join('');
+}
+
+/**
+ * Fill in a catalog message. A message that can't be parsed is returned
+ * as written, so a typo in one translation never breaks a screen.
+ */
+export function formatMessage(
+  message: string,
+  params: MessageParams = {},
+  locale = 'en',
+): string {
+  let nodes = parsedMessages.get(message);
+  if (!nodes) {
+    try {
+      const [parsed, end] = parseNodes(message, 0, false);
+      if (end < message.length) {
+        throw new Error(`Unexpected "}" at ${end}`);
+      }
+      nodes = parsed;
+    } catch (error) {
+      console.error('Error parsing message:', error);
+      return message;
+    }
+    parsedMessages.set(message, nodes);
+  }
+  return formatNodes(nodes, params, locale);
+}
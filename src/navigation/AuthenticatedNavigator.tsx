@@ -80,12 +80,30 @@ const CourseDetailScreen = lazy(() =>
     default: module.CourseDetailScreen,
   })),
 );
+const ImportTimetableScreen = lazy(() =>
+  import('@/navigation/bundles/CoursesBundle').then(module => ({
+    default: module.ImportTimetableScreen,
+  })),
+);
+const ImportFlashcardsScreen = lazy(() =>
+  import('@/navigation/bundles/CoursesBundle').then(module => ({
+    default: module.ImportFlashcardsScreen,
+  })),
+);
+const TermsScreen = lazy(() =>
+  import('@/navigation/bundles/CoursesBundle').then(module => ({
+    default: module.TermsScreen,
+  })),
+);
 const TaskDetailModal = lazy(
   () => import('@/shared/components/TaskDetailModal'),
 );
 const RecycleBinScreen = lazy(
   () => import('@/features/data-management/screens/RecycleBinScreen'),
 );
+const ImportDataScreen = lazy(
+  () => import('@/features/data-management/screens/ImportDataScreen'),
+);
 const MFAEnrollmentScreen = lazy(() =>
   import('@/navigation/bundles/AuthBundle').then(module => ({
     default: module.MFAEnrollmentScreen,
@@ -110,6 +128,24 @@ const StudyResultScreen = lazy(
 const StudySessionReviewScreen = lazy(
   () => import('@/features/studySessions/screens/StudySessionReviewScreen'),
 );
+const FocusTimerScreen = lazy(
+  () => import('@/features/studySessions/screens/FocusTimerScreen'),
+);
+const StudyPlannerScreen = lazy(
+  () => import('@/features/studySessions/screens/StudyPlannerScreen'),
+);
+const SearchScreen = lazy(
+  () => import('@/features/search/screens/SearchScreen'),
+);
+const WeeklyReportsScreen = lazy(
+  () => import('@/features/reports/screens/WeeklyReportsScreen'),
+);
+const WeeklyReportScreen = lazy(
+  () => import('@/features/reports/screens/WeeklyReportScreen'),
+);
+const ReminderDigestScreen = lazy(
+  () => import('@/features/notifications/screens/ReminderDigestScreen'),
+);
 const PaywallScreen = lazy(() =>
   import('@/features/subscription/screens/PaywallScreen').then(module => ({
     default: module.PaywallScreen,
@@ -149,6 +185,9 @@ const AddLectureScreen = lazy(
 const AddStudySessionScreen = lazy(
   () => import('@/features/studySessions/screens/AddStudySessionScreen'),
 );
+const AddExamScreen = lazy(
+  () => import('@/features/exams/screens/AddExamScreen'),
+);
 
 const Stack = createStackNavigator<RootStackParamList>();
 
@@ -224,6 +263,15 @@ const AddStudySessionFlow = () => (
   </Suspense>
 );
 
+// AddExam Flow - Single screen modal (lazy loaded)
+const AddExamFlow = () => (
+  <Suspense fallback={<LoadingFallback />}>
+    <FeatureErrorBoundary featureName="the Exam Creation flow">
+      <AddExamScreen />
+    </FeatureErrorBoundary>
+  </Suspense>
+);
+
 const OnboardingFlow = () => (
   <Suspense fallback={<LoadingFallback />}>
     <OnboardingProvider>
@@ -250,6 +298,10 @@ const modalFlows = {
     component: AddStudySessionFlow,
     options: SCREEN_CONFIGS.AddStudySessionFlow,
   },
+  AddExamFlow: {
+    component: AddExamFlow,
+    options: SCREEN_CONFIGS.AddExamFlow,
+  },
   TaskDetailModal: {
     component: TaskDetailModal,
     options: SCREEN_CONFIGS.TaskDetailModal,
@@ -324,6 +376,27 @@ const mainScreens = {
       headerTitle: 'Course Details',
     },
   },
+  ImportTimetable: {
+    component: ImportTimetableScreen,
+    options: {
+      ...SCREEN_CONFIGS.ImportTimetable,
+      headerTitle: 'Import Timetable',
+    },
+  },
+  ImportFlashcards: {
+    component: ImportFlashcardsScreen,
+    options: {
+      ...SCREEN_CONFIGS.ImportFlashcards,
+      headerTitle: 'Import Flashcards',
+    },
+  },
+  Terms: {
+    component: TermsScreen,
+    options: {
+      ...SCREEN_CONFIGS.Terms,
+      headerTitle: 'Terms',
+    },
+  },
   Calendar: {
     component: CalendarScreen,
     options: {
@@ -338,6 +411,13 @@ const mainScreens = {
       headerTitle: 'Recycle Bin',
     },
   },
+  ImportData: {
+    component: ImportDataScreen,
+    options: {
+      ...SCREEN_CONFIGS.ImportData,
+      headerTitle: 'Import Data',
+    },
+  },
   MFAEnrollmentScreen: {
     component: MFAEnrollmentScreen,
     options: {
@@ -422,6 +502,48 @@ const mainScreens = {
       headerTitle: 'Review Study Session',
     },
   },
+  FocusTimer: {
+    component: FocusTimerScreen,
+    options: {
+      ...SCREEN_CONFIGS.FocusTimer,
+      headerTitle: 'Focus Timer',
+    },
+  },
+  StudyPlanner: {
+    component: StudyPlannerScreen,
+    options: {
+      ...SCREEN_CONFIGS.StudyPlanner,
+      headerTitle: 'Study Planner',
+    },
+  },
+  Search: {
+    component: SearchScreen,
+    options: {
+      ...SCREEN_CONFIGS.Search,
+      headerTitle: 'Search',
+    },
+  },
+  WeeklyReports: {
+    component: WeeklyReportsScreen,
+    options: {
+      ...SCREEN_CONFIGS.WeeklyReports,
+      headerTitle: 'Weekly Reports',
+    },
+  },
+  WeeklyReport: {
+    component: WeeklyReportScreen,
+    options: {
+      ...SCREEN_CONFIGS.WeeklyReport,
+      headerTitle: 'Weekly Report',
+    },
+  },
+  ReminderDigest: {
+    component: ReminderDigestScreen,
+    options: {
+      ...SCREEN_CONFIGS.ReminderDigest,
+      headerTitle: 'Reminders',
+    },
+  },
 };
 
 const POST_ONBOARDING_WELCOME_KEY = 'hasSeenPostOnboardingWelcome';
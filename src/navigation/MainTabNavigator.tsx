@@ -2,6 +2,7 @@ import React from 'react';
 import { createBottomTabNavigator } from '@react-navigation/bottom-tabs';
 
 import { useAuth } from '@/contexts/AuthContext';
+import { useLocale } from '@/contexts/LocaleContext';
 import { MainTabParamList } from '@/types';
 import HomeScreen from '@/features/dashboard/screens/HomeScreen';
 import { AccountScreen } from '@/features/user-profile/screens/AccountScreen';
@@ -13,10 +14,11 @@ const Tab = createBottomTabNavigator<MainTabParamList>();
 // Main Tab Navigator component
 export const MainTabNavigator: React.FC = () => {
   const { session, user } = useAuth();
+  const { t } = useLocale();
 
   const getFirstName = () => {
     if (!session || !user) {
-      return 'Account';
+      return t('tabs.account');
     }
 
     // Use the first_name from the users table (populated by our database trigger)
@@ -30,7 +32,7 @@ export const MainTabNavigator: React.FC = () => {
     }
 
     // Default if no name is found
-    return 'Account';
+    return t('tabs.account');
   };
 
   return (
@@ -60,7 +62,7 @@ export const MainTabNavigator: React.FC = () => {
         name="Calendar"
         component={CalendarScreen}
         options={{
-          tabBarLabel: 'Calendar',
+          tabBarLabel: t('tabs.calendar'),
         }}
       />
       <Tab.Screen
@@ -2,3 +2,6 @@
 export { default as CoursesScreen } from '@/features/courses/screens/CoursesScreen';
 export { default as CourseDetailScreen } from '@/features/courses/screens/CourseDetailScreen';
 export { default as EditCourseModal } from '@/features/courses/screens/EditCourseModal';
+export { default as ImportTimetableScreen } from '@/features/courses/screens/ImportTimetableScreen';
+export { default as ImportFlashcardsScreen } from '@/features/courses/screens/ImportFlashcardsScreen';
+export { default as TermsScreen } from '@/features/courses/screens/TermsScreen';
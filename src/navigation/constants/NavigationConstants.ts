@@ -295,6 +295,24 @@ export const SCREEN_CONFIGS = {
     ...GESTURES.horizontal,
   },
 
+  ImportTimetable: {
+    ...SCREEN_OPTIONS.standard,
+    ...TRANSITIONS.slideFromRight,
+    ...GESTURES.horizontal,
+  },
+
+  ImportFlashcards: {
+    ...SCREEN_OPTIONS.standard,
+    ...TRANSITIONS.slideFromRight,
+    ...GESTURES.horizontal,
+  },
+
+  Terms: {
+    ...SCREEN_OPTIONS.standard,
+    ...TRANSITIONS.slideFromRight,
+    ...GESTURES.horizontal,
+  },
+
   // Profile screens
   Profile: {
     ...SCREEN_OPTIONS.standard,
@@ -333,6 +351,12 @@ export const SCREEN_CONFIGS = {
     ...GESTURES.vertical,
   },
 
+  AddExamFlow: {
+    ...SCREEN_OPTIONS.modal,
+    ...TRANSITIONS.modalSlideUp,
+    ...GESTURES.vertical,
+  },
+
   // Auth screens
   Auth: {
     ...SCREEN_OPTIONS.auth,
@@ -396,6 +420,12 @@ export const SCREEN_CONFIGS = {
     ...GESTURES.horizontal,
   },
 
+  ImportData: {
+    ...SCREEN_OPTIONS.standard,
+    ...TRANSITIONS.slideFromRight,
+    ...GESTURES.horizontal,
+  },
+
   // Account management screens
   DeleteAccountScreen: {
     ...SCREEN_OPTIONS.standard,
@@ -434,6 +464,42 @@ export const SCREEN_CONFIGS = {
     ...GESTURES.horizontal,
   },
 
+  FocusTimer: {
+    ...SCREEN_OPTIONS.standard,
+    ...TRANSITIONS.slideFromRight,
+    ...GESTURES.horizontal,
+  },
+
+  StudyPlanner: {
+    ...SCREEN_OPTIONS.standard,
+    ...TRANSITIONS.slideFromRight,
+    ...GESTURES.horizontal,
+  },
+
+  Search: {
+    ...SCREEN_OPTIONS.standard,
+    ...TRANSITIONS.slideFromRight,
+    ...GESTURES.horizontal,
+  },
+
+  WeeklyReports: {
+    ...SCREEN_OPTIONS.standard,
+    ...TRANSITIONS.slideFromRight,
+    ...GESTURES.horizontal,
+  },
+
+  WeeklyReport: {
+    ...SCREEN_OPTIONS.standard,
+    ...TRANSITIONS.slideFromRight,
+    ...GESTURES.horizontal,
+  },
+
+  ReminderDigest: {
+    ...SCREEN_OPTIONS.standard,
+    ...TRANSITIONS.slideFromRight,
+    ...GESTURES.horizontal,
+  },
+
   AnalyticsAdmin: {
     ...SCREEN_OPTIONS.standard,
     ...TRANSITIONS.slideFromRight,
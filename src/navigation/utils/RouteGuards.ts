@@ -13,13 +13,17 @@ export const AUTHENTICATED_ROUTES = [
   'Settings',
   'Calendar',
   'CourseDetail',
+  'ImportTimetable',
+  'ImportFlashcards',
   'Drafts',
   'Templates',
   'RecycleBin',
+  'ImportData',
   'AddCourseFlow',
   'AddLectureFlow',
   'AddAssignmentFlow',
   'AddStudySessionFlow',
+  'AddExamFlow',
   'EditCourseModal',
   'TaskDetailModal',
   'DeviceManagement',
@@ -32,6 +36,7 @@ export const AUTHENTICATED_ROUTES = [
   'OddityWelcomeScreen',
   'StudyResult',
   'StudySessionReview',
+  'Search',
 ] as const;
 
 // Routes accessible to both authenticated and unauthenticated users
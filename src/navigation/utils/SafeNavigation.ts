@@ -356,8 +356,11 @@ export const NavigationValidation = {
       'Drafts',
       'Templates',
       'CourseDetail',
+      'ImportTimetable',
+      'ImportFlashcards',
       'Calendar',
       'RecycleBin',
+      'ImportData',
       'Profile',
       'Settings',
       'DeleteAccountScreen',
@@ -377,6 +380,7 @@ export const NavigationValidation = {
       'OddityWelcomeScreen',
       'StudyResult',
       'StudySessionReview',
+      'Search',
     ];
     return validRoutes.includes(routeName as keyof RootStackParamList);
   },
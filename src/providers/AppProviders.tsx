@@ -9,9 +9,10 @@
  * 2. NetworkProvider - Network connectivity state
  * 3. ThemeProvider - Theme and dark mode support
  * 4. AuthProvider - Authentication state
- * 5. SoftLaunchProvider - Soft launch feature flags
- * 6. NotificationProvider - Notification state
- * 7. ToastProvider - Toast notifications
+ * 5. LocaleProvider - Language, translations and RTL
+ * 6. SoftLaunchProvider - Soft launch feature flags
+ * 7. NotificationProvider - Notification state
+ * 8. ToastProvider - Toast notifications
  *
  * Note: ErrorBoundary and NavigationContainer remain in App.tsx as they
  * require special handling with error reset and navigation refs.
@@ -48,17 +49,17 @@ export const AppProviders: React.FC<AppProvidersProps> = ({
     return (
       <QueryClientProvider client={queryClient}>
         <NetworkProvider>
-          <LocaleProvider>
-            <ThemeProvider>
-              <AuthProvider>
+          <ThemeProvider>
+            <AuthProvider>
+              <LocaleProvider>
                 <SoftLaunchProvider>
                   <NotificationProvider>
                     <ToastProvider>{children}</ToastProvider>
                   </NotificationProvider>
                 </SoftLaunchProvider>
-              </AuthProvider>
-            </ThemeProvider>
-          </LocaleProvider>
+              </LocaleProvider>
+            </AuthProvider>
+          </ThemeProvider>
         </NetworkProvider>
       </QueryClientProvider>
     );
@@ -78,18 +79,19 @@ export const AppProviders: React.FC<AppProvidersProps> = ({
  *    - Provides network connectivity state (isOnline, isOffline)
  *    - Used by components to handle offline scenarios
  *
- * 3. LocaleProvider
- *    - Provides locale state and i18n functions
- *    - Used for internationalization and RTL support
- *
- * 4. ThemeProvider
+ * 3. ThemeProvider
  *    - Provides theme state (light/dark mode)
  *    - Used by all themed components
  *
- * 5. AuthProvider
+ * 4. AuthProvider
  *    - Provides authentication state (user, session)
  *    - Used throughout the app for auth checks
  *
+ * 5. LocaleProvider
+ *    - Provides locale state and i18n functions
+ *    - Used for internationalization and RTL support
+ *    - Inside AuthProvider to read and save the user's language
+ *
  * 6. SoftLaunchProvider
  *    - Provides soft launch feature flags
  *    - Used for gradual feature rollouts
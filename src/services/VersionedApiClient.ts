@@ -6,6 +6,29 @@
  */
 
 import { apiVersioningService, ApiResponse } from './ApiVersioningService';
+import {
+  AcceptStudyPlanRequest,
+  CancelLectureOccurrenceRequest,
+  CreateExamRequest,
+  CreateFlashcardDeckRequest,
+  CreateFlashcardRequest,
+  CreateTagRequest,
+  CreateTermRequest,
+  FlashcardReviewResult,
+  FocusLogRequest,
+  ImportFlashcardsRequest,
+  ReviewFlashcardRequest,
+  SearchRequest,
+  SearchResult,
+  UpdateExamRequest,
+  UpdateFlashcardDeckRequest,
+  UpdateFlashcardRequest,
+  UpdateLectureOccurrenceRequest,
+  UpdateTagRequest,
+  UpdateTermRequest,
+} from '@/types/api';
+import { StreakSummary, UserAchievement } from '@/types/entities';
+import { generateUUID } from '@/utils/uuid';
 
 export interface Course {
   id: string;
@@ -132,6 +155,278 @@ export class VersionedApiClient {
     );
   }
 
+  async previewTimetableImport(source: {
+    ics_content?: string;
+    url?: string;
+    timezone?: string;
+  }): Promise<ApiResponse<Record<string, unknown>>> {
+    return apiVersioningService.post(
+      'api-v2/courses/timetable-preview',
+      source,
+    );
+  }
+
+  async importTimetable(plan: {
+    courses: Record<string, unknown>[];
+  }): Promise<ApiResponse<Record<string, unknown>>> {
+    return apiVersioningService.post('api-v2/courses/timetable-import', plan);
+  }
+
+  // ============================================================================
+  // TERM OPERATIONS
+  // ============================================================================
+
+  async getTerms(): Promise<ApiResponse<Record<string, unknown>[]>> {
+    return apiVersioningService.get('api-v2/terms/list');
+  }
+
+  async createTerm(
+    request: CreateTermRequest,
+  ): Promise<ApiResponse<Record<string, unknown>>> {
+    return apiVersioningService.request('api-v2/terms/create', {
+      method: 'POST',
+      body: JSON.stringify(request),
+      headers: { 'Idempotency-Key': generateUUID() },
+    });
+  }
+
+  async updateTerm(
+    request: UpdateTermRequest,
+  ): Promise<ApiResponse<Record<string, unknown>>> {
+    return apiVersioningService.request('api-v2/terms/update', {
+      method: 'POST',
+      body: JSON.stringify(request),
+      headers: { 'Idempotency-Key': generateUUID() },
+    });
+  }
+
+  async archiveTerm(
+    termId: string,
+    archived: boolean,
+  ): Promise<ApiResponse<Record<string, unknown>>> {
+    return apiVersioningService.request('api-v2/terms/archive', {
+      method: 'POST',
+      body: JSON.stringify({ term_id: termId, archived }),
+      headers: { 'Idempotency-Key': generateUUID() },
+    });
+  }
+
+  async deleteTerm(
+    termId: string,
+  ): Promise<ApiResponse<Record<string, unknown>>> {
+    return apiVersioningService.request('api-v2/terms/delete', {
+      method: 'POST',
+      body: JSON.stringify({ term_id: termId }),
+      headers: { 'Idempotency-Key': generateUUID() },
+    });
+  }
+
+  // ============================================================================
+  // TAG OPERATIONS
+  // ============================================================================
+
+  async getTags(): Promise<ApiResponse<Record<string, unknown>[]>> {
+    return apiVersioningService.get('api-v2/tags/list');
+  }
+
+  async createTag(
+    request: CreateTagRequest,
+  ): Promise<ApiResponse<Record<string, unknown>>> {
+    return apiVersioningService.request('api-v2/tags/create', {
+      method: 'POST',
+      body: JSON.stringify(request),
+      headers: { 'Idempotency-Key': generateUUID() },
+    });
+  }
+
+  async updateTag(
+    request: UpdateTagRequest,
+  ): Promise<ApiResponse<Record<string, unknown>>> {
+    return apiVersioningService.request('api-v2/tags/update', {
+      method: 'POST',
+      body: JSON.stringify(request),
+      headers: { 'Idempotency-Key': generateUUID() },
+    });
+  }
+
+  async deleteTag(
+    tagId: string,
+  ): Promise<ApiResponse<Record<string, unknown>>> {
+    return apiVersioningService.request('api-v2/tags/delete', {
+      method: 'POST',
+      body: JSON.stringify({ tag_id: tagId }),
+      headers: { 'Idempotency-Key': generateUUID() },
+    });
+  }
+
+  // ============================================================================
+  // EXAM OPERATIONS
+  // ============================================================================
+
+  async getExams(): Promise<ApiResponse<Record<string, unknown>[]>> {
+    return apiVersioningService.get('api-v2/exams/list');
+  }
+
+  async createExam(
+    request: CreateExamRequest,
+  ): Promise<ApiResponse<Record<string, unknown>>> {
+    return apiVersioningService.request('api-v2/exams/create', {
+      method: 'POST',
+      body: JSON.stringify(request),
+      headers: { 'Idempotency-Key': generateUUID() },
+    });
+  }
+
+  async updateExam(
+    request: UpdateExamRequest,
+  ): Promise<ApiResponse<Record<string, unknown>>> {
+    return apiVersioningService.request('api-v2/exams/update', {
+      method: 'POST',
+      body: JSON.stringify(request),
+      headers: { 'Idempotency-Key': generateUUID() },
+    });
+  }
+
+  async deleteExam(
+    examId: string,
+  ): Promise<ApiResponse<Record<string, unknown>>> {
+    return apiVersioningService.request('api-v2/exams/delete', {
+      method: 'POST',
+      body: JSON.stringify({ exam_id: examId }),
+      headers: { 'Idempotency-Key': generateUUID() },
+    });
+  }
+
+  async restoreExam(
+    examId: string,
+  ): Promise<ApiResponse<Record<string, unknown>>> {
+    return apiVersioningService.request('api-v2/exams/restore', {
+      method: 'POST',
+      body: JSON.stringify({ exam_id: examId }),
+      headers: { 'Idempotency-Key': generateUUID() },
+    });
+  }
+
+  async getExamRevisionPlan(
+    examId: string,
+  ): Promise<ApiResponse<Record<string, unknown>>> {
+    return apiVersioningService.get(`api-v2/exams/revision-plan/${examId}`);
+  }
+
+  async acceptExamRevisionPlan(
+    examId: string,
+  ): Promise<ApiResponse<Record<string, unknown>>> {
+    return apiVersioningService.request('api-v2/exams/revision-accept', {
+      method: 'POST',
+      body: JSON.stringify({ exam_id: examId }),
+      headers: { 'Idempotency-Key': generateUUID() },
+    });
+  }
+
+  // ============================================================================
+  // FLASHCARD OPERATIONS
+  // ============================================================================
+
+  async getFlashcardDecks(owner: {
+    studySessionId?: string;
+    courseId?: string;
+  }): Promise<ApiResponse<Record<string, unknown>[]>> {
+    const params = new URLSearchParams();
+    if (owner.studySessionId) {
+      params.append('study_session_id', owner.studySessionId);
+    }
+    if (owner.courseId) params.append('course_id', owner.courseId);
+    return apiVersioningService.get(
+      `api-v2/flashcard-decks/list?${params.toString()}`,
+    );
+  }
+
+  async createFlashcardDeck(
+    request: CreateFlashcardDeckRequest,
+  ): Promise<ApiResponse<Record<string, unknown>>> {
+    return apiVersioningService.request('api-v2/flashcard-decks/create', {
+      method: 'POST',
+      body: JSON.stringify(request),
+      headers: { 'Idempotency-Key': generateUUID() },
+    });
+  }
+
+  async updateFlashcardDeck(
+    request: UpdateFlashcardDeckRequest,
+  ): Promise<ApiResponse<Record<string, unknown>>> {
+    return apiVersioningService.request('api-v2/flashcard-decks/update', {
+      method: 'POST',
+      body: JSON.stringify(request),
+      headers: { 'Idempotency-Key': generateUUID() },
+    });
+  }
+
+  async deleteFlashcardDeck(
+    deckId: string,
+  ): Promise<ApiResponse<Record<string, unknown>>> {
+    return apiVersioningService.request('api-v2/flashcard-decks/delete', {
+      method: 'POST',
+      body: JSON.stringify({ deck_id: deckId }),
+      headers: { 'Idempotency-Key': generateUUID() },
+    });
+  }
+
+  async importFlashcards(
+    request: ImportFlashcardsRequest,
+  ): Promise<ApiResponse<Record<string, unknown>>> {
+    return apiVersioningService.request('api-v2/flashcard-decks/import', {
+      method: 'POST',
+      body: JSON.stringify(request),
+      headers: { 'Idempotency-Key': generateUUID() },
+    });
+  }
+
+  async getFlashcards(
+    deckId: string,
+  ): Promise<ApiResponse<Record<string, unknown>[]>> {
+    return apiVersioningService.get(`api-v2/flashcards/list/${deckId}`);
+  }
+
+  async createFlashcard(
+    request: CreateFlashcardRequest,
+  ): Promise<ApiResponse<Record<string, unknown>>> {
+    return apiVersioningService.request('api-v2/flashcards/create', {
+      method: 'POST',
+      body: JSON.stringify(request),
+      headers: { 'Idempotency-Key': generateUUID() },
+    });
+  }
+
+  async updateFlashcard(
+    request: UpdateFlashcardRequest,
+  ): Promise<ApiResponse<Record<string, unknown>>> {
+    return apiVersioningService.request('api-v2/flashcards/update', {
+      method: 'POST',
+      body: JSON.stringify(request),
+      headers: { 'Idempotency-Key': generateUUID() },
+    });
+  }
+
+  async deleteFlashcard(
+    flashcardId: string,
+  ): Promise<ApiResponse<Record<string, unknown>>> {
+    return apiVersioningService.request('api-v2/flashcards/delete', {
+      method: 'POST',
+      body: JSON.stringify({ flashcard_id: flashcardId }),
+      headers: { 'Idempotency-Key': generateUUID() },
+    });
+  }
+
+  async reviewFlashcard(
+    request: ReviewFlashcardRequest,
+  ): Promise<ApiResponse<FlashcardReviewResult>> {
+    return apiVersioningService.request('api-v2/flashcards/review', {
+      method: 'POST',
+      body: JSON.stringify(request),
+      headers: { 'Idempotency-Key': generateUUID() },
+    });
+  }
+
   // ============================================================================
   // ASSIGNMENT OPERATIONS
   // ============================================================================
@@ -226,6 +521,26 @@ export class VersionedApiClient {
     );
   }
 
+  async updateLectureOccurrence(
+    request: UpdateLectureOccurrenceRequest,
+  ): Promise<ApiResponse<Record<string, unknown>>> {
+    return apiVersioningService.request('api-v2/lectures/update-occurrence', {
+      method: 'POST',
+      body: JSON.stringify(request),
+      headers: { 'Idempotency-Key': generateUUID() },
+    });
+  }
+
+  async cancelLectureOccurrence(
+    request: CancelLectureOccurrenceRequest,
+  ): Promise<ApiResponse<Record<string, unknown>>> {
+    return apiVersioningService.request('api-v2/lectures/cancel-occurrence', {
+      method: 'POST',
+      body: JSON.stringify(request),
+      headers: { 'Idempotency-Key': generateUUID() },
+    });
+  }
+
   // ============================================================================
   // STUDY SESSION OPERATIONS
   // ============================================================================
@@ -277,6 +592,42 @@ export class VersionedApiClient {
     );
   }
 
+  async recordFocusLog(
+    log: FocusLogRequest,
+    idempotencyKey: string,
+  ): Promise<ApiResponse<Record<string, unknown>>> {
+    return apiVersioningService.request('api-v2/study-sessions/focus-log', {
+      method: 'POST',
+      body: JSON.stringify(log),
+      headers: { 'Idempotency-Key': idempotencyKey },
+    });
+  }
+
+  async getStudyPlan(): Promise<ApiResponse<Record<string, unknown>>> {
+    return apiVersioningService.get('api-v2/study-sessions/plan');
+  }
+
+  async acceptStudyPlan(
+    request: AcceptStudyPlanRequest,
+  ): Promise<ApiResponse<Record<string, unknown>>> {
+    return apiVersioningService.request('api-v2/study-sessions/plan-accept', {
+      method: 'POST',
+      body: JSON.stringify(request),
+      headers: { 'Idempotency-Key': generateUUID() },
+    });
+  }
+
+  // ============================================================================
+  // SEARCH OPERATIONS
+  // ============================================================================
+
+  async search(request: SearchRequest): Promise<ApiResponse<SearchResult[]>> {
+    return apiVersioningService.request<SearchResult[]>('api-v2/search/query', {
+      method: 'POST',
+      body: JSON.stringify(request),
+    });
+  }
+
   // ============================================================================
   // USER OPERATIONS
   // ============================================================================
@@ -465,12 +816,40 @@ export class VersionedApiClient {
     );
   }
 
-  async getStreakInfo(): Promise<
-    ApiResponse<{ streak: number; lastActivity?: string }>
+  async exportCalendar(): Promise<
+    ApiResponse<{
+      filename: string;
+      content: string;
+      event_count: number;
+      todo_count: number;
+    }>
+  > {
+    return apiVersioningService.get('api-v2/analytics/calendar-export');
+  }
+
+  async getCalendarFeedToken(rotate: boolean = false): Promise<
+    ApiResponse<{
+      token: string;
+      feed_url: string;
+      webcal_url: string;
+      created_at: string;
+    }>
   > {
+    return apiVersioningService.post('api-v2/analytics/calendar-feed-token', {
+      rotate,
+    });
+  }
+
+  async getStreakInfo(): Promise<ApiResponse<StreakSummary>> {
     return apiVersioningService.get('api-v2/analytics/streak');
   }
 
+  async getAchievements(): Promise<
+    ApiResponse<{ streak: StreakSummary; achievements: UserAchievement[] }>
+  > {
+    return apiVersioningService.get('api-v2/analytics/achievements');
+  }
+
   async exportData(): Promise<ApiResponse<Record<string, unknown>>> {
     return apiVersioningService.get('api-v2/analytics/export');
   }
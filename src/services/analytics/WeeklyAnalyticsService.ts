@@ -1,6 +1,8 @@
 import { supabase } from '@/services/supabase';
 import { AppError } from '@/utils/AppError';
 import { StudySessionData, TaskData } from '@/types/service-responses';
+import { AchievementType, UserAchievement } from '@/types';
+import { describeAchievement } from '@/utils/achievements';
 
 // ============================================================================
 // TYPES AND INTERFACES
@@ -14,6 +16,8 @@ export interface WeeklyReport {
   report_data: WeeklyReportData;
   status: 'generating' | 'completed' | 'failed';
   generated_at?: string;
+  delivered_at?: string | null;
+  is_read?: boolean;
   created_at: string;
   updated_at: string;
 }
@@ -37,12 +41,30 @@ export interface WeeklyReportData {
     improvement_areas: string[];
     achievements: Achievement[];
     next_week_recommendations: string[];
+    current_streak?: number;
   };
   summary: {
     key_highlights: string[];
     areas_for_improvement: string[];
     motivational_message: string;
   };
+  /** Set on reports generated by the send-weekly-reports job */
+  scenario?: ReportScenario;
+  /** report_templates for the scenario, rendered for this week */
+  narrative?: ReportNarrative[];
+}
+
+export type ReportScenario =
+  | 'first_week'
+  | 'high_activity'
+  | 'low_activity'
+  | 'improvement'
+  | 'decline';
+
+export interface ReportNarrative {
+  category: string;
+  template_id: string;
+  text: string;
 }
 
 export interface SubjectBreakdown {
@@ -66,8 +88,20 @@ export interface DailyActivity {
   focus_score: number;
 }
 
+interface FocusLogSummary {
+  started_at: string;
+  focused_seconds: number;
+  completed_cycles: number;
+}
+
+interface GradedAssignmentSummary {
+  score: number;
+  max_score: number;
+  courses: { course_name: string } | null;
+}
+
 export interface Achievement {
-  type: 'streak' | 'milestone' | 'improvement';
+  type: AchievementType;
   title: string;
   description: string;
   earned_at: string;
@@ -163,10 +197,18 @@ export class WeeklyAnalyticsService {
         ? totalStudyTime / studySessions.length
         : 0;
 
+      // Assignments due this week that have a score
+      const gradedAssignments = await this.getGradedAssignments(
+        userId,
+        weekStart,
+        weekEnd,
+      );
+
       // Subject breakdown
       const subjectBreakdown = this.calculateSubjectBreakdown(
         studySessions || [],
         tasks || [],
+        gradedAssignments,
       );
 
       // Completion rates
@@ -198,29 +240,25 @@ export class WeeklyAnalyticsService {
     weekEnd: Date,
   ): Promise<WeeklyReportData['time_management']> {
     try {
+      // Timed focus runs are the source of real study time
+      const focusLogs = await this.getFocusLogs(userId, weekStart, weekEnd);
+
       // Get daily activity data
       const dailyActivity = await this.getDailyActivity(
         userId,
         weekStart,
         weekEnd,
+        focusLogs,
       );
 
       // Calculate peak study hours
-      const peakStudyHours = await this.getPeakStudyHours(
-        userId,
-        weekStart,
-        weekEnd,
-      );
+      const peakStudyHours = this.getPeakStudyHours(focusLogs);
 
       // Calculate productivity score
       const productivityScore = this.calculateProductivityScore(dailyActivity);
 
       // Count focus sessions
-      const focusSessions = await this.getFocusSessionsCount(
-        userId,
-        weekStart,
-        weekEnd,
-      );
+      const focusSessions = this.getFocusSessionsCount(focusLogs);
 
       return {
         daily_activity: dailyActivity,
@@ -475,6 +513,48 @@ export class WeeklyAnalyticsService {
     }
   }
 
+  /**
+   * Get a single report
+   */
+  async getReport(reportId: string): Promise<WeeklyReport | null> {
+    const { data, error } = await supabase
+      .from('weekly_reports')
+      .select('*')
+      .eq('id', reportId)
+      .eq('status', 'completed')
+      .maybeSingle();
+
+    if (error) {
+      throw new AppError(
+        `Failed to get report: ${error.message}`,
+        500,
+        'REPORT_FETCH_ERROR',
+        { reportId },
+      );
+    }
+
+    return data;
+  }
+
+  /**
+   * Mark a report as read once the user has opened it
+   */
+  async markReportRead(reportId: string): Promise<void> {
+    const { error } = await supabase
+      .from('weekly_reports')
+      .update({ is_new: false, is_read: true })
+      .eq('id', reportId);
+
+    if (error) {
+      throw new AppError(
+        `Failed to mark report as read: ${error.message}`,
+        500,
+        'REPORT_UPDATE_ERROR',
+        { reportId },
+      );
+    }
+  }
+
   // ============================================================================
   // HELPER METHODS
   // ============================================================================
@@ -482,6 +562,7 @@ export class WeeklyAnalyticsService {
   private calculateSubjectBreakdown(
     sessions: StudySessionData[],
     tasks: TaskData[],
+    gradedAssignments: GradedAssignmentSummary[] = [],
   ): SubjectBreakdown[] {
     // Defensive check: ensure both are arrays
     const sessionsArray = Array.isArray(sessions) ? sessions : [];
@@ -509,12 +590,31 @@ export class WeeklyAnalyticsService {
       });
     });
 
-    return Array.from(subjectMap.entries()).map(([subject, data]) => ({
-      subject,
-      time_spent: data.time,
-      tasks_completed: data.tasks,
-      average_score: undefined,
-    }));
+    // Process grades (percent of max score)
+    const scoreMap = new Map<string, number[]>();
+    gradedAssignments.forEach(assignment => {
+      const subject = assignment.courses?.course_name || 'General';
+      const percent = (assignment.score / assignment.max_score) * 100;
+      scoreMap.set(subject, [...(scoreMap.get(subject) || []), percent]);
+      if (!subjectMap.has(subject)) {
+        subjectMap.set(subject, { time: 0, tasks: 0 });
+      }
+    });
+
+    return Array.from(subjectMap.entries()).map(([subject, data]) => {
+      const scores = scoreMap.get(subject);
+      return {
+        subject,
+        time_spent: data.time,
+        tasks_completed: data.tasks,
+        average_score: scores
+          ? Math.round(
+              (scores.reduce((sum, score) => sum + score, 0) / scores.length) *
+                10,
+            ) / 10
+          : undefined,
+      };
+    });
   }
 
   private calculateCompletionRates(tasks: TaskData[]): CompletionRates {
@@ -549,10 +649,60 @@ export class WeeklyAnalyticsService {
     };
   }
 
+  private async getGradedAssignments(
+    userId: string,
+    weekStart: Date,
+    weekEnd: Date,
+  ): Promise<GradedAssignmentSummary[]> {
+    const { data, error } = await supabase
+      .from('assignments')
+      .select('score, max_score, courses(course_name)')
+      .eq('user_id', userId)
+      .is('deleted_at', null)
+      .not('score', 'is', null)
+      .gt('max_score', 0)
+      .gte('due_date', weekStart.toISOString())
+      .lte('due_date', weekEnd.toISOString());
+
+    if (error) {
+      console.error('Error getting graded assignments:', error);
+      return [];
+    }
+
+    return (data || []).map(row => ({
+      score: Number(row.score),
+      max_score: Number(row.max_score),
+      courses: Array.isArray(row.courses)
+        ? (row.courses[0] ?? null)
+        : row.courses,
+    }));
+  }
+
+  private async getFocusLogs(
+    userId: string,
+    weekStart: Date,
+    weekEnd: Date,
+  ): Promise<FocusLogSummary[]> {
+    const { data, error } = await supabase
+      .from('focus_logs')
+      .select('started_at, focused_seconds, completed_cycles')
+      .eq('user_id', userId)
+      .gte('started_at', weekStart.toISOString())
+      .lte('started_at', weekEnd.toISOString());
+
+    if (error) {
+      console.error('Error getting focus logs:', error);
+      return [];
+    }
+
+    return data || [];
+  }
+
   private async getDailyActivity(
     userId: string,
     weekStart: Date,
     weekEnd: Date,
+    focusLogs: FocusLogSummary[],
   ): Promise<DailyActivity[]> {
     const activities: DailyActivity[] = [];
     const currentDate = new Date(weekStart);
@@ -563,17 +713,15 @@ export class WeeklyAnalyticsService {
       const dayEnd = new Date(currentDate);
       dayEnd.setHours(23, 59, 59, 999);
 
-      // Get study time for the day
-      const { data: sessions } = await supabase
-        .from('study_sessions')
-        .select('duration')
-        .eq('user_id', userId)
-        .gte('created_at', dayStart.toISOString())
-        .lte('created_at', dayEnd.toISOString());
-
-      const studyTime =
-        sessions?.reduce((sum, session) => sum + (session.duration || 0), 0) ||
-        0;
+      // Study time for the day, in minutes
+      const studyTime = Math.round(
+        focusLogs
+          .filter(log => {
+            const startedAt = new Date(log.started_at);
+            return startedAt >= dayStart && startedAt <= dayEnd;
+          })
+          .reduce((sum, log) => sum + log.focused_seconds, 0) / 60,
+      );
 
       // Get tasks completed for the day
       const { data: tasks } = await supabase
@@ -602,13 +750,26 @@ export class WeeklyAnalyticsService {
     return activities;
   }
 
-  private async getPeakStudyHours(
-    userId: string,
-    weekStart: Date,
-    weekEnd: Date,
-  ): Promise<string[]> {
-    // Simplified implementation - would need more sophisticated analysis
-    return ['09:00', '14:00', '19:00'];
+  /**
+   * The (up to) three hours of the day in which the most focused time started
+   */
+  private getPeakStudyHours(focusLogs: FocusLogSummary[]): string[] {
+    const secondsByHour = new Map<number, number>();
+    for (const log of focusLogs) {
+      const hour = new Date(log.started_at).getHours();
+      secondsByHour.set(
+        hour,
+        (secondsByHour.get(hour) || 0) + log.focused_seconds,
+      );
+    }
+
+    return [...secondsByHour.entries()]
+      .filter(([, seconds]) => seconds > 0)
+      .sort((a, b) => b[1] - a[1])
+      .slice(0, 3)
+      .map(([hour]) => hour)
+      .sort((a, b) => a - b)
+      .map(hour => `${String(hour).padStart(2, '0')}:00`);
   }
 
   private calculateProductivityScore(dailyActivity: DailyActivity[]): number {
@@ -628,25 +789,11 @@ export class WeeklyAnalyticsService {
     return Math.round(studyScore + taskScore);
   }
 
-  private async getFocusSessionsCount(
-    userId: string,
-    weekStart: Date,
-    weekEnd: Date,
-  ): Promise<number> {
-    const { data, error } = await supabase
-      .from('study_sessions')
-      .select('id')
-      .eq('user_id', userId)
-      .gte('created_at', weekStart.toISOString())
-      .lte('created_at', weekEnd.toISOString())
-      .gte('duration', 30); // Sessions longer than 30 minutes
-
-    if (error) {
-      console.error('Error getting focus sessions:', error);
-      return 0;
-    }
-
-    return data?.length || 0;
+  /**
+   * Work phases of the focus timer that ran to the end
+   */
+  private getFocusSessionsCount(focusLogs: FocusLogSummary[]): number {
+    return focusLogs.reduce((sum, log) => sum + log.completed_cycles, 0);
   }
 
   private async getWeeklyGoalsAchieved(
@@ -667,20 +814,35 @@ export class WeeklyAnalyticsService {
     return ['Time Management', 'Focus Sessions'];
   }
 
+  /**
+   * Badges earned during the week (awarded on the server as tasks are
+   * completed)
+   */
   private async getWeeklyAchievements(
     userId: string,
     weekStart: Date,
     weekEnd: Date,
   ): Promise<Achievement[]> {
-    // Simplified implementation
-    return [
-      {
-        type: 'streak',
-        title: '3-Day Study Streak',
-        description: 'You studied for 3 consecutive days!',
-        earned_at: weekEnd.toISOString(),
-      },
-    ];
+    const { data, error } = await supabase
+      .from('user_achievements')
+      .select('type, metadata, earned_at')
+      .eq('user_id', userId)
+      .gte('earned_at', weekStart.toISOString())
+      .lte('earned_at', weekEnd.toISOString())
+      .order('earned_at', { ascending: true });
+
+    if (error) {
+      console.error('Error getting achievements:', error);
+      return [];
+    }
+
+    return (
+      (data || []) as Pick<UserAchievement, 'type' | 'metadata' | 'earned_at'>[]
+    ).map(achievement => ({
+      type: achievement.type,
+      ...describeAchievement(achievement),
+      earned_at: achievement.earned_at,
+    }));
   }
 
   private async generateNextWeekRecommendations(
@@ -13,6 +13,7 @@ export const AnalyticsEvents = {
   ASSIGNMENT_COMPLETED: 'Assignment Completed',
   LECTURE_CREATED: 'Lecture Created',
   LECTURE_ATTENDED: 'Lecture Attended',
+  EXAM_CREATED: 'Exam Created',
 
   // Study Sessions
   STUDY_SESSION_CREATED: 'Study Session Created',
@@ -1,12 +1,26 @@
 import {
   Course as AppCourse,
   Assignment as AppAssignment,
+  AssignmentSubtask,
+  Exam as AppExam,
+  Flashcard as AppFlashcard,
+  FlashcardDeck as AppFlashcardDeck,
+  GradingScheme,
   Lecture as AppLecture,
   StudySession as AppStudySession,
+  Tag as AppTag,
+  TaskPriority,
+  Term as AppTerm,
+  TermBreak,
 } from '@/types';
+import {
+  AssignmentSubtaskPayload,
+  GradingSchemePayload,
+  TermBreakPayload,
+} from '@/types/api';
 
 // Raw types representing the data directly from the Supabase DB
-type DbCourse = {
+export type DbCourse = {
   id: string;
   user_id: string;
   course_name: string;
@@ -15,6 +29,69 @@ type DbCourse = {
   created_at: string;
   updated_at: string;
   deleted_at?: string;
+  grading_scheme?: GradingSchemePayload | null;
+  credits?: number | null;
+  term_id?: string | null;
+  version?: number;
+};
+
+type DbTerm = {
+  id: string;
+  user_id: string;
+  name: string;
+  start_date: string;
+  end_date: string;
+  breaks?: TermBreakPayload[] | null;
+  archived_at?: string | null;
+  created_at: string;
+  updated_at: string;
+};
+
+export type DbTag = {
+  id: string;
+  user_id: string;
+  name: string;
+  color: string;
+  created_at: string;
+};
+
+export type DbExam = {
+  id: string;
+  user_id: string;
+  course_id: string;
+  courses?: { course_name: string } | null;
+  title: string;
+  exam_date: string;
+  duration_minutes: number;
+  location?: string | null;
+  topics?: string[] | null;
+  weight?: number | string | null;
+  description?: string | null;
+  created_at: string;
+};
+
+export type DbFlashcardDeck = {
+  id: string;
+  study_session_id?: string | null;
+  course_id?: string | null;
+  title: string;
+  description?: string | null;
+  card_count?: number;
+  due_count?: number;
+  created_at: string;
+};
+
+export type DbFlashcard = {
+  id: string;
+  deck_id: string;
+  card_type: 'basic' | 'cloze';
+  front: string;
+  back?: string | null;
+  image_url?: string | null;
+  due_at: string;
+  last_reviewed_at?: string | null;
+  review_count?: number | null;
+  created_at: string;
 };
 
 type DbAssignment = {
@@ -27,6 +104,15 @@ type DbAssignment = {
   submission_link?: string;
   due_date: string;
   created_at: string;
+  score?: number | null;
+  max_score?: number | null;
+  weight?: number | null;
+  grade_category?: string | null;
+  subtasks?: AssignmentSubtaskPayload[] | null;
+  estimated_minutes?: number | null;
+  priority?: TaskPriority;
+  tag_ids?: string[] | null;
+  version?: number;
 };
 
 type DbLecture = {
@@ -39,6 +125,8 @@ type DbLecture = {
   lecture_name?: string;
   description?: string;
   venue?: string;
+  priority?: TaskPriority;
+  tag_ids?: string[] | null;
   created_at: string;
 };
 
@@ -50,10 +138,49 @@ type DbStudySession = {
   description?: string;
   session_date: string;
   has_spaced_repetition: boolean;
+  priority?: TaskPriority;
+  tag_ids?: string[] | null;
   created_at: string;
 };
 
+// Postgres numeric columns may arrive as strings
+const toOptionalNumber = (value?: number | string | null) =>
+  value === null || value === undefined ? undefined : Number(value);
+
 // Mapper functions to transform database objects to app objects
+export const mapDbGradingScheme = (
+  scheme?: GradingSchemePayload | null,
+): GradingScheme | undefined =>
+  scheme
+    ? {
+        categories: (scheme.categories || []).map(category => ({
+          id: category.id,
+          name: category.name,
+          weight: Number(category.weight),
+        })),
+        letterGrades: (scheme.letter_grades || []).map(boundary => ({
+          letter: boundary.letter,
+          minPercent: Number(boundary.min_percent),
+          gradePoints: Number(boundary.grade_points),
+        })),
+      }
+    : undefined;
+
+export const mapGradingSchemeToDb = (
+  scheme: GradingScheme,
+): GradingSchemePayload => ({
+  categories: scheme.categories.map(({ id, name, weight }) => ({
+    id,
+    name,
+    weight,
+  })),
+  letter_grades: scheme.letterGrades.map(boundary => ({
+    letter: boundary.letter,
+    min_percent: boundary.minPercent,
+    grade_points: boundary.gradePoints,
+  })),
+});
+
 export const mapDbCourseToAppCourse = (dbCourse: DbCourse): AppCourse => ({
   id: dbCourse.id,
   userId: dbCourse.user_id,
@@ -63,8 +190,106 @@ export const mapDbCourseToAppCourse = (dbCourse: DbCourse): AppCourse => ({
   createdAt: dbCourse.created_at,
   updatedAt: dbCourse.updated_at,
   deletedAt: dbCourse.deleted_at,
+  gradingScheme: mapDbGradingScheme(dbCourse.grading_scheme),
+  credits: toOptionalNumber(dbCourse.credits),
+  termId: dbCourse.term_id ?? undefined,
+  version: dbCourse.version,
+});
+
+export const mapDbTermToAppTerm = (dbTerm: DbTerm): AppTerm => ({
+  id: dbTerm.id,
+  userId: dbTerm.user_id,
+  name: dbTerm.name,
+  startDate: dbTerm.start_date,
+  endDate: dbTerm.end_date,
+  breaks: (dbTerm.breaks || []).map(termBreak => ({
+    name: termBreak.name,
+    startDate: termBreak.start_date,
+    endDate: termBreak.end_date,
+  })),
+  archivedAt: dbTerm.archived_at ?? undefined,
+  createdAt: dbTerm.created_at,
+  updatedAt: dbTerm.updated_at,
 });
 
+export const mapDbTagToAppTag = (dbTag: DbTag): AppTag => ({
+  id: dbTag.id,
+  userId: dbTag.user_id,
+  name: dbTag.name,
+  color: dbTag.color,
+  createdAt: dbTag.created_at,
+});
+
+export const mapDbExamToAppExam = (dbExam: DbExam): AppExam => ({
+  id: dbExam.id,
+  userId: dbExam.user_id,
+  courseId: dbExam.course_id,
+  courseName: dbExam.courses?.course_name,
+  title: dbExam.title,
+  examDate: dbExam.exam_date,
+  durationMinutes: dbExam.duration_minutes,
+  location: dbExam.location ?? undefined,
+  topics: dbExam.topics ?? [],
+  weight: toOptionalNumber(dbExam.weight),
+  description: dbExam.description ?? undefined,
+  createdAt: dbExam.created_at,
+});
+
+export const mapDbFlashcardDeckToAppFlashcardDeck = (
+  dbDeck: DbFlashcardDeck,
+): AppFlashcardDeck => ({
+  id: dbDeck.id,
+  studySessionId: dbDeck.study_session_id ?? undefined,
+  courseId: dbDeck.course_id ?? undefined,
+  title: dbDeck.title,
+  description: dbDeck.description ?? undefined,
+  cardCount: dbDeck.card_count ?? 0,
+  dueCount: dbDeck.due_count ?? 0,
+  createdAt: dbDeck.created_at,
+});
+
+export const mapDbFlashcardToAppFlashcard = (
+  dbCard: DbFlashcard,
+): AppFlashcard => ({
+  id: dbCard.id,
+  deckId: dbCard.deck_id,
+  cardType: dbCard.card_type,
+  front: dbCard.front,
+  back: dbCard.back ?? undefined,
+  imageUrl: dbCard.image_url ?? undefined,
+  dueAt: dbCard.due_at,
+  lastReviewedAt: dbCard.last_reviewed_at ?? undefined,
+  reviewCount: dbCard.review_count ?? 0,
+  createdAt: dbCard.created_at,
+});
+
+export const mapTermBreaksToDb = (breaks: TermBreak[]): TermBreakPayload[] =>
+  breaks.map(termBreak => ({
+    name: termBreak.name,
+    start_date: termBreak.startDate,
+    end_date: termBreak.endDate,
+  }));
+
+export const mapDbSubtasks = (
+  subtasks?: AssignmentSubtaskPayload[] | null,
+): AssignmentSubtask[] =>
+  (subtasks || []).map(subtask => ({
+    id: subtask.id,
+    title: subtask.title,
+    dueDate: subtask.due_date ?? undefined,
+    completedAt: subtask.completed_at ?? undefined,
+  }));
+
+export const mapSubtasksToDb = (
+  subtasks: AssignmentSubtask[],
+): AssignmentSubtaskPayload[] =>
+  subtasks.map(subtask => ({
+    id: subtask.id,
+    title: subtask.title,
+    due_date: subtask.dueDate ?? null,
+    completed_at: subtask.completedAt ?? null,
+  }));
+
 export const mapDbAssignmentToAppAssignment = (
   dbAssignment: DbAssignment,
 ): AppAssignment => ({
@@ -77,6 +302,15 @@ export const mapDbAssignmentToAppAssignment = (
   submissionLink: dbAssignment.submission_link,
   dueDate: dbAssignment.due_date,
   createdAt: dbAssignment.created_at,
+  score: toOptionalNumber(dbAssignment.score),
+  maxScore: toOptionalNumber(dbAssignment.max_score),
+  weight: toOptionalNumber(dbAssignment.weight),
+  gradeCategory: dbAssignment.grade_category ?? undefined,
+  subtasks: mapDbSubtasks(dbAssignment.subtasks),
+  estimatedMinutes: toOptionalNumber(dbAssignment.estimated_minutes),
+  priority: dbAssignment.priority,
+  tagIds: dbAssignment.tag_ids ?? [],
+  version: dbAssignment.version,
 });
 
 export const mapDbLectureToAppLecture = (dbLecture: DbLecture): AppLecture => ({
@@ -89,6 +323,8 @@ export const mapDbLectureToAppLecture = (dbLecture: DbLecture): AppLecture => ({
   lectureName: dbLecture.lecture_name,
   description: dbLecture.description,
   venue: dbLecture.venue,
+  priority: dbLecture.priority,
+  tagIds: dbLecture.tag_ids ?? [],
   createdAt: dbLecture.created_at,
 });
 
@@ -102,5 +338,7 @@ export const mapDbStudySessionToAppStudySession = (
   description: dbStudySession.description,
   sessionDate: dbStudySession.session_date,
   hasSpacedRepetition: dbStudySession.has_spaced_repetition,
+  priority: dbStudySession.priority,
+  tagIds: dbStudySession.tag_ids ?? [],
   createdAt: dbStudySession.created_at,
 });
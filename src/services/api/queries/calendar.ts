@@ -1,5 +1,5 @@
 import { versionedApiClient } from '@/services/VersionedApiClient';
-import { CalendarData } from '@/types';
+import { CalendarData, CalendarExportFile, CalendarFeedInfo } from '@/types';
 import { handleApiError } from '../errors';
 
 export const calendarApi = {
@@ -55,4 +55,45 @@ export const calendarApi = {
       throw handleApiError(error);
     }
   },
+
+  /**
+   * Export lectures, assignments and study sessions as an .ics document
+   */
+  async exportIcs(): Promise<CalendarExportFile> {
+    try {
+      const response = await versionedApiClient.exportCalendar();
+
+      if (response.error || !response.data) {
+        throw new Error(
+          response.message || response.error || 'Failed to export calendar',
+        );
+      }
+
+      return response.data;
+    } catch (error) {
+      throw handleApiError(error);
+    }
+  },
+
+  /**
+   * Get the subscription feed URL, optionally rotating the token so
+   * previously shared URLs stop working
+   */
+  async getFeed(rotate: boolean = false): Promise<CalendarFeedInfo> {
+    try {
+      const response = await versionedApiClient.getCalendarFeedToken(rotate);
+
+      if (response.error || !response.data) {
+        throw new Error(
+          response.message ||
+            response.error ||
+            'Failed to get calendar subscription link',
+        );
+      }
+
+      return response.data;
+    } catch (error) {
+      throw handleApiError(error);
+    }
+  },
 };
@@ -30,8 +30,12 @@ const VALID_ROUTES: Set<keyof RootStackParamList> = new Set([
   'Drafts',
   'Templates',
   'CourseDetail',
+  'ImportFlashcards',
+  'ImportTimetable',
+  'Terms',
   'Calendar',
   'RecycleBin',
+  'ImportData',
   'Profile',
   'Settings',
   'DeleteAccountScreen',
@@ -43,6 +47,7 @@ const VALID_ROUTES: Set<keyof RootStackParamList> = new Set([
   'AddLectureFlow',
   'AddAssignmentFlow',
   'AddStudySessionFlow',
+  'AddExamFlow',
   'EditCourseModal',
   'TaskDetailModal',
   'InAppBrowserScreen',
@@ -51,6 +56,12 @@ const VALID_ROUTES: Set<keyof RootStackParamList> = new Set([
   'OddityWelcomeScreen',
   'StudyResult',
   'StudySessionReview',
+  'FocusTimer',
+  'StudyPlanner',
+  'WeeklyReports',
+  'WeeklyReport',
+  'ReminderDigest',
+  'Search',
 ]);
 
 // Valid nested route names for each parent navigator
@@ -66,6 +77,7 @@ const MODAL_FLOW_ROUTES: Set<keyof RootStackParamList> = new Set([
   'AddLectureFlow',
   'AddAssignmentFlow',
   'AddStudySessionFlow',
+  'AddExamFlow',
   'TaskDetailModal',
   'EditCourseModal',
   'InAppBrowserScreen',
@@ -330,6 +330,15 @@ export const notificationService = {
         lightColor: '#4CAF50',
         description: 'Spaced repetition review reminders',
       });
+
+      // process-due-reminders sends high-priority task reminders here
+      await Notifications.setNotificationChannelAsync('high_priority', {
+        name: 'High Priority',
+        importance: Notifications.AndroidImportance.MAX,
+        vibrationPattern: [0, 500, 250, 500],
+        lightColor: '#EF4444',
+        description: 'Reminders and follow-ups for high-priority tasks',
+      });
     }
   },
 
@@ -471,7 +480,7 @@ export const notificationService = {
     title: string;
     body: string;
     triggerDate: Date;
-    type?: 'reminder' | 'spaced_repetition';
+    type?: 'reminder' | 'spaced_repetition' | 'focus_timer';
     data?: Record<string, unknown>;
   }) {
     const enabled = await this.areNotificationsEnabled();
@@ -699,6 +708,7 @@ function mapFullToSimple(
     lectures: prefs.notificationTypes.lectures,
     studySessions: prefs.notificationTypes.srs,
     dailySummaries: prefs.notificationTypes.dailySummaries,
+    weeklyReports: prefs.notificationTypes.weeklyReports,
     marketing: prefs.notificationTypes.marketing,
     quietHours: {
       enabled: prefs.quietHours.enabled,
@@ -726,9 +736,13 @@ function mapSimpleUpdateToFull(
     update.lectures !== undefined ||
     update.studySessions !== undefined ||
     update.dailySummaries !== undefined ||
+    update.weeklyReports !== undefined ||
     update.marketing !== undefined
   ) {
-    full.notificationTypes = {
+    // Types left undefined are dropped from the update and keep their value
+    const notificationTypes: Partial<
+      NotificationPreferences['notificationTypes']
+    > = {
       reminders: update.reminders ?? undefined,
       achievements: undefined,
       updates: undefined,
@@ -737,7 +751,10 @@ function mapSimpleUpdateToFull(
       lectures: update.lectures ?? undefined,
       srs: update.studySessions ?? update.reminders,
       dailySummaries: update.dailySummaries ?? undefined,
+      weeklyReports: update.weeklyReports ?? undefined,
     };
+    full.notificationTypes =
+      notificationTypes as NotificationPreferences['notificationTypes'];
   }
 
   if (update.quietHours) {
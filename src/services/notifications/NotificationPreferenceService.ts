@@ -119,6 +119,22 @@ export class NotificationPreferenceService
       errors.push('Max notifications per day must be between 1 and 50');
     }
 
+    if (
+      preferences.frequency.maxPerHour < 1 ||
+      preferences.frequency.maxPerHour > preferences.frequency.maxPerDay
+    ) {
+      errors.push(
+        'Max notifications per hour must be between 1 and the daily maximum',
+      );
+    }
+
+    if (
+      preferences.frequency.bundleWindow < 0 ||
+      preferences.frequency.bundleWindow > 60
+    ) {
+      errors.push('Reminder bundling window must be between 0 and 60 minutes');
+    }
+
     if (
       preferences.frequency.cooldownPeriod < 0 ||
       preferences.frequency.cooldownPeriod > 1440
@@ -181,6 +197,7 @@ export class NotificationPreferenceService
         lectures: true,
         srs: true,
         dailySummaries: true,
+        weeklyReports: true,
       },
 
       // Frequency Settings
@@ -188,8 +205,10 @@ export class NotificationPreferenceService
         reminders: 'immediate',
         summaries: 'daily',
         updates: 'immediate',
+        maxPerHour: 4,
         maxPerDay: 10,
         cooldownPeriod: 30,
+        bundleWindow: 10,
       },
 
       // Advanced Settings
@@ -259,14 +278,24 @@ export class NotificationPreferenceService
         lectures: data.lecture_reminders_enabled ?? true,
         srs: data.srs_reminders_enabled ?? true,
         dailySummaries: data.morning_summary_enabled ?? true,
+        weeklyReports:
+          typeof data.weekly_report_enabled === 'boolean'
+            ? data.weekly_report_enabled
+            : true,
       },
 
       frequency: {
         reminders: data.reminder_frequency ?? 'immediate',
         summaries: data.summary_frequency ?? 'daily',
         updates: data.update_frequency ?? 'immediate',
+        maxPerHour:
+          typeof data.max_per_hour === 'number' ? data.max_per_hour : 4,
         maxPerDay: data.max_per_day ?? 10,
         cooldownPeriod: data.cooldown_period ?? 30,
+        bundleWindow:
+          typeof data.bundle_window_minutes === 'number'
+            ? data.bundle_window_minutes
+            : 10,
       },
 
       advanced: {
@@ -321,14 +350,18 @@ export class NotificationPreferenceService
       dbData.srs_reminders_enabled = preferences.notificationTypes.srs;
       dbData.morning_summary_enabled =
         preferences.notificationTypes.dailySummaries;
+      dbData.weekly_report_enabled =
+        preferences.notificationTypes.weeklyReports;
     }
 
     if (preferences.frequency) {
       dbData.reminder_frequency = preferences.frequency.reminders;
       dbData.summary_frequency = preferences.frequency.summaries;
       dbData.update_frequency = preferences.frequency.updates;
+      dbData.max_per_hour = preferences.frequency.maxPerHour;
       dbData.max_per_day = preferences.frequency.maxPerDay;
       dbData.cooldown_period = preferences.frequency.cooldownPeriod;
+      dbData.bundle_window_minutes = preferences.frequency.bundleWindow;
     }
 
     if (preferences.advanced) {
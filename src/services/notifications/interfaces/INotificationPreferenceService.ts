@@ -61,6 +61,7 @@ export interface NotificationPreferences {
     lectures: boolean;
     srs: boolean;
     dailySummaries: boolean;
+    weeklyReports: boolean;
   };
 
   // Frequency Settings
@@ -68,8 +69,10 @@ export interface NotificationPreferences {
     reminders: 'immediate' | 'daily' | 'weekly';
     summaries: 'daily' | 'weekly' | 'disabled';
     updates: 'immediate' | 'daily' | 'disabled';
+    maxPerHour: number;
     maxPerDay: number;
     cooldownPeriod: number; // minutes
+    bundleWindow: number; // minutes; reminders due this close are sent as one, 0 sends each on its own
   };
 
   // Advanced Settings
@@ -15,6 +15,7 @@ export interface SimpleNotificationPreferences {
   lectures: boolean;
   studySessions: boolean;
   dailySummaries: boolean;
+  weeklyReports: boolean;
   marketing: boolean;
 
   // Timing Preferences
@@ -36,6 +37,7 @@ export interface SimpleNotificationPreferencesUpdate {
   lectures?: boolean;
   studySessions?: boolean;
   dailySummaries?: boolean;
+  weeklyReports?: boolean;
   marketing?: boolean;
   quietHours?: {
     enabled?: boolean;
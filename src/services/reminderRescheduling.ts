@@ -95,3 +95,75 @@ export async function rescheduleReminder(
     };
   }
 }
+
+export type ReminderTaskType = 'assignment' | 'lecture' | 'study_session';
+
+const REMINDER_TASK_FIELDS: Record<ReminderTaskType, string> = {
+  assignment: 'assignment_id',
+  lecture: 'lecture_id',
+  study_session: 'session_id',
+};
+
+export interface RescheduleTaskRemindersOptions {
+  taskId: string;
+  taskType: ReminderTaskType;
+  /** How far the task moved; its reminders move by the same amount */
+  shiftMs: number;
+  userId: string;
+  /**
+   * Only move reminders set in this window. Reminders of a recurring
+   * lecture belong to all its occurrences, so moving one occurrence
+   * passes the day before it.
+   */
+  window?: { from: Date; to: Date };
+}
+
+/**
+ * Move the pending reminders of a task that was moved, so they keep their
+ * distance to it. Reminders that would now be in the past are left alone.
+ */
+export async function rescheduleTaskReminders(
+  options: RescheduleTaskRemindersOptions,
+): Promise<{ rescheduled: number; failed: number }> {
+  const { taskId, taskType, shiftMs, userId, window } = options;
+
+  let query = supabase
+    .from('reminders')
+    .select('id, reminder_time')
+    .eq('user_id', userId)
+    .eq(REMINDER_TASK_FIELDS[taskType], taskId)
+    .eq('completed', false);
+  if (window) {
+    query = query
+      .gt('reminder_time', window.from.toISOString())
+      .lte('reminder_time', window.to.toISOString());
+  }
+
+  const { data: reminders, error } = await query;
+  if (error) {
+    console.error('Failed to load reminders to reschedule:', error);
+    return { rescheduled: 0, failed: 1 };
+  }
+
+  let rescheduled = 0;
+  let failed = 0;
+  for (const reminder of reminders ?? []) {
+    const newScheduledTime = new Date(
+      new Date(reminder.reminder_time).getTime() + shiftMs,
+    );
+    if (newScheduledTime.getTime() <= Date.now()) continue;
+
+    const result = await rescheduleReminder({
+      reminderId: reminder.id,
+      newScheduledTime,
+      userId,
+    });
+    if (result.success) {
+      rescheduled += 1;
+    } else {
+      failed += 1;
+    }
+  }
+
+  return { rescheduled, failed };
+}
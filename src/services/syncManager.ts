@@ -15,6 +15,8 @@ import { cache } from '@/utils/cache';
 import { isTempId } from '@/utils/uuid';
 import { CircuitBreaker } from '@/utils/circuitBreaker';
 import { invokeEdgeFunctionWithAuth } from '@/utils/invokeEdgeFunction';
+import { mergeFieldUpdates, readField } from '@/utils/syncConflicts';
+import { apiVersioningService } from '@/services/ApiVersioningService';
 import {
   OfflineAction,
   OfflineActionStatus,
@@ -25,6 +27,9 @@ import {
   OfflineOperationType,
   OfflineResourceType,
   OfflineActionPayload,
+  UpdatePayload,
+  SyncConflict,
+  SyncConflictResolution,
 } from '@/types/offline';
 
 /**
@@ -52,6 +57,31 @@ const DEFAULT_CONFIG: SyncManagerConfig = {
   maxQueueSize: 100,
 };
 
+/**
+ * api-v2 route and ID body field for each resource type
+ */
+const API_V2_RESOURCES: Record<
+  OfflineResourceType,
+  { path: string; idField: string }
+> = {
+  course: { path: 'courses', idField: 'course_id' },
+  assignment: { path: 'assignments', idField: 'assignment_id' },
+  lecture: { path: 'lectures', idField: 'lecture_id' },
+  study_session: { path: 'study-sessions', idField: 'study_session_id' },
+};
+
+/**
+ * Thrown when an UPDATE touches fields that were also changed on the server
+ */
+class SyncConflictError extends Error {
+  constructor(readonly conflict: SyncConflict) {
+    super(
+      `${conflict.fields.length} field(s) were changed on the server: ${conflict.fields.map(f => f.field).join(', ')}`,
+    );
+    this.name = 'SyncConflictError';
+  }
+}
+
 /**
  * Extended OfflineAction with retry scheduling and priority
  */
@@ -439,6 +469,10 @@ class SyncManager {
             }
           }
 
+          if (action.operation === 'UPDATE') {
+            this.rebaseQueuedUpdates(action, serverResponse);
+          }
+
           // Remove the action from the queue
           this.queue = this.queue.filter(a => a.id !== action.id);
 
@@ -460,7 +494,15 @@ class SyncManager {
             'Circuit breaker is open',
           );
 
-          if (isCircuitBreakerOpen) {
+          if (error instanceof SyncConflictError) {
+            // Retrying can't help - wait for the user to pick a side
+            action.status = 'conflict';
+            action.conflict = error.conflict;
+            action.error = errorMessage;
+            console.log(
+              `⚔️ Action ${action.id} parked for conflict resolution (${error.conflict.fields.length} fields)`,
+            );
+          } else if (isCircuitBreakerOpen) {
             // Don't increment retry count for circuit breaker errors
             // Just mark as pending and wait for circuit to recover
             action.status = 'pending';
@@ -531,6 +573,7 @@ class SyncManager {
     const pending = this.queue.filter(a => a.status === 'pending').length;
     const syncing = this.queue.filter(a => a.status === 'syncing').length;
     const failed = this.queue.filter(a => a.status === 'failed').length;
+    const conflicts = this.queue.filter(a => a.status === 'conflict').length;
     const oldestTimestamp =
       this.queue.length > 0
         ? Math.min(...this.queue.map(a => a.timestamp))
@@ -541,10 +584,73 @@ class SyncManager {
       pending,
       syncing,
       failed,
+      conflicts,
       oldestTimestamp,
     };
   }
 
+  /**
+   * Get updates waiting for the user to resolve a conflict
+   */
+  getConflicts(): SyncConflict[] {
+    return this.queue
+      .filter(a => a.status === 'conflict' && a.conflict)
+      .map(a => a.conflict as SyncConflict);
+  }
+
+  /**
+   * Resolve a parked conflict and requeue whatever is left to send
+   *
+   * Fields resolved to 'server' are dropped from the update; fields resolved
+   * to 'local' are sent against the server version the conflict was read
+   * from, so an edit made on another device in the meantime conflicts again
+   * instead of being overwritten.
+   *
+   * @param actionId - The conflicting action
+   * @param resolution - Which side to keep for each conflicting field
+   * (unlisted fields keep the server value)
+   */
+  async resolveConflict(
+    actionId: string,
+    resolution: SyncConflictResolution,
+  ): Promise<void> {
+    const action = this.queue.find(
+      a => a.id === actionId && a.status === 'conflict',
+    );
+    if (!action?.conflict || action.payload.type !== 'UPDATE') {
+      console.warn(`⚠️ SyncManager: No conflict to resolve for ${actionId}`);
+      return;
+    }
+
+    const payload = action.payload as UpdatePayload;
+    const data = { ...(payload.data || payload.updates || {}) };
+    action.conflict.fields.forEach(({ field }) => {
+      if (resolution[field] !== 'local') {
+        delete data[field];
+      }
+    });
+
+    if (Object.keys(data).length === 0) {
+      console.log(`✅ SyncManager: Kept server values for ${actionId}`);
+      this.queue = this.queue.filter(a => a.id !== actionId);
+      await this.invalidateRelatedCaches(action.resourceType);
+    } else {
+      payload.data = data;
+      delete payload.updates;
+      action.status = 'pending';
+      action.retryCount = 0;
+      delete action.conflict;
+      delete action.error;
+    }
+
+    await this.saveQueue();
+    this.notifyListeners();
+
+    this.syncImmediately().catch(err => {
+      console.error('❌ SyncManager: Error in syncImmediately:', err);
+    });
+  }
+
   /**
    * Get all actions in the queue
    */
@@ -695,7 +801,7 @@ class SyncManager {
       `🌐 Executing ${action.operation} ${action.resourceType} on server...`,
     );
 
-    return await this.circuitBreaker.execute(async () => {
+    const result = await this.circuitBreaker.execute(async () => {
       const { operation, resourceType, payload } = action;
 
       switch (operation) {
@@ -703,7 +809,13 @@ class SyncManager {
           return await this.executeCreate(resourceType, payload);
 
         case 'UPDATE':
-          return await this.executeUpdate(resourceType, payload);
+          try {
+            return await this.executeUpdate(action);
+          } catch (error) {
+            // A conflict means the server is healthy - don't trip the breaker
+            if (error instanceof SyncConflictError) return error;
+            throw error;
+          }
 
         case 'DELETE':
           return await this.executeDelete(resourceType, payload);
@@ -718,10 +830,16 @@ class SyncManager {
         case 'BATCH_RESTORE':
           return await this.executeBatch(operation, payload);
 
+        case 'BATCH_UPDATE':
+          return await this.executeBatchUpdate(payload);
+
         default:
           throw new Error(`Unknown operation type: ${operation}`);
       }
     });
+
+    if (result instanceof SyncConflictError) throw result;
+    return result;
   }
 
   /**
@@ -752,23 +870,20 @@ class SyncManager {
 
   /**
    * Execute UPDATE mutation
+   *
+   * Sends the row version the edit was based on. If the server has a newer
+   * version, the edit is merged field by field with the current server
+   * record: non-overlapping changes are resent automatically, overlapping
+   * ones raise a SyncConflictError.
    */
-  private async executeUpdate(
-    resourceType: OfflineResourceType,
-    payload: OfflineActionPayload,
-  ): Promise<unknown> {
+  private async executeUpdate(action: OfflineAction): Promise<unknown> {
+    const { resourceType, payload } = action;
     if (payload.type !== 'UPDATE') {
       throw new Error('Invalid payload type for UPDATE operation');
     }
 
     // Support both old format (resourceId/updates) and new format (id/data)
-    const updatePayload = payload as {
-      type: 'UPDATE';
-      resourceId?: string;
-      id?: string;
-      updates?: Record<string, unknown>;
-      data?: Record<string, unknown>;
-    };
+    const updatePayload = payload as UpdatePayload;
 
     // Use new format (id/data) if available, fallback to old format (resourceId/updates)
     const resourceId = this.resolveId(
@@ -786,18 +901,156 @@ class SyncManager {
       throw new Error('UPDATE payload must include either "data" or "updates"');
     }
 
-    const functionName = `update-${resourceType.replace('_', '-')}`;
-    console.log(`  → Calling ${functionName} for ${resourceId}...`);
+    const { path } = API_V2_RESOURCES[resourceType];
+    console.log(`  → Calling api-v2/${path}/update for ${resourceId}...`);
 
-    const { data, error } = await invokeEdgeFunctionWithAuth(functionName, {
-      body: {
-        [`${resourceType}Id`]: resourceId,
-        ...updates, // Spread updates directly instead of wrapping in 'updates' key
+    const response = await this.sendUpdate(
+      action,
+      resourceId,
+      updates,
+      updatePayload.baseVersion,
+    );
+    if (response.code !== 'VERSION_CONFLICT') {
+      if (response.error) {
+        throw new Error(
+          response.message || response.error || 'Update operation failed',
+        );
+      }
+      return response.data;
+    }
+
+    console.log(`  ⚠️ ${resourceId} changed on the server, merging fields...`);
+    const current = await apiVersioningService.get<Record<string, unknown>>(
+      `api-v2/${path}/get/${resourceId}`,
+    );
+    if (current.error || !current.data) {
+      throw new Error(
+        current.message || current.error || 'Failed to load server version',
+      );
+    }
+
+    const server = current.data;
+    const { merged, conflicts } = mergeFieldUpdates(
+      updates,
+      updatePayload.baseData ?? {},
+      server,
+    );
+
+    // Rebase on the server record so later attempts compare against it
+    const serverVersion = Number(server.version);
+    updatePayload.baseVersion = serverVersion;
+    updatePayload.baseData = Object.fromEntries(
+      Object.keys(updates).map(field => [
+        field,
+        readField(server, field) ?? null,
+      ]),
+    );
+    updatePayload.data = {
+      ...merged,
+      ...Object.fromEntries(conflicts.map(c => [c.field, c.localValue])),
+    };
+    delete updatePayload.updates;
+
+    if (conflicts.length > 0) {
+      throw new SyncConflictError({
+        actionId: action.id,
+        resourceType,
+        resourceId,
+        fields: conflicts,
+        serverVersion,
+        detectedAt: Date.now(),
+      });
+    }
+
+    if (Object.keys(merged).length === 0) {
+      console.log(`  ✅ Server already has these changes`);
+      return server;
+    }
+
+    const retry = await this.sendUpdate(
+      action,
+      resourceId,
+      merged,
+      serverVersion,
+    );
+    // A second conflict is retried like any other failure and merged again
+    if (retry.error) {
+      throw new Error(
+        retry.message || retry.error || 'Update operation failed',
+      );
+    }
+    return retry.data;
+  }
+
+  /**
+   * PUT an update to api-v2, guarded by expectedVersion when known
+   */
+  private async sendUpdate(
+    action: OfflineAction,
+    resourceId: string,
+    updates: Record<string, unknown>,
+    expectedVersion?: number,
+  ) {
+    const { path, idField } = API_V2_RESOURCES[action.resourceType];
+
+    return await apiVersioningService.request<Record<string, unknown>>(
+      `api-v2/${path}/update/${resourceId}`,
+      {
+        method: 'PUT',
+        body: JSON.stringify({
+          [idField]: resourceId,
+          ...updates,
+          expected_version: expectedVersion,
+        }),
+        headers: {
+          // Same key on retry, new key once rebased on a newer version
+          'Idempotency-Key': `${action.id}_v${expectedVersion ?? 0}`,
+        },
       },
-    });
+    );
+  }
 
-    if (error) throw new Error(error.message || 'Update operation failed');
-    return data;
+  /**
+   * After an UPDATE succeeds, move later queued updates of the same record
+   * onto the new version, so they don't conflict with our own earlier edit
+   */
+  private rebaseQueuedUpdates(
+    synced: OfflineAction,
+    serverResponse: unknown,
+  ): void {
+    const syncedPayload = synced.payload as UpdatePayload;
+    const record = serverResponse as Record<string, unknown> | null;
+    if (typeof record?.version !== 'number') return;
+
+    const resourceId = this.resolveId(
+      syncedPayload.id || syncedPayload.resourceId || '',
+    );
+    const applied = syncedPayload.data || syncedPayload.updates || {};
+
+    this.queue.forEach(action => {
+      if (
+        action.id === synced.id ||
+        action.status !== 'pending' ||
+        action.payload.type !== 'UPDATE' ||
+        action.resourceType !== synced.resourceType
+      ) {
+        return;
+      }
+
+      const payload = action.payload as UpdatePayload;
+      if (
+        this.resolveId(payload.id || payload.resourceId || '') !== resourceId ||
+        payload.baseVersion !== syncedPayload.baseVersion
+      ) {
+        return;
+      }
+
+      payload.baseVersion = record.version as number;
+      payload.baseData = { ...payload.baseData };
+      Object.keys(payload.baseData).forEach(field => {
+        if (field in applied) payload.baseData![field] = applied[field];
+      });
+    });
   }
 
   /**
@@ -913,6 +1166,40 @@ class SyncManager {
     return data;
   }
 
+  /**
+   * Execute BATCH_UPDATE mutation (reschedule, move, complete or soft-delete)
+   */
+  private async executeBatchUpdate(
+    payload: OfflineActionPayload,
+  ): Promise<unknown> {
+    if (payload.type !== 'BATCH_UPDATE') {
+      throw new Error('Invalid payload type for BATCH_UPDATE operation');
+    }
+
+    const resolvedItems = payload.items.map(item => ({
+      id: this.resolveId(item.id),
+      type: item.type,
+    }));
+
+    console.log(
+      `  → Calling batch-action to ${payload.action} ${resolvedItems.length} items...`,
+    );
+
+    const { data, error } = await supabase.functions.invoke('batch-action', {
+      body: {
+        action: payload.action,
+        items: resolvedItems,
+        shift_days: payload.shiftDays,
+        course_id: payload.courseId
+          ? this.resolveId(payload.courseId)
+          : undefined,
+      },
+    });
+
+    if (error) throw new Error(error.message || 'Batch update failed');
+    return data;
+  }
+
   /**
    * Resolve an ID (replace temp ID with real ID if mapping exists)
    */
@@ -995,6 +1282,15 @@ class SyncManager {
             ...item,
             id: item.id === tempId ? realId : item.id,
           }));
+        } else if (action.payload.type === 'BATCH_UPDATE') {
+          const batchPayload = action.payload;
+          batchPayload.items = batchPayload.items.map(item => ({
+            ...item,
+            id: item.id === tempId ? realId : item.id,
+          }));
+          if (batchPayload.courseId === tempId) {
+            batchPayload.courseId = realId;
+          }
         }
       }
     });
@@ -14,6 +14,7 @@ import { useSafeAreaInsets } from 'react-native-safe-area-context';
 import { DetailSheetHeader } from './DetailSheetHeader';
 import { DetailSheetFooter } from './DetailSheetFooter';
 import { ReminderChipsList } from './ReminderChipsList';
+import { SubtaskProgressBar } from './SubtaskProgressBar';
 import {
   formatCountdown,
   formatDateOnly,
@@ -33,6 +34,8 @@ interface AssignmentDetailSheetProps {
   onClose?: () => void;
   onDelete?: () => void;
   onToggleTemplate?: (value: boolean) => void;
+  /** Checks a subtask off or back on; subtasks are read-only without it */
+  onToggleSubtask?: (subtaskId: string) => void;
 }
 
 export const AssignmentDetailSheet: React.FC<AssignmentDetailSheetProps> = ({
@@ -44,8 +47,9 @@ export const AssignmentDetailSheet: React.FC<AssignmentDetailSheetProps> = ({
   onClose,
   onDelete,
   onToggleTemplate,
+  onToggleSubtask,
 }) => {
-  const { theme } = useTheme();
+  const { theme, isDark } = useTheme();
   const insets = useSafeAreaInsets();
   const [showFullDescription, setShowFullDescription] = useState(false);
   const [templateEnabled, setTemplateEnabled] = useState(isTemplate);
@@ -67,6 +71,7 @@ export const AssignmentDetailSheet: React.FC<AssignmentDetailSheetProps> = ({
     onToggleTemplate?.(value);
   };
 
+  const subtasks = assignment.subtasks || [];
   const description = assignment.description || '';
   const shouldTruncate = description.length > 150;
   const displayDescription = showFullDescription
@@ -182,6 +187,69 @@ export const AssignmentDetailSheet: React.FC<AssignmentDetailSheetProps> = ({
           </View>
         )}
 
+        {/* Subtasks Section */}
+        {subtasks.length > 0 && (
+          <View style={styles.section}>
+            <Text
+              style={[
+                styles.sectionTitle,
+                { color: isDark ? '#FFFFFF' : '#111418' },
+              ]}>
+              Subtasks
+            </Text>
+            <SubtaskProgressBar
+              subtasks={subtasks}
+              textColor={isDark ? '#9CA3AF' : '#6B7280'}
+              trackColor={isDark ? '#374151' : '#E5E7EB'}
+            />
+            <View style={styles.subtaskList}>
+              {subtasks.map(subtask => {
+                const isDone = !!subtask.completedAt;
+                return (
+                  <TouchableOpacity
+                    key={subtask.id}
+                    style={styles.subtaskRow}
+                    onPress={() => onToggleSubtask?.(subtask.id)}
+                    disabled={!onToggleSubtask}
+                    accessibilityRole="checkbox"
+                    accessibilityState={{
+                      checked: isDone,
+                      disabled: !onToggleSubtask,
+                    }}
+                    accessibilityLabel={subtask.title}>
+                    <Ionicons
+                      name={isDone ? 'checkbox' : 'square-outline'}
+                      size={22}
+                      color={
+                        isDone ? COLORS.primary : isDark ? '#9CA3AF' : '#6B7280'
+                      }
+                    />
+                    <View style={styles.subtaskText}>
+                      <Text
+                        style={[
+                          styles.subtaskTitle,
+                          { color: isDark ? '#D1D5DB' : '#374151' },
+                          isDone && styles.subtaskTitleDone,
+                        ]}>
+                        {subtask.title}
+                      </Text>
+                      {subtask.dueDate && (
+                        <Text
+                          style={[
+                            styles.subtaskDue,
+                            { color: isDark ? '#9CA3AF' : '#6B7280' },
+                          ]}>
+                          Due {formatDateOnly(new Date(subtask.dueDate))}
+                        </Text>
+                      )}
+                    </View>
+                  </TouchableOpacity>
+                );
+              })}
+            </View>
+          </View>
+        )}
+
         {/* Submission Method Card */}
         {assignment.submissionMethod && (
           <View style={styles.section}>
@@ -389,6 +457,30 @@ const styles = StyleSheet.create({
     fontWeight: FONT_WEIGHTS.medium,
     marginTop: SPACING.xs,
   },
+  subtaskList: {
+    marginTop: SPACING.sm,
+  },
+  subtaskRow: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    gap: 12,
+    paddingVertical: SPACING.sm,
+  },
+  subtaskText: {
+    flex: 1,
+  },
+  subtaskTitle: {
+    fontSize: 15,
+    lineHeight: 22,
+  },
+  subtaskTitleDone: {
+    textDecorationLine: 'line-through',
+    opacity: 0.6,
+  },
+  subtaskDue: {
+    fontSize: FONT_SIZES.xs,
+    marginTop: 2,
+  },
   submissionCard: {
     padding: SPACING.md,
     borderRadius: 12,
@@ -0,0 +1,413 @@
+/**
+ * BulkActionBar Component
+ *
+ * Shown while tasks are selected: reschedules, moves, completes or deletes
+ * all of them at once. Rescheduling asks how many days to move by and
+ * moving asks for the course.
+ */
+
+import React, { useState } from 'react';
+import {
+  Modal,
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  ScrollView,
+  ActivityIndicator,
+  Alert,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { useTheme } from '@/hooks/useTheme';
+import { COLORS, FONT_WEIGHTS } from '@/constants/theme';
+import { useCourseSelector } from '@/shared/hooks/task-forms';
+import { BulkTaskEdit, MAX_SHIFT_DAYS, formatDayShift } from '@/utils/bulkEdit';
+
+interface BulkActionBarProps {
+  count: number;
+  isApplying: boolean;
+  onApply: (edit: BulkTaskEdit) => void;
+  onCancel: () => void;
+  /** Left out of the course list, e.g. the course being viewed */
+  currentCourseId?: string;
+  bottomInset?: number;
+}
+
+const SHIFT_PRESETS = [-7, -1, 1, 7];
+
+type BarAction = {
+  key: BulkTaskEdit['action'];
+  label: string;
+  icon: keyof typeof Ionicons.glyphMap;
+};
+
+const BAR_ACTIONS: BarAction[] = [
+  { key: 'RESCHEDULE', label: 'Reschedule', icon: 'calendar-outline' },
+  { key: 'MOVE_COURSE', label: 'Move', icon: 'folder-outline' },
+  { key: 'COMPLETE', label: 'Complete', icon: 'checkmark-circle-outline' },
+  { key: 'SOFT_DELETE', label: 'Delete', icon: 'trash-outline' },
+];
+
+export const BulkActionBar: React.FC<BulkActionBarProps> = ({
+  count,
+  isApplying,
+  onApply,
+  onCancel,
+  currentCourseId,
+  bottomInset = 0,
+}) => {
+  const { theme } = useTheme();
+  const { courses } = useCourseSelector();
+  const [picker, setPicker] = useState<'RESCHEDULE' | 'MOVE_COURSE' | null>(
+    null,
+  );
+  const [shiftDays, setShiftDays] = useState(1);
+
+  const taskCount = `${count} task${count === 1 ? '' : 's'}`;
+  const courseOptions = courses.filter(course => course.id !== currentCourseId);
+
+  const handleAction = (action: BulkTaskEdit['action']) => {
+    switch (action) {
+      case 'RESCHEDULE':
+        setShiftDays(1);
+        setPicker('RESCHEDULE');
+        break;
+      case 'MOVE_COURSE':
+        setPicker('MOVE_COURSE');
+        break;
+      case 'COMPLETE':
+        onApply({ action: 'COMPLETE' });
+        break;
+      case 'SOFT_DELETE':
+        Alert.alert(`Delete ${taskCount}?`, 'They go to the Recycle Bin.', [
+          { text: 'Cancel', style: 'cancel' },
+          {
+            text: 'Delete',
+            style: 'destructive',
+            onPress: () => onApply({ action: 'SOFT_DELETE' }),
+          },
+        ]);
+        break;
+    }
+  };
+
+  // Steps over zero: moving by no days isn't an edit
+  const stepShift = (step: 1 | -1) =>
+    setShiftDays(days => {
+      const next = days + step === 0 ? days + 2 * step : days + step;
+      return Math.max(-MAX_SHIFT_DAYS, Math.min(MAX_SHIFT_DAYS, next));
+    });
+
+  const renderReschedulePicker = () => (
+    <>
+      <Text style={[styles.modalTitle, { color: theme.text }]}>
+        Reschedule {taskCount}
+      </Text>
+      <View style={styles.stepper}>
+        <TouchableOpacity
+          style={[styles.stepButton, { borderColor: theme.border }]}
+          onPress={() => stepShift(-1)}
+          accessibilityRole="button"
+          accessibilityLabel="One day earlier">
+          <Ionicons name="remove" size={22} color={theme.text} />
+        </TouchableOpacity>
+        <Text style={[styles.stepValue, { color: theme.text }]}>
+          {formatDayShift(shiftDays)}
+        </Text>
+        <TouchableOpacity
+          style={[styles.stepButton, { borderColor: theme.border }]}
+          onPress={() => stepShift(1)}
+          accessibilityRole="button"
+          accessibilityLabel="One day later">
+          <Ionicons name="add" size={22} color={theme.text} />
+        </TouchableOpacity>
+      </View>
+      <View style={styles.chips}>
+        {SHIFT_PRESETS.map(days => {
+          const selected = days === shiftDays;
+          return (
+            <TouchableOpacity
+              key={days}
+              style={[
+                styles.chip,
+                { borderColor: theme.border },
+                selected && {
+                  backgroundColor: theme.primary,
+                  borderColor: theme.primary,
+                },
+              ]}
+              onPress={() => setShiftDays(days)}
+              accessibilityRole="button"
+              accessibilityState={{ selected }}>
+              <Text
+                style={[
+                  styles.chipText,
+                  { color: selected ? COLORS.white : theme.text },
+                ]}>
+                {formatDayShift(days)}
+              </Text>
+            </TouchableOpacity>
+          );
+        })}
+      </View>
+      <View style={styles.modalActions}>
+        <TouchableOpacity
+          style={[styles.modalButton, { borderColor: theme.border }]}
+          onPress={() => setPicker(null)}>
+          <Text style={[styles.modalButtonText, { color: theme.text }]}>
+            Cancel
+          </Text>
+        </TouchableOpacity>
+        <TouchableOpacity
+          style={[
+            styles.modalButton,
+            styles.primaryButton,
+            { backgroundColor: theme.primary },
+          ]}
+          onPress={() => {
+            setPicker(null);
+            onApply({ action: 'RESCHEDULE', shiftDays });
+          }}>
+          <Text style={[styles.modalButtonText, { color: COLORS.white }]}>
+            Move
+          </Text>
+        </TouchableOpacity>
+      </View>
+    </>
+  );
+
+  const renderCoursePicker = () => (
+    <>
+      <Text style={[styles.modalTitle, { color: theme.text }]}>
+        Move {taskCount} to
+      </Text>
+      <ScrollView style={styles.courseList}>
+        {courseOptions.length === 0 ? (
+          <Text style={[styles.emptyText, { color: theme.textSecondary }]}>
+            There are no other courses to move to.
+          </Text>
+        ) : (
+          courseOptions.map(course => (
+            <TouchableOpacity
+              key={course.id}
+              style={[styles.courseRow, { borderBottomColor: theme.border }]}
+              onPress={() => {
+                setPicker(null);
+                onApply({
+                  action: 'MOVE_COURSE',
+                  courseId: course.id,
+                  courseName: course.courseName,
+                });
+              }}
+              accessibilityRole="button">
+              <Text style={[styles.courseName, { color: theme.text }]}>
+                {course.courseName}
+              </Text>
+              {course.courseCode ? (
+                <Text
+                  style={[styles.courseCode, { color: theme.textSecondary }]}>
+                  {course.courseCode}
+                </Text>
+              ) : null}
+            </TouchableOpacity>
+          ))
+        )}
+      </ScrollView>
+      <TouchableOpacity
+        style={[
+          styles.modalButton,
+          styles.fullWidthButton,
+          { borderColor: theme.border },
+        ]}
+        onPress={() => setPicker(null)}>
+        <Text style={[styles.modalButtonText, { color: theme.text }]}>
+          Cancel
+        </Text>
+      </TouchableOpacity>
+    </>
+  );
+
+  return (
+    <View
+      style={[
+        styles.bar,
+        {
+          backgroundColor: theme.card,
+          borderTopColor: theme.border,
+          paddingBottom: 12 + bottomInset,
+        },
+      ]}>
+      <View style={styles.header}>
+        <Text style={[styles.countText, { color: theme.text }]}>
+          {count} selected
+        </Text>
+        {isApplying ? (
+          <ActivityIndicator size="small" color={theme.primary} />
+        ) : (
+          <TouchableOpacity
+            onPress={onCancel}
+            accessibilityRole="button"
+            accessibilityLabel="Cancel selection">
+            <Ionicons name="close" size={22} color={theme.textSecondary} />
+          </TouchableOpacity>
+        )}
+      </View>
+
+      <View style={styles.actions}>
+        {BAR_ACTIONS.map(action => (
+          <TouchableOpacity
+            key={action.key}
+            style={styles.action}
+            onPress={() => handleAction(action.key)}
+            disabled={isApplying}
+            accessibilityRole="button"
+            accessibilityLabel={`${action.label} ${taskCount}`}>
+            <Ionicons
+              name={action.icon}
+              size={22}
+              color={
+                action.key === 'SOFT_DELETE' ? theme.destructive : theme.primary
+              }
+            />
+            <Text style={[styles.actionText, { color: theme.text }]}>
+              {action.label}
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+
+      <Modal
+        visible={picker !== null}
+        transparent
+        animationType="fade"
+        onRequestClose={() => setPicker(null)}>
+        <View style={styles.overlay}>
+          <View style={[styles.modal, { backgroundColor: theme.card }]}>
+            {picker === 'RESCHEDULE'
+              ? renderReschedulePicker()
+              : renderCoursePicker()}
+          </View>
+        </View>
+      </Modal>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  bar: {
+    borderTopWidth: 1,
+    paddingHorizontal: 16,
+    paddingTop: 12,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginBottom: 8,
+  },
+  countText: {
+    fontSize: 16,
+    fontWeight: FONT_WEIGHTS.semibold,
+  },
+  actions: {
+    flexDirection: 'row',
+    justifyContent: 'space-around',
+  },
+  action: {
+    alignItems: 'center',
+    gap: 4,
+    paddingVertical: 4,
+    minWidth: 64,
+  },
+  actionText: {
+    fontSize: 12,
+    fontWeight: FONT_WEIGHTS.medium,
+  },
+  overlay: {
+    flex: 1,
+    backgroundColor: COLORS.overlay,
+    justifyContent: 'center',
+    padding: 24,
+  },
+  modal: {
+    borderRadius: 16,
+    padding: 20,
+    gap: 12,
+  },
+  modalTitle: {
+    fontSize: 18,
+    fontWeight: FONT_WEIGHTS.bold,
+  },
+  stepper: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  stepButton: {
+    width: 44,
+    height: 44,
+    borderRadius: 22,
+    borderWidth: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  stepValue: {
+    fontSize: 17,
+    fontWeight: FONT_WEIGHTS.semibold,
+  },
+  chips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  chip: {
+    borderWidth: 1,
+    borderRadius: 16,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+  },
+  chipText: {
+    fontSize: 14,
+  },
+  courseList: {
+    maxHeight: 320,
+  },
+  courseRow: {
+    paddingVertical: 12,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+  },
+  courseName: {
+    fontSize: 16,
+  },
+  courseCode: {
+    fontSize: 13,
+    marginTop: 2,
+  },
+  emptyText: {
+    fontSize: 15,
+    paddingVertical: 12,
+  },
+  modalActions: {
+    flexDirection: 'row',
+    gap: 12,
+    marginTop: 4,
+  },
+  modalButton: {
+    flex: 1,
+    height: 44,
+    borderRadius: 10,
+    borderWidth: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  fullWidthButton: {
+    flex: 0,
+  },
+  primaryButton: {
+    borderWidth: 0,
+  },
+  modalButtonText: {
+    fontSize: 16,
+    fontWeight: FONT_WEIGHTS.semibold,
+  },
+});
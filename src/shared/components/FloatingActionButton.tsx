@@ -9,7 +9,7 @@ import {
 import Ionicons from '@expo/vector-icons/Ionicons';
 import { COLORS } from '@/constants/theme';
 
-interface Action {
+export interface FloatingAction {
   label: string;
   icon: keyof typeof Ionicons.glyphMap;
   onPress: () => void;
@@ -19,7 +19,7 @@ interface Action {
 }
 
 interface FloatingActionButtonProps {
-  actions: Action[];
+  actions: FloatingAction[];
   onStateChange?: (state: {
     isOpen: boolean;
     animation: Animated.Value;
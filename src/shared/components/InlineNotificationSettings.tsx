@@ -166,6 +166,18 @@ export const InlineNotificationSettings: React.FC = () => {
             thumbColor="#FFFFFF"
           />
         </View>
+        <View style={styles.toggleRow}>
+          <Text style={[styles.toggleLabel, { color: theme.text }]}>
+            Weekly Reports
+          </Text>
+          <Switch
+            value={preferences.weeklyReports}
+            onValueChange={value => handleToggle('weeklyReports', value)}
+            disabled={saving || !preferences.enabled}
+            trackColor={{ false: '#D1D5DB', true: COLORS.primary }}
+            thumbColor="#FFFFFF"
+          />
+        </View>
         <View style={styles.toggleRow}>
           <Text style={[styles.toggleLabel, { color: theme.text }]}>
             Marketing
@@ -6,6 +6,7 @@ import {
   ScrollView,
   TouchableOpacity,
   Switch,
+  Alert,
 } from 'react-native';
 import { Ionicons } from '@expo/vector-icons';
 import { useTheme } from '@/contexts/ThemeContext';
@@ -18,14 +19,21 @@ import {
   formatTimeOnly,
   formatDateOnly,
   formatDuration,
-  formatRecurrenceLabel,
 } from '@/utils/taskDetailHelpers';
 import { COLORS, FONT_SIZES, FONT_WEIGHTS, SPACING } from '@/constants/theme';
 import { Lecture } from '@/types';
+import { LectureOccurrenceScope } from '@/types/api';
+import {
+  describeLectureRecurrence,
+  parseLectureRecurrence,
+} from '@/utils/lectureRecurrence';
 
 interface LectureDetailSheetProps {
   lecture: Lecture & {
     course: { id: string; courseName: string; courseCode?: string } | null;
+    /** Set when the sheet shows one occurrence of a recurring lecture */
+    occurrenceStart?: string | null;
+    isModified?: boolean;
   };
   reminders: Array<{ id: string; label: string }>;
   isTemplate?: boolean;
@@ -34,6 +42,10 @@ interface LectureDetailSheetProps {
   onClose?: () => void;
   onDelete?: () => void;
   onToggleTemplate?: (value: boolean) => void;
+  /** Recurring lectures: edit this occurrence or all following ones */
+  onEditOccurrence?: (scope: LectureOccurrenceScope) => void;
+  /** Recurring lectures: cancel this occurrence or all following ones */
+  onCancelOccurrence?: (scope: LectureOccurrenceScope) => void;
 }
 
 export const LectureDetailSheet: React.FC<LectureDetailSheetProps> = ({
@@ -45,6 +57,8 @@ export const LectureDetailSheet: React.FC<LectureDetailSheetProps> = ({
   onClose,
   onDelete,
   onToggleTemplate,
+  onEditOccurrence,
+  onCancelOccurrence,
 }) => {
   const { theme } = useTheme();
   const insets = useSafeAreaInsets();
@@ -70,10 +84,56 @@ export const LectureDetailSheet: React.FC<LectureDetailSheetProps> = ({
         ? formatDateOnly(lectureDate)
         : '';
 
-  const recurrenceLabel = formatRecurrenceLabel(
-    lecture.isRecurring || false,
-    lecture.recurringPattern,
+  const recurrence = describeLectureRecurrence(
+    parseLectureRecurrence(lecture.recurringPattern, lecture.isRecurring),
   );
+  const isOccurrence = lecture.isRecurring && !!lecture.occurrenceStart;
+
+  const handleEdit = () => {
+    if (!isOccurrence || !onEditOccurrence) {
+      onEdit();
+      return;
+    }
+
+    Alert.alert('Edit Recurring Lecture', undefined, [
+      { text: 'This event', onPress: () => onEditOccurrence('this') },
+      {
+        text: 'All future events',
+        onPress: () => onEditOccurrence('following'),
+      },
+      { text: 'Cancel', style: 'cancel' },
+    ]);
+  };
+
+  const handleDelete = () => {
+    if (!isOccurrence || !onCancelOccurrence) {
+      onDelete?.();
+      return;
+    }
+
+    Alert.alert(
+      'Cancel Recurring Lecture',
+      'Cancelled lectures are removed from your calendar.',
+      [
+        { text: 'This event', onPress: () => onCancelOccurrence('this') },
+        {
+          text: 'All future events',
+          style: 'destructive',
+          onPress: () => onCancelOccurrence('following'),
+        },
+        ...(onDelete
+          ? [
+              {
+                text: 'Delete entire series',
+                style: 'destructive' as const,
+                onPress: onDelete,
+              },
+            ]
+          : []),
+        { text: 'Keep', style: 'cancel' },
+      ],
+    );
+  };
 
   const handleToggleTemplate = (value: boolean) => {
     setTemplateEnabled(value);
@@ -91,10 +151,10 @@ export const LectureDetailSheet: React.FC<LectureDetailSheetProps> = ({
         courseName={lecture.course?.courseName || 'Unknown Course'}
         courseCode={lecture.course?.courseCode}
         showCloseButton={false}
-        showDeleteButton={!!onDelete}
-        onEdit={onEdit}
+        showDeleteButton={!!onDelete || (isOccurrence && !!onCancelOccurrence)}
+        onEdit={handleEdit}
         onClose={onClose}
-        onDelete={onDelete}
+        onDelete={handleDelete}
       />
 
       {/* Scrollable Content */}
@@ -148,13 +208,13 @@ export const LectureDetailSheet: React.FC<LectureDetailSheetProps> = ({
             <DetailRow
               icon="repeat-outline"
               iconColor={COLORS.primary}
-              title={recurrenceLabel}
+              title={recurrence.title}
               subtitle={
-                lecture.recurringPattern === 'weekly'
-                  ? 'On Mondays'
-                  : lecture.recurringPattern === 'bi-weekly'
-                    ? 'Every other week'
-                    : ''
+                lecture.isModified
+                  ? [recurrence.detail, 'This event was changed']
+                      .filter(Boolean)
+                      .join(' · ')
+                  : recurrence.detail
               }
             />
           )}
@@ -9,11 +9,12 @@ import {
   Alert,
   Switch,
   Text,
+  TextInput,
 } from 'react-native';
 import DateTimePicker from '@react-native-community/datetimepicker';
 import { useNavigation } from '@react-navigation/native';
 import { StackNavigationProp } from '@react-navigation/stack';
-import { RootStackParamList } from '@/types';
+import { Course, RootStackParamList, TaskPriority } from '@/types';
 import { useAuth } from '@/contexts/AuthContext';
 import { useNetwork } from '@/contexts/NetworkContext';
 import { Button } from './Button';
@@ -33,15 +34,30 @@ import {
 } from '@/features/templates/utils/templateUtils';
 import { useCourseSelector } from '@/shared/hooks/task-forms';
 import { useTaskTemplate } from '@/shared/hooks/task-forms';
-import { CourseModal } from '@/shared/components/task-forms';
+import {
+  CourseModal,
+  TaskPriorityTagsSection,
+} from '@/shared/components/task-forms';
+import { DEFAULT_TASK_PRIORITY } from '@/utils/taskTags';
+import {
+  LectureRecurrence,
+  buildRecurringPattern,
+} from '@/utils/lectureRecurrence';
+import { QuickAddTaskType, parseQuickAdd } from '@/utils/quickAddParser';
 import {
   QuickAddModalHeader,
   QuickAddTaskTypeSelector,
   QuickAddFormFields,
   QuickAddInfoBox,
+  QuickAddParsedChips,
 } from './QuickAddModal/components';
 
-type TaskType = 'assignment' | 'lecture' | 'study_session';
+type TaskType = QuickAddTaskType;
+
+// Fields the user changed by hand, which further typing leaves alone
+type EditedField = 'taskType' | 'title' | 'course' | 'dateTime';
+
+const TITLE_MAX_LENGTH = 35;
 
 interface QuickAddModalProps {
   isVisible: boolean;
@@ -67,8 +83,15 @@ export const QuickAddModal: React.FC<QuickAddModalProps> = ({
   // Form state
   const [taskType, setTaskType] = useState<TaskType>('assignment');
   const [title, setTitle] = useState('');
-  const [selectedCourse, setSelectedCourse] = useState<any>(null);
+  const [selectedCourse, setSelectedCourse] = useState<Course | null>(null);
   const [dateTime, setDateTime] = useState<Date>(new Date());
+  const [priority, setPriority] = useState<TaskPriority>(DEFAULT_TASK_PRIORITY);
+  const [tagIds, setTagIds] = useState<string[]>([]);
+  const [quickText, setQuickText] = useState('');
+  const [endTime, setEndTime] = useState<Date | null>(null);
+  const [recurrence, setRecurrence] = useState<LectureRecurrence | null>(null);
+  const [venue, setVenue] = useState('');
+  const [editedFields, setEditedFields] = useState<EditedField[]>([]);
   const [showDatePicker, setShowDatePicker] = useState(false);
   const [showTimePicker, setShowTimePicker] = useState(false);
   const [showCourseModal, setShowCourseModal] = useState(false);
@@ -135,6 +158,13 @@ export const QuickAddModal: React.FC<QuickAddModalProps> = ({
       setTitle('');
       setSelectedCourse(null);
       setDateTime(new Date());
+      setPriority(DEFAULT_TASK_PRIORITY);
+      setTagIds([]);
+      setQuickText('');
+      setEndTime(null);
+      setRecurrence(null);
+      setVenue('');
+      setEditedFields([]);
       setSaveAsTemplate(false);
       setShowDatePicker(false);
       setShowTimePicker(false);
@@ -142,13 +172,68 @@ export const QuickAddModal: React.FC<QuickAddModalProps> = ({
     }
   }, [isVisible]);
 
+  const markEdited = (field: EditedField) =>
+    setEditedFields(fields =>
+      fields.includes(field) ? fields : [...fields, field],
+    );
+
+  // Re-read the quick add text on every change; the parser is on-device
+  const handleQuickTextChange = (text: string) => {
+    setQuickText(text);
+    const parsed = parseQuickAdd(text, courses, new Date(), user?.timezone);
+
+    if (parsed.taskType && !editedFields.includes('taskType')) {
+      setTaskType(parsed.taskType);
+    }
+    if (!editedFields.includes('title')) {
+      setTitle(parsed.title.slice(0, TITLE_MAX_LENGTH));
+    }
+    if (!editedFields.includes('course')) {
+      setSelectedCourse(parsed.course ?? null);
+    }
+    if (!editedFields.includes('dateTime')) {
+      setDateTime(parsed.dateTime ?? new Date());
+      setEndTime(parsed.endTime ?? null);
+    }
+    setRecurrence(parsed.recurrence ?? null);
+    setVenue(parsed.venue ?? '');
+  };
+
+  const handleTaskTypeChange = (type: TaskType) => {
+    markEdited('taskType');
+    setTaskType(type);
+  };
+
+  const handleTitleChange = (text: string) => {
+    markEdited('title');
+    setTitle(text);
+  };
+
+  const handleCourseSelect = (course: Course) => {
+    markEdited('course');
+    setSelectedCourse(course);
+  };
+
+  // Moves the end time along with the start, keeping a parsed range's length
+  const updateDateTime = (newDateTime: Date) => {
+    markEdited('dateTime');
+    if (endTime) {
+      setEndTime(
+        new Date(
+          newDateTime.getTime() + (endTime.getTime() - dateTime.getTime()),
+        ),
+      );
+    }
+    setDateTime(newDateTime);
+  };
+
   const handleDateChange = (event: any, selectedDate?: Date) => {
     setShowDatePicker(Platform.OS === 'ios');
     if (selectedDate) {
       const newDateTime = new Date(selectedDate);
       newDateTime.setHours(dateTime.getHours());
       newDateTime.setMinutes(dateTime.getMinutes());
-      setDateTime(newDateTime);
+      updateDateTime(newDateTime);
     }
   };
 
@@ -158,10 +243,21 @@ export const QuickAddModal: React.FC<QuickAddModalProps> = ({
       const newDateTime = new Date(dateTime);
       newDateTime.setHours(selectedTime.getHours());
       newDateTime.setMinutes(selectedTime.getMinutes());
-      setDateTime(newDateTime);
+      updateDateTime(newDateTime);
     }
   };
 
+  const lectureEndTime = () => {
+    if (endTime && endTime > dateTime) return endTime;
+    const defaultEnd = new Date(dateTime);
+    defaultEnd.setHours(defaultEnd.getHours() + 1);
+    return defaultEnd;
+  };
+
+  const recurringPattern = recurrence
+    ? buildRecurringPattern(recurrence, dateTime)
+    : null;
+
   const handleTemplateSelect = (template: any) => {
     baseHandleTemplateSelect(template);
     closeTemplateBrowser();
@@ -190,14 +286,12 @@ export const QuickAddModal: React.FC<QuickAddModalProps> = ({
             'assignment',
           );
         } else if (taskType === 'lecture') {
-          const endTime = new Date(dateTime);
-          endTime.setHours(endTime.getHours() + 1);
           await savePendingTask(
             {
               ...base,
               startTime: dateTime,
-              endTime,
-              recurrence: 'none',
+              endTime: lectureEndTime(),
+              recurrence: recurringPattern ?? 'none',
               reminders: [30],
             },
             'lecture',
@@ -250,6 +344,8 @@ export const QuickAddModal: React.FC<QuickAddModalProps> = ({
             description: string;
             due_date: string;
             reminders: number[];
+            priority: TaskPriority;
+            tag_ids: string[];
           }
         | {
             course_id: string;
@@ -259,7 +355,10 @@ export const QuickAddModal: React.FC<QuickAddModalProps> = ({
             end_time: string;
             is_recurring: boolean;
             recurring_pattern: string;
+            venue?: string;
             reminders: number[];
+            priority: TaskPriority;
+            tag_ids: string[];
           }
         | {
             course_id: string;
@@ -268,6 +367,8 @@ export const QuickAddModal: React.FC<QuickAddModalProps> = ({
             session_date: string;
             has_spaced_repetition: boolean;
             reminders: number[];
+            priority: TaskPriority;
+            tag_ids: string[];
           };
 
       let taskData: TaskData;
@@ -280,22 +381,25 @@ export const QuickAddModal: React.FC<QuickAddModalProps> = ({
             description: '',
             due_date: dateTime.toISOString(),
             reminders: [120],
+            priority,
+            tag_ids: tagIds,
           };
           await api.mutations.assignments.create(taskData, isOnline, user!.id);
           break;
 
         case 'lecture':
-          const endTime = new Date(dateTime);
-          endTime.setHours(endTime.getHours() + 1);
           taskData = {
             course_id: selectedCourse!.id,
             lecture_name: title.trim(),
             description: '',
             start_time: dateTime.toISOString(),
-            end_time: endTime.toISOString(),
-            is_recurring: false,
-            recurring_pattern: 'none',
+            end_time: lectureEndTime().toISOString(),
+            is_recurring: recurringPattern !== null,
+            recurring_pattern: recurringPattern ?? 'none',
+            ...(venue ? { venue } : {}),
             reminders: [30],
+            priority,
+            tag_ids: tagIds,
           };
           await api.mutations.lectures.create(taskData, isOnline, user!.id);
           break;
@@ -308,6 +412,8 @@ export const QuickAddModal: React.FC<QuickAddModalProps> = ({
             session_date: dateTime.toISOString(),
             has_spaced_repetition: false,
             reminders: [15],
+            priority,
+            tag_ids: tagIds,
           };
           await api.mutations.studySessions.create(
             taskData,
@@ -368,6 +474,8 @@ export const QuickAddModal: React.FC<QuickAddModalProps> = ({
       course: selectedCourse,
       title,
       dateTime,
+      priority,
+      tagIds,
     };
 
     onClose();
@@ -405,16 +513,44 @@ export const QuickAddModal: React.FC<QuickAddModalProps> = ({
           <ScrollView
             style={styles.scrollView}
             contentContainerStyle={styles.content}>
+            <Text style={styles.label}>Quick Add</Text>
+            <TextInput
+              style={styles.quickInput}
+              value={quickText}
+              onChangeText={handleQuickTextChange}
+              placeholder="e.g. CS101 problem set 3 due Fri 5pm"
+              placeholderTextColor={COLORS.textSecondary}
+              autoFocus
+              autoCorrect={false}
+              returnKeyType="done"
+            />
+            {quickText.trim().length > 0 && (
+              <QuickAddParsedChips
+                taskType={taskType}
+                onTaskTypeChange={handleTaskTypeChange}
+                course={selectedCourse}
+                onOpenCourseModal={() => setShowCourseModal(true)}
+                dateTime={dateTime}
+                endTime={taskType === 'lecture' ? endTime : null}
+                onOpenDatePicker={() => setShowDatePicker(true)}
+                onOpenTimePicker={() => setShowTimePicker(true)}
+                recurrence={recurrence}
+                onClearRecurrence={() => setRecurrence(null)}
+                venue={venue}
+                onClearVenue={() => setVenue('')}
+              />
+            )}
+
             <Text style={styles.label}>Task Type *</Text>
             <QuickAddTaskTypeSelector
               taskType={taskType}
-              onTaskTypeChange={setTaskType}
+              onTaskTypeChange={handleTaskTypeChange}
             />
 
             <QuickAddFormFields
               taskType={taskType}
               title={title}
-              onTitleChange={setTitle}
+              onTitleChange={handleTitleChange}
               selectedCourse={selectedCourse}
               onOpenCourseModal={() => setShowCourseModal(true)}
               isLoadingCourses={isLoadingCourses}
@@ -442,6 +578,13 @@ export const QuickAddModal: React.FC<QuickAddModalProps> = ({
               />
             )}
 
+            <TaskPriorityTagsSection
+              priority={priority}
+              onPriorityChange={setPriority}
+              tagIds={tagIds}
+              onTagIdsChange={setTagIds}
+            />
+
             <QuickAddInfoBox />
 
             {/* Save as Template Toggle */}
@@ -484,7 +627,7 @@ export const QuickAddModal: React.FC<QuickAddModalProps> = ({
           visible={showCourseModal}
           courses={courses}
           selectedCourse={selectedCourse}
-          onSelect={setSelectedCourse}
+          onSelect={handleCourseSelect}
           onClose={() => setShowCourseModal(false)}
         />
 
@@ -535,6 +678,15 @@ const styles = StyleSheet.create({
     marginBottom: SPACING.xs,
     marginTop: SPACING.sm,
   },
+  quickInput: {
+    borderWidth: 1,
+    borderColor: COLORS.border,
+    borderRadius: 12,
+    padding: SPACING.md,
+    fontSize: FONT_SIZES.md,
+    color: COLORS.text,
+    backgroundColor: COLORS.white,
+  },
   footer: {
     flexDirection: 'row',
     padding: SPACING.lg,
@@ -69,7 +69,6 @@ export const QuickAddFormFields: React.FC<QuickAddFormFieldsProps> = ({
         onChangeText={onTitleChange}
         placeholder={placeholder}
         placeholderTextColor={theme.isDark ? '#6B7280' : '#9CA3AF'}
-        autoFocus
         maxLength={35}
       />
       <Text
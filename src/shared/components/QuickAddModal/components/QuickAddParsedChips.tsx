@@ -0,0 +1,175 @@
+import React from 'react';
+import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { format } from 'date-fns';
+import { useTheme } from '@/contexts/ThemeContext';
+import { Course } from '@/types';
+import { COLORS, FONT_SIZES, FONT_WEIGHTS, SPACING } from '@/constants/theme';
+import {
+  LectureRecurrence,
+  describeLectureRecurrence,
+} from '@/utils/lectureRecurrence';
+import { QuickAddTaskType } from '@/utils/quickAddParser';
+
+type IconName = keyof typeof Ionicons.glyphMap;
+
+const TYPE_LABELS: Record<QuickAddTaskType, string> = {
+  assignment: 'Assignment',
+  lecture: 'Lecture',
+  study_session: 'Study',
+};
+
+const TYPE_ICONS: Record<QuickAddTaskType, IconName> = {
+  assignment: 'document-text-outline',
+  lecture: 'school-outline',
+  study_session: 'book-outline',
+};
+
+function recurrenceLabel(recurrence: LectureRecurrence): string {
+  const { title, detail } = describeLectureRecurrence(recurrence);
+  return detail ? `${title} · ${detail}` : title;
+}
+
+const TYPE_ORDER: QuickAddTaskType[] = [
+  'assignment',
+  'lecture',
+  'study_session',
+];
+
+interface QuickAddParsedChipsProps {
+  taskType: QuickAddTaskType;
+  onTaskTypeChange: (type: QuickAddTaskType) => void;
+  course: Course | null;
+  onOpenCourseModal: () => void;
+  dateTime: Date;
+  endTime: Date | null;
+  onOpenDatePicker: () => void;
+  onOpenTimePicker: () => void;
+  recurrence: LectureRecurrence | null;
+  onClearRecurrence: () => void;
+  venue: string;
+  onClearVenue: () => void;
+}
+
+/**
+ * What the quick add text was read as. Tapping a chip edits that field:
+ * the type chip steps through the task types, course and date/time chips
+ * open their pickers, and repeat/venue chips are removed.
+ */
+export const QuickAddParsedChips: React.FC<QuickAddParsedChipsProps> = ({
+  taskType,
+  onTaskTypeChange,
+  course,
+  onOpenCourseModal,
+  dateTime,
+  endTime,
+  onOpenDatePicker,
+  onOpenTimePicker,
+  recurrence,
+  onClearRecurrence,
+  venue,
+  onClearVenue,
+}) => {
+  const { isDark } = useTheme();
+
+  const chipBackground = isDark ? '#1C252E' : '#F9FAFB';
+  const chipBorder = isDark ? '#3B4754' : '#E5E7EB';
+  const chipText = isDark ? '#FFFFFF' : '#111418';
+
+  const renderChip = (
+    key: string,
+    icon: IconName,
+    label: string,
+    onPress: () => void,
+    options: { removable?: boolean; missing?: boolean } = {},
+  ) => {
+    const color = options.missing ? COLORS.warning : chipText;
+    return (
+      <TouchableOpacity
+        key={key}
+        style={[
+          styles.chip,
+          {
+            backgroundColor: chipBackground,
+            borderColor: options.missing ? COLORS.warning : chipBorder,
+          },
+        ]}
+        onPress={onPress}
+        accessibilityRole="button"
+        accessibilityLabel={
+          options.removable ? `Remove ${label}` : `Change ${label}`
+        }>
+        <Ionicons name={icon} size={14} color={color} />
+        <Text style={[styles.chipText, { color }]}>{label}</Text>
+        {options.removable && (
+          <Ionicons name="close" size={14} color={chipText} />
+        )}
+      </TouchableOpacity>
+    );
+  };
+
+  const nextType =
+    TYPE_ORDER[(TYPE_ORDER.indexOf(taskType) + 1) % TYPE_ORDER.length];
+  const timeLabel = endTime
+    ? `${format(dateTime, 'h:mm a')} – ${format(endTime, 'h:mm a')}`
+    : format(dateTime, 'h:mm a');
+
+  return (
+    <View style={styles.container}>
+      {renderChip('type', TYPE_ICONS[taskType], TYPE_LABELS[taskType], () =>
+        onTaskTypeChange(nextType),
+      )}
+      {renderChip(
+        'course',
+        'library-outline',
+        course ? course.courseCode || course.courseName : 'Pick a course',
+        onOpenCourseModal,
+        { missing: !course },
+      )}
+      {renderChip(
+        'date',
+        'calendar-outline',
+        format(dateTime, 'EEE d MMM'),
+        onOpenDatePicker,
+      )}
+      {renderChip('time', 'time-outline', timeLabel, onOpenTimePicker)}
+      {taskType === 'lecture' &&
+        recurrence &&
+        renderChip(
+          'recurrence',
+          'repeat-outline',
+          recurrenceLabel(recurrence),
+          onClearRecurrence,
+          { removable: true },
+        )}
+      {taskType === 'lecture' &&
+        venue.length > 0 &&
+        renderChip('venue', 'location-outline', venue, onClearVenue, {
+          removable: true,
+        })}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: SPACING.sm,
+    marginTop: SPACING.sm,
+    marginBottom: SPACING.sm,
+  },
+  chip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: SPACING.xs,
+    paddingVertical: SPACING.xs,
+    paddingHorizontal: SPACING.md,
+    borderRadius: 16,
+    borderWidth: 1,
+  },
+  chipText: {
+    fontSize: FONT_SIZES.sm,
+    fontWeight: FONT_WEIGHTS.medium,
+  },
+});
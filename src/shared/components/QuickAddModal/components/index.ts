@@ -2,3 +2,4 @@ export { QuickAddModalHeader } from './QuickAddModalHeader';
 export { QuickAddTaskTypeSelector } from './QuickAddTaskTypeSelector';
 export { QuickAddFormFields } from './QuickAddFormFields';
 export { QuickAddInfoBox } from './QuickAddInfoBox';
+export { QuickAddParsedChips } from './QuickAddParsedChips';
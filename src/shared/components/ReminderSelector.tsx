@@ -8,6 +8,7 @@ import {
   BORDER_RADIUS,
   COMPONENTS,
 } from '@/constants/theme';
+import { t } from '@/i18n';
 
 // Define the available options
 const REMINDER_OPTIONS = [
@@ -126,10 +127,9 @@ const ReminderSelector: React.FC<ReminderSelectorProps> = ({
           onPress={() => setModalVisible(false)}>
           <View style={styles.modalContent}>
             <View style={styles.modalHeader}>
-              <Text style={styles.modalTitle}>Select Reminders</Text>
+              <Text style={styles.modalTitle}>{t('reminders.select')}</Text>
               <Text style={styles.modalSubtitle}>
-                Choose up to {maxReminders} reminder
-                {maxReminders > 1 ? 's' : ''}
+                {t('reminders.chooseUpTo', { count: maxReminders })}
               </Text>
             </View>
 
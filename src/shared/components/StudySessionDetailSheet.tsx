@@ -1,5 +1,11 @@
 import React from 'react';
-import { View, Text, StyleSheet, ScrollView } from 'react-native';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+} from 'react-native';
 import { Ionicons } from '@expo/vector-icons';
 import { useTheme } from '@/contexts/ThemeContext';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
@@ -19,6 +25,7 @@ interface StudySessionDetailSheetProps {
   onComplete: () => void;
   onClose?: () => void;
   onDelete?: () => void;
+  onStartFocus?: () => void;
 }
 
 export const StudySessionDetailSheet: React.FC<
@@ -31,6 +38,7 @@ export const StudySessionDetailSheet: React.FC<
   onComplete,
   onClose,
   onDelete,
+  onStartFocus,
 }) => {
   const { theme } = useTheme();
   const insets = useSafeAreaInsets();
@@ -130,6 +138,47 @@ export const StudySessionDetailSheet: React.FC<
           </View>
         )}
 
+        {/* Focus Timer */}
+        {onStartFocus && (
+          <TouchableOpacity
+            style={[
+              styles.timingCard,
+              {
+                backgroundColor: theme.surface,
+                borderColor: theme.border,
+              },
+            ]}
+            onPress={onStartFocus}
+            accessibilityRole="button"
+            accessibilityLabel="Start focus timer">
+            <View
+              style={[
+                styles.timingIconContainer,
+                {
+                  backgroundColor: COLORS.primary + '1A',
+                },
+              ]}>
+              <Ionicons name="timer-outline" size={24} color={COLORS.primary} />
+            </View>
+            <View style={styles.timingContent}>
+              <Text
+                style={[styles.timingLabel, { color: theme.textSecondary }]}>
+                FOCUS TIMER
+              </Text>
+              <Text style={[styles.timingValue, { color: theme.text }]}>
+                {studySession.time_spent_minutes
+                  ? `${studySession.time_spent_minutes} min focused`
+                  : 'Start a focus session'}
+              </Text>
+            </View>
+            <Ionicons
+              name="chevron-forward"
+              size={18}
+              color={theme.textSecondary}
+            />
+          </TouchableOpacity>
+        )}
+
         {/* Notes Section */}
         {studySession.description && (
           <View style={styles.notesSection}>
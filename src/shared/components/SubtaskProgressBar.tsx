@@ -0,0 +1,70 @@
+/**
+ * SubtaskProgressBar Component
+ *
+ * How much of an assignment's checklist is done, as a bar and a
+ * "2 of 5 subtasks · 40%" caption. Renders nothing without subtasks.
+ */
+
+import React from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+import { AssignmentSubtask } from '@/types';
+import { COLORS, FONT_SIZES, FONT_WEIGHTS } from '@/constants/theme';
+import { formatSubtaskProgress, getSubtaskProgress } from '@/utils/subtasks';
+
+interface SubtaskProgressBarProps {
+  subtasks?: AssignmentSubtask[] | null;
+  textColor?: string;
+  trackColor?: string;
+}
+
+export const SubtaskProgressBar: React.FC<SubtaskProgressBarProps> = ({
+  subtasks,
+  textColor = COLORS.textSecondary,
+  trackColor = COLORS.border,
+}) => {
+  const progress = getSubtaskProgress(subtasks);
+  if (!progress) return null;
+
+  const label = formatSubtaskProgress(progress);
+  const isDone = progress.completed === progress.total;
+
+  return (
+    <View
+      style={styles.container}
+      accessibilityRole="progressbar"
+      accessibilityLabel={label}
+      accessibilityValue={{ min: 0, max: 100, now: progress.percent }}>
+      <View style={[styles.track, { backgroundColor: trackColor }]}>
+        <View
+          style={[
+            styles.fill,
+            {
+              width: `${progress.percent}%`,
+              backgroundColor: isDone ? COLORS.success : COLORS.primary,
+            },
+          ]}
+        />
+      </View>
+      <Text style={[styles.label, { color: textColor }]}>{label}</Text>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    gap: 6,
+  },
+  track: {
+    height: 6,
+    borderRadius: 3,
+    overflow: 'hidden',
+  },
+  fill: {
+    height: '100%',
+    borderRadius: 3,
+  },
+  label: {
+    fontSize: FONT_SIZES.xs,
+    fontWeight: FONT_WEIGHTS.medium,
+  },
+});
@@ -0,0 +1,260 @@
+/**
+ * SyncConflictsModal Component
+ *
+ * Lists offline edits that conflict with changes made on another device.
+ * Each conflicting field shows both values side by side; the user picks one
+ * per field and SyncManager sends the result.
+ */
+
+import React, { useEffect, useState } from 'react';
+import {
+  Modal,
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { syncManager } from '@/services/syncManager';
+import {
+  OfflineResourceType,
+  SyncConflict,
+  SyncConflictResolution,
+} from '@/types/offline';
+import { useTheme } from '@/contexts/ThemeContext';
+import { COLORS, FONT_WEIGHTS } from '@/constants/theme';
+
+interface SyncConflictsModalProps {
+  isVisible: boolean;
+  onClose: () => void;
+}
+
+const RESOURCE_LABELS: Record<OfflineResourceType, string> = {
+  course: 'Course',
+  assignment: 'Assignment',
+  lecture: 'Lecture',
+  study_session: 'Study session',
+};
+
+const ISO_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}T/;
+
+const formatFieldName = (field: string) => {
+  const words = field.replace(/_/g, ' ');
+  return words.charAt(0).toUpperCase() + words.slice(1);
+};
+
+const formatValue = (value: unknown): string => {
+  if (value === null || value === undefined || value === '') return '(empty)';
+  if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+  if (typeof value === 'string') {
+    return ISO_DATE_PATTERN.test(value)
+      ? new Date(value).toLocaleString()
+      : value;
+  }
+  return JSON.stringify(value);
+};
+
+const ConflictCard: React.FC<{ conflict: SyncConflict }> = ({ conflict }) => {
+  const { theme } = useTheme();
+  const [resolution, setResolution] = useState<SyncConflictResolution>(() =>
+    Object.fromEntries(conflict.fields.map(f => [f.field, 'server'])),
+  );
+  const [isSaving, setIsSaving] = useState(false);
+
+  const handleApply = async () => {
+    setIsSaving(true);
+    try {
+      await syncManager.resolveConflict(conflict.actionId, resolution);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <View style={[styles.card, { borderColor: theme.border }]}>
+      <Text style={[styles.cardTitle, { color: theme.text }]}>
+        {RESOURCE_LABELS[conflict.resourceType]} changed on another device
+      </Text>
+
+      {conflict.fields.map(({ field, localValue, serverValue }) => (
+        <View key={field} style={styles.field}>
+          <Text style={[styles.fieldName, { color: theme.textSecondary }]}>
+            {formatFieldName(field)}
+          </Text>
+          <View style={styles.choices}>
+            {(['local', 'server'] as const).map(side => {
+              const selected = resolution[field] === side;
+              return (
+                <TouchableOpacity
+                  key={side}
+                  style={[
+                    styles.choice,
+                    { borderColor: selected ? theme.accent : theme.border },
+                  ]}
+                  onPress={() =>
+                    setResolution(current => ({ ...current, [field]: side }))
+                  }
+                  accessibilityRole="radio"
+                  accessibilityState={{ selected }}>
+                  <Text
+                    style={[
+                      styles.choiceLabel,
+                      { color: theme.textSecondary },
+                    ]}>
+                    {side === 'local' ? 'This device' : 'Other device'}
+                  </Text>
+                  <Text style={[styles.choiceValue, { color: theme.text }]}>
+                    {formatValue(side === 'local' ? localValue : serverValue)}
+                  </Text>
+                </TouchableOpacity>
+              );
+            })}
+          </View>
+        </View>
+      ))}
+
+      <TouchableOpacity
+        style={[styles.applyButton, { backgroundColor: theme.accent }]}
+        onPress={handleApply}
+        disabled={isSaving}>
+        <Text style={styles.applyText}>
+          {isSaving ? 'Saving...' : 'Keep selected'}
+        </Text>
+      </TouchableOpacity>
+    </View>
+  );
+};
+
+export const SyncConflictsModal: React.FC<SyncConflictsModalProps> = ({
+  isVisible,
+  onClose,
+}) => {
+  const { theme } = useTheme();
+  const [conflicts, setConflicts] = useState<SyncConflict[]>(
+    syncManager.getConflicts(),
+  );
+
+  useEffect(() => {
+    return syncManager.subscribe(() => {
+      setConflicts(syncManager.getConflicts());
+    });
+  }, []);
+
+  // Close once everything has been resolved
+  useEffect(() => {
+    if (isVisible && conflicts.length === 0) {
+      onClose();
+    }
+  }, [isVisible, conflicts.length, onClose]);
+
+  return (
+    <Modal
+      transparent={true}
+      animationType="slide"
+      visible={isVisible}
+      onRequestClose={onClose}>
+      <View style={styles.overlay}>
+        <View style={[styles.sheet, { backgroundColor: theme.background }]}>
+          <View style={styles.header}>
+            <Text style={[styles.title, { color: theme.text }]}>
+              Resolve sync conflicts
+            </Text>
+            <TouchableOpacity
+              onPress={onClose}
+              accessibilityLabel="Close"
+              accessibilityRole="button">
+              <Ionicons name="close" size={24} color={theme.text} />
+            </TouchableOpacity>
+          </View>
+          <Text style={[styles.subtitle, { color: theme.textSecondary }]}>
+            These edits were made offline while the same fields changed
+            somewhere else. Choose which value to keep.
+          </Text>
+
+          <ScrollView contentContainerStyle={styles.list}>
+            {conflicts.map(conflict => (
+              <ConflictCard key={conflict.actionId} conflict={conflict} />
+            ))}
+          </ScrollView>
+        </View>
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'flex-end',
+  },
+  sheet: {
+    maxHeight: '85%',
+    borderTopLeftRadius: 20,
+    borderTopRightRadius: 20,
+    padding: 20,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: FONT_WEIGHTS.semibold,
+  },
+  subtitle: {
+    fontSize: 13,
+    marginTop: 6,
+    marginBottom: 12,
+  },
+  list: {
+    gap: 12,
+    paddingBottom: 20,
+  },
+  card: {
+    borderWidth: 1,
+    borderRadius: 12,
+    padding: 12,
+    gap: 12,
+  },
+  cardTitle: {
+    fontSize: 15,
+    fontWeight: FONT_WEIGHTS.semibold,
+  },
+  field: {
+    gap: 6,
+  },
+  fieldName: {
+    fontSize: 12,
+    fontWeight: FONT_WEIGHTS.medium,
+  },
+  choices: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  choice: {
+    flex: 1,
+    borderWidth: 2,
+    borderRadius: 8,
+    padding: 8,
+    gap: 4,
+  },
+  choiceLabel: {
+    fontSize: 11,
+  },
+  choiceValue: {
+    fontSize: 14,
+  },
+  applyButton: {
+    borderRadius: 8,
+    paddingVertical: 10,
+    alignItems: 'center',
+  },
+  applyText: {
+    color: COLORS.white,
+    fontSize: 14,
+    fontWeight: FONT_WEIGHTS.semibold,
+  },
+});
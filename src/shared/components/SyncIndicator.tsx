@@ -3,17 +3,27 @@
  *
  * Displays a syncing indicator when the SyncManager is actively processing
  * the offline queue. Subscribes to SyncManager state changes for real-time updates.
+ * Offline edits that conflict with another device's changes show a button
+ * that opens SyncConflictsModal.
  */
 
 import React, { useEffect, useState } from 'react';
-import { View, Text, StyleSheet, ActivityIndicator } from 'react-native';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ActivityIndicator,
+  TouchableOpacity,
+} from 'react-native';
 import { syncManager } from '@/services/syncManager';
 import { QueueStats } from '@/types/offline';
 import { useTheme } from '@/contexts/ThemeContext';
+import { SyncConflictsModal } from './SyncConflictsModal';
 
 export const SyncIndicator: React.FC = () => {
   const [stats, setStats] = useState<QueueStats>(syncManager.getQueueStats());
   const [isSyncing, setIsSyncing] = useState(syncManager.getIsSyncing());
+  const [showConflicts, setShowConflicts] = useState(false);
   const { theme } = useTheme();
 
   useEffect(() => {
@@ -34,23 +44,44 @@ export const SyncIndicator: React.FC = () => {
     };
   }, []);
 
-  // Don't show if nothing to sync
-  if (stats.pending === 0 && !isSyncing) {
+  // Don't show if nothing to sync or resolve
+  if (stats.pending === 0 && !isSyncing && stats.conflicts === 0) {
     return null;
   }
 
   return (
-    <View style={[styles.container, { backgroundColor: theme.accent }]}>
-      <ActivityIndicator size="small" color="#FFFFFF" />
-      <Text style={styles.text}>
-        {isSyncing
-          ? `🔄 Syncing ${stats.pending} ${stats.pending === 1 ? 'item' : 'items'}...`
-          : `⏳ ${stats.pending} ${stats.pending === 1 ? 'item' : 'items'} waiting to sync`}
-      </Text>
-      {stats.failed > 0 && (
-        <Text style={styles.failedText}>({stats.failed} failed)</Text>
+    <>
+      {(stats.pending > 0 || isSyncing) && (
+        <View style={[styles.container, { backgroundColor: theme.accent }]}>
+          <ActivityIndicator size="small" color="#FFFFFF" />
+          <Text style={styles.text}>
+            {isSyncing
+              ? `🔄 Syncing ${stats.pending} ${stats.pending === 1 ? 'item' : 'items'}...`
+              : `⏳ ${stats.pending} ${stats.pending === 1 ? 'item' : 'items'} waiting to sync`}
+          </Text>
+          {stats.failed > 0 && (
+            <Text style={styles.failedText}>({stats.failed} failed)</Text>
+          )}
+        </View>
       )}
-    </View>
+      {stats.conflicts > 0 && (
+        <TouchableOpacity
+          style={[styles.container, { backgroundColor: theme.warning }]}
+          onPress={() => setShowConflicts(true)}
+          accessibilityRole="button"
+          accessibilityLabel="Resolve sync conflicts">
+          <Text style={styles.text}>
+            ⚠️ {stats.conflicts}{' '}
+            {stats.conflicts === 1 ? 'edit conflicts' : 'edits conflict'} with
+            another device - tap to resolve
+          </Text>
+        </TouchableOpacity>
+      )}
+      <SyncConflictsModal
+        isVisible={showConflicts}
+        onClose={() => setShowConflicts(false)}
+      />
+    </>
   );
 };
 
@@ -64,11 +64,14 @@ const TaskDetailSheet: React.FC<TaskDetailSheetProps> = ({
 
         {/* Footer with action buttons */}
         <View style={styles.footer}>
-          <TouchableOpacity
-            style={styles.completeButton}
-            onPress={() => onComplete(task)}>
-            <Text style={styles.buttonText}>Mark as Complete</Text>
-          </TouchableOpacity>
+          {/* Exams are not completed, only taken */}
+          {task.type !== 'exam' && (
+            <TouchableOpacity
+              style={styles.completeButton}
+              onPress={() => onComplete(task)}>
+              <Text style={styles.buttonText}>Mark as Complete</Text>
+            </TouchableOpacity>
+          )}
           <TouchableOpacity
             style={styles.deleteButton}
             onPress={() => onDelete(task)}>
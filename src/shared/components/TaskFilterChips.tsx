@@ -0,0 +1,151 @@
+import React from 'react';
+import {
+  ScrollView,
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  StyleProp,
+  ViewStyle,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { useTheme } from '@/contexts/ThemeContext';
+import { useTags } from '@/hooks/useTags';
+import { FONT_SIZES, SPACING } from '@/constants/theme';
+import {
+  EMPTY_TASK_FILTER,
+  PRIORITY_COLORS,
+  PRIORITY_LABELS,
+  TASK_PRIORITIES,
+  TaskFilter,
+  isFilterActive,
+  toggleFilterValue,
+} from '@/utils/taskTags';
+
+interface TaskFilterChipsProps {
+  filter: TaskFilter;
+  onFilterChange: (filter: TaskFilter) => void;
+  style?: StyleProp<ViewStyle>;
+}
+
+/**
+ * A row of priority and tag chips for filtering a task list
+ */
+export const TaskFilterChips: React.FC<TaskFilterChipsProps> = ({
+  filter,
+  onFilterChange,
+  style,
+}) => {
+  const { isDark } = useTheme();
+  const { data: tags = [] } = useTags();
+
+  const chipBackground = isDark ? '#1C252E' : '#FFFFFF';
+  const chipBorder = isDark ? '#3B4754' : '#E5E7EB';
+  const chipText = isDark ? '#FFFFFF' : '#111418';
+
+  const renderChip = (
+    key: string,
+    label: string,
+    color: string,
+    isSelected: boolean,
+    onPress: () => void,
+  ) => (
+    <TouchableOpacity
+      key={key}
+      style={[
+        styles.chip,
+        {
+          backgroundColor: isSelected ? color + '1A' : chipBackground,
+          borderColor: isSelected ? color : chipBorder,
+        },
+      ]}
+      onPress={onPress}
+      accessibilityRole="button"
+      accessibilityLabel={`Filter by ${label}`}
+      accessibilityState={{ selected: isSelected }}>
+      <View style={[styles.dot, { backgroundColor: color }]} />
+      <Text
+        style={[
+          styles.chipText,
+          {
+            color: isSelected ? color : chipText,
+            fontWeight: isSelected ? '600' : '500',
+          },
+        ]}>
+        {label}
+      </Text>
+    </TouchableOpacity>
+  );
+
+  return (
+    <ScrollView
+      horizontal
+      showsHorizontalScrollIndicator={false}
+      style={style}
+      contentContainerStyle={styles.row}>
+      {isFilterActive(filter) && (
+        <TouchableOpacity
+          style={[
+            styles.chip,
+            { backgroundColor: chipBackground, borderColor: chipBorder },
+          ]}
+          onPress={() => onFilterChange(EMPTY_TASK_FILTER)}
+          accessibilityRole="button"
+          accessibilityLabel="Clear filters">
+          <Ionicons name="close" size={14} color={chipText} />
+          <Text style={[styles.chipText, { color: chipText }]}>Clear</Text>
+        </TouchableOpacity>
+      )}
+      {TASK_PRIORITIES.map(priority =>
+        renderChip(
+          priority,
+          PRIORITY_LABELS[priority],
+          PRIORITY_COLORS[priority],
+          filter.priorities.includes(priority),
+          () =>
+            onFilterChange({
+              ...filter,
+              priorities: toggleFilterValue(filter.priorities, priority),
+            }),
+        ),
+      )}
+      {tags.map(tag =>
+        renderChip(
+          tag.id,
+          tag.name,
+          tag.color,
+          filter.tagIds.includes(tag.id),
+          () =>
+            onFilterChange({
+              ...filter,
+              tagIds: toggleFilterValue(filter.tagIds, tag.id),
+            }),
+        ),
+      )}
+    </ScrollView>
+  );
+};
+
+const styles = StyleSheet.create({
+  row: {
+    flexDirection: 'row',
+    gap: SPACING.sm,
+  },
+  chip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: SPACING.xs,
+    paddingVertical: SPACING.xs,
+    paddingHorizontal: SPACING.md,
+    borderRadius: 16,
+    borderWidth: 1,
+  },
+  chipText: {
+    fontSize: FONT_SIZES.sm,
+  },
+  dot: {
+    width: 8,
+    height: 8,
+    borderRadius: 4,
+  },
+});
@@ -10,9 +10,12 @@ import {
 import { Ionicons } from '@expo/vector-icons';
 import { useTheme } from '@/contexts/ThemeContext';
 
+export type UndoToastIcon = keyof typeof Ionicons.glyphMap;
+
 interface UndoToastProps {
   visible: boolean;
   message: string;
+  icon?: UndoToastIcon;
   onUndo: () => void;
   onDismiss: () => void;
 }
@@ -20,6 +23,7 @@ interface UndoToastProps {
 export const UndoToast: React.FC<UndoToastProps> = ({
   visible,
   message,
+  icon = 'trash-outline',
   onUndo,
   onDismiss,
 }) => {
@@ -79,7 +83,7 @@ export const UndoToast: React.FC<UndoToastProps> = ({
       ]}>
       <View style={styles.contentContainer}>
         <Ionicons
-          name="trash-outline"
+          name={icon}
           size={20}
           color={theme.text}
           style={styles.icon}
@@ -40,6 +40,7 @@ export { PasswordStrengthIndicator } from './PasswordStrengthIndicator';
 export { SkeletonLoader } from './SkeletonLoader';
 export { OfflineBanner } from './OfflineBanner';
 export { SyncIndicator } from './SyncIndicator';
+export { SyncConflictsModal } from './SyncConflictsModal';
 export { UndoToast } from './UndoToast';
 export { ProgressHeader } from './ProgressHeader';
 export { QuickAddModal } from './QuickAddModal';
@@ -59,6 +60,8 @@ export { DetailSheetFooter } from './DetailSheetFooter';
 export { DetailRow } from './DetailRow';
 export { ReminderChipsList } from './ReminderChipsList';
 export { AssignmentDetailSheet } from './AssignmentDetailSheet';
+export { SubtaskProgressBar } from './SubtaskProgressBar';
+export { TaskFilterChips } from './TaskFilterChips';
 export { LectureDetailSheet } from './LectureDetailSheet';
 export { StudySessionDetailSheet } from './StudySessionDetailSheet';
 export { UsageLimitPaywall } from './UsageLimitPaywall';
@@ -66,3 +69,4 @@ export { UpgradeSuccessModal } from './UpgradeSuccessModal';
 
 // Task form components
 export * from './task-forms';
+export { BulkActionBar } from './BulkActionBar';
@@ -0,0 +1,312 @@
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  StyleSheet,
+  TouchableOpacity,
+  ActivityIndicator,
+  Alert,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { useTheme } from '@/contexts/ThemeContext';
+import { useTags, useSaveTag } from '@/hooks/useTags';
+import { COLORS, FONT_SIZES, FONT_WEIGHTS, SPACING } from '@/constants/theme';
+import { TaskPriority } from '@/types';
+import {
+  PRIORITY_COLORS,
+  PRIORITY_LABELS,
+  TAG_COLORS,
+  TASK_PRIORITIES,
+  toggleFilterValue,
+} from '@/utils/taskTags';
+
+interface TaskPriorityTagsSectionProps {
+  priority: TaskPriority;
+  onPriorityChange: (priority: TaskPriority) => void;
+  tagIds: string[];
+  onTagIdsChange: (tagIds: string[]) => void;
+}
+
+export const TaskPriorityTagsSection: React.FC<
+  TaskPriorityTagsSectionProps
+> = ({ priority, onPriorityChange, tagIds, onTagIdsChange }) => {
+  const { isDark } = useTheme();
+  const { data: tags = [] } = useTags();
+  const saveTag = useSaveTag();
+  const [isCreating, setIsCreating] = useState(false);
+  const [newTagName, setNewTagName] = useState('');
+  const [newTagColor, setNewTagColor] = useState(TAG_COLORS[0]);
+
+  const labelColor = isDark ? '#FFFFFF' : '#374151';
+  const chipBackground = isDark ? '#1C252E' : '#FFFFFF';
+  const chipBorder = isDark ? '#3B4754' : '#E5E7EB';
+  const chipText = isDark ? '#FFFFFF' : '#111418';
+
+  const handleCreateTag = async () => {
+    if (!newTagName.trim()) return;
+    try {
+      const tag = await saveTag.mutateAsync({
+        tag: { name: newTagName, color: newTagColor },
+      });
+      // A new tag is meant for the task being edited
+      onTagIdsChange([...tagIds, tag.id]);
+      setNewTagName('');
+      setIsCreating(false);
+    } catch (error) {
+      Alert.alert(
+        'Could not create tag',
+        error instanceof Error ? error.message : 'Please try again.',
+      );
+    }
+  };
+
+  return (
+    <View>
+      <View style={styles.field}>
+        <Text style={[styles.label, { color: labelColor }]}>Priority</Text>
+        <View style={styles.chips}>
+          {TASK_PRIORITIES.map(option => {
+            const isSelected = priority === option;
+            const color = PRIORITY_COLORS[option];
+            return (
+              <TouchableOpacity
+                key={option}
+                style={[
+                  styles.chip,
+                  {
+                    backgroundColor: isSelected ? color + '1A' : chipBackground,
+                    borderColor: isSelected ? color : chipBorder,
+                  },
+                ]}
+                onPress={() => onPriorityChange(option)}
+                accessibilityRole="button"
+                accessibilityState={{ selected: isSelected }}>
+                <View style={[styles.dot, { backgroundColor: color }]} />
+                <Text
+                  style={[
+                    styles.chipText,
+                    {
+                      color: isSelected ? color : chipText,
+                      fontWeight: isSelected ? '600' : '500',
+                    },
+                  ]}>
+                  {PRIORITY_LABELS[option]}
+                </Text>
+              </TouchableOpacity>
+            );
+          })}
+        </View>
+        {priority === 'high' && (
+          <Text
+            style={[styles.hint, { color: isDark ? '#9CA3AF' : '#6B7280' }]}>
+            High-priority reminders break through Focus modes and are followed
+            up if the task is still ahead
+          </Text>
+        )}
+      </View>
+
+      <View style={styles.field}>
+        <Text style={[styles.label, { color: labelColor }]}>Tags</Text>
+        <View style={styles.chips}>
+          {tags.map(tag => {
+            const isSelected = tagIds.includes(tag.id);
+            return (
+              <TouchableOpacity
+                key={tag.id}
+                style={[
+                  styles.chip,
+                  {
+                    backgroundColor: isSelected
+                      ? tag.color + '1A'
+                      : chipBackground,
+                    borderColor: isSelected ? tag.color : chipBorder,
+                  },
+                ]}
+                onPress={() =>
+                  onTagIdsChange(toggleFilterValue(tagIds, tag.id))
+                }
+                accessibilityRole="button"
+                accessibilityState={{ selected: isSelected }}>
+                <View style={[styles.dot, { backgroundColor: tag.color }]} />
+                <Text
+                  style={[
+                    styles.chipText,
+                    {
+                      color: isSelected ? tag.color : chipText,
+                      fontWeight: isSelected ? '600' : '500',
+                    },
+                  ]}>
+                  {tag.name}
+                </Text>
+              </TouchableOpacity>
+            );
+          })}
+          {!isCreating && (
+            <TouchableOpacity
+              style={[
+                styles.chip,
+                styles.newTagChip,
+                { backgroundColor: chipBackground, borderColor: chipBorder },
+              ]}
+              onPress={() => setIsCreating(true)}
+              accessibilityRole="button"
+              accessibilityLabel="New tag">
+              <Ionicons name="add" size={16} color={chipText} />
+              <Text style={[styles.chipText, { color: chipText }]}>
+                New tag
+              </Text>
+            </TouchableOpacity>
+          )}
+        </View>
+
+        {isCreating && (
+          <View
+            style={[
+              styles.newTagForm,
+              { backgroundColor: chipBackground, borderColor: chipBorder },
+            ]}>
+            <TextInput
+              style={[
+                styles.input,
+                { color: chipText, borderColor: chipBorder },
+              ]}
+              placeholder="Tag name"
+              placeholderTextColor={isDark ? '#6B7280' : '#9CA3AF'}
+              value={newTagName}
+              onChangeText={setNewTagName}
+              maxLength={50}
+              autoFocus
+              returnKeyType="done"
+              onSubmitEditing={handleCreateTag}
+            />
+            <View style={styles.swatches}>
+              {TAG_COLORS.map(color => (
+                <TouchableOpacity
+                  key={color}
+                  style={[
+                    styles.swatch,
+                    { backgroundColor: color },
+                    newTagColor === color && styles.swatchSelected,
+                  ]}
+                  onPress={() => setNewTagColor(color)}
+                  accessibilityRole="button"
+                  accessibilityLabel={`Color ${color}`}
+                  accessibilityState={{ selected: newTagColor === color }}
+                />
+              ))}
+            </View>
+            <View style={styles.formActions}>
+              <TouchableOpacity
+                onPress={() => {
+                  setIsCreating(false);
+                  setNewTagName('');
+                }}>
+                <Text style={[styles.actionText, { color: chipText }]}>
+                  Cancel
+                </Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                onPress={handleCreateTag}
+                disabled={!newTagName.trim() || saveTag.isPending}>
+                {saveTag.isPending ? (
+                  <ActivityIndicator size="small" color={COLORS.primary} />
+                ) : (
+                  <Text
+                    style={[
+                      styles.actionText,
+                      {
+                        color: newTagName.trim()
+                          ? COLORS.primary
+                          : isDark
+                            ? '#6B7280'
+                            : '#9CA3AF',
+                      },
+                    ]}>
+                    Add
+                  </Text>
+                )}
+              </TouchableOpacity>
+            </View>
+          </View>
+        )}
+      </View>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  field: {
+    marginBottom: SPACING.lg,
+  },
+  label: {
+    fontSize: FONT_SIZES.sm,
+    fontWeight: FONT_WEIGHTS.medium,
+    marginBottom: SPACING.sm,
+  },
+  chips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: SPACING.sm,
+  },
+  chip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: SPACING.xs,
+    paddingVertical: SPACING.sm,
+    paddingHorizontal: SPACING.md,
+    borderRadius: 20,
+    borderWidth: 1,
+  },
+  newTagChip: {
+    borderStyle: 'dashed',
+  },
+  chipText: {
+    fontSize: FONT_SIZES.sm,
+  },
+  dot: {
+    width: 8,
+    height: 8,
+    borderRadius: 4,
+  },
+  hint: {
+    fontSize: FONT_SIZES.xs,
+    marginTop: SPACING.sm,
+  },
+  newTagForm: {
+    marginTop: SPACING.sm,
+    padding: SPACING.md,
+    borderRadius: 12,
+    borderWidth: 1,
+    gap: SPACING.md,
+  },
+  input: {
+    fontSize: FONT_SIZES.md,
+    borderBottomWidth: 1,
+    paddingVertical: SPACING.xs,
+  },
+  swatches: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: SPACING.sm,
+  },
+  swatch: {
+    width: 28,
+    height: 28,
+    borderRadius: 14,
+  },
+  swatchSelected: {
+    borderWidth: 3,
+    borderColor: '#FFFFFF',
+    transform: [{ scale: 1.1 }],
+  },
+  formActions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    gap: SPACING.lg,
+  },
+  actionText: {
+    fontSize: FONT_SIZES.sm,
+    fontWeight: FONT_WEIGHTS.semibold,
+  },
+});
@@ -6,3 +6,4 @@ export { TaskDateTimeSection } from './TaskDateTimeSection';
 export { TaskRemindersSection } from './TaskRemindersSection';
 export { TaskTemplateSection } from './TaskTemplateSection';
 export { TaskFormFooter } from './TaskFormFooter';
+export { TaskPriorityTagsSection } from './TaskPriorityTagsSection';
@@ -10,7 +10,7 @@ import { Permission } from '@/features/auth/permissions/PermissionConstants';
 export interface UsePermissionsReturn {
   hasPermission: (permission: Permission) => Promise<PermissionCheckResult>;
   canCreateTask: (
-    taskType: 'assignments' | 'lectures' | 'study_sessions',
+    taskType: 'assignments' | 'lectures' | 'study_sessions' | 'flashcards',
   ) => Promise<PermissionCheckResult>;
   canCreateSRSReminders: () => Promise<PermissionCheckResult>;
   isPremium: () => Promise<boolean>;
@@ -50,7 +50,7 @@ export const usePermissions = (user: User | null): UsePermissionsReturn => {
 
   const canCreateTask = useCallback(
     async (
-      taskType: 'assignments' | 'lectures' | 'study_sessions',
+      taskType: 'assignments' | 'lectures' | 'study_sessions' | 'flashcards',
     ): Promise<PermissionCheckResult> => {
       if (!user) {
         return { allowed: false, reason: 'User not authenticated' };
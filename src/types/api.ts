@@ -1,12 +1,26 @@
 // 🌐 API Request & Response Types
 // ─────────────────────────────────────────────────────────────
 
-import { Course, Assignment, Lecture, StudySession } from './entities';
+import {
+  Course,
+  Assignment,
+  Lecture,
+  StudySession,
+  TaskPriority,
+} from './entities';
 
 // ─────────────────────────────────────────────────────────────
 // 📝 Request Payloads for Mutations
 // ─────────────────────────────────────────────────────────────
 
+/** assignments.subtasks item as stored */
+export interface AssignmentSubtaskPayload {
+  id: string;
+  title: string;
+  due_date: string | null;
+  completed_at: string | null;
+}
+
 export interface CreateAssignmentRequest {
   course_id: string;
   title: string;
@@ -15,6 +29,14 @@ export interface CreateAssignmentRequest {
   submission_link?: string;
   due_date: string;
   reminders: number[];
+  subtasks?: AssignmentSubtaskPayload[];
+  estimated_minutes?: number | null;
+  score?: number | null;
+  max_score?: number | null;
+  weight?: number | null;
+  grade_category?: string | null;
+  priority?: TaskPriority;
+  tag_ids?: string[];
 }
 
 export interface CreateStudySessionRequest {
@@ -24,6 +46,8 @@ export interface CreateStudySessionRequest {
   session_date: string;
   has_spaced_repetition: boolean;
   reminders: number[];
+  priority?: TaskPriority;
+  tag_ids?: string[];
 }
 
 export interface CreateLectureRequest {
@@ -36,6 +60,8 @@ export interface CreateLectureRequest {
   recurring_pattern?: string;
   venue?: string;
   reminders?: number[];
+  priority?: TaskPriority;
+  tag_ids?: string[];
 }
 
 export interface CreateCourseRequest {
@@ -60,10 +86,51 @@ export type CreateCourseResponse = Course;
 // 🔄 Update Request Types
 // ─────────────────────────────────────────────────────────────
 
+/** courses.grading_scheme as stored */
+export interface GradingSchemePayload {
+  categories: { id: string; name: string; weight: number }[];
+  letter_grades: {
+    letter: string;
+    min_percent: number;
+    grade_points: number;
+  }[];
+}
+
 export interface UpdateCourseRequest {
   course_name?: string;
   course_code?: string;
   about_course?: string;
+  grading_scheme?: GradingSchemePayload | null;
+  credits?: number | null;
+  term_id?: string | null;
+}
+
+/** terms.breaks as stored */
+export interface TermBreakPayload {
+  name: string;
+  start_date: string;
+  end_date: string;
+}
+
+export interface CreateTermRequest {
+  name: string;
+  start_date: string;
+  end_date: string;
+  breaks?: TermBreakPayload[];
+  course_ids?: string[];
+}
+
+export interface UpdateTermRequest extends Partial<CreateTermRequest> {
+  term_id: string;
+}
+
+export interface CreateTagRequest {
+  name: string;
+  color: string;
+}
+
+export interface UpdateTagRequest extends Partial<CreateTagRequest> {
+  tag_id: string;
 }
 
 export interface UpdateAssignmentRequest {
@@ -72,6 +139,14 @@ export interface UpdateAssignmentRequest {
   submission_method?: string;
   submission_link?: string;
   due_date?: string;
+  subtasks?: AssignmentSubtaskPayload[];
+  estimated_minutes?: number | null;
+  score?: number | null;
+  max_score?: number | null;
+  weight?: number | null;
+  grade_category?: string | null;
+  priority?: TaskPriority;
+  tag_ids?: string[];
 }
 
 export interface UpdateLectureRequest {
@@ -81,13 +156,58 @@ export interface UpdateLectureRequest {
   end_time?: string;
   is_recurring?: boolean;
   recurring_pattern?: string;
+  priority?: TaskPriority;
+  tag_ids?: string[];
+}
+
+/** 'this' edits one occurrence; 'following' splits the series from it */
+export type LectureOccurrenceScope = 'this' | 'following';
+
+export interface LectureOccurrenceTarget {
+  lecture_id: string;
+  occurrence_start: string; // Start generated by the series rule
+  scope: LectureOccurrenceScope;
+  expected_version?: number;
 }
 
+export interface UpdateLectureOccurrenceRequest
+  extends LectureOccurrenceTarget {
+  lecture_name?: string;
+  description?: string;
+  start_time?: string;
+  end_time?: string;
+  venue?: string;
+  recurring_pattern?: string; // 'following' only
+}
+
+export type CancelLectureOccurrenceRequest = LectureOccurrenceTarget;
+
 export interface UpdateStudySessionRequest {
   topic?: string;
   notes?: string;
   session_date?: string;
   has_spaced_repetition?: boolean;
+  priority?: TaskPriority;
+  tag_ids?: string[];
+}
+
+export interface FocusLogRequest {
+  study_session_id?: string;
+  started_at: string;
+  ended_at: string;
+  work_minutes: number;
+  short_break_minutes: number;
+  long_break_minutes: number;
+  planned_cycles: number;
+  completed_cycles: number;
+  focused_seconds: number;
+  break_seconds: number;
+  interruptions: {
+    reason: 'paused' | 'left_app';
+    started_at: string;
+    ended_at: string;
+  }[];
+  status: 'completed' | 'stopped';
 }
 
 // ─────────────────────────────────────────────────────────────
@@ -132,3 +252,304 @@ export interface PerformanceMetrics {
   spaced_repetition_sessions: number;
   streak_days: number;
 }
+
+// ─────────────────────────────────────────────────────────────
+// 📅 Calendar Export Types
+// ─────────────────────────────────────────────────────────────
+
+export interface CalendarExportFile {
+  filename: string;
+  content: string; // RFC 5545 iCalendar document
+  event_count: number;
+  todo_count: number;
+}
+
+export interface CalendarFeedInfo {
+  token: string;
+  feed_url: string;
+  webcal_url: string;
+  created_at: string;
+}
+
+// ─────────────────────────────────────────────────────────────
+// 🗓️ Timetable Import Types
+// ─────────────────────────────────────────────────────────────
+
+export interface TimetableLecturePreview {
+  key: string;
+  lecture_name: string;
+  start_time: string;
+  end_time: string;
+  venue: string | null;
+  recurring_pattern: string | null; // RRULE plus EXDATEs, null for one-off lectures
+  occurrences: number; // Source events collapsed into this lecture
+  is_duplicate: boolean; // Already in the matched existing course
+}
+
+export interface TimetableCoursePreview {
+  key: string;
+  course_code: string | null;
+  course_name: string;
+  existing_course_id: string | null; // Set when merging into an existing course
+  existing_course_name: string | null;
+  lectures: TimetableLecturePreview[];
+}
+
+export interface TimetableImportPreview {
+  calendar_name: string | null;
+  time_zone: string;
+  courses: TimetableCoursePreview[];
+  warnings: string[];
+  skipped_events: number;
+  task_limit: {
+    is_limited: boolean;
+    limit: number | null;
+    used: number;
+    remaining: number | null;
+  };
+  course_limit: {
+    limit: number;
+    used: number;
+    remaining: number; // New courses the plan still allows
+  };
+}
+
+export interface TimetableImportRequest {
+  courses: {
+    course_name: string;
+    course_code?: string | null;
+    existing_course_id?: string | null;
+    lectures: Pick<
+      TimetableLecturePreview,
+      'lecture_name' | 'start_time' | 'end_time' | 'venue' | 'recurring_pattern'
+    >[];
+  }[];
+}
+
+export interface TimetableImportResult {
+  courses_created: number;
+  courses_merged: number;
+  lectures_created: number;
+}
+
+// ─────────────────────────────────────────────────────────────
+// 📦 Data Import Types
+// ─────────────────────────────────────────────────────────────
+
+export type DataImportFormat = 'json' | 'csv';
+
+export type DataImportEntity =
+  | 'term'
+  | 'course'
+  | 'lecture'
+  | 'assignment'
+  | 'study_session'
+  | 'reminder';
+
+export type DataImportAction = 'create' | 'skip' | 'conflict';
+
+export interface DataImportRequest {
+  format: DataImportFormat;
+  content: string; // The export file as produced by export-user-data
+  dry_run: boolean;
+}
+
+export interface DataImportIssue {
+  type: DataImportEntity;
+  source_id: string | null; // ID in the exported account
+  label: string;
+  action: Exclude<DataImportAction, 'create'>;
+  reason: string;
+}
+
+export interface DataImportReport {
+  dry_run: boolean;
+  counts: Record<DataImportEntity, Record<DataImportAction, number>>;
+  issues: DataImportIssue[];
+  task_limit: { limit: number; used: number; required: number } | null;
+}
+
+// ─────────────────────────────────────────────────────────────
+// 🧭 Study Planner Types
+// ─────────────────────────────────────────────────────────────
+
+export interface StudyPlanItem {
+  assignment_id: string;
+  course_id: string;
+  title: string;
+  due_date: string;
+  estimated_minutes: number;
+  is_default_estimate: boolean; // The assignment has no estimate of its own
+  planned_minutes: number; // Done or already planned
+  remaining_minutes: number;
+}
+
+export interface StudyPlanBlock {
+  assignment_id: string;
+  course_id: string;
+  title: string;
+  start: string;
+  end: string;
+  duration_minutes: number;
+  due_date: string;
+}
+
+export interface StudyPlanProposal {
+  time_zone: string;
+  items: StudyPlanItem[];
+  blocks: StudyPlanBlock[];
+  unscheduled: {
+    assignment_id: string;
+    title: string;
+    due_date: string;
+    minutes: number; // Effort that did not fit before the deadline
+  }[];
+  missed_session_ids: string[];
+  outdated_session_ids: string[]; // Planned for a deadline that has moved
+}
+
+export interface AcceptStudyPlanRequest {
+  blocks: Pick<
+    StudyPlanBlock,
+    'assignment_id' | 'start' | 'duration_minutes'
+  >[];
+  replace_session_ids: string[];
+  reminders: number[];
+}
+
+export interface AcceptStudyPlanResult {
+  created: { id: string; session_date: string }[];
+  replaced_count: number;
+}
+
+// ─────────────────────────────────────────────────────────────
+// 📝 Exam Types
+// ─────────────────────────────────────────────────────────────
+
+export interface CreateExamRequest {
+  course_id: string;
+  title: string;
+  exam_date: string;
+  duration_minutes?: number;
+  location?: string | null;
+  topics?: string[];
+  weight?: number | null;
+  description?: string | null;
+  reminders?: number[];
+}
+
+export interface UpdateExamRequest
+  extends Partial<Omit<CreateExamRequest, 'course_id' | 'reminders'>> {
+  exam_id: string;
+}
+
+export interface ExamRevisionSession {
+  topic: string;
+  session_date: string;
+  reviews: string[]; // Earliest first, all before the exam day
+}
+
+export interface ExamRevisionPlan {
+  exam_id: string;
+  exam_date: string;
+  session_minutes: number;
+  sessions: ExamRevisionSession[];
+  reviews_enabled: boolean; // Spaced repetition is available on the plan
+  replaced_session_count: number; // Upcoming sessions of an earlier plan
+}
+
+export interface ExamRevisionResult {
+  created: { id: string; session_date: string }[];
+  review_count: number;
+  replaced_count: number;
+}
+
+// ─────────────────────────────────────────────────────────────
+// 🃏 Flashcard Types
+// ─────────────────────────────────────────────────────────────
+
+export interface CreateFlashcardDeckRequest {
+  study_session_id?: string;
+  course_id?: string;
+  title: string;
+  description?: string | null;
+}
+
+export interface UpdateFlashcardDeckRequest {
+  deck_id: string;
+  title?: string;
+  description?: string | null;
+}
+
+export interface CreateFlashcardRequest {
+  deck_id: string;
+  card_type: 'basic' | 'cloze';
+  front: string;
+  back?: string | null;
+  image_url?: string | null;
+}
+
+export interface UpdateFlashcardRequest
+  extends Partial<Omit<CreateFlashcardRequest, 'deck_id'>> {
+  flashcard_id: string;
+}
+
+export interface ReviewFlashcardRequest {
+  flashcard_id: string;
+  quality_rating: number; // 0-5, as for study session reviews
+  response_time_seconds?: number;
+}
+
+export interface FlashcardReviewResult {
+  due_at: string;
+  next_interval_days: number;
+  scheduler: 'sm2' | 'fsrs';
+}
+
+export type FlashcardImportFormat = 'apkg' | 'text';
+
+export interface ImportFlashcardsRequest {
+  course_id: string;
+  file_name: string;
+  format: FlashcardImportFormat;
+  content: string; // Base64 for .apkg packages, plain text for CSV/TSV
+}
+
+export interface FlashcardImportResult {
+  decks: { id: string; title: string; card_count: number }[];
+  card_count: number;
+  review_count: number;
+  image_count: number;
+  warnings: string[]; // Fields, media and rows that could not be imported
+}
+
+// ─────────────────────────────────────────────────────────────
+// 🔍 Search Types
+// ─────────────────────────────────────────────────────────────
+
+export type SearchResultType =
+  | 'course'
+  | 'assignment'
+  | 'study_session'
+  | 'lecture'
+  | 'notification';
+
+export interface SearchRequest {
+  query: string;
+  types?: SearchResultType[]; // All types when omitted
+  course_id?: string;
+  from?: string;
+  to?: string;
+  limit?: number; // Per result type
+}
+
+export interface SearchResult {
+  type: SearchResultType;
+  id: string;
+  title: string;
+  subtitle: string | null; // Course code, description, notes, venue or body
+  course_id: string | null;
+  course_name: string | null;
+  date: string | null;
+  rank: number; // Only comparable within a type
+}
@@ -16,6 +16,10 @@ export interface User {
   university?: string;
   program?: string;
   timezone?: string;
+  /** App language the user chose; null follows the device */
+  locale?: 'en' | 'es' | 'fr' | 'ar' | null;
+  /** Supported language of the user's device */
+  device_locale?: 'en' | 'es' | 'fr' | 'ar';
   role: 'user' | 'admin';
   onboarding_completed: boolean;
   subscription_tier: 'free' | 'oddity' | null;
@@ -68,6 +72,60 @@ export interface AuthContextType {
 // 📚 Course & Educational Content Types
 // ─────────────────────────────────────────────────────────────
 
+/** A weighted group of assignments, e.g. Homework 20% */
+export interface GradeCategory {
+  id: string;
+  name: string;
+  weight: number; // Percent of the course grade
+}
+
+export interface LetterGradeBoundary {
+  letter: string;
+  minPercent: number;
+  gradePoints: number;
+}
+
+export interface GradingScheme {
+  categories: GradeCategory[];
+  letterGrades: LetterGradeBoundary[];
+}
+
+/** A break within a term (e.g. spring break); dates are YYYY-MM-DD */
+export interface TermBreak {
+  name: string;
+  startDate: string;
+  endDate: string;
+}
+
+/** An academic term (semester, quarter) that groups courses */
+export interface Term {
+  id: string;
+  userId: string;
+  name: string;
+  /** First day, YYYY-MM-DD */
+  startDate: string;
+  /** Last day (inclusive), YYYY-MM-DD */
+  endDate: string;
+  breaks: TermBreak[];
+  /** Set when archived; its courses are hidden from home and calendar */
+  archivedAt?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/** How much a task matters; high-priority reminders are escalated */
+export type TaskPriority = 'low' | 'medium' | 'high';
+
+/** A user-defined colored label for assignments, lectures and study sessions */
+export interface Tag {
+  id: string;
+  userId: string;
+  name: string;
+  /** Hex color, #RRGGBB */
+  color: string;
+  createdAt: string;
+}
+
 export interface Course {
   id: string;
   courseName: string;
@@ -77,6 +135,23 @@ export interface Course {
   createdAt: string;
   updatedAt: string;
   deletedAt?: string;
+  /** Categories and letter scale; unset uses the default scale */
+  gradingScheme?: GradingScheme;
+  /** Credit hours, used to weight the course in the GPA */
+  credits?: number;
+  /** Term the course belongs to */
+  termId?: string;
+  /** Bumped by the server on every update (optimistic concurrency) */
+  version?: number;
+}
+
+/** A step of an assignment's checklist; dates are ISO strings */
+export interface AssignmentSubtask {
+  id: string;
+  title: string;
+  dueDate?: string;
+  /** Set when checked off */
+  completedAt?: string;
 }
 
 export interface Assignment {
@@ -89,6 +164,18 @@ export interface Assignment {
   submissionLink?: string;
   dueDate: string;
   createdAt: string;
+  score?: number;
+  maxScore?: number;
+  /** Percent of the course grade; unset shares its category's weight */
+  weight?: number;
+  gradeCategory?: string; // GradeCategory id
+  /** Checklist in the order the user arranged it */
+  subtasks?: AssignmentSubtask[];
+  /** Expected effort, used by the study planner */
+  estimatedMinutes?: number;
+  priority?: TaskPriority;
+  tagIds?: string[];
+  version?: number;
 }
 
 export interface Lecture {
@@ -101,7 +188,10 @@ export interface Lecture {
   lectureName?: string;
   description?: string;
   venue?: string;
+  priority?: TaskPriority;
+  tagIds?: string[];
   createdAt: string;
+  version?: number;
 }
 
 export interface StudySession {
@@ -117,8 +207,60 @@ export interface StudySession {
   time_spent_minutes?: number | null;
   last_reviewed_at?: string | null;
   review_count?: number;
+  priority?: TaskPriority;
+  tagIds?: string[];
   createdAt: string;
   deletedAt?: string | null;
+  version?: number;
+}
+
+/** An exam, with the topics its revision plan covers */
+export interface Exam {
+  id: string;
+  userId: string;
+  courseId: string;
+  courseName?: string;
+  title: string;
+  examDate: string;
+  durationMinutes: number;
+  location?: string;
+  topics: string[];
+  /** Percent of the course grade */
+  weight?: number;
+  description?: string;
+  createdAt: string;
+}
+
+/** A deck belongs to either a study session or a whole course */
+export interface FlashcardDeck {
+  id: string;
+  studySessionId?: string;
+  courseId?: string;
+  title: string;
+  description?: string;
+  cardCount: number;
+  /** Cards due for review now */
+  dueCount: number;
+  createdAt: string;
+}
+
+/**
+ * basic: front and back. cloze: the front holds {{deletions}} (Anki's
+ * {{c1::answer::hint}} also works) and the back is an optional extra note.
+ */
+export type FlashcardType = 'basic' | 'cloze';
+
+export interface Flashcard {
+  id: string;
+  deckId: string;
+  cardType: FlashcardType;
+  front: string;
+  back?: string;
+  imageUrl?: string;
+  dueAt: string;
+  lastReviewedAt?: string;
+  reviewCount: number;
+  createdAt: string;
 }
 
 // ─────────────────────────────────────────────────────────────
@@ -127,7 +269,7 @@ export interface StudySession {
 
 export type Task = {
   id: string;
-  type: 'lecture' | 'study_session' | 'assignment';
+  type: 'lecture' | 'study_session' | 'assignment' | 'exam';
   date: string;
   startTime?: string;
   endTime?: string;
@@ -136,6 +278,15 @@ export type Task = {
   name: string;
   title?: string; // Alias for name, used in some components
   courses: { courseName: string };
+  subtasks?: AssignmentSubtask[]; // Assignments only
+  estimatedMinutes?: number; // Assignments only
+  location?: string; // Exams only
+  topics?: string[]; // Exams only
+  priority?: TaskPriority; // Not on exams
+  tag_ids?: string[]; // Not on exams
+  lecture_name?: string; // Lectures only
+  is_recurring?: boolean; // Lectures only
+  recurring_pattern?: string | null; // Lectures only, RRULE plus EXDATEs
   isLocked?: boolean; // NEW: Indicates if task is locked due to subscription limits
 };
 
@@ -147,6 +298,7 @@ export interface OverviewData {
   lectures: number;
   studySessions: number;
   assignments: number;
+  exams?: number;
   reviews: number;
 }
 
@@ -174,11 +326,13 @@ export interface Reminder {
   session_id?: string | null;
   assignment_id?: string | null;
   lecture_id?: string | null;
+  exam_id?: string | null;
   reminder_time: string;
   reminder_type:
     | 'study_session'
     | 'lecture'
     | 'assignment'
+    | 'exam'
     | 'spaced_repetition';
   title?: string | null;
   body?: string | null;
@@ -208,6 +362,31 @@ export interface SRSPerformance {
   created_at: string;
 }
 
+/** Consecutive study days, counted in the user's timezone */
+export interface StreakSummary {
+  current_streak: number;
+  longest_streak: number;
+  /** YYYY-MM-DD */
+  last_activity_date: string | null;
+  /** Missed days the streak can still survive */
+  freezes_available: number;
+}
+
+export type AchievementType =
+  | 'streak'
+  | 'milestone'
+  | 'improvement'
+  | 'srs_consistency';
+
+/** A badge the user has earned; achievement_key is unique per user */
+export interface UserAchievement {
+  id: string;
+  achievement_key: string;
+  type: AchievementType;
+  metadata: Record<string, unknown>;
+  earned_at: string;
+}
+
 export interface ReminderAnalytics {
   id: string;
   user_id: string;
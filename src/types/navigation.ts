@@ -1,13 +1,15 @@
 // 🧭 Navigation Types
 // ─────────────────────────────────────────────────────────────
 
-import { Task, Course } from './entities';
+import { Task, Course, TaskPriority } from './entities';
 
 // Type for initial data that can be passed to flow screens
 export type FlowInitialData = {
   course?: Course;
   title?: string;
   dateTime?: Date | string;
+  priority?: TaskPriority;
+  tagIds?: string[];
   taskToEdit?: Task | null; // Task being edited (optional)
   [key: string]: unknown;
 };
@@ -31,8 +33,12 @@ export type RootStackParamList = {
   Drafts: undefined;
   Templates: undefined;
   CourseDetail: { courseId: string };
+  ImportTimetable: undefined;
+  ImportFlashcards: { courseId: string };
+  Terms: undefined;
   Calendar: undefined;
   RecycleBin: undefined;
+  ImportData: undefined;
   Profile: undefined;
   Settings: undefined;
   NotificationManagement: undefined;
@@ -53,6 +59,7 @@ export type RootStackParamList = {
   AddLectureFlow: { initialData?: FlowInitialData } | undefined;
   AddAssignmentFlow: { initialData?: FlowInitialData } | undefined;
   AddStudySessionFlow: { initialData?: FlowInitialData } | undefined;
+  AddExamFlow: { initialData?: FlowInitialData } | undefined;
 
   // Other modals
   EditCourseModal: { courseId: string };
@@ -81,6 +88,12 @@ export type RootStackParamList = {
   };
   StudyResult: { sessionId: string };
   StudySessionReview: { sessionId: string };
+  FocusTimer: { sessionId?: string } | undefined;
+  StudyPlanner: undefined;
+  Search: undefined;
+  WeeklyReports: undefined;
+  WeeklyReport: { reportId: string };
+  ReminderDigest: { ids: string };
 };
 
 export type MainTabParamList = {
@@ -16,7 +16,8 @@ export type OfflineOperationType =
   | 'RESTORE'
   | 'COMPLETE'
   | 'BATCH_DELETE'
-  | 'BATCH_RESTORE';
+  | 'BATCH_RESTORE'
+  | 'BATCH_UPDATE';
 
 /**
  * The type of resource being modified
@@ -35,6 +36,7 @@ export type OfflineActionStatus =
   | 'syncing' // Currently being synced
   | 'success' // Successfully synced
   | 'failed' // Failed to sync (will retry)
+  | 'conflict' // Changed on the server too; waiting for the user to resolve
   | 'cancelled'; // User cancelled the action
 
 /**
@@ -73,6 +75,9 @@ export interface OfflineAction {
 
   /** Temporary ID used locally (for CREATE operations) */
   tempId?: string;
+
+  /** Fields that couldn't be merged with the server (status 'conflict') */
+  conflict?: SyncConflict;
 }
 
 /**
@@ -84,7 +89,8 @@ export type OfflineActionPayload =
   | DeletePayload
   | RestorePayload
   | CompletePayload
-  | BatchPayload;
+  | BatchPayload
+  | BatchUpdatePayload;
 
 /**
  * Payload for CREATE operations
@@ -106,6 +112,9 @@ export interface UpdatePayload {
   resourceId?: string; // Deprecated: use 'id' instead
   updates?: Record<string, unknown>; // Deprecated: use 'data' instead
   // Note: At least one of (id, resourceId) and one of (data, updates) must be provided
+  // Optimistic concurrency (see captureUpdateBase in @/utils/syncConflicts)
+  baseVersion?: number; // Row version the edit was made against
+  baseData?: Record<string, unknown>; // Values of the edited fields at baseVersion
 }
 
 /**
@@ -144,6 +153,48 @@ export interface BatchPayload {
   }>;
 }
 
+/**
+ * Payload for BATCH_UPDATE operations (bulk edits of tasks)
+ */
+export interface BatchUpdatePayload {
+  type: 'BATCH_UPDATE';
+  action: 'RESCHEDULE' | 'MOVE_COURSE' | 'COMPLETE' | 'SOFT_DELETE';
+  items: Array<{
+    id: string;
+    type: Exclude<OfflineResourceType, 'course'>;
+  }>;
+  /** Days to move the items by (RESCHEDULE) */
+  shiftDays?: number;
+  /** Course to move the items to (MOVE_COURSE) */
+  courseId?: string;
+}
+
+/**
+ * A field edited both offline and on the server since baseVersion
+ */
+export interface SyncConflictField {
+  field: string;
+  baseValue: unknown;
+  localValue: unknown;
+  serverValue: unknown;
+}
+
+/**
+ * An UPDATE that couldn't be merged automatically
+ */
+export interface SyncConflict {
+  actionId: string;
+  resourceType: OfflineResourceType;
+  resourceId: string;
+  fields: SyncConflictField[];
+  /** Server version the conflicting values were read from */
+  serverVersion: number;
+  detectedAt: number;
+}
+
+/** Which side to keep for each conflicting field */
+export type SyncConflictResolution = Record<string, 'local' | 'server'>;
+
 /**
  * Result of processing an offline action
  */
@@ -177,6 +228,9 @@ export interface QueueStats {
   /** Number of failed actions */
   failed: number;
 
+  /** Number of actions waiting for conflict resolution */
+  conflicts: number;
+
   /** Oldest action timestamp */
   oldestTimestamp?: number;
 }
@@ -0,0 +1,70 @@
+/**
+ * Achievements
+ *
+ * Badges are awarded on the server (supabase/functions/_shared/achievements.ts)
+ * and stored with a key and the numbers behind them, e.g. streak_7 with
+ * { days: 7 }. These helpers turn a stored badge into text for the current
+ * locale.
+ */
+
+import { t, SupportedLocale } from '@/i18n';
+import { UserAchievement } from '@/types';
+
+export interface AchievementText {
+  title: string;
+  description: string;
+}
+
+function metadataNumber(
+  achievement: Pick<UserAchievement, 'metadata'>,
+  key: string,
+): number {
+  const value = Number(achievement.metadata?.[key]);
+  return Number.isFinite(value) ? value : 0;
+}
+
+/** Title and description of an earned badge */
+export function describeAchievement(
+  achievement: Pick<UserAchievement, 'type' | 'metadata'>,
+  locale?: SupportedLocale,
+): AchievementText {
+  switch (achievement.type) {
+    case 'streak': {
+      const days = metadataNumber(achievement, 'days');
+      return {
+        title: t('achievements.streak.title', { days }, locale),
+        description: t('achievements.streak.description', { days }, locale),
+      };
+    }
+    case 'milestone': {
+      const count = metadataNumber(achievement, 'count');
+      return {
+        title: t('achievements.milestone.title', { count }, locale),
+        description: t('achievements.milestone.description', { count }, locale),
+      };
+    }
+    case 'improvement':
+      return {
+        title: t('achievements.improvement.title', undefined, locale),
+        description: t(
+          'achievements.improvement.description',
+          {
+            thisWeek: metadataNumber(achievement, 'this_week'),
+            lastWeek: metadataNumber(achievement, 'last_week'),
+          },
+          locale,
+        ),
+      };
+    case 'srs_consistency': {
+      const days = metadataNumber(achievement, 'days');
+      return {
+        title: t('achievements.srsConsistency.title', { days }, locale),
+        description: t(
+          'achievements.srsConsistency.description',
+          { days },
+          locale,
+        ),
+      };
+    }
+  }
+}
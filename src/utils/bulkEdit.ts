@@ -0,0 +1,82 @@
+/**
+ * Bulk edits
+ *
+ * Helpers for editing several selected tasks at once through batch-action:
+ * the request for each edit and the message shown in the undo toast.
+ */
+
+import { Task } from '@/types';
+import type {
+  BatchActionRequest,
+  BatchActionResult,
+  BatchItem,
+} from '@/hooks/useBatchAction';
+
+export type BulkTaskEdit =
+  | { action: 'RESCHEDULE'; shiftDays: number }
+  | { action: 'MOVE_COURSE'; courseId: string; courseName: string }
+  | { action: 'COMPLETE' }
+  | { action: 'SOFT_DELETE' };
+
+/** Most days a batch can be moved by in one go */
+export const MAX_SHIFT_DAYS = 365;
+
+/** Identifies a task in a selection; ids are only unique per task type */
+export function getTaskSelectionKey(task: Pick<Task, 'id' | 'type'>): string {
+  return `${task.type}:${task.id}`;
+}
+
+export function buildBulkEditRequest(
+  edit: BulkTaskEdit,
+  items: BatchItem[],
+): BatchActionRequest {
+  switch (edit.action) {
+    case 'RESCHEDULE':
+      return { action: edit.action, items, shift_days: edit.shiftDays };
+    case 'MOVE_COURSE':
+      return { action: edit.action, items, course_id: edit.courseId };
+    default:
+      return { action: edit.action, items };
+  }
+}
+
+/** "1 day later", "2 weeks earlier" */
+export function formatDayShift(days: number): string {
+  const amount = Math.abs(days);
+  const direction = days < 0 ? 'earlier' : 'later';
+  if (amount % 7 === 0) {
+    const weeks = amount / 7;
+    return `${weeks} week${weeks === 1 ? '' : 's'} ${direction}`;
+  }
+  return `${amount} day${amount === 1 ? '' : 's'} ${direction}`;
+}
+
+const formatTaskCount = (count: number) =>
+  `${count} task${count === 1 ? '' : 's'}`;
+
+/** Undo toast message: what happened to how many tasks, and any failures */
+export function describeBulkEditResult(
+  edit: BulkTaskEdit,
+  result: Pick<BatchActionResult, 'results'>,
+): string {
+  const { succeeded, failed } = result.results;
+  const count = formatTaskCount(succeeded);
+
+  let summary: string;
+  switch (edit.action) {
+    case 'RESCHEDULE':
+      summary = `${count} moved ${formatDayShift(edit.shiftDays)}`;
+      break;
+    case 'MOVE_COURSE':
+      summary = `${count} moved to ${edit.courseName}`;
+      break;
+    case 'COMPLETE':
+      summary = `${count} marked complete`;
+      break;
+    case 'SOFT_DELETE':
+      summary = `${count} moved to Recycle Bin`;
+      break;
+  }
+
+  return failed > 0 ? `${summary}; ${failed} couldn't be changed` : summary;
+}
@@ -0,0 +1,212 @@
+/**
+ * Calendar Rescheduling
+ *
+ * Helpers for moving and resizing tasks by dragging them on the calendar's
+ * day grid. Drags snap to 15 minutes. Dropping a task on top of a lecture
+ * is allowed, but the lectures it overlaps are reported so the grid can
+ * flag the conflict.
+ */
+
+import { addDays, addMinutes } from 'date-fns';
+import { CalendarData, Task } from '@/types';
+import {
+  UpdateAssignmentRequest,
+  UpdateExamRequest,
+  UpdateLectureOccurrenceRequest,
+  UpdateLectureRequest,
+  UpdateStudySessionRequest,
+} from '@/types/api';
+
+export const RESCHEDULE_SNAP_MINUTES = 15;
+
+/** Length of tasks without an end time, as drawn on the grid */
+export const DEFAULT_TASK_MINUTES = 60;
+
+export const MIN_TASK_MINUTES = 15;
+
+/**
+ * Calendar rows keep some database fields next to the app ones: a
+ * lecture's end time and, in a recurring series, which occurrence it is
+ */
+export type CalendarTask = Task & {
+  end_time?: string | null;
+  occurrence_start?: string | null;
+  is_occurrence?: boolean;
+};
+
+export interface TaskTimeRange {
+  start: Date;
+  end: Date;
+}
+
+export function getTaskTimeRange(task: CalendarTask): TaskTimeRange {
+  const start = new Date(task.startTime || task.date);
+  const endValue = task.endTime || task.end_time;
+  const end = endValue ? new Date(endValue) : null;
+
+  return {
+    start,
+    end: end && end > start ? end : addMinutes(start, DEFAULT_TASK_MINUTES),
+  };
+}
+
+export function snapMinutes(minutes: number): number {
+  return (
+    Math.round(minutes / RESCHEDULE_SNAP_MINUTES) * RESCHEDULE_SNAP_MINUTES
+  );
+}
+
+/** Lectures and exams have a length of their own; other tasks are a point in time */
+export function canResizeTask(task: Task): boolean {
+  return task.type === 'lecture' || task.type === 'exam';
+}
+
+export function isSameCalendarTask(a: CalendarTask, b: CalendarTask): boolean {
+  return (
+    a.type === b.type &&
+    a.id === b.id &&
+    (a.occurrence_start ?? a.date) === (b.occurrence_start ?? b.date)
+  );
+}
+
+/**
+ * Shift a task by a dragged distance, keeping its length. Days are added
+ * in local time so a move across a daylight saving change keeps the hour.
+ */
+export function moveTaskRange(
+  range: TaskTimeRange,
+  deltaMinutes: number,
+  deltaDays = 0,
+): TaskTimeRange {
+  const start = addDays(
+    addMinutes(range.start, snapMinutes(deltaMinutes)),
+    deltaDays,
+  );
+  return {
+    start,
+    end: new Date(
+      start.getTime() + (range.end.getTime() - range.start.getTime()),
+    ),
+  };
+}
+
+/** Move the end of a task, never making it shorter than MIN_TASK_MINUTES */
+export function resizeTaskRange(
+  range: TaskTimeRange,
+  deltaMinutes: number,
+): TaskTimeRange {
+  const end = addMinutes(range.end, snapMinutes(deltaMinutes));
+  const minEnd = addMinutes(range.start, MIN_TASK_MINUTES);
+  return { start: range.start, end: end < minEnd ? minEnd : end };
+}
+
+/** Lectures, other than the task itself, that a new time range would overlap */
+export function findLectureConflicts(
+  task: CalendarTask,
+  range: TaskTimeRange,
+  tasks: CalendarTask[],
+): CalendarTask[] {
+  return tasks.filter(other => {
+    if (other.type !== 'lecture' || isSameCalendarTask(task, other)) {
+      return false;
+    }
+    const otherRange = getTaskTimeRange(other);
+    return otherRange.start < range.end && range.start < otherRange.end;
+  });
+}
+
+export type TaskRescheduleRequest =
+  | { kind: 'assignment'; request: UpdateAssignmentRequest }
+  | { kind: 'study_session'; request: UpdateStudySessionRequest }
+  | { kind: 'lecture'; request: UpdateLectureRequest }
+  | { kind: 'lecture_occurrence'; request: UpdateLectureOccurrenceRequest }
+  | { kind: 'exam'; request: UpdateExamRequest };
+
+/**
+ * The update that saves a task's new time. A dragged occurrence of a
+ * recurring lecture only moves that occurrence, not the whole series.
+ */
+export function buildRescheduleRequest(
+  task: CalendarTask,
+  range: TaskTimeRange,
+): TaskRescheduleRequest {
+  const start = range.start.toISOString();
+  const end = range.end.toISOString();
+
+  switch (task.type) {
+    case 'assignment':
+      return { kind: 'assignment', request: { due_date: start } };
+    case 'study_session':
+      return { kind: 'study_session', request: { session_date: start } };
+    case 'exam':
+      return {
+        kind: 'exam',
+        request: {
+          exam_id: task.id,
+          exam_date: start,
+          duration_minutes: Math.round(
+            (range.end.getTime() - range.start.getTime()) / 60000,
+          ),
+        },
+      };
+    case 'lecture':
+      return task.is_occurrence && task.occurrence_start
+        ? {
+            kind: 'lecture_occurrence',
+            request: {
+              lecture_id: task.id,
+              occurrence_start: task.occurrence_start,
+              scope: 'this',
+              start_time: start,
+              end_time: end,
+            },
+          }
+        : { kind: 'lecture', request: { start_time: start, end_time: end } };
+  }
+}
+
+/** The task as it looks at its new time */
+export function applyTimeRange(
+  task: CalendarTask,
+  range: TaskTimeRange,
+): CalendarTask {
+  const start = range.start.toISOString();
+  const end = range.end.toISOString();
+  return {
+    ...task,
+    date: start,
+    startTime: start,
+    ...(canResizeTask(task) && { endTime: end }),
+    ...(task.type === 'lecture' && { end_time: end }),
+  };
+}
+
+/**
+ * Calendar data with a task moved to its new time, for showing the move
+ * before the server confirms it. Days are keyed by UTC date, as the
+ * calendar endpoint groups them.
+ */
+export function moveTaskInCalendarData(
+  data: CalendarData,
+  task: CalendarTask,
+  range: TaskTimeRange,
+): CalendarData {
+  let found = false;
+  const result: CalendarData = {};
+  for (const [day, tasks] of Object.entries(data)) {
+    const remaining = tasks.filter(other => {
+      const isMoved = isSameCalendarTask(task, other);
+      found = found || isMoved;
+      return !isMoved;
+    });
+    if (remaining.length > 0) result[day] = remaining;
+  }
+  if (!found) return data;
+
+  const moved = applyTimeRange(task, range);
+  const day = moved.date.split('T')[0];
+  result[day] = [...(result[day] ?? []), moved].sort(
+    (a, b) => new Date(a.date).getTime() - new Date(b.date).getTime(),
+  );
+  return result;
+}
@@ -71,6 +71,9 @@ export function parseDeepLink(url: string): DeepLinkParams | null {
       profile: { screen: 'Profile', paramKey: undefined },
       settings: { screen: 'Settings', paramKey: undefined },
       'recycle-bin': { screen: 'RecycleBin', paramKey: undefined },
+      'weekly-report': { screen: 'WeeklyReport', paramKey: 'reportId' },
+      'weekly-reports': { screen: 'WeeklyReports', paramKey: undefined },
+      reminders: { screen: 'ReminderDigest', paramKey: undefined },
       paywall: { screen: 'PaywallScreen', paramKey: undefined },
       'reset-password': { screen: 'ResetPassword', paramKey: undefined },
     };
@@ -139,6 +142,9 @@ export function generateDeepLink(
       Profile: { path: 'profile' },
       Settings: { path: 'settings' },
       RecycleBin: { path: 'recycle-bin' },
+      WeeklyReport: { path: 'weekly-report', idParam: 'reportId' },
+      WeeklyReports: { path: 'weekly-reports' },
+      ReminderDigest: { path: 'reminders' },
       PaywallScreen: { path: 'paywall' },
       ResetPassword: { path: 'reset-password' },
       Main: { path: 'home' },
@@ -1,5 +1,5 @@
 import AsyncStorage from '@react-native-async-storage/async-storage';
-import { Course } from '@/types';
+import { AssignmentSubtask, Course, TaskPriority } from '@/types';
 
 export type DraftType = 'assignment' | 'lecture' | 'study_session';
 
@@ -12,13 +12,17 @@ export interface DraftData {
   // Assignment-specific
   submissionMethod?: 'Online' | 'In-person' | null;
   submissionLink?: string;
+  subtasks?: AssignmentSubtask[];
+  estimatedMinutes?: number | null;
   // Lecture-specific
   endTime?: Date | string;
-  recurrence?: 'none' | 'weekly' | 'bi-weekly';
+  recurrence?: string; // 'none' or a lectures.recurring_pattern value
   // Study Session-specific
   hasSpacedRepetition?: boolean;
   // Common
   reminders?: number[];
+  priority?: TaskPriority;
+  tagIds?: string[];
   savedAt: string; // Timestamp when draft was saved
 }
 
@@ -79,6 +79,8 @@ const ERROR_MESSAGES: Record<string, string> = {
     'A record with this information already exists. Please check and try again.',
   RECORD_NOT_FOUND:
     "The record you're looking for doesn't exist or has been removed.",
+  VERSION_CONFLICT:
+    'This item was changed on another device. Review the changes to choose which version to keep.',
 
   // Rate Limiting
   TOO_MANY_REQUESTS:
@@ -420,6 +422,7 @@ export function getErrorTitle(error: unknown): string {
     MISSING_REQUIRED_FIELD: 'Missing Information',
     NOT_FOUND: 'Not Found',
     ALREADY_EXISTS: 'Already Exists',
+    VERSION_CONFLICT: 'Edit Conflict',
     TOO_MANY_REQUESTS: 'Too Many Requests',
     RATE_LIMIT_EXCEEDED: 'Rate Limit Exceeded',
     LIMIT_REACHED: 'Limit Reached',
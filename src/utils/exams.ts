@@ -0,0 +1,86 @@
+/**
+ * Exams
+ *
+ * Helpers for exams and the revision plans proposed for them
+ * (exams/revision-plan). Countdowns count calendar days in the device's
+ * time zone, so an exam tomorrow morning is "Tomorrow" even if it is less
+ * than 24 hours away.
+ */
+
+import { differenceInCalendarDays } from 'date-fns';
+import { Exam, ExamRevisionPlan } from '@/types';
+
+/** Exam lengths offered when adding an exam, in minutes */
+export const EXAM_DURATION_OPTIONS = [60, 90, 120, 180];
+
+export const DEFAULT_EXAM_DURATION_MINUTES = 120;
+
+/** Topics an exam can list; each gets its own revision session */
+export const MAX_EXAM_TOPICS = 30;
+
+/**
+ * Topics typed as a comma or newline separated list, trimmed and without
+ * repeats, appended to the existing ones
+ */
+export function addExamTopics(topics: string[], input: string): string[] {
+  const seen = new Set(topics.map(topic => topic.toLowerCase()));
+  const added = input
+    .split(/[,\n]/)
+    .map(topic => topic.trim())
+    .filter(topic => {
+      const key = topic.toLowerCase();
+      if (!topic || seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
+  return [...topics, ...added].slice(0, MAX_EXAM_TOPICS);
+}
+
+export interface ExamCountdown {
+  /** Calendar days until the exam day; 0 on the day itself */
+  days: number;
+  /** e.g. "Today", "Tomorrow", "In 12 days" */
+  label: string;
+}
+
+export function getExamCountdown(
+  examDate: string,
+  now: Date = new Date(),
+): ExamCountdown {
+  const days = Math.max(0, differenceInCalendarDays(new Date(examDate), now));
+  const label =
+    days === 0 ? 'Today' : days === 1 ? 'Tomorrow' : `In ${days} days`;
+  return { days, label };
+}
+
+/** Exams that have not finished yet, soonest first */
+export function getUpcomingExams(
+  exams: Exam[],
+  now: Date = new Date(),
+): Exam[] {
+  return exams
+    .filter(
+      exam =>
+        new Date(exam.examDate).getTime() + exam.durationMinutes * 60 * 1000 >
+        now.getTime(),
+    )
+    .sort(
+      (a, b) => new Date(a.examDate).getTime() - new Date(b.examDate).getTime(),
+    );
+}
+
+/** e.g. "3 study sessions and 7 reviews before the exam"; null if empty */
+export function describeExamRevisionPlan(
+  plan: ExamRevisionPlan,
+): string | null {
+  const sessions = plan.sessions.length;
+  if (sessions === 0) return null;
+
+  const reviews = plan.sessions.reduce(
+    (count, session) => count + session.reviews.length,
+    0,
+  );
+  const parts = [`${sessions} study session${sessions === 1 ? '' : 's'}`];
+  if (reviews > 0) parts.push(`${reviews} review${reviews === 1 ? '' : 's'}`);
+  return `${parts.join(' and ')} before the exam`;
+}
@@ -0,0 +1,111 @@
+/**
+ * Flashcards
+ *
+ * Cloze text and the review queue of a deck. Cloze deletions are written
+ * {{answer}}, or as in Anki {{c1::answer}} / {{c1::answer::hint}}; every
+ * deletion on a card is hidden at once.
+ */
+
+import { COLORS } from '@/constants/theme';
+import { Flashcard } from '@/types';
+
+const CLOZE_PATTERN = /\{\{(?:c\d+::)?([^{}]+?)(?:::([^{}]*?))?\}\}/g;
+
+export interface ClozeSegment {
+  text: string;
+  /** Set for a deletion; text is then the answer */
+  hint?: string;
+  isCloze: boolean;
+}
+
+/** The text of a cloze card split into plain text and deletions */
+export function splitCloze(text: string): ClozeSegment[] {
+  const segments: ClozeSegment[] = [];
+  let lastIndex = 0;
+
+  for (const match of text.matchAll(CLOZE_PATTERN)) {
+    const index = match.index ?? 0;
+    if (index > lastIndex) {
+      segments.push({ text: text.slice(lastIndex, index), isCloze: false });
+    }
+    segments.push({
+      text: match[1].trim(),
+      hint: match[2]?.trim() || undefined,
+      isCloze: true,
+    });
+    lastIndex = index + match[0].length;
+  }
+  if (lastIndex < text.length) {
+    segments.push({ text: text.slice(lastIndex), isCloze: false });
+  }
+  return segments;
+}
+
+export function hasClozeDeletion(text: string): boolean {
+  return splitCloze(text).some(segment => segment.isCloze);
+}
+
+/** The question side of a cloze card: deletions become [...] or [hint] */
+export function getClozeQuestion(text: string): string {
+  return splitCloze(text)
+    .map(segment =>
+      segment.isCloze ? `[${segment.hint ?? '...'}]` : segment.text,
+    )
+    .join('');
+}
+
+/**
+ * A card can be saved when a basic card has a back and a cloze card has at
+ * least one deletion
+ */
+export function isFlashcardComplete(
+  card: Pick<Flashcard, 'cardType' | 'front' | 'back'>,
+): boolean {
+  if (!card.front.trim()) return false;
+  return card.cardType === 'cloze'
+    ? hasClozeDeletion(card.front)
+    : Boolean(card.back?.trim());
+}
+
+/** Cards due by now, the most overdue first */
+export function getDueFlashcards(
+  cards: Flashcard[],
+  now: Date = new Date(),
+): Flashcard[] {
+  return cards
+    .filter(card => new Date(card.dueAt).getTime() <= now.getTime())
+    .sort((a, b) => new Date(a.dueAt).getTime() - new Date(b.dueAt).getTime());
+}
+
+/**
+ * Answer buttons shown after a card is flipped, on the 0-5 quality scale
+ * used for study session reviews (below 3 counts as forgotten)
+ */
+export const FLASHCARD_RATINGS = [
+  { quality: 1, label: 'Again', color: COLORS.error },
+  { quality: 3, label: 'Hard', color: COLORS.warning },
+  { quality: 4, label: 'Good', color: COLORS.success },
+  { quality: 5, label: 'Easy', color: COLORS.info },
+] as const;
+
+/**
+ * The rest of the review queue after answering its first card. Forgotten
+ * cards go to the back so they are seen again in the same sitting.
+ */
+export function advanceReviewQueue(
+  queue: Flashcard[],
+  quality: number,
+): Flashcard[] {
+  const [current, ...rest] = queue;
+  if (!current) return [];
+  return quality < 3 ? [...rest, current] : rest;
+}
+
+/** e.g. "Again in this session", "Next review in 12 days" */
+export function describeNextCardReview(
+  quality: number,
+  nextIntervalDays: number,
+): string {
+  if (quality < 3) return 'Again in this session';
+  return `Next review in ${nextIntervalDays} day${nextIntervalDays === 1 ? '' : 's'}`;
+}
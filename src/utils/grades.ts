@@ -0,0 +1,224 @@
+/**
+ * Grades
+ *
+ * Course grade, letter grade and GPA calculations from assignment scores.
+ *
+ * How much an assignment counts towards its course grade:
+ * - its own weight (percent of the course grade) when set
+ * - otherwise an equal share of what's left of its grade category's weight
+ * - when nothing in the course has a weight or category, points decide
+ *   (a 50-point assignment counts twice as much as a 25-point one)
+ *
+ * The course grade so far is the weighted average over graded assignments.
+ */
+
+import { Assignment, GradingScheme, LetterGradeBoundary } from '@/types';
+
+type GradedFields = Pick<
+  Assignment,
+  'id' | 'score' | 'maxScore' | 'weight' | 'gradeCategory'
+>;
+
+/** US 4.0 scale, used when a course has no letter grades of its own */
+export const DEFAULT_LETTER_GRADES: LetterGradeBoundary[] = [
+  { letter: 'A', minPercent: 93, gradePoints: 4.0 },
+  { letter: 'A-', minPercent: 90, gradePoints: 3.7 },
+  { letter: 'B+', minPercent: 87, gradePoints: 3.3 },
+  { letter: 'B', minPercent: 83, gradePoints: 3.0 },
+  { letter: 'B-', minPercent: 80, gradePoints: 2.7 },
+  { letter: 'C+', minPercent: 77, gradePoints: 2.3 },
+  { letter: 'C', minPercent: 73, gradePoints: 2.0 },
+  { letter: 'C-', minPercent: 70, gradePoints: 1.7 },
+  { letter: 'D+', minPercent: 67, gradePoints: 1.3 },
+  { letter: 'D', minPercent: 60, gradePoints: 1.0 },
+  { letter: 'F', minPercent: 0, gradePoints: 0 },
+];
+
+export interface CourseGrade {
+  /** Weighted average of graded work; null until something is graded */
+  percent: number | null;
+  letter: LetterGradeBoundary | null;
+  gradedCount: number;
+  /** Share of the course grade already graded; null when points decide */
+  gradedWeight: number | null;
+  /** Share of the course grade still to be graded; null when points decide */
+  remainingWeight: number | null;
+}
+
+export interface GpaSummary {
+  gpa: number | null;
+  credits: number;
+  courseCount: number;
+}
+
+/** Letter grades of a scheme, highest first */
+export function getLetterScale(
+  scheme?: GradingScheme | null,
+): LetterGradeBoundary[] {
+  const letters = scheme?.letterGrades?.length
+    ? scheme.letterGrades
+    : DEFAULT_LETTER_GRADES;
+  return [...letters].sort((a, b) => b.minPercent - a.minPercent);
+}
+
+export function getLetterGrade(
+  percent: number,
+  scheme?: GradingScheme | null,
+): LetterGradeBoundary | null {
+  // Round first so 89.9999... doesn't miss a 90 boundary
+  const rounded = Math.round(percent * 100) / 100;
+  return (
+    getLetterScale(scheme).find(boundary => rounded >= boundary.minPercent) ??
+    null
+  );
+}
+
+export function getAssignmentPercent(assignment: GradedFields): number | null {
+  const { score, maxScore } = assignment;
+  if (score === undefined || score === null || !maxScore) return null;
+  return (score / maxScore) * 100;
+}
+
+function usesWeights(
+  assignments: GradedFields[],
+  scheme?: GradingScheme | null,
+): boolean {
+  return (
+    !!scheme?.categories?.length ||
+    assignments.some(assignment => assignment.weight !== undefined)
+  );
+}
+
+/**
+ * How much each assignment counts towards the course grade: a percent of the
+ * course grade, or its max score when points decide
+ */
+export function getAssignmentWeights(
+  assignments: GradedFields[],
+  scheme?: GradingScheme | null,
+): Map<string, number> {
+  const weights = new Map<string, number>();
+
+  if (!usesWeights(assignments, scheme)) {
+    assignments.forEach(assignment =>
+      weights.set(assignment.id, assignment.maxScore ?? 0),
+    );
+    return weights;
+  }
+
+  const categories = new Map(
+    (scheme?.categories ?? []).map(category => [category.id, category]),
+  );
+
+  // What's left of each category once explicitly weighted work is taken out
+  const categoryShares = new Map<string, number>();
+  categories.forEach((category, id) => {
+    const members = assignments.filter(a => a.gradeCategory === id);
+    const explicit = members.reduce((sum, a) => sum + (a.weight ?? 0), 0);
+    const unweighted = members.filter(a => a.weight === undefined).length;
+    if (unweighted > 0) {
+      categoryShares.set(
+        id,
+        Math.max(0, category.weight - explicit) / unweighted,
+      );
+    }
+  });
+
+  assignments.forEach(assignment => {
+    if (assignment.weight !== undefined) {
+      weights.set(assignment.id, assignment.weight);
+    } else {
+      weights.set(
+        assignment.id,
+        categoryShares.get(assignment.gradeCategory ?? '') ?? 0,
+      );
+    }
+  });
+
+  return weights;
+}
+
+export function calculateCourseGrade(
+  assignments: GradedFields[],
+  scheme?: GradingScheme | null,
+): CourseGrade {
+  const weights = getAssignmentWeights(assignments, scheme);
+  const weighted = usesWeights(assignments, scheme);
+
+  let earned = 0;
+  let gradedWeight = 0;
+  let remainingWeight = 0;
+  let gradedCount = 0;
+
+  assignments.forEach(assignment => {
+    const weight = weights.get(assignment.id) ?? 0;
+    const percent = getAssignmentPercent(assignment);
+    if (percent === null) {
+      remainingWeight += weight;
+      return;
+    }
+    gradedCount += 1;
+    earned += percent * weight;
+    gradedWeight += weight;
+  });
+
+  const percent = gradedWeight > 0 ? earned / gradedWeight : null;
+
+  return {
+    percent,
+    letter: percent === null ? null : getLetterGrade(percent, scheme),
+    gradedCount,
+    gradedWeight: weighted ? gradedWeight : null,
+    remainingWeight: weighted ? remainingWeight : null,
+  };
+}
+
+/**
+ * Score needed on the final to finish the course with the target grade
+ *
+ * @param currentPercent - Course grade so far, before the final
+ * @param finalWeight - Percent of the course grade the final is worth
+ * @param targetPercent - Course grade to reach
+ * @returns Percent needed on the final; above 100 means out of reach and
+ * 0 or less means the target is already secured. null if the final has no
+ * weight
+ */
+export function getRequiredFinalScore(
+  currentPercent: number,
+  finalWeight: number,
+  targetPercent: number,
+): number | null {
+  if (finalWeight <= 0 || finalWeight > 100) return null;
+  const share = finalWeight / 100;
+  return (targetPercent - currentPercent * (1 - share)) / share;
+}
+
+/**
+ * Credit-weighted GPA; courses without a grade are left out and courses
+ * without credits count as one credit
+ */
+export function calculateGpa(
+  courses: { credits?: number; gradePoints: number | null }[],
+): GpaSummary {
+  let points = 0;
+  let credits = 0;
+  let courseCount = 0;
+
+  courses.forEach(course => {
+    if (course.gradePoints === null) return;
+    const courseCredits = course.credits ?? 1;
+    points += course.gradePoints * courseCredits;
+    credits += courseCredits;
+    courseCount += 1;
+  });
+
+  return {
+    gpa: credits > 0 ? points / credits : null,
+    credits,
+    courseCount,
+  };
+}
+
+export function formatGradePercent(percent: number): string {
+  return `${(Math.round(percent * 10) / 10).toFixed(1)}%`;
+}
@@ -0,0 +1,274 @@
+/**
+ * Lecture Recurrence
+ *
+ * Builds, reads and describes lectures.recurring_pattern, which holds an
+ * RFC 5545 recurrence set:
+ *
+ *   RRULE:FREQ=WEEKLY;BYDAY=MO,TH;UNTIL=20260612T225959Z
+ *   EXDATE:20260302T090000Z
+ *
+ * or one of the legacy values 'weekly' / 'bi-weekly'. The server expands the
+ * pattern into occurrences (supabase/functions/_shared/rrule.ts); the RRULE
+ * parts understood here must stay a subset of the ones supported there.
+ */
+
+import { format } from 'date-fns';
+
+export type RecurrenceFrequency = 'none' | 'daily' | 'weekly' | 'monthly';
+export type RecurrenceWeekday = 'SU' | 'MO' | 'TU' | 'WE' | 'TH' | 'FR' | 'SA';
+export type RecurrenceEnd = 'never' | 'until' | 'count';
+
+/** Indexed like Date.getDay() */
+export const RECURRENCE_WEEKDAYS: readonly RecurrenceWeekday[] = [
+  'SU',
+  'MO',
+  'TU',
+  'WE',
+  'TH',
+  'FR',
+  'SA',
+];
+
+export const WEEKDAY_LABELS: Record<RecurrenceWeekday, string> = {
+  SU: 'Sun',
+  MO: 'Mon',
+  TU: 'Tue',
+  WE: 'Wed',
+  TH: 'Thu',
+  FR: 'Fri',
+  SA: 'Sat',
+};
+
+export interface LectureRecurrence {
+  frequency: RecurrenceFrequency;
+  interval: number;
+  /** Weekly only; empty repeats on the weekday of the first lecture */
+  weekdays: RecurrenceWeekday[];
+  end: RecurrenceEnd;
+  /** Last day of the series (local date) */
+  until: Date | null;
+  /** Number of lectures in the series, skipped ones included */
+  count: number | null;
+  /** Days without the lecture, e.g. reading week or a holiday */
+  skippedDates: Date[];
+}
+
+export const NO_RECURRENCE: LectureRecurrence = {
+  frequency: 'none',
+  interval: 1,
+  weekdays: [],
+  end: 'never',
+  until: null,
+  count: null,
+  skippedDates: [],
+};
+
+const FREQUENCY_PARTS: Record<Exclude<RecurrenceFrequency, 'none'>, string> = {
+  daily: 'DAILY',
+  weekly: 'WEEKLY',
+  monthly: 'MONTHLY',
+};
+
+const LEGACY_PATTERNS: Record<string, Partial<LectureRecurrence>> = {
+  weekly: { frequency: 'weekly', interval: 1 },
+  'bi-weekly': { frequency: 'weekly', interval: 2 },
+};
+
+const formatDateTime = (date: Date) =>
+  date
+    .toISOString()
+    .replace(/[-:]/g, '')
+    .replace(/\.\d{3}/, '');
+
+/**
+ * Parse a DATE or UTC DATE-TIME value, e.g. 20260612 or 20260612T225959Z
+ */
+function parseDateValue(value: string): Date | null {
+  const match = value
+    .trim()
+    .match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})Z?)?$/);
+  if (!match) return null;
+
+  const [, year, month, day, hour, minute, second] = match;
+  if (hour === undefined) {
+    return new Date(Number(year), Number(month) - 1, Number(day));
+  }
+  return new Date(
+    Date.UTC(
+      Number(year),
+      Number(month) - 1,
+      Number(day),
+      Number(hour),
+      Number(minute),
+      Number(second),
+    ),
+  );
+}
+
+const startOfLocalDay = (date: Date) =>
+  new Date(date.getFullYear(), date.getMonth(), date.getDate());
+
+const sameLocalDay = (a: Date, b: Date) =>
+  a.getFullYear() === b.getFullYear() &&
+  a.getMonth() === b.getMonth() &&
+  a.getDate() === b.getDate();
+
+/**
+ * Read a lecture's stored pattern into form state
+ *
+ * Patterns using RRULE parts the form can't edit come back as no recurrence
+ */
+export function parseLectureRecurrence(
+  pattern?: string | null,
+  isRecurring: boolean = true,
+): LectureRecurrence {
+  const trimmed = pattern?.trim();
+  if (!isRecurring || !trimmed || trimmed === 'none') return NO_RECURRENCE;
+
+  const legacy = LEGACY_PATTERNS[trimmed.toLowerCase()];
+  if (legacy) return { ...NO_RECURRENCE, ...legacy };
+
+  const recurrence: LectureRecurrence = { ...NO_RECURRENCE, skippedDates: [] };
+
+  for (const line of trimmed.split(/\r?\n/)) {
+    const upper = line.trim().toUpperCase();
+
+    if (upper.startsWith('EXDATE')) {
+      upper
+        .slice(upper.indexOf(':') + 1)
+        .split(',')
+        .map(parseDateValue)
+        .forEach(date => {
+          if (date) recurrence.skippedDates.push(startOfLocalDay(date));
+        });
+      continue;
+    }
+
+    if (!upper.startsWith('RRULE:') && !upper.startsWith('FREQ=')) continue;
+
+    const parts = Object.fromEntries(
+      upper
+        .replace(/^RRULE:/, '')
+        .split(';')
+        .map(part => part.split('=') as [string, string]),
+    );
+
+    const frequency = (
+      Object.keys(FREQUENCY_PARTS) as (keyof typeof FREQUENCY_PARTS)[]
+    ).find(key => FREQUENCY_PARTS[key] === parts.FREQ);
+    if (!frequency) return NO_RECURRENCE;
+
+    recurrence.frequency = frequency;
+    recurrence.interval = Math.max(1, Number(parts.INTERVAL) || 1);
+    recurrence.weekdays = parts.BYDAY
+      ? (parts.BYDAY.split(',') as RecurrenceWeekday[]).filter(day =>
+          RECURRENCE_WEEKDAYS.includes(day),
+        )
+      : [];
+
+    const until = parts.UNTIL ? parseDateValue(parts.UNTIL) : null;
+    if (until) {
+      recurrence.end = 'until';
+      recurrence.until = startOfLocalDay(until);
+    } else if (parts.COUNT) {
+      recurrence.end = 'count';
+      recurrence.count = Math.max(1, Number(parts.COUNT) || 1);
+    }
+  }
+
+  return recurrence;
+}
+
+/**
+ * Serialize form state for lectures.recurring_pattern
+ *
+ * @param startTime - Start of the first lecture; skipped days get its time
+ * of day so they line up with the occurrences they cancel
+ * @returns The pattern, or null for a one-off lecture
+ */
+export function buildRecurringPattern(
+  recurrence: LectureRecurrence,
+  startTime: Date,
+): string | null {
+  if (recurrence.frequency === 'none') return null;
+
+  const parts = [`FREQ=${FREQUENCY_PARTS[recurrence.frequency]}`];
+  if (recurrence.interval > 1) parts.push(`INTERVAL=${recurrence.interval}`);
+
+  if (recurrence.frequency === 'weekly' && recurrence.weekdays.length > 0) {
+    // Monday-first, the RFC 5545 default week start
+    const order = (day: RecurrenceWeekday) =>
+      (RECURRENCE_WEEKDAYS.indexOf(day) + 6) % 7;
+    const weekdays = [...new Set(recurrence.weekdays)].sort(
+      (a, b) => order(a) - order(b),
+    );
+    parts.push(`BYDAY=${weekdays.join(',')}`);
+  }
+
+  if (recurrence.end === 'until' && recurrence.until) {
+    const until = new Date(recurrence.until);
+    until.setHours(23, 59, 59, 0);
+    parts.push(`UNTIL=${formatDateTime(until)}`);
+  } else if (recurrence.end === 'count' && recurrence.count) {
+    parts.push(`COUNT=${recurrence.count}`);
+  }
+
+  const lines = [`RRULE:${parts.join(';')}`];
+
+  const skipped = recurrence.skippedDates
+    .filter(
+      (date, index, all) =>
+        all.findIndex(other => sameLocalDay(other, date)) === index,
+    )
+    .sort((a, b) => a.getTime() - b.getTime())
+    .map(date => {
+      const occurrence = startOfLocalDay(date);
+      occurrence.setHours(startTime.getHours(), startTime.getMinutes(), 0, 0);
+      return formatDateTime(occurrence);
+    });
+  if (skipped.length > 0) lines.push(`EXDATE:${skipped.join(',')}`);
+
+  return lines.join('\n');
+}
+
+/**
+ * Human-readable summary, e.g. "Every 2 weeks" / "On Mon, Thu · until 12 Jun 2026"
+ */
+export function describeLectureRecurrence(recurrence: LectureRecurrence): {
+  title: string;
+  detail: string;
+} {
+  if (recurrence.frequency === 'none') {
+    return { title: 'One-time', detail: '' };
+  }
+
+  const unit = {
+    daily: 'day',
+    weekly: 'week',
+    monthly: 'month',
+  }[recurrence.frequency];
+  const title =
+    recurrence.interval > 1
+      ? `Every ${recurrence.interval} ${unit}s`
+      : `Every ${unit}`;
+
+  const details: string[] = [];
+  if (recurrence.frequency === 'weekly' && recurrence.weekdays.length > 0) {
+    details.push(
+      `On ${recurrence.weekdays.map(day => WEEKDAY_LABELS[day]).join(', ')}`,
+    );
+  }
+  if (recurrence.end === 'until' && recurrence.until) {
+    details.push(`until ${format(recurrence.until, 'd MMM yyyy')}`);
+  } else if (recurrence.end === 'count' && recurrence.count) {
+    details.push(
+      `${recurrence.count} time${recurrence.count === 1 ? '' : 's'}`,
+    );
+  }
+  if (recurrence.skippedDates.length > 0) {
+    const skipped = recurrence.skippedDates.length;
+    details.push(`${skipped} date${skipped === 1 ? '' : 's'} skipped`);
+  }
+
+  return { title, detail: details.join(' · ') };
+}
@@ -23,11 +23,11 @@ export async function handleNotificationAction(
   try {
     switch (actionIdentifier) {
       case 'complete':
-        await handleCompleteAction(taskId, taskType, reminderId);
+        await handleCompleteAction(notification, taskId, taskType, reminderId);
         break;
 
       case 'snooze':
-        await handleSnoozeAction(reminderId);
+        await handleSnoozeAction(notification, reminderId);
         break;
 
       case 'review_now':
@@ -42,7 +42,7 @@ export async function handleNotificationAction(
         break;
 
       case 'dismiss':
-        await handleDismissAction(reminderId);
+        await handleDismissAction(notification, reminderId);
         break;
 
       default:
@@ -57,6 +57,7 @@ export async function handleNotificationAction(
  * Handle complete action
  */
 async function handleCompleteAction(
+  notification: Notifications.Notification,
   taskId?: string,
   taskType?: string,
   reminderId?: string,
@@ -82,12 +83,10 @@ async function handleCompleteAction(
     }
 
     // Track analytics
-    await supabase.from('reminder_analytics').insert({
-      reminder_id: reminderId,
-      action_taken: 'completed_from_notification',
-      effectiveness_score: 1.0,
-      hour_of_day: new Date().getHours(),
-      day_of_week: new Date().getDay(),
+    await trackReminderAction(notification, {
+      actionTaken: 'completed_from_notification',
+      effectivenessScore: 1.0,
+      opened: true,
     });
   } catch (error) {
     console.error('Error completing task from notification:', error);
@@ -97,7 +96,10 @@ async function handleCompleteAction(
 /**
  * Handle snooze action
  */
-async function handleSnoozeAction(reminderId?: string): Promise<void> {
+async function handleSnoozeAction(
+  notification: Notifications.Notification,
+  reminderId?: string,
+): Promise<void> {
   console.log('Snoozing reminder:', reminderId);
 
   if (!reminderId) {
@@ -110,12 +112,10 @@ async function handleSnoozeAction(reminderId?: string): Promise<void> {
     await snoozeReminder(reminderId, 60);
 
     // Track analytics
-    await supabase.from('reminder_analytics').insert({
-      reminder_id: reminderId,
-      action_taken: 'snoozed',
-      effectiveness_score: 0.5,
-      hour_of_day: new Date().getHours(),
-      day_of_week: new Date().getDay(),
+    await trackReminderAction(notification, {
+      actionTaken: 'snoozed',
+      effectivenessScore: 0.5,
+      opened: false,
     });
 
     console.log('Reminder snoozed for 1 hour');
@@ -127,7 +127,10 @@ async function handleSnoozeAction(reminderId?: string): Promise<void> {
 /**
  * Handle dismiss action
  */
-async function handleDismissAction(reminderId?: string): Promise<void> {
+async function handleDismissAction(
+  notification: Notifications.Notification,
+  reminderId?: string,
+): Promise<void> {
   console.log('Dismissing reminder:', reminderId);
 
   if (!reminderId) {
@@ -145,12 +148,10 @@ async function handleDismissAction(reminderId?: string): Promise<void> {
       .eq('id', reminderId);
 
     // Track analytics
-    await supabase.from('reminder_analytics').insert({
-      reminder_id: reminderId,
-      action_taken: 'dismissed',
-      effectiveness_score: 0,
-      hour_of_day: new Date().getHours(),
-      day_of_week: new Date().getDay(),
+    await trackReminderAction(notification, {
+      actionTaken: 'dismissed',
+      effectivenessScore: 0,
+      opened: false,
     });
   } catch (error) {
     console.error('Error dismissing reminder:', error);
@@ -169,44 +170,116 @@ function getTableName(taskType: string): string {
   return tableMap[taskType] || 'tasks';
 }
 
+/**
+ * Ids of the reminders a notification was sent for: one for a single
+ * reminder, several for a digest
+ */
+function getNotificationReminderIds(
+  data: Record<string, unknown> | undefined,
+): string[] {
+  if (Array.isArray(data?.reminderIds)) {
+    return data.reminderIds.filter(
+      (id): id is string => typeof id === 'string',
+    );
+  }
+  return typeof data?.reminderId === 'string' ? [data.reminderId] : [];
+}
+
+/**
+ * Record what the user did with a reminder notification. The hour and day
+ * are those the notification arrived at; learn-reminder-send-times reads
+ * these rows to move flexible reminders to the hours they get acted on.
+ */
+async function trackReminderAction(
+  notification: Notifications.Notification,
+  action: { actionTaken: string; effectivenessScore: number; opened: boolean },
+): Promise<void> {
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+  if (!user) return;
+
+  const data = notification.request.content.data;
+  const sentTime = new Date(notification.date);
+  const event = {
+    user_id: user.id,
+    sent_time: sentTime.toISOString(),
+    opened: action.opened,
+    action_taken: action.actionTaken,
+    effectiveness_score: action.effectivenessScore,
+    time_to_action: Math.max(
+      0,
+      Math.round((Date.now() - sentTime.getTime()) / 1000),
+    ),
+    hour_of_day: sentTime.getHours(),
+    day_of_week: sentTime.getDay(),
+  };
+
+  if (data?.summaryType === 'daily') {
+    await supabase.from('reminder_analytics').insert({
+      ...event,
+      reminder_type: 'daily_summary',
+      scheduled_time: event.sent_time,
+    });
+    return;
+  }
+
+  const reminderIds = getNotificationReminderIds(data);
+  if (reminderIds.length === 0) return;
+
+  const { data: reminders, error } = await supabase
+    .from('reminders')
+    .select('id, reminder_type, reminder_time')
+    .in('id', reminderIds);
+  if (error || !reminders || reminders.length === 0) return;
+
+  await supabase.from('reminder_analytics').insert(
+    reminders.map(reminder => ({
+      ...event,
+      reminder_id: reminder.id,
+      reminder_type: reminder.reminder_type,
+      scheduled_time: reminder.reminder_time,
+    })),
+  );
+}
+
 /**
  * Track notification opened
  */
 export async function trackNotificationOpened(
-  notificationId: string,
-  reminderId?: string,
+  notification: Notifications.Notification,
 ): Promise<void> {
   try {
     const now = new Date().toISOString();
+    const reminderIds = getNotificationReminderIds(
+      notification.request.content.data,
+    );
 
-    // Update reminder if provided
-    if (reminderId) {
+    // Update the reminders it was sent for
+    if (reminderIds.length > 0) {
       await supabase
         .from('reminders')
         .update({ opened_at: now })
-        .eq('id', reminderId);
+        .in('id', reminderIds);
     }
 
     // Track in analytics
-    if (reminderId) {
-      await supabase.from('reminder_analytics').upsert({
-        reminder_id: reminderId,
-        opened: true,
-        action_taken: 'opened',
-        effectiveness_score: 0.5,
-        hour_of_day: new Date().getHours(),
-        day_of_week: new Date().getDay(),
-      });
-    }
+    await trackReminderAction(notification, {
+      actionTaken: 'opened',
+      effectivenessScore: 0.5,
+      opened: true,
+    });
 
     // Update delivery record
-    await supabase
-      .from('notification_deliveries')
-      .update({
-        opened_at: now,
-        clicked_at: now,
-      })
-      .eq('metadata->reminderId', reminderId);
+    if (reminderIds.length === 1) {
+      await supabase
+        .from('notification_deliveries')
+        .update({
+          opened_at: now,
+          clicked_at: now,
+        })
+        .eq('metadata->>reminderId', reminderIds[0]);
+    }
 
     console.log('Notification open tracked');
   } catch (error) {
@@ -1,4 +1,5 @@
 import { versionedApiClient } from '@/services/VersionedApiClient';
+import { LearnedSendWindow } from '@/utils/sendTimes';
 
 export interface QueuedNotification {
   user_id: string;
@@ -338,3 +339,27 @@ export async function getNotificationAnalytics(userId: string): Promise<{
     return null;
   }
 }
+
+/**
+ * Get the send times learned for the user's flexible reminders
+ */
+export async function getLearnedSendWindows(
+  userId: string,
+): Promise<LearnedSendWindow[]> {
+  try {
+    const { supabase } = await import('@/services/supabase');
+    const { data, error } = await supabase
+      .from('reminder_send_windows')
+      .select(
+        'reminder_type, best_hour, fixed_hour, sample_size, learned_rate, fixed_rate, lift, learned_at',
+      )
+      .eq('user_id', userId)
+      .order('reminder_type');
+
+    if (error) throw error;
+    return (data ?? []) as LearnedSendWindow[];
+  } catch (error) {
+    console.error('Error getting learned send windows:', error);
+    return [];
+  }
+}
@@ -15,7 +15,7 @@ import { QueryClient } from '@tanstack/react-query';
  */
 export async function invalidateTaskQueries(
   queryClient: QueryClient,
-  taskType?: 'assignment' | 'lecture' | 'study_session',
+  taskType?: 'assignment' | 'lecture' | 'study_session' | 'exam',
 ): Promise<void> {
   // Invalidate task-specific queries
   if (taskType === 'assignment') {
@@ -24,11 +24,14 @@ export async function invalidateTaskQueries(
     await queryClient.invalidateQueries({ queryKey: ['lectures'] });
   } else if (taskType === 'study_session') {
     await queryClient.invalidateQueries({ queryKey: ['studySessions'] });
+  } else if (taskType === 'exam') {
+    await queryClient.invalidateQueries({ queryKey: ['exams'] });
   } else {
     // Invalidate all task types if not specified
     await queryClient.invalidateQueries({ queryKey: ['assignments'] });
     await queryClient.invalidateQueries({ queryKey: ['lectures'] });
     await queryClient.invalidateQueries({ queryKey: ['studySessions'] });
+    await queryClient.invalidateQueries({ queryKey: ['exams'] });
   }
 
   // Always invalidate these queries (they depend on all task types)
@@ -37,4 +40,10 @@ export async function invalidateTaskQueries(
   // Invalidate calendar queries to ensure tasks appear immediately
   await queryClient.invalidateQueries({ queryKey: ['calendarData'] });
   await queryClient.invalidateQueries({ queryKey: ['calendarMonthData'] });
+
+  // Study plans are built around deadlines and the calendar
+  await queryClient.invalidateQueries({ queryKey: ['studyPlan'] });
+
+  // Completing a task can extend the streak and earn badges
+  await queryClient.invalidateQueries({ queryKey: ['achievements'] });
 }
@@ -0,0 +1,893 @@
+/**
+ * Quick Add Parser
+ *
+ * Reads a one-line task entry such as "CS101 problem set 3 due Fri 5pm",
+ * "lecture MATH200 every Tue Thu 10-11 room B12" or "review chapter 4
+ * tomorrow evening" into the fields of the quick add form. It runs on the
+ * device without any network access and gives the same result for the same
+ * input, courses and time.
+ *
+ * Dates and times are wall-clock times in the user's time zone (the
+ * device's when none is given). Words that are neither a date, time,
+ * recurrence, course nor venue make up the title. Bare numbers are only
+ * read as times after "at"/"from" or a date ("Fri 5"), so "problem set 3"
+ * and "chapter 4-5" keep their numbers. Numeric dates like 3/5 are left
+ * alone, as their day/month order depends on the locale.
+ */
+
+import { Course } from '@/types';
+import {
+  LectureRecurrence,
+  NO_RECURRENCE,
+  RECURRENCE_WEEKDAYS,
+  RecurrenceWeekday,
+} from '@/utils/lectureRecurrence';
+
+export type QuickAddTaskType = 'assignment' | 'lecture' | 'study_session';
+
+export interface ParsedQuickAdd {
+  title: string;
+  taskType?: QuickAddTaskType;
+  course?: Course;
+  /** Start time, or the due date of an assignment */
+  dateTime?: Date;
+  /** End of a time range such as 10-11 */
+  endTime?: Date;
+  recurrence?: LectureRecurrence;
+  venue?: string;
+}
+
+interface CivilDate {
+  year: number;
+  /** 0-based, like Date.getMonth() */
+  month: number;
+  day: number;
+}
+
+interface Token {
+  text: string;
+  word: string;
+  used: boolean;
+}
+
+interface Clock {
+  hour: number;
+  minute: number;
+  meridiem: 'am' | 'pm' | null;
+  hasColon: boolean;
+}
+
+const WEEKDAY_NAMES = [
+  'sunday',
+  'monday',
+  'tuesday',
+  'wednesday',
+  'thursday',
+  'friday',
+  'saturday',
+];
+
+const MONTH_NAMES = [
+  'january',
+  'february',
+  'march',
+  'april',
+  'may',
+  'june',
+  'july',
+  'august',
+  'september',
+  'october',
+  'november',
+  'december',
+];
+
+const NUMBER_WORDS: Record<string, number> = {
+  a: 1,
+  an: 1,
+  one: 1,
+  two: 2,
+  three: 3,
+  four: 4,
+  five: 5,
+  six: 6,
+  seven: 7,
+  eight: 8,
+  nine: 9,
+  ten: 10,
+};
+
+const PARTS_OF_DAY: Record<string, number> = {
+  morning: 9 * 60,
+  afternoon: 14 * 60,
+  evening: 19 * 60,
+  tonight: 20 * 60,
+  night: 21 * 60,
+};
+
+const END_OF_DAY = 23 * 60 + 59;
+const DEFAULT_START = 9 * 60;
+
+const TYPE_KEYWORDS: Record<string, QuickAddTaskType> = {
+  lecture: 'lecture',
+  lectures: 'lecture',
+  lec: 'lecture',
+  class: 'lecture',
+  seminar: 'lecture',
+  tutorial: 'lecture',
+  lab: 'lecture',
+  workshop: 'lecture',
+  study: 'study_session',
+  review: 'study_session',
+  revise: 'study_session',
+  revision: 'study_session',
+  practice: 'study_session',
+  reread: 'study_session',
+  prep: 'study_session',
+  prepare: 'study_session',
+  read: 'study_session',
+  assignment: 'assignment',
+  homework: 'assignment',
+  hw: 'assignment',
+  essay: 'assignment',
+  report: 'assignment',
+  project: 'assignment',
+  problem: 'assignment',
+  pset: 'assignment',
+  worksheet: 'assignment',
+  paper: 'assignment',
+  submit: 'assignment',
+};
+
+// Dropped from the title when they lead into a parsed part ("for CS101")
+const CONNECTORS = new Set([
+  'at',
+  'on',
+  'by',
+  'for',
+  'in',
+  'from',
+  'to',
+  'until',
+  'till',
+  'and',
+  'the',
+  'this',
+  'next',
+  '@',
+  '-',
+]);
+
+const VENUE_WORDS = new Set(['room', 'rm', 'hall']);
+
+// ─── Calendar arithmetic on wall-clock dates ───────────────────────────
+
+function addDays(date: CivilDate, days: number): CivilDate {
+  const shifted = new Date(Date.UTC(date.year, date.month, date.day + days));
+  return {
+    year: shifted.getUTCFullYear(),
+    month: shifted.getUTCMonth(),
+    day: shifted.getUTCDate(),
+  };
+}
+
+function weekdayOf(date: CivilDate): number {
+  return new Date(Date.UTC(date.year, date.month, date.day)).getUTCDay();
+}
+
+// False for days the month doesn't have, e.g. 30 February
+function isRealDate(date: CivilDate): boolean {
+  const daysInMonth = new Date(
+    Date.UTC(date.year, date.month + 1, 0),
+  ).getUTCDate();
+  return (
+    date.month >= 0 &&
+    date.month <= 11 &&
+    date.day >= 1 &&
+    date.day <= daysInMonth
+  );
+}
+
+function compareDates(a: CivilDate, b: CivilDate): number {
+  return Date.UTC(a.year, a.month, a.day) - Date.UTC(b.year, b.month, b.day);
+}
+
+// Wall-clock date and minutes of the day of an instant in a time zone;
+// throws for a zone the device doesn't know
+function zonedWallClock(
+  ms: number,
+  timeZone: string,
+): { date: CivilDate; minutes: number } {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    year: 'numeric',
+    month: 'numeric',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: 'numeric',
+    hourCycle: 'h23',
+  }).formatToParts(new Date(ms));
+  const get = (type: string) =>
+    Number(parts.find(part => part.type === type)?.value);
+
+  return {
+    date: { year: get('year'), month: get('month') - 1, day: get('day') },
+    minutes: (get('hour') % 24) * 60 + get('minute'),
+  };
+}
+
+function wallClock(
+  now: Date,
+  timeZone?: string,
+): { date: CivilDate; minutes: number } {
+  if (timeZone) {
+    try {
+      return zonedWallClock(now.getTime(), timeZone);
+    } catch {
+      // Unknown zone: use the device's
+    }
+  }
+  return {
+    date: {
+      year: now.getFullYear(),
+      month: now.getMonth(),
+      day: now.getDate(),
+    },
+    minutes: now.getHours() * 60 + now.getMinutes(),
+  };
+}
+
+// The instant a wall-clock time falls on in a time zone
+function toInstant(date: CivilDate, minutes: number, timeZone?: string): Date {
+  const hour = Math.floor(minutes / 60);
+  const minute = minutes % 60;
+
+  if (timeZone) {
+    try {
+      const asUTC = Date.UTC(date.year, date.month, date.day, hour, minute);
+      const offsetAt = (ms: number) => {
+        const local = zonedWallClock(ms, timeZone);
+        return (
+          Date.UTC(local.date.year, local.date.month, local.date.day) +
+          local.minutes * 60000 -
+          Math.floor(ms / 60000) * 60000
+        );
+      };
+      // Second pass for times next to a DST change
+      const firstGuess = asUTC - offsetAt(asUTC);
+      return new Date(asUTC - offsetAt(firstGuess));
+    } catch {
+      // Unknown zone: use the device's
+    }
+  }
+  return new Date(date.year, date.month, date.day, hour, minute);
+}
+
+// ─── Word matchers ─────────────────────────────────────────────────────
+
+function parseWeekday(word: string): number | null {
+  const singular = word.endsWith('days') ? word.slice(0, -1) : word;
+  if (singular.length < 3) return null;
+  const index = WEEKDAY_NAMES.findIndex(name => name.startsWith(singular));
+  return index === -1 ? null : index;
+}
+
+// "tue/thu" or "tue,thu" in one word
+function parseWeekdayList(word: string): number[] | null {
+  const days = word.split(/[/,&]/).filter(Boolean).map(parseWeekday);
+  return days.length > 0 && days.every(day => day !== null)
+    ? (days as number[])
+    : null;
+}
+
+function parseMonth(word: string): number | null {
+  if (word.length < 3) return null;
+  const index = MONTH_NAMES.findIndex(name =>
+    name.startsWith(word.replace(/\.$/, '')),
+  );
+  return index === -1 ? null : index;
+}
+
+function parseDayOfMonth(word: string): number | null {
+  const match = word.match(/^(\d{1,2})(st|nd|rd|th)?$/);
+  if (!match) return null;
+  const day = Number(match[1]);
+  return day >= 1 && day <= 31 ? day : null;
+}
+
+function parseCount(word: string | undefined): number | null {
+  if (!word) return null;
+  if (/^\d{1,3}$/.test(word)) return Number(word);
+  return NUMBER_WORDS[word] ?? null;
+}
+
+function parseClock(word: string): Clock | null {
+  if (word === 'noon') {
+    return { hour: 12, minute: 0, meridiem: 'pm', hasColon: true };
+  }
+  const match = word.match(
+    /^(\d{1,2})(?:[:.](\d{2}))?(am|pm|a\.m\.?|p\.m\.?|a|p)?$/,
+  );
+  if (!match) return null;
+
+  const hour = Number(match[1]);
+  const minute = match[2] ? Number(match[2]) : 0;
+  if (hour > 24 || minute > 59) return null;
+
+  const meridiem = match[3] ? (match[3].startsWith('a') ? 'am' : 'pm') : null;
+  if (meridiem && (hour === 0 || hour > 12)) return null;
+
+  return { hour, minute, meridiem, hasColon: match[2] !== undefined };
+}
+
+function isMeridiem(word: string | undefined): 'am' | 'pm' | null {
+  if (!word) return null;
+  if (/^a\.?m\.?$/.test(word)) return 'am';
+  if (/^p\.?m\.?$/.test(word)) return 'pm';
+  return null;
+}
+
+/**
+ * Minutes of the day. Without am/pm, 24-hour times (17:00) are kept and
+ * 1-6 o'clock is read as the afternoon, when classes and deadlines are.
+ */
+function clockMinutes(clock: Clock, meridiem = clock.meridiem): number {
+  let hour = clock.hour % 24;
+  if (meridiem) {
+    hour = (clock.hour % 12) + (meridiem === 'pm' ? 12 : 0);
+  } else if (!(clock.hasColon && (clock.hour === 0 || clock.hour > 12))) {
+    if (clock.hour >= 1 && clock.hour <= 6) hour += 12;
+  }
+  return hour * 60 + clock.minute;
+}
+
+function resolveRange(start: Clock, end: Clock): [number, number] {
+  const endMinutes = clockMinutes(end);
+  let startMinutes = clockMinutes(start);
+
+  if (!start.meridiem && end.meridiem) {
+    // 10-11am is 10am-11am; 11-1pm is 11am-1pm
+    startMinutes = clockMinutes(start, end.meridiem);
+    if (startMinutes > endMinutes) {
+      startMinutes = clockMinutes(start, end.meridiem === 'pm' ? 'am' : 'pm');
+    }
+  }
+  if (endMinutes <= startMinutes && !end.meridiem && endMinutes + 720 < 1440) {
+    return [startMinutes, endMinutes + 720];
+  }
+  return [startMinutes, endMinutes];
+}
+
+// ─── Parser ────────────────────────────────────────────────────────────
+
+class QuickAddParse {
+  tokens: Token[];
+  today: CivilDate;
+  nowMinutes: number;
+
+  date?: CivilDate;
+  minutes?: number;
+  endMinutes?: number;
+  partOfDayMinutes?: number;
+  recurrence?: LectureRecurrence;
+  taskType?: QuickAddTaskType;
+  course?: Course;
+  venue?: string;
+
+  constructor(input: string, now: Date, timeZone?: string) {
+    this.tokens = input
+      .trim()
+      .split(/\s+/)
+      .filter(Boolean)
+      .map(text => ({
+        text,
+        word: text.toLowerCase().replace(/^[("']+|[)"',;!?]+$/g, ''),
+        used: false,
+      }));
+    const clock = wallClock(now, timeZone);
+    this.today = clock.date;
+    this.nowMinutes = clock.minutes;
+  }
+
+  word(index: number): string | undefined {
+    const token = this.tokens[index];
+    return token && !token.used ? token.word : undefined;
+  }
+
+  use(from: number, count = 1) {
+    for (let i = from; i < from + count; i++) this.tokens[i].used = true;
+  }
+
+  // Consumes weekdays from index on ("tue thu", "tue and thu", "tue/thu")
+  weekdaysFrom(index: number): { days: number[]; count: number } {
+    const days: number[] = [];
+    let i = index;
+    while (i < this.tokens.length) {
+      const word = this.word(i);
+      if (word === undefined) break;
+      const listed = parseWeekdayList(word);
+      if (listed) {
+        days.push(...listed);
+        i++;
+      } else if (
+        (word === 'and' || word === '&') &&
+        days.length > 0 &&
+        this.word(i + 1) &&
+        parseWeekdayList(this.word(i + 1)!)
+      ) {
+        i++;
+      } else {
+        break;
+      }
+    }
+    return { days, count: i - index };
+  }
+
+  setRecurrence(
+    frequency: LectureRecurrence['frequency'],
+    interval = 1,
+    days: number[] = [],
+  ) {
+    this.recurrence = {
+      ...NO_RECURRENCE,
+      frequency,
+      interval,
+      weekdays: [...new Set(days)].map(
+        day => RECURRENCE_WEEKDAYS[day] as RecurrenceWeekday,
+      ),
+    };
+    // Only lectures repeat
+    this.taskType = 'lecture';
+  }
+
+  parseRecurrence() {
+    for (let i = 0; i < this.tokens.length && !this.recurrence; i++) {
+      const word = this.word(i);
+      if (word === undefined) continue;
+
+      if (word === 'daily') {
+        this.setRecurrence('daily');
+        this.use(i);
+      } else if (word === 'weekly') {
+        this.setRecurrence('weekly');
+        this.use(i);
+      } else if (word === 'biweekly' || word === 'fortnightly') {
+        this.setRecurrence('weekly', 2);
+        this.use(i);
+      } else if (word === 'monthly') {
+        this.setRecurrence('monthly');
+        this.use(i);
+      } else if (word === 'weekdays') {
+        this.setRecurrence('weekly', 1, [1, 2, 3, 4, 5]);
+        this.use(i);
+      } else if (word === 'every') {
+        this.parseEvery(i);
+      } else if (word.endsWith('days') && parseWeekday(word) !== null) {
+        // "tuesdays and thursdays"
+        const { days, count } = this.weekdaysFrom(i);
+        this.setRecurrence('weekly', 1, days);
+        this.use(i, count);
+        if (this.word(i - 1) === 'on') this.use(i - 1);
+      }
+    }
+  }
+
+  parseEvery(index: number) {
+    let i = index + 1;
+    let interval = 1;
+    const next = this.word(i);
+
+    if (next === 'other') {
+      interval = 2;
+      i++;
+    } else {
+      const count = parseCount(next);
+      if (count !== null && count > 1) {
+        interval = count;
+        i++;
+      }
+    }
+
+    const unit = this.word(i);
+    if (unit === undefined) return;
+
+    if (unit === 'day' || unit === 'days') {
+      this.setRecurrence('daily', interval);
+      this.use(index, i - index + 1);
+    } else if (unit === 'week' || unit === 'weeks') {
+      this.setRecurrence('weekly', interval);
+      this.use(index, i - index + 1);
+      // "every week on tue"
+      if (this.word(i + 1) === 'on') {
+        const { days, count } = this.weekdaysFrom(i + 2);
+        if (count > 0) {
+          this.setRecurrence('weekly', interval, days);
+          this.use(i + 1, count + 1);
+        }
+      }
+    } else if (unit === 'month' || unit === 'months') {
+      this.setRecurrence('monthly', interval);
+      this.use(index, i - index + 1);
+    } else if (unit === 'weekday' || unit === 'weekdays') {
+      this.setRecurrence('weekly', 1, [1, 2, 3, 4, 5]);
+      this.use(index, i - index + 1);
+    } else {
+      const { days, count } = this.weekdaysFrom(i);
+      if (count > 0) {
+        this.setRecurrence('weekly', interval, days);
+        this.use(index, i - index + count);
+      }
+    }
+  }
+
+  nextWeekday(target: number, allowToday: boolean): CivilDate {
+    let diff = (target - weekdayOf(this.today) + 7) % 7;
+    if (diff === 0 && !allowToday) diff = 7;
+    return addDays(this.today, diff);
+  }
+
+  parseDate() {
+    for (let i = 0; i < this.tokens.length && !this.date; i++) {
+      const word = this.word(i);
+      if (word === undefined) continue;
+
+      if (word === 'today') {
+        this.date = this.today;
+        this.use(i);
+      } else if (word === 'tonight') {
+        this.date = this.today;
+        this.partOfDayMinutes = PARTS_OF_DAY.tonight;
+        this.use(i);
+      } else if (word === 'tomorrow' || word === 'tmr' || word === 'tmrw') {
+        this.date = addDays(this.today, 1);
+        this.use(i);
+      } else if (
+        word === 'day' &&
+        this.word(i + 1) === 'after' &&
+        this.word(i + 2) === 'tomorrow'
+      ) {
+        this.date = addDays(this.today, 2);
+        this.use(i, 3);
+      } else if (word === 'next' && this.word(i + 1) === 'week') {
+        this.date = this.nextWeekday(1, false);
+        this.use(i, 2);
+      } else if (
+        (word === 'this' || word === 'next') &&
+        this.word(i + 1) &&
+        parseWeekday(this.word(i + 1)!) !== null &&
+        !this.word(i + 1)!.endsWith('days')
+      ) {
+        this.date = this.nextWeekday(
+          parseWeekday(this.word(i + 1)!)!,
+          word === 'this',
+        );
+        this.use(i, 2);
+      } else if (parseWeekday(word) !== null && !word.endsWith('days')) {
+        this.date = this.nextWeekday(parseWeekday(word)!, true);
+        this.use(i);
+      } else if (word === 'weekend') {
+        this.date = this.nextWeekday(6, true);
+        this.use(i);
+      } else if (word === 'in') {
+        this.parseRelative(i);
+      } else {
+        this.parseCalendarDate(i);
+      }
+    }
+  }
+
+  // "in 3 days", "in a week"
+  parseRelative(index: number) {
+    const count = parseCount(this.word(index + 1));
+    const unit = this.word(index + 2);
+    if (count === null || !unit) return;
+
+    if (unit === 'day' || unit === 'days') {
+      this.date = addDays(this.today, count);
+    } else if (unit === 'week' || unit === 'weeks') {
+      this.date = addDays(this.today, count * 7);
+    } else {
+      return;
+    }
+    this.use(index, 3);
+  }
+
+  // "Mar 5", "5th of March", "March 5 2027", "2027-03-05"
+  parseCalendarDate(index: number) {
+    const word = this.word(index)!;
+
+    const iso = word.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+    if (iso) {
+      const date = {
+        year: Number(iso[1]),
+        month: Number(iso[2]) - 1,
+        day: Number(iso[3]),
+      };
+      if (!isRealDate(date)) return;
+      this.date = date;
+      this.use(index);
+      return;
+    }
+
+    let month: number | null = null;
+    let day: number | null = null;
+    let length = 0;
+
+    const monthFirst = parseMonth(word);
+    const dayAfter = this.word(index + 1);
+    if (monthFirst !== null && dayAfter && parseDayOfMonth(dayAfter)) {
+      month = monthFirst;
+      day = parseDayOfMonth(dayAfter);
+      length = 2;
+    } else if (parseDayOfMonth(word) !== null) {
+      const hasOf = this.word(index + 1) === 'of';
+      const monthWord = this.word(index + (hasOf ? 2 : 1));
+      if (monthWord && parseMonth(monthWord) !== null) {
+        day = parseDayOfMonth(word);
+        month = parseMonth(monthWord);
+        length = hasOf ? 3 : 2;
+      }
+    }
+    if (month === null || day === null) return;
+
+    const yearWord = this.word(index + length);
+    let year = this.today.year;
+    if (yearWord && /^\d{4}$/.test(yearWord)) {
+      year = Number(yearWord);
+      length++;
+    } else if (compareDates({ year, month, day }, this.today) < 0) {
+      // A date already past this year means next year's
+      year++;
+    }
+    if (!isRealDate({ year, month, day })) return;
+
+    this.date = { year, month, day };
+    this.use(index, length);
+  }
+
+  parseTime() {
+    for (let i = 0; i < this.tokens.length && this.minutes === undefined; i++) {
+      const word = this.word(i);
+      if (word === undefined) continue;
+
+      if (word === 'midnight') {
+        this.minutes = END_OF_DAY;
+        this.use(i);
+      } else if (PARTS_OF_DAY[word] !== undefined && word !== 'tonight') {
+        this.partOfDayMinutes ??= PARTS_OF_DAY[word];
+        this.use(i);
+        if (this.word(i - 1) === 'the' && this.word(i - 2) === 'in') {
+          this.use(i - 2, 2);
+        }
+      } else {
+        this.parseClockAt(i);
+      }
+    }
+  }
+
+  parseClockAt(index: number) {
+    const word = this.word(index)!;
+    const previous = this.tokens[index - 1];
+    const leadIn =
+      previous && !previous.used && ['at', 'from', '@'].includes(previous.word);
+    // Bare numbers count as times after "at"/"from" or a date ("Fri 5")
+    const bareAllowed = leadIn || (previous !== undefined && previous.used);
+
+    const withMeridiem = (clock: Clock, next: number) => {
+      const meridiem = clock.meridiem ? null : isMeridiem(this.word(next));
+      return meridiem
+        ? { clock: { ...clock, meridiem }, length: 1 }
+        : { clock, length: 0 };
+    };
+    const isDefinite = (clock: Clock) =>
+      clock.meridiem !== null || clock.hasColon;
+
+    // "10-11", "10am-12pm" in one word
+    const dashed = word.match(/^([^-]+)-([^-]+)$/);
+    if (dashed) {
+      const start = parseClock(dashed[1]);
+      const end = parseClock(dashed[2]);
+      if (start && end) {
+        const { clock: endClock, length } = withMeridiem(end, index + 1);
+        if (bareAllowed || isDefinite(start) || isDefinite(endClock)) {
+          [this.minutes, this.endMinutes] = resolveRange(start, endClock);
+          this.use(index, 1 + length);
+          if (leadIn) this.use(index - 1);
+        }
+      }
+      return;
+    }
+
+    const single = parseClock(word);
+    if (!single) return;
+    const { clock: start, length: startLength } = withMeridiem(
+      single,
+      index + 1,
+    );
+
+    // "10 to 11", "10am - 12pm"
+    const separatorIndex = index + 1 + startLength;
+    const separator = this.word(separatorIndex);
+    if (separator && ['-', 'to', 'until', 'till'].includes(separator)) {
+      const endWord = this.word(separatorIndex + 1);
+      const end = endWord ? parseClock(endWord) : null;
+      if (end) {
+        const { clock: endClock, length } = withMeridiem(
+          end,
+          separatorIndex + 2,
+        );
+        if (bareAllowed || isDefinite(start) || isDefinite(endClock)) {
+          [this.minutes, this.endMinutes] = resolveRange(start, endClock);
+          this.use(index, separatorIndex + 2 + length - index);
+          if (leadIn) this.use(index - 1);
+          return;
+        }
+      }
+    }
+
+    if (bareAllowed || isDefinite(start)) {
+      this.minutes = clockMinutes(start);
+      this.use(index, 1 + startLength);
+      if (leadIn) this.use(index - 1);
+    }
+  }
+
+  parseVenue() {
+    for (let i = 0; i < this.tokens.length - 1; i++) {
+      const word = this.word(i);
+      if (word && VENUE_WORDS.has(word) && this.word(i + 1)) {
+        const text = `${this.tokens[i].text} ${this.tokens[i + 1].text}`;
+        this.venue = text.charAt(0).toUpperCase() + text.slice(1);
+        this.use(i, 2);
+        return;
+      }
+    }
+  }
+
+  parseCourse(courses: Course[]) {
+    const normalize = (value: string) =>
+      value.toLowerCase().replace(/[\s\-_.]/g, '');
+
+    // Course codes, as one word or two ("CS 101")
+    for (const course of courses) {
+      if (!course.courseCode) continue;
+      const code = normalize(course.courseCode);
+      for (let i = 0; i < this.tokens.length; i++) {
+        const word = this.word(i);
+        if (word === undefined) continue;
+        if (normalize(word) === code) {
+          this.course = course;
+          this.use(i);
+          return;
+        }
+        const next = this.word(i + 1);
+        if (next !== undefined && normalize(word + next) === code) {
+          this.course = course;
+          this.use(i, 2);
+          return;
+        }
+      }
+    }
+
+    // Full course names, longest first so "Organic Chemistry II" wins
+    const byLength = [...courses].sort(
+      (a, b) => b.courseName.length - a.courseName.length,
+    );
+    for (const course of byLength) {
+      const nameWords = course.courseName.toLowerCase().split(/\s+/);
+      for (let i = 0; i + nameWords.length <= this.tokens.length; i++) {
+        if (nameWords.every((nameWord, j) => this.word(i + j) === nameWord)) {
+          this.course = course;
+          this.use(i, nameWords.length);
+          return;
+        }
+      }
+    }
+  }
+
+  parseTaskType() {
+    for (let i = 0; i < this.tokens.length; i++) {
+      const token = this.tokens[i];
+      if (!token.used && token.word === 'due') {
+        token.used = true;
+        this.taskType ??= 'assignment';
+      }
+    }
+    if (this.taskType) return;
+
+    const keyword = this.tokens.find(
+      token => !token.used && TYPE_KEYWORDS[token.word],
+    );
+    if (keyword) this.taskType = TYPE_KEYWORDS[keyword.word];
+  }
+
+  title(): string {
+    const remaining = this.tokens.map(token => ({ ...token, dropped: false }));
+    // Drop connectors leading into a parsed part, e.g. "for" in "for CS101"
+    for (let i = remaining.length - 1; i >= 0; i--) {
+      const next = remaining.slice(i + 1).find(token => !token.dropped);
+      if (
+        !remaining[i].used &&
+        CONNECTORS.has(remaining[i].word) &&
+        (!next || next.used)
+      ) {
+        remaining[i].dropped = true;
+      }
+    }
+    const title = remaining
+      .filter(token => !token.used && !token.dropped)
+      .map(token => token.text)
+      .join(' ')
+      .replace(/[,;]+$/, '')
+      .trim();
+    return title.charAt(0).toUpperCase() + title.slice(1);
+  }
+
+  resolveDateTime(
+    timeZone?: string,
+  ): Pick<ParsedQuickAdd, 'dateTime' | 'endTime'> {
+    const minutes =
+      this.minutes ??
+      this.partOfDayMinutes ??
+      (this.date || this.recurrence
+        ? this.taskType === 'assignment'
+          ? END_OF_DAY
+          : DEFAULT_START
+        : undefined);
+    if (minutes === undefined) return {};
+
+    let date = this.date;
+    if (!date) {
+      const aheadToday = minutes > this.nowMinutes;
+      const weekdays = this.recurrence?.weekdays ?? [];
+      if (weekdays.length > 0) {
+        // First class of the series
+        const days = weekdays.map(day => RECURRENCE_WEEKDAYS.indexOf(day));
+        date = days
+          .map(day => this.nextWeekday(day, aheadToday))
+          .sort(compareDates)[0];
+      } else {
+        date = aheadToday ? this.today : addDays(this.today, 1);
+      }
+    }
+
+    return {
+      dateTime: toInstant(date, minutes, timeZone),
+      endTime:
+        this.endMinutes !== undefined
+          ? toInstant(date, this.endMinutes, timeZone)
+          : undefined,
+    };
+  }
+}
+
+/**
+ * Parse a quick add entry
+ *
+ * @param courses The user's courses, matched by code or full name
+ * @param timeZone IANA zone of the user; the device's when unset
+ */
+export function parseQuickAdd(
+  input: string,
+  courses: Course[],
+  now: Date = new Date(),
+  timeZone?: string,
+): ParsedQuickAdd {
+  const parse = new QuickAddParse(input, now, timeZone);
+
+  parse.parseRecurrence();
+  parse.parseDate();
+  parse.parseTime();
+  parse.parseVenue();
+  parse.parseCourse(courses);
+  parse.parseTaskType();
+
+  return {
+    title: parse.title(),
+    taskType: parse.taskType,
+    course: parse.course,
+    recurrence: parse.recurrence,
+    venue: parse.venue,
+    ...parse.resolveDateTime(timeZone),
+  };
+}
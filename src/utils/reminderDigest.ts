@@ -0,0 +1,51 @@
+/**
+ * Reminder Digests
+ *
+ * process-due-reminders sends reminders that fall due close together as one
+ * push (supabase/functions/_shared/reminder-bundling.ts), linking to
+ * elaro://reminders?ids=<id>,<id>. These helpers read that link and open the
+ * task behind each listed reminder.
+ */
+
+// The ids come from a link, so cap how many we query for
+const MAX_DIGEST_IDS = 50;
+
+export interface DigestReminderLinks {
+  reminder_type: string;
+  assignment_id?: string | null;
+  lecture_id?: string | null;
+  session_id?: string | null;
+}
+
+export type DigestTaskType = 'assignment' | 'lecture' | 'study_session';
+
+/** Reminder ids from a digest link's comma-separated ids parameter */
+export function parseDigestIds(ids?: string | null): string[] {
+  if (!ids) return [];
+  const unique = new Set(
+    ids
+      .split(',')
+      .map(id => id.trim())
+      .filter(Boolean),
+  );
+  return [...unique].slice(0, MAX_DIGEST_IDS);
+}
+
+/**
+ * The task detail screen a reminder opens, or null for reminders without a
+ * task the app can show (exams, general reminders)
+ */
+export function digestReminderTask(
+  reminder: DigestReminderLinks,
+): { taskId: string; taskType: DigestTaskType } | null {
+  if (reminder.assignment_id) {
+    return { taskId: reminder.assignment_id, taskType: 'assignment' };
+  }
+  if (reminder.lecture_id) {
+    return { taskId: reminder.lecture_id, taskType: 'lecture' };
+  }
+  if (reminder.session_id) {
+    return { taskId: reminder.session_id, taskType: 'study_session' };
+  }
+  return null;
+}
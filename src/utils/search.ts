@@ -0,0 +1,277 @@
+/**
+ * Search
+ *
+ * Helpers for global search: splitting a query into terms, highlighting
+ * matches and the offline fallback that searches data already in the React
+ * Query cache. A result matches when every term starts a word of its title
+ * or text, as with the server's prefix full-text search.
+ */
+
+import { InfiniteData } from '@tanstack/react-query';
+import { Assignment, CalendarData, Course, Task } from '@/types';
+import { SearchRequest, SearchResult, SearchResultType } from '@/types/api';
+
+export const SEARCH_RESULT_TYPES: SearchResultType[] = [
+  'course',
+  'assignment',
+  'study_session',
+  'lecture',
+  'notification',
+];
+
+export const SEARCH_TYPE_LABELS: Record<SearchResultType, string> = {
+  course: 'Courses',
+  assignment: 'Assignments',
+  study_session: 'Study Sessions',
+  lecture: 'Lectures',
+  notification: 'Notifications',
+};
+
+export const MIN_SEARCH_LENGTH = 2;
+export const MAX_RECENT_SEARCHES = 8;
+
+const WORD_SEPARATOR = /[^\p{L}\p{N}]+/u;
+const WORD = /[\p{L}\p{N}]+/gu;
+
+export interface HighlightSegment {
+  text: string;
+  highlighted: boolean;
+}
+
+// A calendar task as cached, with the database columns the server sends along
+type CachedTask = Task & { course_id?: string; venue?: string | null };
+
+export function getSearchTerms(query: string): string[] {
+  return query.toLowerCase().split(WORD_SEPARATOR).filter(Boolean);
+}
+
+export function isSearchable(query: string): boolean {
+  return (
+    query.trim().length >= MIN_SEARCH_LENGTH && getSearchTerms(query).length > 0
+  );
+}
+
+/**
+ * How well a title and text match, from 0 (no match) to 1 (every term in
+ * the title). Terms only found in the text count half.
+ */
+export function rankSearchMatch(
+  terms: string[],
+  title: string | null | undefined,
+  text?: string | null,
+): number {
+  if (terms.length === 0) return 0;
+  const titleWords = title ? getSearchTerms(title) : [];
+  const textWords = text ? getSearchTerms(text) : [];
+  let rank = 0;
+  for (const term of terms) {
+    if (titleWords.some(word => word.startsWith(term))) {
+      rank += 2;
+    } else if (textWords.some(word => word.startsWith(term))) {
+      rank += 1;
+    } else {
+      return 0;
+    }
+  }
+  return rank / (terms.length * 2);
+}
+
+/** Splits text so the part of each word that matched a term stands out */
+export function getHighlightSegments(
+  text: string,
+  terms: string[],
+): HighlightSegment[] {
+  const segments: HighlightSegment[] = [];
+  const push = (part: string, highlighted: boolean) => {
+    if (!part) return;
+    const last = segments[segments.length - 1];
+    if (last && last.highlighted === highlighted) {
+      last.text += part;
+    } else {
+      segments.push({ text: part, highlighted });
+    }
+  };
+
+  let index = 0;
+  for (const match of text.matchAll(WORD)) {
+    const word = match[0];
+    const start = match.index ?? 0;
+    const length = Math.max(
+      0,
+      ...terms
+        .filter(term => word.toLowerCase().startsWith(term))
+        .map(term => term.length),
+    );
+    push(text.slice(index, start), false);
+    push(word.slice(0, length), true);
+    push(word.slice(length), false);
+    index = start + word.length;
+  }
+  push(text.slice(index), false);
+  return segments;
+}
+
+/**
+ * Shortens long text to the part around its first match, so a match deep in
+ * a description or notification is still shown.
+ */
+export function getSearchSnippet(
+  text: string,
+  terms: string[],
+  maxLength = 120,
+): string {
+  const flat = text.replace(/\s+/g, ' ').trim();
+  if (flat.length <= maxLength) return flat;
+
+  const lower = flat.toLowerCase();
+  const first = Math.min(
+    ...terms.map(term => lower.indexOf(term)).filter(i => i >= 0),
+  );
+  const start =
+    Number.isFinite(first) && first > maxLength / 3
+      ? flat.lastIndexOf(' ', first - maxLength / 3) + 1
+      : 0;
+  const snippet = flat.slice(start, start + maxLength).trim();
+  return `${start > 0 ? '…' : ''}${snippet}${
+    start + maxLength < flat.length ? '…' : ''
+  }`;
+}
+
+const isInfiniteData = <T>(data: unknown): data is InfiniteData<T> =>
+  !!data && Array.isArray((data as InfiniteData<T>).pages);
+
+const inDateRange = (date: string | null, { from, to }: SearchRequest) =>
+  !!date &&
+  (!from || Date.parse(date) >= Date.parse(from)) &&
+  (!to || Date.parse(date) <= Date.parse(to));
+
+/**
+ * Searches courses, assignments and calendar tasks in cached query data,
+ * for use offline. Notification history is not cached, so it is never
+ * found here. Filters and result order follow the search endpoint.
+ */
+export function searchCachedQueries(
+  queries: [readonly unknown[], unknown][],
+  request: SearchRequest,
+): SearchResult[] {
+  const terms = getSearchTerms(request.query);
+  const types = request.types ?? SEARCH_RESULT_TYPES;
+  const hasDateRange = !!(request.from || request.to);
+  const results = new Map<string, SearchResult>();
+  const courseNames = new Map<string, string>();
+
+  const add = (
+    result: Omit<SearchResult, 'rank'>,
+    text: string | null | undefined,
+  ) => {
+    const key = `${result.type}:${result.id}`;
+    if (
+      results.has(key) ||
+      !types.includes(result.type) ||
+      (request.course_id && result.course_id !== request.course_id) ||
+      (hasDateRange && !inDateRange(result.date, request))
+    ) {
+      return;
+    }
+    const rank = rankSearchMatch(terms, result.title, text);
+    if (rank > 0) results.set(key, { ...result, rank });
+  };
+
+  for (const [queryKey, data] of queries) {
+    switch (queryKey[0]) {
+      case 'courses':
+        if (!isInfiniteData<{ courses: Course[] }>(data)) break;
+        for (const course of data.pages.flatMap(page => page.courses)) {
+          courseNames.set(course.id, course.courseName);
+          add(
+            {
+              type: 'course',
+              id: course.id,
+              title: course.courseName,
+              subtitle: course.courseCode ?? null,
+              course_id: course.id,
+              course_name: course.courseName,
+              // Courses are undated and drop out of date-range searches
+              date: null,
+            },
+            course.courseCode,
+          );
+        }
+        break;
+
+      case 'assignments':
+        if (!isInfiniteData<{ assignments: Assignment[] }>(data)) break;
+        for (const assignment of data.pages.flatMap(page => page.assignments)) {
+          add(
+            {
+              type: 'assignment',
+              id: assignment.id,
+              title: assignment.title,
+              subtitle: assignment.description ?? null,
+              course_id: assignment.courseId,
+              course_name: null,
+              date: assignment.dueDate,
+            },
+            assignment.description,
+          );
+        }
+        break;
+
+      case 'calendarData':
+      case 'calendarMonthData':
+        for (const task of Object.values(
+          (data ?? {}) as CalendarData,
+        ).flat() as CachedTask[]) {
+          if (task.course_id && task.courses?.courseName) {
+            courseNames.set(task.course_id, task.courses.courseName);
+          }
+          if (task.type === 'exam') continue;
+          // Lectures show where they are held; the venue is searched too
+          const isLecture = task.type === 'lecture';
+          add(
+            {
+              type: task.type,
+              id: task.id,
+              title: task.name,
+              subtitle: isLecture
+                ? (task.venue ?? null)
+                : (task.description ?? null),
+              course_id: task.course_id ?? null,
+              course_name: task.courses?.courseName ?? null,
+              date: task.startTime || task.date,
+            },
+            isLecture ? task.venue : task.description,
+          );
+        }
+        break;
+    }
+  }
+
+  // Cached assignments only have their course's id
+  return [...results.values()]
+    .map(result =>
+      result.course_name || !result.course_id
+        ? result
+        : {
+            ...result,
+            course_name: courseNames.get(result.course_id) ?? null,
+          },
+    )
+    .sort(
+      (a, b) =>
+        SEARCH_RESULT_TYPES.indexOf(a.type) -
+          SEARCH_RESULT_TYPES.indexOf(b.type) ||
+        b.rank - a.rank ||
+        (b.date ?? '').localeCompare(a.date ?? ''),
+    );
+}
+
+/** Puts a search first in the recent list, without repeats */
+export function addRecentSearch(recent: string[], query: string): string[] {
+  const trimmed = query.trim();
+  if (!trimmed) return recent;
+  return [
+    trimmed,
+    ...recent.filter(item => item.toLowerCase() !== trimmed.toLowerCase()),
+  ].slice(0, MAX_RECENT_SEARCHES);
+}
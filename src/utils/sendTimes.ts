@@ -0,0 +1,56 @@
+/**
+ * Learned Send Times
+ *
+ * learn-reminder-send-times stores, per reminder type, the local hour each
+ * user acts on reminders most (reminder_send_windows). These helpers format
+ * those windows for the notification analytics screen.
+ */
+
+export interface LearnedSendWindow {
+  reminder_type: string;
+  best_hour: number | null;
+  fixed_hour: number;
+  sample_size: number;
+  learned_rate: number | null;
+  fixed_rate: number | null;
+  lift: number | null;
+  learned_at: string;
+}
+
+// Sends are jittered by up to this much either side of the learned hour
+const JITTER_MINUTES = 30;
+
+function formatClockTime(minutes: number): string {
+  const wrapped = ((minutes % 1440) + 1440) % 1440;
+  const hour = Math.floor(wrapped / 60);
+  const minute = wrapped % 60;
+  const period = hour < 12 ? 'AM' : 'PM';
+  const displayHour = hour % 12 === 0 ? 12 : hour % 12;
+  return minute === 0
+    ? `${displayHour} ${period}`
+    : `${displayHour}:${String(minute).padStart(2, '0')} ${period}`;
+}
+
+/** The time span reminders planned for this local hour go out in */
+export function formatSendWindow(hour: number): string {
+  return `${formatClockTime(hour * 60 - JITTER_MINUTES)} – ${formatClockTime(
+    hour * 60 + JITTER_MINUTES,
+  )}`;
+}
+
+/**
+ * Engagement at the learned hour relative to the fixed one, e.g. "+25%".
+ * Null when there aren't enough sends at both hours to compare them.
+ */
+export function formatLift(lift: number | null | undefined): string | null {
+  if (lift === null || lift === undefined || !Number.isFinite(lift)) {
+    return null;
+  }
+  const percent = Math.round(lift * 100);
+  return percent > 0 ? `+${percent}%` : `${percent}%`;
+}
+
+/** Whether the learned hour differs from the fixed one */
+export function isShiftedWindow(window: LearnedSendWindow): boolean {
+  return window.best_hour !== null && window.best_hour !== window.fixed_hour;
+}
@@ -0,0 +1,98 @@
+/**
+ * Study Plan
+ *
+ * Helpers for reviewing a study plan proposed by the server
+ * (study-sessions/plan). Blocks are identified by their assignment and start
+ * time; the user keeps or drops each one before the plan is accepted.
+ */
+
+import { format, isToday, isTomorrow } from 'date-fns';
+import {
+  AcceptStudyPlanRequest,
+  StudyPlanBlock,
+  StudyPlanProposal,
+} from '@/types';
+
+/** Effort estimates offered for an assignment, in minutes */
+export const EFFORT_OPTIONS = [30, 60, 120, 240, 480, 960];
+
+/** Reminder added to accepted study blocks */
+export const STUDY_PLAN_REMINDER_MINUTES = 15;
+
+/** e.g. "45m", "2h", "1h 30m" */
+export function formatStudyMinutes(minutes: number): string {
+  if (minutes < 60) return `${minutes}m`;
+  const hours = Math.floor(minutes / 60);
+  const rest = minutes % 60;
+  return rest === 0 ? `${hours}h` : `${hours}h ${rest}m`;
+}
+
+export function getStudyPlanBlockKey(block: StudyPlanBlock): string {
+  return `${block.assignment_id}@${block.start}`;
+}
+
+export interface StudyPlanDay {
+  title: string;
+  blocks: StudyPlanBlock[];
+}
+
+/** Blocks grouped by the local day they start on, in order */
+export function groupStudyPlanBlocks(blocks: StudyPlanBlock[]): StudyPlanDay[] {
+  const days = new Map<string, StudyPlanDay>();
+  for (const block of blocks) {
+    const start = new Date(block.start);
+    const key = format(start, 'yyyy-MM-dd');
+    if (!days.has(key)) {
+      const title = isToday(start)
+        ? 'Today'
+        : isTomorrow(start)
+          ? 'Tomorrow'
+          : format(start, 'EEEE, MMM d');
+      days.set(key, { title, blocks: [] });
+    }
+    days.get(key)!.blocks.push(block);
+  }
+  return [...days.values()];
+}
+
+/** Sessions of the previous plan that accepting this one replaces */
+export function getReplacedSessionIds(plan: StudyPlanProposal): string[] {
+  return [...plan.missed_session_ids, ...plan.outdated_session_ids];
+}
+
+/**
+ * Why the plan needs another look, e.g. "2 missed blocks and 1 block for a
+ * moved deadline will be replanned"; null when nothing changed
+ */
+export function describeStudyPlanChanges(
+  plan: StudyPlanProposal,
+): string | null {
+  const missed = plan.missed_session_ids.length;
+  const outdated = plan.outdated_session_ids.length;
+  const parts = [
+    missed > 0 && `${missed} missed block${missed === 1 ? '' : 's'}`,
+    outdated > 0 &&
+      `${outdated} block${outdated === 1 ? '' : 's'} for a moved deadline`,
+  ].filter(Boolean);
+  if (parts.length === 0) return null;
+
+  return `${parts.join(' and ')} will be replanned`;
+}
+
+export function buildAcceptStudyPlanRequest(
+  plan: StudyPlanProposal,
+  selectedKeys: ReadonlySet<string>,
+  reminders: number[] = [STUDY_PLAN_REMINDER_MINUTES],
+): AcceptStudyPlanRequest {
+  return {
+    blocks: plan.blocks
+      .filter(block => selectedKeys.has(getStudyPlanBlockKey(block)))
+      .map(block => ({
+        assignment_id: block.assignment_id,
+        start: block.start,
+        duration_minutes: block.duration_minutes,
+      })),
+    replace_session_ids: getReplacedSessionIds(plan),
+    reminders,
+  };
+}
@@ -0,0 +1,109 @@
+/**
+ * Subtasks
+ *
+ * Helpers for an assignment's checklist. The list is saved as a whole, so
+ * every helper returns a new array in the user's order. Progress is the
+ * share of subtasks checked off; assignments without subtasks have none.
+ */
+
+import { AssignmentSubtask } from '@/types';
+import { generateUUID } from '@/utils/uuid';
+
+export const MAX_SUBTASKS = 50;
+
+export interface SubtaskProgress {
+  completed: number;
+  total: number;
+  /** 0-100, rounded down so 100 only means every subtask is done */
+  percent: number;
+}
+
+export function getSubtaskProgress(
+  subtasks?: AssignmentSubtask[] | null,
+): SubtaskProgress | null {
+  if (!subtasks || subtasks.length === 0) return null;
+
+  const completed = subtasks.filter(subtask => !!subtask.completedAt).length;
+  return {
+    completed,
+    total: subtasks.length,
+    percent: Math.floor((completed / subtasks.length) * 100),
+  };
+}
+
+/** e.g. "2 of 5 subtasks · 40%" */
+export function formatSubtaskProgress(progress: SubtaskProgress): string {
+  return `${progress.completed} of ${progress.total} subtask${
+    progress.total === 1 ? '' : 's'
+  } · ${progress.percent}%`;
+}
+
+export function createSubtask(
+  title: string,
+  dueDate?: Date | null,
+): AssignmentSubtask {
+  return {
+    id: generateUUID(),
+    title: title.trim(),
+    dueDate: dueDate ? dueDate.toISOString() : undefined,
+  };
+}
+
+/** Trim titles and drop subtasks left blank, before saving */
+export function normalizeSubtasks(
+  subtasks: AssignmentSubtask[],
+): AssignmentSubtask[] {
+  return subtasks
+    .map(subtask => ({ ...subtask, title: subtask.title.trim() }))
+    .filter(subtask => subtask.title.length > 0);
+}
+
+export function updateSubtask(
+  subtasks: AssignmentSubtask[],
+  id: string,
+  changes: Partial<Omit<AssignmentSubtask, 'id'>>,
+): AssignmentSubtask[] {
+  return subtasks.map(subtask =>
+    subtask.id === id ? { ...subtask, ...changes } : subtask,
+  );
+}
+
+/** Check a subtask off, or uncheck it if it was done */
+export function toggleSubtask(
+  subtasks: AssignmentSubtask[],
+  id: string,
+  now: Date = new Date(),
+): AssignmentSubtask[] {
+  return subtasks.map(subtask =>
+    subtask.id === id
+      ? {
+          ...subtask,
+          completedAt: subtask.completedAt ? undefined : now.toISOString(),
+        }
+      : subtask,
+  );
+}
+
+export function removeSubtask(
+  subtasks: AssignmentSubtask[],
+  id: string,
+): AssignmentSubtask[] {
+  return subtasks.filter(subtask => subtask.id !== id);
+}
+
+/** Swap a subtask with its neighbour; no-op at either end of the list */
+export function moveSubtask(
+  subtasks: AssignmentSubtask[],
+  id: string,
+  direction: 'up' | 'down',
+): AssignmentSubtask[] {
+  const index = subtasks.findIndex(subtask => subtask.id === id);
+  const target = direction === 'up' ? index - 1 : index + 1;
+  if (index === -1 || target < 0 || target >= subtasks.length) {
+    return subtasks;
+  }
+
+  const reordered = [...subtasks];
+  [reordered[index], reordered[target]] = [reordered[target], reordered[index]];
+  return reordered;
+}
@@ -0,0 +1,113 @@
+/**
+ * Sync Conflict Utilities
+ *
+ * Three-way, field-level merge for offline UPDATE actions. Each queued
+ * update remembers the values it was made against (its base); when the
+ * server row has moved on, every edited field is compared across base,
+ * local and server:
+ * - server still equals base: only we changed it, keep the local value
+ * - server equals local: both sides made the same change, nothing to send
+ * - otherwise both sides changed it differently: a conflict for the user
+ */
+
+import { SyncConflictField } from '@/types/offline';
+
+export interface UpdateBase {
+  baseVersion?: number;
+  baseData: Record<string, unknown>;
+}
+
+export interface FieldMergeResult {
+  /** Fields that can be sent without overwriting a server change */
+  merged: Record<string, unknown>;
+  conflicts: SyncConflictField[];
+}
+
+const toCamelCase = (field: string) =>
+  field.replace(/_([a-z])/g, (_, letter: string) => letter.toUpperCase());
+
+/**
+ * Read a field from a record that may be a raw row (snake_case) or a
+ * mapped entity (camelCase)
+ */
+export function readField(
+  record: Record<string, unknown>,
+  field: string,
+): unknown {
+  if (field in record) return record[field];
+  return record[toCamelCase(field)];
+}
+
+/**
+ * Null and undefined are the same value here, since the server returns
+ * null for fields the client never set
+ */
+export function valuesEqual(a: unknown, b: unknown): boolean {
+  if (a === b) return true;
+  if (a == null || b == null) return a == null && b == null;
+  if (typeof a === 'object' && typeof b === 'object') {
+    return JSON.stringify(a) === JSON.stringify(b);
+  }
+  return false;
+}
+
+/**
+ * Snapshot the version and current values of the fields an update edits,
+ * taken from the cached copy the user was looking at
+ */
+export function captureUpdateBase(
+  record: object | null | undefined,
+  updates: object,
+): UpdateBase {
+  if (!record) return { baseData: {} };
+
+  const source = record as Record<string, unknown>;
+  const version = source.version;
+  const baseData: Record<string, unknown> = {};
+  Object.keys(updates).forEach(field => {
+    baseData[field] = readField(source, field) ?? null;
+  });
+
+  return {
+    baseVersion: typeof version === 'number' ? version : undefined,
+    baseData,
+  };
+}
+
+/**
+ * Merge local edits onto the current server record
+ *
+ * @param local - The queued update's fields
+ * @param base - Values of those fields when the edit was made; a field
+ * missing from base is treated as unknown, so any server difference conflicts
+ * @param server - The current server record
+ */
+export function mergeFieldUpdates(
+  local: Record<string, unknown>,
+  base: Record<string, unknown>,
+  server: Record<string, unknown>,
+): FieldMergeResult {
+  const merged: Record<string, unknown> = {};
+  const conflicts: SyncConflictField[] = [];
+
+  Object.entries(local).forEach(([field, localValue]) => {
+    const serverValue = readField(server, field);
+
+    if (valuesEqual(serverValue, localValue)) return;
+
+    const hasBase = field in base;
+    if (hasBase && valuesEqual(serverValue, base[field])) {
+      merged[field] = localValue;
+      return;
+    }
+
+    conflicts.push({
+      field,
+      baseValue: hasBase ? base[field] : null,
+      localValue,
+      serverValue: serverValue ?? null,
+    });
+  });
+
+  return { merged, conflicts };
+}
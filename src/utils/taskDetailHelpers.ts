@@ -29,27 +29,6 @@ export const formatCountdown = (dueDate: string | Date): string => {
   return `Due in ${daysDiff} days`;
 };
 
-/**
- * Format recurrence pattern to human-readable text
- */
-export const formatRecurrenceLabel = (
-  isRecurring: boolean,
-  pattern?: string | null,
-): string => {
-  if (!isRecurring || !pattern) {
-    return 'One-time';
-  }
-
-  switch (pattern) {
-    case 'weekly':
-      return 'Repeats Weekly';
-    case 'bi-weekly':
-      return 'Repeats Bi-weekly';
-    default:
-      return 'Repeats';
-  }
-};
-
 /**
  * Format duration between two dates
  */
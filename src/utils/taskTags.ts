@@ -0,0 +1,97 @@
+/**
+ * Task tags and priority
+ *
+ * Labels and colors for task priorities, the palette new tags pick from, and
+ * the filter the calendar, home and course screens apply to their tasks. A
+ * task passes the filter when it has any of the chosen tags and one of the
+ * chosen priorities; an empty choice lets every task through.
+ */
+
+import { CalendarData, Task, TaskPriority } from '@/types';
+
+export const TASK_PRIORITIES: TaskPriority[] = ['high', 'medium', 'low'];
+
+export const DEFAULT_TASK_PRIORITY: TaskPriority = 'medium';
+
+export const PRIORITY_LABELS: Record<TaskPriority, string> = {
+  high: 'High',
+  medium: 'Medium',
+  low: 'Low',
+};
+
+export const PRIORITY_COLORS: Record<TaskPriority, string> = {
+  high: '#F44336',
+  medium: '#FF9800',
+  low: '#4CAF50',
+};
+
+export const TAG_COLORS = [
+  '#2C5EFF',
+  '#8B5CF6',
+  '#EC4899',
+  '#EF4444',
+  '#F97316',
+  '#EAB308',
+  '#22C55E',
+  '#14B8A6',
+  '#64748B',
+];
+
+export interface TaskFilter {
+  tagIds: string[];
+  priorities: TaskPriority[];
+}
+
+export const EMPTY_TASK_FILTER: TaskFilter = { tagIds: [], priorities: [] };
+
+export function isFilterActive(filter: TaskFilter): boolean {
+  return filter.tagIds.length > 0 || filter.priorities.length > 0;
+}
+
+/** Adds the value to the list, or removes it when already there */
+export function toggleFilterValue<T>(values: T[], value: T): T[] {
+  return values.includes(value)
+    ? values.filter(existing => existing !== value)
+    : [...values, value];
+}
+
+// Exams have neither, so they only pass an empty filter
+export function matchesTaskFilter(task: Task, filter: TaskFilter): boolean {
+  if (
+    filter.priorities.length > 0 &&
+    (task.type === 'exam' ||
+      !filter.priorities.includes(task.priority ?? DEFAULT_TASK_PRIORITY))
+  ) {
+    return false;
+  }
+  if (
+    filter.tagIds.length > 0 &&
+    !filter.tagIds.some(tagId => task.tag_ids?.includes(tagId))
+  ) {
+    return false;
+  }
+  return true;
+}
+
+export function filterTasks<T extends Task>(
+  tasks: T[],
+  filter: TaskFilter,
+): T[] {
+  if (!isFilterActive(filter)) return tasks;
+  return tasks.filter(task => matchesTaskFilter(task, filter));
+}
+
+/** Filters each day's tasks; days left without tasks are dropped */
+export function filterCalendarData(
+  data: CalendarData,
+  filter: TaskFilter,
+): CalendarData {
+  if (!isFilterActive(filter)) return data;
+
+  const filtered: CalendarData = {};
+  Object.entries(data).forEach(([date, tasks]) => {
+    const matching = filterTasks(tasks, filter);
+    if (matching.length > 0) filtered[date] = matching;
+  });
+  return filtered;
+}
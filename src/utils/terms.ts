@@ -0,0 +1,126 @@
+/**
+ * Terms
+ *
+ * Helpers for academic terms. Term and break dates are YYYY-MM-DD calendar
+ * days, compared as strings; a term includes both its first and last day.
+ */
+
+import { format } from 'date-fns';
+import { Course, Term, TermBreak } from '@/types';
+
+export type TermStatus = 'upcoming' | 'current' | 'past' | 'archived';
+
+export interface TermDraft {
+  name: string;
+  startDate: string;
+  endDate: string;
+  breaks: TermBreak[];
+}
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/** YYYY-MM-DD of a date in the device's time zone */
+export function toTermDate(date: Date): string {
+  return format(date, 'yyyy-MM-dd');
+}
+
+export function isValidTermDate(value: string): boolean {
+  if (!DATE_PATTERN.test(value)) return false;
+  const parsed = new Date(`${value}T00:00:00Z`);
+  return (
+    !Number.isNaN(parsed.getTime()) &&
+    parsed.toISOString().slice(0, 10) === value
+  );
+}
+
+export function getTermStatus(
+  term: Pick<Term, 'startDate' | 'endDate' | 'archivedAt'>,
+  today: string = toTermDate(new Date()),
+): TermStatus {
+  if (term.archivedAt) return 'archived';
+  if (today < term.startDate) return 'upcoming';
+  if (today > term.endDate) return 'past';
+  return 'current';
+}
+
+/** The break the date falls in, if any */
+export function getTermBreak(
+  term: Pick<Term, 'breaks'>,
+  date: string,
+): TermBreak | null {
+  return (
+    term.breaks.find(
+      termBreak => date >= termBreak.startDate && date <= termBreak.endDate,
+    ) ?? null
+  );
+}
+
+/** The unarchived term today falls in; the latest-starting one on overlap */
+export function getCurrentTerm(
+  terms: Term[],
+  today: string = toTermDate(new Date()),
+): Term | null {
+  return (
+    [...terms]
+      .sort((a, b) => b.startDate.localeCompare(a.startDate))
+      .find(term => getTermStatus(term, today) === 'current') ?? null
+  );
+}
+
+/** Terms for display: unarchived ones first, each group newest first */
+export function sortTerms(terms: Term[]): Term[] {
+  return [...terms].sort((a, b) => {
+    if (!!a.archivedAt !== !!b.archivedAt) return a.archivedAt ? 1 : -1;
+    return b.startDate.localeCompare(a.startDate);
+  });
+}
+
+/** Courses whose term is not archived, courses outside any term included */
+export function filterActiveTermCourses<T extends Pick<Course, 'termId'>>(
+  courses: T[],
+  terms: Term[],
+): T[] {
+  const archived = new Set(
+    terms.filter(term => term.archivedAt).map(term => term.id),
+  );
+  return courses.filter(
+    course => !course.termId || !archived.has(course.termId),
+  );
+}
+
+/**
+ * Check a term before saving it
+ *
+ * @returns A message describing the first problem, or null if it is valid
+ */
+export function validateTermDraft(draft: TermDraft): string | null {
+  if (!draft.name.trim()) return 'Give the term a name.';
+  if (!isValidTermDate(draft.startDate) || !isValidTermDate(draft.endDate)) {
+    return 'Enter dates as YYYY-MM-DD.';
+  }
+  if (draft.endDate < draft.startDate) {
+    return 'The term cannot end before it starts.';
+  }
+
+  for (const termBreak of draft.breaks) {
+    const label = termBreak.name.trim();
+    if (!label) return 'Give each break a name.';
+    if (
+      !isValidTermDate(termBreak.startDate) ||
+      !isValidTermDate(termBreak.endDate)
+    ) {
+      return `Enter the dates of ${label} as YYYY-MM-DD.`;
+    }
+    if (termBreak.endDate < termBreak.startDate) {
+      return `${label} cannot end before it starts.`;
+    }
+    if (
+      termBreak.startDate < draft.startDate ||
+      termBreak.endDate > draft.endDate
+    ) {
+      return `${label} must fall within the term.`;
+    }
+  }
+
+  return null;
+}
@@ -0,0 +1,33 @@
+/**
+ * Weekly Reports
+ *
+ * Reports are generated on the server (supabase/functions/_shared/weekly-report.ts)
+ * at the end of each week. These helpers prepare stored report numbers for
+ * the report screens.
+ */
+
+// Shortest bar drawn for a day with any activity
+const MIN_BAR_FRACTION = 0.04;
+
+/**
+ * Bar lengths as fractions of the largest value. Days with any activity
+ * stay visible next to a much busier day; an all-zero week has no bars.
+ */
+export function scaleBars(values: number[]): number[] {
+  const max = Math.max(0, ...values);
+  if (max === 0) return values.map(() => 0);
+  return values.map(value =>
+    value > 0 ? Math.max(value / max, MIN_BAR_FRACTION) : 0,
+  );
+}
+
+/** Minutes as hours, to one decimal place */
+export function studyHours(minutes: number): number {
+  return Math.round((minutes / 60) * 10) / 10;
+}
+
+/** A 0-1 completion rate as a whole percentage, clamped to 0-100 */
+export function ratePercent(rate: number): number {
+  if (!Number.isFinite(rate)) return 0;
+  return Math.round(Math.min(Math.max(rate, 0), 1) * 100);
+}
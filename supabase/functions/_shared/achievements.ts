@@ -0,0 +1,399 @@
+/**
+ * Study Streaks and Achievements
+ *
+ * A study day is a calendar day, in the user's timezone, on which they
+ * completed a task or did a spaced-repetition review. The streak counts
+ * consecutive study days; every STREAK_DAYS_PER_FREEZE days of streak earns
+ * a freeze (up to MAX_STREAK_FREEZES), and each freeze covers one missed day.
+ *
+ * Badges come from rules over the user's progress. Each badge has a stable
+ * key and is stored once per user (user_achievements), so the rules can be
+ * re-checked after every completion without awarding anything twice.
+ */
+
+import { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.0.0';
+
+export const STREAK_DAYS_PER_FREEZE = 7;
+export const MAX_STREAK_FREEZES = 2;
+
+const STREAK_BADGES = [3, 7, 14, 30, 100];
+const TASK_MILESTONES = [1, 10, 50, 100, 500];
+const SRS_CONSISTENCY_BADGES = [7, 30];
+// Improvement needs a busy week that beats the one before by a quarter
+const IMPROVEMENT_MIN_TASKS = 5;
+const IMPROVEMENT_RATIO = 1.25;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type AchievementType =
+  | 'streak'
+  | 'milestone'
+  | 'improvement'
+  | 'srs_consistency';
+
+export interface StreakState {
+  current_streak: number;
+  longest_streak: number;
+  last_activity_date: string | null;
+  freezes_available: number;
+  freezes_used: number;
+}
+
+export interface AchievementStats {
+  longestStreak: number;
+  completedTasks: number;
+  /** Monday of the current week, YYYY-MM-DD in the user's timezone */
+  weekStart: string;
+  completedThisWeek: number;
+  completedLastWeek: number;
+  /** Consecutive days with a review, ending today or yesterday */
+  srsReviewDays: number;
+}
+
+export interface EarnedAchievement {
+  achievement_key: string;
+  type: AchievementType;
+  metadata: Record<string, unknown>;
+}
+
+const EMPTY_STREAK: StreakState = {
+  current_streak: 0,
+  longest_streak: 0,
+  last_activity_date: null,
+  freezes_available: 0,
+  freezes_used: 0,
+};
+
+/** YYYY-MM-DD of an instant in a timezone, falling back to UTC */
+export function localDate(date: Date, timeZone: string): string {
+  try {
+    return new Intl.DateTimeFormat('en-CA', {
+      timeZone,
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+    }).format(date);
+  } catch {
+    return date.toISOString().slice(0, 10);
+  }
+}
+
+/** Shift a YYYY-MM-DD date by whole days */
+export function addDays(day: string, days: number): string {
+  return new Date(Date.parse(`${day}T00:00:00Z`) + days * DAY_MS)
+    .toISOString()
+    .slice(0, 10);
+}
+
+function daysBetween(from: string, to: string): number {
+  return Math.round(
+    (Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / DAY_MS,
+  );
+}
+
+function weekStartOf(day: string): string {
+  const weekday = new Date(`${day}T00:00:00Z`).getUTCDay();
+  return addDays(day, -((weekday + 6) % 7));
+}
+
+/**
+ * The streak after studying on `day`. Days already counted (or earlier)
+ * leave it unchanged; a gap is bridged when there are enough freezes.
+ */
+export function advanceStreak(state: StreakState, day: string): StreakState {
+  if (!state.last_activity_date || state.current_streak === 0) {
+    return {
+      ...state,
+      current_streak: 1,
+      longest_streak: Math.max(state.longest_streak, 1),
+      last_activity_date: day,
+    };
+  }
+
+  const gap = daysBetween(state.last_activity_date, day);
+  if (gap <= 0) return state;
+
+  const missedDays = gap - 1;
+  if (missedDays > state.freezes_available) {
+    return {
+      ...state,
+      current_streak: 1,
+      longest_streak: Math.max(state.longest_streak, 1),
+      last_activity_date: day,
+      freezes_available: 0,
+    };
+  }
+
+  const currentStreak = state.current_streak + 1;
+  const earnedFreeze = currentStreak % STREAK_DAYS_PER_FREEZE === 0 ? 1 : 0;
+  return {
+    current_streak: currentStreak,
+    longest_streak: Math.max(state.longest_streak, currentStreak),
+    last_activity_date: day,
+    freezes_available: Math.min(
+      MAX_STREAK_FREEZES,
+      state.freezes_available - missedDays + earnedFreeze,
+    ),
+    freezes_used: state.freezes_used + missedDays,
+  };
+}
+
+/**
+ * The streak as of `today`: zero once more days have been missed than the
+ * freezes can cover. Today itself isn't missed until it's over.
+ */
+export function effectiveStreak(state: StreakState, today: string): number {
+  if (!state.last_activity_date) return 0;
+  const missedDays = daysBetween(state.last_activity_date, today) - 1;
+  return missedDays > state.freezes_available ? 0 : state.current_streak;
+}
+
+/** Length of the run of consecutive days ending today, or yesterday */
+export function consecutiveDays(days: Iterable<string>, today: string): number {
+  const studied = new Set(days);
+  let day = studied.has(today) ? today : addDays(today, -1);
+  let count = 0;
+  while (studied.has(day)) {
+    count++;
+    day = addDays(day, -1);
+  }
+  return count;
+}
+
+/** Every badge the stats qualify for, earned before or not */
+export function evaluateAchievements(
+  stats: AchievementStats,
+): EarnedAchievement[] {
+  const earned: EarnedAchievement[] = [];
+
+  STREAK_BADGES.filter(days => stats.longestStreak >= days).forEach(days =>
+    earned.push({
+      achievement_key: `streak_${days}`,
+      type: 'streak',
+      metadata: { days },
+    }),
+  );
+
+  TASK_MILESTONES.filter(count => stats.completedTasks >= count).forEach(
+    count =>
+      earned.push({
+        achievement_key: `tasks_${count}`,
+        type: 'milestone',
+        metadata: { count },
+      }),
+  );
+
+  if (
+    stats.completedLastWeek > 0 &&
+    stats.completedThisWeek >= IMPROVEMENT_MIN_TASKS &&
+    stats.completedThisWeek >= stats.completedLastWeek * IMPROVEMENT_RATIO
+  ) {
+    earned.push({
+      achievement_key: `improvement_${stats.weekStart}`,
+      type: 'improvement',
+      metadata: {
+        this_week: stats.completedThisWeek,
+        last_week: stats.completedLastWeek,
+      },
+    });
+  }
+
+  SRS_CONSISTENCY_BADGES.filter(days => stats.srsReviewDays >= days).forEach(
+    days =>
+      earned.push({
+        achievement_key: `srs_days_${days}`,
+        type: 'srs_consistency',
+        metadata: { days },
+      }),
+  );
+
+  return earned;
+}
+
+async function getUserTimezone(
+  supabaseClient: SupabaseClient,
+  userId: string,
+): Promise<string> {
+  const { data } = await supabaseClient
+    .from('users')
+    .select('timezone')
+    .eq('id', userId)
+    .maybeSingle();
+  return data?.timezone || 'UTC';
+}
+
+export async function getStreak(
+  supabaseClient: SupabaseClient,
+  userId: string,
+): Promise<StreakState> {
+  const { data, error } = await supabaseClient
+    .from('streaks')
+    .select(
+      'current_streak, longest_streak, last_activity_date, freezes_available, freezes_used',
+    )
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data ? { ...EMPTY_STREAK, ...data } : EMPTY_STREAK;
+}
+
+/**
+ * The streak as shown to the user: current_streak drops to zero once it
+ * has lapsed, even though the stored row only changes on the next study day
+ */
+export async function getStreakSummary(
+  supabaseClient: SupabaseClient,
+  userId: string,
+  now = new Date(),
+): Promise<{
+  current_streak: number;
+  longest_streak: number;
+  last_activity_date: string | null;
+  freezes_available: number;
+}> {
+  const [timezone, state] = await Promise.all([
+    getUserTimezone(supabaseClient, userId),
+    getStreak(supabaseClient, userId),
+  ]);
+  const currentStreak = effectiveStreak(state, localDate(now, timezone));
+
+  return {
+    current_streak: currentStreak,
+    longest_streak: state.longest_streak,
+    last_activity_date: state.last_activity_date,
+    freezes_available: currentStreak > 0 ? state.freezes_available : 0,
+  };
+}
+
+/**
+ * Count a study day for the user at `at` and save the streak
+ */
+export async function recordStudyDay(
+  supabaseClient: SupabaseClient,
+  userId: string,
+  at: Date,
+): Promise<StreakState> {
+  const [timezone, state] = await Promise.all([
+    getUserTimezone(supabaseClient, userId),
+    getStreak(supabaseClient, userId),
+  ]);
+
+  const next = advanceStreak(state, localDate(at, timezone));
+  if (next === state) return state;
+
+  const { error } = await supabaseClient.from('streaks').upsert(
+    {
+      user_id: userId,
+      ...next,
+      updated_at: new Date().toISOString(),
+    },
+    { onConflict: 'user_id' },
+  );
+  if (error) throw error;
+
+  return next;
+}
+
+async function countCompletedTasks(
+  supabaseClient: SupabaseClient,
+  userId: string,
+): Promise<number> {
+  const counts = await Promise.all(
+    ['assignments', 'lectures', 'study_sessions'].map(async table => {
+      const { count, error } = await supabaseClient
+        .from(table)
+        .select('id', { count: 'exact', head: true })
+        .eq('user_id', userId)
+        .eq('status', 'completed')
+        .is('deleted_at', null);
+      if (error) throw error;
+      return count ?? 0;
+    }),
+  );
+  return counts.reduce((sum, count) => sum + count, 0);
+}
+
+export async function getAchievementStats(
+  supabaseClient: SupabaseClient,
+  userId: string,
+  now = new Date(),
+): Promise<AchievementStats> {
+  const timezone = await getUserTimezone(supabaseClient, userId);
+  const today = localDate(now, timezone);
+  const weekStart = weekStartOf(today);
+  const lastWeekStart = addDays(weekStart, -7);
+  // A day of slack either side covers every timezone offset
+  const since = new Date(Date.parse(`${lastWeekStart}T00:00:00Z`) - DAY_MS);
+  const reviewsSince = new Date(now.getTime() - 31 * DAY_MS);
+
+  const [streak, completedTasks, completions, reviews] = await Promise.all([
+    getStreak(supabaseClient, userId),
+    countCompletedTasks(supabaseClient, userId),
+    supabaseClient
+      .from('user_events')
+      .select('created_at')
+      .eq('user_id', userId)
+      .eq('event_type', 'task_completed')
+      .gte('created_at', since.toISOString()),
+    supabaseClient
+      .from('srs_performance')
+      .select('review_date')
+      .eq('user_id', userId)
+      .gte('review_date', reviewsSince.toISOString()),
+  ]);
+
+  if (completions.error) throw completions.error;
+  if (reviews.error) throw reviews.error;
+
+  let completedThisWeek = 0;
+  let completedLastWeek = 0;
+  (completions.data ?? []).forEach(({ created_at }) => {
+    const day = localDate(new Date(created_at), timezone);
+    if (day >= weekStart) completedThisWeek++;
+    else if (day >= lastWeekStart) completedLastWeek++;
+  });
+
+  return {
+    longestStreak: streak.longest_streak,
+    completedTasks,
+    weekStart,
+    completedThisWeek,
+    completedLastWeek,
+    srsReviewDays: consecutiveDays(
+      (reviews.data ?? []).map(({ review_date }) =>
+        localDate(new Date(review_date), timezone),
+      ),
+      today,
+    ),
+  };
+}
+
+/**
+ * Award every badge the user now qualifies for and hasn't earned yet.
+ * Returns only the new ones.
+ */
+export async function awardAchievements(
+  supabaseClient: SupabaseClient,
+  userId: string,
+  now = new Date(),
+): Promise<EarnedAchievement[]> {
+  const stats = await getAchievementStats(supabaseClient, userId, now);
+  const qualified = evaluateAchievements(stats);
+  if (qualified.length === 0) return [];
+
+  const { data, error } = await supabaseClient
+    .from('user_achievements')
+    .upsert(
+      qualified.map(achievement => ({
+        user_id: userId,
+        ...achievement,
+        earned_at: now.toISOString(),
+      })),
+      { onConflict: 'user_id,achievement_key', ignoreDuplicates: true },
+    )
+    .select('achievement_key, type, metadata');
+
+  if (error) throw error;
+  return data ?? [];
+}
@@ -0,0 +1,651 @@
+/**
+ * Flashcard Import
+ *
+ * Turns Anki collections and delimited text files into draft decks of
+ * flashcards. Reading the files (unzipping an .apkg, opening its SQLite
+ * collection) happens in api-v2/_flashcard-import.ts; everything here works
+ * on plain data so it can be reasoned about without a package at hand.
+ *
+ * Mapping:
+ * - Cloze note types become one cloze card per note (all deletions hidden
+ *   at once); other note types become one card per Anki card, with the
+ *   fields its question template uses on the front and the rest of its
+ *   answer template on the back
+ * - Review history (revlog) is carried over as SM-2 reviews, so the user's
+ *   scheduler continues from it
+ * - Whatever cannot be represented (audio, extra images, unused fields,
+ *   extra columns) is reported as a warning
+ */
+
+export const MAX_FLASHCARD_IMPORT_CARDS = 5000;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DEFAULT_EASE_FACTOR = 2.5;
+const MIN_EASE_FACTOR = 1.3;
+const MAX_EASE_FACTOR = 3.0;
+const MAX_CARD_TEXT_LENGTH = 2000;
+
+// Anki notetype kinds (col.models[].type)
+const ANKI_MODEL_CLOZE = 1;
+// Anki card types (cards.type)
+const ANKI_CARD_NEW = 0;
+const ANKI_CARD_REVIEW = 2;
+// Anki revlog types; manual reschedules are not reviews
+const ANKI_REVLOG_MANUAL = 4;
+
+// Special template fields that are not note fields
+const BUILT_IN_FIELDS = new Set([
+  'FrontSide',
+  'Tags',
+  'Deck',
+  'Subdeck',
+  'Card',
+  'CardFlag',
+  'Type',
+]);
+
+export interface DraftFlashcardReview {
+  review_date: string;
+  quality_rating: number;
+  response_time_seconds: number | null;
+  ease_factor: number;
+  interval_days: number;
+  next_interval_days: number;
+  repetition_number: number;
+}
+
+export interface DraftFlashcard {
+  card_type: 'basic' | 'cloze';
+  front: string;
+  back: string | null;
+  /** Media file name of the card's image, looked up in the package */
+  image: string | null;
+  /** null for cards that have never been studied (due now) */
+  due_at: string | null;
+  reviews: DraftFlashcardReview[];
+}
+
+export interface DraftFlashcardDeck {
+  title: string;
+  cards: DraftFlashcard[];
+}
+
+export interface FlashcardImportDraft {
+  decks: DraftFlashcardDeck[];
+  warnings: string[];
+}
+
+export interface AnkiModel {
+  name: string;
+  type: number;
+  flds: { name: string; ord: number }[];
+  tmpls: { name: string; ord: number; qfmt: string; afmt: string }[];
+}
+
+/** The parts of an Anki collection (schema 11) the importer reads */
+export interface AnkiCollection {
+  /** col.crt: collection creation, in seconds; review due dates count days from it */
+  createdAt: number;
+  models: Record<string, AnkiModel>;
+  decks: Record<string, { name: string }>;
+  notes: { id: number; mid: number; flds: string }[];
+  cards: {
+    id: number;
+    nid: number;
+    did: number;
+    ord: number;
+    type: number;
+    queue: number;
+    due: number;
+    ivl: number;
+  }[];
+  revlog: {
+    id: number;
+    cid: number;
+    ease: number;
+    ivl: number;
+    lastIvl: number;
+    factor: number;
+    time: number;
+    type: number;
+  }[];
+}
+
+/**
+ * Collects warnings by kind so a deck of thousands of cards reports
+ * "Audio was removed from 120 cards" once instead of 120 times
+ */
+class ImportWarnings {
+  private counts = new Map<string, number>();
+  private messages = new Map<string, (count: number) => string>();
+
+  add(key: string, message: (count: number) => string) {
+    this.counts.set(key, (this.counts.get(key) ?? 0) + 1);
+    this.messages.set(key, message);
+  }
+
+  list(): string[] {
+    return [...this.counts.entries()].map(([key, count]) =>
+      this.messages.get(key)!(count),
+    );
+  }
+}
+
+const plural = (count: number, word: string) =>
+  `${count} ${word}${count === 1 ? '' : 's'}`;
+
+const were = (count: number) => (count === 1 ? 'was' : 'were');
+
+const clamp = (value: number, min: number, max: number) =>
+  Math.min(max, Math.max(min, value));
+
+const ENTITIES: Record<string, string> = {
+  nbsp: ' ',
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+};
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x?[0-9a-f]+|[a-z]+);/gi, (entity, code: string) => {
+    if (code[0] === '#') {
+      const value =
+        code[1] === 'x' || code[1] === 'X'
+          ? parseInt(code.slice(2), 16)
+          : parseInt(code.slice(1), 10);
+      return Number.isFinite(value) ? String.fromCodePoint(value) : entity;
+    }
+    return ENTITIES[code.toLowerCase()] ?? entity;
+  });
+}
+
+/**
+ * Plain text of an Anki field, with the images and sounds it referenced
+ */
+export function ankiFieldToText(html: string): {
+  text: string;
+  images: string[];
+  sounds: string[];
+} {
+  const images = [...html.matchAll(/<img[^>]*?src=["']?([^"'>\s]+)/gi)].map(
+    match => decodeEntities(match[1]),
+  );
+  const sounds = [...html.matchAll(/\[sound:([^\]]+)\]/g)].map(
+    match => match[1],
+  );
+
+  const text = decodeEntities(
+    html
+      .replace(/\[sound:[^\]]+\]/g, '')
+      .replace(/<img[^>]*>/gi, '')
+      .replace(/<br\s*\/?>/gi, '\n')
+      .replace(/<\/(div|p|li|tr|h\d)>/gi, '\n')
+      .replace(/<[^>]+>/g, ''),
+  )
+    .replace(/[ \t]+\n/g, '\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+
+  return { text, images, sounds };
+}
+
+/** Field names a card template shows, in order of appearance */
+export function getTemplateFields(template: string): string[] {
+  const names: string[] = [];
+  for (const match of template.matchAll(/\{\{([^#^/!}][^}]*)\}\}/g)) {
+    // Strip filters such as text:, cloze:, type:, hint:
+    const name = match[1].split(':').pop()!.trim();
+    if (name && !BUILT_IN_FIELDS.has(name) && !names.includes(name)) {
+      names.push(name);
+    }
+  }
+  return names;
+}
+
+/** Anki answer buttons (1 Again .. 4 Easy) on the 0-5 quality scale */
+export function ankiEaseToQuality(ease: number): number {
+  switch (ease) {
+    case 1:
+      return 1;
+    case 2:
+      return 3;
+    case 3:
+      return 4;
+    default:
+      return 5;
+  }
+}
+
+/** Intervals are days when positive and seconds (learning steps) when negative */
+const ankiIntervalDays = (interval: number) =>
+  interval > 0 ? Math.round(interval) : 1;
+
+/** The review history of one Anki card as flashcard reviews, oldest first */
+export function mapAnkiReviews(
+  revlog: AnkiCollection['revlog'],
+): DraftFlashcardReview[] {
+  return revlog
+    .filter(entry => entry.type !== ANKI_REVLOG_MANUAL && entry.ease > 0)
+    .sort((a, b) => a.id - b.id)
+    .map((entry, index) => ({
+      review_date: new Date(entry.id).toISOString(),
+      quality_rating: ankiEaseToQuality(entry.ease),
+      response_time_seconds:
+        entry.time > 0 ? Math.max(1, Math.round(entry.time / 1000)) : null,
+      ease_factor:
+        entry.factor > 0
+          ? clamp(entry.factor / 1000, MIN_EASE_FACTOR, MAX_EASE_FACTOR)
+          : DEFAULT_EASE_FACTOR,
+      interval_days: ankiIntervalDays(entry.lastIvl),
+      next_interval_days: ankiIntervalDays(entry.ivl),
+      repetition_number: index + 1,
+    }));
+}
+
+/** When an Anki card is next due; null for new cards */
+export function getAnkiDueDate(
+  card: Pick<AnkiCollection['cards'][number], 'type' | 'due'>,
+  collectionCreatedAt: number,
+): string | null {
+  if (card.type === ANKI_CARD_NEW) return null;
+  // Review cards count days from the collection's creation; cards in
+  // (re)learning are due at a timestamp in seconds
+  const dueMs =
+    card.type === ANKI_CARD_REVIEW
+      ? collectionCreatedAt * 1000 + card.due * DAY_MS
+      : card.due * 1000;
+  return Number.isFinite(dueMs) && dueMs > 0
+    ? new Date(dueMs).toISOString()
+    : null;
+}
+
+const truncate = (text: string) =>
+  text.length > MAX_CARD_TEXT_LENGTH
+    ? text.slice(0, MAX_CARD_TEXT_LENGTH)
+    : text;
+
+const deckTitle = (name: string) =>
+  name.split('::').join(' / ').trim().slice(0, 200) || 'Imported deck';
+
+/**
+ * Draft decks from an Anki collection, one per Anki deck that has cards
+ */
+export function mapAnkiCollection(
+  collection: AnkiCollection,
+): FlashcardImportDraft {
+  const warnings = new ImportWarnings();
+  const notes = new Map(collection.notes.map(note => [note.id, note]));
+  const reviewsByCard = new Map<number, AnkiCollection['revlog']>();
+  for (const entry of collection.revlog) {
+    const entries = reviewsByCard.get(entry.cid) ?? [];
+    entries.push(entry);
+    reviewsByCard.set(entry.cid, entries);
+  }
+
+  // Fields each note type shows on some card; the rest are reported
+  const usedFields = new Map<string, Set<string>>();
+  for (const [id, model] of Object.entries(collection.models)) {
+    usedFields.set(
+      id,
+      new Set(
+        model.tmpls.flatMap(template => [
+          ...getTemplateFields(template.qfmt),
+          ...getTemplateFields(template.afmt),
+        ]),
+      ),
+    );
+  }
+
+  const decks = new Map<number, DraftFlashcardDeck>();
+  const clozeNotesSeen = new Set<number>();
+  const fieldsReported = new Set<string>();
+  let total = 0;
+
+  // Cards of the same note are imported together and in a stable order
+  const cards = [...collection.cards].sort(
+    (a, b) => a.nid - b.nid || a.ord - b.ord,
+  );
+
+  for (const card of cards) {
+    const note = notes.get(card.nid);
+    const model = note ? collection.models[String(note.mid)] : undefined;
+    if (!note || !model) {
+      warnings.add(
+        'orphan',
+        count =>
+          `${plural(count, 'card')} without a note or note type ${were(count)} skipped`,
+      );
+      continue;
+    }
+
+    const values = note.flds.split('\x1f');
+    const fields = new Map(
+      [...model.flds]
+        .sort((a, b) => a.ord - b.ord)
+        .map((field, index) => [field.name, values[index] ?? '']),
+    );
+
+    for (const [name, value] of fields) {
+      const key = `${note.mid}:${name}`;
+      if (
+        value.trim() &&
+        !usedFields.get(String(note.mid))?.has(name) &&
+        !fieldsReported.has(key)
+      ) {
+        fieldsReported.add(key);
+        warnings.add(
+          `field:${key}`,
+          () =>
+            `Field "${name}" of note type "${model.name}" is not shown on any card and was not imported`,
+        );
+      }
+    }
+
+    const isCloze = model.type === ANKI_MODEL_CLOZE;
+    if (isCloze) {
+      if (clozeNotesSeen.has(note.id)) {
+        warnings.add(
+          'cloze-merged',
+          count =>
+            `${plural(count, 'extra cloze card')} ${were(count)} merged into their note's cloze card`,
+        );
+        continue;
+      }
+      clozeNotesSeen.add(note.id);
+    }
+
+    const template =
+      model.tmpls.find(item => item.ord === card.ord) ?? model.tmpls[0];
+    const frontNames = template ? getTemplateFields(template.qfmt) : [];
+    const backNames = template
+      ? getTemplateFields(template.afmt).filter(
+          name => !frontNames.includes(name),
+        )
+      : [];
+    if (frontNames.length === 0) {
+      const [first, second] = [...fields.keys()];
+      if (first) frontNames.push(first);
+      if (second) backNames.push(second);
+    }
+
+    const render = (names: string[]) => {
+      const parts = names
+        .map(name => ankiFieldToText(fields.get(name) ?? ''))
+        .filter(part => part.text || part.images.length > 0);
+      return {
+        text: parts
+          .map(part => part.text)
+          .filter(Boolean)
+          .join('\n'),
+        images: parts.flatMap(part => part.images),
+        sounds: parts.flatMap(part => part.sounds),
+      };
+    };
+    const front = render(frontNames);
+    const back = render(backNames);
+
+    if (!front.text || (isCloze && !/\{\{c\d+::/.test(front.text))) {
+      warnings.add(
+        'empty',
+        count =>
+          `${plural(count, 'card')} with an empty front ${were(count)} skipped`,
+      );
+      continue;
+    }
+    if (front.sounds.length + back.sounds.length > 0) {
+      warnings.add(
+        'audio',
+        count => `Audio was removed from ${plural(count, 'card')}`,
+      );
+    }
+    const images = [...front.images, ...back.images];
+    if (images.length > 1) {
+      warnings.add(
+        'images',
+        count =>
+          `${plural(count, 'card')} had more than one image; only the first was kept`,
+      );
+    }
+    if (
+      front.text.length > MAX_CARD_TEXT_LENGTH ||
+      back.text.length > MAX_CARD_TEXT_LENGTH
+    ) {
+      warnings.add(
+        'long',
+        count =>
+          `${plural(count, 'card')} ${were(count)} shortened to ${MAX_CARD_TEXT_LENGTH} characters per side`,
+      );
+    }
+    if (card.queue < 0) {
+      warnings.add(
+        'suspended',
+        count =>
+          `${plural(count, 'suspended or buried card')} ${were(count)} imported as active`,
+      );
+    }
+
+    if (total >= MAX_FLASHCARD_IMPORT_CARDS) {
+      warnings.add(
+        'limit',
+        count =>
+          `Only the first ${MAX_FLASHCARD_IMPORT_CARDS} cards were imported; ${plural(count, 'card')} ${were(count)} left out`,
+      );
+      continue;
+    }
+    total += 1;
+
+    const deck = decks.get(card.did) ?? {
+      title: deckTitle(collection.decks[String(card.did)]?.name ?? ''),
+      cards: [],
+    };
+    decks.set(card.did, deck);
+    deck.cards.push({
+      card_type: isCloze ? 'cloze' : 'basic',
+      front: truncate(front.text),
+      back: back.text ? truncate(back.text) : null,
+      image: images[0] ?? null,
+      due_at: getAnkiDueDate(card, collection.createdAt),
+      reviews: mapAnkiReviews(reviewsByCard.get(card.id) ?? []),
+    });
+  }
+
+  return { decks: [...decks.values()], warnings: warnings.list() };
+}
+
+/**
+ * Split delimited text into rows of cells. Quoted cells may contain the
+ * separator, newlines and doubled quotes.
+ */
+export function parseDelimitedRows(content: string, separator: string) {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+    if (quoted) {
+      if (char === '"' && content[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"' && cell === '') {
+      quoted = true;
+    } else if (char === separator) {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && content[i + 1] === '\n') i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+  if (cell !== '' || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+  return rows.filter(cells => cells.some(value => value.trim() !== ''));
+}
+
+const SEPARATOR_NAMES: Record<string, string> = {
+  tab: '\t',
+  comma: ',',
+  semicolon: ';',
+  pipe: '|',
+  space: ' ',
+  colon: ':',
+};
+
+// First rows that only name the columns
+const HEADER_WORDS = new Set([
+  'front',
+  'back',
+  'question',
+  'answer',
+  'term',
+  'definition',
+  'text',
+  'extra',
+]);
+
+/**
+ * One deck of cards from a CSV/TSV file: the first column is the front,
+ * the second the back. Anki's text exports (#separator:, #html:, #deck:
+ * header lines) are understood; cells with {{c1::…}} become cloze cards.
+ */
+export function parseDelimitedFlashcards(
+  content: string,
+  fileName: string,
+): FlashcardImportDraft {
+  const warnings = new ImportWarnings();
+  const lines = content.replace(/^﻿/, '').split(/\r?\n/);
+
+  let separator: string | null = null;
+  let html = false;
+  let title = fileName.replace(/\.[^.]+$/, '').trim();
+  let headerLines = 0;
+  for (const line of lines) {
+    if (!line.startsWith('#')) break;
+    headerLines += 1;
+    const [key, ...rest] = line.slice(1).split(':');
+    const value = rest.join(':').trim();
+    switch (key.trim().toLowerCase()) {
+      case 'separator':
+        separator =
+          SEPARATOR_NAMES[value.toLowerCase()] ?? (value.charAt(0) || null);
+        break;
+      case 'html':
+        html = value.toLowerCase() === 'true';
+        break;
+      case 'deck':
+        title = value || title;
+        break;
+    }
+  }
+
+  const body = lines.slice(headerLines).join('\n');
+  const firstLine = lines[headerLines] ?? '';
+  if (!separator) {
+    if (/\.tsv$/i.test(fileName) || firstLine.includes('\t')) {
+      separator = '\t';
+    } else if (firstLine.includes(';') && !firstLine.includes(',')) {
+      separator = ';';
+    } else {
+      separator = ',';
+    }
+  }
+
+  let rows = parseDelimitedRows(body, separator);
+  if (
+    rows[0] &&
+    rows[0]
+      .slice(0, 2)
+      .every(cell => HEADER_WORDS.has(cell.trim().toLowerCase()))
+  ) {
+    rows = rows.slice(1);
+  }
+
+  const toText = (value: string) => {
+    if (!html) return value.trim();
+    const field = ankiFieldToText(value);
+    if (field.images.length + field.sounds.length > 0) {
+      warnings.add(
+        'media',
+        count =>
+          `Images and audio in ${plural(count, 'cell')} ${were(count)} removed; text files cannot carry media`,
+      );
+    }
+    return field.text;
+  };
+
+  const cards: DraftFlashcard[] = [];
+  for (const cells of rows) {
+    const front = toText(cells[0] ?? '');
+    const back = toText(cells[1] ?? '');
+    const isCloze = /\{\{c\d+::/.test(front);
+
+    cells.slice(2).forEach((value, index) => {
+      if (value.trim()) {
+        const column = index + 3;
+        warnings.add(
+          `column:${column}`,
+          count =>
+            `Column ${column} was not imported (${plural(count, 'row')})`,
+        );
+      }
+    });
+    if (!front || (!isCloze && !back)) {
+      warnings.add(
+        'incomplete',
+        count =>
+          `${plural(count, 'row')} without both a front and a back ${were(count)} skipped`,
+      );
+      continue;
+    }
+    if (
+      front.length > MAX_CARD_TEXT_LENGTH ||
+      back.length > MAX_CARD_TEXT_LENGTH
+    ) {
+      warnings.add(
+        'long',
+        count =>
+          `${plural(count, 'card')} ${were(count)} shortened to ${MAX_CARD_TEXT_LENGTH} characters per side`,
+      );
+    }
+    if (cards.length >= MAX_FLASHCARD_IMPORT_CARDS) {
+      warnings.add(
+        'limit',
+        count =>
+          `Only the first ${MAX_FLASHCARD_IMPORT_CARDS} cards were imported; ${plural(count, 'row')} ${were(count)} left out`,
+      );
+      continue;
+    }
+
+    cards.push({
+      card_type: isCloze ? 'cloze' : 'basic',
+      front: truncate(front),
+      back: back ? truncate(back) : null,
+      image: null,
+      due_at: null,
+      reviews: [],
+    });
+  }
+
+  return {
+    decks:
+      cards.length > 0
+        ? [{ title: title.slice(0, 200) || 'Imported deck', cards }]
+        : [],
+    warnings: warnings.list(),
+  };
+}
@@ -1,11 +1,16 @@
 import type { SupabaseClient } from '@supabase/supabase-js';
 
-const WEEKLY_TASK_LIMIT = 5; // Renamed for clarity
+export const WEEKLY_TASK_LIMIT = 5; // Renamed for clarity
 
-export async function checkTaskLimit(
+/**
+ * Count tasks created in the rolling 7-day window that the weekly limit applies to
+ *
+ * @returns The count, or null if any table could not be counted
+ */
+export async function getWeeklyTaskCount(
   supabaseClient: SupabaseClient,
   userId: string,
-) {
+): Promise<number | null> {
   // NOTE: We are NOT including 'courses' in this limit.
   const tablesToCount = ['study_sessions', 'lectures', 'assignments'];
   let weeklyCount = 0;
@@ -24,14 +29,27 @@ export async function checkTaskLimit(
 
     if (error) {
       console.error(`Error counting ${table}:`, error);
-      return new Response(
-        JSON.stringify({ error: `Could not verify task limits.` }),
-        { status: 500 },
-      );
+      return null;
     }
     weeklyCount += count || 0;
   }
 
+  return weeklyCount;
+}
+
+export async function checkTaskLimit(
+  supabaseClient: SupabaseClient,
+  userId: string,
+) {
+  const weeklyCount = await getWeeklyTaskCount(supabaseClient, userId);
+
+  if (weeklyCount === null) {
+    return new Response(
+      JSON.stringify({ error: `Could not verify task limits.` }),
+      { status: 500 },
+    );
+  }
+
   if (weeklyCount >= WEEKLY_TASK_LIMIT) {
     return new Response(
       JSON.stringify({
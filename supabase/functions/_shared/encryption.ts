@@ -92,3 +92,20 @@ export async function decrypt(
     throw new Error('Failed to decrypt data');
   }
 }
+
+/**
+ * Decrypt a value that may be stored encrypted or (legacy) as plain text
+ */
+export async function decryptStoredValue(
+  value: string | null | undefined,
+  key?: string,
+): Promise<string | null> {
+  if (!value) return null;
+  if (!key || value.length <= 20) return value;
+  try {
+    return await decrypt(value, key);
+  } catch {
+    // Not encrypted (created through api-v2) - use the stored value
+    return value;
+  }
+}
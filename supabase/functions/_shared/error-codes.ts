@@ -22,6 +22,7 @@ export const ERROR_CODES = {
   // Resource Management (4xx)
   NOT_FOUND: 'NOT_FOUND',
   ALREADY_EXISTS: 'ALREADY_EXISTS',
+  VERSION_CONFLICT: 'VERSION_CONFLICT',
   RESOURCE_LIMIT_EXCEEDED: 'RESOURCE_LIMIT_EXCEEDED',
 
   // Rate Limiting (4xx)
@@ -88,6 +89,7 @@ export const ERROR_STATUS_CODES: Record<ErrorCode, number> = {
   // Resource Management
   NOT_FOUND: 404,
   ALREADY_EXISTS: 409,
+  VERSION_CONFLICT: 409,
   RESOURCE_LIMIT_EXCEEDED: 429,
 
   // Rate Limiting
@@ -153,6 +155,8 @@ export const ERROR_MESSAGES: Record<ErrorCode, string> = {
   // Resource Management
   NOT_FOUND: 'The requested resource was not found.',
   ALREADY_EXISTS: 'A record with this information already exists.',
+  VERSION_CONFLICT:
+    'This record was changed elsewhere since you last loaded it.',
   RESOURCE_LIMIT_EXCEEDED: 'You have reached your resource limit.',
 
   // Rate Limiting
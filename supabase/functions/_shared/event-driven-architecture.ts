@@ -6,6 +6,7 @@
  */
 
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.0.0';
+import { awardAchievements, recordStudyDay } from './achievements.ts';
 
 export interface BaseEvent {
   id: string;
@@ -288,6 +289,10 @@ export class DatabaseEventEmitter {
 
   /**
    * Emit a task completed event
+   *
+   * Unlike other events this one is processed before returning, so the
+   * streak and badges are current when the app refetches them, and the
+   * edge function can't exit with the event still queued.
    */
   async emitTaskCompleted(taskData: {
     taskId: string;
@@ -315,8 +320,10 @@ export class DatabaseEventEmitter {
       event_data: taskData,
     });
 
-    // Emit to event processor
-    globalEventProcessor.queueEvent(event);
+    // The task is already saved, so a failed handler is logged, not thrown
+    await globalEventProcessor.processEvent(event).catch(error => {
+      console.error('Failed to process task completed event:', error);
+    });
   }
 }
 
@@ -384,7 +391,7 @@ export class BusinessLogicHandlers {
     console.log('Processing task completed event:', event.data);
 
     // Update user streaks
-    await this.updateUserStreak(event.data.userId);
+    await this.updateUserStreak(event.data.userId, event.data.completedAt);
 
     // Update analytics
     await this.supabaseClient.from('task_completion_analytics').insert({
@@ -428,17 +435,30 @@ export class BusinessLogicHandlers {
   /**
    * Update user streak
    */
-  private updateUserStreak(userId: string): void {
-    // Implementation for updating user streaks
-    console.log('Updating streak for user:', userId);
+  private async updateUserStreak(
+    userId: string,
+    completedAt: string,
+  ): Promise<void> {
+    const streak = await recordStudyDay(
+      this.supabaseClient,
+      userId,
+      new Date(completedAt),
+    );
+    console.log('Updated streak for user:', userId, streak.current_streak);
   }
 
   /**
    * Check for achievement unlocks
    */
-  private checkAchievements(userId: string): void {
-    // Implementation for checking achievements
-    console.log('Checking achievements for user:', userId);
+  private async checkAchievements(userId: string): Promise<void> {
+    const awarded = await awardAchievements(this.supabaseClient, userId);
+    if (awarded.length > 0) {
+      console.log(
+        'Awarded achievements to user:',
+        userId,
+        awarded.map(achievement => achievement.achievement_key),
+      );
+    }
   }
 }
 
@@ -447,13 +467,27 @@ export class BusinessLogicHandlers {
  */
 export const globalEventProcessor = new CentralEventProcessor();
 
+let handlersRegistered = false;
+
 /**
  * Initialize Event-Driven Architecture
+ *
+ * Handlers are registered once per instance. They handle events for any
+ * user, so they run with the service role rather than the client of the
+ * request that happened to initialize them.
  */
 export function initializeEventDrivenArchitecture(
   supabaseClient: ReturnType<typeof createClient>,
 ): void {
-  const businessHandlers = new BusinessLogicHandlers(supabaseClient);
+  if (handlersRegistered) return;
+  handlersRegistered = true;
+
+  const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+  const businessHandlers = new BusinessLogicHandlers(
+    serviceRoleKey
+      ? createClient(Deno.env.get('SUPABASE_URL') ?? '', serviceRoleKey)
+      : supabaseClient,
+  );
 
   // Register event handlers
   globalEventProcessor.registerHandler({
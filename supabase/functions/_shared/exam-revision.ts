@@ -0,0 +1,150 @@
+/**
+ * Exam Revision
+ *
+ * Back-schedules revision for an exam. Every topic gets a study session and
+ * spaced-repetition reviews at growing distances before the exam, counted
+ * back from the exam day, so the last review is the day before and nothing
+ * lands on or after the exam. Topics are spread over the first half of the
+ * time left so each is reviewed at least once. Times of day are wall-clock
+ * times in the user's time zone.
+ */
+
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.39.3';
+import { timeZoneOffset, zonedTimeToDate } from './ical.ts';
+import { getCourseTermEnd } from './terms.ts';
+
+const MINUTE_MS = 60 * 1000;
+const HOUR_MS = 60 * MINUTE_MS;
+const DAY_MS = 24 * HOUR_MS;
+
+/** Days before the exam that reviews fall on */
+export const REVIEW_DAYS_BEFORE_EXAM = [1, 3, 7, 14, 28];
+/** Revision starts at most this many days before the exam */
+export const MAX_REVISION_DAYS = 28;
+export const REVISION_SESSION_MINUTES = 60;
+// Between sessions for different topics on the same day
+const BREAK_MINUTES = 15;
+// Sessions sharing a day start no later than this; past it they double up
+const LAST_SESSION_HOUR = 22;
+
+export interface RevisionOptions {
+  examDate: Date;
+  now: Date;
+  timeZone: string;
+  /** Hour of the day (0-23) sessions and reviews are scheduled at */
+  hour: number;
+}
+
+export interface RevisionSession {
+  topic: string;
+  session_date: string;
+  /** Review times, earliest first; all before the exam day */
+  reviews: string[];
+}
+
+/** Wall-clock midnight (as a UTC timestamp) of the day an instant falls on */
+function localMidnight(instant: number, timeZone: string): number {
+  const wallClock = instant + timeZoneOffset(instant, timeZone);
+  return Math.floor(wallClock / DAY_MS) * DAY_MS;
+}
+
+/**
+ * Plan a revision session and reviews for each topic; empty when there is
+ * no day left before the exam
+ */
+export function planExamRevision(
+  topics: string[],
+  options: RevisionOptions,
+): RevisionSession[] {
+  const { timeZone, hour } = options;
+  const examDay = localMidnight(options.examDate.getTime(), timeZone);
+  const daysBefore = (days: number) =>
+    zonedTimeToDate(examDay - days * DAY_MS + hour * HOUR_MS, timeZone);
+
+  let lead = 0;
+  while (
+    lead < MAX_REVISION_DAYS &&
+    daysBefore(lead + 1).getTime() > options.now.getTime()
+  ) {
+    lead++;
+  }
+  if (lead === 0 || topics.length === 0) return [];
+
+  // Learning happens early enough that at least the last review follows it
+  const latestStart = lead === 1 ? 1 : Math.max(2, Math.ceil(lead / 2));
+  const slotMinutes = REVISION_SESSION_MINUTES + BREAK_MINUTES;
+  const slotsPerDay = Math.max(
+    1,
+    Math.floor(((LAST_SESSION_HOUR - hour) * 60) / slotMinutes) + 1,
+  );
+  const perDay = new Map<number, number>();
+
+  return topics
+    .map((topic, index) => {
+      const start =
+        topics.length === 1
+          ? lead
+          : lead -
+            Math.round((index * (lead - latestStart)) / (topics.length - 1));
+      const earlier = perDay.get(start) ?? 0;
+      perDay.set(start, earlier + 1);
+
+      const sessionDate = new Date(
+        daysBefore(start).getTime() +
+          (earlier % slotsPerDay) * slotMinutes * MINUTE_MS,
+      );
+      return {
+        topic,
+        session_date: sessionDate.toISOString(),
+        reviews: REVIEW_DAYS_BEFORE_EXAM.filter(days => days < start)
+          .reverse()
+          .map(days => daysBefore(days).toISOString()),
+      };
+    })
+    .sort((a, b) => Date.parse(a.session_date) - Date.parse(b.session_date));
+}
+
+/**
+ * Latest time a study session's reviews may fall: the end of its course's
+ * term or, for exam revision, the start of the exam; null when unbounded
+ */
+export async function getReviewDeadline(
+  supabaseClient: SupabaseClient,
+  userId: string,
+  session: { course_id?: string | null; exam_id?: string | null },
+): Promise<Date | null> {
+  const [termEnd, exam] = await Promise.all([
+    getCourseTermEnd(supabaseClient, userId, session.course_id),
+    session.exam_id
+      ? supabaseClient
+          .from('exams')
+          .select('exam_date')
+          .eq('id', session.exam_id)
+          .eq('user_id', userId)
+          .is('deleted_at', null)
+          .maybeSingle()
+      : null,
+  ]);
+
+  if (exam?.error) throw exam.error;
+  const examStart = exam?.data ? new Date(exam.data.exam_date) : null;
+  if (!termEnd || !examStart) return termEnd ?? examStart;
+  return termEnd < examStart ? termEnd : examStart;
+}
+
+/** getReviewDeadline for a study session looked up by id */
+export async function getStudySessionReviewDeadline(
+  supabaseClient: SupabaseClient,
+  userId: string,
+  sessionId: string,
+): Promise<Date | null> {
+  const { data, error } = await supabaseClient
+    .from('study_sessions')
+    .select('course_id, exam_id')
+    .eq('id', sessionId)
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error) throw error;
+  return getReviewDeadline(supabaseClient, userId, data ?? {});
+}
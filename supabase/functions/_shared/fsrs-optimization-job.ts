@@ -0,0 +1,139 @@
+/**
+ * FSRS Parameter Optimization Job
+ *
+ * Enqueued weekly by pg_cron and run by process-jobs. Each run fits
+ * parameters for the next user who has enough new reviews, stores them as a
+ * new version in srs_scheduler_parameters, and enqueues itself for the user
+ * after that.
+ */
+
+import { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.0.0';
+import { enqueueJob, getJobRetryConfig, type Job } from './job-queue.ts';
+import {
+  buildReviewSequences,
+  MAX_REVIEWS_FOR_OPTIMIZATION,
+  MIN_REVIEWS_FOR_OPTIMIZATION,
+  optimizeParameters,
+  type ReviewLogEntry,
+} from './fsrs-optimizer.ts';
+
+export const FSRS_OPTIMIZATION_JOB = 'optimize-fsrs-parameters';
+
+// A fit takes most of a run's CPU time, so each run fits one user
+const USERS_PER_RUN = 1;
+/** Reviews since the last fit before refitting */
+const MIN_NEW_REVIEWS = 50;
+
+/**
+ * Fit and store a new parameter version for one user
+ *
+ * @returns The stored version, or null if the user has too few reviews
+ */
+export async function optimizeUserParameters(
+  supabaseAdmin: SupabaseClient,
+  userId: string,
+): Promise<number | null> {
+  const { data: reviews, error: reviewsError } = await supabaseAdmin
+    .from('srs_performance')
+    .select('session_id, review_date, quality_rating')
+    .eq('user_id', userId)
+    .order('review_date', { ascending: false })
+    .limit(MAX_REVIEWS_FOR_OPTIMIZATION);
+
+  if (reviewsError) {
+    throw new Error(`Failed to load reviews: ${reviewsError.message}`);
+  }
+
+  if (!reviews || reviews.length < MIN_REVIEWS_FOR_OPTIMIZATION) {
+    return null;
+  }
+
+  const result = optimizeParameters(
+    buildReviewSequences(reviews as ReviewLogEntry[]),
+  );
+
+  const { data: latest } = await supabaseAdmin
+    .from('srs_scheduler_parameters')
+    .select('version')
+    .eq('user_id', userId)
+    .eq('algorithm', 'fsrs')
+    .order('version', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  const version = (latest?.version ?? 0) + 1;
+
+  const { error: insertError } = await supabaseAdmin
+    .from('srs_scheduler_parameters')
+    .insert({
+      user_id: userId,
+      algorithm: 'fsrs',
+      version,
+      parameters: result.parameters,
+      review_count: reviews.length,
+      log_loss: result.logLoss,
+      default_log_loss: result.defaultLogLoss,
+      predicted_retention: result.predictedRetention,
+      actual_retention: result.actualRetention,
+    });
+
+  if (insertError) {
+    throw new Error(`Failed to store parameters: ${insertError.message}`);
+  }
+
+  console.log(
+    `FSRS parameters v${version} for user ${userId}: log loss ${result.logLoss.toFixed(4)} (default ${result.defaultLogLoss.toFixed(4)})${result.improved ? '' : ', kept defaults'}`,
+  );
+
+  return version;
+}
+
+/**
+ * Process one page of users
+ */
+export async function runFSRSOptimizationJob(
+  job: Job,
+  supabaseAdmin: SupabaseClient,
+): Promise<void> {
+  const afterUserId =
+    typeof job.job_data.after_user_id === 'string'
+      ? job.job_data.after_user_id
+      : null;
+
+  const { data: candidates, error } = await supabaseAdmin.rpc(
+    'get_fsrs_optimization_candidates',
+    {
+      p_min_reviews: MIN_REVIEWS_FOR_OPTIMIZATION,
+      p_min_new_reviews: MIN_NEW_REVIEWS,
+      p_after_user_id: afterUserId,
+      p_limit: USERS_PER_RUN,
+    },
+  );
+
+  if (error) {
+    throw new Error(`Failed to load optimization candidates: ${error.message}`);
+  }
+
+  const users = (candidates ?? []) as { user_id: string }[];
+
+  for (const { user_id } of users) {
+    try {
+      await optimizeUserParameters(supabaseAdmin, user_id);
+    } catch (userError) {
+      // A user's failure shouldn't stop the job moving on to the next one
+      console.error(
+        `FSRS optimization failed for user ${user_id}:`,
+        userError instanceof Error ? userError.message : userError,
+      );
+    }
+  }
+
+  if (users.length === USERS_PER_RUN) {
+    await enqueueJob(
+      supabaseAdmin,
+      FSRS_OPTIMIZATION_JOB,
+      { after_user_id: users[users.length - 1].user_id },
+      { maxRetries: getJobRetryConfig(FSRS_OPTIMIZATION_JOB).maxRetries },
+    );
+  }
+}
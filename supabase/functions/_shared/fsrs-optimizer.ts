@@ -0,0 +1,264 @@
+/**
+ * FSRS Parameter Optimizer
+ *
+ * Fits a user's FSRS weights to their review log by minimizing the log loss
+ * of predicted recall (retrievability) against actual recall (quality >= 3).
+ * Uses Adam on forward-difference gradients, with each weight kept inside
+ * the bounds the reference FSRS optimizer uses and a small pull towards the
+ * default weights so sparse logs don't overfit. Every gradient replays the
+ * log once per weight, so large logs are fitted on a sample of their cards.
+ */
+
+import {
+  DEFAULT_FSRS_PARAMETERS,
+  qualityToRating,
+  retrievability,
+  reviewCard,
+  type FSRSState,
+} from './fsrs.ts';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const EPSILON = 1e-6;
+
+/** Reviews needed before a fit is attempted */
+export const MIN_REVIEWS_FOR_OPTIMIZATION = 100;
+/** Most recent reviews loaded per fit */
+export const MAX_REVIEWS_FOR_OPTIMIZATION = 5000;
+/** Reviews replayed while fitting, to bound the job's CPU time */
+export const MAX_REVIEWS_PER_FIT = 2000;
+
+// [min, max] for each of the 17 weights
+const PARAMETER_BOUNDS: readonly [number, number][] = [
+  [0.1, 100],
+  [0.1, 100],
+  [0.1, 100],
+  [0.1, 100],
+  [1, 10],
+  [0.1, 5],
+  [0.1, 5],
+  [0, 0.75],
+  [0, 4],
+  [0, 0.8],
+  [0.01, 3],
+  [0.5, 5],
+  [0.01, 0.2],
+  [0.01, 0.9],
+  [0.01, 2],
+  [0, 1],
+  [1, 6],
+];
+
+export interface ReviewLogEntry {
+  session_id: string;
+  review_date: string;
+  quality_rating: number;
+}
+
+export interface ReviewSequence {
+  reviewedAt: Date;
+  quality: number;
+}
+
+export interface FitEvaluation {
+  logLoss: number;
+  /** Mean predicted recall probability */
+  predictedRetention: number;
+  /** Share of reviews actually recalled */
+  actualRetention: number;
+  /** Reviews with a previous review to predict from */
+  predictionCount: number;
+}
+
+/** Evaluation is of the returned parameters */
+export interface OptimizationResult extends FitEvaluation {
+  parameters: number[];
+  defaultLogLoss: number;
+  /** Whether the fit predicts recall better than the default weights */
+  improved: boolean;
+}
+
+export interface OptimizerOptions {
+  iterations?: number;
+  learningRate?: number;
+  /** Strength of the pull towards the default weights */
+  regularization?: number;
+}
+
+/**
+ * Group a review log into per-session sequences, oldest first
+ */
+export function buildReviewSequences(
+  reviews: ReviewLogEntry[],
+): ReviewSequence[][] {
+  const bySession = new Map<string, ReviewSequence[]>();
+
+  for (const review of reviews) {
+    const sequence = bySession.get(review.session_id) ?? [];
+    sequence.push({
+      reviewedAt: new Date(review.review_date),
+      quality: review.quality_rating,
+    });
+    bySession.set(review.session_id, sequence);
+  }
+
+  return [...bySession.values()].map(sequence =>
+    sequence.sort((a, b) => a.reviewedAt.getTime() - b.reviewedAt.getTime()),
+  );
+}
+
+/**
+ * Every nth card's sequence, up to `maxReviews` reviews in total. The sample
+ * spans the whole log and is the same for the same log.
+ */
+export function sampleSequences(
+  sequences: ReviewSequence[][],
+  maxReviews: number = MAX_REVIEWS_PER_FIT,
+): ReviewSequence[][] {
+  const total = sequences.reduce((sum, sequence) => sum + sequence.length, 0);
+  if (total <= maxReviews) return sequences;
+
+  const stride = Math.ceil(total / maxReviews);
+  const sample: ReviewSequence[][] = [];
+  let count = 0;
+  for (let i = 0; i < sequences.length; i += stride) {
+    if (count + sequences[i].length > maxReviews) continue;
+    sample.push(sequences[i]);
+    count += sequences[i].length;
+  }
+  return sample;
+}
+
+/**
+ * Replay every sequence with the given weights and score each recall
+ * prediction against what actually happened
+ */
+export function evaluateParameters(
+  sequences: ReviewSequence[][],
+  parameters: readonly number[],
+): FitEvaluation {
+  let loss = 0;
+  let predicted = 0;
+  let recalled = 0;
+  let count = 0;
+
+  for (const sequence of sequences) {
+    let state: FSRSState | null = null;
+
+    for (const review of sequence) {
+      if (state) {
+        const elapsedDays =
+          (review.reviewedAt.getTime() - state.lastReviewAt.getTime()) / DAY_MS;
+        const p = Math.min(
+          1 - EPSILON,
+          Math.max(EPSILON, retrievability(elapsedDays, state.stability)),
+        );
+        const y = review.quality >= 3 ? 1 : 0;
+
+        loss -= y * Math.log(p) + (1 - y) * Math.log(1 - p);
+        predicted += p;
+        recalled += y;
+        count++;
+      }
+
+      state = reviewCard(
+        state,
+        qualityToRating(review.quality),
+        review.reviewedAt,
+        { parameters },
+      ).state;
+    }
+  }
+
+  return {
+    logLoss: count > 0 ? loss / count : 0,
+    predictedRetention: count > 0 ? predicted / count : 0,
+    actualRetention: count > 0 ? recalled / count : 0,
+    predictionCount: count,
+  };
+}
+
+function clampToBounds(parameters: number[]): number[] {
+  return parameters.map((value, i) =>
+    Math.min(PARAMETER_BOUNDS[i][1], Math.max(PARAMETER_BOUNDS[i][0], value)),
+  );
+}
+
+/**
+ * Fit FSRS weights to a user's review sequences. The fit runs on a sample
+ * of the sequences; the returned evaluation covers all of them.
+ */
+export function optimizeParameters(
+  sequences: ReviewSequence[][],
+  options: OptimizerOptions = {},
+): OptimizationResult {
+  const iterations = options.iterations ?? 40;
+  const learningRate = options.learningRate ?? 0.02;
+  const regularization = options.regularization ?? 0.05;
+
+  const defaults = [...DEFAULT_FSRS_PARAMETERS];
+  const ranges = PARAMETER_BOUNDS.map(([min, max]) => max - min);
+  // Typical magnitude of each weight, so steps suit both w0 and w7
+  const scales = defaults.map((value, i) =>
+    Math.max(Math.abs(value), ranges[i] * 0.05),
+  );
+  const baseline = evaluateParameters(sequences, defaults);
+  const sample = sampleSequences(sequences);
+
+  // Regularization fades as the log grows
+  const penaltyWeight =
+    regularization / Math.sqrt(Math.max(1, baseline.predictionCount));
+  const objective = (parameters: number[]) =>
+    evaluateParameters(sample, parameters).logLoss +
+    penaltyWeight *
+      parameters.reduce(
+        (sum, value, i) => sum + ((value - defaults[i]) / scales[i]) ** 2,
+        0,
+      );
+
+  let parameters = [...defaults];
+  let loss = objective(parameters);
+  let best = { parameters, loss };
+  const m = new Array(parameters.length).fill(0);
+  const v = new Array(parameters.length).fill(0);
+  const beta1 = 0.9;
+  const beta2 = 0.999;
+
+  for (let step = 1; step <= iterations; step++) {
+    const gradient = parameters.map((value, i) => {
+      const h = scales[i] * 1e-3;
+      // Step down instead at the upper bound
+      const nudged =
+        value + h <= PARAMETER_BOUNDS[i][1] ? value + h : value - h;
+      const shifted = parameters.map((p, j) => (j === i ? nudged : p));
+      return (objective(shifted) - loss) / (nudged - value);
+    });
+
+    parameters = clampToBounds(
+      parameters.map((value, i) => {
+        m[i] = beta1 * m[i] + (1 - beta1) * gradient[i];
+        v[i] = beta2 * v[i] + (1 - beta2) * gradient[i] ** 2;
+        const mHat = m[i] / (1 - beta1 ** step);
+        const vHat = v[i] / (1 - beta2 ** step);
+        return (
+          value - learningRate * scales[i] * (mHat / (Math.sqrt(vHat) + 1e-8))
+        );
+      }),
+    );
+
+    loss = objective(parameters);
+    if (loss < best.loss) {
+      best = { parameters, loss };
+    }
+  }
+
+  const fitted = evaluateParameters(sequences, best.parameters);
+  const improved = fitted.logLoss < baseline.logLoss;
+
+  // Keep the defaults unless the fit predicts recall better
+  return {
+    ...(improved ? fitted : baseline),
+    parameters: improved ? best.parameters : defaults,
+    defaultLogLoss: baseline.logLoss,
+    improved,
+  };
+}
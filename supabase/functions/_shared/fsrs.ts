@@ -0,0 +1,247 @@
+/**
+ * FSRS (Free Spaced Repetition Scheduler) v4.5
+ *
+ * Models each study session's memory with:
+ * - stability (S): days until recall probability drops to 90%
+ * - difficulty (D): 1 (easy) to 10 (hard)
+ * - retrievability (R): probability of recall at review time
+ *
+ * Reference: https://github.com/open-spaced-repetition/fsrs4anki/wiki/The-Algorithm
+ */
+
+// Power forgetting curve constants: R(t, S) = (1 + FACTOR * t / S) ^ DECAY
+const DECAY = -0.5;
+const FACTOR = 19 / 81;
+
+const MIN_DIFFICULTY = 1;
+const MAX_DIFFICULTY = 10;
+const MIN_STABILITY = 0.1;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const DEFAULT_DESIRED_RETENTION = 0.9;
+export const MIN_DESIRED_RETENTION = 0.7;
+export const MAX_DESIRED_RETENTION = 0.97;
+export const FSRS_MAX_INTERVAL_DAYS = 365;
+
+// Default weights trained on the open FSRS review dataset
+export const DEFAULT_FSRS_PARAMETERS: readonly number[] = [
+  0.4872, 1.4003, 3.7145, 13.8206, 5.1618, 1.2298, 0.8975, 0.031, 1.6474,
+  0.1367, 1.0461, 2.1072, 0.0793, 0.3246, 1.587, 0.2272, 2.8755,
+];
+
+export type FSRSRating = 1 | 2 | 3 | 4; // Again | Hard | Good | Easy
+
+export interface FSRSState {
+  stability: number;
+  difficulty: number;
+  lastReviewAt: Date;
+  reps: number;
+  lapses: number;
+}
+
+export interface FSRSReviewResult {
+  state: FSRSState;
+  /** Recall probability at the moment of this review (null for the first review) */
+  retrievability: number | null;
+  nextIntervalDays: number;
+}
+
+export interface FSRSOptions {
+  parameters?: readonly number[];
+  desiredRetention?: number;
+  maximumIntervalDays?: number;
+}
+
+const clamp = (value: number, min: number, max: number) =>
+  Math.min(max, Math.max(min, value));
+
+/**
+ * Map the 0-5 SM-2 quality scale used by srs_performance to an FSRS rating.
+ * SM-2 treats anything below 3 as a failed recall, so 0-2 map to Again.
+ */
+export function qualityToRating(quality: number): FSRSRating {
+  if (quality <= 2) return 1;
+  if (quality === 3) return 2;
+  if (quality === 4) return 3;
+  return 4;
+}
+
+export function normalizeDesiredRetention(retention?: number | null): number {
+  if (typeof retention !== 'number' || Number.isNaN(retention)) {
+    return DEFAULT_DESIRED_RETENTION;
+  }
+  return clamp(retention, MIN_DESIRED_RETENTION, MAX_DESIRED_RETENTION);
+}
+
+/**
+ * Use custom parameters only if they are a complete, finite weight vector
+ */
+export function resolveParameters(
+  parameters?: readonly number[] | null,
+): readonly number[] {
+  return parameters &&
+    parameters.length === DEFAULT_FSRS_PARAMETERS.length &&
+    parameters.every(Number.isFinite)
+    ? parameters
+    : DEFAULT_FSRS_PARAMETERS;
+}
+
+/**
+ * Probability of recall after elapsedDays for a memory with the given stability
+ */
+export function retrievability(elapsedDays: number, stability: number): number {
+  return Math.pow(
+    1 +
+      (FACTOR * Math.max(0, elapsedDays)) / Math.max(stability, MIN_STABILITY),
+    DECAY,
+  );
+}
+
+/**
+ * Days until recall probability falls to the desired retention
+ */
+export function nextInterval(
+  stability: number,
+  desiredRetention: number = DEFAULT_DESIRED_RETENTION,
+  maximumIntervalDays: number = FSRS_MAX_INTERVAL_DAYS,
+): number {
+  const interval =
+    (stability / FACTOR) * (Math.pow(desiredRetention, 1 / DECAY) - 1);
+  return clamp(Math.round(interval), 1, maximumIntervalDays);
+}
+
+function initialStability(w: readonly number[], rating: FSRSRating): number {
+  return Math.max(w[rating - 1], MIN_STABILITY);
+}
+
+function initialDifficulty(w: readonly number[], rating: FSRSRating): number {
+  return w[4] - (rating - 3) * w[5];
+}
+
+function nextDifficulty(
+  w: readonly number[],
+  difficulty: number,
+  rating: FSRSRating,
+): number {
+  const updated = difficulty - w[6] * (rating - 3);
+  // Mean reversion towards the initial difficulty of a "Good" first review
+  const reverted = w[7] * initialDifficulty(w, 3) + (1 - w[7]) * updated;
+  return clamp(reverted, MIN_DIFFICULTY, MAX_DIFFICULTY);
+}
+
+function recallStability(
+  w: readonly number[],
+  difficulty: number,
+  stability: number,
+  recall: number,
+  rating: FSRSRating,
+): number {
+  const hardPenalty = rating === 2 ? w[15] : 1;
+  const easyBonus = rating === 4 ? w[16] : 1;
+  return (
+    stability *
+    (1 +
+      Math.exp(w[8]) *
+        (11 - difficulty) *
+        Math.pow(stability, -w[9]) *
+        (Math.exp(w[10] * (1 - recall)) - 1) *
+        hardPenalty *
+        easyBonus)
+  );
+}
+
+function forgetStability(
+  w: readonly number[],
+  difficulty: number,
+  stability: number,
+  recall: number,
+): number {
+  const next =
+    w[11] *
+    Math.pow(difficulty, -w[12]) *
+    (Math.pow(stability + 1, w[13]) - 1) *
+    Math.exp(w[14] * (1 - recall));
+  // Forgetting can never leave a memory more stable than it was
+  return Math.min(next, stability);
+}
+
+/**
+ * Apply one review to a memory state
+ *
+ * @param state - State after the previous review, or null for a first review
+ * @param rating - FSRS rating for this review
+ * @param reviewedAt - When the review happened
+ */
+export function reviewCard(
+  state: FSRSState | null,
+  rating: FSRSRating,
+  reviewedAt: Date,
+  options: FSRSOptions = {},
+): FSRSReviewResult {
+  const w = resolveParameters(options.parameters);
+  const desiredRetention = normalizeDesiredRetention(options.desiredRetention);
+  const maximumIntervalDays =
+    options.maximumIntervalDays ?? FSRS_MAX_INTERVAL_DAYS;
+
+  let stability: number;
+  let difficulty: number;
+  let recall: number | null = null;
+
+  if (!state) {
+    stability = initialStability(w, rating);
+    difficulty = clamp(
+      initialDifficulty(w, rating),
+      MIN_DIFFICULTY,
+      MAX_DIFFICULTY,
+    );
+  } else {
+    const elapsedDays =
+      (reviewedAt.getTime() - state.lastReviewAt.getTime()) / DAY_MS;
+    recall = retrievability(elapsedDays, state.stability);
+    difficulty = nextDifficulty(w, state.difficulty, rating);
+    stability =
+      rating === 1
+        ? forgetStability(w, state.difficulty, state.stability, recall)
+        : recallStability(w, state.difficulty, state.stability, recall, rating);
+  }
+
+  stability = Math.max(stability, MIN_STABILITY);
+
+  return {
+    state: {
+      stability,
+      difficulty,
+      lastReviewAt: reviewedAt,
+      reps: (state?.reps ?? 0) + 1,
+      lapses: (state?.lapses ?? 0) + (state && rating === 1 ? 1 : 0),
+    },
+    retrievability: recall,
+    nextIntervalDays:
+      rating === 1
+        ? 1
+        : nextInterval(stability, desiredRetention, maximumIntervalDays),
+  };
+}
+
+/**
+ * Rebuild a memory state by replaying review history in chronological order.
+ * Used to seed FSRS from reviews that were scheduled with SM-2.
+ */
+export function replayReviews(
+  reviews: { reviewedAt: Date; quality: number }[],
+  options: FSRSOptions = {},
+): FSRSState | null {
+  let state: FSRSState | null = null;
+  const ordered = [...reviews].sort(
+    (a, b) => a.reviewedAt.getTime() - b.reviewedAt.getTime(),
+  );
+  for (const review of ordered) {
+    state = reviewCard(
+      state,
+      qualityToRating(review.quality),
+      review.reviewedAt,
+      options,
+    ).state;
+  }
+  return state;
+}
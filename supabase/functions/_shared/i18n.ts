@@ -0,0 +1,650 @@
+/**
+ * Server Translations
+ *
+ * Catalogs for the text edge functions write to users: reminder pushes and
+ * emails, daily summaries and the welcome email. A user's locale is
+ * users.locale when they picked one in the app, else users.device_locale,
+ * else English. Messages use the same ICU subset as the app ({name},
+ * plural with #, select), and Arabic gets its CLDR plural forms.
+ */
+
+export const SUPPORTED_LOCALES = ['en', 'es', 'fr', 'ar'] as const;
+
+export type SupportedLocale = (typeof SUPPORTED_LOCALES)[number];
+
+export function resolveUserLocale(
+  user?: { locale?: string | null; device_locale?: string | null } | null,
+): SupportedLocale {
+  const isSupported = (value?: string | null): value is SupportedLocale =>
+    !!value && (SUPPORTED_LOCALES as readonly string[]).includes(value);
+
+  if (isSupported(user?.locale)) return user.locale;
+  if (isSupported(user?.device_locale)) return user.device_locale;
+  return 'en';
+}
+
+export function textDirection(locale: SupportedLocale): 'rtl' | 'ltr' {
+  return locale === 'ar' ? 'rtl' : 'ltr';
+}
+
+const en = {
+  'reminder.fallbackTitle': 'Reminder',
+  'reminder.fallbackBody': 'You have a new reminder from ELARO.',
+  'reminder.followUpTitle': "Don't forget: {title}",
+  'reminder.emailSubject': 'Reminder: {title}',
+  'reminder.emailType':
+    '<strong>Type:</strong> {type, select, assignment {Assignment} lecture {Lecture} study_session {Study session} spaced_repetition {Spaced repetition review} exam {Exam} other {Task}}',
+  'reminder.emailViewDetails': 'View Details',
+  'reminder.emailFooter':
+    'You received this reminder because you have {type, select, assignment {assignment} lecture {lecture} spaced_repetition {spaced repetition} other {reminder}} notifications enabled.',
+  'reminder.digestTitle':
+    '{count, plural, one {# reminder coming up} other {# reminders coming up}}',
+  'reminder.digestBody': 'You have {parts}.',
+  'reminder.digest.spaced_repetition':
+    '{count, plural, one {# review} other {# reviews}}',
+  'reminder.digest.assignment':
+    '{count, plural, one {# assignment deadline} other {# assignment deadlines}}',
+  'reminder.digest.exam': '{count, plural, one {# exam} other {# exams}}',
+  'reminder.digest.lecture':
+    '{count, plural, one {# lecture} other {# lectures}}',
+  'reminder.digest.study_session':
+    '{count, plural, one {# study session} other {# study sessions}}',
+  'reminder.digest.other':
+    '{count, plural, one {# other reminder} other {# other reminders}}',
+  'reminder.digestEmailSubject': 'Coming up: {parts}',
+  'reminder.digestViewAll': 'View All',
+  'reminder.digestEmailFooter':
+    'You received this email because you have reminder notifications enabled.',
+
+  'srs.title': 'Spaced Repetition: Review "{topic}"',
+  'srs.body':
+    'It\'s time to review your study session on "{topic}" to strengthen your memory.',
+
+  'summary.title': "Here's your daily summary!",
+  'summary.body': "Today's Plan: {parts}.",
+  'summary.lectures': '{count, plural, one {# lecture} other {# lectures}}',
+  'summary.assignmentsDue':
+    '{count, plural, one {# assignment due} other {# assignments due}}',
+  'summary.studySessions':
+    '{count, plural, one {# study session} other {# study sessions}}',
+  'summary.emailSubject': 'Your Daily ELARO Summary',
+  'summary.emailGreeting': 'Hi {name}! 👋',
+  'summary.emailFallbackName': 'there',
+  'summary.emailIntro': "Here's your daily academic summary:",
+  'summary.emailLectures':
+    '{count, plural, one {<strong>#</strong> lecture scheduled} other {<strong>#</strong> lectures scheduled}}',
+  'summary.emailAssignments':
+    '{count, plural, one {<strong>#</strong> assignment due} other {<strong>#</strong> assignments due}}',
+  'summary.emailStudySessions':
+    '{count, plural, one {<strong>#</strong> study session planned} other {<strong>#</strong> study sessions planned}}',
+  'summary.emailClosing': 'Stay on track and have a productive day! 🎓',
+  'summary.emailDashboard': 'View Dashboard',
+
+  'welcome.subject': 'Welcome to ELARO! 🎓',
+  'welcome.heading': 'Welcome to ELARO! 🎓',
+  'welcome.tagline': 'Your academic journey starts here',
+  'welcome.greeting': 'Hi {name}!',
+  'welcome.intro':
+    "Welcome to ELARO, your personal academic companion! We're excited to help you organize your studies, track your progress, and achieve your academic goals.",
+  'welcome.featuresHeading': 'What you can do with ELARO:',
+  'welcome.featureCourses': '📚 Organize your courses and assignments',
+  'welcome.featureSessions': '📅 Track your study sessions and lectures',
+  'welcome.featureSrs': '🧠 Use spaced repetition for better learning',
+  'welcome.featureProgress': '📊 Monitor your academic progress',
+  'welcome.featureReminders': '🔔 Get personalized reminders',
+  'welcome.ready':
+    'Ready to get started? Click the button below to begin your academic journey!',
+  'welcome.button': 'Get Started',
+  'welcome.support':
+    'If you have any questions, feel free to reach out to our support team.',
+  'welcome.signOff': 'Best regards,<br>The ELARO Team',
+  'welcome.rights': '© 2024 ELARO. All rights reserved.',
+  'welcome.reason': 'You received this email because you signed up for ELARO.',
+
+  'weeklyReport.title': 'Your week in review',
+  'weeklyReport.body':
+    '{count, plural, one {You studied {hours} h and completed # task this week.} other {You studied {hours} h and completed # tasks this week.}}',
+  'weeklyReport.emailSubject': 'Your ELARO weekly report ({range})',
+  'weeklyReport.emailIntro': "Here's how your week ({range}) went:",
+  'weeklyReport.studyTime': 'Study time',
+  'weeklyReport.tasksCompleted': 'Tasks completed',
+  'weeklyReport.focusSessions': 'Focus sessions',
+  'weeklyReport.streak': 'Study streak',
+  'weeklyReport.hours': '{hours} h',
+  'weeklyReport.days': '{count, plural, one {# day} other {# days}}',
+  'weeklyReport.dailyActivity': 'Study time by day (minutes)',
+  'weeklyReport.achievements': 'Badges earned',
+  'weeklyReport.tips': 'For next week',
+  'weeklyReport.viewReport': 'View Full Report',
+  'weeklyReport.footer':
+    'You received this email because weekly reports are turned on in your notification settings.',
+  'weeklyReport.highlight.studyTime': 'You studied for {hours} hours.',
+  'weeklyReport.highlight.tasks':
+    '{count, plural, one {You completed # task.} other {You completed # tasks.}}',
+  'weeklyReport.highlight.streak': "You're on a {days}-day study streak.",
+  'weeklyReport.highlight.badges':
+    '{count, plural, one {You earned a new badge.} other {You earned # new badges.}}',
+  'weeklyReport.area.completion': 'Finishing scheduled tasks',
+  'weeklyReport.area.consistency': 'Studying consistently',
+  'weeklyReport.area.focus': 'Using focus sessions',
+  'weeklyReport.tip.completion':
+    'Break big assignments into smaller steps and start them earlier.',
+  'weeklyReport.tip.consistency':
+    'Plan a short study block on most days. Even 25 minutes helps.',
+  'weeklyReport.tip.focus': 'Try the focus timer for your next study session.',
+  'weeklyReport.tip.keepGoing': 'Keep the same rhythm going next week.',
+  'weeklyReport.motivation':
+    'Every study session brings you closer to your goals.',
+
+  'achievement.streak.title': '{days}-Day Streak',
+  'achievement.streak.description': 'You studied {days} days in a row.',
+  'achievement.milestone.title':
+    '{count, plural, one {First Task Done} other {# Tasks Done}}',
+  'achievement.milestone.description':
+    '{count, plural, one {You completed your first task.} other {You have completed # tasks.}}',
+  'achievement.improvement.title': 'Most Improved',
+  'achievement.improvement.description':
+    'You completed {thisWeek} tasks this week, up from {lastWeek} the week before.',
+  'achievement.srsConsistency.title': '{days}-Day Review Run',
+  'achievement.srsConsistency.description':
+    'You kept up your spaced-repetition reviews {days} days in a row.',
+};
+
+export type ServerMessageKey = keyof typeof en;
+
+const es: Record<ServerMessageKey, string> = {
+  'reminder.fallbackTitle': 'Recordatorio',
+  'reminder.fallbackBody': 'Tienes un nuevo recordatorio de ELARO.',
+  'reminder.followUpTitle': 'No lo olvides: {title}',
+  'reminder.emailSubject': 'Recordatorio: {title}',
+  'reminder.emailType':
+    '<strong>Tipo:</strong> {type, select, assignment {Tarea} lecture {Clase} study_session {Sesión de estudio} spaced_repetition {Repaso espaciado} exam {Examen} other {Tarea}}',
+  'reminder.emailViewDetails': 'Ver detalles',
+  'reminder.emailFooter':
+    'Recibiste este recordatorio porque tienes activadas las notificaciones de {type, select, assignment {tareas} lecture {clases} spaced_repetition {repaso espaciado} other {recordatorios}}.',
+  'reminder.digestTitle':
+    '{count, plural, one {# recordatorio próximo} other {# recordatorios próximos}}',
+  'reminder.digestBody': 'Tienes {parts}.',
+  'reminder.digest.spaced_repetition':
+    '{count, plural, one {# repaso} other {# repasos}}',
+  'reminder.digest.assignment':
+    '{count, plural, one {# tarea para entregar} other {# tareas para entregar}}',
+  'reminder.digest.exam': '{count, plural, one {# examen} other {# exámenes}}',
+  'reminder.digest.lecture': '{count, plural, one {# clase} other {# clases}}',
+  'reminder.digest.study_session':
+    '{count, plural, one {# sesión de estudio} other {# sesiones de estudio}}',
+  'reminder.digest.other':
+    '{count, plural, one {# recordatorio más} other {# recordatorios más}}',
+  'reminder.digestEmailSubject': 'Próximamente: {parts}',
+  'reminder.digestViewAll': 'Ver todo',
+  'reminder.digestEmailFooter':
+    'Recibiste este correo porque tienes activadas las notificaciones de recordatorios.',
+
+  'srs.title': 'Repaso espaciado: repasa "{topic}"',
+  'srs.body':
+    'Es hora de repasar tu sesión de estudio sobre "{topic}" para afianzar tu memoria.',
+
+  'summary.title': '¡Aquí tienes tu resumen del día!',
+  'summary.body': 'Plan de hoy: {parts}.',
+  'summary.lectures': '{count, plural, one {# clase} other {# clases}}',
+  'summary.assignmentsDue':
+    '{count, plural, one {# tarea para entregar} other {# tareas para entregar}}',
+  'summary.studySessions':
+    '{count, plural, one {# sesión de estudio} other {# sesiones de estudio}}',
+  'summary.emailSubject': 'Tu resumen diario de ELARO',
+  'summary.emailGreeting': '¡Hola, {name}! 👋',
+  'summary.emailFallbackName': 'estudiante',
+  'summary.emailIntro': 'Este es tu resumen académico del día:',
+  'summary.emailLectures':
+    '{count, plural, one {<strong>#</strong> clase programada} other {<strong>#</strong> clases programadas}}',
+  'summary.emailAssignments':
+    '{count, plural, one {<strong>#</strong> tarea para entregar} other {<strong>#</strong> tareas para entregar}}',
+  'summary.emailStudySessions':
+    '{count, plural, one {<strong>#</strong> sesión de estudio planificada} other {<strong>#</strong> sesiones de estudio planificadas}}',
+  'summary.emailClosing': '¡Mantén el rumbo y que tengas un día productivo! 🎓',
+  'summary.emailDashboard': 'Ver panel',
+
+  'welcome.subject': '¡Bienvenido a ELARO! 🎓',
+  'welcome.heading': '¡Bienvenido a ELARO! 🎓',
+  'welcome.tagline': 'Tu camino académico empieza aquí',
+  'welcome.greeting': '¡Hola, {name}!',
+  'welcome.intro':
+    'Te damos la bienvenida a ELARO, tu compañero académico personal. Nos alegra ayudarte a organizar tus estudios, seguir tu progreso y alcanzar tus metas académicas.',
+  'welcome.featuresHeading': 'Lo que puedes hacer con ELARO:',
+  'welcome.featureCourses': '📚 Organizar tus cursos y tareas',
+  'welcome.featureSessions':
+    '📅 Llevar el control de tus sesiones de estudio y clases',
+  'welcome.featureSrs': '🧠 Usar la repetición espaciada para aprender mejor',
+  'welcome.featureProgress': '📊 Seguir tu progreso académico',
+  'welcome.featureReminders': '🔔 Recibir recordatorios personalizados',
+  'welcome.ready':
+    '¿Listo para empezar? Pulsa el botón de abajo para comenzar tu camino académico.',
+  'welcome.button': 'Empezar',
+  'welcome.support':
+    'Si tienes alguna pregunta, no dudes en contactar con nuestro equipo de soporte.',
+  'welcome.signOff': 'Saludos,<br>El equipo de ELARO',
+  'welcome.rights': '© 2024 ELARO. Todos los derechos reservados.',
+  'welcome.reason': 'Recibiste este correo porque te registraste en ELARO.',
+
+  'weeklyReport.title': 'Tu semana en resumen',
+  'weeklyReport.body':
+    '{count, plural, one {Estudiaste {hours} h y completaste # tarea esta semana.} other {Estudiaste {hours} h y completaste # tareas esta semana.}}',
+  'weeklyReport.emailSubject': 'Tu informe semanal de ELARO ({range})',
+  'weeklyReport.emailIntro': 'Así fue tu semana ({range}):',
+  'weeklyReport.studyTime': 'Tiempo de estudio',
+  'weeklyReport.tasksCompleted': 'Tareas completadas',
+  'weeklyReport.focusSessions': 'Sesiones de concentración',
+  'weeklyReport.streak': 'Racha de estudio',
+  'weeklyReport.hours': '{hours} h',
+  'weeklyReport.days': '{count, plural, one {# día} other {# días}}',
+  'weeklyReport.dailyActivity': 'Tiempo de estudio por día (minutos)',
+  'weeklyReport.achievements': 'Insignias obtenidas',
+  'weeklyReport.tips': 'Para la próxima semana',
+  'weeklyReport.viewReport': 'Ver informe completo',
+  'weeklyReport.footer':
+    'Recibes este correo porque los informes semanales están activados en tus ajustes de notificaciones.',
+  'weeklyReport.highlight.studyTime': 'Estudiaste {hours} horas.',
+  'weeklyReport.highlight.tasks':
+    '{count, plural, one {Completaste # tarea.} other {Completaste # tareas.}}',
+  'weeklyReport.highlight.streak':
+    'Llevas una racha de {days} días de estudio.',
+  'weeklyReport.highlight.badges':
+    '{count, plural, one {Ganaste una insignia nueva.} other {Ganaste # insignias nuevas.}}',
+  'weeklyReport.area.completion': 'Terminar las tareas programadas',
+  'weeklyReport.area.consistency': 'Estudiar con constancia',
+  'weeklyReport.area.focus': 'Usar sesiones de concentración',
+  'weeklyReport.tip.completion':
+    'Divide los trabajos grandes en pasos pequeños y empiézalos antes.',
+  'weeklyReport.tip.consistency':
+    'Planifica un bloque corto de estudio casi todos los días. Incluso 25 minutos ayudan.',
+  'weeklyReport.tip.focus':
+    'Prueba el temporizador de concentración en tu próxima sesión.',
+  'weeklyReport.tip.keepGoing': 'Mantén el mismo ritmo la próxima semana.',
+  'weeklyReport.motivation': 'Cada sesión de estudio te acerca a tus metas.',
+
+  'achievement.streak.title': 'Racha de {days} días',
+  'achievement.streak.description': 'Estudiaste {days} días seguidos.',
+  'achievement.milestone.title':
+    '{count, plural, one {Primera tarea completada} other {# tareas completadas}}',
+  'achievement.milestone.description':
+    '{count, plural, one {Completaste tu primera tarea.} other {Has completado # tareas.}}',
+  'achievement.improvement.title': 'Gran mejora',
+  'achievement.improvement.description':
+    'Completaste {thisWeek} tareas esta semana, frente a {lastWeek} la semana anterior.',
+  'achievement.srsConsistency.title': '{days} días de repaso',
+  'achievement.srsConsistency.description':
+    'Mantuviste tus repasos espaciados {days} días seguidos.',
+};
+
+const fr: Record<ServerMessageKey, string> = {
+  'reminder.fallbackTitle': 'Rappel',
+  'reminder.fallbackBody': 'Vous avez un nouveau rappel de ELARO.',
+  'reminder.followUpTitle': "N'oubliez pas : {title}",
+  'reminder.emailSubject': 'Rappel : {title}',
+  'reminder.emailType':
+    '<strong>Type :</strong> {type, select, assignment {Devoir} lecture {Cours} study_session {Session de révision} spaced_repetition {Révision espacée} exam {Examen} other {Tâche}}',
+  'reminder.emailViewDetails': 'Voir les détails',
+  'reminder.emailFooter':
+    'Vous recevez ce rappel car les notifications {type, select, assignment {de devoirs} lecture {de cours} spaced_repetition {de révision espacée} other {de rappel}} sont activées.',
+  'reminder.digestTitle':
+    '{count, plural, one {# rappel à venir} other {# rappels à venir}}',
+  'reminder.digestBody': 'Vous avez {parts}.',
+  'reminder.digest.spaced_repetition':
+    '{count, plural, one {# révision} other {# révisions}}',
+  'reminder.digest.assignment':
+    '{count, plural, one {# devoir à rendre} other {# devoirs à rendre}}',
+  'reminder.digest.exam': '{count, plural, one {# examen} other {# examens}}',
+  'reminder.digest.lecture': '{count, plural, one {# cours} other {# cours}}',
+  'reminder.digest.study_session':
+    '{count, plural, one {# session de révision} other {# sessions de révision}}',
+  'reminder.digest.other':
+    '{count, plural, one {# autre rappel} other {# autres rappels}}',
+  'reminder.digestEmailSubject': 'À venir : {parts}',
+  'reminder.digestViewAll': 'Tout voir',
+  'reminder.digestEmailFooter':
+    'Vous recevez cet e-mail car les notifications de rappel sont activées.',
+
+  'srs.title': 'Révision espacée : révisez « {topic} »',
+  'srs.body':
+    'Il est temps de revoir votre session de révision sur « {topic} » pour renforcer votre mémoire.',
+
+  'summary.title': 'Voici votre résumé du jour !',
+  'summary.body': 'Au programme aujourd’hui : {parts}.',
+  'summary.lectures': '{count, plural, one {# cours} other {# cours}}',
+  'summary.assignmentsDue':
+    '{count, plural, one {# devoir à rendre} other {# devoirs à rendre}}',
+  'summary.studySessions':
+    '{count, plural, one {# session de révision} other {# sessions de révision}}',
+  'summary.emailSubject': 'Votre résumé quotidien ELARO',
+  'summary.emailGreeting': 'Bonjour {name} ! 👋',
+  'summary.emailFallbackName': 'à vous',
+  'summary.emailIntro': 'Voici votre résumé académique du jour :',
+  'summary.emailLectures':
+    '{count, plural, one {<strong>#</strong> cours prévu} other {<strong>#</strong> cours prévus}}',
+  'summary.emailAssignments':
+    '{count, plural, one {<strong>#</strong> devoir à rendre} other {<strong>#</strong> devoirs à rendre}}',
+  'summary.emailStudySessions':
+    '{count, plural, one {<strong>#</strong> session de révision prévue} other {<strong>#</strong> sessions de révision prévues}}',
+  'summary.emailClosing': 'Gardez le cap et passez une journée productive ! 🎓',
+  'summary.emailDashboard': 'Voir le tableau de bord',
+
+  'welcome.subject': 'Bienvenue sur ELARO ! 🎓',
+  'welcome.heading': 'Bienvenue sur ELARO ! 🎓',
+  'welcome.tagline': 'Votre parcours académique commence ici',
+  'welcome.greeting': 'Bonjour {name} !',
+  'welcome.intro':
+    'Bienvenue sur ELARO, votre compagnon académique personnel ! Nous sommes ravis de vous aider à organiser vos études, suivre vos progrès et atteindre vos objectifs.',
+  'welcome.featuresHeading': 'Ce que vous pouvez faire avec ELARO :',
+  'welcome.featureCourses': '📚 Organiser vos cours et vos devoirs',
+  'welcome.featureSessions': '📅 Suivre vos sessions de révision et vos cours',
+  'welcome.featureSrs':
+    '🧠 Utiliser la répétition espacée pour mieux apprendre',
+  'welcome.featureProgress': '📊 Suivre votre progression',
+  'welcome.featureReminders': '🔔 Recevoir des rappels personnalisés',
+  'welcome.ready':
+    'Prêt à commencer ? Cliquez sur le bouton ci-dessous pour démarrer votre parcours.',
+  'welcome.button': 'Commencer',
+  'welcome.support':
+    "Pour toute question, n'hésitez pas à contacter notre équipe d'assistance.",
+  'welcome.signOff': "Cordialement,<br>L'équipe ELARO",
+  'welcome.rights': '© 2024 ELARO. Tous droits réservés.',
+  'welcome.reason':
+    'Vous recevez cet e-mail car vous vous êtes inscrit sur ELARO.',
+
+  'weeklyReport.title': 'Votre semaine en bref',
+  'weeklyReport.body':
+    '{count, plural, one {Vous avez étudié {hours} h et terminé # tâche cette semaine.} other {Vous avez étudié {hours} h et terminé # tâches cette semaine.}}',
+  'weeklyReport.emailSubject': 'Votre rapport hebdomadaire ELARO ({range})',
+  'weeklyReport.emailIntro':
+    'Voici comment s’est passée votre semaine ({range}) :',
+  'weeklyReport.studyTime': "Temps d'étude",
+  'weeklyReport.tasksCompleted': 'Tâches terminées',
+  'weeklyReport.focusSessions': 'Sessions de concentration',
+  'weeklyReport.streak': "Série d'étude",
+  'weeklyReport.hours': '{hours} h',
+  'weeklyReport.days': '{count, plural, one {# jour} other {# jours}}',
+  'weeklyReport.dailyActivity': "Temps d'étude par jour (minutes)",
+  'weeklyReport.achievements': 'Badges obtenus',
+  'weeklyReport.tips': 'Pour la semaine prochaine',
+  'weeklyReport.viewReport': 'Voir le rapport complet',
+  'weeklyReport.footer':
+    'Vous recevez cet e-mail car les rapports hebdomadaires sont activés dans vos paramètres de notification.',
+  'weeklyReport.highlight.studyTime': 'Vous avez étudié {hours} heures.',
+  'weeklyReport.highlight.tasks':
+    '{count, plural, one {Vous avez terminé # tâche.} other {Vous avez terminé # tâches.}}',
+  'weeklyReport.highlight.streak':
+    "Vous êtes sur une série de {days} jours d'étude.",
+  'weeklyReport.highlight.badges':
+    '{count, plural, one {Vous avez gagné un nouveau badge.} other {Vous avez gagné # nouveaux badges.}}',
+  'weeklyReport.area.completion': 'Terminer les tâches prévues',
+  'weeklyReport.area.consistency': 'Étudier régulièrement',
+  'weeklyReport.area.focus': 'Utiliser les sessions de concentration',
+  'weeklyReport.tip.completion':
+    'Découpez les gros devoirs en petites étapes et commencez-les plus tôt.',
+  'weeklyReport.tip.consistency':
+    "Prévoyez un court moment d'étude presque chaque jour. Même 25 minutes, ça compte.",
+  'weeklyReport.tip.focus':
+    'Essayez le minuteur de concentration pour votre prochaine session.',
+  'weeklyReport.tip.keepGoing': 'Gardez le même rythme la semaine prochaine.',
+  'weeklyReport.motivation':
+    "Chaque session d'étude vous rapproche de vos objectifs.",
+
+  'achievement.streak.title': 'Série de {days} jours',
+  'achievement.streak.description': "Vous avez étudié {days} jours d'affilée.",
+  'achievement.milestone.title':
+    '{count, plural, one {Première tâche terminée} other {# tâches terminées}}',
+  'achievement.milestone.description':
+    '{count, plural, one {Vous avez terminé votre première tâche.} other {Vous avez terminé # tâches.}}',
+  'achievement.improvement.title': 'Belle progression',
+  'achievement.improvement.description':
+    'Vous avez terminé {thisWeek} tâches cette semaine, contre {lastWeek} la semaine précédente.',
+  'achievement.srsConsistency.title': '{days} jours de révision',
+  'achievement.srsConsistency.description':
+    "Vous avez fait vos révisions espacées {days} jours d'affilée.",
+};
+
+const ar: Record<ServerMessageKey, string> = {
+  'reminder.fallbackTitle': 'تذكير',
+  'reminder.fallbackBody': 'لديك تذكير جديد من ELARO.',
+  'reminder.followUpTitle': 'لا تنسَ: {title}',
+  'reminder.emailSubject': 'تذكير: {title}',
+  'reminder.emailType':
+    '<strong>النوع:</strong> {type, select, assignment {واجب} lecture {محاضرة} study_session {جلسة مذاكرة} spaced_repetition {مراجعة متباعدة} exam {اختبار} other {مهمة}}',
+  'reminder.emailViewDetails': 'عرض التفاصيل',
+  'reminder.emailFooter':
+    'وصلك هذا التذكير لأن إشعارات {type, select, assignment {الواجبات} lecture {المحاضرات} spaced_repetition {المراجعة المتباعدة} other {التذكيرات}} مفعّلة لديك.',
+  'reminder.digestTitle':
+    '{count, plural, one {تذكير واحد قادم} two {تذكيران قادمان} few {# تذكيرات قادمة} many {# تذكيرًا قادمًا} other {# تذكير قادم}}',
+  'reminder.digestBody': 'لديك {parts}.',
+  'reminder.digest.spaced_repetition':
+    '{count, plural, one {مراجعة واحدة} two {مراجعتان} few {# مراجعات} many {# مراجعة} other {# مراجعة}}',
+  'reminder.digest.assignment':
+    '{count, plural, one {واجب واحد مستحق} two {واجبان مستحقان} few {# واجبات مستحقة} many {# واجبًا مستحقًا} other {# واجب مستحق}}',
+  'reminder.digest.exam':
+    '{count, plural, one {اختبار واحد} two {اختباران} few {# اختبارات} many {# اختبارًا} other {# اختبار}}',
+  'reminder.digest.lecture':
+    '{count, plural, one {محاضرة واحدة} two {محاضرتان} few {# محاضرات} many {# محاضرة} other {# محاضرة}}',
+  'reminder.digest.study_session':
+    '{count, plural, one {جلسة مذاكرة واحدة} two {جلستا مذاكرة} few {# جلسات مذاكرة} many {# جلسة مذاكرة} other {# جلسة مذاكرة}}',
+  'reminder.digest.other':
+    '{count, plural, one {تذكير آخر} two {تذكيران آخران} few {# تذكيرات أخرى} many {# تذكيرًا آخر} other {# تذكير آخر}}',
+  'reminder.digestEmailSubject': 'قادم: {parts}',
+  'reminder.digestViewAll': 'عرض الكل',
+  'reminder.digestEmailFooter':
+    'وصلك هذا البريد لأن إشعارات التذكيرات مفعّلة لديك.',
+
+  'srs.title': 'مراجعة متباعدة: راجع "{topic}"',
+  'srs.body': 'حان وقت مراجعة جلسة المذاكرة عن "{topic}" لتثبيت ما تعلمته.',
+
+  'summary.title': 'إليك ملخص يومك!',
+  'summary.body': 'خطة اليوم: {parts}.',
+  'summary.lectures':
+    '{count, plural, one {محاضرة واحدة} two {محاضرتان} few {# محاضرات} many {# محاضرة} other {# محاضرة}}',
+  'summary.assignmentsDue':
+    '{count, plural, one {واجب واحد مستحق} two {واجبان مستحقان} few {# واجبات مستحقة} many {# واجبًا مستحقًا} other {# واجب مستحق}}',
+  'summary.studySessions':
+    '{count, plural, one {جلسة مذاكرة واحدة} two {جلستا مذاكرة} few {# جلسات مذاكرة} many {# جلسة مذاكرة} other {# جلسة مذاكرة}}',
+  'summary.emailSubject': 'ملخصك اليومي من ELARO',
+  'summary.emailGreeting': 'مرحبًا {name}! 👋',
+  'summary.emailFallbackName': 'بك',
+  'summary.emailIntro': 'إليك ملخصك الدراسي لهذا اليوم:',
+  'summary.emailLectures':
+    '{count, plural, one {محاضرة <strong>واحدة</strong> مجدولة} two {<strong>محاضرتان</strong> مجدولتان} few {<strong>#</strong> محاضرات مجدولة} many {<strong>#</strong> محاضرة مجدولة} other {<strong>#</strong> محاضرة مجدولة}}',
+  'summary.emailAssignments':
+    '{count, plural, one {واجب <strong>واحد</strong> مستحق} two {<strong>واجبان</strong> مستحقان} few {<strong>#</strong> واجبات مستحقة} many {<strong>#</strong> واجبًا مستحقًا} other {<strong>#</strong> واجب مستحق}}',
+  'summary.emailStudySessions':
+    '{count, plural, one {جلسة مذاكرة <strong>واحدة</strong> مخططة} two {<strong>جلستا</strong> مذاكرة مخططتان} few {<strong>#</strong> جلسات مذاكرة مخططة} many {<strong>#</strong> جلسة مذاكرة مخططة} other {<strong>#</strong> جلسة مذاكرة مخططة}}',
+  'summary.emailClosing': 'حافظ على تقدمك وأتمنى لك يومًا مثمرًا! 🎓',
+  'summary.emailDashboard': 'عرض لوحة التحكم',
+
+  'welcome.subject': 'مرحبًا بك في ELARO! 🎓',
+  'welcome.heading': 'مرحبًا بك في ELARO! 🎓',
+  'welcome.tagline': 'رحلتك الدراسية تبدأ من هنا',
+  'welcome.greeting': 'مرحبًا {name}!',
+  'welcome.intro':
+    'مرحبًا بك في ELARO، رفيقك الدراسي الشخصي! يسعدنا أن نساعدك على تنظيم دراستك ومتابعة تقدمك وتحقيق أهدافك الأكاديمية.',
+  'welcome.featuresHeading': 'ما يمكنك فعله مع ELARO:',
+  'welcome.featureCourses': '📚 نظّم موادك الدراسية وواجباتك',
+  'welcome.featureSessions': '📅 تابع جلسات المذاكرة والمحاضرات',
+  'welcome.featureSrs': '🧠 استخدم المراجعة المتباعدة لتعلّم أفضل',
+  'welcome.featureProgress': '📊 راقب تقدمك الدراسي',
+  'welcome.featureReminders': '🔔 احصل على تذكيرات مخصصة لك',
+  'welcome.ready': 'هل أنت مستعد؟ اضغط على الزر أدناه لتبدأ رحلتك الدراسية!',
+  'welcome.button': 'ابدأ الآن',
+  'welcome.support':
+    'إذا كانت لديك أي أسئلة، فلا تتردد في التواصل مع فريق الدعم.',
+  'welcome.signOff': 'مع أطيب التحيات،<br>فريق ELARO',
+  'welcome.rights': '© 2024 ELARO. جميع الحقوق محفوظة.',
+  'welcome.reason': 'وصلتك هذه الرسالة لأنك سجّلت في ELARO.',
+
+  'weeklyReport.title': 'ملخص أسبوعك',
+  'weeklyReport.body':
+    '{count, plural, one {درست {hours} ساعة وأكملت مهمة واحدة هذا الأسبوع.} other {درست {hours} ساعة وأكملت # مهمة هذا الأسبوع.}}',
+  'weeklyReport.emailSubject': 'تقريرك الأسبوعي من ELARO ({range})',
+  'weeklyReport.emailIntro': 'هكذا كان أسبوعك ({range}):',
+  'weeklyReport.studyTime': 'وقت الدراسة',
+  'weeklyReport.tasksCompleted': 'المهام المكتملة',
+  'weeklyReport.focusSessions': 'جلسات التركيز',
+  'weeklyReport.streak': 'سلسلة الدراسة',
+  'weeklyReport.hours': '{hours} س',
+  'weeklyReport.days':
+    '{count, plural, one {يوم واحد} two {يومان} few {# أيام} many {# يومًا} other {# يوم}}',
+  'weeklyReport.dailyActivity': 'وقت الدراسة حسب اليوم (بالدقائق)',
+  'weeklyReport.achievements': 'الشارات المكتسبة',
+  'weeklyReport.tips': 'للأسبوع القادم',
+  'weeklyReport.viewReport': 'عرض التقرير كاملًا',
+  'weeklyReport.footer':
+    'تلقيت هذه الرسالة لأن التقارير الأسبوعية مفعّلة في إعدادات الإشعارات.',
+  'weeklyReport.highlight.studyTime': 'درست لمدة {hours} ساعة.',
+  'weeklyReport.highlight.tasks':
+    '{count, plural, one {أكملت مهمة واحدة.} other {أكملت # مهمة.}}',
+  'weeklyReport.highlight.streak': 'أنت في سلسلة دراسة مدتها {days} يومًا.',
+  'weeklyReport.highlight.badges':
+    '{count, plural, one {حصلت على شارة جديدة.} other {حصلت على # شارة جديدة.}}',
+  'weeklyReport.area.completion': 'إنهاء المهام المجدولة',
+  'weeklyReport.area.consistency': 'الدراسة بانتظام',
+  'weeklyReport.area.focus': 'استخدام جلسات التركيز',
+  'weeklyReport.tip.completion':
+    'قسّم الواجبات الكبيرة إلى خطوات صغيرة وابدأ بها مبكرًا.',
+  'weeklyReport.tip.consistency':
+    'خطط لفترة دراسة قصيرة في معظم الأيام، فحتى 25 دقيقة تفيد.',
+  'weeklyReport.tip.focus': 'جرّب مؤقت التركيز في جلسة الدراسة القادمة.',
+  'weeklyReport.tip.keepGoing': 'حافظ على الإيقاع نفسه الأسبوع القادم.',
+  'weeklyReport.motivation': 'كل جلسة دراسة تقربك من أهدافك.',
+
+  'achievement.streak.title': 'سلسلة {days} يومًا',
+  'achievement.streak.description': 'درست {days} يومًا متتاليًا.',
+  'achievement.milestone.title':
+    '{count, plural, one {أول مهمة مكتملة} other {# مهمة مكتملة}}',
+  'achievement.milestone.description':
+    '{count, plural, one {أكملت مهمتك الأولى.} other {أكملت # مهمة.}}',
+  'achievement.improvement.title': 'الأكثر تحسنًا',
+  'achievement.improvement.description':
+    'أكملت {thisWeek} مهام هذا الأسبوع مقابل {lastWeek} في الأسبوع السابق.',
+  'achievement.srsConsistency.title': '{days} يومًا من المراجعة',
+  'achievement.srsConsistency.description':
+    'واصلت المراجعات المتباعدة {days} يومًا متتاليًا.',
+};
+
+const CATALOGS: Record<SupportedLocale, Record<ServerMessageKey, string>> = {
+  en,
+  es,
+  fr,
+  ar,
+};
+
+// ─── ICU subset ────────────────────────────────────────────────────────
+
+type PluralCategory = 'zero' | 'one' | 'two' | 'few' | 'many' | 'other';
+
+function pluralCategory(
+  locale: SupportedLocale,
+  count: number,
+): PluralCategory {
+  const n = Math.abs(count);
+  if (locale === 'ar') {
+    if (!Number.isInteger(n)) return 'other';
+    const lastTwo = n % 100;
+    if (n === 0) return 'zero';
+    if (n === 1) return 'one';
+    if (n === 2) return 'two';
+    if (lastTwo >= 3 && lastTwo <= 10) return 'few';
+    if (lastTwo >= 11 && lastTwo <= 99) return 'many';
+    return 'other';
+  }
+  if (locale === 'fr') return n < 2 ? 'one' : 'other';
+  return n === 1 ? 'one' : 'other';
+}
+
+// Index of the "}" closing the "{" just before start
+function matchingBrace(message: string, start: number): number {
+  let depth = 1;
+  for (let i = start; i < message.length; i++) {
+    if (message[i] === '{') depth++;
+    if (message[i] === '}' && --depth === 0) return i;
+  }
+  return message.length;
+}
+
+function format(
+  message: string,
+  params: Record<string, string | number>,
+  locale: SupportedLocale,
+  count?: number,
+): string {
+  let result = '';
+  let i = 0;
+
+  while (i < message.length) {
+    const char = message[i];
+    if (char === '#' && count !== undefined) {
+      result += new Intl.NumberFormat(locale).format(count);
+      i++;
+      continue;
+    }
+    if (char !== '{') {
+      result += char;
+      i++;
+      continue;
+    }
+
+    const end = matchingBrace(message, i + 1);
+    const argument = message.slice(i + 1, end);
+    i = end + 1;
+
+    const [name, type, ...rest] = argument.split(',');
+    const key = name.trim();
+    if (type === undefined) {
+      result += params[key] ?? `{${key}}`;
+      continue;
+    }
+
+    // "=0 {…} one {…} other {…}"
+    const options: Record<string, string> = {};
+    const body = rest.join(',');
+    let j = 0;
+    while (j < body.length) {
+      const open = body.indexOf('{', j);
+      if (open === -1) break;
+      const close = matchingBrace(body, open + 1);
+      options[body.slice(j, open).trim()] = body.slice(open + 1, close);
+      j = close + 1;
+    }
+
+    if (type.trim() === 'plural') {
+      const value = Number(params[key] ?? 0);
+      const option =
+        options[`=${value}`] ??
+        options[pluralCategory(locale, value)] ??
+        options.other ??
+        '';
+      result += format(option, params, locale, value);
+    } else {
+      const option = options[String(params[key])] ?? options.other ?? '';
+      result += format(option, params, locale, count);
+    }
+  }
+
+  return result;
+}
+
+/** A message in the locale, falling back to English */
+export function translate(
+  locale: SupportedLocale,
+  key: ServerMessageKey,
+  params: Record<string, string | number> = {},
+): string {
+  return format(CATALOGS[locale][key] ?? en[key], params, locale);
+}
+
+/** "a, b and c" as the locale writes it */
+export function formatList(locale: SupportedLocale, items: string[]): string {
+  try {
+    return new Intl.ListFormat(locale, {
+      style: 'long',
+      type: 'conjunction',
+    }).format(items);
+  } catch {
+    return items.join(', ');
+  }
+}
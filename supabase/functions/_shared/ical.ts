@@ -0,0 +1,706 @@
+/**
+ * iCalendar (RFC 5545) Utilities
+ *
+ * Serializes lectures, assignments and study sessions into VCALENDAR
+ * documents for the one-off .ics export and the subscription feed, and
+ * parses university timetables exported by other calendar systems.
+ * Timestamps are emitted in UTC, except for events given a time zone: those
+ * are written on that zone's wall clock (TZID) so recurrences follow it
+ * across daylight saving changes, and the zone gets a VTIMEZONE component.
+ */
+
+export const ICAL_PRODUCT_ID = '-//ELARO//Study Planner//EN';
+export const ICAL_UID_DOMAIN = 'elaro.app';
+
+// RFC 5545 §3.1: content lines SHOULD NOT exceed 75 octets
+const MAX_LINE_OCTETS = 75;
+const CRLF = '\r\n';
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface ICalEvent {
+  uid: string;
+  start: Date;
+  end?: Date | null;
+  durationMinutes?: number;
+  summary: string;
+  description?: string | null;
+  location?: string | null;
+  rrule?: string | null;
+  exdates?: Date[];
+  /** Original start of the occurrence this event overrides */
+  recurrenceId?: Date | null;
+  categories?: string[];
+  lastModified?: Date | null;
+  /** IANA zone whose wall clock the start, end and exceptions are written in */
+  timeZone?: string | null;
+}
+
+export interface ICalTodo {
+  uid: string;
+  due: Date;
+  summary: string;
+  description?: string | null;
+  completed?: boolean;
+  categories?: string[];
+  lastModified?: Date | null;
+}
+
+export interface ICalCalendar {
+  name: string;
+  description?: string;
+  refreshIntervalMinutes?: number;
+  events: ICalEvent[];
+  todos?: ICalTodo[];
+}
+
+/**
+ * Build a stable UID for an entity so re-importing or re-subscribing
+ * updates existing calendar entries instead of duplicating them
+ *
+ * @param kind - Entity kind (e.g., "lecture", "assignment")
+ * @param id - Database ID of the entity
+ * @param suffix - Optional discriminator when one entity yields several components
+ */
+export function buildUid(kind: string, id: string, suffix?: string): string {
+  return `${kind}-${id}${suffix ? `-${suffix}` : ''}@${ICAL_UID_DOMAIN}`;
+}
+
+/**
+ * Escape a TEXT value (RFC 5545 §3.3.11)
+ */
+export function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r\n|\r|\n/g, '\\n');
+}
+
+/**
+ * Format a date as a UTC DATE-TIME value, e.g. 20250114T090000Z
+ */
+export function formatDateTime(date: Date): string {
+  return date
+    .toISOString()
+    .replace(/[-:]/g, '')
+    .replace(/\.\d{3}/, '');
+}
+
+/**
+ * Format a date as a local DATE-TIME value in a time zone, e.g. 20250114T090000
+ */
+export function formatZonedDateTime(date: Date, timeZone: string): string {
+  const time = date.getTime();
+  return formatDateTime(new Date(time + timeZoneOffset(time, timeZone))).slice(
+    0,
+    -1,
+  );
+}
+
+/**
+ * Fold a content line at 75 octets without splitting multi-byte characters
+ */
+export function foldLine(line: string): string {
+  const encoder = new TextEncoder();
+  if (encoder.encode(line).length <= MAX_LINE_OCTETS) return line;
+
+  const parts: string[] = [];
+  let current = '';
+  let currentOctets = 0;
+  // Continuation lines start with a space, which counts toward the limit
+  let limit = MAX_LINE_OCTETS;
+
+  for (const char of line) {
+    const charOctets = encoder.encode(char).length;
+    if (currentOctets + charOctets > limit) {
+      parts.push(current);
+      current = '';
+      currentOctets = 0;
+      limit = MAX_LINE_OCTETS - 1;
+    }
+    current += char;
+    currentOctets += charOctets;
+  }
+  parts.push(current);
+
+  return parts.join(`${CRLF} `);
+}
+
+function textProperty(name: string, value?: string | null): string[] {
+  return value ? [`${name}:${escapeText(value)}`] : [];
+}
+
+function categoriesProperty(categories?: string[]): string[] {
+  return categories && categories.length > 0
+    ? [`CATEGORIES:${categories.map(escapeText).join(',')}`]
+    : [];
+}
+
+function eventTimeZone(event: ICalEvent): string | null {
+  return event.timeZone && isValidTimeZone(event.timeZone)
+    ? event.timeZone
+    : null;
+}
+
+function dateTimeProperty(
+  name: string,
+  dates: Date[],
+  timeZone: string | null,
+): string {
+  return timeZone
+    ? `${name};TZID=${timeZone}:${dates
+        .map(date => formatZonedDateTime(date, timeZone))
+        .join(',')}`
+    : `${name}:${dates.map(formatDateTime).join(',')}`;
+}
+
+function serializeEvent(event: ICalEvent, stamp: string): string[] {
+  const timeZone = eventTimeZone(event);
+  const lines = ['BEGIN:VEVENT', `UID:${event.uid}`, `DTSTAMP:${stamp}`];
+  if (event.recurrenceId) {
+    lines.push(
+      dateTimeProperty('RECURRENCE-ID', [event.recurrenceId], timeZone),
+    );
+  }
+  lines.push(dateTimeProperty('DTSTART', [event.start], timeZone));
+
+  if (event.end && event.end.getTime() > event.start.getTime()) {
+    lines.push(dateTimeProperty('DTEND', [event.end], timeZone));
+  } else if (event.durationMinutes) {
+    lines.push(`DURATION:PT${Math.round(event.durationMinutes)}M`);
+  }
+
+  // UNTIL stays in UTC, as RFC 5545 requires when DTSTART has a TZID
+  if (event.rrule) lines.push(`RRULE:${event.rrule}`);
+  if (event.exdates && event.exdates.length > 0) {
+    lines.push(dateTimeProperty('EXDATE', event.exdates, timeZone));
+  }
+  lines.push(...textProperty('SUMMARY', event.summary));
+  lines.push(...textProperty('DESCRIPTION', event.description));
+  lines.push(...textProperty('LOCATION', event.location));
+  lines.push(...categoriesProperty(event.categories));
+  if (event.lastModified) {
+    lines.push(`LAST-MODIFIED:${formatDateTime(event.lastModified)}`);
+  }
+  lines.push('END:VEVENT');
+
+  return lines;
+}
+
+function serializeTodo(todo: ICalTodo, stamp: string): string[] {
+  const lines = [
+    'BEGIN:VTODO',
+    `UID:${todo.uid}`,
+    `DTSTAMP:${stamp}`,
+    `DUE:${formatDateTime(todo.due)}`,
+    `STATUS:${todo.completed ? 'COMPLETED' : 'NEEDS-ACTION'}`,
+  ];
+
+  lines.push(...textProperty('SUMMARY', todo.summary));
+  lines.push(...textProperty('DESCRIPTION', todo.description));
+  lines.push(...categoriesProperty(todo.categories));
+  if (todo.lastModified) {
+    lines.push(`LAST-MODIFIED:${formatDateTime(todo.lastModified)}`);
+  }
+  lines.push('END:VTODO');
+
+  return lines;
+}
+
+function formatUtcOffset(offsetMs: number): string {
+  const minutes = Math.round(Math.abs(offsetMs) / 60000);
+  const hours = String(Math.floor(minutes / 60)).padStart(2, '0');
+  return `${offsetMs < 0 ? '-' : '+'}${hours}${String(minutes % 60).padStart(2, '0')}`;
+}
+
+/**
+ * Instants between from and to at which the zone's UTC offset changes,
+ * to the second
+ */
+function findOffsetChanges(timeZone: string, from: number, to: number) {
+  const changes: { at: number; offsetFrom: number; offsetTo: number }[] = [];
+  let previous = timeZoneOffset(from, timeZone);
+
+  for (let day = from + DAY_MS; day <= to; day += DAY_MS) {
+    const offset = timeZoneOffset(day, timeZone);
+    if (offset === previous) continue;
+
+    let low = day - DAY_MS;
+    let high = day;
+    while (high - low > 1000) {
+      const mid = Math.floor((low + high) / 2000) * 1000;
+      if (timeZoneOffset(mid, timeZone) === previous) low = mid;
+      else high = mid;
+    }
+    changes.push({ at: high, offsetFrom: previous, offsetTo: offset });
+    previous = offset;
+  }
+
+  return changes;
+}
+
+/**
+ * Yearly rule for a change on the same weekday of the month every year,
+ * e.g. BYMONTH=3;BYDAY=2SU for the second Sunday of March
+ */
+function yearlyRule(localOnset: Date): string {
+  const day = localOnset.getUTCDate();
+  const daysInMonth = new Date(
+    Date.UTC(localOnset.getUTCFullYear(), localOnset.getUTCMonth() + 1, 0),
+  ).getUTCDate();
+  const week = day + 7 > daysInMonth ? -1 : Math.ceil(day / 7);
+  const weekday = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'][
+    localOnset.getUTCDay()
+  ];
+  return `FREQ=YEARLY;BYMONTH=${localOnset.getUTCMonth() + 1};BYDAY=${week}${weekday}`;
+}
+
+/**
+ * VTIMEZONE for an IANA zone, built from the offsets Intl reports
+ *
+ * Changes from the year before fromYear (so one is in force for every event
+ * of fromYear) to the end of next year are listed one by one; the changes of
+ * the last year repeat yearly after that.
+ */
+export function buildTimeZone(timeZone: string, fromYear: number): string[] {
+  const toYear = Math.max(fromYear, new Date().getUTCFullYear()) + 1;
+  const from = Date.UTC(fromYear - 1, 0, 1);
+  const changes = findOffsetChanges(timeZone, from, Date.UTC(toYear + 1, 0, 1));
+  const lines = ['BEGIN:VTIMEZONE', `TZID:${timeZone}`];
+
+  if (changes.length === 0) {
+    const offset = formatUtcOffset(timeZoneOffset(from, timeZone));
+    lines.push(
+      'BEGIN:STANDARD',
+      'DTSTART:19700101T000000',
+      `TZOFFSETFROM:${offset}`,
+      `TZOFFSETTO:${offset}`,
+      'END:STANDARD',
+      'END:VTIMEZONE',
+    );
+    return lines;
+  }
+
+  const standardOffset = Math.min(
+    ...changes.flatMap(change => [change.offsetFrom, change.offsetTo]),
+  );
+  const lastYearStart = Date.UTC(toYear, 0, 1);
+  const repeats = changes.filter(change => change.at >= lastYearStart);
+
+  for (const change of changes) {
+    const kind = change.offsetTo > standardOffset ? 'DAYLIGHT' : 'STANDARD';
+    // Onsets are written on the wall clock in force before the change
+    const localOnset = new Date(change.at + change.offsetFrom);
+    lines.push(
+      `BEGIN:${kind}`,
+      `DTSTART:${formatDateTime(localOnset).slice(0, -1)}`,
+      `TZOFFSETFROM:${formatUtcOffset(change.offsetFrom)}`,
+      `TZOFFSETTO:${formatUtcOffset(change.offsetTo)}`,
+    );
+    if (repeats.includes(change)) {
+      lines.push(`RRULE:${yearlyRule(localOnset)}`);
+    }
+    lines.push(`END:${kind}`);
+  }
+
+  lines.push('END:VTIMEZONE');
+  return lines;
+}
+
+/**
+ * Serialize a calendar into an RFC 5545 document (CRLF line endings, folded)
+ */
+export function buildCalendar(calendar: ICalCalendar): string {
+  const stamp = formatDateTime(new Date());
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${ICAL_PRODUCT_ID}`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(calendar.name)}`,
+  ];
+
+  if (calendar.description) {
+    lines.push(`X-WR-CALDESC:${escapeText(calendar.description)}`);
+  }
+
+  if (calendar.refreshIntervalMinutes) {
+    // REFRESH-INTERVAL is RFC 7986; X-PUBLISHED-TTL is the Outlook/Apple equivalent
+    lines.push(
+      `REFRESH-INTERVAL;VALUE=DURATION:PT${calendar.refreshIntervalMinutes}M`,
+      `X-PUBLISHED-TTL:PT${calendar.refreshIntervalMinutes}M`,
+    );
+  }
+
+  // One VTIMEZONE per zone used, starting from the year of its first event
+  const zoneStartYears = new Map<string, number>();
+  for (const event of calendar.events) {
+    const timeZone = eventTimeZone(event);
+    if (!timeZone) continue;
+    const first = Math.min(
+      event.start.getTime(),
+      event.recurrenceId?.getTime() ?? Infinity,
+    );
+    const year = new Date(first).getUTCFullYear();
+    zoneStartYears.set(
+      timeZone,
+      Math.min(year, zoneStartYears.get(timeZone) ?? year),
+    );
+  }
+  for (const [timeZone, fromYear] of zoneStartYears) {
+    lines.push(...buildTimeZone(timeZone, fromYear));
+  }
+
+  for (const event of calendar.events) {
+    lines.push(...serializeEvent(event, stamp));
+  }
+  for (const todo of calendar.todos ?? []) {
+    lines.push(...serializeTodo(todo, stamp));
+  }
+
+  lines.push('END:VCALENDAR');
+
+  return lines.map(foldLine).join(CRLF) + CRLF;
+}
+
+// ─────────────────────────────────────────────────────────────
+// Parsing
+// ─────────────────────────────────────────────────────────────
+
+export interface ParsedICalEvent {
+  uid: string | null;
+  summary: string;
+  description: string | null;
+  location: string | null;
+  start: Date;
+  end: Date;
+  allDay: boolean;
+  /** RRULE value without the "RRULE:" prefix */
+  rrule: string | null;
+  exdates: Date[];
+}
+
+export interface ParsedICalendar {
+  name: string | null;
+  timeZone: string | null;
+  events: ParsedICalEvent[];
+  /** Events that were dropped (cancelled, overrides, unreadable dates) */
+  skipped: number;
+}
+
+interface ContentLine {
+  name: string;
+  params: Record<string, string>;
+  value: string;
+}
+
+const DEFAULT_EVENT_MINUTES = 60;
+
+/**
+ * Undo RFC 5545 line folding (CRLF or LF followed by a space or tab)
+ */
+export function unfoldLines(content: string): string[] {
+  return content
+    .replace(/\r\n|\r/g, '\n')
+    .replace(/\n[ \t]/g, '')
+    .split('\n')
+    .filter(line => line.trim().length > 0);
+}
+
+/**
+ * Reverse escapeText (RFC 5545 §3.3.11)
+ */
+export function unescapeText(value: string): string {
+  return value.replace(/\\([\\;,nN])/g, (_match, char: string) =>
+    char === 'n' || char === 'N' ? '\n' : char,
+  );
+}
+
+function parseContentLine(line: string): ContentLine | null {
+  // The value starts at the first colon that is not inside a quoted parameter
+  let inQuotes = false;
+  let separator = -1;
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (char === '"') inQuotes = !inQuotes;
+    else if (char === ':' && !inQuotes) {
+      separator = i;
+      break;
+    }
+  }
+  if (separator === -1) return null;
+
+  const [name, ...rawParams] = line.slice(0, separator).split(';');
+  const params: Record<string, string> = {};
+  for (const param of rawParams) {
+    const [key, ...rest] = param.split('=');
+    params[key.toUpperCase()] = rest.join('=').replace(/^"|"$/g, '');
+  }
+
+  return {
+    name: name.toUpperCase(),
+    params,
+    value: line.slice(separator + 1),
+  };
+}
+
+// Creating a formatter is far slower than using one
+const offsetFormatters = new Map<string, Intl.DateTimeFormat>();
+
+/**
+ * Offset of a time zone from UTC at the given instant, in milliseconds
+ */
+export function timeZoneOffset(instant: number, timeZone: string): number {
+  let formatter = offsetFormatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit',
+    });
+    offsetFormatters.set(timeZone, formatter);
+  }
+  const parts = formatter.formatToParts(new Date(instant));
+  const get = (type: string) =>
+    Number(parts.find(part => part.type === type)?.value ?? 0);
+
+  const asUtc = Date.UTC(
+    get('year'),
+    get('month') - 1,
+    get('day'),
+    get('hour'),
+    get('minute'),
+    get('second'),
+  );
+  return asUtc - instant;
+}
+
+export function isValidTimeZone(timeZone: string | null | undefined): boolean {
+  if (!timeZone) return false;
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Convert a wall-clock time in a time zone to an absolute Date
+ */
+export function zonedTimeToDate(wallClockUtc: number, timeZone: string): Date {
+  // Two passes settle the offset on either side of a DST transition
+  let instant = wallClockUtc - timeZoneOffset(wallClockUtc, timeZone);
+  instant = wallClockUtc - timeZoneOffset(instant, timeZone);
+  return new Date(instant);
+}
+
+/**
+ * Parse a DATE or DATE-TIME value (RFC 5545 §3.3.4/§3.3.5)
+ *
+ * UTC values ("Z") are absolute; TZID and floating values are resolved in
+ * the given zone, falling back to the calendar/user zone when the TZID is
+ * not an IANA name (e.g. Windows zone names from Outlook exports).
+ */
+export function parseDateValue(
+  value: string,
+  tzid: string | undefined,
+  fallbackTimeZone: string,
+): { date: Date; allDay: boolean } | null {
+  const match = value
+    .trim()
+    .match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})?(Z)?)?$/);
+  if (!match) return null;
+
+  const [, year, month, day, hour, minute, second, utc] = match;
+  const wallClock = Date.UTC(
+    Number(year),
+    Number(month) - 1,
+    Number(day),
+    Number(hour ?? 0),
+    Number(minute ?? 0),
+    Number(second ?? 0),
+  );
+
+  if (hour === undefined) {
+    return { date: new Date(wallClock), allDay: true };
+  }
+  if (utc) {
+    return { date: new Date(wallClock), allDay: false };
+  }
+
+  const timeZone = isValidTimeZone(tzid) ? tzid! : fallbackTimeZone;
+  return { date: zonedTimeToDate(wallClock, timeZone), allDay: false };
+}
+
+/**
+ * Parse a DURATION value (RFC 5545 §3.3.6) into minutes
+ */
+export function parseDurationMinutes(value: string): number | null {
+  const match = value
+    .trim()
+    .match(
+      /^([+-])?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/,
+    );
+  if (!match) return null;
+
+  const [, sign, weeks, days, hours, minutes, seconds] = match;
+  const total =
+    Number(weeks ?? 0) * 7 * 24 * 60 +
+    Number(days ?? 0) * 24 * 60 +
+    Number(hours ?? 0) * 60 +
+    Number(minutes ?? 0) +
+    Math.round(Number(seconds ?? 0) / 60);
+  return sign === '-' ? -total : total;
+}
+
+/**
+ * Split an RRULE value into its upper-cased parts, e.g. { FREQ: 'WEEKLY' }
+ */
+export function parseRRuleParts(rrule: string): Record<string, string> {
+  const parts: Record<string, string> = {};
+  for (const part of rrule.split(';')) {
+    const [key, value] = part.split('=');
+    if (key && value !== undefined) {
+      parts[key.trim().toUpperCase()] = value.trim().toUpperCase();
+    }
+  }
+  return parts;
+}
+
+/**
+ * Parse the VEVENTs of an iCalendar document
+ *
+ * Cancelled events and RECURRENCE-ID overrides of a single occurrence are
+ * skipped; the master event carries the series.
+ *
+ * @param content - Raw .ics text
+ * @param defaultTimeZone - IANA zone for floating times when the calendar has no X-WR-TIMEZONE
+ */
+export function parseCalendar(
+  content: string,
+  defaultTimeZone: string = 'UTC',
+): ParsedICalendar {
+  const lines = unfoldLines(content).map(parseContentLine);
+  const calendar: ParsedICalendar = {
+    name: null,
+    timeZone: null,
+    events: [],
+    skipped: 0,
+  };
+
+  // X-WR-TIMEZONE applies to floating times and is usually declared up front
+  for (const line of lines) {
+    if (line?.name === 'X-WR-TIMEZONE' && isValidTimeZone(line.value)) {
+      calendar.timeZone = line.value.trim();
+      break;
+    }
+  }
+  const fallbackTimeZone =
+    calendar.timeZone ??
+    (isValidTimeZone(defaultTimeZone) ? defaultTimeZone : 'UTC');
+
+  const componentStack: string[] = [];
+  let current: ContentLine[] | null = null;
+
+  for (const line of lines) {
+    if (!line) continue;
+
+    if (line.name === 'BEGIN') {
+      const component = line.value.trim().toUpperCase();
+      componentStack.push(component);
+      if (component === 'VEVENT') current = [];
+      continue;
+    }
+
+    if (line.name === 'END') {
+      const component = componentStack.pop();
+      if (component === 'VEVENT' && current) {
+        const event = buildParsedEvent(current, fallbackTimeZone);
+        if (event) calendar.events.push(event);
+        else calendar.skipped++;
+        current = null;
+      }
+      continue;
+    }
+
+    const parent = componentStack[componentStack.length - 1];
+    if (parent === 'VEVENT' && current) {
+      current.push(line);
+    } else if (parent === 'VCALENDAR' && line.name === 'X-WR-CALNAME') {
+      calendar.name = unescapeText(line.value).trim() || null;
+    }
+  }
+
+  return calendar;
+}
+
+function buildParsedEvent(
+  properties: ContentLine[],
+  fallbackTimeZone: string,
+): ParsedICalEvent | null {
+  const find = (name: string) => properties.find(prop => prop.name === name);
+
+  const status = find('STATUS')?.value.trim().toUpperCase();
+  if (status === 'CANCELLED' || find('RECURRENCE-ID')) return null;
+
+  const dtstart = find('DTSTART');
+  if (!dtstart) return null;
+  const start = parseDateValue(
+    dtstart.value,
+    dtstart.params.TZID,
+    fallbackTimeZone,
+  );
+  if (!start) return null;
+
+  let end: Date | null = null;
+  const dtend = find('DTEND');
+  const duration = find('DURATION');
+  if (dtend) {
+    end =
+      parseDateValue(dtend.value, dtend.params.TZID, fallbackTimeZone)?.date ??
+      null;
+  } else if (duration) {
+    const minutes = parseDurationMinutes(duration.value);
+    if (minutes !== null) {
+      end = new Date(start.date.getTime() + minutes * 60000);
+    }
+  }
+  if (!end || end.getTime() <= start.date.getTime()) {
+    end = new Date(
+      start.date.getTime() +
+        (start.allDay ? 24 * 60 : DEFAULT_EVENT_MINUTES) * 60000,
+    );
+  }
+
+  const exdates: Date[] = [];
+  for (const prop of properties.filter(p => p.name === 'EXDATE')) {
+    for (const value of prop.value.split(',')) {
+      const parsed = parseDateValue(value, prop.params.TZID, fallbackTimeZone);
+      if (parsed) exdates.push(parsed.date);
+    }
+  }
+
+  const text = (name: string) => {
+    const value = find(name)?.value;
+    return value ? unescapeText(value).trim() || null : null;
+  };
+
+  return {
+    uid: find('UID')?.value.trim() || null,
+    summary: text('SUMMARY') ?? '',
+    description: text('DESCRIPTION'),
+    location: text('LOCATION'),
+    start: start.date,
+    end,
+    allDay: start.allDay,
+    rrule: find('RRULE')?.value.trim() || null,
+    exdates,
+  };
+}
@@ -227,6 +227,12 @@ const JOB_RETRY_CONFIGS: Record<string, JobRetryConfig> = {
     maxDelay: 60000, // 1 minute
     backoffMultiplier: 2,
   },
+  'optimize-fsrs-parameters': {
+    maxRetries: 2,
+    baseDelay: 60000,
+    maxDelay: 900000, // 15 minutes
+    backoffMultiplier: 2,
+  },
   'process-batch': {
     maxRetries: 3,
     baseDelay: 10000,
@@ -0,0 +1,322 @@
+/**
+ * Lecture Occurrences
+ *
+ * Expands recurring lectures into the occurrences that fall in a date range,
+ * leaving out cancelled ones (EXDATE) and applying single-occurrence edits
+ * from lecture_occurrence_overrides. See rrule.ts for the pattern format.
+ *
+ * Lectures of a course in an academic term only recur within the term and
+ * not during its breaks; lectures of courses in archived terms are left out.
+ */
+
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.39.3';
+import {
+  expandRecurrence,
+  isOccurrence,
+  parseRecurringPattern,
+  type RecurrenceSet,
+} from './rrule.ts';
+import {
+  getCourseTerms,
+  getTermWindow,
+  isDuringTermBreak,
+  type TermRow,
+} from './terms.ts';
+
+const DEFAULT_LECTURE_MINUTES = 60;
+
+export interface LectureSeriesRow {
+  id: string;
+  course_id?: string | null;
+  lecture_date: string;
+  start_time?: string | null;
+  end_time?: string | null;
+  is_recurring?: boolean | null;
+  recurring_pattern?: string | null;
+  lecture_name?: string | null;
+  description?: string | null;
+  venue?: string | null;
+}
+
+export interface LectureOccurrenceOverrideRow {
+  lecture_id: string;
+  occurrence_start: string;
+  start_time: string;
+  end_time: string | null;
+  lecture_name: string | null;
+  description: string | null;
+  venue: string | null;
+}
+
+export const LECTURE_OCCURRENCE_OVERRIDE_COLUMNS =
+  'lecture_id, occurrence_start, start_time, end_time, lecture_name, description, venue';
+
+export type LectureOccurrence<T extends LectureSeriesRow> = T & {
+  /** Start generated by the series rule; null for one-off lectures */
+  occurrence_start: string | null;
+  is_occurrence: boolean;
+  /** Edited on its own ("this event") */
+  is_modified: boolean;
+};
+
+export function lectureStart(lecture: LectureSeriesRow): Date {
+  return new Date(lecture.start_time || lecture.lecture_date);
+}
+
+function inRange(date: Date, rangeStart: Date, rangeEnd: Date): boolean {
+  return (
+    date.getTime() >= rangeStart.getTime() &&
+    date.getTime() <= rangeEnd.getTime()
+  );
+}
+
+/**
+ * Occurrences of one lecture between rangeStart and rangeEnd (inclusive)
+ *
+ * @param overrides - The lecture's single-occurrence edits
+ * @param timeZone - The user's IANA zone (users.timezone)
+ * @param term - Term of the lecture's course; the series is cut off at the
+ * term's dates and skips its breaks (edited occurrences are kept)
+ */
+export function expandLectureOccurrences<T extends LectureSeriesRow>(
+  lecture: T,
+  overrides: LectureOccurrenceOverrideRow[],
+  rangeStart: Date,
+  rangeEnd: Date,
+  timeZone: string,
+  term?: TermRow | null,
+): LectureOccurrence<T>[] {
+  const start = lectureStart(lecture);
+  const recurrence = lecture.is_recurring
+    ? parseRecurringPattern(lecture.recurring_pattern)
+    : null;
+
+  if (recurrence && term) {
+    const window = getTermWindow(term, timeZone);
+    if (window.start > rangeStart) rangeStart = window.start;
+    if (window.end < rangeEnd) rangeEnd = window.end;
+    if (rangeStart > rangeEnd) return [];
+  }
+
+  if (!recurrence) {
+    return inRange(start, rangeStart, rangeEnd)
+      ? [
+          {
+            ...lecture,
+            occurrence_start: null,
+            is_occurrence: false,
+            is_modified: false,
+          },
+        ]
+      : [];
+  }
+
+  const durationMs = lecture.end_time
+    ? new Date(lecture.end_time).getTime() - start.getTime()
+    : DEFAULT_LECTURE_MINUTES * 60000;
+  const overridesByStart = new Map(
+    overrides.map(override => [
+      new Date(override.occurrence_start).getTime(),
+      override,
+    ]),
+  );
+
+  const buildOccurrence = (occurrenceStart: Date): LectureOccurrence<T> => {
+    const override = overridesByStart.get(occurrenceStart.getTime());
+    const occurrenceStartTime = override
+      ? new Date(override.start_time)
+      : occurrenceStart;
+    const occurrenceEnd = override?.end_time
+      ? new Date(override.end_time)
+      : new Date(occurrenceStartTime.getTime() + durationMs);
+
+    return {
+      ...lecture,
+      lecture_date: occurrenceStartTime.toISOString(),
+      start_time: occurrenceStartTime.toISOString(),
+      end_time:
+        lecture.end_time || override?.end_time
+          ? occurrenceEnd.toISOString()
+          : null,
+      lecture_name: override?.lecture_name ?? lecture.lecture_name,
+      description: override?.description ?? lecture.description,
+      venue: override?.venue ?? lecture.venue,
+      occurrence_start: occurrenceStart.toISOString(),
+      is_occurrence: true,
+      is_modified: !!override,
+    };
+  };
+
+  const occurrences = expandRecurrence(
+    recurrence,
+    start,
+    rangeStart,
+    rangeEnd,
+    timeZone,
+  )
+    .map(buildOccurrence)
+    .filter(
+      occurrence =>
+        inRange(new Date(occurrence.start_time!), rangeStart, rangeEnd) &&
+        !(
+          term &&
+          !occurrence.is_modified &&
+          isDuringTermBreak(
+            new Date(occurrence.occurrence_start!),
+            term,
+            timeZone,
+          )
+        ),
+    );
+
+  // Occurrences moved into the range from outside it
+  for (const override of overrides) {
+    const occurrenceStart = new Date(override.occurrence_start);
+    if (
+      !inRange(occurrenceStart, rangeStart, rangeEnd) &&
+      inRange(new Date(override.start_time), rangeStart, rangeEnd) &&
+      isOccurrence(recurrence, start, occurrenceStart, timeZone)
+    ) {
+      occurrences.push(buildOccurrence(occurrenceStart));
+    }
+  }
+
+  return occurrences.sort(
+    (a, b) =>
+      new Date(a.start_time!).getTime() - new Date(b.start_time!).getTime(),
+  );
+}
+
+/**
+ * A lecture series cut down to its course's term, for calendars that expand
+ * the rule themselves: it starts at the first occurrence in the term, ends
+ * (UNTIL) at the last one and skips the term's breaks with EXDATEs, except
+ * for occurrences edited on their own
+ *
+ * @param edited - Starts of the occurrences that have an override
+ * @returns The series' new first start and recurrence, or null if nothing
+ * is left of it in the term
+ */
+export function clipRecurrenceToTerm(
+  recurrence: RecurrenceSet,
+  dtstart: Date,
+  term: TermRow,
+  timeZone: string,
+  edited: Date[] = [],
+): { start: Date; recurrence: RecurrenceSet } | null {
+  const window = getTermWindow(term, timeZone);
+  const occurrences = expandRecurrence(
+    recurrence,
+    dtstart,
+    window.start,
+    window.end,
+    timeZone,
+  );
+  const editedStarts = new Set(edited.map(date => date.getTime()));
+  const breaks = occurrences.filter(
+    occurrence =>
+      !editedStarts.has(occurrence.getTime()) &&
+      isDuringTermBreak(occurrence, term, timeZone),
+  );
+  if (breaks.length === occurrences.length) return null;
+
+  const start = occurrences[0];
+  const until = occurrences[occurrences.length - 1];
+  const exdates = recurrence.exdates.filter(
+    date =>
+      date.getTime() >= start.getTime() && date.getTime() <= until.getTime(),
+  );
+
+  return {
+    start,
+    recurrence: {
+      rule: { ...recurrence.rule, until, count: null },
+      exdates: [...exdates, ...breaks].sort(
+        (a, b) => a.getTime() - b.getTime(),
+      ),
+    },
+  };
+}
+
+/**
+ * Load a user's lectures and expand them into the occurrences that fall in
+ * a date range
+ *
+ * @param select - Columns to select from lectures (must include the
+ * LectureSeriesRow columns, course_id included)
+ */
+export async function getLectureOccurrences<
+  T extends LectureSeriesRow = LectureSeriesRow,
+>(
+  supabaseClient: SupabaseClient,
+  userId: string,
+  rangeStart: Date,
+  rangeEnd: Date,
+  select: string = '*',
+): Promise<LectureOccurrence<T>[]> {
+  const from = rangeStart.toISOString();
+  const to = rangeEnd.toISOString();
+
+  const [lecturesRes, userRes] = await Promise.all([
+    supabaseClient
+      .from('lectures')
+      .select(select)
+      .eq('user_id', userId)
+      .is('deleted_at', null)
+      .lte('lecture_date', to)
+      .or(`is_recurring.eq.true,lecture_date.gte.${from}`),
+    supabaseClient
+      .from('users')
+      .select('timezone')
+      .eq('id', userId)
+      .maybeSingle(),
+  ]);
+
+  if (lecturesRes.error) throw lecturesRes.error;
+
+  const allLectures = (lecturesRes.data ?? []) as unknown as T[];
+  const timeZone = (userRes.data?.timezone as string | null) || 'UTC';
+  const terms = await getCourseTerms(
+    supabaseClient,
+    allLectures.map(lecture => lecture.course_id ?? ''),
+  );
+  const termOf = (lecture: T) =>
+    lecture.course_id ? terms.get(lecture.course_id) : undefined;
+  const lectures = allLectures.filter(lecture => !termOf(lecture)?.archived_at);
+
+  const seriesIds = lectures
+    .filter(lecture => lecture.is_recurring)
+    .map(lecture => lecture.id);
+  const overridesByLecture = new Map<string, LectureOccurrenceOverrideRow[]>();
+
+  if (seriesIds.length > 0) {
+    const { data: overrides, error } = await supabaseClient
+      .from('lecture_occurrence_overrides')
+      .select(LECTURE_OCCURRENCE_OVERRIDE_COLUMNS)
+      .eq('user_id', userId)
+      .in('lecture_id', seriesIds)
+      .or(
+        `and(occurrence_start.gte.${from},occurrence_start.lte.${to}),and(start_time.gte.${from},start_time.lte.${to})`,
+      );
+
+    if (error) throw error;
+
+    for (const override of (overrides ??
+      []) as LectureOccurrenceOverrideRow[]) {
+      const list = overridesByLecture.get(override.lecture_id) ?? [];
+      list.push(override);
+      overridesByLecture.set(override.lecture_id, list);
+    }
+  }
+
+  return lectures.flatMap(lecture =>
+    expandLectureOccurrences(
+      lecture,
+      overridesByLecture.get(lecture.id) ?? [],
+      rangeStart,
+      rangeEnd,
+      timeZone,
+      termOf(lecture),
+    ),
+  );
+}
@@ -25,6 +25,11 @@ export interface NotificationPreferences {
   lecture_reminders_enabled?: boolean;
   morning_summary_enabled?: boolean;
   evening_capture_enabled?: boolean;
+  weekly_report_enabled?: boolean;
+  // Send caps and reminder bundling
+  max_per_hour?: number | null;
+  max_per_day?: number | null;
+  bundle_window_minutes?: number;
 }
 
 /**
@@ -242,7 +247,9 @@ export function canSendNotification(
     study_session: 'reminders_enabled',
     daily_summary: 'morning_summary_enabled',
     evening_capture: 'evening_capture_enabled',
+    weekly_report: 'weekly_report_enabled',
     reminder: 'reminders_enabled', // Generic reminder type
+    reminder_digest: 'reminders_enabled', // Several reminders sent as one
     // System notifications - no specific preference, only master toggle applies
     welcome: undefined,
     subscription_ended: undefined,
@@ -287,7 +294,7 @@ export async function getUserNotificationPreferences(
   const { data: prefs, error } = await supabaseAdmin
     .from('notification_preferences')
     .select(
-      'master_toggle, do_not_disturb, quiet_hours_enabled, quiet_hours_start, quiet_hours_end, reminders_enabled, srs_reminders_enabled, assignment_reminders_enabled, lecture_reminders_enabled, morning_summary_enabled, evening_capture_enabled, push_notifications, email_notifications',
+      'master_toggle, do_not_disturb, quiet_hours_enabled, quiet_hours_start, quiet_hours_end, reminders_enabled, srs_reminders_enabled, assignment_reminders_enabled, lecture_reminders_enabled, morning_summary_enabled, evening_capture_enabled, weekly_report_enabled, max_per_hour, max_per_day, bundle_window_minutes, push_notifications, email_notifications',
     )
     .eq('user_id', userId)
     .single();
@@ -316,6 +323,10 @@ export async function getUserNotificationPreferences(
         lecture_reminders_enabled: true,
         morning_summary_enabled: true,
         evening_capture_enabled: true,
+        weekly_report_enabled: true,
+        max_per_hour: 4,
+        max_per_day: 10,
+        bundle_window_minutes: 10,
         // Channel preferences - enabled by default
         push_notifications: true,
         email_notifications: true,
@@ -37,6 +37,9 @@ export const PERMISSIONS = {
   DELETE_COURSE: { resource: 'courses', action: 'delete' },
   VIEW_COURSE: { resource: 'courses', action: 'view' },
 
+  // Flashcard permissions
+  CREATE_FLASHCARD: { resource: 'flashcards', action: 'create' },
+
   // Premium features
   VIEW_PREMIUM_FEATURES: { resource: 'premium', action: 'view' },
   UNLIMITED_TASKS: { resource: 'tasks', action: 'unlimited' },
@@ -75,6 +78,7 @@ export const ROLES: Record<string, UserRole> = {
       PERMISSIONS.UPDATE_COURSE,
       PERMISSIONS.DELETE_COURSE,
       PERMISSIONS.VIEW_COURSE,
+      PERMISSIONS.CREATE_FLASHCARD,
     ],
   },
   PREMIUM_USER: {
@@ -110,6 +114,7 @@ export const TASK_LIMITS = {
     study_sessions: 15,
     courses: 2,
     srs_reminders: 5,
+    flashcards: 200,
   },
   oddity: {
     assignments: 70,
@@ -117,6 +122,7 @@ export const TASK_LIMITS = {
     study_sessions: 70,
     courses: 10,
     srs_reminders: 50,
+    flashcards: -1,
   },
   admin: {
     assignments: -1, // unlimited
@@ -124,6 +130,7 @@ export const TASK_LIMITS = {
     study_sessions: -1,
     courses: -1,
     srs_reminders: -1,
+    flashcards: -1,
   },
 } as const;
 
@@ -60,6 +60,10 @@ const RATE_LIMITS: Record<string, RateLimitConfig> = {
     perUser: { requests: 100, window: 60 },
     perIP: { requests: 200, window: 60 },
   },
+  'import-user-data': {
+    perUser: { requests: 20, window: 3600 },
+    perIP: { requests: 40, window: 3600 },
+  },
   default: {
     perUser: { requests: 100, window: 60 },
     perIP: { requests: 200, window: 60 },
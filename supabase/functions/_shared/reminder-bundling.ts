@@ -0,0 +1,105 @@
+/**
+ * Reminder Bundling
+ *
+ * When several of a user's reminders fall due within their bundle window,
+ * process-due-reminders sends them as one digest push ("3 reviews and 2
+ * assignment deadlines") that opens the list of those reminders. Digests
+ * and single reminders both count towards the user's hourly and daily send
+ * caps; reminders over the cap stay pending and go out in a later digest.
+ */
+
+import { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.0.0';
+import {
+  formatList,
+  ServerMessageKey,
+  SupportedLocale,
+  translate,
+} from './i18n.ts';
+import { NotificationPreferences } from './notification-helpers.ts';
+
+// Order of the parts of a digest, most pressing first
+const DIGEST_TYPES = [
+  'exam',
+  'assignment',
+  'spaced_repetition',
+  'study_session',
+  'lecture',
+] as const;
+
+const HOUR_MS = 60 * 60 * 1000;
+
+/** Title and body of the digest for reminders of these types */
+export function describeDigest(
+  locale: SupportedLocale,
+  reminderTypes: string[],
+): { title: string; body: string; parts: string } {
+  const counts = new Map<string, number>();
+  for (const type of reminderTypes) {
+    const key = (DIGEST_TYPES as readonly string[]).includes(type)
+      ? type
+      : 'other';
+    counts.set(key, (counts.get(key) ?? 0) + 1);
+  }
+
+  const parts = formatList(
+    locale,
+    [...DIGEST_TYPES, 'other']
+      .filter(type => counts.has(type))
+      .map(type =>
+        translate(locale, `reminder.digest.${type}` as ServerMessageKey, {
+          count: counts.get(type)!,
+        }),
+      ),
+  );
+
+  return {
+    title: translate(locale, 'reminder.digestTitle', {
+      count: reminderTypes.length,
+    }),
+    body: translate(locale, 'reminder.digestBody', { parts }),
+    parts,
+  };
+}
+
+/** Deep link to the list of the reminders in a digest */
+export function digestUrl(reminderIds: string[]): string {
+  return `elaro://reminders?ids=${reminderIds.join(',')}`;
+}
+
+/** Whether these many reminders go out as one digest */
+export function shouldBundle(
+  prefs: Pick<NotificationPreferences, 'bundle_window_minutes'> | null,
+  reminderCount: number,
+): boolean {
+  return reminderCount > 1 && (prefs?.bundle_window_minutes ?? 10) > 0;
+}
+
+/**
+ * How many more notifications the user may be sent right now under their
+ * hourly and daily caps. A missing or non-positive cap means no limit.
+ */
+export async function getRemainingSends(
+  client: SupabaseClient,
+  userId: string,
+  prefs: Pick<NotificationPreferences, 'max_per_hour' | 'max_per_day'> | null,
+): Promise<number> {
+  const caps = [
+    { limit: prefs?.max_per_hour, windowMs: HOUR_MS },
+    { limit: prefs?.max_per_day, windowMs: 24 * HOUR_MS },
+  ].filter(
+    (cap): cap is { limit: number; windowMs: number } =>
+      typeof cap.limit === 'number' && cap.limit > 0,
+  );
+
+  let remaining = Infinity;
+  for (const { limit, windowMs } of caps) {
+    const { data: sent, error } = await client.rpc('count_notifications_sent', {
+      p_user_id: userId,
+      p_since: new Date(Date.now() - windowMs).toISOString(),
+    });
+    if (error) throw error;
+    remaining = Math.min(remaining, limit - (sent ?? 0));
+  }
+
+  return Math.max(remaining, 0);
+}
@@ -8,6 +8,8 @@
 
 import { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.0.0';
 import { addDeterministicJitter } from './deterministic-jitter.ts';
+import { getStudySessionReviewDeadline } from './exam-revision.ts';
+import { resolveUserLocale, SupportedLocale, translate } from './i18n.ts';
 
 export interface ScheduleReminderOptions {
   userId: string;
@@ -18,6 +20,8 @@ export interface ScheduleReminderOptions {
   preferredHour?: number;
   jitterMinutes?: number;
   useDeterministicJitter?: boolean;
+  locale?: SupportedLocale; // Looked up from the user's profile when omitted
+  deadline?: Date | null; // Learned send hours never move a review past this
 }
 
 export interface ScheduledReminderData {
@@ -31,6 +35,19 @@ export interface ScheduledReminderData {
   priority: 'low' | 'medium' | 'high';
 }
 
+async function getUserLocale(
+  supabaseClient: SupabaseClient,
+  userId: string,
+): Promise<SupportedLocale> {
+  const { data } = await supabaseClient
+    .from('users')
+    .select('locale, device_locale')
+    .eq('id', userId)
+    .maybeSingle();
+
+  return resolveUserLocale(data);
+}
+
 /**
  * Schedule a single SRS reminder with timezone awareness and optional jitter
  *
@@ -50,44 +67,53 @@ export async function scheduleSRSReminder(
     preferredHour = 10,
     jitterMinutes = 30,
     useDeterministicJitter = true, // Default to deterministic for consistency
+    deadline,
   } = options;
+  const locale =
+    options.locale ?? (await getUserLocale(supabaseClient, userId));
 
-  // Get user's optimal reminder hour if not provided
-  let optimalHour = preferredHour;
-  if (preferredHour === 10) {
-    const { data: optimalHourData } = await supabaseClient.rpc(
-      'get_optimal_reminder_hour',
-      {
-        p_user_id: userId,
-        p_reminder_type: 'spaced_repetition',
-      },
-    );
-
-    if (optimalHourData && typeof optimalHourData === 'number') {
-      optimalHour = optimalHourData;
-    }
-  }
-
-  // Use timezone-aware scheduling function
-  const { data: timezoneAwareTime, error: tzError } = await supabaseClient.rpc(
-    'schedule_reminder_in_user_timezone',
+  // Send at the hour the user has learned to act on reviews, unless that
+  // would push the review past its deadline
+  const { data: learnedHour } = await supabaseClient.rpc(
+    'get_optimal_reminder_hour',
     {
       p_user_id: userId,
-      p_base_time: sessionDate.toISOString(),
-      p_days_offset: daysOffset,
-      p_hour: optimalHour,
+      p_reminder_type: 'spaced_repetition',
+      p_fixed_hour: preferredHour,
+      p_seed: `${sessionId}-${daysOffset}`,
     },
   );
 
-  let reminderTime: Date;
+  const reminderTimeAt = async (hour: number): Promise<Date> => {
+    // Use timezone-aware scheduling function
+    const { data: timezoneAwareTime, error: tzError } =
+      await supabaseClient.rpc('schedule_reminder_in_user_timezone', {
+        p_user_id: userId,
+        p_base_time: sessionDate.toISOString(),
+        p_days_offset: daysOffset,
+        p_hour: hour,
+      });
 
-  if (tzError || !timezoneAwareTime) {
-    // Fallback to UTC calculation if timezone conversion fails
-    reminderTime = new Date(sessionDate);
-    reminderTime.setDate(sessionDate.getDate() + daysOffset);
-    reminderTime.setHours(optimalHour, 0, 0, 0);
-  } else {
-    reminderTime = new Date(timezoneAwareTime);
+    if (tzError || !timezoneAwareTime) {
+      // Fallback to UTC calculation if timezone conversion fails
+      const fallback = new Date(sessionDate);
+      fallback.setDate(sessionDate.getDate() + daysOffset);
+      fallback.setHours(hour, 0, 0, 0);
+      return fallback;
+    }
+    return new Date(timezoneAwareTime);
+  };
+
+  let reminderTime = await reminderTimeAt(
+    typeof learnedHour === 'number' ? learnedHour : preferredHour,
+  );
+  if (
+    deadline &&
+    reminderTime > deadline &&
+    typeof learnedHour === 'number' &&
+    learnedHour !== preferredHour
+  ) {
+    reminderTime = await reminderTimeAt(preferredHour);
   }
 
   // Apply jitter (deterministic or random)
@@ -107,8 +133,8 @@ export async function scheduleSRSReminder(
     session_id: sessionId,
     reminder_time: jitteredTime.toISOString(),
     reminder_type: 'spaced_repetition',
-    title: `Spaced Repetition: Review "${topic}"`,
-    body: `It's time to review your study session on "${topic}" to strengthen your memory.`,
+    title: translate(locale, 'srs.title', { topic }),
+    body: translate(locale, 'srs.body', { topic }),
     completed: false,
     priority: 'medium',
   };
@@ -117,6 +143,9 @@ export async function scheduleSRSReminder(
 /**
  * Schedule multiple SRS reminders for different intervals
  *
+ * Reviews that would fall after the end of the session's academic term, or
+ * after the exam it revises for, are dropped.
+ *
  * @param supabaseClient - Supabase client instance
  * @param options - Scheduling options (with intervals array)
  * @returns Array of scheduled reminder data
@@ -131,17 +160,31 @@ export async function scheduleMultipleSRSReminders(
   options: ScheduleMultipleRemindersOptions,
 ): Promise<ScheduledReminderData[]> {
   const { intervals, ...baseOptions } = options;
+  baseOptions.locale ??= await getUserLocale(
+    supabaseClient,
+    baseOptions.userId,
+  );
 
+  const reviewDeadline = await getStudySessionReviewDeadline(
+    supabaseClient,
+    baseOptions.userId,
+    baseOptions.sessionId,
+  );
   const reminders = await Promise.all(
     intervals.map(daysOffset => {
       return scheduleSRSReminder(supabaseClient, {
         ...baseOptions,
         daysOffset,
+        deadline: reviewDeadline,
       });
     }),
   );
 
-  return reminders;
+  return reviewDeadline
+    ? reminders.filter(
+        reminder => new Date(reminder.reminder_time) <= reviewDeadline,
+      )
+    : reminders;
 }
 
 /**
@@ -0,0 +1,377 @@
+/**
+ * Lecture Recurrence (RFC 5545 RRULE + EXDATE)
+ *
+ * lectures.recurring_pattern holds either a legacy keyword ('weekly',
+ * 'bi-weekly') or a recurrence set in iCalendar syntax:
+ *
+ *   RRULE:FREQ=WEEKLY;BYDAY=MO,TH;UNTIL=20260612T225959Z
+ *   EXDATE:20260302T090000Z,20260305T090000Z
+ *
+ * The lecture's start_time is the DTSTART. Occurrences are generated on the
+ * wall clock of the user's time zone, so a 09:00 lecture stays at 09:00
+ * across daylight saving changes.
+ */
+
+import {
+  formatDateTime,
+  isValidTimeZone,
+  parseDateValue,
+  parseRRuleParts,
+  timeZoneOffset,
+  zonedTimeToDate,
+} from './ical.ts';
+
+export type RecurrenceFrequency = 'DAILY' | 'WEEKLY' | 'MONTHLY';
+export type RecurrenceWeekday = 'SU' | 'MO' | 'TU' | 'WE' | 'TH' | 'FR' | 'SA';
+
+export const RECURRENCE_WEEKDAYS: readonly RecurrenceWeekday[] = [
+  'SU',
+  'MO',
+  'TU',
+  'WE',
+  'TH',
+  'FR',
+  'SA',
+];
+
+export interface RecurrenceRule {
+  freq: RecurrenceFrequency;
+  interval: number;
+  /** WEEKLY only; empty means the weekday of DTSTART */
+  byDay: RecurrenceWeekday[];
+  /** Inclusive end of the series */
+  until: Date | null;
+  /** Total occurrences, counting cancelled ones (RFC 5545 §3.3.10) */
+  count: number | null;
+  weekStart: RecurrenceWeekday;
+}
+
+export interface RecurrenceSet {
+  rule: RecurrenceRule;
+  /** Starts of cancelled occurrences */
+  exdates: Date[];
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const FREQUENCIES: readonly RecurrenceFrequency[] = [
+  'DAILY',
+  'WEEKLY',
+  'MONTHLY',
+];
+const SUPPORTED_PARTS = new Set([
+  'FREQ',
+  'INTERVAL',
+  'BYDAY',
+  'UNTIL',
+  'COUNT',
+  'WKST',
+]);
+// Stops a rule with no end from being walked forever (~13 years of DAILY)
+const MAX_PERIODS = 5000;
+
+const LEGACY_PATTERNS: Record<string, string> = {
+  weekly: 'FREQ=WEEKLY',
+  'bi-weekly': 'FREQ=WEEKLY;INTERVAL=2',
+};
+
+/**
+ * Parse an RRULE value (with or without the "RRULE:" prefix)
+ *
+ * Only the parts lectures need are supported: FREQ (DAILY, WEEKLY, MONTHLY),
+ * INTERVAL, plain weekday BYDAY for WEEKLY, UNTIL or COUNT, and WKST.
+ *
+ * @returns The rule, or null if it is invalid or uses unsupported parts
+ */
+export function parseRRule(value: string): RecurrenceRule | null {
+  const parts = parseRRuleParts(value.trim().replace(/^RRULE:/i, ''));
+
+  const freq = parts.FREQ as RecurrenceFrequency;
+  if (!FREQUENCIES.includes(freq)) return null;
+  if (Object.keys(parts).some(part => !SUPPORTED_PARTS.has(part))) {
+    return null;
+  }
+
+  const interval = parts.INTERVAL ? Number(parts.INTERVAL) : 1;
+  if (!Number.isInteger(interval) || interval < 1) return null;
+
+  let byDay: RecurrenceWeekday[] = [];
+  if (parts.BYDAY) {
+    // Ordinal weekdays such as MONTHLY;BYDAY=1MO are not supported
+    if (freq !== 'WEEKLY') return null;
+    byDay = parts.BYDAY.split(',') as RecurrenceWeekday[];
+    if (byDay.some(day => !RECURRENCE_WEEKDAYS.includes(day))) return null;
+  }
+
+  const weekStart = (parts.WKST ?? 'MO') as RecurrenceWeekday;
+  if (!RECURRENCE_WEEKDAYS.includes(weekStart)) return null;
+
+  if (parts.UNTIL && parts.COUNT) return null;
+
+  let until: Date | null = null;
+  if (parts.UNTIL) {
+    const parsed = parseDateValue(parts.UNTIL, undefined, 'UTC');
+    if (!parsed) return null;
+    // A DATE value includes the whole day
+    until = parsed.allDay
+      ? new Date(parsed.date.getTime() + DAY_MS - 1000)
+      : parsed.date;
+  }
+
+  let count: number | null = null;
+  if (parts.COUNT) {
+    count = Number(parts.COUNT);
+    if (!Number.isInteger(count) || count < 1) return null;
+  }
+
+  return { freq, interval, byDay, until, count, weekStart };
+}
+
+/**
+ * Serialize a rule as an RRULE value without the "RRULE:" prefix
+ */
+export function formatRRule(rule: RecurrenceRule): string {
+  const parts = [`FREQ=${rule.freq}`];
+  if (rule.interval > 1) parts.push(`INTERVAL=${rule.interval}`);
+  if (rule.freq === 'WEEKLY' && rule.byDay.length > 0) {
+    parts.push(`BYDAY=${sortWeekdays(rule.byDay, 'MO').join(',')}`);
+  }
+  if (rule.until) parts.push(`UNTIL=${formatDateTime(rule.until)}`);
+  else if (rule.count) parts.push(`COUNT=${rule.count}`);
+  if (rule.weekStart !== 'MO') parts.push(`WKST=${rule.weekStart}`);
+  return parts.join(';');
+}
+
+/**
+ * Read a lecture's recurring_pattern
+ *
+ * @returns The recurrence set, or null for one-off lectures and patterns
+ * that cannot be read
+ */
+export function parseRecurringPattern(
+  pattern?: string | null,
+): RecurrenceSet | null {
+  const trimmed = pattern?.trim();
+  if (!trimmed || trimmed === 'none') return null;
+
+  const legacy = LEGACY_PATTERNS[trimmed.toLowerCase()];
+  if (legacy) {
+    return { rule: parseRRule(legacy)!, exdates: [] };
+  }
+
+  let rule: RecurrenceRule | null = null;
+  const exdates: Date[] = [];
+
+  for (const line of trimmed.split(/\r?\n/)) {
+    const upper = line.trim().toUpperCase();
+    if (upper.startsWith('RRULE:') || upper.startsWith('FREQ=')) {
+      rule = parseRRule(line);
+      if (!rule) return null;
+    } else if (upper.startsWith('EXDATE')) {
+      const separator = line.indexOf(':');
+      for (const value of line.slice(separator + 1).split(',')) {
+        const parsed = parseDateValue(value, undefined, 'UTC');
+        if (parsed) exdates.push(parsed.date);
+      }
+    }
+  }
+
+  return rule ? { rule, exdates } : null;
+}
+
+/**
+ * Serialize a recurrence set for lectures.recurring_pattern
+ */
+export function formatRecurringPattern(recurrence: RecurrenceSet): string {
+  const lines = [`RRULE:${formatRRule(recurrence.rule)}`];
+  if (recurrence.exdates.length > 0) {
+    const exdates = [...recurrence.exdates]
+      .sort((a, b) => a.getTime() - b.getTime())
+      .map(formatDateTime);
+    lines.push(`EXDATE:${[...new Set(exdates)].join(',')}`);
+  }
+  return lines.join('\n');
+}
+
+function sortWeekdays(
+  days: RecurrenceWeekday[],
+  weekStart: RecurrenceWeekday,
+): RecurrenceWeekday[] {
+  const offset = (day: RecurrenceWeekday) =>
+    (RECURRENCE_WEEKDAYS.indexOf(day) -
+      RECURRENCE_WEEKDAYS.indexOf(weekStart) +
+      7) %
+    7;
+  return [...new Set(days)].sort((a, b) => offset(a) - offset(b));
+}
+
+/**
+ * Local midnights (as UTC-based wall-clock ms) of the days in one period
+ * of the rule, in order
+ */
+function periodDays(
+  rule: RecurrenceRule,
+  firstDay: number,
+  period: number,
+): number[] {
+  const step = period * rule.interval;
+  const first = new Date(firstDay);
+
+  switch (rule.freq) {
+    case 'DAILY':
+      return [firstDay + step * DAY_MS];
+    case 'WEEKLY': {
+      const weekStartIndex = RECURRENCE_WEEKDAYS.indexOf(rule.weekStart);
+      const weekOffset = (first.getUTCDay() - weekStartIndex + 7) % 7;
+      const weekFirstDay = firstDay - weekOffset * DAY_MS + step * 7 * DAY_MS;
+      const days =
+        rule.byDay.length > 0
+          ? rule.byDay
+          : [RECURRENCE_WEEKDAYS[first.getUTCDay()]];
+      return sortWeekdays(days, rule.weekStart).map(
+        day =>
+          weekFirstDay +
+          ((RECURRENCE_WEEKDAYS.indexOf(day) - weekStartIndex + 7) % 7) *
+            DAY_MS,
+      );
+    }
+    case 'MONTHLY': {
+      const dayOfMonth = first.getUTCDate();
+      const day = Date.UTC(
+        first.getUTCFullYear(),
+        first.getUTCMonth() + step,
+        dayOfMonth,
+      );
+      // Months without that day (e.g. the 31st) are skipped, per RFC 5545
+      return new Date(day).getUTCDate() === dayOfMonth ? [day] : [];
+    }
+  }
+}
+
+/**
+ * Every start the rule generates, in order, beginning with DTSTART itself
+ */
+function* candidateStarts(
+  rule: RecurrenceRule,
+  dtstart: Date,
+  timeZone: string,
+): Generator<Date> {
+  const wallClock =
+    dtstart.getTime() + timeZoneOffset(dtstart.getTime(), timeZone);
+  const timeOfDay = ((wallClock % DAY_MS) + DAY_MS) % DAY_MS;
+  const firstDay = wallClock - timeOfDay;
+
+  // DTSTART always counts as the first occurrence (RFC 5545 §3.8.5.3)
+  yield dtstart;
+
+  for (let period = 0; period < MAX_PERIODS; period++) {
+    for (const day of periodDays(rule, firstDay, period)) {
+      if (day <= firstDay) continue;
+      yield zonedTimeToDate(day + timeOfDay, timeZone);
+    }
+  }
+}
+
+/**
+ * Starts of the occurrences between rangeStart and rangeEnd (inclusive),
+ * without cancelled ones
+ *
+ * @param dtstart - Start of the first lecture in the series
+ * @param timeZone - IANA zone whose wall clock the series follows
+ */
+export function expandRecurrence(
+  recurrence: RecurrenceSet,
+  dtstart: Date,
+  rangeStart: Date,
+  rangeEnd: Date,
+  timeZone: string = 'UTC',
+): Date[] {
+  const { rule } = recurrence;
+  const zone = isValidTimeZone(timeZone) ? timeZone : 'UTC';
+  const cancelled = new Set(recurrence.exdates.map(date => date.getTime()));
+  const occurrences: Date[] = [];
+  let generated = 0;
+
+  for (const start of candidateStarts(rule, dtstart, zone)) {
+    if (rule.count !== null && generated >= rule.count) break;
+    if (rule.until && start.getTime() > rule.until.getTime()) break;
+    if (start.getTime() > rangeEnd.getTime()) break;
+    generated++;
+
+    if (
+      start.getTime() >= rangeStart.getTime() &&
+      !cancelled.has(start.getTime())
+    ) {
+      occurrences.push(start);
+    }
+  }
+
+  return occurrences;
+}
+
+/**
+ * Whether a series has a (non-cancelled) occurrence starting at this instant
+ */
+export function isOccurrence(
+  recurrence: RecurrenceSet,
+  dtstart: Date,
+  occurrenceStart: Date,
+  timeZone: string = 'UTC',
+): boolean {
+  return (
+    expandRecurrence(
+      recurrence,
+      dtstart,
+      occurrenceStart,
+      occurrenceStart,
+      timeZone,
+    ).length === 1
+  );
+}
+
+/**
+ * Split a series at one of its occurrences, for "this and following" edits
+ *
+ * @returns The part that ends before splitAt (null when splitAt is the first
+ * occurrence) and the part that starts at it
+ */
+export function splitRecurrence(
+  recurrence: RecurrenceSet,
+  dtstart: Date,
+  splitAt: Date,
+  timeZone: string = 'UTC',
+): { before: RecurrenceSet | null; after: RecurrenceSet } {
+  const { rule } = recurrence;
+  const zone = isValidTimeZone(timeZone) ? timeZone : 'UTC';
+
+  let generatedBefore = 0;
+  for (const start of candidateStarts(rule, dtstart, zone)) {
+    if (start.getTime() >= splitAt.getTime()) break;
+    generatedBefore++;
+  }
+
+  const after: RecurrenceSet = {
+    rule: {
+      ...rule,
+      count: rule.count !== null ? rule.count - generatedBefore : null,
+    },
+    exdates: recurrence.exdates.filter(
+      date => date.getTime() >= splitAt.getTime(),
+    ),
+  };
+
+  if (generatedBefore === 0) return { before: null, after };
+
+  return {
+    before: {
+      rule: {
+        ...rule,
+        count: rule.count !== null ? generatedBefore : null,
+        until: rule.count !== null ? null : new Date(splitAt.getTime() - 1000),
+      },
+      exdates: recurrence.exdates.filter(
+        date => date.getTime() < splitAt.getTime(),
+      ),
+    },
+    after,
+  };
+}
@@ -1,4 +1,64 @@
 import { z } from 'zod';
+import { TagIdsSchema, TaskPrioritySchema, TaskStatusSchema } from './tag.ts';
+
+// Grade fields shared by create and update; null clears a value
+const gradeFields = {
+  score: z.number().min(0, 'Score cannot be negative').nullable().optional(),
+  max_score: z
+    .number()
+    .positive('Max score must be greater than 0')
+    .nullable()
+    .optional(),
+  weight: z
+    .number()
+    .min(0, 'Weight cannot be negative')
+    .max(100, 'Weight cannot exceed 100%')
+    .nullable()
+    .optional(),
+  grade_category: z
+    .string()
+    .max(100, 'Grade category is too long')
+    .nullable()
+    .optional(),
+};
+
+// Ordered checklist stored in assignments.subtasks; saved as a whole list
+const SubtasksSchema = z
+  .array(
+    z.object({
+      id: z.string().uuid('Invalid subtask ID format'),
+      title: z
+        .string()
+        .trim()
+        .min(1, 'Subtask title is required')
+        .max(200, 'Subtask title must be 200 characters or less'),
+      due_date: z
+        .string()
+        .datetime('Invalid subtask due date format')
+        .nullable()
+        .optional(),
+      completed_at: z
+        .string()
+        .datetime('Invalid subtask completion time')
+        .nullable()
+        .optional(),
+    }),
+  )
+  .max(50, 'An assignment can have at most 50 subtasks')
+  .refine(
+    subtasks =>
+      new Set(subtasks.map(subtask => subtask.id)).size === subtasks.length,
+    'Subtask IDs must be unique',
+  );
+
+// Effort estimate used by the study planner; null clears it
+const EstimatedMinutesSchema = z
+  .number()
+  .int('Estimated effort must be whole minutes')
+  .min(15, 'Estimated effort must be at least 15 minutes')
+  .max(6000, 'Estimated effort must be 100 hours or less')
+  .nullable()
+  .optional();
 
 // Schema for creating a new assignment
 export const CreateAssignmentSchema = z.object({
@@ -34,11 +94,17 @@ export const CreateAssignmentSchema = z.object({
         .positive('Reminder minutes must be positive'),
     )
     .optional(),
+  subtasks: SubtasksSchema.optional(),
+  estimated_minutes: EstimatedMinutesSchema,
+  priority: TaskPrioritySchema.optional(),
+  tag_ids: TagIdsSchema.optional(),
+  ...gradeFields,
 });
 
 // Schema for updating an assignment
 export const UpdateAssignmentSchema = z.object({
   assignment_id: z.string().uuid('Invalid assignment ID format'),
+  expected_version: z.number().int().positive().optional(),
   title: z
     .string()
     .min(1, 'Title is required')
@@ -52,6 +118,12 @@ export const UpdateAssignmentSchema = z.object({
     .url('Invalid submission link format')
     .optional()
     .or(z.literal('')),
+  subtasks: SubtasksSchema.optional(),
+  estimated_minutes: EstimatedMinutesSchema,
+  priority: TaskPrioritySchema.optional(),
+  status: TaskStatusSchema.optional(),
+  tag_ids: TagIdsSchema.optional(),
+  ...gradeFields,
 });
 
 // Schema for deleting an assignment
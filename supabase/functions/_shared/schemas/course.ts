@@ -1,5 +1,49 @@
 import { z } from 'zod';
 
+// Weighted categories and letter-grade boundaries for a course
+export const GradingSchemeSchema = z.object({
+  categories: z
+    .array(
+      z.object({
+        id: z.string().min(1).max(100),
+        name: z
+          .string()
+          .min(1, 'Category name is required')
+          .max(100, 'Category name must be 100 characters or less'),
+        weight: z
+          .number()
+          .min(0, 'Category weight cannot be negative')
+          .max(100, 'Category weight cannot exceed 100%'),
+      }),
+    )
+    .max(20, 'A course can have at most 20 grade categories')
+    .refine(
+      categories =>
+        categories.reduce((sum, category) => sum + category.weight, 0) <=
+        100.001,
+      { message: 'Category weights cannot add up to more than 100%' },
+    ),
+  letter_grades: z
+    .array(
+      z.object({
+        letter: z.string().min(1).max(5),
+        min_percent: z.number().min(0).max(100),
+        grade_points: z.number().min(0).max(5),
+      }),
+    )
+    .max(20, 'A scale can have at most 20 letter grades'),
+});
+
+const credits = z
+  .number()
+  .min(0, 'Credits cannot be negative')
+  .max(50, 'Credits must be 50 or less')
+  .nullable()
+  .optional();
+
+// Term the course belongs to; null takes it out of its term
+const term_id = z.string().uuid('Invalid term ID format').nullable().optional();
+
 // Schema for creating a new course
 export const CreateCourseSchema = z.object({
   course_name: z
@@ -14,11 +58,16 @@ export const CreateCourseSchema = z.object({
     .string()
     .max(2000, 'About course must be 2000 characters or less')
     .optional(),
+  grading_scheme: GradingSchemeSchema.nullable().optional(),
+  credits,
+  term_id,
 });
 
 // Schema for updating a course
 export const UpdateCourseSchema = z.object({
   course_id: z.string().uuid('Invalid course ID format'),
+  // Row version the edit was made against; stale writes are rejected
+  expected_version: z.number().int().positive().optional(),
   course_name: z
     .string()
     .min(1, 'Course name is required')
@@ -32,6 +81,9 @@ export const UpdateCourseSchema = z.object({
     .string()
     .max(2000, 'About course must be 2000 characters or less')
     .optional(),
+  grading_scheme: GradingSchemeSchema.nullable().optional(),
+  credits,
+  term_id,
 });
 
 // Schema for deleting a course
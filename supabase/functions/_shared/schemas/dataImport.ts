@@ -0,0 +1,15 @@
+import { z } from 'zod';
+
+// Several years of heavy use export to a few MB; far larger files are not ours
+export const MAX_IMPORT_CONTENT_LENGTH = 10_000_000;
+
+// Schema for importing a file produced by export-user-data
+export const ImportUserDataSchema = z.object({
+  format: z.enum(['json', 'csv']),
+  content: z
+    .string()
+    .min(1, 'The file is empty')
+    .max(MAX_IMPORT_CONTENT_LENGTH, 'The file is too large to import'),
+  // Only report what would be created, skipped or conflicting
+  dry_run: z.boolean(),
+});
@@ -0,0 +1,77 @@
+import { z } from 'zod';
+
+// Fields shared by create and update; null clears an optional value
+const examFields = {
+  title: z
+    .string()
+    .min(1, 'Title is required')
+    .max(200, 'Title must be 200 characters or less'),
+  exam_date: z
+    .string()
+    .datetime('Invalid exam date format. Must be ISO 8601 datetime string'),
+  duration_minutes: z
+    .number()
+    .int('Duration must be whole minutes')
+    .min(5, 'Duration must be at least 5 minutes')
+    .max(720, 'Duration must be 12 hours or less'),
+  location: z
+    .string()
+    .max(200, 'Location must be 200 characters or less')
+    .nullable()
+    .optional(),
+  // Each topic gets its own revision session
+  topics: z
+    .array(
+      z
+        .string()
+        .trim()
+        .min(1, 'Topic is required')
+        .max(200, 'Topic must be 200 characters or less'),
+    )
+    .max(30, 'An exam can cover at most 30 topics'),
+  weight: z
+    .number()
+    .min(0, 'Weight cannot be negative')
+    .max(100, 'Weight cannot exceed 100%')
+    .nullable()
+    .optional(),
+  description: z
+    .string()
+    .max(5000, 'Description must be 5000 characters or less')
+    .nullable()
+    .optional(),
+};
+
+// Schema for creating a new exam
+export const CreateExamSchema = z.object({
+  course_id: z.string().uuid('Invalid course ID format'),
+  ...examFields,
+  duration_minutes: examFields.duration_minutes.optional(),
+  topics: examFields.topics.optional(),
+  reminders: z
+    .array(
+      z
+        .number()
+        .int('Reminder minutes must be an integer')
+        .positive('Reminder minutes must be positive'),
+    )
+    .max(3, 'An exam can have at most 3 reminders')
+    .optional(),
+});
+
+// Schema for updating an exam
+export const UpdateExamSchema = z.object({
+  exam_id: z.string().uuid('Invalid exam ID format'),
+  title: examFields.title.optional(),
+  exam_date: examFields.exam_date.optional(),
+  duration_minutes: examFields.duration_minutes.optional(),
+  location: examFields.location,
+  topics: examFields.topics.optional(),
+  weight: examFields.weight,
+  description: examFields.description,
+});
+
+// Schema for deleting or restoring an exam, and for accepting its revision plan
+export const ExamIdSchema = z.object({
+  exam_id: z.string().uuid('Invalid exam ID format'),
+});
@@ -0,0 +1,121 @@
+import { z } from 'zod';
+
+// Cloze deletions look like {{answer}} or, as in Anki, {{c1::answer::hint}}
+const CLOZE_DELETION = /\{\{(?:c\d+::)?[^{}]+?\}\}/;
+
+const deckFields = {
+  title: z
+    .string()
+    .trim()
+    .min(1, 'Title is required')
+    .max(200, 'Title must be 200 characters or less'),
+  description: z
+    .string()
+    .max(2000, 'Description must be 2000 characters or less')
+    .nullable()
+    .optional(),
+};
+
+// Schema for creating a deck; it belongs to a study session or a course
+export const CreateFlashcardDeckSchema = z
+  .object({
+    study_session_id: z
+      .string()
+      .uuid('Invalid study session ID format')
+      .optional(),
+    course_id: z.string().uuid('Invalid course ID format').optional(),
+    ...deckFields,
+  })
+  .refine(data => data.study_session_id || data.course_id, {
+    message: 'Either study_session_id or course_id is required',
+  });
+
+export const UpdateFlashcardDeckSchema = z.object({
+  deck_id: z.string().uuid('Invalid deck ID format'),
+  title: deckFields.title.optional(),
+  description: deckFields.description,
+});
+
+export const FlashcardDeckIdSchema = z.object({
+  deck_id: z.string().uuid('Invalid deck ID format'),
+});
+
+const cardFields = {
+  card_type: z.enum(['basic', 'cloze']),
+  front: z
+    .string()
+    .trim()
+    .min(1, 'Front is required')
+    .max(2000, 'Front must be 2000 characters or less'),
+  back: z
+    .string()
+    .max(2000, 'Back must be 2000 characters or less')
+    .nullable()
+    .optional(),
+  image_url: z.string().url('Invalid image URL').nullable().optional(),
+};
+
+// Basic cards need a back; cloze cards need at least one deletion
+export const CreateFlashcardSchema = z
+  .object({
+    deck_id: z.string().uuid('Invalid deck ID format'),
+    ...cardFields,
+    card_type: cardFields.card_type.default('basic'),
+  })
+  .refine(
+    card =>
+      card.card_type === 'cloze'
+        ? CLOZE_DELETION.test(card.front)
+        : Boolean(card.back?.trim()),
+    {
+      message:
+        'Basic cards need a back; cloze cards need at least one {{deletion}}',
+    },
+  );
+
+export const UpdateFlashcardSchema = z
+  .object({
+    flashcard_id: z.string().uuid('Invalid flashcard ID format'),
+    card_type: cardFields.card_type.optional(),
+    front: cardFields.front.optional(),
+    back: cardFields.back,
+    image_url: cardFields.image_url,
+  })
+  .refine(
+    card =>
+      card.card_type !== 'cloze' ||
+      card.front === undefined ||
+      CLOZE_DELETION.test(card.front),
+    { message: 'Cloze cards need at least one {{deletion}}' },
+  );
+
+export const FlashcardIdSchema = z.object({
+  flashcard_id: z.string().uuid('Invalid flashcard ID format'),
+});
+
+export const ReviewFlashcardSchema = z.object({
+  flashcard_id: z.string().uuid('Invalid flashcard ID format'),
+  quality_rating: z.number().int().min(0).max(5),
+  response_time_seconds: z.number().int().positive().optional(),
+});
+
+// Anki packages are sent base64-encoded, text files as they are
+export const MAX_FLASHCARD_IMPORT_BASE64_LENGTH = 35_000_000;
+export const MAX_FLASHCARD_IMPORT_TEXT_LENGTH = 5_000_000;
+
+// Schema for importing an Anki package (.apkg) or a CSV/TSV file into a course
+export const ImportFlashcardsSchema = z
+  .object({
+    course_id: z.string().uuid('Invalid course ID format'),
+    file_name: z.string().trim().min(1, 'File name is required').max(255),
+    format: z.enum(['apkg', 'text']),
+    content: z.string().min(1, 'File is empty'),
+  })
+  .refine(
+    data =>
+      data.content.length <=
+      (data.format === 'apkg'
+        ? MAX_FLASHCARD_IMPORT_BASE64_LENGTH
+        : MAX_FLASHCARD_IMPORT_TEXT_LENGTH),
+    { message: 'File is too large to import' },
+  );
@@ -1,4 +1,18 @@
 import { z } from 'zod';
+import { parseRecurringPattern } from '../rrule.ts';
+import { TagIdsSchema, TaskPrioritySchema, TaskStatusSchema } from './tag.ts';
+
+// 'weekly', 'bi-weekly' or an RRULE (plus optional EXDATE line), see rrule.ts
+export const RecurringPatternSchema = z
+  .string()
+  .max(4000, 'Recurrence rule is too long')
+  .refine(
+    pattern =>
+      pattern === '' ||
+      pattern === 'none' ||
+      parseRecurringPattern(pattern) !== null,
+    'Unsupported recurrence rule',
+  );
 
 // Schema for creating a new lecture
 export const CreateLectureSchema = z.object({
@@ -14,14 +28,17 @@ export const CreateLectureSchema = z.object({
   start_time: z.string().datetime('Invalid start time format'),
   end_time: z.string().datetime('Invalid end time format').optional(),
   is_recurring: z.boolean().optional(),
-  recurring_pattern: z.string().optional(),
+  recurring_pattern: RecurringPatternSchema.optional(),
   venue: z.string().max(200, 'Venue must be 200 characters or less').optional(),
   reminders: z.array(z.number().int().positive()).optional(),
+  priority: TaskPrioritySchema.optional(),
+  tag_ids: TagIdsSchema.optional(),
 });
 
 // Schema for updating a lecture
 export const UpdateLectureSchema = z.object({
   lecture_id: z.string().uuid('Invalid lecture ID format'),
+  expected_version: z.number().int().positive().optional(),
   lecture_name: z
     .string()
     .min(1, 'Lecture name is required')
@@ -34,13 +51,50 @@ export const UpdateLectureSchema = z.object({
   start_time: z.string().datetime('Invalid start time format').optional(),
   end_time: z.string().datetime('Invalid end time format').optional(),
   is_recurring: z.boolean().optional(),
-  recurring_pattern: z.string().optional(),
+  recurring_pattern: RecurringPatternSchema.optional(),
   location: z
     .string()
     .max(200, 'Location must be 200 characters or less')
     .optional(),
+  priority: TaskPrioritySchema.optional(),
+  status: TaskStatusSchema.optional(),
+  tag_ids: TagIdsSchema.optional(),
+});
+
+const LectureOccurrenceTargetSchema = z.object({
+  lecture_id: z.string().uuid('Invalid lecture ID format'),
+  expected_version: z.number().int().positive().optional(),
+  // Start of the occurrence as generated by the series
+  occurrence_start: z.string().datetime('Invalid occurrence start format'),
+  // 'this' = only this occurrence, 'following' = this and all later ones
+  scope: z.enum(['this', 'following']),
 });
 
+// Schema for editing occurrences of a recurring lecture
+export const UpdateLectureOccurrenceSchema =
+  LectureOccurrenceTargetSchema.extend({
+    lecture_name: z
+      .string()
+      .min(1, 'Lecture name is required')
+      .max(35, 'Lecture name must be 35 characters or less')
+      .optional(),
+    description: z
+      .string()
+      .max(5000, 'Description must be 5000 characters or less')
+      .optional(),
+    start_time: z.string().datetime('Invalid start time format').optional(),
+    end_time: z.string().datetime('Invalid end time format').optional(),
+    venue: z
+      .string()
+      .max(200, 'Venue must be 200 characters or less')
+      .optional(),
+    // Only applies to scope 'following'
+    recurring_pattern: RecurringPatternSchema.optional(),
+  });
+
+// Schema for cancelling occurrences of a recurring lecture
+export const CancelLectureOccurrenceSchema = LectureOccurrenceTargetSchema;
+
 // Schema for deleting a lecture
 export const DeleteLectureSchema = z.object({
   lecture_id: z.string().uuid('Invalid lecture ID format'),
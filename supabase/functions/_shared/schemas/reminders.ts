@@ -5,3 +5,12 @@ export const ScheduleRemindersSchema = z.object({
   session_date: z.string().datetime('Invalid session date format'),
   topic: z.string().min(1, 'Topic is required').max(200, 'Topic too long'),
 });
+
+// Schema for a pending reminder carried over from a data export
+export const ImportedReminderSchema = z.object({
+  reminder_type: z.string().min(1).max(50),
+  reminder_time: z.string().datetime('Invalid reminder time format'),
+  day_number: z.number().int().min(0),
+  title: z.string().max(500, 'Title too long').optional(),
+  body: z.string().max(2000, 'Body too long').optional(),
+});
@@ -0,0 +1,35 @@
+import { z } from 'zod';
+
+export const SEARCH_RESULT_TYPES = [
+  'course',
+  'assignment',
+  'study_session',
+  'lecture',
+  'notification',
+] as const;
+
+// Schema for a global search
+export const SearchSchema = z
+  .object({
+    query: z
+      .string()
+      .trim()
+      .min(2, 'Search for at least 2 characters')
+      .max(100, 'Search must be 100 characters or less'),
+    // All types when omitted
+    types: z.array(z.enum(SEARCH_RESULT_TYPES)).min(1).optional(),
+    course_id: z.string().uuid('Invalid course ID').optional(),
+    from: z
+      .string()
+      .datetime('Invalid from date. Must be ISO 8601 datetime string')
+      .optional(),
+    to: z
+      .string()
+      .datetime('Invalid to date. Must be ISO 8601 datetime string')
+      .optional(),
+    // Per result type
+    limit: z.number().int().min(1).max(50).optional(),
+  })
+  .refine(value => !value.from || !value.to || value.to >= value.from, {
+    message: 'The date range cannot end before it starts',
+  });
@@ -1,4 +1,5 @@
 import { z } from 'zod';
+import { TagIdsSchema, TaskPrioritySchema, TaskStatusSchema } from './tag.ts';
 
 // Schema for creating a new study session
 export const CreateStudySessionSchema = z.object({
@@ -17,11 +18,14 @@ export const CreateStudySessionSchema = z.object({
     .max(200, 'Location must be 200 characters or less')
     .optional(),
   reminders: z.array(z.number().int().positive()).optional(),
+  priority: TaskPrioritySchema.optional(),
+  tag_ids: TagIdsSchema.optional(),
 });
 
 // Schema for updating a study session
 export const UpdateStudySessionSchema = z.object({
   study_session_id: z.string().uuid('Invalid study session ID format'),
+  expected_version: z.number().int().positive().optional(),
   title: z
     .string()
     .min(1, 'Title is required')
@@ -37,6 +41,9 @@ export const UpdateStudySessionSchema = z.object({
     .string()
     .max(200, 'Location must be 200 characters or less')
     .optional(),
+  priority: TaskPrioritySchema.optional(),
+  status: TaskStatusSchema.optional(),
+  tag_ids: TagIdsSchema.optional(),
 });
 
 // Schema for deleting a study session
@@ -48,3 +55,67 @@ export const DeleteStudySessionSchema = z.object({
 export const RestoreStudySessionSchema = z.object({
   study_session_id: z.string().uuid('Invalid study session ID format'),
 });
+
+// Schema for accepting a proposed study plan
+export const AcceptStudyPlanSchema = z.object({
+  blocks: z
+    .array(
+      z.object({
+        assignment_id: z.string().uuid('Invalid assignment ID format'),
+        start: z.string().datetime('Invalid block start format'),
+        duration_minutes: z.number().int().min(5).max(240),
+      }),
+    )
+    .max(100, 'A plan can have at most 100 blocks'),
+  replace_session_ids: z
+    .array(z.string().uuid('Invalid study session ID format'))
+    .max(200)
+    .default([]),
+  reminders: z.array(z.number().int().positive()).max(2).default([]),
+});
+
+const FocusInterruptionSchema = z.object({
+  reason: z.enum(['paused', 'left_app']),
+  started_at: z.string().datetime('Invalid interruption start format'),
+  ended_at: z.string().datetime('Invalid interruption end format'),
+});
+
+// Schema for recording a finished focus (Pomodoro) timer run
+export const RecordFocusLogSchema = z
+  .object({
+    study_session_id: z
+      .string()
+      .uuid('Invalid study session ID format')
+      .optional(),
+    started_at: z.string().datetime('Invalid start time format'),
+    ended_at: z.string().datetime('Invalid end time format'),
+    work_minutes: z.number().int().min(1).max(180),
+    short_break_minutes: z.number().int().min(0).max(60),
+    long_break_minutes: z.number().int().min(0).max(120),
+    planned_cycles: z.number().int().min(1).max(12),
+    completed_cycles: z.number().int().min(0).max(12),
+    focused_seconds: z.number().int().min(0),
+    break_seconds: z.number().int().min(0),
+    interruptions: z.array(FocusInterruptionSchema).max(500),
+    status: z.enum(['completed', 'stopped']),
+  })
+  .refine(data => new Date(data.ended_at) >= new Date(data.started_at), {
+    message: 'End time must be after start time',
+    path: ['ended_at'],
+  })
+  .refine(data => data.completed_cycles <= data.planned_cycles, {
+    message: 'Completed cycles cannot exceed planned cycles',
+    path: ['completed_cycles'],
+  })
+  .refine(
+    data =>
+      data.focused_seconds + data.break_seconds <=
+      (new Date(data.ended_at).getTime() -
+        new Date(data.started_at).getTime()) /
+        1000 +
+        60,
+    {
+      message: 'Timed durations exceed the length of the run',
+      path: ['focused_seconds'],
+    },
+  );
@@ -0,0 +1,44 @@
+import { z } from 'zod';
+
+const name = z
+  .string()
+  .trim()
+  .min(1, 'Tag name is required')
+  .max(50, 'Tag name must be 50 characters or less');
+
+const color = z
+  .string()
+  .regex(/^#[0-9A-Fa-f]{6}$/, 'Tag color must be a hex color like #2563EB');
+
+// Priority of an assignment, lecture or study session
+export const TaskPrioritySchema = z.enum(['low', 'medium', 'high'], {
+  errorMap: () => ({
+    message: 'Priority must be "low", "medium" or "high"',
+  }),
+});
+
+// Completing a task counts toward the user's streak and achievements
+export const TaskStatusSchema = z.enum(['pending', 'completed']);
+
+// Tags on a task; replaces the task's tags when sent
+export const TagIdsSchema = z
+  .array(z.string().uuid('Invalid tag ID format'))
+  .max(20, 'A task can have at most 20 tags');
+
+// Schema for creating a tag
+export const CreateTagSchema = z.object({
+  name,
+  color,
+});
+
+// Schema for renaming or recoloring a tag
+export const UpdateTagSchema = z.object({
+  tag_id: z.string().uuid('Invalid tag ID format'),
+  name: name.optional(),
+  color: color.optional(),
+});
+
+// Schema for deleting a tag; it is taken off every task
+export const DeleteTagSchema = z.object({
+  tag_id: z.string().uuid('Invalid tag ID format'),
+});
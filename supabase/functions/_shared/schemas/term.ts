@@ -0,0 +1,64 @@
+import { z } from 'zod';
+
+const dateString = z
+  .string()
+  .regex(/^\d{4}-\d{2}-\d{2}$/, 'Dates must be in YYYY-MM-DD format');
+
+const TermBreakSchema = z
+  .object({
+    name: z
+      .string()
+      .min(1, 'Break name is required')
+      .max(100, 'Break name must be 100 characters or less'),
+    start_date: dateString,
+    end_date: dateString,
+  })
+  .refine(value => value.end_date >= value.start_date, {
+    message: 'A break cannot end before it starts',
+  });
+
+const name = z
+  .string()
+  .min(1, 'Term name is required')
+  .max(100, 'Term name must be 100 characters or less');
+
+const breaks = z
+  .array(TermBreakSchema)
+  .max(20, 'A term can have at most 20 breaks');
+
+// Schema for creating a term
+export const CreateTermSchema = z
+  .object({
+    name,
+    start_date: dateString,
+    end_date: dateString,
+    breaks: breaks.optional(),
+    // Courses to move into the new term
+    course_ids: z.array(z.string().uuid()).max(50).optional(),
+  })
+  .refine(value => value.end_date >= value.start_date, {
+    message: 'A term cannot end before it starts',
+  });
+
+// Schema for updating a term; dates are checked against each other in the
+// handler since only one of them may be sent
+export const UpdateTermSchema = z.object({
+  term_id: z.string().uuid('Invalid term ID format'),
+  name: name.optional(),
+  start_date: dateString.optional(),
+  end_date: dateString.optional(),
+  breaks: breaks.optional(),
+  // Replaces the term's courses when sent
+  course_ids: z.array(z.string().uuid()).max(50).optional(),
+});
+
+// Schema for archiving/unarchiving a term
+export const ArchiveTermSchema = z.object({
+  term_id: z.string().uuid('Invalid term ID format'),
+  archived: z.boolean(),
+});
+
+// Schema for deleting a term; its courses are kept and leave the term
+export const DeleteTermSchema = z.object({
+  term_id: z.string().uuid('Invalid term ID format'),
+});
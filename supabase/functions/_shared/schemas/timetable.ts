@@ -0,0 +1,61 @@
+import { z } from 'zod';
+import { RecurringPatternSchema } from './lecture.ts';
+
+// Roughly 5,000 weekly events; larger files are almost certainly not a timetable
+export const MAX_TIMETABLE_ICS_LENGTH = 2_000_000;
+
+// Schema for previewing a timetable import from pasted/uploaded .ics content or a URL
+export const TimetablePreviewSchema = z
+  .object({
+    ics_content: z
+      .string()
+      .min(1, 'Calendar file is empty')
+      .max(MAX_TIMETABLE_ICS_LENGTH, 'Calendar file is too large')
+      .optional(),
+    url: z.string().max(2048, 'URL must be 2048 characters or less').optional(),
+    timezone: z.string().max(64).optional(),
+  })
+  .refine(data => Boolean(data.ics_content) !== Boolean(data.url), {
+    message: 'Provide either a calendar file or a URL',
+  });
+
+const TimetableLectureSchema = z.object({
+  lecture_name: z
+    .string()
+    .min(1, 'Lecture name is required')
+    .max(35, 'Lecture name must be 35 characters or less'),
+  start_time: z.string().datetime('Invalid start time format'),
+  end_time: z.string().datetime('Invalid end time format'),
+  venue: z
+    .string()
+    .max(200, 'Venue must be 200 characters or less')
+    .nullable()
+    .optional(),
+  recurring_pattern: RecurringPatternSchema.nullable(),
+});
+
+// Schema for importing the (user-edited) plan returned by the preview
+export const TimetableImportSchema = z.object({
+  courses: z
+    .array(
+      z.object({
+        course_name: z
+          .string()
+          .min(1, 'Course name is required')
+          .max(200, 'Course name must be 200 characters or less'),
+        course_code: z
+          .string()
+          .max(50, 'Course code must be 50 characters or less')
+          .nullable()
+          .optional(),
+        existing_course_id: z
+          .string()
+          .uuid('Invalid course ID format')
+          .nullable()
+          .optional(),
+        lectures: z.array(TimetableLectureSchema).min(1).max(100),
+      }),
+    )
+    .min(1, 'Select at least one course to import')
+    .max(50),
+});
@@ -1,4 +1,5 @@
 import { z } from 'zod';
+import { SUPPORTED_LOCALES } from '../i18n.ts';
 
 export const CheckUsernameSchema = z.object({
   username: z
@@ -60,6 +61,8 @@ export const UpdateUserProfileSchema = z.object({
     .max(100, 'University name must be 100 characters or less')
     .optional(),
   bio: z.string().max(500, 'Bio must be 500 characters or less').optional(),
+  locale: z.enum(SUPPORTED_LOCALES).nullable().optional(),
+  device_locale: z.enum(SUPPORTED_LOCALES).optional(),
 });
 
 // Schema for suspending a user
@@ -55,6 +55,10 @@ export async function sendPushNotification(
     priority?: 'default' | 'normal' | 'high';
     categoryId?: string;
     badge?: number;
+    // Android notification channel; the app creates 'high_priority' for escalations
+    channelId?: string;
+    // iOS: 'time-sensitive' breaks through Focus modes
+    interruptionLevel?: 'active' | 'passive' | 'time-sensitive';
     userId?: string; // Optional: for queueing notifications when quota exhausted
   },
 ): Promise<NotificationResult> {
@@ -119,6 +123,8 @@ export async function sendPushNotification(
       priority: options?.priority || 'high',
       categoryId: options?.categoryId,
       badge: options?.badge,
+      channelId: options?.channelId,
+      interruptionLevel: options?.interruptionLevel,
     });
   }
 
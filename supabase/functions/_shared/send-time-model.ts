@@ -0,0 +1,205 @@
+/**
+ * Send Time Model
+ *
+ * Learns, per user and per type of flexible reminder, the local hour at
+ * which their reminders actually get acted on. Each past send scores from 0
+ * (ignored) to 1 (acted on straight away) using reminder_analytics. Hours are
+ * compared on those scores, smoothed with the neighbouring hours and pulled
+ * towards the user's overall rate until an hour has enough sends of its own.
+ *
+ * learn-reminder-send-times stores the result in reminder_send_windows, and
+ * get_optimal_reminder_hour hands the learned hour to the schedulers.
+ */
+
+// Reminders that can move to another hour without missing anything
+export const FLEXIBLE_REMINDER_TYPES = [
+  'spaced_repetition',
+  'daily_summary',
+] as const;
+export type FlexibleReminderType = (typeof FLEXIBLE_REMINDER_TYPES)[number];
+
+// Hours the flexible reminders go out at when nothing has been learned
+export const FIXED_SEND_HOURS: Record<FlexibleReminderType, number> = {
+  spaced_repetition: 10,
+  daily_summary: 8,
+};
+
+export const SEND_TIME_LOOKBACK_DAYS = 90;
+
+// An action later than this after the send is not credited to its send time
+export const ACTION_WINDOW_MS = 6 * 60 * 60 * 1000;
+
+// Sends needed before any hour is picked, and around the picked hour
+const MIN_SENDS = 12;
+const MIN_WINDOW_SENDS = 3;
+// Weight of the user's overall rate in each hour's score, in sends
+const PRIOR_WEIGHT = 4;
+const NEIGHBOUR_WEIGHT = 0.5;
+// Sends needed at both hours before the lift between them is reported
+const MIN_LIFT_SENDS = 3;
+
+export interface PastSend {
+  sentAt: Date;
+  score: number;
+}
+
+export interface ReminderAction {
+  actedAt: Date;
+  opened: boolean | null;
+  effectivenessScore: number | null;
+}
+
+export interface HourScore {
+  hour: number;
+  rate: number;
+  sends: number;
+}
+
+export interface SendTimeWindow {
+  bestHour: number | null;
+  hourScores: HourScore[];
+  sampleSize: number;
+  baselineRate: number | null;
+  learnedRate: number | null;
+  fixedRate: number | null;
+  lift: number | null;
+}
+
+export interface LearnSendTimesOptions {
+  timeZone: string;
+  fixedHour: number;
+  isQuietHour?: (hour: number) => boolean;
+}
+
+const round = (value: number) => Math.round(value * 1000) / 1000;
+
+/**
+ * Local hour a reminder was sent at. Sends are jittered by up to half an
+ * hour either side of the hour they were planned for, so this rounds to the
+ * nearest hour.
+ */
+export function localSendHour(sentAt: Date, timeZone: string): number {
+  let parts: Intl.DateTimeFormatPart[];
+  try {
+    parts = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hour: 'numeric',
+      minute: 'numeric',
+      hourCycle: 'h23',
+    }).formatToParts(sentAt);
+  } catch {
+    return localSendHour(sentAt, 'UTC');
+  }
+
+  const hour = Number(parts.find(p => p.type === 'hour')?.value ?? 0);
+  const minute = Number(parts.find(p => p.type === 'minute')?.value ?? 0);
+  return (hour + (minute >= 30 ? 1 : 0)) % 24;
+}
+
+/** How well a send worked, from the actions taken on it */
+export function scoreSend(sentAt: Date, actions: ReminderAction[]): number {
+  let score = 0;
+  for (const action of actions) {
+    const delay = action.actedAt.getTime() - sentAt.getTime();
+    if (delay < 0 || delay > ACTION_WINDOW_MS) continue;
+    score = Math.max(
+      score,
+      action.effectivenessScore ?? (action.opened ? 0.5 : 0),
+    );
+  }
+  return Math.min(score, 1);
+}
+
+/** Learn the hour a user best responds to one type of reminder */
+export function learnSendTimes(
+  sends: PastSend[],
+  { timeZone, fixedHour, isQuietHour = () => false }: LearnSendTimesOptions,
+): SendTimeWindow {
+  const totals = new Array<number>(24).fill(0);
+  const counts = new Array<number>(24).fill(0);
+  for (const send of sends) {
+    const hour = localSendHour(send.sentAt, timeZone);
+    totals[hour] += send.score;
+    counts[hour] += 1;
+  }
+
+  const sampleSize = sends.length;
+  if (sampleSize === 0) {
+    return {
+      bestHour: null,
+      hourScores: [],
+      sampleSize,
+      baselineRate: null,
+      learnedRate: null,
+      fixedRate: null,
+      lift: null,
+    };
+  }
+
+  const baselineRate =
+    totals.reduce((sum, total) => sum + total, 0) / sampleSize;
+  const around = (values: number[], hour: number) =>
+    values[hour] +
+    NEIGHBOUR_WEIGHT * (values[(hour + 23) % 24] + values[(hour + 1) % 24]);
+
+  const smoothed = totals.map((_, hour) => {
+    const windowSends = around(counts, hour);
+    return {
+      hour,
+      windowSends,
+      rate:
+        (around(totals, hour) + PRIOR_WEIGHT * baselineRate) /
+        (windowSends + PRIOR_WEIGHT),
+    };
+  });
+
+  // Hours next to ones with sends can be picked too, so the window can move
+  // an hour at a time towards times the user has not been sent at yet. Ties
+  // go to the hour closest to the fixed one.
+  const distance = (hour: number) => {
+    const diff = Math.abs(hour - fixedHour);
+    return Math.min(diff, 24 - diff);
+  };
+  const candidates =
+    sampleSize >= MIN_SENDS
+      ? smoothed.filter(
+          slot =>
+            slot.windowSends >= MIN_WINDOW_SENDS && !isQuietHour(slot.hour),
+        )
+      : [];
+  const best = candidates.reduce<(typeof smoothed)[number] | null>(
+    (current, slot) =>
+      !current ||
+      slot.rate > current.rate ||
+      (slot.rate === current.rate &&
+        distance(slot.hour) < distance(current.hour))
+        ? slot
+        : current,
+    null,
+  );
+
+  // Lift compares what sends at the two hours actually scored
+  const rawRate = (hour: number) =>
+    counts[hour] >= MIN_LIFT_SENDS ? totals[hour] / counts[hour] : null;
+  const learnedRate = best ? rawRate(best.hour) : null;
+  const fixedRate = rawRate(fixedHour);
+
+  return {
+    bestHour: best?.hour ?? null,
+    hourScores: smoothed
+      .filter(slot => counts[slot.hour] > 0)
+      .map(slot => ({
+        hour: slot.hour,
+        rate: round(slot.rate),
+        sends: counts[slot.hour],
+      })),
+    sampleSize,
+    baselineRate: round(baselineRate),
+    learnedRate: learnedRate === null ? null : round(learnedRate),
+    fixedRate: fixedRate === null ? null : round(fixedRate),
+    lift:
+      learnedRate !== null && fixedRate
+        ? round(learnedRate / fixedRate - 1)
+        : null,
+  };
+}
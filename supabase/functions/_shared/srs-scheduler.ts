@@ -0,0 +1,287 @@
+/**
+ * Pluggable SRS Schedulers
+ *
+ * Each review is stored as a row in srs_performance. A scheduler reads the
+ * session's previous rows and decides the next interval:
+ * - sm2: the calculate_next_srs_interval RPC (ease factor + repetition number)
+ * - fsrs: stability/difficulty/retrievability (see fsrs.ts)
+ *
+ * The algorithm and desired retention come from users.srs_preferences.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import {
+  DEFAULT_DESIRED_RETENTION,
+  normalizeDesiredRetention,
+  qualityToRating,
+  replayReviews,
+  reviewCard,
+  type FSRSState,
+} from './fsrs.ts';
+
+export type SRSAlgorithm = 'sm2' | 'fsrs';
+
+export const SRS_ALGORITHMS: readonly SRSAlgorithm[] = ['sm2', 'fsrs'];
+export const DEFAULT_SRS_ALGORITHM: SRSAlgorithm = 'sm2';
+
+const DEFAULT_EASE_FACTOR = 2.5;
+const MIN_EASE_FACTOR = 1.3;
+const MAX_EASE_FACTOR = 3.0;
+const MAX_INTERVAL_DAYS = 365;
+
+/** The srs_performance columns a scheduler needs */
+export interface SRSReviewRecord {
+  review_date: string;
+  quality_rating: number;
+  ease_factor: number | null;
+  next_interval_days: number | null;
+  repetition_number: number | null;
+  scheduler?: SRSAlgorithm | null;
+  stability?: number | null;
+  difficulty?: number | null;
+}
+
+export const SRS_REVIEW_RECORD_COLUMNS =
+  'review_date, quality_rating, ease_factor, next_interval_days, repetition_number, scheduler, stability, difficulty';
+
+export interface SRSReviewInput {
+  qualityRating: number;
+  reviewedAt: Date;
+  /** Several reviews of the same session within a short window */
+  isCramming?: boolean;
+}
+
+export interface SRSScheduleResult {
+  scheduler: SRSAlgorithm;
+  /** Interval that was in effect when this review happened */
+  intervalDays: number;
+  nextIntervalDays: number;
+  easeFactor: number;
+  repetitionNumber: number;
+  stability: number | null;
+  difficulty: number | null;
+  retrievability: number | null;
+}
+
+export interface SRSScheduler {
+  readonly algorithm: SRSAlgorithm;
+  /**
+   * @param history - The session's previous reviews, oldest first
+   */
+  schedule(
+    history: SRSReviewRecord[],
+    review: SRSReviewInput,
+  ): Promise<SRSScheduleResult>;
+}
+
+export interface SRSSchedulerSettings {
+  algorithm: SRSAlgorithm;
+  desiredRetention: number;
+  /** Per-user FSRS weights; the defaults are used when absent */
+  fsrsParameters?: number[] | null;
+}
+
+/**
+ * Previous SM-2 parameters, reset to defaults when out of bounds
+ */
+function lastSM2Parameters(last: SRSReviewRecord | undefined) {
+  if (!last) {
+    return {
+      currentInterval: 1,
+      easeFactor: DEFAULT_EASE_FACTOR,
+      repetitionNumber: 1,
+    };
+  }
+
+  let easeFactor = last.ease_factor || DEFAULT_EASE_FACTOR;
+  if (easeFactor < MIN_EASE_FACTOR || easeFactor > MAX_EASE_FACTOR) {
+    console.warn(`Invalid ease factor ${easeFactor}, resetting to 2.5`);
+    easeFactor = DEFAULT_EASE_FACTOR;
+  }
+
+  let currentInterval = last.next_interval_days || 1;
+  if (currentInterval < 1 || currentInterval > MAX_INTERVAL_DAYS) {
+    console.warn(`Invalid interval ${currentInterval}, resetting to 1`);
+    currentInterval = 1;
+  }
+
+  const previousRepetition = last.repetition_number || 0;
+  const repetitionNumber = previousRepetition < 0 ? 1 : previousRepetition + 1;
+
+  return { currentInterval, easeFactor, repetitionNumber };
+}
+
+/**
+ * SM-2 via the calculate_next_srs_interval RPC
+ */
+export function createSM2Scheduler(
+  supabaseClient: SupabaseClient,
+): SRSScheduler {
+  return {
+    algorithm: 'sm2',
+    async schedule(history, review) {
+      const { currentInterval, easeFactor, repetitionNumber } =
+        lastSM2Parameters(history[history.length - 1]);
+
+      // When cramming, reduce ease factor slightly to prevent over-confidence
+      const adjustedEaseFactor = review.isCramming
+        ? Math.max(MIN_EASE_FACTOR, easeFactor - 0.1)
+        : easeFactor;
+
+      const { data: calculation, error } = await supabaseClient.rpc(
+        'calculate_next_srs_interval',
+        {
+          p_quality_rating: review.qualityRating,
+          p_current_interval: currentInterval,
+          p_ease_factor: adjustedEaseFactor,
+          p_repetition_number: repetitionNumber,
+        },
+      );
+
+      if (error) throw error;
+
+      return {
+        scheduler: 'sm2',
+        intervalDays: currentInterval,
+        nextIntervalDays: calculation?.[0]?.next_interval || 1,
+        easeFactor: calculation?.[0]?.new_ease_factor || DEFAULT_EASE_FACTOR,
+        repetitionNumber,
+        stability: null,
+        difficulty: null,
+        retrievability: null,
+      };
+    },
+  };
+}
+
+/**
+ * FSRS state after the last review. Reviews scheduled by SM-2 carry no
+ * stability/difficulty, so the state is rebuilt by replaying the history.
+ */
+export function fsrsStateFromHistory(
+  history: SRSReviewRecord[],
+  parameters?: number[] | null,
+): FSRSState | null {
+  const last = history[history.length - 1];
+  if (!last) return null;
+
+  if (
+    last.scheduler === 'fsrs' &&
+    typeof last.stability === 'number' &&
+    typeof last.difficulty === 'number'
+  ) {
+    return {
+      stability: Number(last.stability),
+      difficulty: Number(last.difficulty),
+      lastReviewAt: new Date(last.review_date),
+      reps: history.length,
+      lapses: history.filter(record => record.quality_rating <= 2).length,
+    };
+  }
+
+  return replayReviews(
+    history.map(record => ({
+      reviewedAt: new Date(record.review_date),
+      quality: record.quality_rating,
+    })),
+    { parameters: parameters ?? undefined },
+  );
+}
+
+/**
+ * FSRS - same-day reviews are handled by the model itself (low elapsed time
+ * means high retrievability and little stability gain), so cramming needs no
+ * special case
+ */
+export function createFSRSScheduler(
+  settings: Pick<SRSSchedulerSettings, 'desiredRetention' | 'fsrsParameters'>,
+): SRSScheduler {
+  return {
+    algorithm: 'fsrs',
+    schedule(history, review) {
+      const last = history[history.length - 1];
+      const state = fsrsStateFromHistory(history, settings.fsrsParameters);
+      const result = reviewCard(
+        state,
+        qualityToRating(review.qualityRating),
+        review.reviewedAt,
+        {
+          parameters: settings.fsrsParameters ?? undefined,
+          desiredRetention: settings.desiredRetention,
+          maximumIntervalDays: MAX_INTERVAL_DAYS,
+        },
+      );
+
+      return Promise.resolve({
+        scheduler: 'fsrs',
+        intervalDays: last?.next_interval_days || 1,
+        nextIntervalDays: result.nextIntervalDays,
+        // Carried forward so ease-based statistics keep working
+        easeFactor: last?.ease_factor || DEFAULT_EASE_FACTOR,
+        repetitionNumber: (last?.repetition_number || 0) + 1,
+        stability: result.state.stability,
+        difficulty: result.state.difficulty,
+        retrievability: result.retrievability,
+      });
+    },
+  };
+}
+
+export function createSRSScheduler(
+  settings: SRSSchedulerSettings,
+  supabaseClient: SupabaseClient,
+): SRSScheduler {
+  return settings.algorithm === 'fsrs'
+    ? createFSRSScheduler(settings)
+    : createSM2Scheduler(supabaseClient);
+}
+
+/**
+ * Read the user's scheduler choice from users.srs_preferences, plus their
+ * latest fitted FSRS parameters (see fsrs-optimization-job.ts)
+ */
+export async function getSRSSchedulerSettings(
+  supabaseClient: SupabaseClient,
+  userId: string,
+): Promise<SRSSchedulerSettings> {
+  const { data } = await supabaseClient
+    .from('users')
+    .select('srs_preferences')
+    .eq('id', userId)
+    .maybeSingle();
+
+  const preferences = (data?.srs_preferences ?? {}) as {
+    algorithm?: string;
+    desiredRetention?: number;
+  };
+
+  const algorithm = SRS_ALGORITHMS.includes(
+    preferences.algorithm as SRSAlgorithm,
+  )
+    ? (preferences.algorithm as SRSAlgorithm)
+    : DEFAULT_SRS_ALGORITHM;
+
+  let fsrsParameters: number[] | null = null;
+  if (algorithm === 'fsrs') {
+    const { data: fitted } = await supabaseClient
+      .from('srs_scheduler_parameters')
+      .select('parameters')
+      .eq('user_id', userId)
+      .eq('algorithm', 'fsrs')
+      .order('version', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    fsrsParameters = Array.isArray(fitted?.parameters)
+      ? (fitted.parameters as number[])
+      : null;
+  }
+
+  return {
+    algorithm,
+    desiredRetention: normalizeDesiredRetention(
+      preferences.desiredRetention ?? DEFAULT_DESIRED_RETENTION,
+    ),
+    fsrsParameters,
+  };
+}
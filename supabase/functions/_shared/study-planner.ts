@@ -0,0 +1,353 @@
+/**
+ * Study Planner
+ *
+ * Proposes study blocks in a user's free time before each deadline. Free
+ * time is the user's preferred study times (SRS preferences), or 09:00-21:00
+ * when none are set, minus quiet hours, lectures and other study sessions.
+ * Times of day are wall-clock times in the user's time zone.
+ *
+ * Items are planned earliest deadline first. Each pass gives every item at
+ * most one block a day so the work is spread out; later passes fill what is
+ * still left.
+ */
+
+import { timeZoneOffset, zonedTimeToDate } from './ical.ts';
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+
+/** Effort assumed for an assignment without an estimate */
+export const DEFAULT_EFFORT_MINUTES = 120;
+export const PLAN_HORIZON_DAYS = 28;
+/** Assumed length of a study session without a duration */
+export const DEFAULT_SESSION_MINUTES = 60;
+
+const DEFAULT_STUDY_WINDOW = { start: '09:00', end: '21:00' };
+const BLOCK_MINUTES = 60;
+const MIN_BLOCK_MINUTES = 30;
+// Leftover effort shorter than this is not worth a block
+const NEGLIGIBLE_MINUTES = 5;
+// Kept free around lectures, sessions and other blocks
+const BREAK_MINUTES = 15;
+const MAX_DAILY_STUDY_MINUTES = 240;
+
+/** Same shape as SRSUserPreferences.preferredStudyTimes */
+export interface StudyTimeSlot {
+  start: string; // HH:MM
+  end: string; // HH:MM
+  days: number[]; // 0-6 (Sunday-Saturday)
+}
+
+export interface Interval {
+  start: number;
+  end: number;
+}
+
+export interface PlannerItem {
+  id: string;
+  course_id: string;
+  title: string;
+  due_date: string;
+  /** Effort still to be planned */
+  remaining_minutes: number;
+}
+
+export interface PlannerOptions {
+  now: Date;
+  timeZone: string;
+  preferredStudyTimes?: StudyTimeSlot[] | null;
+  quietHours?: { start: string; end: string } | null;
+  lectures: Interval[];
+  /** Study sessions already on the calendar; count towards the daily cap */
+  sessions: Interval[];
+}
+
+export interface PlannedBlock {
+  item_id: string;
+  course_id: string;
+  title: string;
+  start: string;
+  end: string;
+  duration_minutes: number;
+  due_date: string;
+}
+
+export interface UnscheduledItem {
+  item_id: string;
+  title: string;
+  due_date: string;
+  minutes: number;
+}
+
+export interface StudyPlan {
+  blocks: PlannedBlock[];
+  unscheduled: UnscheduledItem[];
+}
+
+interface PlannerDay {
+  free: Interval[];
+  studyMinutes: number;
+}
+
+/** Minutes since midnight of "HH:MM" or "HH:MM:SS" */
+function parseTimeOfDay(value: string): number {
+  const [hours, minutes] = value.split(':').map(Number);
+  return (hours || 0) * 60 + (minutes || 0);
+}
+
+/** Wall-clock midnight (as a UTC timestamp) of the day an instant falls on */
+function localMidnight(instant: number, timeZone: string): number {
+  const wallClock = instant + timeZoneOffset(instant, timeZone);
+  return Math.floor(wallClock / DAY_MS) * DAY_MS;
+}
+
+/** Instants a daily window spans; an end before the start runs past midnight */
+function windowOn(
+  midnight: number,
+  start: string,
+  end: string,
+  timeZone: string,
+): Interval {
+  const startMinutes = parseTimeOfDay(start);
+  let endMinutes = parseTimeOfDay(end);
+  if (endMinutes <= startMinutes) endMinutes += 24 * 60;
+  return {
+    start: zonedTimeToDate(
+      midnight + startMinutes * MINUTE_MS,
+      timeZone,
+    ).getTime(),
+    end: zonedTimeToDate(midnight + endMinutes * MINUTE_MS, timeZone).getTime(),
+  };
+}
+
+function subtract(free: Interval[], busy: Interval): Interval[] {
+  return free.flatMap(interval => {
+    if (busy.end <= interval.start || busy.start >= interval.end) {
+      return [interval];
+    }
+    const parts: Interval[] = [];
+    if (busy.start > interval.start) {
+      parts.push({ start: interval.start, end: busy.start });
+    }
+    if (busy.end < interval.end) {
+      parts.push({ start: busy.end, end: interval.end });
+    }
+    return parts;
+  });
+}
+
+function ceilTo(instant: number, stepMinutes: number): number {
+  const step = stepMinutes * MINUTE_MS;
+  return Math.ceil(instant / step) * step;
+}
+
+function buildDays(options: PlannerOptions, until: number): PlannerDay[] {
+  const { timeZone } = options;
+  const now = ceilTo(options.now.getTime(), 5);
+  const slots = options.preferredStudyTimes?.length
+    ? options.preferredStudyTimes
+    : null;
+  const busy = [...options.lectures, ...options.sessions].map(interval => ({
+    start: interval.start - BREAK_MINUTES * MINUTE_MS,
+    end: interval.end + BREAK_MINUTES * MINUTE_MS,
+  }));
+
+  const days: PlannerDay[] = [];
+  for (
+    let midnight = localMidnight(now, timeZone);
+    zonedTimeToDate(midnight, timeZone).getTime() < until;
+    midnight += DAY_MS
+  ) {
+    const weekday = new Date(midnight).getUTCDay();
+    let free = (
+      slots
+        ? slots.filter(slot => slot.days.includes(weekday))
+        : [DEFAULT_STUDY_WINDOW]
+    ).map(slot => windowOn(midnight, slot.start, slot.end, timeZone));
+
+    if (options.quietHours) {
+      const { start, end } = options.quietHours;
+      // Quiet hours that started the evening before can reach into this day
+      for (const day of [midnight - DAY_MS, midnight]) {
+        free = subtract(free, windowOn(day, start, end, timeZone));
+      }
+    }
+    free = subtract(free, { start: -Infinity, end: now });
+    for (const interval of busy) free = subtract(free, interval);
+
+    const dayStart = zonedTimeToDate(midnight, timeZone).getTime();
+    const dayEnd = zonedTimeToDate(midnight + DAY_MS, timeZone).getTime();
+    const studyMinutes = options.sessions
+      .filter(session => session.start >= dayStart && session.start < dayEnd)
+      .reduce(
+        (sum, session) => sum + (session.end - session.start) / MINUTE_MS,
+        0,
+      );
+
+    days.push({
+      free: free.sort((a, b) => a.start - b.start),
+      studyMinutes,
+    });
+  }
+  return days;
+}
+
+/** Place one block for an item on a day; the block's length or 0 */
+function placeBlock(
+  day: PlannerDay,
+  item: PlannerItem,
+  remaining: number,
+  dueAt: number,
+  blocks: PlannedBlock[],
+): number {
+  const target = Math.min(
+    BLOCK_MINUTES,
+    remaining,
+    MAX_DAILY_STUDY_MINUTES - day.studyMinutes,
+  );
+  const shortest = Math.min(MIN_BLOCK_MINUTES, remaining);
+  if (target < shortest) return 0;
+
+  for (const interval of day.free) {
+    const start = ceilTo(interval.start, 5);
+    const available = (Math.min(interval.end, dueAt) - start) / MINUTE_MS;
+    if (available < shortest) continue;
+
+    const minutes = Math.floor(Math.min(target, available));
+    const end = start + minutes * MINUTE_MS;
+    blocks.push({
+      item_id: item.id,
+      course_id: item.course_id,
+      title: item.title,
+      start: new Date(start).toISOString(),
+      end: new Date(end).toISOString(),
+      duration_minutes: minutes,
+      due_date: item.due_date,
+    });
+    day.free = subtract(day.free, {
+      start: interval.start,
+      end: end + BREAK_MINUTES * MINUTE_MS,
+    });
+    day.studyMinutes += minutes;
+    return minutes;
+  }
+  return 0;
+}
+
+/**
+ * Propose study blocks that cover each item's remaining effort before it is
+ * due; effort that does not fit is reported as unscheduled
+ */
+export function planStudyBlocks(
+  items: PlannerItem[],
+  options: PlannerOptions,
+): StudyPlan {
+  const pending = items
+    .filter(item => item.remaining_minutes >= NEGLIGIBLE_MINUTES)
+    .sort((a, b) => Date.parse(a.due_date) - Date.parse(b.due_date));
+  if (pending.length === 0) return { blocks: [], unscheduled: [] };
+
+  const lastDue = Math.max(...pending.map(item => Date.parse(item.due_date)));
+  const horizonEnd = options.now.getTime() + PLAN_HORIZON_DAYS * DAY_MS;
+  const days = buildDays(options, Math.min(lastDue, horizonEnd));
+
+  const remaining = new Map(
+    pending.map(item => [item.id, item.remaining_minutes]),
+  );
+  const blocks: PlannedBlock[] = [];
+
+  let placedInPass = true;
+  while (placedInPass) {
+    placedInPass = false;
+    for (const item of pending) {
+      const dueAt = Date.parse(item.due_date);
+      for (const day of days) {
+        const left = remaining.get(item.id)!;
+        if (left < NEGLIGIBLE_MINUTES) break;
+        const placed = placeBlock(day, item, left, dueAt, blocks);
+        if (placed > 0) {
+          remaining.set(item.id, left - placed);
+          placedInPass = true;
+        }
+      }
+    }
+  }
+
+  blocks.sort((a, b) => Date.parse(a.start) - Date.parse(b.start));
+  const unscheduled = pending
+    .filter(item => remaining.get(item.id)! >= NEGLIGIBLE_MINUTES)
+    .map(item => ({
+      item_id: item.id,
+      title: item.title,
+      due_date: item.due_date,
+      minutes: remaining.get(item.id)!,
+    }));
+
+  return { blocks, unscheduled };
+}
+
+export interface PlannedSessionRow {
+  id: string;
+  session_date: string;
+  duration_minutes: number | null;
+  status: string | null;
+  plan_assignment_id: string;
+  plan_due_date: string | null;
+}
+
+export interface PlannedSessionReview {
+  /** Blocks whose time passed without being completed */
+  missed: string[];
+  /** Upcoming blocks planned for a deadline that moved or no longer applies */
+  outdated: string[];
+  /** Minutes per assignment done or still validly planned */
+  plannedMinutes: Map<string, number>;
+}
+
+/**
+ * Sort a user's planned sessions into ones that still count towards their
+ * assignment and ones the next plan should replace
+ *
+ * @param dueDates - Current due date of each assignment still being planned
+ */
+export function reviewPlannedSessions(
+  sessions: PlannedSessionRow[],
+  dueDates: Map<string, string>,
+  now: Date,
+): PlannedSessionReview {
+  const review: PlannedSessionReview = {
+    missed: [],
+    outdated: [],
+    plannedMinutes: new Map(),
+  };
+
+  for (const session of sessions) {
+    const minutes = session.duration_minutes ?? DEFAULT_SESSION_MINUTES;
+    const end = Date.parse(session.session_date) + minutes * MINUTE_MS;
+    const dueDate = dueDates.get(session.plan_assignment_id);
+    const isDone = session.status === 'completed';
+
+    if (!isDone && end <= now.getTime()) {
+      if (dueDate) review.missed.push(session.id);
+      continue;
+    }
+
+    const deadlineMoved =
+      !dueDate ||
+      !session.plan_due_date ||
+      Date.parse(session.plan_due_date) !== Date.parse(dueDate);
+    if (!isDone && deadlineMoved) {
+      review.outdated.push(session.id);
+      continue;
+    }
+
+    if (dueDate) {
+      review.plannedMinutes.set(
+        session.plan_assignment_id,
+        (review.plannedMinutes.get(session.plan_assignment_id) ?? 0) + minutes,
+      );
+    }
+  }
+
+  return review;
+}
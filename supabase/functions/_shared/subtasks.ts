@@ -0,0 +1,34 @@
+/**
+ * Assignment Subtasks
+ *
+ * assignments.subtasks is an ordered checklist of {id, title, due_date,
+ * completed_at}. Progress is the share of subtasks with completed_at set;
+ * assignments without subtasks have no progress.
+ */
+
+export interface Subtask {
+  id: string;
+  title: string;
+  due_date?: string | null;
+  completed_at?: string | null;
+}
+
+export interface SubtaskProgress {
+  completed: number;
+  total: number;
+  /** 0-100, rounded down so 100 only means every subtask is done */
+  percent: number;
+}
+
+export function subtaskProgress(subtasks: unknown): SubtaskProgress | null {
+  if (!Array.isArray(subtasks) || subtasks.length === 0) return null;
+
+  const completed = (subtasks as Subtask[]).filter(
+    subtask => !!subtask?.completed_at,
+  ).length;
+  return {
+    completed,
+    total: subtasks.length,
+    percent: Math.floor((completed / subtasks.length) * 100),
+  };
+}
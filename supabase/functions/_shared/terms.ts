@@ -0,0 +1,143 @@
+/**
+ * Academic Terms
+ *
+ * Courses can belong to a term (terms table). Term dates are calendar days
+ * in the user's time zone; a term runs from the start of start_date to the
+ * end of end_date. Courses in an archived term are hidden from the home
+ * screen and calendar.
+ */
+
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.39.3';
+import { timeZoneOffset, zonedTimeToDate } from './ical.ts';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface TermBreak {
+  name: string;
+  start_date: string;
+  end_date: string;
+}
+
+export interface TermRow {
+  id: string;
+  start_date: string;
+  end_date: string;
+  breaks: TermBreak[] | null;
+  archived_at: string | null;
+}
+
+export const TERM_COLUMNS = 'id, start_date, end_date, breaks, archived_at';
+
+/** The instants a term starts and ends at in the given zone */
+export function getTermWindow(
+  term: Pick<TermRow, 'start_date' | 'end_date'>,
+  timeZone: string,
+): { start: Date; end: Date } {
+  const start = zonedTimeToDate(
+    Date.parse(`${term.start_date}T00:00:00Z`),
+    timeZone,
+  );
+  const nextDay = zonedTimeToDate(
+    Date.parse(`${term.end_date}T00:00:00Z`) + DAY_MS,
+    timeZone,
+  );
+  return { start, end: new Date(nextDay.getTime() - 1) };
+}
+
+/** YYYY-MM-DD of an instant in the given zone */
+export function toLocalDate(date: Date, timeZone: string): string {
+  const time = date.getTime();
+  return new Date(time + timeZoneOffset(time, timeZone))
+    .toISOString()
+    .slice(0, 10);
+}
+
+export function isDuringTermBreak(
+  date: Date,
+  term: Pick<TermRow, 'breaks'>,
+  timeZone: string,
+): boolean {
+  if (!term.breaks?.length) return false;
+  const day = toLocalDate(date, timeZone);
+  return term.breaks.some(
+    termBreak => day >= termBreak.start_date && day <= termBreak.end_date,
+  );
+}
+
+/**
+ * Terms of the given courses, keyed by course id; courses outside a term
+ * are left out
+ */
+export async function getCourseTerms(
+  supabaseClient: SupabaseClient,
+  courseIds: string[],
+): Promise<Map<string, TermRow>> {
+  const terms = new Map<string, TermRow>();
+  const ids = [...new Set(courseIds.filter(Boolean))];
+  if (ids.length === 0) return terms;
+
+  const { data, error } = await supabaseClient
+    .from('courses')
+    .select(`id, terms(${TERM_COLUMNS})`)
+    .in('id', ids)
+    .not('term_id', 'is', null);
+
+  if (error) throw error;
+
+  for (const row of (data ?? []) as unknown as {
+    id: string;
+    terms: TermRow | null;
+  }[]) {
+    if (row.terms) terms.set(row.id, row.terms);
+  }
+  return terms;
+}
+
+/** Ids of the user's courses that belong to an archived term */
+export async function getArchivedCourseIds(
+  supabaseClient: SupabaseClient,
+  userId: string,
+): Promise<string[]> {
+  const { data, error } = await supabaseClient
+    .from('courses')
+    .select('id, terms!inner(archived_at)')
+    .eq('user_id', userId)
+    .not('terms.archived_at', 'is', null);
+
+  if (error) throw error;
+  return (data ?? []).map(row => row.id as string);
+}
+
+/**
+ * PostgREST filter for .or() that keeps rows outside the given courses,
+ * including rows without a course
+ */
+export function excludeCoursesFilter(courseIds: string[]): string {
+  return `course_id.is.null,course_id.not.in.(${courseIds.join(',')})`;
+}
+
+/**
+ * When the term of a course ends, in the user's time zone; null if the
+ * course is not in a term
+ */
+export async function getCourseTermEnd(
+  supabaseClient: SupabaseClient,
+  userId: string,
+  courseId: string | null | undefined,
+): Promise<Date | null> {
+  if (!courseId) return null;
+
+  const [terms, userRes] = await Promise.all([
+    getCourseTerms(supabaseClient, [courseId]),
+    supabaseClient
+      .from('users')
+      .select('timezone')
+      .eq('id', userId)
+      .maybeSingle(),
+  ]);
+
+  const term = terms.get(courseId);
+  if (!term) return null;
+  const timeZone = (userRes.data?.timezone as string | null) || 'UTC';
+  return getTermWindow(term, timeZone).end;
+}
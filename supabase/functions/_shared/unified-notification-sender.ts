@@ -25,6 +25,8 @@ export interface UnifiedNotificationParams {
     priority?: 'default' | 'normal' | 'high';
     categoryId?: string;
     badge?: number;
+    channelId?: string;
+    interruptionLevel?: 'active' | 'passive' | 'time-sensitive';
   };
   // Optional: Pass preferences to avoid refetch (optimization)
   preferences?: Awaited<ReturnType<typeof getUserNotificationPreferences>>;
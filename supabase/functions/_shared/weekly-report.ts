@@ -0,0 +1,653 @@
+/**
+ * Weekly Reports
+ *
+ * A report week runs Monday to Sunday in the user's timezone and is due
+ * once it is Sunday evening there. The report is stored as report_data in
+ * the shape the app's WeeklyReportData expects, plus a narrative: the
+ * published report_templates for the week's scenario (first week,
+ * improvement, decline, high or low activity), one per category, with their
+ * {{variables}} filled in.
+ */
+
+import { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.0.0';
+import { addDays, getStreakSummary, localDate } from './achievements.ts';
+import { zonedTimeToDate } from './ical.ts';
+import { ServerMessageKey, SupportedLocale, translate } from './i18n.ts';
+
+/** Local hour on Sunday from which the week's report is sent */
+export const REPORT_LOCAL_HOUR = 18;
+
+// Narrative sections, in the order they appear
+export const TEMPLATE_CATEGORIES = [
+  'general',
+  'academic_performance',
+  'time_management',
+  'completion_rates',
+] as const;
+
+// Activity within a fifth of last week counts as steady
+const CHANGE_THRESHOLD = 0.2;
+// A completed task weighs the same as half an hour of focused study
+const MINUTES_PER_TASK = 30;
+const HIGH_ACTIVITY_MINUTES = 300;
+const HIGH_ACTIVITY_TASKS = 10;
+const LOW_COMPLETION_RATE = 0.7;
+const LOW_PRODUCTIVITY_SCORE = 50;
+
+const TASK_TABLES = [
+  { table: 'assignments', type: 'assignment', dateColumn: 'due_date' },
+  { table: 'lectures', type: 'lecture', dateColumn: 'start_time' },
+  {
+    table: 'study_sessions',
+    type: 'study_session',
+    dateColumn: 'session_date',
+  },
+] as const;
+
+export type ReportScenario =
+  | 'first_week'
+  | 'high_activity'
+  | 'low_activity'
+  | 'improvement'
+  | 'decline';
+
+export interface ReportWeek {
+  /** YYYY-MM-DD, Monday */
+  weekStart: string;
+  /** YYYY-MM-DD, Sunday */
+  weekEnd: string;
+  /** Start of Monday in the user's timezone */
+  start: Date;
+  /** Start of the following Monday */
+  end: Date;
+}
+
+export interface ReportTemplate {
+  id: string;
+  category: string;
+  scenario: string;
+  template_content: string;
+  updated_at?: string | null;
+}
+
+export interface ReportNarrative {
+  category: string;
+  template_id: string;
+  text: string;
+}
+
+export interface DailyActivity {
+  date: string;
+  /** Minutes */
+  study_time: number;
+  tasks_completed: number;
+  focus_score: number;
+}
+
+export interface WeeklyReportData {
+  scenario: ReportScenario;
+  academic_performance: {
+    /** Minutes */
+    total_study_time: number;
+    completed_tasks: number;
+    average_session_duration: number;
+    subject_breakdown: {
+      subject: string;
+      time_spent: number;
+      tasks_completed: number;
+      average_score?: number;
+    }[];
+    completion_rates: {
+      assignments: number;
+      lectures: number;
+      study_sessions: number;
+      overall: number;
+    };
+  };
+  time_management: {
+    daily_activity: DailyActivity[];
+    peak_study_hours: string[];
+    productivity_score: number;
+    focus_sessions: number;
+  };
+  progress_tracking: {
+    weekly_goals_achieved: number;
+    improvement_areas: string[];
+    achievements: {
+      type: string;
+      title: string;
+      description: string;
+      earned_at: string;
+    }[];
+    next_week_recommendations: string[];
+    current_streak: number;
+  };
+  summary: {
+    key_highlights: string[];
+    areas_for_improvement: string[];
+    motivational_message: string;
+  };
+  narrative: ReportNarrative[];
+}
+
+interface ActivityTotals {
+  studyMinutes: number;
+  tasksCompleted: number;
+}
+
+interface ScheduledTask {
+  id: string;
+  type: string;
+  status: string | null;
+  course: string;
+  score?: number | null;
+  max_score?: number | null;
+}
+
+function localHour(date: Date, timeZone: string): number {
+  try {
+    return Number(
+      new Intl.DateTimeFormat('en-US', {
+        timeZone,
+        hour: '2-digit',
+        hourCycle: 'h23',
+      }).format(date),
+    );
+  } catch {
+    return date.getUTCHours();
+  }
+}
+
+function startOfLocalDay(day: string, timeZone: string): Date {
+  return zonedTimeToDate(Date.parse(`${day}T00:00:00Z`), timeZone);
+}
+
+function round(value: number, places = 1): number {
+  const factor = 10 ** places;
+  return Math.round(value * factor) / factor;
+}
+
+/** The Monday-to-Sunday week ending on `sunday` */
+export function reportWeekEnding(sunday: string, timeZone: string): ReportWeek {
+  const weekStart = addDays(sunday, -6);
+  return {
+    weekStart,
+    weekEnd: sunday,
+    start: startOfLocalDay(weekStart, timeZone),
+    end: startOfLocalDay(addDays(sunday, 1), timeZone),
+  };
+}
+
+/** The week whose report is due at `now`, or null before Sunday evening */
+export function dueReportWeek(now: Date, timeZone: string): ReportWeek | null {
+  const today = localDate(now, timeZone);
+  const isSunday = new Date(`${today}T00:00:00Z`).getUTCDay() === 0;
+  if (!isSunday || localHour(now, timeZone) < REPORT_LOCAL_HOUR) return null;
+  return reportWeekEnding(today, timeZone);
+}
+
+/**
+ * The scenario whose templates describe this week. Without a report for the
+ * week before it is the user's first; otherwise a change of more than a
+ * fifth either way is an improvement or decline.
+ */
+export function chooseScenario(
+  current: ActivityTotals,
+  previous: ActivityTotals | null,
+): ReportScenario {
+  if (!previous) return 'first_week';
+
+  const score = (totals: ActivityTotals) =>
+    totals.studyMinutes + totals.tasksCompleted * MINUTES_PER_TASK;
+  const currentScore = score(current);
+  const previousScore = score(previous);
+
+  if (previousScore > 0) {
+    if (currentScore >= previousScore * (1 + CHANGE_THRESHOLD)) {
+      return 'improvement';
+    }
+    if (currentScore <= previousScore * (1 - CHANGE_THRESHOLD)) {
+      return 'decline';
+    }
+  }
+
+  return current.studyMinutes >= HIGH_ACTIVITY_MINUTES ||
+    current.tasksCompleted >= HIGH_ACTIVITY_TASKS
+    ? 'high_activity'
+    : 'low_activity';
+}
+
+/**
+ * Replace {{name}} placeholders. Unknown names render as nothing rather
+ * than leaking the placeholder into a student's report.
+ */
+export function renderTemplate(
+  content: string,
+  variables: Record<string, string | number>,
+): string {
+  return content
+    .replace(/\{\{\s*(\w+)\s*\}\}/g, (_, name: string) =>
+      variables[name] === undefined ? '' : String(variables[name]),
+    )
+    .replace(/[ \t]{2,}/g, ' ')
+    .trim();
+}
+
+/** The most recently edited published template per category for the scenario */
+export function selectTemplates(
+  templates: ReportTemplate[],
+  scenario: ReportScenario,
+): ReportTemplate[] {
+  return TEMPLATE_CATEGORIES.map(
+    category =>
+      templates
+        .filter(
+          template =>
+            template.category === category && template.scenario === scenario,
+        )
+        .sort((a, b) =>
+          (b.updated_at ?? '').localeCompare(a.updated_at ?? ''),
+        )[0],
+  ).filter((template): template is ReportTemplate => Boolean(template));
+}
+
+function describeAchievement(
+  locale: SupportedLocale,
+  type: string,
+  metadata: Record<string, unknown>,
+): { title: string; description: string } {
+  const value = (key: string) => Number(metadata?.[key]) || 0;
+  switch (type) {
+    case 'streak':
+      return {
+        title: translate(locale, 'achievement.streak.title', {
+          days: value('days'),
+        }),
+        description: translate(locale, 'achievement.streak.description', {
+          days: value('days'),
+        }),
+      };
+    case 'milestone':
+      return {
+        title: translate(locale, 'achievement.milestone.title', {
+          count: value('count'),
+        }),
+        description: translate(locale, 'achievement.milestone.description', {
+          count: value('count'),
+        }),
+      };
+    case 'improvement':
+      return {
+        title: translate(locale, 'achievement.improvement.title'),
+        description: translate(locale, 'achievement.improvement.description', {
+          thisWeek: value('this_week'),
+          lastWeek: value('last_week'),
+        }),
+      };
+    default:
+      return {
+        title: translate(locale, 'achievement.srsConsistency.title', {
+          days: value('days'),
+        }),
+        description: translate(
+          locale,
+          'achievement.srsConsistency.description',
+          { days: value('days') },
+        ),
+      };
+  }
+}
+
+async function getScheduledTasks(
+  supabaseClient: SupabaseClient,
+  userId: string,
+  week: ReportWeek,
+): Promise<ScheduledTask[]> {
+  const results = await Promise.all(
+    TASK_TABLES.map(({ table, dateColumn }) =>
+      supabaseClient
+        .from(table)
+        .select(
+          table === 'assignments'
+            ? 'id, status, score, max_score, courses(course_name)'
+            : 'id, status, courses(course_name)',
+        )
+        .eq('user_id', userId)
+        .is('deleted_at', null)
+        .gte(dateColumn, week.start.toISOString())
+        .lt(dateColumn, week.end.toISOString()),
+    ),
+  );
+
+  return results.flatMap(({ data, error }, index) => {
+    if (error) throw error;
+    return (data ?? []).map(row => {
+      const course = Array.isArray(row.courses) ? row.courses[0] : row.courses;
+      return {
+        id: row.id,
+        type: TASK_TABLES[index].type,
+        status: row.status,
+        course: course?.course_name || 'General',
+        score: row.score,
+        max_score: row.max_score,
+      };
+    });
+  });
+}
+
+async function getPreviousTotals(
+  supabaseClient: SupabaseClient,
+  userId: string,
+  week: ReportWeek,
+): Promise<ActivityTotals | null> {
+  const { data, error } = await supabaseClient
+    .from('weekly_reports')
+    .select('report_data')
+    .eq('user_id', userId)
+    .eq('week_start_date', addDays(week.weekStart, -7))
+    .eq('status', 'completed')
+    .maybeSingle();
+
+  if (error) throw error;
+  const academic = data?.report_data?.academic_performance;
+  if (!academic) return null;
+  return {
+    studyMinutes: Number(academic.total_study_time) || 0,
+    tasksCompleted: Number(academic.completed_tasks) || 0,
+  };
+}
+
+/** Published templates, shared by every report in a run */
+export async function getPublishedTemplates(
+  supabaseClient: SupabaseClient,
+): Promise<ReportTemplate[]> {
+  const { data, error } = await supabaseClient
+    .from('report_templates')
+    .select('id, category, scenario, template_content, updated_at')
+    .eq('status', 'published');
+
+  if (error) throw error;
+  return data ?? [];
+}
+
+/**
+ * Collect the user's week into report_data, with the narrative rendered
+ * from `templates` and text in the user's locale
+ */
+export async function buildWeeklyReport(
+  supabaseClient: SupabaseClient,
+  user: { id: string; first_name?: string | null; timezone: string },
+  week: ReportWeek,
+  templates: ReportTemplate[],
+  locale: SupportedLocale,
+): Promise<WeeklyReportData> {
+  const { id: userId, timezone } = user;
+
+  const [focusLogs, completions, achievements, tasks, previous, streak] =
+    await Promise.all([
+      supabaseClient
+        .from('focus_logs')
+        .select('started_at, focused_seconds, completed_cycles')
+        .eq('user_id', userId)
+        .gte('started_at', week.start.toISOString())
+        .lt('started_at', week.end.toISOString()),
+      supabaseClient
+        .from('user_events')
+        .select('created_at, event_data')
+        .eq('user_id', userId)
+        .eq('event_type', 'task_completed')
+        .gte('created_at', week.start.toISOString())
+        .lt('created_at', week.end.toISOString()),
+      supabaseClient
+        .from('user_achievements')
+        .select('type, metadata, earned_at')
+        .eq('user_id', userId)
+        .gte('earned_at', week.start.toISOString())
+        .lt('earned_at', week.end.toISOString())
+        .order('earned_at', { ascending: true }),
+      getScheduledTasks(supabaseClient, userId, week),
+      getPreviousTotals(supabaseClient, userId, week),
+      getStreakSummary(supabaseClient, userId, week.end),
+    ]);
+
+  if (focusLogs.error) throw focusLogs.error;
+  if (completions.error) throw completions.error;
+  if (achievements.error) throw achievements.error;
+
+  const logs = focusLogs.data ?? [];
+  const completed = completions.data ?? [];
+
+  // Daily activity, by local day
+  const days = Array.from({ length: 7 }, (_, i) => addDays(week.weekStart, i));
+  const minutesByDay = new Map<string, number>();
+  const secondsByHour = new Map<number, number>();
+  logs.forEach(log => {
+    const startedAt = new Date(log.started_at);
+    const day = localDate(startedAt, timezone);
+    minutesByDay.set(
+      day,
+      (minutesByDay.get(day) ?? 0) + log.focused_seconds / 60,
+    );
+    const hour = localHour(startedAt, timezone);
+    secondsByHour.set(
+      hour,
+      (secondsByHour.get(hour) ?? 0) + log.focused_seconds,
+    );
+  });
+  const completedByDay = new Map<string, number>();
+  completed.forEach(({ created_at }) => {
+    const day = localDate(new Date(created_at), timezone);
+    completedByDay.set(day, (completedByDay.get(day) ?? 0) + 1);
+  });
+
+  const dailyActivity: DailyActivity[] = days.map(date => {
+    const studyTime = Math.round(minutesByDay.get(date) ?? 0);
+    return {
+      date,
+      study_time: studyTime,
+      tasks_completed: completedByDay.get(date) ?? 0,
+      // 10 points per hour
+      focus_score: Math.min(100, Math.round((studyTime / 60) * 10)),
+    };
+  });
+
+  const totalStudyTime = dailyActivity.reduce(
+    (sum, day) => sum + day.study_time,
+    0,
+  );
+  const completedTasks = completed.length;
+  const focusSessions = logs.reduce(
+    (sum, log) => sum + log.completed_cycles,
+    0,
+  );
+  const productivityScore = Math.round(
+    Math.min(50, (totalStudyTime / 60) * 2) + Math.min(50, completedTasks * 5),
+  );
+  const peakStudyHours = [...secondsByHour.entries()]
+    .filter(([, seconds]) => seconds > 0)
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, 3)
+    .map(([hour]) => hour)
+    .sort((a, b) => a - b)
+    .map(hour => `${String(hour).padStart(2, '0')}:00`);
+
+  // Completion of the week's scheduled tasks
+  const rate = (items: ScheduledTask[]) =>
+    items.length
+      ? round(
+          items.filter(task => task.status === 'completed').length /
+            items.length,
+          2,
+        )
+      : 0;
+  const ofType = (type: string) => tasks.filter(task => task.type === type);
+  const completionRates = {
+    assignments: rate(ofType('assignment')),
+    lectures: rate(ofType('lecture')),
+    study_sessions: rate(ofType('study_session')),
+    overall: rate(tasks),
+  };
+
+  const subjects = new Map<string, { tasks: number; scores: number[] }>();
+  tasks.forEach(task => {
+    const subject = subjects.get(task.course) ?? { tasks: 0, scores: [] };
+    if (task.status === 'completed') subject.tasks++;
+    if (task.score != null && task.max_score) {
+      subject.scores.push((Number(task.score) / Number(task.max_score)) * 100);
+    }
+    subjects.set(task.course, subject);
+  });
+  const subjectBreakdown = [...subjects.entries()].map(
+    ([subject, { tasks: tasksCompleted, scores }]) => ({
+      subject,
+      time_spent: 0,
+      tasks_completed: tasksCompleted,
+      average_score: scores.length
+        ? round(scores.reduce((sum, score) => sum + score, 0) / scores.length)
+        : undefined,
+    }),
+  );
+
+  const earned = (achievements.data ?? []).map(achievement => ({
+    type: achievement.type,
+    ...describeAchievement(locale, achievement.type, achievement.metadata),
+    earned_at: achievement.earned_at,
+  }));
+
+  const studyDays = dailyActivity.filter(
+    day => day.study_time > 0 || day.tasks_completed > 0,
+  ).length;
+
+  // Where to focus next week
+  const areas: ('completion' | 'consistency' | 'focus')[] = [];
+  if (tasks.length > 0 && completionRates.overall < LOW_COMPLETION_RATE) {
+    areas.push('completion');
+  }
+  if (productivityScore < LOW_PRODUCTIVITY_SCORE) areas.push('consistency');
+  if (focusSessions === 0) areas.push('focus');
+  const improvementAreas = areas.map(area =>
+    translate(locale, `weeklyReport.area.${area}` as ServerMessageKey),
+  );
+  const recommendations = areas.length
+    ? areas.map(area =>
+        translate(locale, `weeklyReport.tip.${area}` as ServerMessageKey),
+      )
+    : [translate(locale, 'weeklyReport.tip.keepGoing')];
+
+  const studyHours = round(totalStudyTime / 60);
+  const highlights: string[] = [];
+  if (totalStudyTime > 0) {
+    highlights.push(
+      translate(locale, 'weeklyReport.highlight.studyTime', {
+        hours: studyHours,
+      }),
+    );
+  }
+  if (completedTasks > 0) {
+    highlights.push(
+      translate(locale, 'weeklyReport.highlight.tasks', {
+        count: completedTasks,
+      }),
+    );
+  }
+  if (streak.current_streak > 1) {
+    highlights.push(
+      translate(locale, 'weeklyReport.highlight.streak', {
+        days: streak.current_streak,
+      }),
+    );
+  }
+  if (earned.length > 0) {
+    highlights.push(
+      translate(locale, 'weeklyReport.highlight.badges', {
+        count: earned.length,
+      }),
+    );
+  }
+
+  const scenario = chooseScenario(
+    { studyMinutes: totalStudyTime, tasksCompleted: completedTasks },
+    previous,
+  );
+
+  // Template variables, as documented for admins on the template editor
+  const busiestDay = [...dailyActivity].sort(
+    (a, b) => b.study_time - a.study_time,
+  )[0];
+  const previousScore = previous
+    ? previous.studyMinutes + previous.tasksCompleted * MINUTES_PER_TASK
+    : 0;
+  const change = previousScore
+    ? Math.round(
+        ((totalStudyTime + completedTasks * MINUTES_PER_TASK - previousScore) /
+          previousScore) *
+          100,
+      )
+    : 0;
+  const variables: Record<string, string | number> = {
+    first_name: user.first_name || '',
+    assignments_completed: tasks.filter(
+      task => task.type === 'assignment' && task.status === 'completed',
+    ).length,
+    tasks_completed: completedTasks,
+    study_time_hours: studyHours,
+    study_sessions_count: logs.length,
+    avg_session_duration: logs.length
+      ? Math.round(totalStudyTime / logs.length)
+      : 0,
+    most_productive_day: busiestDay.study_time
+      ? new Intl.DateTimeFormat(locale, {
+          weekday: 'long',
+          timeZone: 'UTC',
+        }).format(new Date(`${busiestDay.date}T00:00:00Z`))
+      : '',
+    max_daily_study: round(busiestDay.study_time / 60),
+    consistent_days: studyDays,
+    improvement_percentage: Math.max(0, change),
+    decline_percentage: Math.max(0, -change),
+    completion_rate: Math.round(completionRates.overall * 100),
+    productivity_score: productivityScore,
+    focus_sessions: focusSessions,
+    current_streak: streak.current_streak,
+    achievements_count: earned.length,
+  };
+
+  const narrative = selectTemplates(templates, scenario).map(template => ({
+    category: template.category,
+    template_id: template.id,
+    text: renderTemplate(template.template_content, variables),
+  }));
+
+  return {
+    scenario,
+    academic_performance: {
+      total_study_time: totalStudyTime,
+      completed_tasks: completedTasks,
+      average_session_duration: variables.avg_session_duration as number,
+      subject_breakdown: subjectBreakdown,
+      completion_rates: completionRates,
+    },
+    time_management: {
+      daily_activity: dailyActivity,
+      peak_study_hours: peakStudyHours,
+      productivity_score: productivityScore,
+      focus_sessions: focusSessions,
+    },
+    progress_tracking: {
+      weekly_goals_achieved: tasks.filter(task => task.status === 'completed')
+        .length,
+      improvement_areas: improvementAreas,
+      achievements: earned,
+      next_week_recommendations: recommendations,
+      current_streak: streak.current_streak,
+    },
+    summary: {
+      key_highlights: highlights,
+      areas_for_improvement: improvementAreas,
+      motivational_message:
+        narrative.find(section => section.category === 'general')?.text ??
+        translate(locale, 'weeklyReport.motivation'),
+    },
+    narrative,
+  };
+}
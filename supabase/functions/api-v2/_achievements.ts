@@ -0,0 +1,34 @@
+/**
+ * Streak and Achievement Handlers for api-v2
+ *
+ * Streaks and badges are written by the task-completion and SRS review
+ * paths (see _shared/achievements.ts); these handlers only read them.
+ */
+
+import { AuthenticatedRequest } from '../_shared/function-handler.ts';
+import { getStreakSummary } from '../_shared/achievements.ts';
+import { handleDbError } from './_handler-utils.ts';
+
+export async function handleGetStreakInfo({
+  user,
+  supabaseClient,
+}: AuthenticatedRequest) {
+  return await getStreakSummary(supabaseClient, user.id).catch(handleDbError);
+}
+
+export async function handleGetAchievements({
+  user,
+  supabaseClient,
+}: AuthenticatedRequest) {
+  const [streak, achievements] = await Promise.all([
+    getStreakSummary(supabaseClient, user.id).catch(handleDbError),
+    supabaseClient
+      .from('user_achievements')
+      .select('id, achievement_key, type, metadata, earned_at')
+      .eq('user_id', user.id)
+      .order('earned_at', { ascending: false }),
+  ]);
+
+  if (achievements.error) handleDbError(achievements.error);
+  return { streak, achievements: achievements.data ?? [] };
+}
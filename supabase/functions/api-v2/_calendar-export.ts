@@ -0,0 +1,581 @@
+/**
+ * Calendar Export Handlers for api-v2
+ *
+ * Exposes the user's lectures, assignments and study sessions (with their
+ * SRS review dates) as iCalendar data:
+ * - analytics/calendar-export: authenticated one-off .ics download
+ * - analytics/calendar-feed-token: authenticated, returns (or rotates) the feed URL
+ *
+ * The subscription feed itself is served by the public calendar-feed
+ * function (handleCalendarFeed), authorized by the token in the URL.
+ */
+
+import {
+  createClient,
+  type SupabaseClient,
+} from 'https://esm.sh/@supabase/supabase-js@2.39.3';
+import { z } from 'zod';
+import { AuthenticatedRequest, AppError } from '../_shared/function-handler.ts';
+import { ERROR_CODES } from '../_shared/error-codes.ts';
+import { corsHeaders } from '../_shared/cors.ts';
+import { errorResponse } from '../_shared/response.ts';
+import { checkRateLimit, RateLimitError } from '../_shared/rate-limiter.ts';
+import { decryptStoredValue } from '../_shared/encryption.ts';
+import { logger } from '../_shared/logging.ts';
+import { extractTraceContext } from '../_shared/tracing.ts';
+import {
+  buildCalendar,
+  buildUid,
+  isValidTimeZone,
+  type ICalEvent,
+  type ICalTodo,
+} from '../_shared/ical.ts';
+import { formatRRule, parseRecurringPattern } from '../_shared/rrule.ts';
+import {
+  clipRecurrenceToTerm,
+  LECTURE_OCCURRENCE_OVERRIDE_COLUMNS,
+  type LectureOccurrenceOverrideRow,
+} from '../_shared/lecture-occurrences.ts';
+import { getCourseTerms } from '../_shared/terms.ts';
+import { handleDbError } from './_handler-utils.ts';
+
+// Past items older than this are left out; recurring lectures are always included
+const EXPORT_LOOKBACK_DAYS = 90;
+// study_sessions has no duration column, so events get a fixed length
+const DEFAULT_STUDY_SESSION_MINUTES = 60;
+const DEFAULT_REVIEW_MINUTES = 30;
+const DEFAULT_LECTURE_MINUTES = 60;
+const FEED_REFRESH_INTERVAL_MINUTES = 60;
+const FEED_TOKEN_PATTERN = /^[a-f0-9]{64}$/;
+
+export const CalendarFeedTokenSchema = z.object({
+  rotate: z.boolean().optional(),
+});
+
+interface CourseRow {
+  id: string;
+  course_name: string;
+  course_code?: string | null;
+}
+
+interface LectureRow {
+  id: string;
+  course_id: string;
+  lecture_name?: string | null;
+  description?: string | null;
+  venue?: string | null;
+  lecture_date: string;
+  start_time?: string | null;
+  end_time?: string | null;
+  is_recurring: boolean;
+  recurring_pattern?: string | null;
+  created_at: string;
+  updated_at?: string | null;
+}
+
+interface AssignmentRow {
+  id: string;
+  course_id: string;
+  title: string;
+  description?: string | null;
+  due_date: string;
+  created_at: string;
+  updated_at?: string | null;
+}
+
+interface StudySessionRow {
+  id: string;
+  course_id: string;
+  topic: string;
+  description?: string | null;
+  notes?: string | null;
+  session_date: string;
+  has_spaced_repetition: boolean;
+  created_at: string;
+  updated_at?: string | null;
+}
+
+type OverrideRow = LectureOccurrenceOverrideRow & { updated_at: string };
+
+interface ReviewReminderRow {
+  id: string;
+  session_id: string;
+  reminder_time: string;
+  day_number: number;
+  completed: boolean | null;
+}
+
+function courseLabel(course?: CourseRow): string | null {
+  if (!course) return null;
+  return course.course_code
+    ? `${course.course_code} ${course.course_name}`
+    : course.course_name;
+}
+
+function withCoursePrefix(title: string, course?: CourseRow): string {
+  const prefix = course?.course_code || course?.course_name;
+  return prefix ? `${prefix}: ${title}` : title;
+}
+
+function addMinutes(date: Date, minutes: number): Date {
+  return new Date(date.getTime() + minutes * 60000);
+}
+
+// Calendar clients re-read an item when LAST-MODIFIED moves on
+function lastModified(row: {
+  created_at: string;
+  updated_at?: string | null;
+}): Date {
+  return new Date(row.updated_at || row.created_at);
+}
+
+/**
+ * Load and convert all calendar items for a user into iCalendar components
+ */
+export async function buildUserCalendar(
+  supabaseClient: SupabaseClient,
+  userId: string,
+): Promise<{ content: string; eventCount: number; todoCount: number }> {
+  const since = new Date(
+    Date.now() - EXPORT_LOOKBACK_DAYS * 24 * 60 * 60 * 1000,
+  ).toISOString();
+
+  const [
+    coursesRes,
+    lecturesRes,
+    overridesRes,
+    assignmentsRes,
+    sessionsRes,
+    remindersRes,
+    userRes,
+  ] = await Promise.all([
+    supabaseClient
+      .from('courses')
+      .select('id, course_name, course_code')
+      .eq('user_id', userId)
+      .is('deleted_at', null),
+    supabaseClient
+      .from('lectures')
+      .select('*')
+      .eq('user_id', userId)
+      .is('deleted_at', null)
+      .or(`is_recurring.eq.true,lecture_date.gte.${since}`),
+    supabaseClient
+      .from('lecture_occurrence_overrides')
+      .select(`${LECTURE_OCCURRENCE_OVERRIDE_COLUMNS}, updated_at`)
+      .eq('user_id', userId)
+      .gte('occurrence_start', since),
+    supabaseClient
+      .from('assignments')
+      .select('*')
+      .eq('user_id', userId)
+      .is('deleted_at', null)
+      .gte('due_date', since),
+    supabaseClient
+      .from('study_sessions')
+      .select('*')
+      .eq('user_id', userId)
+      .is('deleted_at', null)
+      .gte('session_date', since),
+    supabaseClient
+      .from('reminders')
+      .select('id, session_id, reminder_time, day_number, completed')
+      .eq('user_id', userId)
+      .in('reminder_type', ['spaced_repetition', 'srs_review'])
+      .not('session_id', 'is', null)
+      .gte('reminder_time', since),
+    supabaseClient
+      .from('users')
+      .select('timezone')
+      .eq('id', userId)
+      .maybeSingle(),
+  ]);
+
+  if (coursesRes.error) handleDbError(coursesRes.error);
+  if (lecturesRes.error) handleDbError(lecturesRes.error);
+  if (overridesRes.error) handleDbError(overridesRes.error);
+  if (assignmentsRes.error) handleDbError(assignmentsRes.error);
+  if (sessionsRes.error) handleDbError(sessionsRes.error);
+  if (remindersRes.error) handleDbError(remindersRes.error);
+
+  const encryptionKey = Deno.env.get('ENCRYPTION_KEY');
+  // Lectures are written on the wall clock their recurrence follows, so
+  // BYDAY and the time of day hold across daylight saving changes
+  const userTimeZone = userRes.data?.timezone as string | null | undefined;
+  const timeZone = isValidTimeZone(userTimeZone) ? userTimeZone! : null;
+  const courses = new Map<string, CourseRow>(
+    ((coursesRes.data || []) as CourseRow[]).map(course => [course.id, course]),
+  );
+  const terms = await getCourseTerms(supabaseClient, [...courses.keys()]);
+  terms.forEach((term, courseId) => {
+    if (term.archived_at) courses.delete(courseId);
+  });
+  // Items whose course was soft-deleted or archived with its term are
+  // hidden in the app, so skip them here too
+  const hasCourse = (row: { course_id: string }) => courses.has(row.course_id);
+
+  const events: ICalEvent[] = [];
+  const todos: ICalTodo[] = [];
+
+  const overridesByLecture = new Map<string, OverrideRow[]>();
+  for (const override of (overridesRes.data || []) as OverrideRow[]) {
+    const list = overridesByLecture.get(override.lecture_id) ?? [];
+    list.push(override);
+    overridesByLecture.set(override.lecture_id, list);
+  }
+
+  for (const lecture of ((lecturesRes.data || []) as LectureRow[]).filter(
+    hasCourse,
+  )) {
+    const course = courses.get(lecture.course_id);
+    let start = new Date(lecture.start_time || lecture.lecture_date);
+    let end = lecture.end_time ? new Date(lecture.end_time) : null;
+    const name =
+      (await decryptStoredValue(lecture.lecture_name, encryptionKey)) ||
+      course?.course_name ||
+      'Lecture';
+    const description = await decryptStoredValue(
+      lecture.description,
+      encryptionKey,
+    );
+    let recurrence = lecture.is_recurring
+      ? parseRecurringPattern(lecture.recurring_pattern)
+      : null;
+    let overrides = overridesByLecture.get(lecture.id) ?? [];
+
+    // A series in a term ends with the term and skips its breaks, as in the app
+    const term = terms.get(lecture.course_id);
+    if (recurrence && term) {
+      const clipped = clipRecurrenceToTerm(
+        recurrence,
+        start,
+        term,
+        timeZone ?? 'UTC',
+        overrides.map(override => new Date(override.occurrence_start)),
+      );
+      if (!clipped) continue;
+
+      const until = clipped.recurrence.rule.until!.getTime();
+      if (end) {
+        end = new Date(
+          clipped.start.getTime() + end.getTime() - start.getTime(),
+        );
+      }
+      start = clipped.start;
+      recurrence = clipped.recurrence;
+      overrides = overrides.filter(override => {
+        const occurrenceStart = new Date(override.occurrence_start).getTime();
+        return occurrenceStart >= start.getTime() && occurrenceStart <= until;
+      });
+    }
+
+    events.push({
+      uid: buildUid('lecture', lecture.id),
+      start,
+      end,
+      durationMinutes: DEFAULT_LECTURE_MINUTES,
+      summary: withCoursePrefix(name, course),
+      description,
+      location: lecture.venue,
+      rrule: recurrence ? formatRRule(recurrence.rule) : null,
+      exdates: recurrence?.exdates,
+      categories: ['Lecture'],
+      lastModified: lastModified(lecture),
+      timeZone,
+    });
+
+    if (!recurrence) continue;
+
+    // Occurrences edited on their own replace the generated ones by RECURRENCE-ID
+    const durationMs = end ? end.getTime() - start.getTime() : null;
+    for (const override of overrides) {
+      const overrideStart = new Date(override.start_time);
+      const overrideName = await decryptStoredValue(
+        override.lecture_name,
+        encryptionKey,
+      );
+
+      events.push({
+        uid: buildUid('lecture', lecture.id),
+        recurrenceId: new Date(override.occurrence_start),
+        start: overrideStart,
+        end: override.end_time
+          ? new Date(override.end_time)
+          : durationMs !== null
+            ? new Date(overrideStart.getTime() + durationMs)
+            : null,
+        durationMinutes: DEFAULT_LECTURE_MINUTES,
+        summary: withCoursePrefix(overrideName || name, course),
+        description:
+          (await decryptStoredValue(override.description, encryptionKey)) ??
+          description,
+        location: override.venue ?? lecture.venue,
+        categories: ['Lecture'],
+        lastModified: new Date(override.updated_at),
+        timeZone,
+      });
+    }
+  }
+
+  for (const assignment of (
+    (assignmentsRes.data || []) as AssignmentRow[]
+  ).filter(hasCourse)) {
+    const course = courses.get(assignment.course_id);
+    const title =
+      (await decryptStoredValue(assignment.title, encryptionKey)) ||
+      'Assignment';
+    const description = await decryptStoredValue(
+      assignment.description,
+      encryptionKey,
+    );
+    const due = new Date(assignment.due_date);
+
+    // Most calendar apps ignore VTODO, so the deadline is also a VEVENT
+    events.push({
+      uid: buildUid('assignment', assignment.id),
+      start: due,
+      end: due,
+      summary: `Due: ${withCoursePrefix(title, course)}`,
+      description,
+      categories: ['Assignment'],
+      lastModified: lastModified(assignment),
+    });
+    todos.push({
+      uid: buildUid('assignment', assignment.id, 'todo'),
+      due,
+      summary: withCoursePrefix(title, course),
+      description,
+      categories: ['Assignment'],
+      lastModified: lastModified(assignment),
+    });
+  }
+
+  const sessions = ((sessionsRes.data || []) as StudySessionRow[]).filter(
+    hasCourse,
+  );
+  const sessionTopics = new Map<string, string>();
+
+  for (const session of sessions) {
+    const course = courses.get(session.course_id);
+    const topic =
+      (await decryptStoredValue(session.topic, encryptionKey)) ||
+      'Study session';
+    sessionTopics.set(session.id, topic);
+
+    events.push({
+      uid: buildUid('study-session', session.id),
+      start: new Date(session.session_date),
+      durationMinutes: DEFAULT_STUDY_SESSION_MINUTES,
+      summary: withCoursePrefix(topic, course),
+      description: [
+        courseLabel(course),
+        await decryptStoredValue(
+          session.description ?? session.notes,
+          encryptionKey,
+        ),
+      ]
+        .filter(Boolean)
+        .join('\n'),
+      categories: ['Study Session'],
+      lastModified: lastModified(session),
+    });
+  }
+
+  for (const review of (remindersRes.data || []) as ReviewReminderRow[]) {
+    const topic = sessionTopics.get(review.session_id);
+    // Reviews for sessions outside the export window or already deleted
+    if (!topic) continue;
+
+    const start = new Date(review.reminder_time);
+    events.push({
+      uid: buildUid('srs-review', review.id),
+      start,
+      end: addMinutes(start, DEFAULT_REVIEW_MINUTES),
+      summary: `Review: ${topic}`,
+      description: `Spaced repetition review (day ${review.day_number})`,
+      categories: ['Review'],
+    });
+  }
+
+  return {
+    content: buildCalendar({
+      name: 'ELARO',
+      description: 'Lectures, deadlines and study sessions from ELARO',
+      refreshIntervalMinutes: FEED_REFRESH_INTERVAL_MINUTES,
+      events,
+      todos,
+    }),
+    eventCount: events.length,
+    todoCount: todos.length,
+  };
+}
+
+function generateFeedToken(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(32));
+  return Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+function buildFeedUrls(token: string) {
+  const supabaseUrl = Deno.env.get('SUPABASE_URL') ?? '';
+  const feedUrl = `${supabaseUrl}/functions/v1/calendar-feed?token=${token}`;
+  return {
+    feed_url: feedUrl,
+    // webcal:// makes Apple Calendar and Outlook offer to subscribe
+    webcal_url: feedUrl.replace(/^https?:\/\//, 'webcal://'),
+  };
+}
+
+/**
+ * Authenticated one-off export - returns the .ics document as a string
+ */
+export async function handleExportCalendar(req: AuthenticatedRequest) {
+  const { user, supabaseClient } = req;
+  const { content, eventCount, todoCount } = await buildUserCalendar(
+    supabaseClient,
+    user.id,
+  );
+
+  return {
+    filename: `elaro-calendar-${new Date().toISOString().split('T')[0]}.ics`,
+    content,
+    event_count: eventCount,
+    todo_count: todoCount,
+  };
+}
+
+/**
+ * Return the user's active feed token, creating one if needed.
+ * Passing { rotate: true } revokes the current token so old URLs stop working.
+ */
+export async function handleGetCalendarFeedToken(req: AuthenticatedRequest) {
+  const { user, supabaseClient, body } = req;
+  const rotate = body.rotate === true;
+
+  if (rotate) {
+    const { error } = await supabaseClient
+      .from('calendar_feed_tokens')
+      .update({ revoked_at: new Date().toISOString() })
+      .eq('user_id', user.id)
+      .is('revoked_at', null);
+    if (error) handleDbError(error);
+  } else {
+    const { data: existing, error } = await supabaseClient
+      .from('calendar_feed_tokens')
+      .select('token, created_at')
+      .eq('user_id', user.id)
+      .is('revoked_at', null)
+      .maybeSingle();
+    if (error) handleDbError(error);
+    if (existing) {
+      return {
+        token: existing.token,
+        created_at: existing.created_at,
+        ...buildFeedUrls(existing.token),
+      };
+    }
+  }
+
+  const { data, error } = await supabaseClient
+    .from('calendar_feed_tokens')
+    .insert({ user_id: user.id, token: generateFeedToken() })
+    .select('token, created_at')
+    .single();
+  if (error) handleDbError(error);
+
+  return {
+    token: data.token,
+    created_at: data.created_at,
+    ...buildFeedUrls(data.token),
+  };
+}
+
+/**
+ * Public subscription feed. Calendar clients cannot send a Supabase JWT,
+ * so this is not wrapped in createAuthenticatedHandler - the token is the
+ * credential. Served by the calendar-feed function, which skips the gateway
+ * JWT check.
+ */
+export async function handleCalendarFeed(req: Request): Promise<Response> {
+  const traceContext = extractTraceContext(req);
+
+  try {
+    const token = new URL(req.url).searchParams.get('token') ?? '';
+    if (!FEED_TOKEN_PATTERN.test(token)) {
+      throw new AppError('Invalid feed token', 401, ERROR_CODES.INVALID_TOKEN);
+    }
+
+    // Service role: the token lookup has to bypass RLS, and every query
+    // below is explicitly scoped to the token's user_id
+    const supabaseAdmin = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '',
+    );
+
+    const { data: feedToken, error } = await supabaseAdmin
+      .from('calendar_feed_tokens')
+      .select('id, user_id')
+      .eq('token', token)
+      .is('revoked_at', null)
+      .maybeSingle();
+    if (error) handleDbError(error);
+    if (!feedToken) {
+      throw new AppError('Invalid feed token', 401, ERROR_CODES.INVALID_TOKEN);
+    }
+
+    await checkRateLimit(
+      supabaseAdmin,
+      feedToken.user_id,
+      'api-v2-analytics-calendar-feed',
+      req,
+    );
+
+    const { content, eventCount } = await buildUserCalendar(
+      supabaseAdmin,
+      feedToken.user_id,
+    );
+
+    // Non-critical bookkeeping
+    await supabaseAdmin
+      .from('calendar_feed_tokens')
+      .update({ last_accessed_at: new Date().toISOString() })
+      .eq('id', feedToken.id);
+
+    await logger.info(
+      'Served calendar feed',
+      { user_id: feedToken.user_id, event_count: eventCount },
+      traceContext,
+    );
+
+    return new Response(content, {
+      status: 200,
+      headers: {
+        ...corsHeaders,
+        'Content-Type': 'text/calendar; charset=utf-8',
+        'Content-Disposition': 'inline; filename="elaro.ics"',
+        'Cache-Control': 'private, max-age=300',
+      },
+    });
+  } catch (error) {
+    if (error instanceof RateLimitError) {
+      return errorResponse(
+        new AppError(error.message, 429, ERROR_CODES.RATE_LIMIT_EXCEEDED),
+        429,
+        error.retryAfter ? { 'Retry-After': String(error.retryAfter) } : {},
+      );
+    }
+    await logger.error(
+      'Calendar feed error',
+      { error: error instanceof Error ? error.message : String(error) },
+      traceContext,
+    );
+    return errorResponse(
+      error instanceof AppError
+        ? error
+        : new AppError(
+            'Internal server error',
+            500,
+            ERROR_CODES.INTERNAL_ERROR,
+          ),
+    );
+  }
+}
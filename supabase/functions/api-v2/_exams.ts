@@ -0,0 +1,543 @@
+/**
+ * Exam Handlers for api-v2
+ *
+ * Exams are kept apart from assignments: they have a duration, a location,
+ * the topics they cover and a weight. exams/revision-plan proposes a
+ * back-scheduled revision plan for an exam (see _shared/exam-revision.ts)
+ * without saving anything; exams/revision-accept creates its study sessions
+ * and reviews, replacing the upcoming sessions of an earlier plan.
+ */
+
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.39.3';
+import { AuthenticatedRequest, AppError } from '../_shared/function-handler.ts';
+import { ERROR_CODES } from '../_shared/error-codes.ts';
+import { decrypt, encrypt } from '../_shared/encryption.ts';
+import { isPremium } from '../_shared/permissions.ts';
+import {
+  REVISION_SESSION_MINUTES,
+  planExamRevision,
+} from '../_shared/exam-revision.ts';
+import { extractIdFromUrl, handleDbError } from './_handler-utils.ts';
+
+const MINUTE_MS = 60 * 1000;
+// Reminder before each revision session
+const SESSION_REMINDER_MINUTES = 15;
+
+interface ExamBody {
+  exam_id?: string;
+  course_id?: string;
+  title?: string;
+  exam_date?: string;
+  duration_minutes?: number;
+  location?: string | null;
+  topics?: string[];
+  weight?: number | null;
+  description?: string | null;
+  reminders?: number[];
+}
+
+interface ExamRow {
+  id: string;
+  course_id: string;
+  title: string;
+  exam_date: string;
+  duration_minutes: number;
+  location: string | null;
+  topics: string[] | null;
+  weight: number | null;
+  description: string | null;
+  [key: string]: unknown;
+}
+
+function getEncryptionKey(): string {
+  const encryptionKey = Deno.env.get('ENCRYPTION_KEY');
+  if (!encryptionKey) {
+    throw new AppError(
+      'Encryption key not configured.',
+      500,
+      ERROR_CODES.CONFIG_ERROR,
+    );
+  }
+  return encryptionKey;
+}
+
+async function decryptExam(exam: ExamRow, encryptionKey: string) {
+  return {
+    ...exam,
+    title: await decrypt(exam.title, encryptionKey),
+    topics: await Promise.all(
+      (exam.topics ?? []).map(topic => decrypt(topic, encryptionKey)),
+    ),
+    description: exam.description
+      ? await decrypt(exam.description, encryptionKey)
+      : null,
+  };
+}
+
+async function getOwnExam(
+  supabaseClient: SupabaseClient,
+  userId: string,
+  examId: string,
+): Promise<ExamRow> {
+  const { data, error } = await supabaseClient
+    .from('exams')
+    .select('*')
+    .eq('id', examId)
+    .eq('user_id', userId)
+    .is('deleted_at', null)
+    .maybeSingle();
+
+  if (error) handleDbError(error);
+  if (!data) {
+    throw new AppError('Exam not found', 404, ERROR_CODES.NOT_FOUND);
+  }
+  return data;
+}
+
+/** e.g. "in 45 minutes", "in 2 hours", "in 3 days" */
+function describeLead(minutes: number): string {
+  const [amount, unit] =
+    minutes < 60
+      ? [minutes, 'minute']
+      : minutes < 24 * 60
+        ? [Math.round(minutes / 60), 'hour']
+        : [Math.round(minutes / (24 * 60)), 'day'];
+  return `in ${amount} ${unit}${amount === 1 ? '' : 's'}`;
+}
+
+const examReminder = (
+  userId: string,
+  examId: string,
+  title: string,
+  examDate: string,
+  minutes: number,
+) => ({
+  user_id: userId,
+  exam_id: examId,
+  reminder_time: new Date(
+    Date.parse(examDate) - minutes * MINUTE_MS,
+  ).toISOString(),
+  reminder_type: 'exam',
+  day_number: Math.ceil(minutes / (24 * 60)),
+  title: `Exam: ${title}`,
+  body: `"${title}" starts ${describeLead(minutes)}. Good luck!`,
+  completed: false,
+});
+
+export async function handleListExams({
+  user,
+  supabaseClient,
+}: AuthenticatedRequest) {
+  const encryptionKey = getEncryptionKey();
+
+  const { data, error } = await supabaseClient
+    .from('exams')
+    .select('*, courses(course_name)')
+    .eq('user_id', user.id)
+    .is('deleted_at', null)
+    .order('exam_date', { ascending: true });
+
+  if (error) handleDbError(error);
+  return Promise.all(
+    (data ?? []).map(exam => decryptExam(exam as ExamRow, encryptionKey)),
+  );
+}
+
+export async function handleCreateExam(req: AuthenticatedRequest) {
+  const { user, supabaseClient } = req;
+  const body = req.body as Required<Omit<ExamBody, 'exam_id'>>;
+  const encryptionKey = getEncryptionKey();
+
+  const { data: course, error: courseError } = await supabaseClient
+    .from('courses')
+    .select('id')
+    .eq('id', body.course_id)
+    .eq('user_id', user.id)
+    .is('deleted_at', null)
+    .maybeSingle();
+
+  if (courseError) handleDbError(courseError);
+  if (!course) {
+    throw new AppError(
+      'Course not found or access denied.',
+      404,
+      ERROR_CODES.DB_NOT_FOUND,
+    );
+  }
+
+  const topics = body.topics ?? [];
+  const { data: exam, error } = await supabaseClient
+    .from('exams')
+    .insert({
+      user_id: user.id,
+      course_id: body.course_id,
+      title: await encrypt(body.title, encryptionKey),
+      exam_date: body.exam_date,
+      duration_minutes: body.duration_minutes ?? 120,
+      location: body.location || null,
+      topics: await Promise.all(
+        topics.map(topic => encrypt(topic, encryptionKey)),
+      ),
+      weight: body.weight ?? null,
+      description: body.description
+        ? await encrypt(body.description, encryptionKey)
+        : null,
+    })
+    .select()
+    .single();
+
+  if (error) handleDbError(error);
+
+  const now = Date.now();
+  const reminders = (body.reminders ?? [])
+    .map(minutes =>
+      examReminder(user.id, exam.id, body.title, body.exam_date, minutes),
+    )
+    .filter(reminder => Date.parse(reminder.reminder_time) > now);
+  if (reminders.length > 0) {
+    const { error: reminderError } = await supabaseClient
+      .from('reminders')
+      .insert(reminders);
+    if (reminderError) handleDbError(reminderError);
+  }
+
+  return {
+    ...exam,
+    title: body.title,
+    topics,
+    description: body.description ?? null,
+  };
+}
+
+export async function handleUpdateExam(req: AuthenticatedRequest) {
+  const { user, supabaseClient } = req;
+  const body = req.body as ExamBody & { exam_id: string };
+  const encryptionKey = getEncryptionKey();
+
+  const existing = await getOwnExam(supabaseClient, user.id, body.exam_id);
+
+  const updates: Record<string, unknown> = {};
+  if (body.title !== undefined) {
+    updates.title = await encrypt(body.title, encryptionKey);
+  }
+  if (body.exam_date !== undefined) updates.exam_date = body.exam_date;
+  if (body.duration_minutes !== undefined) {
+    updates.duration_minutes = body.duration_minutes;
+  }
+  if (body.location !== undefined) updates.location = body.location || null;
+  if (body.topics !== undefined) {
+    updates.topics = await Promise.all(
+      body.topics.map(topic => encrypt(topic, encryptionKey)),
+    );
+  }
+  if (body.weight !== undefined) updates.weight = body.weight;
+  if (body.description !== undefined) {
+    updates.description = body.description
+      ? await encrypt(body.description, encryptionKey)
+      : null;
+  }
+
+  let exam = existing;
+  if (Object.keys(updates).length > 0) {
+    const { data, error } = await supabaseClient
+      .from('exams')
+      .update(updates)
+      .eq('id', body.exam_id)
+      .eq('user_id', user.id)
+      .select()
+      .single();
+
+    if (error) handleDbError(error);
+    exam = data;
+  }
+
+  const moved =
+    body.exam_date !== undefined &&
+    Date.parse(body.exam_date) !== Date.parse(existing.exam_date);
+  let revisionOutdated = false;
+  if (moved) {
+    // Exam reminders keep their distance to the exam; ones that would now
+    // be in the past are dropped
+    const nowMs = Date.now();
+    const shift = Date.parse(body.exam_date!) - Date.parse(existing.exam_date);
+    const { data: reminders, error: remindersError } = await supabaseClient
+      .from('reminders')
+      .select('id, reminder_time')
+      .eq('user_id', user.id)
+      .eq('exam_id', body.exam_id)
+      .eq('completed', false);
+    if (remindersError) handleDbError(remindersError);
+    for (const reminder of reminders ?? []) {
+      const reminderTime = Date.parse(reminder.reminder_time) + shift;
+      const { error: shiftError } = await supabaseClient
+        .from('reminders')
+        .update(
+          reminderTime > nowMs
+            ? { reminder_time: new Date(reminderTime).toISOString() }
+            : {
+                completed: true,
+                processed_at: new Date(nowMs).toISOString(),
+                action_taken: 'exam_moved',
+              },
+        )
+        .eq('id', reminder.id);
+      if (shiftError) handleDbError(shiftError);
+    }
+
+    // No review of the revision may land after the exam has started
+    const { data: sessions, error: sessionsError } = await supabaseClient
+      .from('study_sessions')
+      .select('id')
+      .eq('user_id', user.id)
+      .eq('exam_id', body.exam_id)
+      .is('deleted_at', null);
+    if (sessionsError) handleDbError(sessionsError);
+    const sessionIds = (sessions ?? []).map(session => session.id);
+    if (sessionIds.length > 0) {
+      const { error: cancelError } = await supabaseClient
+        .from('reminders')
+        .update({
+          completed: true,
+          processed_at: new Date().toISOString(),
+          action_taken: 'exam_moved',
+        })
+        .eq('user_id', user.id)
+        .in('session_id', sessionIds)
+        .eq('reminder_type', 'spaced_repetition')
+        .eq('completed', false)
+        .gte('reminder_time', body.exam_date!);
+      if (cancelError) handleDbError(cancelError);
+      revisionOutdated = true;
+    }
+  }
+
+  return {
+    ...(await decryptExam(exam, encryptionKey)),
+    revision_outdated: revisionOutdated,
+  };
+}
+
+export async function handleDeleteExam(req: AuthenticatedRequest) {
+  const { user, supabaseClient, body } = req;
+
+  await getOwnExam(supabaseClient, user.id, body.exam_id);
+
+  const { error } = await supabaseClient
+    .from('exams')
+    .update({ deleted_at: new Date().toISOString() })
+    .eq('id', body.exam_id)
+    .eq('user_id', user.id);
+  if (error) handleDbError(error);
+
+  // Revision sessions stay; only the exam's own reminders go
+  const { error: reminderError } = await supabaseClient
+    .from('reminders')
+    .delete()
+    .eq('user_id', user.id)
+    .eq('exam_id', body.exam_id)
+    .eq('completed', false);
+  if (reminderError) handleDbError(reminderError);
+
+  return { success: true };
+}
+
+/** Undoes a delete; reminders removed with the exam are not brought back */
+export async function handleRestoreExam(req: AuthenticatedRequest) {
+  const { user, supabaseClient, body } = req;
+
+  const { data, error } = await supabaseClient
+    .from('exams')
+    .update({ deleted_at: null })
+    .eq('id', body.exam_id)
+    .eq('user_id', user.id)
+    .select()
+    .maybeSingle();
+
+  if (error) handleDbError(error);
+  if (!data) {
+    throw new AppError('Exam not found', 404, ERROR_CODES.NOT_FOUND);
+  }
+  return decryptExam(data as ExamRow, getEncryptionKey());
+}
+
+/** The revision plan for an exam, and whether reviews can be scheduled */
+async function buildRevisionPlan(
+  supabaseClient: SupabaseClient,
+  userId: string,
+  exam: ExamRow,
+  encryptionKey: string,
+) {
+  const [userRes, hourRes, limitRes] = await Promise.all([
+    supabaseClient
+      .from('users')
+      .select('timezone, subscription_tier')
+      .eq('id', userId)
+      .maybeSingle(),
+    supabaseClient.rpc('get_optimal_reminder_hour', {
+      p_user_id: userId,
+      p_reminder_type: 'spaced_repetition',
+    }),
+    supabaseClient.rpc('can_create_srs_reminders', { p_user_id: userId }),
+  ]);
+  if (userRes.error) handleDbError(userRes.error);
+  if (limitRes.error) handleDbError(limitRes.error);
+
+  const { title, topics } = await decryptExam(exam, encryptionKey);
+  const sessions = planExamRevision(topics.length > 0 ? topics : [title], {
+    examDate: new Date(exam.exam_date),
+    now: new Date(),
+    timeZone: (userRes.data?.timezone as string | null) || 'UTC',
+    hour: typeof hourRes.data === 'number' ? hourRes.data : 10,
+  });
+
+  return {
+    sessions,
+    reviewsEnabled:
+      isPremium(userRes.data?.subscription_tier || 'free') &&
+      limitRes.data !== false,
+  };
+}
+
+export async function handleGetExamRevisionPlan(req: AuthenticatedRequest) {
+  const { user, supabaseClient } = req;
+  const examId = extractIdFromUrl(req.url);
+  if (!examId) {
+    throw new AppError(
+      'Exam ID is required',
+      400,
+      ERROR_CODES.MISSING_REQUIRED_FIELD,
+    );
+  }
+  const encryptionKey = getEncryptionKey();
+
+  const exam = await getOwnExam(supabaseClient, user.id, examId);
+  const [{ sessions, reviewsEnabled }, existingRes] = await Promise.all([
+    buildRevisionPlan(supabaseClient, user.id, exam, encryptionKey),
+    supabaseClient
+      .from('study_sessions')
+      .select('id', { count: 'exact', head: true })
+      .eq('user_id', user.id)
+      .eq('exam_id', examId)
+      .is('deleted_at', null)
+      .gt('session_date', new Date().toISOString()),
+  ]);
+  if (existingRes.error) handleDbError(existingRes.error);
+
+  return {
+    exam_id: examId,
+    exam_date: exam.exam_date,
+    session_minutes: REVISION_SESSION_MINUTES,
+    sessions: reviewsEnabled
+      ? sessions
+      : sessions.map(session => ({ ...session, reviews: [] })),
+    reviews_enabled: reviewsEnabled,
+    // Upcoming sessions of an earlier plan that accepting would replace
+    replaced_session_count: existingRes.count ?? 0,
+  };
+}
+
+export async function handleAcceptExamRevisionPlan(req: AuthenticatedRequest) {
+  const { user, supabaseClient, body } = req;
+  const encryptionKey = getEncryptionKey();
+  const now = new Date();
+
+  const exam = await getOwnExam(supabaseClient, user.id, body.exam_id);
+  const { sessions, reviewsEnabled } = await buildRevisionPlan(
+    supabaseClient,
+    user.id,
+    exam,
+    encryptionKey,
+  );
+  if (sessions.length === 0) {
+    throw new AppError(
+      'The exam is too close to plan revision',
+      400,
+      ERROR_CODES.VALIDATION_ERROR,
+    );
+  }
+
+  // Upcoming sessions of an earlier plan are replaced; past ones stay
+  const { data: replaced, error: replacedError } = await supabaseClient
+    .from('study_sessions')
+    .update({ deleted_at: now.toISOString() })
+    .eq('user_id', user.id)
+    .eq('exam_id', body.exam_id)
+    .is('deleted_at', null)
+    .gt('session_date', now.toISOString())
+    .select('id');
+  if (replacedError) handleDbError(replacedError);
+  const replacedIds = (replaced ?? []).map(session => session.id);
+  if (replacedIds.length > 0) {
+    const { error: cancelError } = await supabaseClient
+      .from('reminders')
+      .delete()
+      .eq('user_id', user.id)
+      .in('session_id', replacedIds)
+      .eq('completed', false);
+    if (cancelError) handleDbError(cancelError);
+  }
+
+  const { data: created, error: insertError } = await supabaseClient
+    .from('study_sessions')
+    .insert(
+      await Promise.all(
+        sessions.map(async session => ({
+          user_id: user.id,
+          course_id: exam.course_id,
+          topic: await encrypt(session.topic, encryptionKey),
+          session_date: session.session_date,
+          duration_minutes: REVISION_SESSION_MINUTES,
+          has_spaced_repetition: reviewsEnabled,
+          exam_id: body.exam_id,
+        })),
+      ),
+    )
+    .select('id, session_date');
+  if (insertError) handleDbError(insertError);
+
+  // Rows come back in insert order
+  const createdSessions = created ?? [];
+  const reminders = createdSessions.flatMap((row, index) => {
+    const { topic, reviews } = sessions[index];
+    const sessionReminder = {
+      user_id: user.id,
+      session_id: row.id,
+      reminder_time: new Date(
+        Date.parse(row.session_date) - SESSION_REMINDER_MINUTES * MINUTE_MS,
+      ).toISOString(),
+      reminder_type: 'study_session',
+      day_number: 1,
+      completed: false,
+    };
+    const reviewReminders = reviewsEnabled
+      ? reviews.map((reviewTime, reviewIndex) => ({
+          user_id: user.id,
+          session_id: row.id,
+          reminder_time: reviewTime,
+          reminder_type: 'spaced_repetition',
+          title: `Spaced Repetition: Review "${topic}"`,
+          body: `Review "${topic}" before your exam to strengthen your memory.`,
+          completed: false,
+          // The last reviews before the exam matter most
+          priority: reviewIndex === reviews.length - 1 ? 'high' : 'medium',
+        }))
+      : [];
+    return [sessionReminder, ...reviewReminders].filter(
+      reminder => Date.parse(reminder.reminder_time) > now.getTime(),
+    );
+  });
+  if (reminders.length > 0) {
+    const { error: reminderError } = await supabaseClient
+      .from('reminders')
+      .insert(reminders);
+    if (reminderError) handleDbError(reminderError);
+  }
+
+  return {
+    created: createdSessions,
+    review_count: reminders.filter(
+      reminder => reminder.reminder_type === 'spaced_repetition',
+    ).length,
+    replaced_count: replacedIds.length,
+  };
+}
@@ -0,0 +1,379 @@
+/**
+ * Flashcard Import Handler for api-v2
+ *
+ * flashcard-decks/import turns an Anki package (.apkg) or a CSV/TSV file
+ * into course decks. Packages are unzipped and their SQLite collection is
+ * read here; mapping notes, cards and review history to flashcards happens
+ * in _shared/anki-import.ts. Images the cards use are uploaded to the
+ * flashcard-media bucket.
+ */
+
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.39.3';
+import { decode as decodeBase64 } from 'https://deno.land/std@0.168.0/encoding/base64.ts';
+import { strFromU8, unzipSync } from 'https://esm.sh/fflate@0.8.2';
+import { DB } from 'https://deno.land/x/sqlite@v3.9.1/mod.ts';
+import { AuthenticatedRequest, AppError } from '../_shared/function-handler.ts';
+import { ERROR_CODES } from '../_shared/error-codes.ts';
+import { encrypt } from '../_shared/encryption.ts';
+import { isPremium, TASK_LIMITS } from '../_shared/permissions.ts';
+import {
+  mapAnkiCollection,
+  parseDelimitedFlashcards,
+  type AnkiCollection,
+  type FlashcardImportDraft,
+} from '../_shared/anki-import.ts';
+import { handleDbError } from './_handler-utils.ts';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MEDIA_BUCKET = 'flashcard-media';
+const MAX_MEDIA_FILES = 500;
+const MAX_MEDIA_FILE_BYTES = 5 * 1024 * 1024;
+const INSERT_BATCH_SIZE = 500;
+
+const IMAGE_TYPES: Record<string, string> = {
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  gif: 'image/gif',
+  webp: 'image/webp',
+  svg: 'image/svg+xml',
+};
+
+interface AnkiPackage {
+  draft: FlashcardImportDraft;
+  /** Media files by the name cards refer to them with */
+  media: Map<string, Uint8Array>;
+}
+
+function getEncryptionKey(): string {
+  const encryptionKey = Deno.env.get('ENCRYPTION_KEY');
+  if (!encryptionKey) {
+    throw new AppError(
+      'Encryption key not configured.',
+      500,
+      ERROR_CODES.CONFIG_ERROR,
+    );
+  }
+  return encryptionKey;
+}
+
+function invalidPackage(message: string): never {
+  throw new AppError(message, 422, ERROR_CODES.VALIDATION_ERROR);
+}
+
+function readCollection(bytes: Uint8Array): AnkiCollection {
+  const db = new DB();
+  try {
+    db.deserialize(bytes, { mode: 'read' });
+
+    const [col] = db.queryEntries<{
+      crt: number;
+      models: string;
+      decks: string;
+    }>('SELECT crt, models, decks FROM col LIMIT 1');
+    if (!col || !col.models || col.models === '{}') {
+      invalidPackage(
+        'This Anki collection format is not supported. Export again with "Support older Anki versions" ticked.',
+      );
+    }
+
+    return {
+      createdAt: col.crt,
+      models: JSON.parse(col.models),
+      decks: JSON.parse(col.decks),
+      notes: db.queryEntries<AnkiCollection['notes'][number]>(
+        'SELECT id, mid, flds FROM notes',
+      ),
+      cards: db.queryEntries<AnkiCollection['cards'][number]>(
+        'SELECT id, nid, did, ord, type, queue, due, ivl FROM cards',
+      ),
+      revlog: db.queryEntries<AnkiCollection['revlog'][number]>(
+        'SELECT id, cid, ease, ivl, lastIvl, factor, time, type FROM revlog',
+      ),
+    };
+  } catch (error) {
+    if (error instanceof AppError) throw error;
+    invalidPackage('The Anki collection in this package could not be read.');
+  } finally {
+    db.close();
+  }
+}
+
+function readAnkiPackage(content: string): AnkiPackage {
+  let files: Record<string, Uint8Array>;
+  try {
+    files = unzipSync(decodeBase64(content));
+  } catch {
+    invalidPackage('This file is not a valid Anki package (.apkg).');
+  }
+
+  // Packages from Anki 2.1.50+ carry a placeholder collection.anki2 next
+  // to the real one, so the newest readable file wins
+  const collectionFile =
+    files['collection.anki21'] ?? files['collection.anki2'];
+  if (!collectionFile) {
+    invalidPackage(
+      files['collection.anki21b']
+        ? 'This package uses the newest Anki format. In Anki, export again with "Support older Anki versions" ticked.'
+        : 'This Anki package has no collection to import.',
+    );
+  }
+
+  const draft = mapAnkiCollection(readCollection(collectionFile));
+
+  // The media file maps the numbered files in the zip to their names
+  const media = new Map<string, Uint8Array>();
+  if (files['media']) {
+    try {
+      const names = JSON.parse(strFromU8(files['media'])) as Record<
+        string,
+        string
+      >;
+      for (const [index, name] of Object.entries(names)) {
+        if (files[index]) media.set(name, files[index]);
+      }
+    } catch {
+      draft.warnings.push('Images in this package could not be read');
+    }
+  }
+
+  return { draft, media };
+}
+
+/** Flashcards the user may still create this week; null when unlimited */
+async function getRemainingFlashcards(
+  supabaseClient: SupabaseClient,
+  userId: string,
+): Promise<number | null> {
+  const { data: profile, error } = await supabaseClient
+    .from('users')
+    .select('subscription_tier')
+    .eq('id', userId)
+    .single();
+  if (error) handleDbError(error);
+
+  if (isPremium(profile?.subscription_tier || 'free')) return null;
+
+  const { count, error: countError } = await supabaseClient
+    .from('flashcards')
+    .select('id', { count: 'exact', head: true })
+    .eq('user_id', userId)
+    .gte('created_at', new Date(Date.now() - 7 * DAY_MS).toISOString())
+    .is('deleted_at', null);
+  if (countError) handleDbError(countError);
+
+  return Math.max(0, TASK_LIMITS.free.flashcards - (count ?? 0));
+}
+
+/**
+ * Upload the images cards refer to, returning their public URLs by name
+ */
+async function uploadMedia(
+  supabaseClient: SupabaseClient,
+  userId: string,
+  names: string[],
+  media: Map<string, Uint8Array>,
+  warnings: string[],
+): Promise<Map<string, string>> {
+  const urls = new Map<string, string>();
+  let missing = 0;
+  let skipped = 0;
+
+  for (const name of names) {
+    const data = media.get(name);
+    const contentType = IMAGE_TYPES[name.split('.').pop()?.toLowerCase() ?? ''];
+    if (!data) {
+      missing += 1;
+      continue;
+    }
+    if (
+      !contentType ||
+      data.byteLength > MAX_MEDIA_FILE_BYTES ||
+      urls.size >= MAX_MEDIA_FILES
+    ) {
+      skipped += 1;
+      continue;
+    }
+
+    const path = `${userId}/${crypto.randomUUID()}-${name.replace(/[^\w.-]+/g, '_')}`;
+    const { error } = await supabaseClient.storage
+      .from(MEDIA_BUCKET)
+      .upload(path, data, { contentType });
+    if (error) {
+      skipped += 1;
+      continue;
+    }
+    urls.set(
+      name,
+      supabaseClient.storage.from(MEDIA_BUCKET).getPublicUrl(path).data
+        .publicUrl,
+    );
+  }
+
+  if (missing > 0) {
+    warnings.push(
+      `${missing} image${missing === 1 ? ' was' : 's were'} missing from the package`,
+    );
+  }
+  if (skipped > 0) {
+    warnings.push(
+      `${skipped} image${skipped === 1 ? ' was' : 's were'} not imported (unsupported type, larger than 5 MB or over ${MAX_MEDIA_FILES} images)`,
+    );
+  }
+  return urls;
+}
+
+async function insertInBatches(
+  supabaseClient: SupabaseClient,
+  table: string,
+  rows: Record<string, unknown>[],
+) {
+  for (let i = 0; i < rows.length; i += INSERT_BATCH_SIZE) {
+    const { error } = await supabaseClient
+      .from(table)
+      .insert(rows.slice(i, i + INSERT_BATCH_SIZE));
+    if (error) handleDbError(error);
+  }
+}
+
+export async function handleImportFlashcards({
+  user,
+  supabaseClient,
+  body,
+}: AuthenticatedRequest) {
+  const { course_id, file_name, format, content } = body as {
+    course_id: string;
+    file_name: string;
+    format: 'apkg' | 'text';
+    content: string;
+  };
+  const encryptionKey = getEncryptionKey();
+
+  const { data: course, error: courseError } = await supabaseClient
+    .from('courses')
+    .select('id')
+    .eq('id', course_id)
+    .eq('user_id', user.id)
+    .is('deleted_at', null)
+    .maybeSingle();
+  if (courseError) handleDbError(courseError);
+  if (!course) {
+    throw new AppError(
+      'Course not found or access denied.',
+      404,
+      ERROR_CODES.DB_NOT_FOUND,
+    );
+  }
+
+  const { draft, media } =
+    format === 'apkg'
+      ? readAnkiPackage(content)
+      : {
+          draft: parseDelimitedFlashcards(content, file_name),
+          media: new Map<string, Uint8Array>(),
+        };
+
+  const cardCount = draft.decks.reduce(
+    (sum, deck) => sum + deck.cards.length,
+    0,
+  );
+  if (cardCount === 0) {
+    throw new AppError(
+      'No flashcards were found in this file.',
+      422,
+      ERROR_CODES.VALIDATION_ERROR,
+      { warnings: draft.warnings },
+    );
+  }
+
+  const remaining = await getRemainingFlashcards(supabaseClient, user.id);
+  if (remaining !== null && cardCount > remaining) {
+    throw new AppError(
+      `This import adds ${cardCount} flashcards but you can only add ${remaining} more this week on the free plan (limit ${TASK_LIMITS.free.flashcards}).`,
+      403,
+      ERROR_CODES.RESOURCE_LIMIT_EXCEEDED,
+      { required: cardCount, remaining },
+    );
+  }
+
+  const warnings = [...draft.warnings];
+  const imageNames = [
+    ...new Set(
+      draft.decks.flatMap(deck =>
+        deck.cards.flatMap(card => (card.image ? [card.image] : [])),
+      ),
+    ),
+  ];
+  const imageUrls = await uploadMedia(
+    supabaseClient,
+    user.id,
+    imageNames,
+    media,
+    warnings,
+  );
+
+  const decks = [];
+  let reviewCount = 0;
+  for (const draftDeck of draft.decks) {
+    const { data: deck, error: deckError } = await supabaseClient
+      .from('flashcard_decks')
+      .insert({
+        user_id: user.id,
+        course_id,
+        title: await encrypt(draftDeck.title, encryptionKey),
+      })
+      .select('id')
+      .single();
+    if (deckError) handleDbError(deckError);
+
+    const cardRows: Record<string, unknown>[] = [];
+    const reviewRows: Record<string, unknown>[] = [];
+    for (const draftCard of draftDeck.cards) {
+      // Ids are set here so reviews can point at their card before insert
+      const cardId = crypto.randomUUID();
+      const lastReview = draftCard.reviews[draftCard.reviews.length - 1];
+      cardRows.push({
+        id: cardId,
+        user_id: user.id,
+        deck_id: deck.id,
+        card_type: draftCard.card_type,
+        front: await encrypt(draftCard.front, encryptionKey),
+        back: draftCard.back
+          ? await encrypt(draftCard.back, encryptionKey)
+          : null,
+        image_url: draftCard.image
+          ? (imageUrls.get(draftCard.image) ?? null)
+          : null,
+        due_at: draftCard.due_at ?? new Date().toISOString(),
+        last_reviewed_at: lastReview?.review_date ?? null,
+        review_count: draftCard.reviews.length,
+      });
+      for (const review of draftCard.reviews) {
+        reviewRows.push({
+          ...review,
+          user_id: user.id,
+          flashcard_id: cardId,
+          deck_id: deck.id,
+          scheduler: 'sm2',
+        });
+      }
+    }
+
+    await insertInBatches(supabaseClient, 'flashcards', cardRows);
+    await insertInBatches(supabaseClient, 'flashcard_reviews', reviewRows);
+    reviewCount += reviewRows.length;
+    decks.push({
+      id: deck.id,
+      title: draftDeck.title,
+      card_count: cardRows.length,
+    });
+  }
+
+  return {
+    decks,
+    card_count: cardCount,
+    review_count: reviewCount,
+    image_count: imageUrls.size,
+    warnings,
+  };
+}
@@ -0,0 +1,453 @@
+/**
+ * Flashcard Handlers for api-v2
+ *
+ * A deck belongs to a study session or a course. Each card keeps its own
+ * review history in flashcard_reviews and is scheduled by the user's SRS
+ * scheduler (see _shared/srs-scheduler.ts), the same way srs_performance
+ * schedules whole sessions. Card reviews only move the card's due date;
+ * the session's own review reminders are left alone.
+ */
+
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.39.3';
+import { AuthenticatedRequest, AppError } from '../_shared/function-handler.ts';
+import { ERROR_CODES } from '../_shared/error-codes.ts';
+import { decrypt, encrypt } from '../_shared/encryption.ts';
+import {
+  createSRSScheduler,
+  getSRSSchedulerSettings,
+  SRS_REVIEW_RECORD_COLUMNS,
+  type SRSReviewRecord,
+  type SRSScheduleResult,
+} from '../_shared/srs-scheduler.ts';
+import { extractIdFromUrl, handleDbError } from './_handler-utils.ts';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+interface DeckRow {
+  id: string;
+  title: string;
+  description: string | null;
+  [key: string]: unknown;
+}
+
+interface CardRow {
+  id: string;
+  deck_id: string;
+  front: string;
+  back: string | null;
+  [key: string]: unknown;
+}
+
+function getEncryptionKey(): string {
+  const encryptionKey = Deno.env.get('ENCRYPTION_KEY');
+  if (!encryptionKey) {
+    throw new AppError(
+      'Encryption key not configured.',
+      500,
+      ERROR_CODES.CONFIG_ERROR,
+    );
+  }
+  return encryptionKey;
+}
+
+async function decryptDeck(deck: DeckRow, encryptionKey: string) {
+  return {
+    ...deck,
+    title: await decrypt(deck.title, encryptionKey),
+    description: deck.description
+      ? await decrypt(deck.description, encryptionKey)
+      : null,
+  };
+}
+
+async function decryptCard(card: CardRow, encryptionKey: string) {
+  return {
+    ...card,
+    front: await decrypt(card.front, encryptionKey),
+    back: card.back ? await decrypt(card.back, encryptionKey) : null,
+  };
+}
+
+async function getOwnDeck(
+  supabaseClient: SupabaseClient,
+  userId: string,
+  deckId: string,
+): Promise<DeckRow> {
+  const { data, error } = await supabaseClient
+    .from('flashcard_decks')
+    .select('*')
+    .eq('id', deckId)
+    .eq('user_id', userId)
+    .is('deleted_at', null)
+    .maybeSingle();
+
+  if (error) handleDbError(error);
+  if (!data) {
+    throw new AppError('Deck not found', 404, ERROR_CODES.NOT_FOUND);
+  }
+  return data;
+}
+
+async function getOwnCard(
+  supabaseClient: SupabaseClient,
+  userId: string,
+  cardId: string,
+): Promise<CardRow> {
+  const { data, error } = await supabaseClient
+    .from('flashcards')
+    .select('*')
+    .eq('id', cardId)
+    .eq('user_id', userId)
+    .is('deleted_at', null)
+    .maybeSingle();
+
+  if (error) handleDbError(error);
+  if (!data) {
+    throw new AppError('Flashcard not found', 404, ERROR_CODES.NOT_FOUND);
+  }
+  return data;
+}
+
+/**
+ * Decks of a study session and/or the course-wide decks of a course, with
+ * how many of their cards are due now (?study_session_id=…&course_id=…)
+ */
+export async function handleListFlashcardDecks(req: AuthenticatedRequest) {
+  const { user, supabaseClient } = req;
+  const encryptionKey = getEncryptionKey();
+  const params = new URL(req.url).searchParams;
+  const sessionId = params.get('study_session_id');
+  const courseId = params.get('course_id');
+
+  const owners = [
+    sessionId ? `study_session_id.eq.${sessionId}` : null,
+    courseId ? `and(course_id.eq.${courseId},study_session_id.is.null)` : null,
+  ].filter(Boolean);
+  if (owners.length === 0) {
+    throw new AppError(
+      'study_session_id or course_id is required',
+      400,
+      ERROR_CODES.VALIDATION_ERROR,
+    );
+  }
+
+  const { data: decks, error } = await supabaseClient
+    .from('flashcard_decks')
+    .select('*')
+    .eq('user_id', user.id)
+    .is('deleted_at', null)
+    .or(owners.join(','))
+    .order('created_at', { ascending: true });
+  if (error) handleDbError(error);
+  if (!decks || decks.length === 0) return [];
+
+  const { data: cards, error: cardsError } = await supabaseClient
+    .from('flashcards')
+    .select('deck_id, due_at')
+    .in(
+      'deck_id',
+      decks.map(deck => deck.id),
+    )
+    .is('deleted_at', null);
+  if (cardsError) handleDbError(cardsError);
+
+  const now = Date.now();
+  return Promise.all(
+    decks.map(async deck => {
+      const deckCards = (cards ?? []).filter(card => card.deck_id === deck.id);
+      return {
+        ...(await decryptDeck(deck as DeckRow, encryptionKey)),
+        card_count: deckCards.length,
+        due_count: deckCards.filter(card => Date.parse(card.due_at) <= now)
+          .length,
+      };
+    }),
+  );
+}
+
+export async function handleCreateFlashcardDeck(req: AuthenticatedRequest) {
+  const { user, supabaseClient, body } = req;
+  const encryptionKey = getEncryptionKey();
+
+  if (body.study_session_id) {
+    const { data: session, error } = await supabaseClient
+      .from('study_sessions')
+      .select('id')
+      .eq('id', body.study_session_id)
+      .eq('user_id', user.id)
+      .is('deleted_at', null)
+      .maybeSingle();
+    if (error) handleDbError(error);
+    if (!session) {
+      throw new AppError(
+        'Study session not found or access denied.',
+        404,
+        ERROR_CODES.DB_NOT_FOUND,
+      );
+    }
+  } else {
+    const { data: course, error } = await supabaseClient
+      .from('courses')
+      .select('id')
+      .eq('id', body.course_id)
+      .eq('user_id', user.id)
+      .is('deleted_at', null)
+      .maybeSingle();
+    if (error) handleDbError(error);
+    if (!course) {
+      throw new AppError(
+        'Course not found or access denied.',
+        404,
+        ERROR_CODES.DB_NOT_FOUND,
+      );
+    }
+  }
+
+  const { data: deck, error } = await supabaseClient
+    .from('flashcard_decks')
+    .insert({
+      user_id: user.id,
+      // Session decks belong to the session only, course decks to the course
+      study_session_id: body.study_session_id ?? null,
+      course_id: body.study_session_id ? null : body.course_id,
+      title: await encrypt(body.title, encryptionKey),
+      description: body.description
+        ? await encrypt(body.description, encryptionKey)
+        : null,
+    })
+    .select()
+    .single();
+  if (error) handleDbError(error);
+
+  return {
+    ...deck,
+    title: body.title,
+    description: body.description ?? null,
+    card_count: 0,
+    due_count: 0,
+  };
+}
+
+export async function handleUpdateFlashcardDeck(req: AuthenticatedRequest) {
+  const { user, supabaseClient, body } = req;
+  const encryptionKey = getEncryptionKey();
+
+  const existing = await getOwnDeck(supabaseClient, user.id, body.deck_id);
+
+  const updates: Record<string, unknown> = {};
+  if (body.title !== undefined) {
+    updates.title = await encrypt(body.title, encryptionKey);
+  }
+  if (body.description !== undefined) {
+    updates.description = body.description
+      ? await encrypt(body.description, encryptionKey)
+      : null;
+  }
+  if (Object.keys(updates).length === 0) {
+    return decryptDeck(existing, encryptionKey);
+  }
+
+  const { data, error } = await supabaseClient
+    .from('flashcard_decks')
+    .update(updates)
+    .eq('id', body.deck_id)
+    .eq('user_id', user.id)
+    .select()
+    .single();
+  if (error) handleDbError(error);
+
+  return decryptDeck(data as DeckRow, encryptionKey);
+}
+
+/** Soft-deletes a deck; its cards and their review history are kept */
+export async function handleDeleteFlashcardDeck(req: AuthenticatedRequest) {
+  const { user, supabaseClient, body } = req;
+
+  await getOwnDeck(supabaseClient, user.id, body.deck_id);
+
+  const { error } = await supabaseClient
+    .from('flashcard_decks')
+    .update({ deleted_at: new Date().toISOString() })
+    .eq('id', body.deck_id)
+    .eq('user_id', user.id);
+  if (error) handleDbError(error);
+
+  return { success: true };
+}
+
+/** The cards of a deck, the most overdue first */
+export async function handleListFlashcards(req: AuthenticatedRequest) {
+  const { user, supabaseClient } = req;
+  const encryptionKey = getEncryptionKey();
+  const deckId = extractIdFromUrl(req.url);
+  if (!deckId) {
+    throw new AppError(
+      'Deck ID is required',
+      400,
+      ERROR_CODES.VALIDATION_ERROR,
+    );
+  }
+
+  await getOwnDeck(supabaseClient, user.id, deckId);
+
+  const { data, error } = await supabaseClient
+    .from('flashcards')
+    .select('*')
+    .eq('deck_id', deckId)
+    .eq('user_id', user.id)
+    .is('deleted_at', null)
+    .order('due_at', { ascending: true });
+  if (error) handleDbError(error);
+
+  return Promise.all(
+    (data ?? []).map(card => decryptCard(card as CardRow, encryptionKey)),
+  );
+}
+
+export async function handleCreateFlashcard(req: AuthenticatedRequest) {
+  const { user, supabaseClient, body } = req;
+  const encryptionKey = getEncryptionKey();
+
+  await getOwnDeck(supabaseClient, user.id, body.deck_id);
+
+  const { data: card, error } = await supabaseClient
+    .from('flashcards')
+    .insert({
+      user_id: user.id,
+      deck_id: body.deck_id,
+      card_type: body.card_type,
+      front: await encrypt(body.front, encryptionKey),
+      back: body.back ? await encrypt(body.back, encryptionKey) : null,
+      image_url: body.image_url || null,
+    })
+    .select()
+    .single();
+  if (error) handleDbError(error);
+
+  return { ...card, front: body.front, back: body.back || null };
+}
+
+/** Editing a card keeps its schedule and review history */
+export async function handleUpdateFlashcard(req: AuthenticatedRequest) {
+  const { user, supabaseClient, body } = req;
+  const encryptionKey = getEncryptionKey();
+
+  const existing = await getOwnCard(supabaseClient, user.id, body.flashcard_id);
+
+  const updates: Record<string, unknown> = {};
+  if (body.card_type !== undefined) updates.card_type = body.card_type;
+  if (body.front !== undefined) {
+    updates.front = await encrypt(body.front, encryptionKey);
+  }
+  if (body.back !== undefined) {
+    updates.back = body.back ? await encrypt(body.back, encryptionKey) : null;
+  }
+  if (body.image_url !== undefined) updates.image_url = body.image_url || null;
+  if (Object.keys(updates).length === 0) {
+    return decryptCard(existing, encryptionKey);
+  }
+
+  const { data, error } = await supabaseClient
+    .from('flashcards')
+    .update(updates)
+    .eq('id', body.flashcard_id)
+    .eq('user_id', user.id)
+    .select()
+    .single();
+  if (error) handleDbError(error);
+
+  return decryptCard(data as CardRow, encryptionKey);
+}
+
+export async function handleDeleteFlashcard(req: AuthenticatedRequest) {
+  const { user, supabaseClient, body } = req;
+
+  await getOwnCard(supabaseClient, user.id, body.flashcard_id);
+
+  const { error } = await supabaseClient
+    .from('flashcards')
+    .update({ deleted_at: new Date().toISOString() })
+    .eq('id', body.flashcard_id)
+    .eq('user_id', user.id);
+  if (error) handleDbError(error);
+
+  return { success: true };
+}
+
+/**
+ * Records a review of one card and moves its due date by the interval the
+ * user's scheduler picks from the card's own history
+ */
+export async function handleReviewFlashcard(req: AuthenticatedRequest) {
+  const { user, supabaseClient, body } = req;
+  const { flashcard_id, quality_rating, response_time_seconds } = body;
+
+  const card = await getOwnCard(supabaseClient, user.id, flashcard_id);
+
+  const { data: history, error: historyError } = await supabaseClient
+    .from('flashcard_reviews')
+    .select(SRS_REVIEW_RECORD_COLUMNS)
+    .eq('flashcard_id', flashcard_id)
+    .eq('user_id', user.id)
+    .order('review_date', { ascending: true });
+  if (historyError) handleDbError(historyError);
+
+  const settings = await getSRSSchedulerSettings(supabaseClient, user.id);
+  const scheduler = createSRSScheduler(settings, supabaseClient);
+
+  const reviewedAt = new Date();
+  let schedule: SRSScheduleResult;
+  try {
+    schedule = await scheduler.schedule((history ?? []) as SRSReviewRecord[], {
+      qualityRating: quality_rating,
+      reviewedAt,
+    });
+  } catch (calcError) {
+    handleDbError(calcError);
+  }
+
+  const { data: review, error: reviewError } = await supabaseClient
+    .from('flashcard_reviews')
+    .insert({
+      user_id: user.id,
+      flashcard_id,
+      deck_id: card.deck_id,
+      review_date: reviewedAt.toISOString(),
+      quality_rating,
+      response_time_seconds,
+      ease_factor: schedule.easeFactor,
+      interval_days: schedule.intervalDays,
+      next_interval_days: schedule.nextIntervalDays,
+      repetition_number: schedule.repetitionNumber,
+      scheduler: schedule.scheduler,
+      stability: schedule.stability,
+      difficulty: schedule.difficulty,
+      retrievability: schedule.retrievability,
+    })
+    .select()
+    .single();
+  if (reviewError) handleDbError(reviewError);
+
+  // Failed cards come back in the same sitting instead of tomorrow
+  const dueAt =
+    quality_rating < 3
+      ? reviewedAt
+      : new Date(reviewedAt.getTime() + schedule.nextIntervalDays * DAY_MS);
+  const { error: cardError } = await supabaseClient
+    .from('flashcards')
+    .update({
+      due_at: dueAt.toISOString(),
+      last_reviewed_at: reviewedAt.toISOString(),
+      review_count: (history ?? []).length + 1,
+    })
+    .eq('id', flashcard_id)
+    .eq('user_id', user.id);
+  if (cardError) handleDbError(cardError);
+
+  return {
+    review,
+    due_at: dueAt.toISOString(),
+    next_interval_days: schedule.nextIntervalDays,
+    scheduler: schedule.scheduler,
+  };
+}
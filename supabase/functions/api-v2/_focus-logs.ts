@@ -0,0 +1,90 @@
+/**
+ * Focus Log Handlers for api-v2
+ *
+ * study-sessions/focus-log records a finished focus (Pomodoro) timer run and
+ * adds the time actually spent focusing to the study session it was started
+ * from (study_sessions.time_spent_minutes).
+ */
+
+import { AuthenticatedRequest, AppError } from '../_shared/function-handler.ts';
+import { ERROR_CODES } from '../_shared/error-codes.ts';
+import { handleDbError } from './_handler-utils.ts';
+
+interface FocusInterruption {
+  reason: 'paused' | 'left_app';
+  started_at: string;
+  ended_at: string;
+}
+
+interface RecordFocusLogBody {
+  study_session_id?: string;
+  started_at: string;
+  ended_at: string;
+  work_minutes: number;
+  short_break_minutes: number;
+  long_break_minutes: number;
+  planned_cycles: number;
+  completed_cycles: number;
+  focused_seconds: number;
+  break_seconds: number;
+  interruptions: FocusInterruption[];
+  status: 'completed' | 'stopped';
+}
+
+export async function handleRecordFocusLog(req: AuthenticatedRequest) {
+  const { user, supabaseClient } = req;
+  const body = req.body as RecordFocusLogBody;
+
+  let timeSpentMinutes: number | null = null;
+  if (body.study_session_id) {
+    const { data: session, error } = await supabaseClient
+      .from('study_sessions')
+      .select('id, time_spent_minutes')
+      .eq('id', body.study_session_id)
+      .eq('user_id', user.id)
+      .is('deleted_at', null)
+      .maybeSingle();
+
+    if (error) handleDbError(error);
+    if (!session) {
+      throw new AppError('Study session not found', 404, ERROR_CODES.NOT_FOUND);
+    }
+    timeSpentMinutes = session.time_spent_minutes ?? 0;
+  }
+
+  const { data: log, error: insertError } = await supabaseClient
+    .from('focus_logs')
+    .insert({
+      user_id: user.id,
+      study_session_id: body.study_session_id ?? null,
+      started_at: body.started_at,
+      ended_at: body.ended_at,
+      work_minutes: body.work_minutes,
+      short_break_minutes: body.short_break_minutes,
+      long_break_minutes: body.long_break_minutes,
+      planned_cycles: body.planned_cycles,
+      completed_cycles: body.completed_cycles,
+      focused_seconds: body.focused_seconds,
+      break_seconds: body.break_seconds,
+      interruption_count: body.interruptions.length,
+      interruptions: body.interruptions,
+      status: body.status,
+    })
+    .select()
+    .single();
+
+  if (insertError) handleDbError(insertError);
+
+  const focusedMinutes = Math.round(body.focused_seconds / 60);
+  if (body.study_session_id && focusedMinutes > 0) {
+    const { error: updateError } = await supabaseClient
+      .from('study_sessions')
+      .update({ time_spent_minutes: (timeSpentMinutes ?? 0) + focusedMinutes })
+      .eq('id', body.study_session_id)
+      .eq('user_id', user.id);
+
+    if (updateError) handleDbError(updateError);
+  }
+
+  return log;
+}
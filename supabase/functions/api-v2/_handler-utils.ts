@@ -10,8 +10,19 @@ import {
   AuthenticatedRequest,
   AppError,
 } from '../_shared/function-handler.ts';
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.39.3';
 import { z } from 'zod';
-import { mapDatabaseError } from '../_shared/error-codes.ts';
+import {
+  ERROR_CODES,
+  ERROR_MESSAGES,
+  ERROR_STATUS_CODES,
+  mapDatabaseError,
+} from '../_shared/error-codes.ts';
+import { encrypt, decryptStoredValue } from '../_shared/encryption.ts';
+import {
+  DatabaseEventEmitter,
+  initializeEventDrivenArchitecture,
+} from '../_shared/event-driven-architecture.ts';
 
 /**
  * Wraps an old-style handler function to work with createAuthenticatedHandler
@@ -72,3 +83,186 @@ export function extractIdFromUrl(url: string): string | null {
   const pathParts = urlObj.pathname.split('/').filter(Boolean);
   return pathParts.length > 0 ? pathParts[pathParts.length - 1] : null;
 }
+
+/**
+ * Update a user's row, optionally only if it is still at expectedVersion
+ *
+ * The version column is bumped by a trigger on every update, so a client
+ * that edited an older copy of the row gets a VERSION_CONFLICT (409) with
+ * the current version instead of silently overwriting a newer edit.
+ *
+ * @param table - Table with id, user_id and version columns
+ * @param expectedVersion - Version the client's edit was based on, if known
+ * @throws AppError VERSION_CONFLICT if the row has changed, DB_NOT_FOUND if
+ * it doesn't exist or isn't owned by the user
+ */
+export async function updateWithVersionCheck(
+  supabaseClient: SupabaseClient,
+  table: string,
+  id: string,
+  userId: string,
+  updates: Record<string, unknown>,
+  expectedVersion?: number,
+) {
+  let query = supabaseClient
+    .from(table)
+    .update(updates)
+    .eq('id', id)
+    .eq('user_id', userId); // Ensure ownership
+
+  if (expectedVersion !== undefined) {
+    query = query.eq('version', expectedVersion);
+  }
+
+  const { data, error } = await query.select().maybeSingle();
+  if (error) handleDbError(error);
+  if (data) return data;
+
+  const { data: current, error: currentError } = await supabaseClient
+    .from(table)
+    .select('version, updated_at')
+    .eq('id', id)
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (currentError) handleDbError(currentError);
+  if (!current) {
+    throw new AppError(
+      ERROR_MESSAGES.DB_NOT_FOUND,
+      ERROR_STATUS_CODES.DB_NOT_FOUND,
+      ERROR_CODES.DB_NOT_FOUND,
+    );
+  }
+
+  throw new AppError(
+    ERROR_MESSAGES.VERSION_CONFLICT,
+    ERROR_STATUS_CODES.VERSION_CONFLICT,
+    ERROR_CODES.VERSION_CONFLICT,
+    {
+      expected_version: expectedVersion,
+      current_version: current.version,
+      updated_at: current.updated_at,
+    },
+  );
+}
+
+/**
+ * Columns stored encrypted, as the create-* and update-* functions write them
+ */
+const ENCRYPTED_COLUMNS: Record<string, string[]> = {
+  assignments: ['title', 'description'],
+  lectures: ['lecture_name', 'description'],
+  study_sessions: ['topic', 'notes'],
+};
+
+/**
+ * Task type reported in TaskCompleted events for each task table
+ */
+const TASK_TYPES = {
+  assignments: 'assignment',
+  lectures: 'lecture',
+  study_sessions: 'study_session',
+} as const;
+
+/**
+ * Encrypt the sensitive columns of a row or update before writing it
+ *
+ * @throws AppError CONFIG_ERROR if there are values to encrypt but no key
+ */
+export async function encryptColumns(
+  table: string,
+  values: Record<string, unknown>,
+): Promise<Record<string, unknown>> {
+  const columns = (ENCRYPTED_COLUMNS[table] ?? []).filter(
+    column => typeof values[column] === 'string' && values[column] !== '',
+  );
+  if (columns.length === 0) return values;
+
+  const encryptionKey = Deno.env.get('ENCRYPTION_KEY');
+  if (!encryptionKey) {
+    throw new AppError(
+      'Encryption key not configured.',
+      500,
+      ERROR_CODES.CONFIG_ERROR,
+    );
+  }
+
+  const encrypted = { ...values };
+  for (const column of columns) {
+    encrypted[column] = await encrypt(values[column] as string, encryptionKey);
+  }
+  return encrypted;
+}
+
+/**
+ * Decrypt the sensitive columns of a row read back from the database
+ *
+ * Rows written through api-v2 before it encrypted them are returned as is.
+ */
+export async function decryptColumns<T extends Record<string, unknown> | null>(
+  table: string,
+  row: T,
+): Promise<T> {
+  if (!row) return row;
+  const encryptionKey = Deno.env.get('ENCRYPTION_KEY');
+
+  const decrypted: Record<string, unknown> = { ...row };
+  for (const column of ENCRYPTED_COLUMNS[table] ?? []) {
+    if (typeof row[column] === 'string') {
+      decrypted[column] = await decryptStoredValue(
+        row[column] as string,
+        encryptionKey,
+      );
+    }
+  }
+  return decrypted as T;
+}
+
+/**
+ * Update an assignment, lecture or study session like the update-*
+ * functions do: sensitive columns are encrypted, the row is version
+ * checked, and completing the task emits a TaskCompleted event
+ *
+ * @returns The updated row, decrypted
+ */
+export async function updateTaskWithVersionCheck(
+  supabaseClient: SupabaseClient,
+  table: keyof typeof TASK_TYPES,
+  id: string,
+  userId: string,
+  updates: Record<string, unknown>,
+  expectedVersion?: number,
+) {
+  let completes = false;
+  if (updates.status === 'completed') {
+    const { data: existing, error } = await supabaseClient
+      .from(table)
+      .select('status')
+      .eq('id', id)
+      .eq('user_id', userId)
+      .maybeSingle();
+    if (error) handleDbError(error);
+    completes = !!existing && existing.status !== 'completed';
+  }
+
+  const data = await updateWithVersionCheck(
+    supabaseClient,
+    table,
+    id,
+    userId,
+    await encryptColumns(table, updates),
+    expectedVersion,
+  );
+
+  if (completes) {
+    initializeEventDrivenArchitecture(supabaseClient);
+    await new DatabaseEventEmitter(supabaseClient).emitTaskCompleted({
+      taskId: id,
+      taskType: TASK_TYPES[table],
+      userId,
+      completedAt: new Date().toISOString(),
+    });
+  }
+
+  return await decryptColumns(table, data);
+}
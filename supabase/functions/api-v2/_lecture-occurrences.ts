@@ -0,0 +1,462 @@
+/**
+ * Recurring Lecture Occurrence Handlers for api-v2
+ *
+ * Edit or cancel occurrences of a recurring lecture, addressed by the start
+ * the series gives them (occurrence_start):
+ * - scope 'this': only that occurrence. An edit is stored in
+ *   lecture_occurrence_overrides; a cancellation is added as an EXDATE.
+ * - scope 'following': that occurrence and every later one. The series is
+ *   split - the original lecture now ends before the occurrence and a new
+ *   lecture, with the edit applied, carries the rest.
+ */
+
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.39.3';
+import { AuthenticatedRequest, AppError } from '../_shared/function-handler.ts';
+import {
+  ERROR_CODES,
+  ERROR_MESSAGES,
+  ERROR_STATUS_CODES,
+} from '../_shared/error-codes.ts';
+import { encrypt } from '../_shared/encryption.ts';
+import { timeZoneOffset } from '../_shared/ical.ts';
+import {
+  formatRecurringPattern,
+  isOccurrence,
+  parseRecurringPattern,
+  RECURRENCE_WEEKDAYS,
+  splitRecurrence,
+  type RecurrenceSet,
+} from '../_shared/rrule.ts';
+import {
+  lectureStart,
+  LECTURE_OCCURRENCE_OVERRIDE_COLUMNS,
+  type LectureOccurrenceOverrideRow,
+} from '../_shared/lecture-occurrences.ts';
+import { handleDbError, updateWithVersionCheck } from './_handler-utils.ts';
+
+interface LectureRow {
+  id: string;
+  user_id: string;
+  course_id: string;
+  lecture_name: string;
+  description: string | null;
+  venue: string | null;
+  lecture_date: string;
+  start_time: string | null;
+  end_time: string | null;
+  is_recurring: boolean;
+  recurring_pattern: string | null;
+  version: number;
+}
+
+interface OccurrenceChanges {
+  lecture_name?: string;
+  description?: string;
+  start_time?: string;
+  end_time?: string;
+  venue?: string;
+  recurring_pattern?: string;
+}
+
+interface LectureSeries {
+  lecture: LectureRow;
+  recurrence: RecurrenceSet;
+  timeZone: string;
+  occurrenceStart: Date;
+}
+
+/**
+ * Load a recurring lecture and check it has an occurrence at occurrenceStart
+ */
+async function loadSeries(
+  supabaseClient: SupabaseClient,
+  userId: string,
+  lectureId: string,
+  occurrenceStart: string,
+  expectedVersion?: number,
+): Promise<LectureSeries> {
+  const [lectureRes, userRes] = await Promise.all([
+    supabaseClient
+      .from('lectures')
+      .select('*')
+      .eq('id', lectureId)
+      .eq('user_id', userId) // Ensure ownership
+      .is('deleted_at', null)
+      .maybeSingle(),
+    supabaseClient
+      .from('users')
+      .select('timezone')
+      .eq('id', userId)
+      .maybeSingle(),
+  ]);
+
+  if (lectureRes.error) handleDbError(lectureRes.error);
+  const lecture = lectureRes.data as LectureRow | null;
+  if (!lecture) {
+    throw new AppError('Lecture not found.', 404, ERROR_CODES.DB_NOT_FOUND);
+  }
+
+  if (expectedVersion !== undefined && lecture.version !== expectedVersion) {
+    throw new AppError(
+      ERROR_MESSAGES.VERSION_CONFLICT,
+      ERROR_STATUS_CODES.VERSION_CONFLICT,
+      ERROR_CODES.VERSION_CONFLICT,
+      { expected_version: expectedVersion, current_version: lecture.version },
+    );
+  }
+
+  const recurrence = lecture.is_recurring
+    ? parseRecurringPattern(lecture.recurring_pattern)
+    : null;
+  if (!recurrence) {
+    throw new AppError(
+      'This lecture does not repeat.',
+      400,
+      ERROR_CODES.INVALID_INPUT,
+    );
+  }
+
+  const timeZone = (userRes.data?.timezone as string | null) || 'UTC';
+  const start = new Date(occurrenceStart);
+  if (!isOccurrence(recurrence, lectureStart(lecture), start, timeZone)) {
+    throw new AppError(
+      'The lecture has no occurrence at that time.',
+      404,
+      ERROR_CODES.NOT_FOUND,
+    );
+  }
+
+  return { lecture, recurrence, timeZone, occurrenceStart: start };
+}
+
+function requireEncryptionKey(): string {
+  const encryptionKey = Deno.env.get('ENCRYPTION_KEY');
+  if (!encryptionKey) {
+    throw new AppError(
+      'Encryption key not configured.',
+      500,
+      ERROR_CODES.CONFIG_ERROR,
+    );
+  }
+  return encryptionKey;
+}
+
+/**
+ * Save the series with a new recurrence, failing if it changed since it was
+ * loaded
+ */
+function updateSeriesPattern(
+  supabaseClient: SupabaseClient,
+  series: LectureSeries,
+  recurrence: RecurrenceSet,
+) {
+  return updateWithVersionCheck(
+    supabaseClient,
+    'lectures',
+    series.lecture.id,
+    series.lecture.user_id,
+    { recurring_pattern: formatRecurringPattern(recurrence) },
+    series.lecture.version,
+  );
+}
+
+async function deleteOverridesFrom(
+  supabaseClient: SupabaseClient,
+  lectureId: string,
+  from: Date,
+) {
+  const { error } = await supabaseClient
+    .from('lecture_occurrence_overrides')
+    .delete()
+    .eq('lecture_id', lectureId)
+    .gte('occurrence_start', from.toISOString());
+
+  if (error) handleDbError(error);
+}
+
+function localWeekday(date: Date, timeZone: string): number {
+  return new Date(
+    date.getTime() + timeZoneOffset(date.getTime(), timeZone),
+  ).getUTCDay();
+}
+
+/**
+ * Move the remainder of a series along with its first occurrence, so moving
+ * Monday's lab to Tuesday moves BYDAY=MO,TH to BYDAY=TU,FR
+ */
+function shiftRecurrence(
+  recurrence: RecurrenceSet,
+  from: Date,
+  to: Date,
+  timeZone: string,
+): RecurrenceSet {
+  const shiftMs = to.getTime() - from.getTime();
+  const dayShift =
+    (localWeekday(to, timeZone) - localWeekday(from, timeZone) + 7) % 7;
+
+  return {
+    rule: {
+      ...recurrence.rule,
+      byDay: recurrence.rule.byDay.map(
+        day =>
+          RECURRENCE_WEEKDAYS[
+            (RECURRENCE_WEEKDAYS.indexOf(day) + dayShift) % 7
+          ],
+      ),
+    },
+    exdates: recurrence.exdates.map(date => new Date(date.getTime() + shiftMs)),
+  };
+}
+
+async function updateSingleOccurrence(
+  supabaseClient: SupabaseClient,
+  series: LectureSeries,
+  changes: OccurrenceChanges,
+) {
+  const { lecture, occurrenceStart } = series;
+  const encryptionKey = requireEncryptionKey();
+
+  const { data: existing, error: existingError } = await supabaseClient
+    .from('lecture_occurrence_overrides')
+    .select(LECTURE_OCCURRENCE_OVERRIDE_COLUMNS)
+    .eq('lecture_id', lecture.id)
+    .eq('occurrence_start', occurrenceStart.toISOString())
+    .maybeSingle();
+
+  if (existingError) handleDbError(existingError);
+  const current = existing as LectureOccurrenceOverrideRow | null;
+
+  const { data, error } = await supabaseClient
+    .from('lecture_occurrence_overrides')
+    .upsert(
+      {
+        lecture_id: lecture.id,
+        user_id: lecture.user_id,
+        occurrence_start: occurrenceStart.toISOString(),
+        start_time:
+          changes.start_time ??
+          current?.start_time ??
+          occurrenceStart.toISOString(),
+        end_time: changes.end_time ?? current?.end_time ?? null,
+        lecture_name: changes.lecture_name
+          ? await encrypt(changes.lecture_name, encryptionKey)
+          : (current?.lecture_name ?? null),
+        description:
+          changes.description !== undefined
+            ? await encrypt(changes.description, encryptionKey)
+            : (current?.description ?? null),
+        venue: changes.venue ?? current?.venue ?? null,
+        updated_at: new Date().toISOString(),
+      },
+      { onConflict: 'lecture_id,occurrence_start' },
+    )
+    .select(LECTURE_OCCURRENCE_OVERRIDE_COLUMNS)
+    .single();
+
+  if (error) handleDbError(error);
+  return { override: data };
+}
+
+async function updateFollowingOccurrences(
+  supabaseClient: SupabaseClient,
+  series: LectureSeries,
+  changes: OccurrenceChanges,
+) {
+  const { lecture, recurrence, timeZone, occurrenceStart } = series;
+  const encryptionKey = requireEncryptionKey();
+  const seriesStart = lectureStart(lecture);
+  const { before, after } = splitRecurrence(
+    recurrence,
+    seriesStart,
+    occurrenceStart,
+    timeZone,
+  );
+
+  const newStart = changes.start_time
+    ? new Date(changes.start_time)
+    : occurrenceStart;
+  const durationMs = lecture.end_time
+    ? new Date(lecture.end_time).getTime() - seriesStart.getTime()
+    : null;
+  const newEnd = changes.end_time
+    ? new Date(changes.end_time)
+    : durationMs !== null
+      ? new Date(newStart.getTime() + durationMs)
+      : null;
+  const timeChanged = newStart.getTime() !== occurrenceStart.getTime();
+
+  const newRecurrence = changes.recurring_pattern
+    ? parseRecurringPattern(changes.recurring_pattern)
+    : timeChanged
+      ? shiftRecurrence(after, occurrenceStart, newStart, timeZone)
+      : after;
+
+  const fields: Record<string, unknown> = {
+    lecture_date: newStart.toISOString(),
+    start_time: newStart.toISOString(),
+    end_time: newEnd?.toISOString() ?? null,
+    is_recurring: newRecurrence !== null,
+    recurring_pattern: newRecurrence
+      ? formatRecurringPattern(newRecurrence)
+      : null,
+  };
+  if (changes.lecture_name) {
+    fields.lecture_name = await encrypt(changes.lecture_name, encryptionKey);
+  }
+  if (changes.description !== undefined) {
+    fields.description = await encrypt(changes.description, encryptionKey);
+  }
+  if (changes.venue !== undefined) fields.venue = changes.venue;
+
+  // Individually edited occurrences only survive if they still line up
+  const keepOverrides = !timeChanged && !changes.recurring_pattern;
+
+  // Editing from the first occurrence changes the whole series in place
+  if (!before) {
+    if (!keepOverrides) {
+      await deleteOverridesFrom(supabaseClient, lecture.id, occurrenceStart);
+    }
+    const updated = await updateWithVersionCheck(
+      supabaseClient,
+      'lectures',
+      lecture.id,
+      lecture.user_id,
+      fields,
+      lecture.version,
+    );
+    return { lecture: updated, new_lecture: null };
+  }
+
+  const { data: newLecture, error: insertError } = await supabaseClient
+    .from('lectures')
+    .insert({
+      user_id: lecture.user_id,
+      course_id: lecture.course_id,
+      lecture_name: lecture.lecture_name,
+      description: lecture.description,
+      venue: lecture.venue,
+      ...fields,
+    })
+    .select()
+    .single();
+
+  if (insertError) handleDbError(insertError);
+
+  let updated: unknown;
+  try {
+    updated = await updateSeriesPattern(supabaseClient, series, before);
+  } catch (error) {
+    // Don't leave a duplicate series behind if the original changed meanwhile
+    await supabaseClient.from('lectures').delete().eq('id', newLecture.id);
+    throw error;
+  }
+
+  if (keepOverrides) {
+    const { error } = await supabaseClient
+      .from('lecture_occurrence_overrides')
+      .update({ lecture_id: newLecture.id })
+      .eq('lecture_id', lecture.id)
+      .gte('occurrence_start', occurrenceStart.toISOString());
+
+    if (error) handleDbError(error);
+  } else {
+    await deleteOverridesFrom(supabaseClient, lecture.id, occurrenceStart);
+  }
+
+  return { lecture: updated, new_lecture: newLecture };
+}
+
+export async function handleUpdateLectureOccurrence({
+  user,
+  supabaseClient,
+  body,
+}: AuthenticatedRequest) {
+  const { lecture_id, occurrence_start, scope, expected_version, ...changes } =
+    body as OccurrenceChanges & {
+      lecture_id: string;
+      occurrence_start: string;
+      scope: 'this' | 'following';
+      expected_version?: number;
+    };
+
+  const series = await loadSeries(
+    supabaseClient,
+    user.id,
+    lecture_id,
+    occurrence_start,
+    expected_version,
+  );
+
+  if (scope === 'this') {
+    if (changes.recurring_pattern !== undefined) {
+      throw new AppError(
+        'The recurrence can only be changed for this and following lectures.',
+        400,
+        ERROR_CODES.INVALID_INPUT,
+      );
+    }
+    return await updateSingleOccurrence(supabaseClient, series, changes);
+  }
+
+  return await updateFollowingOccurrences(supabaseClient, series, changes);
+}
+
+export async function handleCancelLectureOccurrence({
+  user,
+  supabaseClient,
+  body,
+}: AuthenticatedRequest) {
+  const { lecture_id, occurrence_start, scope, expected_version } = body as {
+    lecture_id: string;
+    occurrence_start: string;
+    scope: 'this' | 'following';
+    expected_version?: number;
+  };
+
+  const series = await loadSeries(
+    supabaseClient,
+    user.id,
+    lecture_id,
+    occurrence_start,
+    expected_version,
+  );
+  const { lecture, recurrence, timeZone, occurrenceStart } = series;
+
+  if (scope === 'this') {
+    const updated = await updateSeriesPattern(supabaseClient, series, {
+      ...recurrence,
+      exdates: [...recurrence.exdates, occurrenceStart],
+    });
+
+    const { error } = await supabaseClient
+      .from('lecture_occurrence_overrides')
+      .delete()
+      .eq('lecture_id', lecture.id)
+      .eq('occurrence_start', occurrenceStart.toISOString());
+
+    if (error) handleDbError(error);
+    return { lecture: updated };
+  }
+
+  const { before } = splitRecurrence(
+    recurrence,
+    lectureStart(lecture),
+    occurrenceStart,
+    timeZone,
+  );
+
+  // Cancelling from the first occurrence cancels the whole series
+  const updated = before
+    ? await updateSeriesPattern(supabaseClient, series, before)
+    : await updateWithVersionCheck(
+        supabaseClient,
+        'lectures',
+        lecture.id,
+        lecture.user_id,
+        { deleted_at: new Date().toISOString() },
+        lecture.version,
+      );
+
+  await deleteOverridesFrom(supabaseClient, lecture.id, occurrenceStart);
+  return { lecture: updated };
+}
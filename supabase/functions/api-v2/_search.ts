@@ -0,0 +1,258 @@
+/**
+ * Search Handler for api-v2
+ *
+ * search/query finds a user's courses, assignments, study sessions,
+ * lectures and notification history by what they typed. Course names and
+ * codes, lecture venues and notifications are plaintext and searched with
+ * Postgres full-text search (search_user_content). Assignment and study
+ * session titles and notes are encrypted, so the most recent of them are
+ * decrypted and matched here instead; older ones beyond CANDIDATE_LIMIT
+ * are not searched.
+ */
+
+import { AuthenticatedRequest, AppError } from '../_shared/function-handler.ts';
+import { ERROR_CODES } from '../_shared/error-codes.ts';
+import { decrypt } from '../_shared/encryption.ts';
+import { handleDbError } from './_handler-utils.ts';
+
+type SearchResultType =
+  | 'course'
+  | 'assignment'
+  | 'study_session'
+  | 'lecture'
+  | 'notification';
+
+const DEFAULT_LIMIT = 20;
+// Encrypted rows decrypted per type for each search
+const CANDIDATE_LIMIT = 500;
+const FULL_TEXT_TYPES: SearchResultType[] = [
+  'course',
+  'lecture',
+  'notification',
+];
+// Order of the result groups; ranks are only compared within a type
+const TYPE_ORDER: SearchResultType[] = [
+  'course',
+  'assignment',
+  'study_session',
+  'lecture',
+  'notification',
+];
+
+interface SearchBody {
+  query: string;
+  types?: SearchResultType[];
+  course_id?: string;
+  from?: string;
+  to?: string;
+  limit?: number;
+}
+
+interface SearchResult {
+  type: SearchResultType;
+  id: string;
+  title: string;
+  subtitle: string | null;
+  course_id: string | null;
+  course_name: string | null;
+  date: string | null;
+  rank: number;
+}
+
+interface EncryptedTaskRow {
+  id: string;
+  course_id: string | null;
+  title: string | null;
+  body: string | null;
+  date: string | null;
+  courses: { course_name: string } | null;
+}
+
+function getEncryptionKey(): string {
+  const encryptionKey = Deno.env.get('ENCRYPTION_KEY');
+  if (!encryptionKey) {
+    throw new AppError(
+      'Encryption key not configured.',
+      500,
+      ERROR_CODES.CONFIG_ERROR,
+    );
+  }
+  return encryptionKey;
+}
+
+/** Same word splitting as search_prefix_query */
+function searchTerms(query: string): string[] {
+  return query
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter(Boolean);
+}
+
+function words(text: string | null): string[] {
+  return text ? searchTerms(text) : [];
+}
+
+/**
+ * Every term must start a word of the title or body. Matches in the
+ * title count double, like a weighted ts_rank.
+ */
+function rankMatch(
+  terms: string[],
+  title: string | null,
+  body: string | null,
+): number {
+  const titleWords = words(title);
+  const bodyWords = words(body);
+  let rank = 0;
+  for (const term of terms) {
+    if (titleWords.some(word => word.startsWith(term))) {
+      rank += 2;
+    } else if (bodyWords.some(word => word.startsWith(term))) {
+      rank += 1;
+    } else {
+      return 0;
+    }
+  }
+  return rank / (terms.length * 2);
+}
+
+async function decryptOrNull(value: string | null, encryptionKey: string) {
+  return value ? await decrypt(value, encryptionKey) : null;
+}
+
+async function searchEncryptedTasks(
+  { user, supabaseClient }: AuthenticatedRequest,
+  type: 'assignment' | 'study_session',
+  body: SearchBody,
+  terms: string[],
+  encryptionKey: string,
+): Promise<SearchResult[]> {
+  const [table, title, text, date] =
+    type === 'assignment'
+      ? ['assignments', 'title', 'description', 'due_date']
+      : ['study_sessions', 'topic', 'notes', 'session_date'];
+
+  let query = supabaseClient
+    .from(table)
+    .select(
+      `id, course_id, title:${title}, body:${text}, date:${date}, courses(course_name)`,
+    )
+    .eq('user_id', user.id)
+    .is('deleted_at', null);
+  if (body.course_id) query = query.eq('course_id', body.course_id);
+  if (body.from) query = query.gte(date, body.from);
+  if (body.to) query = query.lte(date, body.to);
+
+  const { data, error } = await query
+    .order(date, { ascending: false })
+    .limit(CANDIDATE_LIMIT);
+  if (error) handleDbError(error);
+
+  const results: SearchResult[] = [];
+  for (const row of (data ?? []) as unknown as EncryptedTaskRow[]) {
+    const [rowTitle, rowBody] = await Promise.all([
+      decryptOrNull(row.title, encryptionKey),
+      decryptOrNull(row.body, encryptionKey),
+    ]);
+    const rank = rankMatch(terms, rowTitle, rowBody);
+    if (rank > 0) {
+      results.push({
+        type,
+        id: row.id,
+        title: rowTitle ?? '',
+        subtitle: rowBody,
+        course_id: row.course_id,
+        course_name: row.courses?.course_name ?? null,
+        date: row.date,
+        rank,
+      });
+    }
+  }
+
+  return results
+    .sort((a, b) => b.rank - a.rank)
+    .slice(0, body.limit ?? DEFAULT_LIMIT);
+}
+
+async function searchFullText(
+  { user, supabaseClient }: AuthenticatedRequest,
+  types: SearchResultType[],
+  body: SearchBody,
+  encryptionKey: string,
+): Promise<SearchResult[]> {
+  const { data, error } = await supabaseClient.rpc('search_user_content', {
+    p_user_id: user.id,
+    p_query: body.query,
+    p_types: types,
+    p_course_id: body.course_id ?? null,
+    p_from: body.from ?? null,
+    p_to: body.to ?? null,
+    p_limit: body.limit ?? DEFAULT_LIMIT,
+  });
+  if (error) handleDbError(error);
+
+  return Promise.all(
+    (data ?? []).map(
+      async (row: {
+        result_type: SearchResultType;
+        id: string;
+        course_id: string | null;
+        course_name: string | null;
+        title: string | null;
+        body: string | null;
+        occurred_at: string | null;
+        rank: number;
+      }): Promise<SearchResult> => ({
+        type: row.result_type,
+        id: row.id,
+        // Lectures without a name of their own go by their course
+        title:
+          row.result_type === 'lecture'
+            ? ((await decryptOrNull(row.title, encryptionKey)) ??
+              row.course_name ??
+              '')
+            : (row.title ?? ''),
+        subtitle: row.body,
+        course_id: row.course_id,
+        course_name: row.course_name,
+        date: row.occurred_at,
+        rank: row.rank,
+      }),
+    ),
+  );
+}
+
+export async function handleSearch(req: AuthenticatedRequest) {
+  const body = req.body as SearchBody;
+  const terms = searchTerms(body.query);
+  if (terms.length === 0) {
+    throw new AppError(
+      'Search for a word or number.',
+      400,
+      ERROR_CODES.VALIDATION_ERROR,
+    );
+  }
+
+  const encryptionKey = getEncryptionKey();
+  const types = body.types ?? TYPE_ORDER;
+  const fullTextTypes = types.filter(type => FULL_TEXT_TYPES.includes(type));
+
+  const groups = await Promise.all([
+    fullTextTypes.length > 0
+      ? searchFullText(req, fullTextTypes, body, encryptionKey)
+      : [],
+    ...(['assignment', 'study_session'] as const)
+      .filter(type => types.includes(type))
+      .map(type => searchEncryptedTasks(req, type, body, terms, encryptionKey)),
+  ]);
+
+  // Grouped by type, best matches first; among equals, the most recent
+  return groups
+    .flat()
+    .sort(
+      (a, b) =>
+        TYPE_ORDER.indexOf(a.type) - TYPE_ORDER.indexOf(b.type) ||
+        b.rank - a.rank ||
+        (b.date ?? '').localeCompare(a.date ?? ''),
+    );
+}
@@ -0,0 +1,383 @@
+/**
+ * Study Plan Handlers for api-v2
+ *
+ * study-sessions/plan proposes study blocks for upcoming assignments (see
+ * _shared/study-planner.ts) without saving anything. study-sessions/plan-accept
+ * turns the blocks the user kept into study sessions with reminders and
+ * replaces the blocks of the previous plan that were missed or planned for a
+ * deadline that has since moved.
+ */
+
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.39.3';
+import { AuthenticatedRequest, AppError } from '../_shared/function-handler.ts';
+import { ERROR_CODES } from '../_shared/error-codes.ts';
+import { decrypt, encrypt } from '../_shared/encryption.ts';
+import { getLectureOccurrences } from '../_shared/lecture-occurrences.ts';
+import {
+  excludeCoursesFilter,
+  getArchivedCourseIds,
+} from '../_shared/terms.ts';
+import {
+  DEFAULT_EFFORT_MINUTES,
+  DEFAULT_SESSION_MINUTES,
+  PLAN_HORIZON_DAYS,
+  type PlannedSessionRow,
+  type StudyTimeSlot,
+  planStudyBlocks,
+  reviewPlannedSessions,
+} from '../_shared/study-planner.ts';
+import { handleDbError } from './_handler-utils.ts';
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+
+interface AcceptStudyPlanBody {
+  blocks: { assignment_id: string; start: string; duration_minutes: number }[];
+  replace_session_ids: string[];
+  reminders: number[];
+}
+
+function getEncryptionKey(): string {
+  const encryptionKey = Deno.env.get('ENCRYPTION_KEY');
+  if (!encryptionKey) {
+    throw new AppError(
+      'Encryption key not configured.',
+      500,
+      ERROR_CODES.CONFIG_ERROR,
+    );
+  }
+  return encryptionKey;
+}
+
+const toInterval = (start: string, minutes: number) => ({
+  start: Date.parse(start),
+  end: Date.parse(start) + minutes * MINUTE_MS,
+});
+
+async function loadPlannerSettings(
+  supabaseClient: SupabaseClient,
+  userId: string,
+) {
+  const [userRes, prefsRes] = await Promise.all([
+    supabaseClient
+      .from('users')
+      .select('timezone, srs_preferences')
+      .eq('id', userId)
+      .maybeSingle(),
+    supabaseClient
+      .from('notification_preferences')
+      .select('quiet_hours_start, quiet_hours_end')
+      .eq('user_id', userId)
+      .maybeSingle(),
+  ]);
+
+  if (userRes.error) handleDbError(userRes.error);
+  if (prefsRes.error) handleDbError(prefsRes.error);
+
+  const { quiet_hours_start, quiet_hours_end } = prefsRes.data ?? {};
+  return {
+    timeZone: (userRes.data?.timezone as string | null) || 'UTC',
+    preferredStudyTimes: (userRes.data?.srs_preferences?.preferredStudyTimes ??
+      null) as StudyTimeSlot[] | null,
+    quietHours:
+      quiet_hours_start && quiet_hours_end
+        ? { start: quiet_hours_start, end: quiet_hours_end }
+        : null,
+  };
+}
+
+export async function handleGetStudyPlan(req: AuthenticatedRequest) {
+  const { user, supabaseClient } = req;
+  const encryptionKey = getEncryptionKey();
+  const now = new Date();
+  const horizonEnd = new Date(now.getTime() + PLAN_HORIZON_DAYS * DAY_MS);
+
+  const archivedCourseIds = await getArchivedCourseIds(
+    supabaseClient,
+    user.id,
+  ).catch(handleDbError);
+
+  let assignmentsQuery = supabaseClient
+    .from('assignments')
+    .select('id, course_id, title, due_date, estimated_minutes')
+    .eq('user_id', user.id)
+    .is('deleted_at', null)
+    .eq('status', 'pending')
+    .gt('due_date', now.toISOString())
+    .lte('due_date', horizonEnd.toISOString())
+    .order('due_date', { ascending: true });
+  if (archivedCourseIds.length > 0) {
+    assignmentsQuery = assignmentsQuery.or(
+      excludeCoursesFilter(archivedCourseIds),
+    );
+  }
+
+  const [settings, assignmentsRes] = await Promise.all([
+    loadPlannerSettings(supabaseClient, user.id),
+    assignmentsQuery,
+  ]);
+  if (assignmentsRes.error) handleDbError(assignmentsRes.error);
+  const assignments = assignmentsRes.data ?? [];
+  const assignmentIds = assignments.map(assignment => assignment.id as string);
+
+  // Sessions of the assignments being planned count towards their effort;
+  // upcoming sessions planned for anything else may need replacing
+  const plannedFilter = assignmentIds.length
+    ? `session_date.gte.${now.toISOString()},plan_assignment_id.in.(${assignmentIds.join(',')})`
+    : `session_date.gte.${now.toISOString()}`;
+  const [plannedRes, sessionsRes, lectures, examsRes] = await Promise.all([
+    supabaseClient
+      .from('study_sessions')
+      .select(
+        'id, session_date, duration_minutes, status, plan_assignment_id, plan_due_date',
+      )
+      .eq('user_id', user.id)
+      .is('deleted_at', null)
+      .not('plan_assignment_id', 'is', null)
+      .or(plannedFilter),
+    supabaseClient
+      .from('study_sessions')
+      .select('id, session_date, duration_minutes')
+      .eq('user_id', user.id)
+      .is('deleted_at', null)
+      .gte('session_date', new Date(now.getTime() - DAY_MS).toISOString())
+      .lte('session_date', horizonEnd.toISOString()),
+    getLectureOccurrences(
+      supabaseClient,
+      user.id,
+      now,
+      horizonEnd,
+      'id, course_id, lecture_date, start_time, end_time, is_recurring, recurring_pattern',
+    ).catch(handleDbError),
+    supabaseClient
+      .from('exams')
+      .select('exam_date, duration_minutes')
+      .eq('user_id', user.id)
+      .is('deleted_at', null)
+      .gte('exam_date', new Date(now.getTime() - DAY_MS).toISOString())
+      .lte('exam_date', horizonEnd.toISOString()),
+  ]);
+  if (plannedRes.error) handleDbError(plannedRes.error);
+  if (sessionsRes.error) handleDbError(sessionsRes.error);
+  if (examsRes.error) handleDbError(examsRes.error);
+
+  const dueDates = new Map(
+    assignments.map(assignment => [
+      assignment.id as string,
+      assignment.due_date as string,
+    ]),
+  );
+  const review = reviewPlannedSessions(
+    (plannedRes.data ?? []) as PlannedSessionRow[],
+    dueDates,
+    now,
+  );
+  const replaced = new Set([...review.missed, ...review.outdated]);
+
+  const items = await Promise.all(
+    assignments.map(async assignment => {
+      const effort = assignment.estimated_minutes ?? DEFAULT_EFFORT_MINUTES;
+      const planned = review.plannedMinutes.get(assignment.id) ?? 0;
+      return {
+        assignment_id: assignment.id as string,
+        course_id: assignment.course_id as string,
+        title: assignment.title
+          ? await decrypt(assignment.title, encryptionKey)
+          : 'Untitled assignment',
+        due_date: assignment.due_date as string,
+        estimated_minutes: effort,
+        is_default_estimate: assignment.estimated_minutes == null,
+        planned_minutes: planned,
+        remaining_minutes: Math.max(0, effort - planned),
+      };
+    }),
+  );
+
+  const plan = planStudyBlocks(
+    items.map(item => ({ ...item, id: item.assignment_id })),
+    {
+      now,
+      timeZone: settings.timeZone,
+      preferredStudyTimes: settings.preferredStudyTimes,
+      quietHours: settings.quietHours,
+      // Exams block their time like lectures do
+      lectures: [
+        ...lectures.map(lecture =>
+          lecture.end_time
+            ? {
+                start: Date.parse(lecture.start_time || lecture.lecture_date),
+                end: Date.parse(lecture.end_time),
+              }
+            : toInterval(
+                lecture.start_time || lecture.lecture_date,
+                DEFAULT_SESSION_MINUTES,
+              ),
+        ),
+        ...(examsRes.data ?? []).map(exam =>
+          toInterval(exam.exam_date, exam.duration_minutes),
+        ),
+      ],
+      sessions: (sessionsRes.data ?? [])
+        .filter(session => !replaced.has(session.id))
+        .map(session =>
+          toInterval(
+            session.session_date,
+            session.duration_minutes ?? DEFAULT_SESSION_MINUTES,
+          ),
+        ),
+    },
+  );
+
+  return {
+    time_zone: settings.timeZone,
+    items,
+    blocks: plan.blocks.map(({ item_id, ...block }) => ({
+      ...block,
+      assignment_id: item_id,
+    })),
+    unscheduled: plan.unscheduled.map(({ item_id, ...item }) => ({
+      ...item,
+      assignment_id: item_id,
+    })),
+    missed_session_ids: review.missed,
+    outdated_session_ids: review.outdated,
+  };
+}
+
+export async function handleAcceptStudyPlan(req: AuthenticatedRequest) {
+  const { user, supabaseClient } = req;
+  const body = req.body as AcceptStudyPlanBody;
+  const encryptionKey = getEncryptionKey();
+  const now = new Date();
+
+  const assignmentIds = [
+    ...new Set(body.blocks.map(block => block.assignment_id)),
+  ];
+  const assignments = new Map<
+    string,
+    { course_id: string; title: string | null; due_date: string }
+  >();
+  if (assignmentIds.length > 0) {
+    const { data, error } = await supabaseClient
+      .from('assignments')
+      .select('id, course_id, title, due_date')
+      .eq('user_id', user.id)
+      .is('deleted_at', null)
+      .in('id', assignmentIds);
+
+    if (error) handleDbError(error);
+    for (const row of data ?? []) assignments.set(row.id, row);
+  }
+
+  for (const block of body.blocks) {
+    const assignment = assignments.get(block.assignment_id);
+    if (!assignment) {
+      throw new AppError('Assignment not found', 404, ERROR_CODES.NOT_FOUND);
+    }
+    const end = toInterval(block.start, block.duration_minutes).end;
+    if (end > Date.parse(assignment.due_date)) {
+      throw new AppError(
+        'Study blocks must end before the assignment is due',
+        400,
+        ERROR_CODES.VALIDATION_ERROR,
+      );
+    }
+  }
+
+  // Missed blocks stay as history but no longer count as planned; upcoming
+  // ones are removed in favour of the new blocks
+  let replacedCount = 0;
+  if (body.replace_session_ids.length > 0) {
+    const { data: replacedSessions, error } = await supabaseClient
+      .from('study_sessions')
+      .select('id, session_date')
+      .eq('user_id', user.id)
+      .is('deleted_at', null)
+      .not('plan_assignment_id', 'is', null)
+      .in('id', body.replace_session_ids);
+
+    if (error) handleDbError(error);
+    const sessions = replacedSessions ?? [];
+    const pastIds = sessions
+      .filter(session => Date.parse(session.session_date) <= now.getTime())
+      .map(session => session.id);
+    const upcomingIds = sessions
+      .filter(session => Date.parse(session.session_date) > now.getTime())
+      .map(session => session.id);
+
+    if (pastIds.length > 0) {
+      const { error: unlinkError } = await supabaseClient
+        .from('study_sessions')
+        .update({ plan_assignment_id: null, plan_due_date: null })
+        .eq('user_id', user.id)
+        .in('id', pastIds);
+      if (unlinkError) handleDbError(unlinkError);
+    }
+    if (upcomingIds.length > 0) {
+      const { error: deleteError } = await supabaseClient
+        .from('study_sessions')
+        .update({ deleted_at: now.toISOString() })
+        .eq('user_id', user.id)
+        .in('id', upcomingIds);
+      if (deleteError) handleDbError(deleteError);
+    }
+    replacedCount = sessions.length;
+  }
+
+  if (body.blocks.length === 0) {
+    return { created: [], replaced_count: replacedCount };
+  }
+
+  const topics = new Map<string, string>();
+  for (const [id, assignment] of assignments) {
+    const title = assignment.title
+      ? await decrypt(assignment.title, encryptionKey)
+      : 'assignment';
+    topics.set(id, await encrypt(`Work on ${title}`, encryptionKey));
+  }
+
+  const { data: created, error: insertError } = await supabaseClient
+    .from('study_sessions')
+    .insert(
+      body.blocks.map(block => {
+        const assignment = assignments.get(block.assignment_id)!;
+        return {
+          user_id: user.id,
+          course_id: assignment.course_id,
+          topic: topics.get(block.assignment_id),
+          session_date: block.start,
+          duration_minutes: block.duration_minutes,
+          has_spaced_repetition: false,
+          plan_assignment_id: block.assignment_id,
+          plan_due_date: assignment.due_date,
+        };
+      }),
+    )
+    .select('id, session_date, duration_minutes, plan_assignment_id');
+
+  if (insertError) handleDbError(insertError);
+  const sessions = created ?? [];
+
+  const remindersToInsert = sessions.flatMap(session =>
+    body.reminders
+      .map(mins => ({
+        user_id: user.id,
+        session_id: session.id,
+        reminder_time: new Date(
+          Date.parse(session.session_date) - mins * MINUTE_MS,
+        ).toISOString(),
+        reminder_type: 'study_session',
+        day_number: Math.ceil(mins / (24 * 60)),
+        completed: false,
+      }))
+      .filter(reminder => Date.parse(reminder.reminder_time) > now.getTime()),
+  );
+  if (remindersToInsert.length > 0) {
+    const { error: reminderError } = await supabaseClient
+      .from('reminders')
+      .insert(remindersToInsert);
+    if (reminderError) handleDbError(reminderError);
+  }
+
+  return { created: sessions, replaced_count: replacedCount };
+}
@@ -0,0 +1,117 @@
+/**
+ * Tag Handlers for api-v2
+ *
+ * Tags are the user's own colored labels for assignments, lectures and
+ * study sessions. Tasks hold tag ids in tag_ids, which the database checks
+ * belong to the task's owner; deleting a tag takes it off every task.
+ */
+
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.39.3';
+import { AuthenticatedRequest, AppError } from '../_shared/function-handler.ts';
+import { ERROR_CODES } from '../_shared/error-codes.ts';
+import { handleDbError } from './_handler-utils.ts';
+
+interface TagBody {
+  tag_id?: string;
+  name?: string;
+  color?: string;
+}
+
+const DUPLICATE_NAME = '23505';
+
+function checkTagError(error: { code?: string; message: string }) {
+  if (error.code === DUPLICATE_NAME) {
+    throw new AppError(
+      'You already have a tag with this name',
+      409,
+      ERROR_CODES.ALREADY_EXISTS,
+    );
+  }
+  handleDbError(error);
+}
+
+async function getOwnTag(
+  supabaseClient: SupabaseClient,
+  userId: string,
+  tagId: string,
+) {
+  const { data, error } = await supabaseClient
+    .from('tags')
+    .select('*')
+    .eq('id', tagId)
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error) handleDbError(error);
+  if (!data) {
+    throw new AppError('Tag not found', 404, ERROR_CODES.NOT_FOUND);
+  }
+  return data;
+}
+
+export async function handleListTags({
+  user,
+  supabaseClient,
+}: AuthenticatedRequest) {
+  const { data, error } = await supabaseClient
+    .from('tags')
+    .select('*')
+    .eq('user_id', user.id)
+    .order('name', { ascending: true });
+
+  if (error) handleDbError(error);
+  return data;
+}
+
+export async function handleCreateTag(req: AuthenticatedRequest) {
+  const { user, supabaseClient } = req;
+  const body = req.body as Required<Omit<TagBody, 'tag_id'>>;
+
+  const { data, error } = await supabaseClient
+    .from('tags')
+    .insert({ user_id: user.id, name: body.name, color: body.color })
+    .select()
+    .single();
+
+  if (error) checkTagError(error);
+  return data;
+}
+
+export async function handleUpdateTag(req: AuthenticatedRequest) {
+  const { user, supabaseClient } = req;
+  const body = req.body as TagBody & { tag_id: string };
+
+  const existing = await getOwnTag(supabaseClient, user.id, body.tag_id);
+
+  const updates: Record<string, unknown> = {};
+  if (body.name !== undefined) updates.name = body.name;
+  if (body.color !== undefined) updates.color = body.color;
+  if (Object.keys(updates).length === 0) return existing;
+
+  const { data, error } = await supabaseClient
+    .from('tags')
+    .update(updates)
+    .eq('id', body.tag_id)
+    .eq('user_id', user.id)
+    .select()
+    .single();
+
+  if (error) checkTagError(error);
+  return data;
+}
+
+export async function handleDeleteTag(req: AuthenticatedRequest) {
+  const { user, supabaseClient, body } = req;
+
+  await getOwnTag(supabaseClient, user.id, body.tag_id);
+
+  // remove_deleted_tag_from_tasks clears it from tag_ids
+  const { error } = await supabaseClient
+    .from('tags')
+    .delete()
+    .eq('id', body.tag_id)
+    .eq('user_id', user.id);
+
+  if (error) handleDbError(error);
+  return { success: true };
+}
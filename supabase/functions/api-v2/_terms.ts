@@ -0,0 +1,223 @@
+/**
+ * Academic Term Handlers for api-v2
+ *
+ * Terms group courses and bound them in time (see _shared/terms.ts).
+ * Archiving a term only sets archived_at - its courses and their tasks stay
+ * untouched and come back when the term is unarchived.
+ */
+
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.39.3';
+import { AuthenticatedRequest, AppError } from '../_shared/function-handler.ts';
+import { ERROR_CODES } from '../_shared/error-codes.ts';
+import type { TermBreak } from '../_shared/terms.ts';
+import { handleDbError } from './_handler-utils.ts';
+
+interface TermBody {
+  term_id?: string;
+  name?: string;
+  start_date?: string;
+  end_date?: string;
+  breaks?: TermBreak[];
+  course_ids?: string[];
+}
+
+function checkBreaks(
+  startDate: string,
+  endDate: string,
+  breaks: TermBreak[] | null | undefined,
+) {
+  const outside = (breaks ?? []).find(
+    termBreak =>
+      termBreak.start_date < startDate || termBreak.end_date > endDate,
+  );
+  if (outside) {
+    throw new AppError(
+      `"${outside.name}" must fall within the term`,
+      400,
+      ERROR_CODES.VALIDATION_ERROR,
+    );
+  }
+}
+
+/**
+ * Point the given courses at a term; with replace, the term's other courses
+ * leave it
+ */
+async function setTermCourses(
+  supabaseClient: SupabaseClient,
+  userId: string,
+  termId: string,
+  courseIds: string[],
+  replace: boolean,
+) {
+  if (replace) {
+    let query = supabaseClient
+      .from('courses')
+      .update({ term_id: null })
+      .eq('user_id', userId)
+      .eq('term_id', termId);
+    if (courseIds.length > 0) {
+      query = query.not('id', 'in', `(${courseIds.join(',')})`);
+    }
+    const { error } = await query;
+    if (error) handleDbError(error);
+  }
+
+  if (courseIds.length > 0) {
+    const { error } = await supabaseClient
+      .from('courses')
+      .update({ term_id: termId })
+      .eq('user_id', userId)
+      .in('id', courseIds);
+    if (error) handleDbError(error);
+  }
+}
+
+async function getOwnTerm(
+  supabaseClient: SupabaseClient,
+  userId: string,
+  termId: string,
+) {
+  const { data, error } = await supabaseClient
+    .from('terms')
+    .select('*')
+    .eq('id', termId)
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error) handleDbError(error);
+  if (!data) {
+    throw new AppError('Term not found', 404, ERROR_CODES.NOT_FOUND);
+  }
+  return data;
+}
+
+export async function handleListTerms({
+  user,
+  supabaseClient,
+}: AuthenticatedRequest) {
+  const { data, error } = await supabaseClient
+    .from('terms')
+    .select('*')
+    .eq('user_id', user.id)
+    .order('start_date', { ascending: false });
+
+  if (error) handleDbError(error);
+  return data;
+}
+
+export async function handleCreateTerm(req: AuthenticatedRequest) {
+  const { user, supabaseClient } = req;
+  const body = req.body as Required<Omit<TermBody, 'term_id'>>;
+
+  checkBreaks(body.start_date, body.end_date, body.breaks);
+
+  const { data: term, error } = await supabaseClient
+    .from('terms')
+    .insert({
+      user_id: user.id,
+      name: body.name,
+      start_date: body.start_date,
+      end_date: body.end_date,
+      breaks: body.breaks ?? [],
+    })
+    .select()
+    .single();
+
+  if (error) handleDbError(error);
+
+  if (body.course_ids?.length) {
+    await setTermCourses(
+      supabaseClient,
+      user.id,
+      term.id,
+      body.course_ids,
+      false,
+    );
+  }
+
+  return term;
+}
+
+export async function handleUpdateTerm(req: AuthenticatedRequest) {
+  const { user, supabaseClient } = req;
+  const body = req.body as TermBody & { term_id: string };
+
+  const existing = await getOwnTerm(supabaseClient, user.id, body.term_id);
+  const startDate = body.start_date ?? existing.start_date;
+  const endDate = body.end_date ?? existing.end_date;
+
+  if (endDate < startDate) {
+    throw new AppError(
+      'A term cannot end before it starts',
+      400,
+      ERROR_CODES.VALIDATION_ERROR,
+    );
+  }
+  checkBreaks(startDate, endDate, body.breaks ?? existing.breaks);
+
+  const updates: Record<string, unknown> = {};
+  if (body.name !== undefined) updates.name = body.name;
+  if (body.start_date !== undefined) updates.start_date = body.start_date;
+  if (body.end_date !== undefined) updates.end_date = body.end_date;
+  if (body.breaks !== undefined) updates.breaks = body.breaks;
+
+  let term = existing;
+  if (Object.keys(updates).length > 0) {
+    const { data, error } = await supabaseClient
+      .from('terms')
+      .update(updates)
+      .eq('id', body.term_id)
+      .eq('user_id', user.id)
+      .select()
+      .single();
+
+    if (error) handleDbError(error);
+    term = data;
+  }
+
+  if (body.course_ids !== undefined) {
+    await setTermCourses(
+      supabaseClient,
+      user.id,
+      body.term_id,
+      body.course_ids,
+      true,
+    );
+  }
+
+  return term;
+}
+
+export async function handleArchiveTerm(req: AuthenticatedRequest) {
+  const { user, supabaseClient, body } = req;
+
+  await getOwnTerm(supabaseClient, user.id, body.term_id);
+
+  const { data, error } = await supabaseClient
+    .from('terms')
+    .update({ archived_at: body.archived ? new Date().toISOString() : null })
+    .eq('id', body.term_id)
+    .eq('user_id', user.id)
+    .select()
+    .single();
+
+  if (error) handleDbError(error);
+  return data;
+}
+
+export async function handleDeleteTerm(req: AuthenticatedRequest) {
+  const { user, supabaseClient, body } = req;
+
+  await getOwnTerm(supabaseClient, user.id, body.term_id);
+
+  // courses.term_id is ON DELETE SET NULL, so the courses stay
+  const { error } = await supabaseClient
+    .from('terms')
+    .delete()
+    .eq('id', body.term_id)
+    .eq('user_id', user.id);
+
+  if (error) handleDbError(error);
+  return { success: true };
+}
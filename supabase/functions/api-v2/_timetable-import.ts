@@ -0,0 +1,815 @@
+/**
+ * Timetable Import Handlers for api-v2
+ *
+ * Turns a university timetable (.ics file or subscription URL) into courses
+ * and lectures in two steps:
+ * - courses/timetable-preview: parse and group events into a proposed plan,
+ *   flagging courses and lectures that already exist
+ * - courses/timetable-import: create the (user-edited) plan
+ *
+ * New courses count towards the plan's course limit, and on the free plan
+ * new lectures count towards the weekly task limit.
+ */
+
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.39.3';
+import { AuthenticatedRequest, AppError } from '../_shared/function-handler.ts';
+import { ERROR_CODES } from '../_shared/error-codes.ts';
+import { encrypt } from '../_shared/encryption.ts';
+import { isPremium } from '../_shared/permissions.ts';
+import {
+  getWeeklyTaskCount,
+  WEEKLY_TASK_LIMIT,
+} from '../_shared/check-task-limit.ts';
+import { MAX_TIMETABLE_ICS_LENGTH } from '../_shared/schemas/timetable.ts';
+import {
+  parseCalendar,
+  timeZoneOffset,
+  zonedTimeToDate,
+  type ParsedICalEvent,
+} from '../_shared/ical.ts';
+import {
+  formatRecurringPattern,
+  isOccurrence,
+  parseRecurringPattern,
+  parseRRule,
+  type RecurrenceSet,
+} from '../_shared/rrule.ts';
+import { handleDbError } from './_handler-utils.ts';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MAX_LECTURE_NAME_LENGTH = 35;
+const MAX_IMPORT_EVENTS = 5000;
+const URL_FETCH_TIMEOUT_MS = 10000;
+const MAX_URL_REDIRECTS = 5;
+// Same per-plan course limits as the courses function
+const COURSE_LIMITS: Record<string, number> = {
+  free: 2,
+  oddity: 7,
+};
+
+// e.g. "CS101", "MATH 2001", "ECON-110A"
+const COURSE_CODE_PATTERN = /\b([A-Z]{2,5})[\s-]?(\d{3,4}[A-Z]?)\b/;
+// Session-type words stripped when deriving a course name from an event title
+const SESSION_TYPE_PATTERN =
+  /\b(lecture|lec|lab|laboratory|tutorial|tut|seminar|workshop|practical|recitation|discussion|class)\b/gi;
+const WEEKDAYS = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+
+interface DraftLecture {
+  lecture_name: string;
+  start: Date;
+  end: Date;
+  venue: string | null;
+  recurrence: RecurrenceSet | null;
+  occurrences: number;
+}
+
+interface DraftCourse {
+  key: string;
+  course_code: string | null;
+  course_name: string;
+  lectures: DraftLecture[];
+}
+
+interface ExistingCourseRow {
+  id: string;
+  course_name: string;
+  course_code: string | null;
+}
+
+interface ExistingLectureRow {
+  course_id: string;
+  start_time: string | null;
+  lecture_date: string;
+  is_recurring: boolean | null;
+  recurring_pattern: string | null;
+}
+
+interface TaskLimitStatus {
+  is_limited: boolean;
+  limit: number | null;
+  used: number;
+  remaining: number | null;
+}
+
+interface CourseLimitStatus {
+  limit: number;
+  used: number;
+  remaining: number;
+}
+
+/**
+ * Normalize a course code for duplicate detection ("cs 101" -> "CS101")
+ */
+function normalizeCourseCode(code: string | null | undefined): string | null {
+  const normalized = (code ?? '').toUpperCase().replace(/[^A-Z0-9]/g, '');
+  return normalized.length > 0 ? normalized : null;
+}
+
+function normalizeName(name: string): string {
+  return name.trim().toLowerCase().replace(/\s+/g, ' ');
+}
+
+/**
+ * Derive the course an event belongs to from its title,
+ * e.g. "CS101 Lecture - Intro to Computing" -> CS101 / "Intro to Computing"
+ */
+function extractCourse(summary: string): {
+  course_code: string | null;
+  course_name: string;
+} {
+  const match = summary.match(COURSE_CODE_PATTERN);
+  const course_code = match ? `${match[1]}${match[2]}` : null;
+
+  const name = (match ? summary.replace(match[0], ' ') : summary)
+    .replace(SESSION_TYPE_PATTERN, ' ')
+    .replace(/[()[\]]/g, ' ')
+    .replace(/^[\s\-–—:|,/]+|[\s\-–—:|,/]+$/g, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+  return {
+    course_code,
+    course_name: name || course_code || summary.trim() || 'Imported course',
+  };
+}
+
+/**
+ * Weekday (0 = Sunday) and minute of day of an instant in a time zone
+ */
+function localSlot(
+  date: Date,
+  timeZone: string,
+): { weekday: number; minuteOfDay: number } {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    weekday: 'short',
+    hour: '2-digit',
+    minute: '2-digit',
+  }).formatToParts(date);
+  const get = (type: string) =>
+    parts.find(part => part.type === type)?.value ?? '';
+
+  return {
+    weekday: WEEKDAYS.indexOf(get('weekday').slice(0, 2).toUpperCase()),
+    minuteOfDay: Number(get('hour')) * 60 + Number(get('minute')),
+  };
+}
+
+function truncateLectureName(name: string): string {
+  const trimmed = name.trim() || 'Lecture';
+  return trimmed.length > MAX_LECTURE_NAME_LENGTH
+    ? trimmed.slice(0, MAX_LECTURE_NAME_LENGTH).trim()
+    : trimmed;
+}
+
+/**
+ * Map an event (and its RRULE and EXDATEs, if any) to a lecture. Rules using
+ * parts lectures don't support are imported as their first occurrence.
+ */
+function eventToLecture(
+  event: ParsedICalEvent,
+  warnings: string[],
+): DraftLecture {
+  const lecture: DraftLecture = {
+    lecture_name: truncateLectureName(event.summary),
+    start: event.start,
+    end: event.end,
+    venue: event.location,
+    recurrence: null,
+    occurrences: 1,
+  };
+  if (!event.rrule) return lecture;
+
+  const rule = parseRRule(event.rrule);
+  if (!rule) {
+    warnings.push(
+      `"${event.summary}" repeats in a way ELARO does not support yet; only the first occurrence was kept.`,
+    );
+    return lecture;
+  }
+
+  return { ...lecture, recurrence: { rule, exdates: event.exdates } };
+}
+
+/**
+ * Start of the same local time of day `days` later
+ */
+function addLocalDays(date: Date, days: number, timeZone: string): Date {
+  const wallClock = date.getTime() + timeZoneOffset(date.getTime(), timeZone);
+  return zonedTimeToDate(wallClock + days * DAY_MS, timeZone);
+}
+
+/**
+ * Many university systems export every occurrence as its own event. Collapse
+ * one-off lectures that share a title, weekday, time, length and venue and
+ * are 7 or 14 days apart into a single recurring lecture.
+ */
+function collapseSeries(
+  lectures: DraftLecture[],
+  timeZone: string,
+): DraftLecture[] {
+  const result: DraftLecture[] = [];
+  const groups = new Map<string, DraftLecture[]>();
+
+  for (const lecture of lectures) {
+    if (lecture.recurrence) {
+      result.push(lecture);
+      continue;
+    }
+    const slot = localSlot(lecture.start, timeZone);
+    const signature = [
+      lecture.lecture_name,
+      slot.weekday,
+      slot.minuteOfDay,
+      lecture.end.getTime() - lecture.start.getTime(),
+      lecture.venue ?? '',
+    ].join('|');
+    const group = groups.get(signature) ?? [];
+    // Identical start times are the same session listed twice
+    if (!group.some(item => item.start.getTime() === lecture.start.getTime())) {
+      group.push(lecture);
+    }
+    groups.set(signature, group);
+  }
+
+  for (const group of groups.values()) {
+    group.sort((a, b) => a.start.getTime() - b.start.getTime());
+    if (group.length < 2) {
+      result.push(...group);
+      continue;
+    }
+
+    // Rounded to whole days so DST transitions don't break the spacing
+    const gaps = group
+      .slice(1)
+      .map((lecture, i) =>
+        Math.round(
+          (lecture.start.getTime() - group[i].start.getTime()) / DAY_MS,
+        ),
+      );
+    const step = Math.min(...gaps);
+    if ((step !== 7 && step !== 14) || gaps.some(gap => gap % step !== 0)) {
+      result.push(...group);
+      continue;
+    }
+
+    // Weeks without the lecture (e.g. a reading week) become EXDATEs
+    const exdates: Date[] = [];
+    gaps.forEach((gap, i) => {
+      for (let skipped = step; skipped < gap; skipped += step) {
+        exdates.push(addLocalDays(group[i].start, skipped, timeZone));
+      }
+    });
+
+    result.push({
+      ...group[0],
+      recurrence: {
+        rule: {
+          freq: 'WEEKLY',
+          interval: step / 7,
+          byDay: [],
+          until: group[group.length - 1].start,
+          count: null,
+          weekStart: 'MO',
+        },
+        exdates,
+      },
+      occurrences: group.length,
+    });
+  }
+
+  return result.sort((a, b) => a.start.getTime() - b.start.getTime());
+}
+
+/**
+ * Whether a proposed lecture is already in the user's schedule: it starts
+ * together with an existing lecture, or one series includes the other's
+ * first lecture
+ */
+function isDuplicateLecture(
+  lecture: DraftLecture,
+  existing: ExistingLectureRow[],
+  timeZone: string,
+): boolean {
+  return existing.some(row => {
+    const rowStart = new Date(row.start_time ?? row.lecture_date);
+    if (rowStart.getTime() === lecture.start.getTime()) return true;
+
+    const rowRecurrence = row.is_recurring
+      ? parseRecurringPattern(row.recurring_pattern)
+      : null;
+    return (
+      (rowRecurrence !== null &&
+        isOccurrence(rowRecurrence, rowStart, lecture.start, timeZone)) ||
+      (lecture.recurrence !== null &&
+        isOccurrence(lecture.recurrence, lecture.start, rowStart, timeZone))
+    );
+  });
+}
+
+function isPrivateHost(hostname: string): boolean {
+  const host = hostname.toLowerCase();
+  if (
+    host === 'localhost' ||
+    host.endsWith('.localhost') ||
+    host.endsWith('.local') ||
+    host.endsWith('.internal') ||
+    host.startsWith('[')
+  ) {
+    return true;
+  }
+
+  const ipv4 = host.match(/^(\d+)\.(\d+)\.\d+\.\d+$/);
+  if (!ipv4) return false;
+  const [a, b] = [Number(ipv4[1]), Number(ipv4[2])];
+  return (
+    a === 0 ||
+    a === 10 ||
+    a === 127 ||
+    (a === 169 && b === 254) ||
+    (a === 172 && b >= 16 && b <= 31) ||
+    (a === 192 && b === 168)
+  );
+}
+
+/**
+ * Reject anything but public http(s) URLs, so a calendar link (or a redirect
+ * it leads to) can't reach the function's own network
+ */
+function assertPublicUrl(url: URL): void {
+  if (
+    (url.protocol !== 'https:' && url.protocol !== 'http:') ||
+    isPrivateHost(url.hostname)
+  ) {
+    throw new AppError(
+      'Calendar URL must be a public http(s) or webcal link.',
+      400,
+      ERROR_CODES.INVALID_INPUT,
+    );
+  }
+}
+
+/**
+ * Download a timetable from a subscription URL (webcal:// is fetched over https)
+ */
+async function fetchCalendarUrl(rawUrl: string): Promise<string> {
+  let url: URL;
+  try {
+    url = new URL(rawUrl.trim().replace(/^webcals?:\/\//i, 'https://'));
+  } catch {
+    throw new AppError(
+      'Invalid calendar URL.',
+      400,
+      ERROR_CODES.INVALID_FORMAT,
+    );
+  }
+
+  // Redirects are followed by hand so every hop is checked
+  let response: Response;
+  for (let redirects = 0; ; redirects++) {
+    assertPublicUrl(url);
+    try {
+      response = await fetch(url.toString(), {
+        headers: { Accept: 'text/calendar, text/plain;q=0.9, */*;q=0.8' },
+        redirect: 'manual',
+        signal: AbortSignal.timeout(URL_FETCH_TIMEOUT_MS),
+      });
+    } catch (error) {
+      const isTimeout =
+        error instanceof DOMException && error.name === 'TimeoutError';
+      throw new AppError(
+        isTimeout
+          ? 'The calendar server took too long to respond.'
+          : 'Could not download the calendar.',
+        502,
+        isTimeout
+          ? ERROR_CODES.EXTERNAL_SERVICE_TIMEOUT
+          : ERROR_CODES.EXTERNAL_SERVICE_ERROR,
+      );
+    }
+
+    const location = response.headers.get('location');
+    if (response.status < 300 || response.status >= 400 || !location) break;
+    if (redirects >= MAX_URL_REDIRECTS) {
+      throw new AppError(
+        'The calendar link redirects too many times.',
+        502,
+        ERROR_CODES.EXTERNAL_SERVICE_ERROR,
+      );
+    }
+    await response.body?.cancel();
+    try {
+      url = new URL(location, url);
+    } catch {
+      throw new AppError(
+        'Could not download the calendar.',
+        502,
+        ERROR_CODES.EXTERNAL_SERVICE_ERROR,
+      );
+    }
+  }
+
+  if (!response.ok) {
+    throw new AppError(
+      `Could not download the calendar (HTTP ${response.status}).`,
+      502,
+      ERROR_CODES.EXTERNAL_SERVICE_ERROR,
+    );
+  }
+
+  const declaredLength = Number(response.headers.get('content-length') ?? 0);
+  if (declaredLength > MAX_TIMETABLE_ICS_LENGTH) {
+    throw new AppError(
+      'Calendar file is too large.',
+      400,
+      ERROR_CODES.INVALID_INPUT,
+    );
+  }
+
+  const content = await response.text();
+  if (content.length > MAX_TIMETABLE_ICS_LENGTH) {
+    throw new AppError(
+      'Calendar file is too large.',
+      400,
+      ERROR_CODES.INVALID_INPUT,
+    );
+  }
+  return content;
+}
+
+/**
+ * How many more lectures the user can create this week (free tier only)
+ */
+async function getTaskLimitStatus(
+  supabaseClient: SupabaseClient,
+  userId: string,
+): Promise<TaskLimitStatus> {
+  const { data: profile, error } = await supabaseClient
+    .from('users')
+    .select('subscription_tier')
+    .eq('id', userId)
+    .single();
+
+  if (error) handleDbError(error);
+
+  const used = await getWeeklyTaskCount(supabaseClient, userId);
+  if (used === null) {
+    throw new AppError(
+      'Could not verify task limits.',
+      500,
+      ERROR_CODES.DB_QUERY_ERROR,
+    );
+  }
+
+  if (isPremium(profile?.subscription_tier || 'free')) {
+    return { is_limited: false, limit: null, used, remaining: null };
+  }
+
+  return {
+    is_limited: true,
+    limit: WEEKLY_TASK_LIMIT,
+    used,
+    remaining: Math.max(0, WEEKLY_TASK_LIMIT - used),
+  };
+}
+
+/**
+ * How many more courses the user's plan allows
+ *
+ * @param used - The user's current (not deleted) course count
+ */
+async function getCourseLimitStatus(
+  supabaseClient: SupabaseClient,
+  userId: string,
+  used: number,
+): Promise<CourseLimitStatus> {
+  const { data: profile, error } = await supabaseClient
+    .from('users')
+    .select('subscription_tier')
+    .eq('id', userId)
+    .single();
+
+  if (error) handleDbError(error);
+
+  const limit =
+    COURSE_LIMITS[profile?.subscription_tier || 'free'] || COURSE_LIMITS.free;
+  return { limit, used, remaining: Math.max(0, limit - used) };
+}
+
+export async function handleTimetablePreview({
+  user,
+  supabaseClient,
+  body,
+}: AuthenticatedRequest) {
+  const { ics_content, url, timezone } = body as {
+    ics_content?: string;
+    url?: string;
+    timezone?: string;
+  };
+
+  const content = url ? await fetchCalendarUrl(url) : (ics_content ?? '');
+  if (!/BEGIN:VCALENDAR/i.test(content)) {
+    throw new AppError(
+      'This file is not an iCalendar (.ics) timetable.',
+      400,
+      ERROR_CODES.INVALID_FORMAT,
+    );
+  }
+
+  const calendar = parseCalendar(content, timezone || 'UTC');
+  if (calendar.events.length > MAX_IMPORT_EVENTS) {
+    throw new AppError(
+      `Calendar has more than ${MAX_IMPORT_EVENTS} events.`,
+      400,
+      ERROR_CODES.INVALID_INPUT,
+    );
+  }
+
+  const timeZone = calendar.timeZone ?? timezone ?? 'UTC';
+  const warnings: string[] = [];
+
+  // Group events into courses by course code, falling back to the derived name
+  const drafts = new Map<string, DraftCourse>();
+  const lecturesByCourse = new Map<string, DraftLecture[]>();
+  let allDayCount = 0;
+
+  for (const event of calendar.events) {
+    // All-day entries in timetables are holidays and term markers, not classes
+    if (event.allDay) {
+      allDayCount++;
+      continue;
+    }
+
+    const { course_code, course_name } = extractCourse(event.summary);
+    const key =
+      normalizeCourseCode(course_code) ?? `name:${normalizeName(course_name)}`;
+    if (!drafts.has(key)) {
+      drafts.set(key, { key, course_code, course_name, lectures: [] });
+      lecturesByCourse.set(key, []);
+    }
+    lecturesByCourse.get(key)!.push(eventToLecture(event, warnings));
+  }
+
+  if (allDayCount > 0) {
+    warnings.push(`${allDayCount} all-day event(s) were skipped.`);
+  }
+
+  for (const [key, lectures] of lecturesByCourse) {
+    drafts.get(key)!.lectures = collapseSeries(lectures, timeZone);
+  }
+
+  // Duplicate detection against the user's existing courses and lectures
+  const { data: existingCourses, error: coursesError } = await supabaseClient
+    .from('courses')
+    .select('id, course_name, course_code')
+    .eq('user_id', user.id)
+    .is('deleted_at', null);
+
+  if (coursesError) handleDbError(coursesError);
+
+  const courseByCode = new Map<string, ExistingCourseRow>();
+  const courseByName = new Map<string, ExistingCourseRow>();
+  for (const course of (existingCourses ?? []) as ExistingCourseRow[]) {
+    const code = normalizeCourseCode(course.course_code);
+    if (code && !courseByCode.has(code)) courseByCode.set(code, course);
+    courseByName.set(normalizeName(course.course_name), course);
+  }
+
+  const matches = new Map<string, ExistingCourseRow>();
+  for (const draft of drafts.values()) {
+    const code = normalizeCourseCode(draft.course_code);
+    const match =
+      (code && courseByCode.get(code)) ||
+      courseByName.get(normalizeName(draft.course_name));
+    if (match) matches.set(draft.key, match);
+  }
+
+  const existingLectures: ExistingLectureRow[] = [];
+  const matchedIds = [...new Set([...matches.values()].map(c => c.id))];
+  if (matchedIds.length > 0) {
+    const { data, error } = await supabaseClient
+      .from('lectures')
+      .select(
+        'course_id, start_time, lecture_date, is_recurring, recurring_pattern',
+      )
+      .eq('user_id', user.id)
+      .in('course_id', matchedIds)
+      .is('deleted_at', null);
+
+    if (error) handleDbError(error);
+    existingLectures.push(...((data ?? []) as ExistingLectureRow[]));
+  }
+
+  const courses = [...drafts.values()]
+    .sort((a, b) =>
+      (a.course_code ?? a.course_name).localeCompare(
+        b.course_code ?? b.course_name,
+      ),
+    )
+    .map(draft => {
+      const match = matches.get(draft.key);
+      const courseLectures = match
+        ? existingLectures.filter(row => row.course_id === match.id)
+        : [];
+
+      return {
+        key: draft.key,
+        course_code: draft.course_code,
+        course_name: draft.course_name,
+        existing_course_id: match?.id ?? null,
+        existing_course_name: match?.course_name ?? null,
+        lectures: draft.lectures.map((lecture, index) => ({
+          key: `${draft.key}#${index}`,
+          lecture_name: lecture.lecture_name,
+          start_time: lecture.start.toISOString(),
+          end_time: lecture.end.toISOString(),
+          venue: lecture.venue,
+          recurring_pattern: lecture.recurrence
+            ? formatRecurringPattern(lecture.recurrence)
+            : null,
+          occurrences: lecture.occurrences,
+          is_duplicate: isDuplicateLecture(lecture, courseLectures, timeZone),
+        })),
+      };
+    });
+
+  return {
+    calendar_name: calendar.name,
+    time_zone: timeZone,
+    courses,
+    warnings: [...new Set(warnings)],
+    skipped_events: calendar.skipped,
+    task_limit: await getTaskLimitStatus(supabaseClient, user.id),
+    course_limit: await getCourseLimitStatus(
+      supabaseClient,
+      user.id,
+      (existingCourses ?? []).length,
+    ),
+  };
+}
+
+export async function handleTimetableImport({
+  user,
+  supabaseClient,
+  body,
+}: AuthenticatedRequest) {
+  const { courses } = body as {
+    courses: Array<{
+      course_name: string;
+      course_code?: string | null;
+      existing_course_id?: string | null;
+      lectures: Array<{
+        lecture_name: string;
+        start_time: string;
+        end_time: string;
+        venue?: string | null;
+        recurring_pattern: string | null;
+      }>;
+    }>;
+  };
+
+  // Free tier: the whole import must fit in the weekly task allowance
+  const lectureCount = courses.reduce(
+    (sum, course) => sum + course.lectures.length,
+    0,
+  );
+  const taskLimit = await getTaskLimitStatus(supabaseClient, user.id);
+  if (taskLimit.is_limited && lectureCount > (taskLimit.remaining ?? 0)) {
+    throw new AppError(
+      `This import adds ${lectureCount} lectures but you can only add ${taskLimit.remaining} more this week on the free plan (limit ${WEEKLY_TASK_LIMIT}).`,
+      403,
+      ERROR_CODES.RESOURCE_LIMIT_EXCEEDED,
+      { required: lectureCount, remaining: taskLimit.remaining },
+    );
+  }
+
+  // Every course that isn't merged into an existing one counts towards the
+  // plan's course limit
+  const newCourseCount = courses.filter(
+    course => !course.existing_course_id,
+  ).length;
+  if (newCourseCount > 0) {
+    const { count, error } = await supabaseClient
+      .from('courses')
+      .select('id', { count: 'exact', head: true })
+      .eq('user_id', user.id)
+      .is('deleted_at', null);
+
+    if (error) handleDbError(error);
+    const courseLimit = await getCourseLimitStatus(
+      supabaseClient,
+      user.id,
+      count ?? 0,
+    );
+    if (newCourseCount > courseLimit.remaining) {
+      throw new AppError(
+        `This import adds ${newCourseCount} courses but your plan allows ${courseLimit.remaining} more (limit ${courseLimit.limit}). Merge them into existing courses or leave some out.`,
+        403,
+        ERROR_CODES.RESOURCE_LIMIT_EXCEEDED,
+        { required: newCourseCount, remaining: courseLimit.remaining },
+      );
+    }
+  }
+
+  // SECURITY: Verify the user owns every course being merged into
+  const mergeIds = [
+    ...new Set(
+      courses
+        .map(course => course.existing_course_id)
+        .filter((id): id is string => Boolean(id)),
+    ),
+  ];
+  if (mergeIds.length > 0) {
+    const { data: owned, error } = await supabaseClient
+      .from('courses')
+      .select('id')
+      .eq('user_id', user.id)
+      .in('id', mergeIds)
+      .is('deleted_at', null);
+
+    if (error) handleDbError(error);
+    if ((owned ?? []).length !== mergeIds.length) {
+      throw new AppError(
+        'Course not found or access denied.',
+        404,
+        ERROR_CODES.DB_NOT_FOUND,
+      );
+    }
+  }
+
+  const encryptionKey = Deno.env.get('ENCRYPTION_KEY');
+  if (!encryptionKey)
+    throw new AppError(
+      'Encryption key not configured.',
+      500,
+      ERROR_CODES.CONFIG_ERROR,
+    );
+
+  const createdCourseIds: string[] = [];
+  const lectureRows: Record<string, unknown>[] = [];
+
+  try {
+    for (const course of courses) {
+      let courseId = course.existing_course_id ?? null;
+
+      if (!courseId) {
+        const { data: newCourse, error } = await supabaseClient
+          .from('courses')
+          .insert({
+            user_id: user.id,
+            course_name: course.course_name,
+            course_code: course.course_code || null,
+          })
+          .select('id')
+          .single();
+
+        if (error) handleDbError(error);
+        courseId = newCourse.id as string;
+        createdCourseIds.push(courseId);
+      }
+
+      for (const lecture of course.lectures) {
+        const recurrence = parseRecurringPattern(lecture.recurring_pattern);
+        lectureRows.push({
+          user_id: user.id,
+          course_id: courseId,
+          lecture_name: await encrypt(
+            truncateLectureName(lecture.lecture_name),
+            encryptionKey,
+          ),
+          start_time: lecture.start_time,
+          end_time: lecture.end_time,
+          lecture_date: lecture.start_time, // For backward compatibility
+          venue: lecture.venue || null,
+          is_recurring: recurrence !== null,
+          recurring_pattern: recurrence
+            ? formatRecurringPattern(recurrence)
+            : null,
+        });
+      }
+    }
+
+    const { error: lecturesError } = await supabaseClient
+      .from('lectures')
+      .insert(lectureRows);
+
+    if (lecturesError) handleDbError(lecturesError);
+  } catch (error) {
+    // Don't leave empty courses behind if the import fails part-way
+    if (createdCourseIds.length > 0) {
+      await supabaseClient
+        .from('courses')
+        .delete()
+        .eq('user_id', user.id)
+        .in('id', createdCourseIds);
+    }
+    throw error;
+  }
+
+  return {
+    courses_created: createdCourseIds.length,
+    courses_merged: mergeIds.length,
+    lectures_created: lectureRows.length,
+  };
+}
@@ -11,6 +11,9 @@ import {
   wrapOldHandler,
   handleDbError,
   extractIdFromUrl,
+  updateWithVersionCheck,
+  updateTaskWithVersionCheck,
+  decryptColumns,
 } from './_handler-utils.ts';
 import { extractTraceContext } from '../_shared/tracing.ts';
 import {
@@ -30,14 +33,22 @@ import {
   UpdateLectureSchema,
   DeleteLectureSchema,
   RestoreLectureSchema,
+  UpdateLectureOccurrenceSchema,
+  CancelLectureOccurrenceSchema,
 } from '../_shared/schemas/lecture.ts';
 import {
   CreateStudySessionSchema,
   UpdateStudySessionSchema,
   DeleteStudySessionSchema,
   RestoreStudySessionSchema,
+  RecordFocusLogSchema,
+  AcceptStudyPlanSchema,
 } from '../_shared/schemas/studySession.ts';
 import { UpdateUserProfileSchema } from '../_shared/schemas/user.ts';
+import {
+  TimetablePreviewSchema,
+  TimetableImportSchema,
+} from '../_shared/schemas/timetable.ts';
 import {
   SendNotificationSchema,
   ScheduleNotificationSchema,
@@ -51,6 +62,90 @@ import {
 import { decrypt } from '../_shared/encryption.ts';
 import { sendUnifiedNotification } from '../_shared/unified-notification-sender.ts';
 import { logger } from '../_shared/logging.ts';
+import {
+  handleExportCalendar,
+  handleGetCalendarFeedToken,
+  CalendarFeedTokenSchema,
+} from './_calendar-export.ts';
+import {
+  handleTimetablePreview,
+  handleTimetableImport,
+} from './_timetable-import.ts';
+import {
+  handleUpdateLectureOccurrence,
+  handleCancelLectureOccurrence,
+} from './_lecture-occurrences.ts';
+import { getLectureOccurrences } from '../_shared/lecture-occurrences.ts';
+import { handleRecordFocusLog } from './_focus-logs.ts';
+import { handleGetStreakInfo, handleGetAchievements } from './_achievements.ts';
+import { handleGetStudyPlan, handleAcceptStudyPlan } from './_study-plan.ts';
+import {
+  handleListTerms,
+  handleCreateTerm,
+  handleUpdateTerm,
+  handleArchiveTerm,
+  handleDeleteTerm,
+} from './_terms.ts';
+import {
+  handleListTags,
+  handleCreateTag,
+  handleUpdateTag,
+  handleDeleteTag,
+} from './_tags.ts';
+import {
+  handleListExams,
+  handleCreateExam,
+  handleUpdateExam,
+  handleDeleteExam,
+  handleRestoreExam,
+  handleGetExamRevisionPlan,
+  handleAcceptExamRevisionPlan,
+} from './_exams.ts';
+import {
+  handleListFlashcardDecks,
+  handleCreateFlashcardDeck,
+  handleUpdateFlashcardDeck,
+  handleDeleteFlashcardDeck,
+  handleListFlashcards,
+  handleCreateFlashcard,
+  handleUpdateFlashcard,
+  handleDeleteFlashcard,
+  handleReviewFlashcard,
+} from './_flashcards.ts';
+import { handleImportFlashcards } from './_flashcard-import.ts';
+import { handleSearch } from './_search.ts';
+import {
+  excludeCoursesFilter,
+  getArchivedCourseIds,
+} from '../_shared/terms.ts';
+import { subtaskProgress } from '../_shared/subtasks.ts';
+import {
+  CreateTermSchema,
+  UpdateTermSchema,
+  ArchiveTermSchema,
+  DeleteTermSchema,
+} from '../_shared/schemas/term.ts';
+import {
+  CreateTagSchema,
+  UpdateTagSchema,
+  DeleteTagSchema,
+} from '../_shared/schemas/tag.ts';
+import {
+  CreateExamSchema,
+  UpdateExamSchema,
+  ExamIdSchema,
+} from '../_shared/schemas/exam.ts';
+import {
+  CreateFlashcardDeckSchema,
+  UpdateFlashcardDeckSchema,
+  FlashcardDeckIdSchema,
+  CreateFlashcardSchema,
+  UpdateFlashcardSchema,
+  FlashcardIdSchema,
+  ReviewFlashcardSchema,
+  ImportFlashcardsSchema,
+} from '../_shared/schemas/flashcard.ts';
+import { SearchSchema } from '../_shared/schemas/search.ts';
 
 // Consolidated API v2 - Handles multiple operations through routing
 serve(async req => {
@@ -148,6 +243,18 @@ function getHandler(resource: string, action: string) {
         undefined,
         false,
       ),
+      'timetable-preview': wrapOldHandler(
+        handleTimetablePreview,
+        'api-v2-courses-timetable-preview',
+        TimetablePreviewSchema,
+        false,
+      ),
+      'timetable-import': wrapOldHandler(
+        handleTimetableImport,
+        'api-v2-courses-timetable-import',
+        TimetableImportSchema,
+        false,
+      ),
     },
     assignments: {
       create: wrapOldHandler(
@@ -212,6 +319,18 @@ function getHandler(resource: string, action: string) {
         RestoreLectureSchema,
         true,
       ),
+      'update-occurrence': wrapOldHandler(
+        handleUpdateLectureOccurrence,
+        'api-v2-lectures-update-occurrence',
+        UpdateLectureOccurrenceSchema,
+        true,
+      ),
+      'cancel-occurrence': wrapOldHandler(
+        handleCancelLectureOccurrence,
+        'api-v2-lectures-cancel-occurrence',
+        CancelLectureOccurrenceSchema,
+        true,
+      ),
       list: wrapOldHandler(
         handleListLectures,
         'api-v2-lectures-list',
@@ -250,6 +369,24 @@ function getHandler(resource: string, action: string) {
         RestoreStudySessionSchema,
         true,
       ),
+      'focus-log': wrapOldHandler(
+        handleRecordFocusLog,
+        'api-v2-study-sessions-focus-log',
+        RecordFocusLogSchema,
+        true,
+      ),
+      plan: wrapOldHandler(
+        handleGetStudyPlan,
+        'api-v2-study-sessions-plan',
+        undefined,
+        false,
+      ),
+      'plan-accept': wrapOldHandler(
+        handleAcceptStudyPlan,
+        'api-v2-study-sessions-plan-accept',
+        AcceptStudyPlanSchema,
+        true,
+      ),
       list: wrapOldHandler(
         handleListStudySessions,
         'api-v2-study-sessions-list',
@@ -263,6 +400,172 @@ function getHandler(resource: string, action: string) {
         false,
       ),
     },
+    terms: {
+      list: wrapOldHandler(
+        handleListTerms,
+        'api-v2-terms-list',
+        undefined,
+        false,
+      ),
+      create: wrapOldHandler(
+        handleCreateTerm,
+        'api-v2-terms-create',
+        CreateTermSchema,
+        true,
+      ),
+      update: wrapOldHandler(
+        handleUpdateTerm,
+        'api-v2-terms-update',
+        UpdateTermSchema,
+        true,
+      ),
+      archive: wrapOldHandler(
+        handleArchiveTerm,
+        'api-v2-terms-archive',
+        ArchiveTermSchema,
+        true,
+      ),
+      delete: wrapOldHandler(
+        handleDeleteTerm,
+        'api-v2-terms-delete',
+        DeleteTermSchema,
+        true,
+      ),
+    },
+    tags: {
+      list: wrapOldHandler(
+        handleListTags,
+        'api-v2-tags-list',
+        undefined,
+        false,
+      ),
+      create: wrapOldHandler(
+        handleCreateTag,
+        'api-v2-tags-create',
+        CreateTagSchema,
+        true,
+      ),
+      update: wrapOldHandler(
+        handleUpdateTag,
+        'api-v2-tags-update',
+        UpdateTagSchema,
+        true,
+      ),
+      delete: wrapOldHandler(
+        handleDeleteTag,
+        'api-v2-tags-delete',
+        DeleteTagSchema,
+        true,
+      ),
+    },
+    exams: {
+      list: wrapOldHandler(
+        handleListExams,
+        'api-v2-exams-list',
+        undefined,
+        false,
+      ),
+      create: wrapOldHandler(
+        handleCreateExam,
+        'api-v2-exams-create',
+        CreateExamSchema,
+        true,
+      ),
+      update: wrapOldHandler(
+        handleUpdateExam,
+        'api-v2-exams-update',
+        UpdateExamSchema,
+        true,
+      ),
+      delete: wrapOldHandler(
+        handleDeleteExam,
+        'api-v2-exams-delete',
+        ExamIdSchema,
+        true,
+      ),
+      restore: wrapOldHandler(
+        handleRestoreExam,
+        'api-v2-exams-restore',
+        ExamIdSchema,
+        true,
+      ),
+      'revision-plan': wrapOldHandler(
+        handleGetExamRevisionPlan,
+        'api-v2-exams-revision-plan',
+        undefined,
+        false,
+      ),
+      'revision-accept': wrapOldHandler(
+        handleAcceptExamRevisionPlan,
+        'api-v2-exams-revision-accept',
+        ExamIdSchema,
+        true,
+      ),
+    },
+    'flashcard-decks': {
+      list: wrapOldHandler(
+        handleListFlashcardDecks,
+        'api-v2-flashcard-decks-list',
+        undefined,
+        false,
+      ),
+      create: wrapOldHandler(
+        handleCreateFlashcardDeck,
+        'api-v2-flashcard-decks-create',
+        CreateFlashcardDeckSchema,
+        true,
+      ),
+      update: wrapOldHandler(
+        handleUpdateFlashcardDeck,
+        'api-v2-flashcard-decks-update',
+        UpdateFlashcardDeckSchema,
+        true,
+      ),
+      delete: wrapOldHandler(
+        handleDeleteFlashcardDeck,
+        'api-v2-flashcard-decks-delete',
+        FlashcardDeckIdSchema,
+        true,
+      ),
+      import: wrapOldHandler(
+        handleImportFlashcards,
+        'api-v2-flashcard-decks-import',
+        ImportFlashcardsSchema,
+        true,
+      ),
+    },
+    flashcards: {
+      list: wrapOldHandler(
+        handleListFlashcards,
+        'api-v2-flashcards-list',
+        undefined,
+        false,
+      ),
+      create: wrapOldHandler(
+        handleCreateFlashcard,
+        'api-v2-flashcards-create',
+        CreateFlashcardSchema,
+        true,
+      ),
+      update: wrapOldHandler(
+        handleUpdateFlashcard,
+        'api-v2-flashcards-update',
+        UpdateFlashcardSchema,
+        true,
+      ),
+      delete: wrapOldHandler(
+        handleDeleteFlashcard,
+        'api-v2-flashcards-delete',
+        FlashcardIdSchema,
+        true,
+      ),
+      review: wrapOldHandler(
+        handleReviewFlashcard,
+        'api-v2-flashcards-review',
+        ReviewFlashcardSchema,
+        true,
+      ),
+    },
     users: {
       profile: wrapOldHandler(
         handleUserProfile,
@@ -318,12 +621,30 @@ function getHandler(resource: string, action: string) {
         undefined,
         false,
       ),
+      'calendar-export': wrapOldHandler(
+        handleExportCalendar,
+        'api-v2-analytics-calendar-export',
+        undefined,
+        false,
+      ),
+      'calendar-feed-token': wrapOldHandler(
+        handleGetCalendarFeedToken,
+        'api-v2-analytics-calendar-feed-token',
+        CalendarFeedTokenSchema,
+        false,
+      ),
       streak: wrapOldHandler(
         handleGetStreakInfo,
         'api-v2-analytics-streak',
         undefined,
         false,
       ),
+      achievements: wrapOldHandler(
+        handleGetAchievements,
+        'api-v2-analytics-achievements',
+        undefined,
+        false,
+      ),
       export: wrapOldHandler(
         handleExportData,
         'api-v2-analytics-export',
@@ -345,6 +666,14 @@ function getHandler(resource: string, action: string) {
         false,
       ),
     },
+    search: {
+      query: wrapOldHandler(
+        handleSearch,
+        'api-v2-search-query',
+        SearchSchema,
+        false,
+      ),
+    },
     // Admin routes removed from api-v2 - use admin-system instead
     // 'admin': { ... }
   };
@@ -358,7 +687,14 @@ async function handleCreateCourse({
   supabaseClient,
   body,
 }: AuthenticatedRequest) {
-  const { course_name, course_code, about_course } = body;
+  const {
+    course_name,
+    course_code,
+    about_course,
+    grading_scheme,
+    credits,
+    term_id,
+  } = body;
 
   const { data, error } = await supabaseClient
     .from('courses')
@@ -367,6 +703,9 @@ async function handleCreateCourse({
       course_name,
       course_code,
       about_course,
+      grading_scheme,
+      credits,
+      term_id,
     })
     .select()
     .single();
@@ -387,22 +726,31 @@ async function handleUpdateCourse(req: AuthenticatedRequest) {
     );
   }
 
-  const { course_name, course_code, about_course } = body;
+  const {
+    course_name,
+    course_code,
+    about_course,
+    grading_scheme,
+    credits,
+    term_id,
+    expected_version,
+  } = body;
   const updates: Record<string, unknown> = {};
   if (course_name !== undefined) updates.course_name = course_name;
   if (course_code !== undefined) updates.course_code = course_code;
   if (about_course !== undefined) updates.about_course = about_course;
-
-  const { data, error } = await supabaseClient
-    .from('courses')
-    .update(updates)
-    .eq('id', courseId)
-    .eq('user_id', user.id) // Ensure ownership
-    .select()
-    .single();
-
-  if (error) handleDbError(error);
-  return data;
+  if (grading_scheme !== undefined) updates.grading_scheme = grading_scheme;
+  if (credits !== undefined) updates.credits = credits;
+  if (term_id !== undefined) updates.term_id = term_id;
+
+  return await updateWithVersionCheck(
+    supabaseClient,
+    'courses',
+    courseId,
+    user.id,
+    updates,
+    expected_version,
+  );
 }
 
 async function handleDeleteCourse(req: AuthenticatedRequest) {
@@ -521,17 +869,15 @@ async function handleUpdateAssignment(req: AuthenticatedRequest) {
     );
   }
 
-  const { assignment_id: _assignment_id, ...updates } = body;
-  const { data, error } = await supabaseClient
-    .from('assignments')
-    .update(updates)
-    .eq('id', assignmentId)
-    .eq('user_id', user.id) // Ensure ownership
-    .select()
-    .single();
-
-  if (error) handleDbError(error);
-  return data;
+  const { assignment_id: _assignment_id, expected_version, ...updates } = body;
+  return await updateTaskWithVersionCheck(
+    supabaseClient,
+    'assignments',
+    assignmentId,
+    user.id,
+    updates,
+    expected_version,
+  );
 }
 
 async function handleDeleteAssignment(req: AuthenticatedRequest) {
@@ -624,7 +970,7 @@ async function handleGetAssignment(req: AuthenticatedRequest) {
     .single();
 
   if (error) handleDbError(error);
-  return data;
+  return await decryptColumns('assignments', data);
 }
 
 // Lecture handlers - Migrated
@@ -657,17 +1003,17 @@ async function handleUpdateLecture(req: AuthenticatedRequest) {
     );
   }
 
-  const { lecture_id: _lecture_id, ...updates } = body;
-  const { data, error } = await supabaseClient
-    .from('lectures')
-    .update(updates)
-    .eq('id', lectureId)
-    .eq('user_id', user.id) // Ensure ownership
-    .select()
-    .single();
-
-  if (error) handleDbError(error);
-  return data;
+  const { lecture_id: _lecture_id, expected_version, ...updates } = body;
+  // Keep lecture_date on the start time, as create-lecture sets it
+  if (updates.start_time) updates.lecture_date = updates.start_time;
+  return await updateTaskWithVersionCheck(
+    supabaseClient,
+    'lectures',
+    lectureId,
+    user.id,
+    updates,
+    expected_version,
+  );
 }
 
 async function handleDeleteLecture(req: AuthenticatedRequest) {
@@ -760,7 +1106,7 @@ async function handleGetLecture(req: AuthenticatedRequest) {
     .single();
 
   if (error) handleDbError(error);
-  return data;
+  return await decryptColumns('lectures', data);
 }
 
 // Study session handlers - Migrated
@@ -793,17 +1139,19 @@ async function handleUpdateStudySession(req: AuthenticatedRequest) {
     );
   }
 
-  const { study_session_id: _study_session_id, ...updates } = body;
-  const { data, error } = await supabaseClient
-    .from('study_sessions')
-    .update(updates)
-    .eq('id', sessionId)
-    .eq('user_id', user.id) // Ensure ownership
-    .select()
-    .single();
-
-  if (error) handleDbError(error);
-  return data;
+  const {
+    study_session_id: _study_session_id,
+    expected_version,
+    ...updates
+  } = body;
+  return await updateTaskWithVersionCheck(
+    supabaseClient,
+    'study_sessions',
+    sessionId,
+    user.id,
+    updates,
+    expected_version,
+  );
 }
 
 async function handleDeleteStudySession(req: AuthenticatedRequest) {
@@ -896,7 +1244,7 @@ async function handleGetStudySession(req: AuthenticatedRequest) {
     .single();
 
   if (error) handleDbError(error);
-  return data;
+  return await decryptColumns('study_sessions', data);
 }
 
 // User handlers - Migrated
@@ -1232,29 +1580,29 @@ async function handleGetHomeData({
   user,
   supabaseClient,
 }: AuthenticatedRequest) {
+  // Courses in archived terms are hidden from the home screen
+  const archivedCourseIds = await getArchivedCourseIds(
+    supabaseClient,
+    user.id,
+  ).catch(handleDbError);
+
   // Get recent assignments, lectures, and study sessions
-  const [assignmentsRes, lecturesRes, studySessionsRes] = await Promise.all([
-    supabaseClient
-      .from('assignments')
-      .select('*')
-      .eq('user_id', user.id)
-      .is('deleted_at', null)
-      .order('due_date', { ascending: true })
-      .limit(5),
-    supabaseClient
-      .from('lectures')
-      .select('*')
-      .eq('user_id', user.id)
-      .is('deleted_at', null)
-      .order('start_time', { ascending: true })
-      .limit(5),
-    supabaseClient
-      .from('study_sessions')
+  const recent = (table: string, orderBy: string, ascending: boolean) => {
+    let query = supabaseClient
+      .from(table)
       .select('*')
       .eq('user_id', user.id)
-      .is('deleted_at', null)
-      .order('session_date', { ascending: false })
-      .limit(5),
+      .is('deleted_at', null);
+    if (archivedCourseIds.length > 0) {
+      query = query.or(excludeCoursesFilter(archivedCourseIds));
+    }
+    return query.order(orderBy, { ascending }).limit(5);
+  };
+
+  const [assignmentsRes, lecturesRes, studySessionsRes] = await Promise.all([
+    recent('assignments', 'due_date', true),
+    recent('lectures', 'start_time', true),
+    recent('study_sessions', 'session_date', false),
   ]);
 
   // Check for errors
@@ -1263,7 +1611,11 @@ async function handleGetHomeData({
   if (studySessionsRes.error) handleDbError(studySessionsRes.error);
 
   return {
-    assignments: assignmentsRes.data,
+    // Each assignment keeps its subtasks and gets their rolled-up progress
+    assignments: (assignmentsRes.data || []).map(assignment => ({
+      ...assignment,
+      subtask_progress: subtaskProgress(assignment.subtasks),
+    })),
     lectures: lecturesRes.data,
     studySessions: studySessionsRes.data,
   };
@@ -1282,36 +1634,16 @@ async function handleGetCalendarData(req: AuthenticatedRequest) {
     );
   }
 
-  const { data, error } = await supabaseClient
-    .from('lectures')
-    .select('*')
-    .eq('user_id', user.id) // Ensure ownership
-    .gte('start_time', weekStart)
-    .lt(
-      'start_time',
-      new Date(
-        new Date(weekStart).getTime() + 7 * 24 * 60 * 60 * 1000,
-      ).toISOString(),
-    )
-    .is('deleted_at', null);
-
-  if (error) handleDbError(error);
-  return data;
-}
+  // Recurring lectures are returned once per occurrence in the week
+  const rangeStart = new Date(weekStart);
+  const rangeEnd = new Date(rangeStart.getTime() + 7 * 24 * 60 * 60 * 1000 - 1);
 
-async function handleGetStreakInfo({
-  user,
-  supabaseClient,
-}: AuthenticatedRequest) {
-  const { data, error } = await supabaseClient
-    .from('study_sessions')
-    .select('session_date')
-    .eq('user_id', user.id)
-    .is('deleted_at', null)
-    .order('session_date', { ascending: false });
-
-  if (error) handleDbError(error);
-  return data;
+  return await getLectureOccurrences(
+    supabaseClient,
+    user.id,
+    rangeStart,
+    rangeEnd,
+  ).catch(handleDbError);
 }
 
 async function handleExportData({
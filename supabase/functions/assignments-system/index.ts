@@ -61,6 +61,12 @@ class AssignmentService {
       submission_method,
       submission_link,
       reminders,
+      subtasks,
+      estimated_minutes,
+      score,
+      max_score,
+      weight,
+      grade_category,
     } = data;
 
     // 1. SECURITY: Verify course ownership
@@ -96,6 +102,12 @@ class AssignmentService {
           due_date,
           submission_method,
           submission_link,
+          subtasks,
+          estimated_minutes,
+          score,
+          max_score,
+          weight,
+          grade_category,
         })
         .select()
         .single();
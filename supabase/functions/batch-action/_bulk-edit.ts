@@ -0,0 +1,422 @@
+/**
+ * Bulk edits of tasks and undoing them
+ *
+ * Every edited row's overwritten columns are saved in batch_action_undo. The
+ * row id is the undo token handed back to the client; undoing writes the
+ * saved values back and consumes the token.
+ */
+
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.39.3';
+import { AppError } from '../_shared/function-handler.ts';
+import { ERROR_CODES } from '../_shared/error-codes.ts';
+import { handleDbError } from '../api-v2/_handler-utils.ts';
+import { logger } from '../_shared/logging.ts';
+import {
+  DatabaseEventEmitter,
+  initializeEventDrivenArchitecture,
+} from '../_shared/event-driven-architecture.ts';
+import {
+  ReminderTime,
+  shiftReminderTimes,
+  shiftTimestamp,
+} from './_reschedule.ts';
+
+export type BulkEditAction =
+  | 'RESCHEDULE'
+  | 'MOVE_COURSE'
+  | 'COMPLETE'
+  | 'SOFT_DELETE';
+
+export type TaskType = 'assignment' | 'lecture' | 'study_session';
+
+export interface BatchItemResults {
+  success: Array<{ id: string; type: string }>;
+  failed: Array<{ id: string; type: string; error: string }>;
+}
+
+export interface BulkEditOptions {
+  shiftDays?: number;
+  courseId?: string;
+}
+
+interface UndoChange {
+  id: string;
+  type: TaskType;
+  previous: Record<string, unknown>;
+  // Pending reminders moved along with a rescheduled task
+  reminders?: ReminderTime[];
+}
+
+const BULK_EDIT_ACTIONS: BulkEditAction[] = [
+  'RESCHEDULE',
+  'MOVE_COURSE',
+  'COMPLETE',
+  'SOFT_DELETE',
+];
+
+const TASK_TABLES: Record<TaskType, string> = {
+  assignment: 'assignments',
+  lecture: 'lectures',
+  study_session: 'study_sessions',
+};
+
+// Reminder column pointing at each type of task
+const REMINDER_TASK_COLUMNS: Record<TaskType, string> = {
+  assignment: 'assignment_id',
+  lecture: 'lecture_id',
+  study_session: 'session_id',
+};
+
+// Timestamps moved by RESCHEDULE
+const DATE_COLUMNS: Record<TaskType, string[]> = {
+  assignment: ['due_date'],
+  lecture: ['lecture_date', 'start_time', 'end_time'],
+  study_session: ['session_date'],
+};
+
+const UNDO_TOKEN_TTL_MS = 60 * 60 * 1000;
+
+export function isBulkEditAction(action: string): action is BulkEditAction {
+  return BULK_EDIT_ACTIONS.includes(action as BulkEditAction);
+}
+
+function editedColumns(action: BulkEditAction, type: TaskType): string[] {
+  switch (action) {
+    case 'RESCHEDULE':
+      return DATE_COLUMNS[type];
+    case 'MOVE_COURSE':
+      return ['course_id'];
+    case 'COMPLETE':
+      return ['status'];
+    case 'SOFT_DELETE':
+      return ['deleted_at'];
+  }
+}
+
+function editedValues(
+  action: BulkEditAction,
+  row: Record<string, unknown>,
+  columns: string[],
+  options: BulkEditOptions,
+  now: string,
+  timeZone: string,
+): Record<string, unknown> {
+  switch (action) {
+    case 'RESCHEDULE':
+      return Object.fromEntries(
+        columns.map(column => [
+          column,
+          shiftTimestamp(row[column], options.shiftDays ?? 0, timeZone),
+        ]),
+      );
+    case 'MOVE_COURSE':
+      return { course_id: options.courseId };
+    case 'COMPLETE':
+      return { status: 'completed' };
+    case 'SOFT_DELETE':
+      return { deleted_at: now };
+  }
+}
+
+/**
+ * Move the pending reminders of a rescheduled task by the same number of
+ * days, and return their previous times for undo
+ */
+async function shiftTaskReminders(
+  supabaseClient: SupabaseClient,
+  userId: string,
+  type: TaskType,
+  taskId: string,
+  days: number,
+  timeZone: string,
+): Promise<ReminderTime[]> {
+  const { data: reminders, error } = await supabaseClient
+    .from('reminders')
+    .select('id, reminder_time')
+    .eq('user_id', userId)
+    .eq(REMINDER_TASK_COLUMNS[type], taskId)
+    .eq('completed', false);
+
+  if (error) throw error;
+
+  const previous = new Map(
+    ((reminders ?? []) as ReminderTime[]).map(reminder => [
+      reminder.id,
+      reminder.reminder_time,
+    ]),
+  );
+  const moved: ReminderTime[] = [];
+  for (const reminder of shiftReminderTimes(
+    (reminders ?? []) as ReminderTime[],
+    days,
+    timeZone,
+  )) {
+    const { error: updateError } = await supabaseClient
+      .from('reminders')
+      .update({ reminder_time: reminder.reminder_time })
+      .eq('id', reminder.id)
+      .eq('user_id', userId);
+    if (updateError) throw updateError;
+    moved.push({ id: reminder.id, reminder_time: previous.get(reminder.id)! });
+  }
+
+  return moved;
+}
+
+/**
+ * Apply one edit to every item, item by item, and save what it overwrote.
+ * The undo token is null when nothing changed.
+ */
+export async function applyBulkEdit(
+  supabaseClient: SupabaseClient,
+  userId: string,
+  action: BulkEditAction,
+  items: Array<{ id: string; type: TaskType }>,
+  options: BulkEditOptions,
+): Promise<{
+  results: BatchItemResults;
+  undo: { undo_token: string; undo_expires_at: string } | null;
+}> {
+  if (action === 'MOVE_COURSE') {
+    const { data: course, error } = await supabaseClient
+      .from('courses')
+      .select('id')
+      .eq('id', options.courseId)
+      .eq('user_id', userId)
+      .is('deleted_at', null)
+      .maybeSingle();
+
+    if (error) throw handleDbError(error);
+    if (!course) {
+      throw new AppError(
+        'Course not found or access denied.',
+        404,
+        ERROR_CODES.DB_NOT_FOUND,
+      );
+    }
+  }
+
+  let timeZone = 'UTC';
+  if (action === 'RESCHEDULE') {
+    const { data: profile } = await supabaseClient
+      .from('users')
+      .select('timezone')
+      .eq('id', userId)
+      .maybeSingle();
+    timeZone = (profile?.timezone as string | null) || 'UTC';
+  }
+
+  const results: BatchItemResults = { success: [], failed: [] };
+  const changes: UndoChange[] = [];
+  const now = new Date().toISOString();
+
+  const idsByType = new Map<TaskType, Set<string>>();
+  items.forEach(item => {
+    const ids = idsByType.get(item.type) ?? new Set<string>();
+    ids.add(item.id);
+    idsByType.set(item.type, ids);
+  });
+
+  await Promise.all(
+    [...idsByType.entries()].map(async ([type, idSet]) => {
+      const ids = [...idSet];
+      const table = TASK_TABLES[type];
+      const columns = editedColumns(action, type);
+
+      const { data: rows, error } = await supabaseClient
+        .from(table)
+        .select(['id', ...columns].join(', '))
+        .in('id', ids)
+        .eq('user_id', userId)
+        .is('deleted_at', null);
+
+      if (error) {
+        ids.forEach(id =>
+          results.failed.push({ id, type, error: error.message }),
+        );
+        return;
+      }
+
+      const found = new Map(
+        ((rows ?? []) as Record<string, unknown>[]).map(row => [
+          row.id as string,
+          row,
+        ]),
+      );
+
+      await Promise.all(
+        ids.map(async id => {
+          const row = found.get(id);
+          if (!row) {
+            results.failed.push({
+              id,
+              type,
+              error: 'Item not found or deleted',
+            });
+            return;
+          }
+
+          const { error: updateError } = await supabaseClient
+            .from(table)
+            .update(editedValues(action, row, columns, options, now, timeZone))
+            .eq('id', id)
+            .eq('user_id', userId);
+
+          if (updateError) {
+            results.failed.push({ id, type, error: updateError.message });
+            return;
+          }
+
+          // The task moved even if its reminders could not be; they are
+          // logged and left where they were
+          let reminders: ReminderTime[] | undefined;
+          if (action === 'RESCHEDULE') {
+            try {
+              reminders = await shiftTaskReminders(
+                supabaseClient,
+                userId,
+                type,
+                id,
+                options.shiftDays ?? 0,
+                timeZone,
+              );
+            } catch (reminderError) {
+              await logger.warn('Could not move reminders of task', {
+                user_id: userId,
+                task_id: id,
+                error:
+                  reminderError instanceof Error
+                    ? reminderError.message
+                    : String(reminderError),
+              });
+            }
+          }
+
+          results.success.push({ id, type });
+          changes.push({
+            id,
+            type,
+            previous: Object.fromEntries(
+              columns.map(column => [column, row[column] ?? null]),
+            ),
+            ...(reminders && reminders.length > 0 ? { reminders } : {}),
+          });
+        }),
+      );
+    }),
+  );
+
+  const completed = changes.filter(
+    change => action === 'COMPLETE' && change.previous.status !== 'completed',
+  );
+  if (completed.length > 0) {
+    initializeEventDrivenArchitecture(supabaseClient);
+    const eventEmitter = new DatabaseEventEmitter(supabaseClient);
+    for (const { id, type } of completed) {
+      await eventEmitter.emitTaskCompleted({
+        taskId: id,
+        taskType: type,
+        userId,
+        completedAt: now,
+      });
+    }
+  }
+
+  if (changes.length === 0) return { results, undo: null };
+
+  // Tokens nobody used are cleared out as new ones are made
+  await supabaseClient
+    .from('batch_action_undo')
+    .delete()
+    .eq('user_id', userId)
+    .lt('expires_at', now);
+
+  const { data: token, error: tokenError } = await supabaseClient
+    .from('batch_action_undo')
+    .insert({
+      user_id: userId,
+      action,
+      changes,
+      expires_at: new Date(Date.now() + UNDO_TOKEN_TTL_MS).toISOString(),
+    })
+    .select('id, expires_at')
+    .single();
+
+  // The edit itself went through; it just can't be undone
+  if (tokenError || !token) {
+    await logger.warn('Could not save batch undo token', {
+      user_id: userId,
+      action,
+      error: tokenError?.message,
+    });
+    return { results, undo: null };
+  }
+
+  return {
+    results,
+    undo: { undo_token: token.id, undo_expires_at: token.expires_at },
+  };
+}
+
+/**
+ * Write back the values saved under an undo token. The token is consumed
+ * first so the same batch can't be undone twice.
+ */
+export async function undoBulkEdit(
+  supabaseClient: SupabaseClient,
+  userId: string,
+  undoToken: string,
+): Promise<BatchItemResults> {
+  const { data: consumed, error } = await supabaseClient
+    .from('batch_action_undo')
+    .delete()
+    .eq('id', undoToken)
+    .eq('user_id', userId)
+    .select('changes, expires_at');
+
+  if (error) throw handleDbError(error);
+
+  const token = consumed?.[0] as
+    | { changes: UndoChange[]; expires_at: string }
+    | undefined;
+  if (!token || Date.parse(token.expires_at) < Date.now()) {
+    throw new AppError(
+      'This change can no longer be undone.',
+      404,
+      ERROR_CODES.NOT_FOUND,
+    );
+  }
+
+  const results: BatchItemResults = { success: [], failed: [] };
+
+  await Promise.all(
+    token.changes.map(async change => {
+      const { error: updateError } = await supabaseClient
+        .from(TASK_TABLES[change.type])
+        .update(change.previous)
+        .eq('id', change.id)
+        .eq('user_id', userId);
+
+      if (updateError) {
+        results.failed.push({
+          id: change.id,
+          type: change.type,
+          error: updateError.message,
+        });
+        return;
+      }
+
+      for (const reminder of change.reminders ?? []) {
+        await supabaseClient
+          .from('reminders')
+          .update({ reminder_time: reminder.reminder_time })
+          .eq('id', reminder.id)
+          .eq('user_id', userId)
+          .eq('completed', false);
+      }
+      results.success.push({ id: change.id, type: change.type });
+    }),
+  );
+
+  return results;
+}
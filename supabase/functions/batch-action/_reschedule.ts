@@ -0,0 +1,56 @@
+/**
+ * Day shifts for bulk RESCHEDULE
+ *
+ * Tasks and their reminders are moved by calendar days in the user's time
+ * zone, so they keep their local time of day across a DST change.
+ */
+
+import {
+  isValidTimeZone,
+  timeZoneOffset,
+  zonedTimeToDate,
+} from '../_shared/ical.ts';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface ReminderTime {
+  id: string;
+  reminder_time: string;
+}
+
+/** Move a timestamp by whole days, keeping its local time of day */
+export function shiftTimestamp(
+  value: unknown,
+  days: number,
+  timeZone: string,
+): unknown {
+  if (typeof value !== 'string') return value;
+  const time = Date.parse(value);
+  if (Number.isNaN(time)) return value;
+
+  const zone = isValidTimeZone(timeZone) ? timeZone : 'UTC';
+  const wallClock = time + timeZoneOffset(time, zone);
+  return zonedTimeToDate(wallClock + days * DAY_MS, zone).toISOString();
+}
+
+/**
+ * New times for a task's pending reminders after it moved by `days`.
+ * Reminders that would now be in the past are left alone.
+ */
+export function shiftReminderTimes(
+  reminders: ReminderTime[],
+  days: number,
+  timeZone: string,
+  now: number = Date.now(),
+): ReminderTime[] {
+  return reminders
+    .map(reminder => ({
+      id: reminder.id,
+      reminder_time: shiftTimestamp(
+        reminder.reminder_time,
+        days,
+        timeZone,
+      ) as string,
+    }))
+    .filter(reminder => Date.parse(reminder.reminder_time) > now);
+}
@@ -8,6 +8,13 @@ import { handleDbError } from '../api-v2/_handler-utils.ts';
 import { logger } from '../_shared/logging.ts';
 import { extractTraceContext } from '../_shared/tracing.ts';
 import { z } from 'zod';
+import {
+  applyBulkEdit,
+  BatchItemResults,
+  isBulkEditAction,
+  TaskType,
+  undoBulkEdit,
+} from './_bulk-edit.ts';
 
 // Define the schema for batch operations
 const BatchItemSchema = z.object({
@@ -15,14 +22,88 @@ const BatchItemSchema = z.object({
   type: z.enum(['assignment', 'lecture', 'study_session', 'course']),
 });
 
-const BatchActionSchema = z.object({
-  action: z.enum(['RESTORE', 'DELETE_PERMANENTLY']),
-  items: z.array(BatchItemSchema).min(1).max(100), // Limit to 100 items per batch
-});
+const BatchActionSchema = z
+  .object({
+    action: z.enum([
+      'RESTORE',
+      'DELETE_PERMANENTLY',
+      'RESCHEDULE',
+      'MOVE_COURSE',
+      'COMPLETE',
+      'SOFT_DELETE',
+      'UNDO',
+    ]),
+    items: z.array(BatchItemSchema).max(100).default([]), // Limit to 100 items per batch
+    shift_days: z.number().int().min(-365).max(365).optional(),
+    course_id: z.string().uuid().optional(),
+    undo_token: z.string().uuid().optional(),
+  })
+  .superRefine((value, ctx) => {
+    if (value.action === 'UNDO') {
+      if (!value.undo_token) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ['undo_token'],
+          message: 'undo_token is required to undo a batch',
+        });
+      }
+      return;
+    }
+
+    if (value.items.length === 0) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.too_small,
+        path: ['items'],
+        minimum: 1,
+        inclusive: true,
+        type: 'array',
+        message: 'At least one item is required',
+      });
+    }
+    if (
+      value.action === 'RESCHEDULE' &&
+      (value.shift_days === undefined || value.shift_days === 0)
+    ) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['shift_days'],
+        message: 'shift_days must be a non-zero number of days',
+      });
+    }
+    if (value.action === 'MOVE_COURSE' && !value.course_id) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['course_id'],
+        message: 'course_id is required to move items',
+      });
+    }
+    // Only tasks can be edited in bulk; courses have their own screens
+    if (
+      isBulkEditAction(value.action) &&
+      value.items.some(item => item.type === 'course')
+    ) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['items'],
+        message: `${value.action} only applies to lectures, assignments and study sessions`,
+      });
+    }
+  });
 
 type BatchItem = z.infer<typeof BatchItemSchema>;
 type BatchAction = z.infer<typeof BatchActionSchema>;
 
+// Past tense of each action for the response message
+const ACTION_VERBS: Record<BatchAction['action'], string> = {
+  RESTORE: 'restored',
+  DELETE_PERMANENTLY: 'deleted',
+  RESCHEDULE: 'rescheduled',
+  MOVE_COURSE: 'moved',
+  COMPLETE: 'completed',
+  SOFT_DELETE: 'deleted',
+  UNDO: 'reverted',
+};
+
 // Define table mappings
 const TABLE_NAMES: Record<string, string> = {
   assignment: 'assignments',
@@ -31,158 +112,195 @@ const TABLE_NAMES: Record<string, string> = {
   course: 'courses',
 };
 
-serve(
-  createAuthenticatedHandler(
-    async (req: AuthenticatedRequest) => {
-      const { action, items } = req.body as BatchAction;
-      const { user, supabaseClient } = req;
-      const traceContext = extractTraceContext(req as unknown as Request);
+/**
+ * Restore or permanently delete recycle bin items, one query per type
+ */
+async function processRecycleBinItems(
+  req: AuthenticatedRequest,
+  action: 'RESTORE' | 'DELETE_PERMANENTLY',
+  items: BatchItem[],
+  traceContext: ReturnType<typeof extractTraceContext>,
+): Promise<BatchItemResults> {
+  const { user, supabaseClient } = req;
 
-      await logger.info(
-        'Batch operation requested',
+  // Group items by type for efficient batch operations
+  const itemsByType = items.reduce(
+    (acc, item) => {
+      if (!acc[item.type]) {
+        acc[item.type] = [];
+      }
+      acc[item.type].push(item.id);
+      return acc;
+    },
+    {} as Record<string, string[]>,
+  );
+
+  // Track results
+  const results = {
+    success: [] as Array<{ id: string; type: string }>,
+    failed: [] as Array<{ id: string; type: string; error: string }>,
+  };
+
+  // Process each type in parallel
+  const operations = Object.entries(itemsByType).map(async ([type, ids]) => {
+    const tableName = TABLE_NAMES[type];
+    if (!tableName) {
+      await logger.error(
+        'Unknown item type in batch operation',
         {
           user_id: user.id,
-          action,
-          item_count: items.length,
+          type,
+          item_count: ids.length,
         },
         traceContext,
       );
+      ids.forEach(id => {
+        results.failed.push({ id, type, error: 'Unknown item type' });
+      });
+      return;
+    }
 
-      // Group items by type for efficient batch operations
-      const itemsByType = items.reduce(
-        (acc, item) => {
-          if (!acc[item.type]) {
-            acc[item.type] = [];
-          }
-          acc[item.type].push(item.id);
-          return acc;
+    try {
+      await logger.info(
+        'Processing batch items',
+        {
+          user_id: user.id,
+          type,
+          item_count: ids.length,
+          action,
         },
-        {} as Record<string, string[]>,
+        traceContext,
       );
 
-      // Track results
-      const results = {
-        success: [] as Array<{ id: string; type: string }>,
-        failed: [] as Array<{ id: string; type: string; error: string }>,
-      };
+      if (action === 'RESTORE') {
+        // Restore items by setting deleted_at to null
+        const { error, data } = await supabaseClient
+          .from(tableName)
+          .update({ deleted_at: null })
+          .in('id', ids)
+          .eq('user_id', user.id)
+          .select('id');
 
-      // Process each type in parallel
-      const operations = Object.entries(itemsByType).map(
-        async ([type, ids]) => {
-          const tableName = TABLE_NAMES[type];
-          if (!tableName) {
-            await logger.error(
-              'Unknown item type in batch operation',
-              {
-                user_id: user.id,
-                type,
-                item_count: ids.length,
-              },
-              traceContext,
-            );
-            ids.forEach(id => {
-              results.failed.push({ id, type, error: 'Unknown item type' });
-            });
-            return;
-          }
+        if (error) throw handleDbError(error);
 
-          try {
-            await logger.info(
-              'Processing batch items',
-              {
-                user_id: user.id,
-                type,
-                item_count: ids.length,
-                action,
-              },
-              traceContext,
-            );
+        // Track successful operations
+        const restoredIds = data?.map(item => item.id) || [];
+        restoredIds.forEach(id => {
+          results.success.push({ id, type });
+        });
 
-            if (action === 'RESTORE') {
-              // Restore items by setting deleted_at to null
-              const { error, data } = await supabaseClient
-                .from(tableName)
-                .update({ deleted_at: null })
-                .in('id', ids)
-                .eq('user_id', user.id)
-                .select('id');
+        // Track any that weren't restored (might not belong to user)
+        const notRestored = ids.filter(id => !restoredIds.includes(id));
+        notRestored.forEach(id => {
+          results.failed.push({
+            id,
+            type,
+            error: 'Item not found or already restored',
+          });
+        });
 
-              if (error) throw handleDbError(error);
+        await logger.info(
+          'Batch restore completed',
+          {
+            user_id: user.id,
+            type,
+            restored_count: restoredIds.length,
+          },
+          traceContext,
+        );
+      } else if (action === 'DELETE_PERMANENTLY') {
+        // Permanently delete items
+        const { error, count } = await supabaseClient
+          .from(tableName)
+          .delete()
+          .in('id', ids)
+          .eq('user_id', user.id);
 
-              // Track successful operations
-              const restoredIds = data?.map(item => item.id) || [];
-              restoredIds.forEach(id => {
-                results.success.push({ id, type });
-              });
+        if (error) throw handleDbError(error);
 
-              // Track any that weren't restored (might not belong to user)
-              const notRestored = ids.filter(id => !restoredIds.includes(id));
-              notRestored.forEach(id => {
-                results.failed.push({
-                  id,
-                  type,
-                  error: 'Item not found or already restored',
-                });
-              });
+        // Since delete doesn't return data, assume success for all
+        ids.forEach(id => {
+          results.success.push({ id, type });
+        });
 
-              await logger.info(
-                'Batch restore completed',
-                {
-                  user_id: user.id,
-                  type,
-                  restored_count: restoredIds.length,
-                },
-                traceContext,
-              );
-            } else if (action === 'DELETE_PERMANENTLY') {
-              // Permanently delete items
-              const { error, count } = await supabaseClient
-                .from(tableName)
-                .delete()
-                .in('id', ids)
-                .eq('user_id', user.id);
+        await logger.info(
+          'Batch delete completed',
+          {
+            user_id: user.id,
+            type,
+            deleted_count: count || ids.length,
+          },
+          traceContext,
+        );
+      }
+    } catch (error) {
+      await logger.error(
+        'Error processing batch items',
+        {
+          user_id: user.id,
+          type,
+          error: error instanceof Error ? error.message : String(error),
+        },
+        traceContext,
+      );
+      // Mark all items of this type as failed
+      ids.forEach(id => {
+        results.failed.push({
+          id,
+          type,
+          error: error instanceof Error ? error.message : 'Unknown error',
+        });
+      });
+    }
+  });
 
-              if (error) throw handleDbError(error);
+  // Wait for all operations to complete
+  await Promise.all(operations);
 
-              // Since delete doesn't return data, assume success for all
-              ids.forEach(id => {
-                results.success.push({ id, type });
-              });
+  return results;
+}
+
+serve(
+  createAuthenticatedHandler(
+    async (req: AuthenticatedRequest) => {
+      const { action, items, shift_days, course_id, undo_token } =
+        req.body as BatchAction;
+      const { user, supabaseClient } = req;
+      const traceContext = extractTraceContext(req as unknown as Request);
 
-              await logger.info(
-                'Batch delete completed',
-                {
-                  user_id: user.id,
-                  type,
-                  deleted_count: count || ids.length,
-                },
-                traceContext,
-              );
-            }
-          } catch (error) {
-            await logger.error(
-              'Error processing batch items',
-              {
-                user_id: user.id,
-                type,
-                error: error instanceof Error ? error.message : String(error),
-              },
-              traceContext,
-            );
-            // Mark all items of this type as failed
-            ids.forEach(id => {
-              results.failed.push({
-                id,
-                type,
-                error: error instanceof Error ? error.message : 'Unknown error',
-              });
-            });
-          }
+      await logger.info(
+        'Batch operation requested',
+        {
+          user_id: user.id,
+          action,
+          item_count: items.length,
         },
+        traceContext,
       );
 
-      // Wait for all operations to complete
-      await Promise.all(operations);
+      let results: BatchItemResults;
+      let undo: { undo_token: string; undo_expires_at: string } | null = null;
+
+      if (action === 'UNDO') {
+        results = await undoBulkEdit(supabaseClient, user.id, undo_token!);
+      } else if (isBulkEditAction(action)) {
+        const edit = await applyBulkEdit(
+          supabaseClient,
+          user.id,
+          action,
+          items as Array<{ id: string; type: TaskType }>,
+          { shiftDays: shift_days, courseId: course_id },
+        );
+        results = edit.results;
+        undo = edit.undo;
+      } else {
+        results = await processRecycleBinItems(
+          req,
+          action,
+          items,
+          traceContext,
+        );
+      }
 
       // Determine overall status
       const allSucceeded = results.failed.length === 0;
@@ -192,7 +310,7 @@ serve(
       let statusCode: number;
 
       if (allSucceeded) {
-        message = `Successfully ${action === 'RESTORE' ? 'restored' : 'deleted'} ${results.success.length} item(s)`;
+        message = `Successfully ${ACTION_VERBS[action]} ${results.success.length} item(s)`;
         statusCode = 200;
         await logger.info(
           'Batch operation complete',
@@ -235,7 +353,7 @@ serve(
         JSON.stringify({
           message,
           results: {
-            total: items.length,
+            total: results.success.length + results.failed.length,
             succeeded: results.success.length,
             failed: results.failed.length,
             details: {
@@ -243,6 +361,7 @@ serve(
               failed: results.failed,
             },
           },
+          ...undo,
         }),
         {
           status: statusCode,
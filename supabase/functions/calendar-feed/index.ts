@@ -0,0 +1,18 @@
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts';
+import { corsHeaders } from '../_shared/cors.ts';
+import { handleCalendarFeed } from '../api-v2/_calendar-export.ts';
+
+/**
+ * Public iCalendar subscription feed
+ *
+ * Calendar apps can't send a Supabase JWT, so this function runs with
+ * verify_jwt off and the feed token in the URL is the credential. It lives
+ * outside api-v2 so the gateway keeps checking JWTs for every other route.
+ */
+serve(async req => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  return await handleCalendarFeed(req);
+});
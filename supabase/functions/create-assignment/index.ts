@@ -25,6 +25,14 @@ serve(
         submission_method,
         submission_link,
         reminders,
+        subtasks,
+        estimated_minutes,
+        score,
+        max_score,
+        weight,
+        grade_category,
+        priority,
+        tag_ids,
       } = body;
 
       // 2. SECURITY: Verify course ownership
@@ -59,6 +67,14 @@ serve(
           due_date,
           submission_method,
           submission_link,
+          subtasks,
+          estimated_minutes,
+          score,
+          max_score,
+          weight,
+          grade_category,
+          priority,
+          tag_ids,
         })
         .select()
         .single();
@@ -23,6 +23,8 @@ async function handleCreateLecture(req: AuthenticatedRequest) {
     is_recurring,
     recurring_pattern,
     reminders,
+    priority,
+    tag_ids,
   } = body;
 
   const traceContext = extractTraceContext(req as unknown as Request);
@@ -76,6 +78,8 @@ async function handleCreateLecture(req: AuthenticatedRequest) {
       lecture_date: start_time, // For backward compatibility
       is_recurring: is_recurring || false,
       recurring_pattern: recurring_pattern || null,
+      priority,
+      tag_ids,
     })
     .select('id')
     .single();
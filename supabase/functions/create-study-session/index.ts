@@ -21,6 +21,8 @@ async function handleCreateStudySession(req: AuthenticatedRequest) {
     session_date,
     has_spaced_repetition,
     reminders,
+    priority,
+    tag_ids,
   } = body;
 
   const traceContext = extractTraceContext(req as unknown as Request);
@@ -71,6 +73,8 @@ async function handleCreateStudySession(req: AuthenticatedRequest) {
       notes: encryptedNotes,
       session_date,
       has_spaced_repetition,
+      priority,
+      tag_ids,
     })
     .select('id, topic, session_date')
     .single();
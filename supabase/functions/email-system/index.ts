@@ -23,6 +23,13 @@ import {
 import { wrapOldHandler, handleDbError } from '../api-v2/_handler-utils.ts';
 import { logger } from '../_shared/logging.ts';
 import { extractTraceContext } from '../_shared/tracing.ts';
+import {
+  resolveUserLocale,
+  ServerMessageKey,
+  SupportedLocale,
+  textDirection,
+  translate,
+} from '../_shared/i18n.ts';
 import { z } from 'zod';
 
 const resend = new Resend(Deno.env.get('RESEND_API_KEY'));
@@ -47,19 +54,33 @@ class EmailService {
     private user: User,
   ) {}
 
+  // Recipients without a users row (or hidden by RLS) get English
+  private async getRecipientLocale(
+    column: 'id' | 'email',
+    value: string,
+  ): Promise<SupportedLocale> {
+    const { data: recipient } = await this.supabaseClient
+      .from('users')
+      .select('locale, device_locale')
+      .eq(column, value)
+      .maybeSingle();
+
+    return resolveUserLocale(recipient);
+  }
+
   async sendWelcomeEmail(data: Record<string, unknown>) {
-    const {
-      userEmail,
-      userFirstName,
-      userId: _userId,
-    } = WelcomeEmailSchema.parse(data);
+    const { userEmail, userFirstName, userId } = WelcomeEmailSchema.parse(data);
+
+    const locale = await this.getRecipientLocale('id', userId);
+    const t = (key: ServerMessageKey, params?: Record<string, string>) =>
+      translate(locale, key, params);
 
     const emailContent = `
       <!DOCTYPE html>
-      <html>
+      <html lang="${locale}" dir="${textDirection(locale)}">
         <head>
           <meta charset="utf-8">
-          <title>Welcome to ELARO</title>
+          <title>${t('welcome.heading')}</title>
           <style>
             body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
             .container { max-width: 600px; margin: 0 auto; padding: 20px; }
@@ -72,33 +93,33 @@ class EmailService {
         <body>
           <div class="container">
             <div class="header">
-              <h1>Welcome to ELARO! 🎓</h1>
-              <p>Your academic journey starts here</p>
+              <h1>${t('welcome.heading')}</h1>
+              <p>${t('welcome.tagline')}</p>
             </div>
             <div class="content">
-              <h2>Hi ${userFirstName}!</h2>
-              <p>Welcome to ELARO, your personal academic companion! We're excited to help you organize your studies, track your progress, and achieve your academic goals.</p>
+              <h2>${t('welcome.greeting', { name: userFirstName })}</h2>
+              <p>${t('welcome.intro')}</p>
               
-              <h3>What you can do with ELARO:</h3>
+              <h3>${t('welcome.featuresHeading')}</h3>
               <ul>
-                <li>📚 Organize your courses and assignments</li>
-                <li>📅 Track your study sessions and lectures</li>
-                <li>🧠 Use spaced repetition for better learning</li>
-                <li>📊 Monitor your academic progress</li>
-                <li>🔔 Get personalized reminders</li>
+                <li>${t('welcome.featureCourses')}</li>
+                <li>${t('welcome.featureSessions')}</li>
+                <li>${t('welcome.featureSrs')}</li>
+                <li>${t('welcome.featureProgress')}</li>
+                <li>${t('welcome.featureReminders')}</li>
               </ul>
               
-              <p>Ready to get started? Click the button below to begin your academic journey!</p>
+              <p>${t('welcome.ready')}</p>
               
-              <a href="https://myelaro.com/dashboard" class="button">Get Started</a>
+              <a href="https://myelaro.com/dashboard" class="button">${t('welcome.button')}</a>
               
-              <p>If you have any questions, feel free to reach out to our support team.</p>
+              <p>${t('welcome.support')}</p>
               
-              <p>Best regards,<br>The ELARO Team</p>
+              <p>${t('welcome.signOff')}</p>
             </div>
             <div class="footer">
-              <p>© 2024 ELARO. All rights reserved.</p>
-              <p>You received this email because you signed up for ELARO.</p>
+              <p>${t('welcome.rights')}</p>
+              <p>${t('welcome.reason')}</p>
             </div>
           </div>
         </body>
@@ -108,7 +129,7 @@ class EmailService {
     const { data: emailData, error } = await resend.emails.send({
       from: 'ELARO <noreply@myelaro.com>',
       to: [userEmail],
-      subject: 'Welcome to ELARO! 🎓',
+      subject: t('welcome.subject'),
       html: emailContent,
     });
 
@@ -135,13 +156,17 @@ class EmailService {
       data: templateData,
     } = CustomEmailSchema.parse(data);
 
-    // Get email template
-    const { data: emailTemplate, error: templateError } =
+    // Get the template in the recipient's language, falling back to English
+    const locale = await this.getRecipientLocale('email', to);
+    const { data: emailTemplates, error: templateError } =
       await this.supabaseClient
         .from('email_templates')
         .select('*')
         .eq('template_name', template)
-        .single();
+        .in('locale', [locale, 'en']);
+
+    const emailTemplate =
+      emailTemplates?.find(row => row.locale === locale) ?? emailTemplates?.[0];
 
     if (templateError || !emailTemplate) {
       throw new AppError(
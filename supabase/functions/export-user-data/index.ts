@@ -54,6 +54,7 @@ function convertToCSV(data: Record<string, unknown>): string {
     }
   };
 
+  processArray(data.data.terms, 'term');
   processArray(data.data.courses, 'course');
   processArray(data.data.assignments, 'assignment');
   processArray(data.data.lectures, 'lecture');
@@ -206,6 +207,7 @@ serve(async (req: Request) => {
     const [
       userProfile,
       notificationPreferences,
+      terms,
       courses,
       assignments,
       lectures,
@@ -222,6 +224,7 @@ serve(async (req: Request) => {
         .select('*')
         .eq('user_id', user.id)
         .single(),
+      supabaseAdmin.from('terms').select('*').eq('user_id', user.id),
       supabaseAdmin.from('courses').select('*').eq('user_id', user.id),
       supabaseAdmin.from('assignments').select('*').eq('user_id', user.id),
       supabaseAdmin.from('lectures').select('*').eq('user_id', user.id),
@@ -263,6 +266,7 @@ serve(async (req: Request) => {
       data: {
         user: userProfile.data,
         notificationPreferences: notificationPreferences.data,
+        terms: terms.data,
         courses: courses.data,
         assignments: assignments.data,
         lectures: lectures.data,
@@ -275,8 +279,17 @@ serve(async (req: Request) => {
         ...(isAdmin && adminActions ? { adminActions } : {}),
       },
       metadata: {
+        totalTerms: terms.data?.length || 0,
         totalCourses: courses.data?.length || 0,
         totalAssignments: assignments.data?.length || 0,
+        totalSubtasks: (assignments.data ?? []).reduce(
+          (total: number, assignment: { subtasks?: unknown }) =>
+            total +
+            (Array.isArray(assignment.subtasks)
+              ? assignment.subtasks.length
+              : 0),
+          0,
+        ),
         totalLectures: lectures.data?.length || 0,
         totalStudySessions: studySessions.data?.length || 0,
         totalReminders: reminders.data?.length || 0,
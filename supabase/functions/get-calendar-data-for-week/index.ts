@@ -1,6 +1,8 @@
 /**
  * Get Calendar Data for Week
- * Returns all tasks (lectures, study sessions, assignments) for a given week
+ * Returns all tasks (lectures, study sessions, assignments, exams) for a
+ * given week.
+ * Recurring lectures are expanded into one item per occurrence.
  */
 import { serve } from 'https://deno.land/std@0.168.0/http/server.ts';
 import {
@@ -13,6 +15,12 @@ import { handleDbError } from '../api-v2/_handler-utils.ts';
 import { logger } from '../_shared/logging.ts';
 import { extractTraceContext } from '../_shared/tracing.ts';
 import { decrypt } from '../_shared/encryption.ts';
+import { getLectureOccurrences } from '../_shared/lecture-occurrences.ts';
+import {
+  excludeCoursesFilter,
+  getArchivedCourseIds,
+} from '../_shared/terms.ts';
+import { Subtask } from '../_shared/subtasks.ts';
 import { z } from 'zod';
 
 const GetCalendarDataSchema = z.object({
@@ -52,44 +60,76 @@ async function handleGetCalendarData(req: AuthenticatedRequest) {
     weekEnd.setUTCDate(weekStart.getUTCDate() + 6);
     weekEnd.setUTCHours(23, 59, 59, 999);
 
+    // Tasks of courses in archived terms are hidden
+    const archivedCourseIds = await getArchivedCourseIds(
+      supabaseClient,
+      user.id,
+    ).catch(handleDbError);
+    const withoutArchived = <Q extends { or: (filter: string) => Q }>(
+      query: Q,
+    ) =>
+      archivedCourseIds.length > 0
+        ? query.or(excludeCoursesFilter(archivedCourseIds))
+        : query;
+
     // --- Run all queries in parallel ---
-    const [lecturesPromise, studySessionsPromise, assignmentsPromise] = [
-      supabaseClient
-        .from('lectures')
-        .select('*, courses(course_name)')
-        .eq('user_id', user.id)
-        .is('deleted_at', null)
-        .gte('lecture_date', weekStart.toISOString())
-        .lte('lecture_date', weekEnd.toISOString()),
-      supabaseClient
-        .from('study_sessions')
-        .select('*, courses(course_name)')
-        .eq('user_id', user.id)
-        .is('deleted_at', null)
-        .gte('session_date', weekStart.toISOString())
-        .lte('session_date', weekEnd.toISOString()),
-      supabaseClient
-        .from('assignments')
-        .select('*, courses(course_name)')
-        .eq('user_id', user.id)
-        .is('deleted_at', null)
-        .gte('due_date', weekStart.toISOString())
-        .lte('due_date', weekEnd.toISOString()),
+    const [
+      lecturesPromise,
+      studySessionsPromise,
+      assignmentsPromise,
+      examsPromise,
+    ] = [
+      getLectureOccurrences(
+        supabaseClient,
+        user.id,
+        weekStart,
+        weekEnd,
+        '*, courses(course_name)',
+      ).catch(handleDbError),
+      withoutArchived(
+        supabaseClient
+          .from('study_sessions')
+          .select('*, courses(course_name)')
+          .eq('user_id', user.id)
+          .is('deleted_at', null)
+          .gte('session_date', weekStart.toISOString())
+          .lte('session_date', weekEnd.toISOString()),
+      ),
+      withoutArchived(
+        supabaseClient
+          .from('assignments')
+          .select('*, courses(course_name)')
+          .eq('user_id', user.id)
+          .is('deleted_at', null)
+          .gte('due_date', weekStart.toISOString())
+          .lte('due_date', weekEnd.toISOString()),
+      ),
+      withoutArchived(
+        supabaseClient
+          .from('exams')
+          .select('*, courses(course_name)')
+          .eq('user_id', user.id)
+          .is('deleted_at', null)
+          .gte('exam_date', weekStart.toISOString())
+          .lte('exam_date', weekEnd.toISOString()),
+      ),
     ];
 
     const [
-      { data: lectures, error: lecturesError },
+      lectures,
       { data: studySessions, error: studySessionsError },
       { data: assignments, error: assignmentsError },
+      { data: exams, error: examsError },
     ] = await Promise.all([
       lecturesPromise,
       studySessionsPromise,
       assignmentsPromise,
+      examsPromise,
     ]);
 
-    if (lecturesError) throw handleDbError(lecturesError);
     if (studySessionsError) throw handleDbError(studySessionsError);
     if (assignmentsError) throw handleDbError(assignmentsError);
+    if (examsError) throw handleDbError(examsError);
 
     // Encryption key from environment for decryption
     const ENCRYPTION_KEY = Deno.env.get('ENCRYPTION_KEY');
@@ -117,6 +157,23 @@ async function handleGetCalendarData(req: AuthenticatedRequest) {
         ...t,
         type: 'assignment',
         date: t.due_date,
+        // Same shape as the app's AssignmentSubtask
+        subtasks: (t.subtasks || []).map((subtask: Subtask) => ({
+          id: subtask.id,
+          title: subtask.title,
+          dueDate: subtask.due_date ?? undefined,
+          completedAt: subtask.completed_at ?? undefined,
+        })),
+        estimatedMinutes: t.estimated_minutes ?? undefined,
+      })),
+      ...(exams || []).map(t => ({
+        ...t,
+        type: 'exam',
+        date: t.exam_date,
+        startTime: t.exam_date,
+        endTime: new Date(
+          Date.parse(t.exam_date) + t.duration_minutes * 60 * 1000,
+        ).toISOString(),
       })),
     ];
 
@@ -142,9 +199,17 @@ async function handleGetCalendarData(req: AuthenticatedRequest) {
         ? await decrypt(descField as string, ENCRYPTION_KEY!)
         : null;
 
+      // Exam topics are encrypted one by one
+      const topics = Array.isArray(task.topics)
+        ? await Promise.all(
+            task.topics.map(topic => decrypt(topic as string, ENCRYPTION_KEY!)),
+          )
+        : undefined;
+
       return {
         ...task,
         name: decryptedName,
+        topics,
         description: decryptedDescription,
         lecture_name: undefined,
         title: undefined,
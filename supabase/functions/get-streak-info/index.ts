@@ -4,32 +4,21 @@ import {
   AuthenticatedRequest,
 } from '../_shared/function-handler.ts';
 import { handleDbError } from '../api-v2/_handler-utils.ts';
+import { getStreakSummary } from '../_shared/achievements.ts';
 
 /**
  * Handler for getting user streak information
- * Returns current_streak and longest_streak, or 0,0 if no streak exists yet
+ * Returns the streak in the user's timezone (0 once it has lapsed), the
+ * longest streak and the freezes left, or zeros if no streak exists yet
  */
 async function handleGetStreakInfo(req: AuthenticatedRequest) {
   const { user, supabaseClient } = req;
 
-  // Fetch the user's streak information
-  const { data: streakData, error: streakError } = await supabaseClient
-    .from('streaks')
-    .select('current_streak, longest_streak')
-    .eq('user_id', user.id)
-    .single();
-
-  if (streakError) {
-    // If no row was found (PGRST116), user hasn't started a streak yet - return default values
-    if (streakError.code === 'PGRST116') {
-      return { current_streak: 0, longest_streak: 0 };
-    }
-    // For any other error, use standard error handling
-    throw handleDbError(streakError);
+  try {
+    return await getStreakSummary(supabaseClient, user.id);
+  } catch (error) {
+    throw handleDbError(error);
   }
-
-  // If data is null but there was no error, default to 0
-  return streakData || { current_streak: 0, longest_streak: 0 };
 }
 
 serve(
@@ -0,0 +1,181 @@
+/**
+ * Reading export-user-data files
+ *
+ * JSON exports are the compiled export object as-is. CSV exports flatten it
+ * to one row per record: the `type` column holds e.g. "course[3]", nested
+ * objects become dotted columns ("grading_scheme.categories") and arrays are
+ * JSON-encoded cells. Both are read back into the same shape here.
+ */
+
+import { AppError } from '../_shared/function-handler.ts';
+import { ERROR_CODES } from '../_shared/error-codes.ts';
+
+export type ExportRow = Record<string, unknown>;
+
+export interface ExportedUserData {
+  terms: ExportRow[];
+  courses: ExportRow[];
+  lectures: ExportRow[];
+  assignments: ExportRow[];
+  studySessions: ExportRow[];
+  reminders: ExportRow[];
+}
+
+// CSV `type` prefix -> collection in the JSON export
+const CSV_ROW_TYPES: Record<string, keyof ExportedUserData> = {
+  term: 'terms',
+  course: 'courses',
+  lecture: 'lectures',
+  assignment: 'assignments',
+  studySession: 'studySessions',
+  reminder: 'reminders',
+};
+
+const CSV_ROW_TYPE_PATTERN = /^(\w+)\[\d+\]$/;
+
+function notAnExport(detail: string): never {
+  throw new AppError(
+    `This file is not an ELARO export: ${detail}`,
+    400,
+    ERROR_CODES.INVALID_INPUT,
+  );
+}
+
+function rowsOf(value: unknown): ExportRow[] {
+  return Array.isArray(value)
+    ? value.filter(
+        (row): row is ExportRow =>
+          !!row && typeof row === 'object' && !Array.isArray(row),
+      )
+    : [];
+}
+
+export function parseJsonExport(content: string): ExportedUserData {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(content);
+  } catch {
+    notAnExport('it is not valid JSON');
+  }
+
+  const data = (parsed as { data?: unknown } | null)?.data;
+  if (!data || typeof data !== 'object') {
+    notAnExport('the "data" section is missing');
+  }
+
+  const sections = data as Record<string, unknown>;
+  return {
+    terms: rowsOf(sections.terms),
+    courses: rowsOf(sections.courses),
+    lectures: rowsOf(sections.lectures),
+    assignments: rowsOf(sections.assignments),
+    studySessions: rowsOf(sections.studySessions),
+    reminders: rowsOf(sections.reminders),
+  };
+}
+
+/**
+ * Split CSV text into rows of cells; quoted cells may contain commas,
+ * doubled quotes and line breaks
+ */
+function parseCsvRows(content: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+
+    if (inQuotes) {
+      if (char === '"' && content[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && content[i + 1] === '\n') i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+
+  if (cell !== '' || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+
+  return rows;
+}
+
+/**
+ * Undo the export's cell encoding: empty cells were null and objects or
+ * arrays were written as JSON. Everything else stays a string.
+ */
+function parseCsvCell(cell: string): unknown {
+  if (cell === '') return null;
+  if (/^[[{]/.test(cell)) {
+    try {
+      return JSON.parse(cell);
+    } catch {
+      return cell;
+    }
+  }
+  return cell;
+}
+
+function setPath(target: ExportRow, path: string[], value: unknown) {
+  let node = target;
+  for (const key of path.slice(0, -1)) {
+    if (!node[key] || typeof node[key] !== 'object') node[key] = {};
+    node = node[key] as ExportRow;
+  }
+  node[path[path.length - 1]] = value;
+}
+
+export function parseCsvExport(content: string): ExportedUserData {
+  const [header, ...lines] = parseCsvRows(content.replace(/^\uFEFF/, ''));
+  const typeColumn = header?.indexOf('type') ?? -1;
+  if (typeColumn === -1) {
+    notAnExport('the "type" column is missing');
+  }
+
+  const result: ExportedUserData = {
+    terms: [],
+    courses: [],
+    lectures: [],
+    assignments: [],
+    studySessions: [],
+    reminders: [],
+  };
+
+  for (const cells of lines) {
+    const collection =
+      CSV_ROW_TYPES[cells[typeColumn]?.match(CSV_ROW_TYPE_PATTERN)?.[1] ?? ''];
+    if (!collection) continue;
+
+    const row: ExportRow = {};
+    header.forEach((column, index) => {
+      if (index === typeColumn) return;
+      const value = parseCsvCell(cells[index] ?? '');
+      // Columns of other record types are blank on this row
+      if (value === null && column.includes('.')) return;
+      setPath(row, column.split('.'), value);
+    });
+    result[collection].push(row);
+  }
+
+  return result;
+}
@@ -0,0 +1,863 @@
+// FILE: supabase/functions/import-user-data/index.ts
+//
+// Restores a file produced by export-user-data (JSON or CSV) into the
+// signed-in account. Every record gets a new ID; references between them
+// (term -> course -> lecture/assignment/study session -> reminder) are
+// remapped. With dry_run nothing is saved and only the report is returned.
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts';
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.39.3';
+import { z } from 'zod';
+import {
+  createAuthenticatedHandler,
+  AuthenticatedRequest,
+  AppError,
+} from '../_shared/function-handler.ts';
+import { ERROR_CODES } from '../_shared/error-codes.ts';
+import { handleDbError } from '../api-v2/_handler-utils.ts';
+import { logger } from '../_shared/logging.ts';
+import { extractTraceContext } from '../_shared/tracing.ts';
+import { decrypt, encrypt } from '../_shared/encryption.ts';
+import { isPremium } from '../_shared/permissions.ts';
+import {
+  getWeeklyTaskCount,
+  WEEKLY_TASK_LIMIT,
+} from '../_shared/check-task-limit.ts';
+import { ImportUserDataSchema } from '../_shared/schemas/dataImport.ts';
+import { CreateTermSchema } from '../_shared/schemas/term.ts';
+import { CreateCourseSchema } from '../_shared/schemas/course.ts';
+import { CreateLectureSchema } from '../_shared/schemas/lecture.ts';
+import { CreateAssignmentSchema } from '../_shared/schemas/assignment.ts';
+import { CreateStudySessionSchema } from '../_shared/schemas/studySession.ts';
+import { ImportedReminderSchema } from '../_shared/schemas/reminders.ts';
+import {
+  ExportedUserData,
+  ExportRow,
+  parseCsvExport,
+  parseJsonExport,
+} from './_export-format.ts';
+
+type ImportEntity =
+  | 'term'
+  | 'course'
+  | 'lecture'
+  | 'assignment'
+  | 'study_session'
+  | 'reminder';
+
+type ImportAction = 'create' | 'skip' | 'conflict';
+
+interface ImportIssue {
+  type: ImportEntity;
+  source_id: string | null;
+  label: string;
+  action: Exclude<ImportAction, 'create'>;
+  reason: string;
+}
+
+interface ImportReport {
+  dry_run: boolean;
+  counts: Record<ImportEntity, Record<ImportAction, number>>;
+  issues: ImportIssue[];
+  // Free plan only: tasks from the last 7 days count towards the weekly limit
+  task_limit: { limit: number; used: number; required: number } | null;
+}
+
+interface ImportPlan {
+  report: ImportReport;
+  rows: Record<ImportEntity, ExportRow[]>;
+  // Source ID -> ID in this account, for everything children may point at
+  ids: Record<ImportEntity, Map<string, string>>;
+}
+
+// Parents before children; rolled back in reverse
+const ENTITIES: ImportEntity[] = [
+  'term',
+  'course',
+  'lecture',
+  'assignment',
+  'study_session',
+  'reminder',
+];
+
+const TABLES: Record<ImportEntity, string> = {
+  term: 'terms',
+  course: 'courses',
+  lecture: 'lectures',
+  assignment: 'assignments',
+  study_session: 'study_sessions',
+  reminder: 'reminders',
+};
+
+const ENTITY_LABELS: Record<ImportEntity, string> = {
+  term: 'term',
+  course: 'course',
+  lecture: 'lecture',
+  assignment: 'assignment',
+  study_session: 'study session',
+  reminder: 'reminder',
+};
+
+const INSERT_BATCH_SIZE = 500;
+// IDs go in the query string when deleting
+const DELETE_BATCH_SIZE = 100;
+const WEEK_MS = 7 * 24 * 60 * 60 * 1000;
+
+const text = (value: unknown): string | undefined =>
+  value === null || value === undefined || value === ''
+    ? undefined
+    : String(value);
+
+// NaN for non-numeric text, so the schema reports it
+const num = (value: unknown): number | undefined =>
+  text(value) === undefined ? undefined : Number(value);
+
+const bool = (value: unknown): boolean => value === true || value === 'true';
+
+/**
+ * Exports carry Postgres timestamps ("2026-01-05 09:00:00+00"); the schemas
+ * expect ISO strings. Unparseable values are left for the schema to reject.
+ */
+function timestamp(value: unknown): string | undefined {
+  const raw = text(value);
+  if (!raw) return undefined;
+  const date = new Date(raw);
+  return Number.isNaN(date.getTime()) ? raw : date.toISOString();
+}
+
+/**
+ * Plain text of a field stored encrypted; older rows may hold plain text
+ */
+async function readStoredText(
+  value: unknown,
+  encryptionKey: string,
+): Promise<string | undefined> {
+  const stored = text(value);
+  if (!stored || stored.length <= 20) return stored;
+  try {
+    return await decrypt(stored, encryptionKey);
+  } catch {
+    return stored;
+  }
+}
+
+function firstIssue(result: z.SafeParseReturnType<unknown, unknown>) {
+  if (result.success) return null;
+  const issue = result.error.issues[0];
+  return issue.path.length > 0
+    ? `${issue.path.join('.')}: ${issue.message}`
+    : issue.message;
+}
+
+function normalizeCourseCode(code: string | undefined): string | null {
+  const normalized = (code ?? '').toUpperCase().replace(/[^A-Z0-9]/g, '');
+  return normalized.length > 0 ? normalized : null;
+}
+
+function normalizeName(name: string): string {
+  return name.trim().toLowerCase().replace(/\s+/g, ' ');
+}
+
+const slotKey = (courseId: string, time: string) =>
+  `${courseId}|${new Date(time).getTime()}`;
+
+function createPlan(dryRun: boolean): ImportPlan {
+  const byEntity = <T>(make: () => T) =>
+    Object.fromEntries(ENTITIES.map(type => [type, make()])) as Record<
+      ImportEntity,
+      T
+    >;
+
+  return {
+    report: {
+      dry_run: dryRun,
+      counts: byEntity(() => ({ create: 0, skip: 0, conflict: 0 })),
+      issues: [],
+      task_limit: null,
+    },
+    rows: byEntity(() => []),
+    ids: byEntity(() => new Map()),
+  };
+}
+
+function planCreate(
+  plan: ImportPlan,
+  type: ImportEntity,
+  sourceId: string | undefined,
+  row: ExportRow & { id: string },
+) {
+  plan.rows[type].push(row);
+  plan.report.counts[type].create++;
+  if (sourceId) plan.ids[type].set(sourceId, row.id);
+}
+
+function planIssue(
+  plan: ImportPlan,
+  type: ImportEntity,
+  source: ExportRow,
+  label: string,
+  action: ImportIssue['action'],
+  reason: string,
+) {
+  plan.report.counts[type][action]++;
+  plan.report.issues.push({
+    type,
+    source_id: text(source.id) ?? null,
+    label,
+    action,
+    reason,
+  });
+}
+
+/**
+ * What the account already has, to flag records that would be duplicated
+ */
+async function loadExistingData(
+  supabaseClient: SupabaseClient,
+  userId: string,
+) {
+  const [terms, courses, lectures, assignments, studySessions] =
+    await Promise.all([
+      supabaseClient
+        .from('terms')
+        .select('id, name, start_date')
+        .eq('user_id', userId),
+      supabaseClient
+        .from('courses')
+        .select('id, course_name, course_code')
+        .eq('user_id', userId)
+        .is('deleted_at', null),
+      supabaseClient
+        .from('lectures')
+        .select('course_id, start_time, lecture_date')
+        .eq('user_id', userId)
+        .is('deleted_at', null),
+      supabaseClient
+        .from('assignments')
+        .select('course_id, due_date')
+        .eq('user_id', userId)
+        .is('deleted_at', null),
+      supabaseClient
+        .from('study_sessions')
+        .select('course_id, session_date')
+        .eq('user_id', userId)
+        .is('deleted_at', null),
+    ]);
+
+  for (const result of [terms, courses, lectures, assignments, studySessions]) {
+    if (result.error) handleDbError(result.error);
+  }
+
+  return {
+    terms: new Map<string, string>(
+      (terms.data ?? []).map(term => [
+        `${normalizeName(term.name)}|${term.start_date}`,
+        term.id,
+      ]),
+    ),
+    courses: (courses.data ?? []) as Array<{
+      id: string;
+      course_name: string;
+      course_code: string | null;
+    }>,
+    lectureSlots: new Set<string>(
+      (lectures.data ?? []).map(lecture =>
+        slotKey(lecture.course_id, lecture.start_time ?? lecture.lecture_date),
+      ),
+    ),
+    assignmentSlots: new Set<string>(
+      (assignments.data ?? []).map(assignment =>
+        slotKey(assignment.course_id, assignment.due_date),
+      ),
+    ),
+    studySessionSlots: new Set<string>(
+      (studySessions.data ?? []).map(session =>
+        slotKey(session.course_id, session.session_date),
+      ),
+    ),
+  };
+}
+
+type ExistingData = Awaited<ReturnType<typeof loadExistingData>>;
+
+function planTerms(
+  plan: ImportPlan,
+  rows: ExportRow[],
+  existing: ExistingData,
+  userId: string,
+) {
+  for (const row of rows) {
+    const sourceId = text(row.id);
+    const input = {
+      name: text(row.name),
+      start_date: text(row.start_date),
+      end_date: text(row.end_date),
+      breaks: Array.isArray(row.breaks) ? row.breaks : [],
+    };
+    const label = input.name ?? 'Untitled term';
+
+    const problem = firstIssue(CreateTermSchema.safeParse(input));
+    if (problem) {
+      planIssue(plan, 'term', row, label, 'skip', problem);
+      continue;
+    }
+
+    const existingId = existing.terms.get(
+      `${normalizeName(input.name!)}|${input.start_date}`,
+    );
+    if (existingId) {
+      if (sourceId) plan.ids.term.set(sourceId, existingId);
+      planIssue(
+        plan,
+        'term',
+        row,
+        label,
+        'conflict',
+        'You already have this term; its courses are added to it',
+      );
+      continue;
+    }
+
+    planCreate(plan, 'term', sourceId, {
+      id: crypto.randomUUID(),
+      user_id: userId,
+      name: input.name,
+      start_date: input.start_date,
+      end_date: input.end_date,
+      breaks: input.breaks,
+      archived_at: timestamp(row.archived_at) ?? null,
+      created_at: timestamp(row.created_at),
+    });
+  }
+}
+
+function planCourses(
+  plan: ImportPlan,
+  rows: ExportRow[],
+  existing: ExistingData,
+  userId: string,
+) {
+  for (const row of rows) {
+    const sourceId = text(row.id);
+    const input = {
+      course_name: text(row.course_name),
+      course_code: text(row.course_code),
+      about_course: text(row.about_course),
+      grading_scheme: row.grading_scheme ?? null,
+      credits: num(row.credits),
+    };
+    const label = input.course_name ?? 'Untitled course';
+
+    if (text(row.deleted_at)) {
+      planIssue(
+        plan,
+        'course',
+        row,
+        label,
+        'skip',
+        'It was in the recycle bin',
+      );
+      continue;
+    }
+
+    const problem = firstIssue(CreateCourseSchema.safeParse(input));
+    if (problem) {
+      planIssue(plan, 'course', row, label, 'skip', problem);
+      continue;
+    }
+
+    const code = normalizeCourseCode(input.course_code);
+    const match = existing.courses.find(course =>
+      code
+        ? normalizeCourseCode(course.course_code ?? undefined) === code
+        : normalizeName(course.course_name) === normalizeName(label),
+    );
+    if (match) {
+      if (sourceId) plan.ids.course.set(sourceId, match.id);
+      planIssue(
+        plan,
+        'course',
+        row,
+        label,
+        'conflict',
+        `Matches your course "${match.course_name}"; its items are added to it`,
+      );
+      continue;
+    }
+
+    const course = {
+      id: crypto.randomUUID(),
+      user_id: userId,
+      course_name: input.course_name,
+      course_code: input.course_code ?? null,
+      about_course: input.about_course ?? null,
+      grading_scheme: input.grading_scheme,
+      credits: input.credits ?? null,
+      term_id: plan.ids.term.get(text(row.term_id) ?? '') ?? null,
+      created_at: timestamp(row.created_at),
+    };
+    planCreate(plan, 'course', sourceId, course);
+    existing.courses.push({
+      id: course.id,
+      course_name: label,
+      course_code: course.course_code,
+    });
+  }
+}
+
+/**
+ * Course a task belongs to in this account; skips the task when the course
+ * isn't imported or the task was deleted
+ */
+function resolveTaskCourse(
+  plan: ImportPlan,
+  type: ImportEntity,
+  row: ExportRow,
+  label: string,
+): string | null {
+  if (text(row.deleted_at)) {
+    planIssue(plan, type, row, label, 'skip', 'It was in the recycle bin');
+    return null;
+  }
+
+  const courseId = plan.ids.course.get(text(row.course_id) ?? '');
+  if (!courseId) {
+    planIssue(plan, type, row, label, 'skip', 'Its course is not imported');
+  }
+  return courseId ?? null;
+}
+
+async function planLectures(
+  plan: ImportPlan,
+  rows: ExportRow[],
+  existing: ExistingData,
+  userId: string,
+  encryptionKey: string,
+) {
+  for (const row of rows) {
+    const sourceId = text(row.id);
+    const [lectureName, description] = await Promise.all([
+      readStoredText(row.lecture_name, encryptionKey),
+      readStoredText(row.description, encryptionKey),
+    ]);
+    const label = lectureName ?? 'Untitled lecture';
+
+    const courseId = resolveTaskCourse(plan, 'lecture', row, label);
+    if (!courseId) continue;
+
+    const input = {
+      course_id: courseId,
+      lecture_name: lectureName,
+      description,
+      start_time: timestamp(row.start_time ?? row.lecture_date),
+      end_time: timestamp(row.end_time),
+      is_recurring: bool(row.is_recurring),
+      recurring_pattern: text(row.recurring_pattern),
+      venue: text(row.venue),
+    };
+
+    const problem = firstIssue(CreateLectureSchema.safeParse(input));
+    if (problem) {
+      planIssue(plan, 'lecture', row, label, 'skip', problem);
+      continue;
+    }
+
+    const slot = slotKey(courseId, input.start_time!);
+    if (existing.lectureSlots.has(slot)) {
+      planIssue(
+        plan,
+        'lecture',
+        row,
+        label,
+        'conflict',
+        'The course already has a lecture at this time',
+      );
+      continue;
+    }
+    existing.lectureSlots.add(slot);
+
+    planCreate(plan, 'lecture', sourceId, {
+      id: crypto.randomUUID(),
+      user_id: userId,
+      course_id: courseId,
+      lecture_name: await encrypt(label, encryptionKey),
+      description: description
+        ? await encrypt(description, encryptionKey)
+        : null,
+      lecture_date: input.start_time,
+      start_time: input.start_time,
+      end_time: input.end_time ?? null,
+      venue: input.venue ?? null,
+      is_recurring: input.is_recurring,
+      recurring_pattern: input.recurring_pattern ?? null,
+      created_at: timestamp(row.created_at),
+    });
+  }
+}
+
+async function planAssignments(
+  plan: ImportPlan,
+  rows: ExportRow[],
+  existing: ExistingData,
+  userId: string,
+  encryptionKey: string,
+) {
+  for (const row of rows) {
+    const sourceId = text(row.id);
+    const [title, description] = await Promise.all([
+      readStoredText(row.title, encryptionKey),
+      readStoredText(row.description, encryptionKey),
+    ]);
+    const label = title ?? 'Untitled assignment';
+
+    const courseId = resolveTaskCourse(plan, 'assignment', row, label);
+    if (!courseId) continue;
+
+    const input = {
+      course_id: courseId,
+      title,
+      description,
+      due_date: timestamp(row.due_date),
+      submission_method: text(row.submission_method),
+      submission_link: text(row.submission_link),
+      subtasks: Array.isArray(row.subtasks) ? row.subtasks : [],
+      estimated_minutes: num(row.estimated_minutes),
+      score: num(row.score),
+      max_score: num(row.max_score),
+      weight: num(row.weight),
+      grade_category: text(row.grade_category),
+    };
+
+    const problem = firstIssue(CreateAssignmentSchema.safeParse(input));
+    if (problem) {
+      planIssue(plan, 'assignment', row, label, 'skip', problem);
+      continue;
+    }
+
+    const slot = slotKey(courseId, input.due_date!);
+    if (existing.assignmentSlots.has(slot)) {
+      planIssue(
+        plan,
+        'assignment',
+        row,
+        label,
+        'conflict',
+        'The course already has an assignment due at this time',
+      );
+      continue;
+    }
+    existing.assignmentSlots.add(slot);
+
+    planCreate(plan, 'assignment', sourceId, {
+      id: crypto.randomUUID(),
+      user_id: userId,
+      course_id: courseId,
+      title: await encrypt(label, encryptionKey),
+      description: description
+        ? await encrypt(description, encryptionKey)
+        : null,
+      due_date: input.due_date,
+      submission_method: input.submission_method ?? null,
+      submission_link: input.submission_link ?? null,
+      subtasks: input.subtasks,
+      estimated_minutes: input.estimated_minutes ?? null,
+      score: input.score ?? null,
+      max_score: input.max_score ?? null,
+      weight: input.weight ?? null,
+      grade_category: input.grade_category ?? null,
+      created_at: timestamp(row.created_at),
+    });
+  }
+}
+
+async function planStudySessions(
+  plan: ImportPlan,
+  rows: ExportRow[],
+  existing: ExistingData,
+  userId: string,
+  encryptionKey: string,
+) {
+  for (const row of rows) {
+    const sourceId = text(row.id);
+    const [topic, notes] = await Promise.all([
+      readStoredText(row.topic, encryptionKey),
+      readStoredText(row.notes ?? row.description, encryptionKey),
+    ]);
+    const label = topic ?? 'Untitled study session';
+
+    const courseId = resolveTaskCourse(plan, 'study_session', row, label);
+    if (!courseId) continue;
+
+    const sessionDate = timestamp(row.session_date);
+    const problem = firstIssue(
+      CreateStudySessionSchema.safeParse({
+        title: topic,
+        description: notes,
+        start_time: sessionDate,
+        end_time: sessionDate,
+      }),
+    );
+    if (problem) {
+      planIssue(plan, 'study_session', row, label, 'skip', problem);
+      continue;
+    }
+
+    const slot = slotKey(courseId, sessionDate!);
+    if (existing.studySessionSlots.has(slot)) {
+      planIssue(
+        plan,
+        'study_session',
+        row,
+        label,
+        'conflict',
+        'The course already has a study session at this time',
+      );
+      continue;
+    }
+    existing.studySessionSlots.add(slot);
+
+    planCreate(plan, 'study_session', sourceId, {
+      id: crypto.randomUUID(),
+      user_id: userId,
+      course_id: courseId,
+      topic: await encrypt(label, encryptionKey),
+      notes: notes ? await encrypt(notes, encryptionKey) : null,
+      session_date: sessionDate,
+      has_spaced_repetition: bool(row.has_spaced_repetition),
+      created_at: timestamp(row.created_at),
+    });
+  }
+}
+
+/**
+ * Only reminders still to be sent are carried over, and only for tasks that
+ * are created by this import
+ */
+function planReminders(plan: ImportPlan, rows: ExportRow[], userId: string) {
+  const now = Date.now();
+  const parents: Array<[string, ImportEntity]> = [
+    ['lecture_id', 'lecture'],
+    ['assignment_id', 'assignment'],
+    ['session_id', 'study_session'],
+  ];
+
+  for (const row of rows) {
+    const input = {
+      reminder_type: text(row.reminder_type) ?? 'study_session',
+      reminder_time: timestamp(row.reminder_time),
+      day_number: num(row.day_number) ?? 0,
+      title: text(row.title),
+      body: text(row.body),
+    };
+    const label = input.title ?? 'Reminder';
+
+    if (bool(row.completed) || text(row.processed_at)) {
+      planIssue(plan, 'reminder', row, label, 'skip', 'It was already sent');
+      continue;
+    }
+
+    const problem = firstIssue(ImportedReminderSchema.safeParse(input));
+    if (problem) {
+      planIssue(plan, 'reminder', row, label, 'skip', problem);
+      continue;
+    }
+
+    if (new Date(input.reminder_time!).getTime() <= now) {
+      planIssue(plan, 'reminder', row, label, 'skip', 'Its time has passed');
+      continue;
+    }
+
+    const links: Record<string, string | null> = {};
+    let missingParent: ImportEntity | null = null;
+    for (const [column, type] of parents) {
+      const sourceId = text(row[column]);
+      links[column] = sourceId ? (plan.ids[type].get(sourceId) ?? null) : null;
+      if (sourceId && !links[column]) missingParent = type;
+    }
+    if (missingParent) {
+      planIssue(
+        plan,
+        'reminder',
+        row,
+        label,
+        'skip',
+        `Its ${ENTITY_LABELS[missingParent]} is not imported`,
+      );
+      continue;
+    }
+
+    planCreate(plan, 'reminder', text(row.id), {
+      id: crypto.randomUUID(),
+      user_id: userId,
+      ...links,
+      reminder_type: input.reminder_type,
+      reminder_time: input.reminder_time,
+      day_number: input.day_number,
+      title: input.title ?? null,
+      body: input.body ?? null,
+      completed: false,
+    });
+  }
+}
+
+/**
+ * Imported tasks keep their created_at, so only those from the last week
+ * count towards the free plan's weekly limit
+ */
+async function getTaskLimit(
+  supabaseClient: SupabaseClient,
+  userId: string,
+  plan: ImportPlan,
+): Promise<ImportReport['task_limit']> {
+  const { data: profile, error } = await supabaseClient
+    .from('users')
+    .select('subscription_tier')
+    .eq('id', userId)
+    .single();
+
+  if (error) handleDbError(error);
+  if (isPremium(profile?.subscription_tier || 'free')) return null;
+
+  const used = await getWeeklyTaskCount(supabaseClient, userId);
+  if (used === null) {
+    throw new AppError(
+      'Could not verify task limits.',
+      500,
+      ERROR_CODES.DB_QUERY_ERROR,
+    );
+  }
+
+  const weekAgo = Date.now() - WEEK_MS;
+  const required = [
+    ...plan.rows.lecture,
+    ...plan.rows.assignment,
+    ...plan.rows.study_session,
+  ].filter(
+    row =>
+      !row.created_at || new Date(String(row.created_at)).getTime() >= weekAgo,
+  ).length;
+
+  return { limit: WEEKLY_TASK_LIMIT, used, required };
+}
+
+async function deletePlannedRows(
+  supabaseClient: SupabaseClient,
+  userId: string,
+  plan: ImportPlan,
+) {
+  for (const type of [...ENTITIES].reverse()) {
+    const ids = plan.rows[type].map(row => row.id as string);
+    for (let i = 0; i < ids.length; i += DELETE_BATCH_SIZE) {
+      await supabaseClient
+        .from(TABLES[type])
+        .delete()
+        .eq('user_id', userId)
+        .in('id', ids.slice(i, i + DELETE_BATCH_SIZE));
+    }
+  }
+}
+
+async function insertPlannedRows(
+  supabaseClient: SupabaseClient,
+  userId: string,
+  plan: ImportPlan,
+) {
+  try {
+    for (const type of ENTITIES) {
+      const rows = plan.rows[type];
+      for (let i = 0; i < rows.length; i += INSERT_BATCH_SIZE) {
+        const { error } = await supabaseClient
+          .from(TABLES[type])
+          .insert(rows.slice(i, i + INSERT_BATCH_SIZE));
+        if (error) handleDbError(error);
+      }
+    }
+  } catch (error) {
+    // Don't leave half an import behind
+    await deletePlannedRows(supabaseClient, userId, plan);
+    throw error;
+  }
+}
+
+async function handleImportUserData(req: AuthenticatedRequest) {
+  const { user, supabaseClient, body } = req;
+  const { format, content, dry_run } = body as z.infer<
+    typeof ImportUserDataSchema
+  >;
+  const traceContext = extractTraceContext(req as unknown as Request);
+
+  const encryptionKey = Deno.env.get('ENCRYPTION_KEY');
+  if (!encryptionKey) {
+    throw new AppError(
+      'Encryption key not configured.',
+      500,
+      ERROR_CODES.CONFIG_ERROR,
+    );
+  }
+
+  const data: ExportedUserData =
+    format === 'csv' ? parseCsvExport(content) : parseJsonExport(content);
+
+  const existing = await loadExistingData(supabaseClient, user.id);
+  const plan = createPlan(dry_run);
+
+  planTerms(plan, data.terms, existing, user.id);
+  planCourses(plan, data.courses, existing, user.id);
+  await planLectures(plan, data.lectures, existing, user.id, encryptionKey);
+  await planAssignments(
+    plan,
+    data.assignments,
+    existing,
+    user.id,
+    encryptionKey,
+  );
+  await planStudySessions(
+    plan,
+    data.studySessions,
+    existing,
+    user.id,
+    encryptionKey,
+  );
+  planReminders(plan, data.reminders, user.id);
+
+  const taskLimit = await getTaskLimit(supabaseClient, user.id, plan);
+  plan.report.task_limit = taskLimit;
+
+  await logger.info(
+    'Data import planned',
+    {
+      user_id: user.id,
+      format,
+      dry_run,
+      counts: plan.report.counts,
+    },
+    traceContext,
+  );
+
+  if (dry_run) return plan.report;
+
+  if (taskLimit && taskLimit.used + taskLimit.required > taskLimit.limit) {
+    throw new AppError(
+      `This import adds ${taskLimit.required} tasks from the past week but you can only add ${Math.max(0, taskLimit.limit - taskLimit.used)} more this week on the free plan (limit ${taskLimit.limit}).`,
+      403,
+      ERROR_CODES.RESOURCE_LIMIT_EXCEEDED,
+      { required: taskLimit.required, used: taskLimit.used },
+    );
+  }
+
+  await insertPlannedRows(supabaseClient, user.id, plan);
+
+  await logger.info(
+    'Data import completed',
+    { user_id: user.id, counts: plan.report.counts },
+    traceContext,
+  );
+
+  return plan.report;
+}
+
+serve(
+  createAuthenticatedHandler(handleImportUserData, {
+    rateLimitName: 'import-user-data',
+    schema: ImportUserDataSchema,
+  }),
+);
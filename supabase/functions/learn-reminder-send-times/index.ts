@@ -0,0 +1,248 @@
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts';
+import { createScheduledHandler } from '../_shared/function-handler.ts';
+import { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.0.0';
+import { handleDbError } from '../api-v2/_handler-utils.ts';
+import { logger } from '../_shared/logging.ts';
+import { extractTraceContext } from '../_shared/tracing.ts';
+import {
+  FIXED_SEND_HOURS,
+  FLEXIBLE_REMINDER_TYPES,
+  FlexibleReminderType,
+  PastSend,
+  ReminderAction,
+  SEND_TIME_LOOKBACK_DAYS,
+  learnSendTimes,
+  scoreSend,
+} from '../_shared/send-time-model.ts';
+
+// Opens of a daily summary are matched to the delivery sent this close to
+// the time the device received it
+const SUMMARY_MATCH_MS = 15 * 60 * 1000;
+
+interface SendTimePreferences {
+  user_id: string;
+  quiet_hours_enabled: boolean | null;
+  quiet_hours_start: string | null;
+  quiet_hours_end: string | null;
+  preferred_morning_time: string | null;
+  user: { id: string; timezone: string | null } | null;
+}
+
+interface AnalyticsRow {
+  reminder_id: string | null;
+  reminder_type: string;
+  sent_time: string | null;
+  opened: boolean | null;
+  effectiveness_score: number | null;
+  created_at: string;
+}
+
+const toMinutes = (time: string) => {
+  const [hour, minute] = time.split(':').map(Number);
+  return hour * 60 + (minute || 0);
+};
+
+function quietHourCheck(prefs: SendTimePreferences) {
+  if (
+    !prefs.quiet_hours_enabled ||
+    !prefs.quiet_hours_start ||
+    !prefs.quiet_hours_end
+  ) {
+    return () => false;
+  }
+
+  const start = toMinutes(prefs.quiet_hours_start);
+  const end = toMinutes(prefs.quiet_hours_end);
+  return (hour: number) => {
+    const minutes = hour * 60;
+    return start > end
+      ? minutes >= start || minutes < end
+      : minutes >= start && minutes < end;
+  };
+}
+
+function toAction(row: AnalyticsRow): ReminderAction {
+  return {
+    actedAt: new Date(row.created_at),
+    opened: row.opened,
+    effectivenessScore:
+      row.effectiveness_score === null ? null : Number(row.effectiveness_score),
+  };
+}
+
+/** Past flexible sends to the user, scored by what they did with them */
+async function getPastSends(
+  supabaseAdmin: SupabaseClient,
+  userId: string,
+  since: string,
+): Promise<Record<FlexibleReminderType, PastSend[]>> {
+  const [remindersRes, summariesRes, analyticsRes] = await Promise.all([
+    supabaseAdmin
+      .from('reminders')
+      .select('id, sent_at')
+      .eq('user_id', userId)
+      .eq('reminder_type', 'spaced_repetition')
+      .is('escalated_from', null)
+      .gte('sent_at', since),
+    supabaseAdmin
+      .from('notification_deliveries')
+      .select('sent_at')
+      .eq('user_id', userId)
+      .eq('notification_type', 'daily_summary')
+      .gte('sent_at', since),
+    supabaseAdmin
+      .from('reminder_analytics')
+      .select(
+        'reminder_id, reminder_type, sent_time, opened, effectiveness_score, created_at',
+      )
+      .eq('user_id', userId)
+      .in('reminder_type', [...FLEXIBLE_REMINDER_TYPES])
+      .gte('created_at', since),
+  ]);
+
+  if (remindersRes.error) handleDbError(remindersRes.error);
+  if (summariesRes.error) handleDbError(summariesRes.error);
+  if (analyticsRes.error) handleDbError(analyticsRes.error);
+
+  const analytics = (analyticsRes.data ?? []) as AnalyticsRow[];
+  const actionsByReminder = new Map<string, ReminderAction[]>();
+  const summaryActions: { sentAt: number; action: ReminderAction }[] = [];
+  for (const row of analytics) {
+    if (row.reminder_type === 'daily_summary') {
+      if (row.sent_time) {
+        summaryActions.push({
+          sentAt: new Date(row.sent_time).getTime(),
+          action: toAction(row),
+        });
+      }
+    } else if (row.reminder_id) {
+      const actions = actionsByReminder.get(row.reminder_id) ?? [];
+      actions.push(toAction(row));
+      actionsByReminder.set(row.reminder_id, actions);
+    }
+  }
+
+  return {
+    spaced_repetition: (remindersRes.data ?? []).map(
+      (reminder: { id: string; sent_at: string }) => {
+        const sentAt = new Date(reminder.sent_at);
+        return {
+          sentAt,
+          score: scoreSend(sentAt, actionsByReminder.get(reminder.id) ?? []),
+        };
+      },
+    ),
+    daily_summary: (summariesRes.data ?? []).map(
+      (delivery: { sent_at: string }) => {
+        const sentAt = new Date(delivery.sent_at);
+        const actions = summaryActions
+          .filter(
+            entry =>
+              Math.abs(entry.sentAt - sentAt.getTime()) <= SUMMARY_MATCH_MS,
+          )
+          .map(entry => entry.action);
+        return { sentAt, score: scoreSend(sentAt, actions) };
+      },
+    ),
+  };
+}
+
+async function handleLearnSendTimes(supabaseAdmin: SupabaseClient) {
+  const traceContext = extractTraceContext(
+    new Request('https://cron.internal'),
+  );
+
+  await logger.info('Starting send time learning job', {}, traceContext);
+
+  const { data: users, error } = await supabaseAdmin.from(
+    'notification_preferences',
+  ).select(`
+      user_id,
+      quiet_hours_enabled,
+      quiet_hours_start,
+      quiet_hours_end,
+      preferred_morning_time,
+      user:users (
+        id,
+        timezone
+      )
+    `);
+
+  if (error) throw handleDbError(error);
+
+  const since = new Date(
+    Date.now() - SEND_TIME_LOOKBACK_DAYS * 24 * 60 * 60 * 1000,
+  ).toISOString();
+
+  let windowsLearned = 0;
+  let failures = 0;
+
+  for (const prefs of (users ?? []) as SendTimePreferences[]) {
+    if (!prefs.user) continue;
+
+    try {
+      const sends = await getPastSends(supabaseAdmin, prefs.user_id, since);
+      const fixedHours: Record<FlexibleReminderType, number> = {
+        ...FIXED_SEND_HOURS,
+        daily_summary: prefs.preferred_morning_time
+          ? Math.floor(toMinutes(prefs.preferred_morning_time) / 60)
+          : FIXED_SEND_HOURS.daily_summary,
+      };
+
+      const rows = FLEXIBLE_REMINDER_TYPES.filter(
+        type => sends[type].length > 0,
+      ).map(type => {
+        const window = learnSendTimes(sends[type], {
+          timeZone: prefs.user!.timezone || 'UTC',
+          fixedHour: fixedHours[type],
+          isQuietHour: quietHourCheck(prefs),
+        });
+        return {
+          user_id: prefs.user_id,
+          reminder_type: type,
+          best_hour: window.bestHour,
+          fixed_hour: fixedHours[type],
+          hour_scores: window.hourScores,
+          sample_size: window.sampleSize,
+          baseline_rate: window.baselineRate,
+          learned_rate: window.learnedRate,
+          fixed_rate: window.fixedRate,
+          lift: window.lift,
+          learned_at: new Date().toISOString(),
+        };
+      });
+
+      if (rows.length === 0) continue;
+
+      const { error: upsertError } = await supabaseAdmin
+        .from('reminder_send_windows')
+        .upsert(rows, { onConflict: 'user_id,reminder_type' });
+      if (upsertError) handleDbError(upsertError);
+
+      windowsLearned += rows.filter(row => row.best_hour !== null).length;
+    } catch (error: unknown) {
+      await logger.error(
+        'Failed to learn send times for user',
+        {
+          user_id: prefs.user_id,
+          error: error instanceof Error ? error.message : String(error),
+        },
+        traceContext,
+      );
+      failures++;
+      // Continue to the next user, don't fail the whole job
+    }
+  }
+
+  const result = {
+    success: true,
+    totalUsers: users?.length ?? 0,
+    windowsLearned,
+    failures,
+  };
+
+  await logger.info('Finished send time learning job', result, traceContext);
+  return result;
+}
+
+serve(createScheduledHandler(handleLearnSendTimes));
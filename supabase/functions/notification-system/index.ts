@@ -874,6 +874,7 @@ async function handlePreferences({
         reminder_notifications: true,
         daily_summary_enabled: true,
         evening_capture_enabled: true,
+        weekly_report_enabled: true,
         email_notifications: false,
         push_notifications: true,
       };
@@ -3,7 +3,10 @@ import {
   createScheduledHandler,
   SupabaseClient,
 } from '../_shared/function-handler.ts';
-import { sendUnifiedNotification } from '../_shared/unified-notification-sender.ts';
+import {
+  sendUnifiedNotification,
+  UnifiedNotificationResult,
+} from '../_shared/unified-notification-sender.ts';
 import { handleDbError } from '../api-v2/_handler-utils.ts';
 import { logger } from '../_shared/logging.ts';
 import { extractTraceContext } from '../_shared/tracing.ts';
@@ -11,6 +14,17 @@ import {
   generateDeduplicationKey,
   getUserNotificationPreferences,
 } from '../_shared/notification-helpers.ts';
+import {
+  resolveUserLocale,
+  textDirection,
+  translate,
+} from '../_shared/i18n.ts';
+import {
+  describeDigest,
+  digestUrl,
+  getRemainingSends,
+  shouldBundle,
+} from '../_shared/reminder-bundling.ts';
 
 // This interface defines the shape of the data we expect from our complex query.
 interface DueReminder {
@@ -19,10 +33,15 @@ interface DueReminder {
   title: string;
   body: string;
   reminder_type: string;
+  reminder_time: string;
   session_id?: string;
   assignment_id?: string;
   lecture_id?: string;
+  exam_id?: string;
+  escalated_from?: string | null;
   user?: {
+    locale?: string | null;
+    device_locale?: string | null;
     user_devices?: Array<{
       push_token: string;
     }>;
@@ -43,11 +62,15 @@ function generateDeepLinkUrl(reminder: DueReminder): string {
     lecture: 'lecture',
     study_session: 'study-session',
     spaced_repetition: 'study-session', // SRS reminders link to study sessions
+    exam: 'exam',
   };
 
   const urlType = typeMap[reminder.reminder_type] || 'task';
   const itemId =
-    reminder.session_id || reminder.assignment_id || reminder.lecture_id;
+    reminder.session_id ||
+    reminder.assignment_id ||
+    reminder.lecture_id ||
+    reminder.exam_id;
 
   if (!itemId) {
     return 'elaro://home'; // Fallback to home if no ID
@@ -56,6 +79,75 @@ function generateDeepLinkUrl(reminder: DueReminder): string {
   return `elaro://${urlType}/${itemId}`;
 }
 
+// A high-priority task's reminder is followed up this long after it is sent,
+// unless the task is due or has started by then
+const ESCALATION_DELAY_MINUTES = 30;
+
+// Push settings for high-priority tasks: the Android channel the app creates
+// at max importance, and iOS time-sensitive delivery through Focus modes
+const HIGH_PRIORITY_PUSH = {
+  channelId: 'high_priority',
+  interruptionLevel: 'time-sensitive',
+} as const;
+
+interface TaskDetails {
+  priority: 'low' | 'medium' | 'high';
+  // Due date or start time; for recurring lectures, the first occurrence
+  startsAt: string;
+  deleted: boolean;
+}
+
+const TASK_TABLES = [
+  { key: 'assignment_id', table: 'assignments', dateColumn: 'due_date' },
+  { key: 'lecture_id', table: 'lectures', dateColumn: 'start_time' },
+  { key: 'session_id', table: 'study_sessions', dateColumn: 'session_date' },
+] as const;
+
+// Priority and date of the tasks the reminders are for, by task id
+async function getTaskDetails(
+  supabaseAdmin: SupabaseClient,
+  reminders: DueReminder[],
+  traceContext: ReturnType<typeof extractTraceContext>,
+): Promise<Map<string, TaskDetails>> {
+  const details = new Map<string, TaskDetails>();
+
+  await Promise.all(
+    TASK_TABLES.map(async ({ key, table, dateColumn }) => {
+      const ids = [
+        ...new Set(
+          reminders.map(r => r[key]).filter((id): id is string => !!id),
+        ),
+      ];
+      if (ids.length === 0) return;
+
+      const { data, error } = await supabaseAdmin
+        .from(table)
+        .select(`id, priority, deleted_at, starts_at:${dateColumn}`)
+        .in('id', ids);
+
+      if (error) {
+        // Reminders still go out, just without escalation
+        await logger.warn(
+          'Failed to load task priorities',
+          { table, error: error.message },
+          traceContext,
+        );
+        return;
+      }
+
+      for (const row of data ?? []) {
+        details.set(row.id, {
+          priority: row.priority,
+          startsAt: row.starts_at,
+          deleted: !!row.deleted_at,
+        });
+      }
+    }),
+  );
+
+  return details;
+}
+
 async function handleProcessDueReminders(supabaseAdmin: SupabaseClient) {
   const traceContext = extractTraceContext(
     new Request('https://cron.internal'),
@@ -138,8 +230,27 @@ async function handleProcessDueReminders(supabaseAdmin: SupabaseClient) {
     traceContext,
   );
 
+  // Also lock these users' reminders that fall due within their bundle
+  // window, so they go out in the same digest rather than minutes later
+  const { data: bundledReminders, error: bundleLockError } =
+    await supabaseAdmin.rpc('acquire_bundled_reminder_locks', {
+      p_lock_id: lockId,
+      p_user_ids: [...new Set(lockedReminders.map(r => r.user_id))],
+    });
+
+  if (bundleLockError) {
+    // Non-critical: those reminders are sent when they are due
+    await logger.warn(
+      'Failed to lock reminders for bundling',
+      { error: bundleLockError.message },
+      traceContext,
+    );
+  }
+
   // Step 3: Fetch full reminder data with user preferences and devices
-  const reminderIds = lockedReminders.map(r => r.id);
+  const reminderIds = [...lockedReminders, ...(bundledReminders ?? [])].map(
+    r => r.id,
+  );
   const { data: dueReminders, error: fetchError } = await supabaseAdmin
     .from('reminders')
     .select(
@@ -149,10 +260,15 @@ async function handleProcessDueReminders(supabaseAdmin: SupabaseClient) {
       title,
       body,
       reminder_type,
+      reminder_time,
       session_id,
       assignment_id,
       lecture_id,
+      exam_id,
+      escalated_from,
       user:users (
+        locale,
+        device_locale,
         user_devices (
           push_token
         ),
@@ -181,6 +297,8 @@ async function handleProcessDueReminders(supabaseAdmin: SupabaseClient) {
     .or(
       'and(reminder_type.eq.spaced_repetition, user.notification_preferences.srs_reminders_enabled.eq.true),' +
         'and(reminder_type.eq.assignment, user.notification_preferences.assignment_reminders_enabled.eq.true),' +
+        // Exams are deadlines too
+        'and(reminder_type.eq.exam, user.notification_preferences.assignment_reminders_enabled.eq.true),' +
         'and(reminder_type.eq.lecture, user.notification_preferences.lecture_reminders_enabled.eq.true),' +
         // Study session reminders fall under the main reminders toggle
         'and(reminder_type.eq.study_session, user.notification_preferences.reminders_enabled.eq.true)',
@@ -225,6 +343,12 @@ async function handleProcessDueReminders(supabaseAdmin: SupabaseClient) {
     };
   }
 
+  const taskDetails = await getTaskDetails(
+    supabaseAdmin,
+    dueReminders,
+    traceContext,
+  );
+
   // Step 4: Categorize reminders by how overdue they are and prioritize
   interface CategorizedReminder extends DueReminder {
     hoursOverdue: number;
@@ -340,222 +464,450 @@ async function handleProcessDueReminders(supabaseAdmin: SupabaseClient) {
     traceContext,
   );
 
-  // Step 6: Process each reminder and send notifications (sorted by priority).
+  // Step 6: Send each user's reminders (in priority order). Reminders due
+  // together go out as one digest unless the user turned bundling off, and
+  // nothing goes out over the user's hourly or daily cap.
+  interface PreparedReminder {
+    reminder: CategorizedReminder;
+    title: string;
+    body: string;
+    deepLinkUrl: string;
+    itemId?: string;
+    taskType: string;
+    task?: TaskDetails;
+    isHighPriority: boolean;
+    isFollowUp: boolean;
+    dedupKey: string;
+  }
+
   const remindersToMarkComplete: string[] = [];
+  const remindersHeldByCap: string[] = [];
+  const escalations: {
+    reminder: CategorizedReminder;
+    title: string;
+    body: string;
+    task: TaskDetails;
+  }[] = [];
   let totalSuccessCount = 0;
   let totalFailureCount = 0;
+  let digestsSent = 0;
 
-  for (const reminder of remindersToProcess) {
-    try {
-      const pushTokens =
-        reminder.user?.user_devices?.map(d => d.push_token).filter(Boolean) ||
-        [];
-
-      if (pushTokens.length > 0) {
-        // Use fallback values if title/body are not set
-        const title = reminder.title || 'Reminder';
-        const body = reminder.body || 'You have a new reminder from ELARO.';
-
-        // Generate deep link URL for the reminder
-        const deepLinkUrl = generateDeepLinkUrl(reminder);
-        const itemId =
-          reminder.session_id || reminder.assignment_id || reminder.lecture_id;
-        const taskType =
-          reminder.reminder_type === 'spaced_repetition'
-            ? 'study_session'
-            : reminder.reminder_type;
-
-        // Generate deduplication key to prevent duplicate notifications
-        const dedupKey = generateDeduplicationKey(
-          reminder.user_id,
-          reminder.reminder_type,
-          itemId || reminder.id,
-          1440, // Daily bucket
-        );
+  // Determine category and priority based on reminder type
+  const categoryMap: Record<string, string> = {
+    assignment: 'assignment',
+    exam: 'assignment',
+    lecture: 'lecture',
+    spaced_repetition: 'srs_review',
+    study_session: 'srs_review',
+  };
 
-        // Check if notification was already sent (deduplication)
-        const { data: existingNotification } = await supabaseAdmin
-          .from('notification_queue')
-          .select('id')
-          .eq('deduplication_key', dedupKey)
-          .in('status', ['pending', 'processing', 'sent'])
-          .single();
-
-        if (existingNotification) {
-          await logger.info(
-            'Notification already sent (deduplication)',
-            {
-              reminder_id: reminder.id,
-              dedup_key: dedupKey,
-            },
-            traceContext,
-          );
-          // Mark reminder as processed since notification was already sent
-          remindersToMarkComplete.push(reminder.id);
-          continue;
-        }
+  // Text, link and deduplication key of a reminder, or null if its
+  // notification already went out
+  const prepareReminder = async (
+    reminder: CategorizedReminder,
+  ): Promise<PreparedReminder | null> => {
+    // Use fallback values if title/body are not set
+    const locale = resolveUserLocale(reminder.user);
+    const title = reminder.title || translate(locale, 'reminder.fallbackTitle');
+    const body = reminder.body || translate(locale, 'reminder.fallbackBody');
 
-        // Also check notification_deliveries for recent sends (within last hour)
-        const oneHourAgo = new Date(Date.now() - 60 * 60 * 1000).toISOString();
-        const { data: recentDelivery } = await supabaseAdmin
-          .from('notification_deliveries')
-          .select('id')
-          .eq('user_id', reminder.user_id)
-          .eq('notification_type', reminder.reminder_type)
-          .eq('metadata->>itemId', itemId || reminder.id)
-          .gte('sent_at', oneHourAgo)
-          .limit(1)
-          .single();
-
-        if (recentDelivery) {
-          await logger.info(
-            'Notification sent recently (deduplication)',
-            {
-              reminder_id: reminder.id,
-              delivery_id: recentDelivery.id,
-            },
-            traceContext,
-          );
-          remindersToMarkComplete.push(reminder.id);
-          continue;
-        }
+    // Generate deep link URL for the reminder
+    const deepLinkUrl = generateDeepLinkUrl(reminder);
+    const itemId =
+      reminder.session_id ||
+      reminder.assignment_id ||
+      reminder.lecture_id ||
+      reminder.exam_id;
+    const taskType =
+      reminder.reminder_type === 'spaced_repetition'
+        ? 'study_session'
+        : reminder.reminder_type;
+    const task = itemId ? taskDetails.get(itemId) : undefined;
+    const isFollowUp = !!reminder.escalated_from;
 
-        // Determine category and priority based on reminder type
-        const categoryMap: Record<string, string> = {
-          assignment: 'assignment',
-          lecture: 'lecture',
-          spaced_repetition: 'srs_review',
-          study_session: 'srs_review',
-        };
-
-        const category = categoryMap[reminder.reminder_type] || undefined;
-
-        // Get preferences for unified sender (includes quiet hours check internally)
-        // Note: Quiet hours already filtered in batch query, but unified sender will re-validate
-        const userPrefs = await getUserNotificationPreferences(
-          supabaseAdmin,
-          reminder.user_id,
-        );
+    // Generate deduplication key to prevent duplicate notifications.
+    // Follow-ups have their own, as they repeat a reminder on purpose.
+    const dedupKey = generateDeduplicationKey(
+      reminder.user_id,
+      isFollowUp
+        ? `${reminder.reminder_type}_followup`
+        : reminder.reminder_type,
+      itemId || reminder.id,
+      1440, // Daily bucket
+    );
 
-        // Generate email content for reminder
-        const emailSubject = `Reminder: ${title}`;
-        const emailContent = `
-          <h2>📌 ${title}</h2>
-          <p>${body}</p>
-          <p><strong>Type:</strong> ${reminder.reminder_type}</p>
-          ${itemId ? `<p><a href="https://elaro.app${deepLinkUrl.replace('elaro://', '/')}">View Details</a></p>` : ''}
-          <p>---</p>
-          <p><em>You received this reminder because you have ${reminder.reminder_type} notifications enabled.</em></p>
-        `;
-
-        // Use unified notification sender (supports both push and email)
-        // Pass preferences to avoid refetch
-        const result = await sendUnifiedNotification(supabaseAdmin, {
-          userId: reminder.user_id,
-          notificationType: reminder.reminder_type,
-          title,
-          body,
-          emailSubject,
-          emailContent,
-          data: {
-            reminderId: reminder.id,
-            url: deepLinkUrl,
-            itemId: itemId,
-            taskType: taskType,
-          },
-          options: {
-            priority: 'high',
-            categoryId: category,
-          },
-          preferences: userPrefs, // Pass to avoid refetch in unified sender
-        });
+    // Check if notification was already sent (deduplication)
+    const { data: existingNotification } = await supabaseAdmin
+      .from('notification_queue')
+      .select('id')
+      .eq('deduplication_key', dedupKey)
+      .in('status', ['pending', 'processing', 'sent'])
+      .single();
 
-        // Record delivery with both push and email tracking
-        await supabaseAdmin.from('notification_deliveries').insert({
-          user_id: reminder.user_id,
-          notification_type: reminder.reminder_type,
-          title: title,
-          body: body,
-          sent_at: new Date().toISOString(),
-          device_token: pushTokens[0] || null,
-          deep_link_url: deepLinkUrl,
-          metadata: {
-            reminderId: reminder.id,
-            itemId: itemId,
-            taskType: taskType,
-            deduplication_key: dedupKey,
-            push_sent: result.pushSent,
-            email_sent: result.emailSent,
-          },
-          expo_status:
-            result.pushSent && result.pushResult?.success
-              ? 'ok'
-              : result.emailSent
-                ? 'ok'
-                : 'error',
-          error_message:
-            (result.pushSent && result.pushResult?.success) || result.emailSent
-              ? null
-              : 'Send failed',
-        });
+    if (existingNotification) {
+      await logger.info(
+        'Notification already sent (deduplication)',
+        {
+          reminder_id: reminder.id,
+          dedup_key: dedupKey,
+        },
+        traceContext,
+      );
+      // Mark reminder as processed since notification was already sent
+      remindersToMarkComplete.push(reminder.id);
+      return null;
+    }
 
-        // Mark as complete if either channel succeeded
-        if (result.pushSent || result.emailSent) {
-          remindersToMarkComplete.push(reminder.id);
-        }
-        // Update counts
-        if (result.pushResult) {
-          totalSuccessCount += result.pushResult.sentCount;
-          totalFailureCount += result.pushResult.failureCount;
-        }
-      } else {
-        // If there are no push tokens, we can consider the reminder "processed"
-        // to prevent it from being picked up again.
+    // Also check notification_deliveries for recent sends (within last hour);
+    // a follow-up is meant to come shortly after the reminder it repeats
+    if (!isFollowUp) {
+      const oneHourAgo = new Date(Date.now() - 60 * 60 * 1000).toISOString();
+      const { data: recentDelivery } = await supabaseAdmin
+        .from('notification_deliveries')
+        .select('id')
+        .eq('user_id', reminder.user_id)
+        .eq('notification_type', reminder.reminder_type)
+        .eq('metadata->>itemId', itemId || reminder.id)
+        .gte('sent_at', oneHourAgo)
+        .limit(1)
+        .single();
+
+      if (recentDelivery) {
+        await logger.info(
+          'Notification sent recently (deduplication)',
+          {
+            reminder_id: reminder.id,
+            delivery_id: recentDelivery.id,
+          },
+          traceContext,
+        );
         remindersToMarkComplete.push(reminder.id);
+        return null;
       }
-    } catch (error: unknown) {
-      const errorMessage =
-        error instanceof Error ? error.message : String(error);
+    }
+
+    return {
+      reminder,
+      title,
+      body,
+      deepLinkUrl,
+      itemId,
+      taskType,
+      task,
+      isHighPriority: task?.priority === 'high',
+      isFollowUp,
+      dedupKey,
+    };
+  };
+
+  // Record the delivery of one reminder, whether it was sent on its own or
+  // in a digest, and mark it complete if either channel succeeded
+  const recordSend = async (
+    prepared: PreparedReminder,
+    result: UnifiedNotificationResult,
+    pushToken: string | null,
+    bundleId?: string,
+  ) => {
+    const { reminder, title, body, task, isHighPriority, isFollowUp } =
+      prepared;
+
+    // Record delivery with both push and email tracking
+    await supabaseAdmin.from('notification_deliveries').insert({
+      user_id: reminder.user_id,
+      notification_type: reminder.reminder_type,
+      title: title,
+      body: body,
+      sent_at: new Date().toISOString(),
+      device_token: pushToken,
+      deep_link_url: prepared.deepLinkUrl,
+      metadata: {
+        reminderId: reminder.id,
+        itemId: prepared.itemId,
+        taskType: prepared.taskType,
+        deduplication_key: prepared.dedupKey,
+        task_priority: task?.priority,
+        follow_up: isFollowUp,
+        bundleId,
+        push_sent: result.pushSent,
+        email_sent: result.emailSent,
+      },
+      expo_status:
+        result.pushSent && result.pushResult?.success
+          ? 'ok'
+          : result.emailSent
+            ? 'ok'
+            : 'error',
+      error_message:
+        (result.pushSent && result.pushResult?.success) || result.emailSent
+          ? null
+          : 'Send failed',
+    });
+
+    if (result.pushSent || result.emailSent) {
+      remindersToMarkComplete.push(reminder.id);
+      if (task && isHighPriority && !isFollowUp && !task.deleted) {
+        escalations.push({ reminder, title, body, task });
+      }
+    }
+  };
+
+  const sendReminder = (
+    prepared: PreparedReminder,
+    userPrefs: Awaited<ReturnType<typeof getUserNotificationPreferences>>,
+  ) => {
+    const { reminder, title, body, deepLinkUrl, itemId } = prepared;
+    const locale = resolveUserLocale(reminder.user);
+
+    // Generate email content for reminder
+    const emailSubject = translate(locale, 'reminder.emailSubject', {
+      title,
+    });
+    const emailContent = `
+      <div dir="${textDirection(locale)}">
+      <h2>📌 ${title}</h2>
+      <p>${body}</p>
+      <p>${translate(locale, 'reminder.emailType', { type: reminder.reminder_type })}</p>
+      ${itemId ? `<p><a href="https://elaro.app${deepLinkUrl.replace('elaro://', '/')}">${translate(locale, 'reminder.emailViewDetails')}</a></p>` : ''}
+      <p>---</p>
+      <p><em>${translate(locale, 'reminder.emailFooter', { type: reminder.reminder_type })}</em></p>
+      </div>
+    `;
+
+    // Use unified notification sender (supports both push and email)
+    // Pass preferences to avoid refetch
+    return sendUnifiedNotification(supabaseAdmin, {
+      userId: reminder.user_id,
+      notificationType: reminder.reminder_type,
+      title,
+      body,
+      emailSubject,
+      emailContent,
+      data: {
+        reminderId: reminder.id,
+        url: deepLinkUrl,
+        itemId: itemId,
+        taskType: prepared.taskType,
+      },
+      options: {
+        priority: 'high',
+        categoryId: categoryMap[reminder.reminder_type] || undefined,
+        ...(prepared.isHighPriority && HIGH_PRIORITY_PUSH),
+      },
+      preferences: userPrefs, // Pass to avoid refetch in unified sender
+    });
+  };
+
+  // One push for several reminders, opening the list of them
+  const sendDigest = (
+    reminders: PreparedReminder[],
+    bundleId: string,
+    userPrefs: Awaited<ReturnType<typeof getUserNotificationPreferences>>,
+  ) => {
+    const locale = resolveUserLocale(reminders[0].reminder.user);
+    const reminderIds = reminders.map(({ reminder }) => reminder.id);
+    const url = digestUrl(reminderIds);
+    const { title, body, parts } = describeDigest(
+      locale,
+      reminders.map(({ reminder }) => reminder.reminder_type),
+    );
+
+    const emailContent = `
+      <div dir="${textDirection(locale)}">
+      <h2>📌 ${title}</h2>
+      <p>${body}</p>
+      <ul>${reminders.map(prepared => `<li>${prepared.title}</li>`).join('')}</ul>
+      <p><a href="https://elaro.app${url.replace('elaro://', '/')}">${translate(locale, 'reminder.digestViewAll')}</a></p>
+      <p>---</p>
+      <p><em>${translate(locale, 'reminder.digestEmailFooter')}</em></p>
+      </div>
+    `;
+
+    return sendUnifiedNotification(supabaseAdmin, {
+      userId: reminders[0].reminder.user_id,
+      notificationType: 'reminder_digest',
+      title,
+      body,
+      emailSubject: translate(locale, 'reminder.digestEmailSubject', {
+        parts,
+      }),
+      emailContent,
+      data: { bundleId, reminderIds, url },
+      options: {
+        priority: 'high',
+        ...(reminders.some(prepared => prepared.isHighPriority) &&
+          HIGH_PRIORITY_PUSH),
+      },
+      preferences: userPrefs,
+    });
+  };
+
+  // Add a reminder that failed to send to the dead-letter queue
+  const recordFailure = async (
+    reminder: CategorizedReminder,
+    error: unknown,
+  ) => {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    await logger.error(
+      'Error processing reminder',
+      {
+        reminder_id: reminder.id,
+        error: errorMessage,
+      },
+      traceContext,
+    );
+
+    try {
+      await supabaseAdmin.from('failed_reminders').insert({
+        reminder_id: reminder.id,
+        user_id: reminder.user_id,
+        error_message: errorMessage,
+        error_details: {
+          stack: error instanceof Error ? error.stack : undefined,
+          reminder_type: reminder.reminder_type,
+          priority: reminder.priority,
+        },
+        retry_count: 0,
+        next_retry_at: new Date(Date.now() + 60 * 60 * 1000).toISOString(), // Retry in 1 hour
+        resolved: false,
+      });
+    } catch (deadLetterError) {
+      // Log but don't fail the whole job
       await logger.error(
-        'Error processing reminder',
+        'Failed to log to dead-letter queue',
         {
-          reminder_id: reminder.id,
-          error: errorMessage,
+          error:
+            deadLetterError instanceof Error
+              ? deadLetterError.message
+              : String(deadLetterError),
         },
         traceContext,
       );
+    }
+
+    jobMetrics.errors.push(errorMessage);
+    totalFailureCount++;
+  };
+
+  const remindersByUser = new Map<string, CategorizedReminder[]>();
+  for (const reminder of remindersToProcess) {
+    const userReminders = remindersByUser.get(reminder.user_id) ?? [];
+    userReminders.push(reminder);
+    remindersByUser.set(reminder.user_id, userReminders);
+  }
+
+  for (const [userId, userReminders] of remindersByUser) {
+    const pushTokens =
+      userReminders[0].user?.user_devices
+        ?.map(d => d.push_token)
+        .filter(Boolean) || [];
+
+    if (pushTokens.length === 0) {
+      // If there are no push tokens, we can consider the reminders "processed"
+      // to prevent them from being picked up again.
+      remindersToMarkComplete.push(...userReminders.map(r => r.id));
+      continue;
+    }
 
-      // Add to dead-letter queue
+    const pending: PreparedReminder[] = [];
+    for (const reminder of userReminders) {
       try {
-        await supabaseAdmin.from('failed_reminders').insert({
-          reminder_id: reminder.id,
-          user_id: reminder.user_id,
-          error_message: errorMessage,
-          error_details: {
-            stack: error instanceof Error ? error.stack : undefined,
-            reminder_type: reminder.reminder_type,
-            priority: reminder.priority,
-          },
-          retry_count: 0,
-          next_retry_at: new Date(Date.now() + 60 * 60 * 1000).toISOString(), // Retry in 1 hour
-          resolved: false,
-        });
-      } catch (deadLetterError) {
-        // Log but don't fail the whole job
-        await logger.error(
-          'Failed to log to dead-letter queue',
-          {
-            error:
-              deadLetterError instanceof Error
-                ? deadLetterError.message
-                : String(deadLetterError),
-          },
-          traceContext,
+        const prepared = await prepareReminder(reminder);
+        if (prepared) pending.push(prepared);
+      } catch (error: unknown) {
+        await recordFailure(reminder, error);
+      }
+    }
+    if (pending.length === 0) continue;
+
+    // Get preferences for unified sender (includes quiet hours check internally)
+    // Note: Quiet hours already filtered in batch query, but unified sender will re-validate
+    const userPrefs = await getUserNotificationPreferences(
+      supabaseAdmin,
+      userId,
+    );
+
+    let remainingSends = Infinity;
+    try {
+      remainingSends = await getRemainingSends(
+        supabaseAdmin,
+        userId,
+        userPrefs,
+      );
+    } catch (error) {
+      // Better to send than to hold reminders back on a failed count
+      await logger.warn(
+        'Failed to count recent notifications',
+        {
+          user_id: userId,
+          error: error instanceof Error ? error.message : String(error),
+        },
+        traceContext,
+      );
+    }
+
+    // A digest counts as one notification however many reminders it holds
+    const bundle = shouldBundle(userPrefs, pending.length);
+    // Reminders locked before they are due only go out early in a digest;
+    // the rest are unlocked and sent when due
+    const toSend = bundle
+      ? pending
+      : pending.filter(
+          ({ reminder }) =>
+            new Date(reminder.reminder_time).getTime() <= nowTime,
         );
+    const sendable =
+      remainingSends === 0
+        ? []
+        : toSend.slice(0, bundle ? toSend.length : remainingSends);
+    if (sendable.length < toSend.length) {
+      // Left unlocked and incomplete, so they go out once the cap allows
+      const held = toSend.slice(sendable.length);
+      remindersHeldByCap.push(...held.map(({ reminder }) => reminder.id));
+      await logger.info(
+        'Send cap reached, holding reminders',
+        {
+          user_id: userId,
+          held: held.length,
+          max_per_hour: userPrefs?.max_per_hour,
+          max_per_day: userPrefs?.max_per_day,
+        },
+        traceContext,
+      );
+    }
+    if (sendable.length === 0) continue;
+
+    if (bundle) {
+      const bundleId = crypto.randomUUID();
+      try {
+        const result = await sendDigest(sendable, bundleId, userPrefs);
+        for (const prepared of sendable) {
+          await recordSend(prepared, result, pushTokens[0] || null, bundleId);
+        }
+        if (result.pushSent || result.emailSent) digestsSent++;
+        if (result.pushResult) {
+          totalSuccessCount += result.pushResult.sentCount;
+          totalFailureCount += result.pushResult.failureCount;
+        }
+      } catch (error: unknown) {
+        for (const { reminder } of sendable) {
+          await recordFailure(reminder, error);
+        }
       }
+      continue;
+    }
 
-      jobMetrics.errors.push(errorMessage);
-      totalFailureCount++;
+    for (const prepared of sendable) {
+      try {
+        const result = await sendReminder(prepared, userPrefs);
+        await recordSend(prepared, result, pushTokens[0] || null);
+        // Update counts
+        if (result.pushResult) {
+          totalSuccessCount += result.pushResult.sentCount;
+          totalFailureCount += result.pushResult.failureCount;
+        }
+      } catch (error: unknown) {
+        await recordFailure(prepared.reminder, error);
+      }
     }
   }
 
@@ -564,10 +916,55 @@ async function handleProcessDueReminders(supabaseAdmin: SupabaseClient) {
     {
       successes: totalSuccessCount,
       failures: totalFailureCount,
+      digests: digestsSent,
+      held_by_cap: remindersHeldByCap.length,
     },
     traceContext,
   );
 
+  // Follow up each sent reminder of a high-priority task once, if the task
+  // is still ahead by then. Follow-ups are urgent reminders of their own.
+  const followUpAt = new Date(Date.now() + ESCALATION_DELAY_MINUTES * 60000);
+  const followUps = escalations
+    .filter(({ task }) => new Date(task.startsAt) > followUpAt)
+    .map(({ reminder, title, body }) => ({
+      user_id: reminder.user_id,
+      assignment_id: reminder.assignment_id ?? null,
+      lecture_id: reminder.lecture_id ?? null,
+      session_id: reminder.session_id ?? null,
+      reminder_type: reminder.reminder_type,
+      reminder_time: followUpAt.toISOString(),
+      title: translate(
+        resolveUserLocale(reminder.user),
+        'reminder.followUpTitle',
+        { title },
+      ),
+      body,
+      priority: 'urgent',
+      escalated_from: reminder.id,
+      completed: false,
+    }));
+
+  if (followUps.length > 0) {
+    const { error: followUpError } = await supabaseAdmin
+      .from('reminders')
+      .insert(followUps);
+    if (followUpError) {
+      // Non-critical: the reminders themselves were sent
+      await logger.error(
+        'Failed to schedule follow-up reminders',
+        { error: followUpError.message, count: followUps.length },
+        traceContext,
+      );
+    } else {
+      await logger.info(
+        'Scheduled follow-ups for high-priority tasks',
+        { count: followUps.length },
+        traceContext,
+      );
+    }
+  }
+
   // Step 4: Mark the processed reminders as complete and clear locks
   if (remindersToMarkComplete.length > 0) {
     const { error: updateError } = await supabaseAdmin
@@ -605,7 +1002,8 @@ async function handleProcessDueReminders(supabaseAdmin: SupabaseClient) {
     );
   }
 
-  // Step 5: Clear locks for reminders that failed to process (but don't mark complete)
+  // Step 5: Clear locks for reminders that failed to process or were held back
+  // by a send cap (but don't mark complete)
   // This prevents them from being stuck locked forever
   const failedReminderIds = dueReminders
     .map(r => r.id)
@@ -666,6 +1064,9 @@ async function handleProcessDueReminders(supabaseAdmin: SupabaseClient) {
   jobMetrics.metadata = {
     processedByPriority,
     remindersInQuietHours: remindersInQuietHours.length,
+    followUpsScheduled: followUps.length,
+    digestsSent,
+    remindersHeldByCap: remindersHeldByCap.length,
   };
 
   // Determine status
@@ -714,6 +1115,8 @@ async function handleProcessDueReminders(supabaseAdmin: SupabaseClient) {
     notificationsFailed: totalFailureCount,
     processedByPriority,
     remindersInQuietHours: remindersInQuietHours.length,
+    digestsSent,
+    remindersHeldByCap: remindersHeldByCap.length,
     executionTimeMs: jobMetrics.execution_time_ms,
     status: jobMetrics.status,
   };
@@ -15,6 +15,10 @@ import {
   markJobFailed,
   type Job,
 } from '../_shared/job-queue.ts';
+import {
+  FSRS_OPTIMIZATION_JOB,
+  runFSRSOptimizationJob,
+} from '../_shared/fsrs-optimization-job.ts';
 import { successResponse } from '../_shared/response.ts';
 import { type SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.0.0';
 import {
@@ -31,6 +35,7 @@ const jobProcessors: Record<
   string,
   (job: Job, supabaseAdmin: SupabaseClient) => Promise<void>
 > = {
+  [FSRS_OPTIMIZATION_JOB]: runFSRSOptimizationJob,
   // Add your job handlers here
   // Example:
   // 'send-email': async (job, supabaseAdmin) => {
@@ -1,4 +1,5 @@
 import { serve } from 'https://deno.land/std@0.168.0/http/server.ts';
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.0.0';
 import {
   createAuthenticatedHandler,
   AuthenticatedRequest,
@@ -8,6 +9,16 @@ import { ERROR_CODES } from '../_shared/error-codes.ts';
 import { handleDbError } from '../api-v2/_handler-utils.ts';
 import { logger } from '../_shared/logging.ts';
 import { extractTraceContext } from '../_shared/tracing.ts';
+import {
+  createSRSScheduler,
+  getSRSSchedulerSettings,
+  SRS_REVIEW_RECORD_COLUMNS,
+  type SRSReviewRecord,
+  type SRSScheduleResult,
+} from '../_shared/srs-scheduler.ts';
+import { getReviewDeadline } from '../_shared/exam-revision.ts';
+import { awardAchievements, recordStudyDay } from '../_shared/achievements.ts';
+import { FIXED_SEND_HOURS } from '../_shared/send-time-model.ts';
 import { z } from 'zod';
 
 const RecordSRSPerformanceSchema = z.object({
@@ -78,54 +89,16 @@ async function handleRecordSRSPerformance(req: AuthenticatedRequest) {
     );
   }
 
-  // 2. Get the last performance record for this session to get current ease factor
-  const { data: lastPerformance } = await supabaseClient
+  // 2. Get this session's review history for the scheduler
+  const { data: history, error: historyError } = await supabaseClient
     .from('srs_performance')
-    .select('*')
+    .select(SRS_REVIEW_RECORD_COLUMNS)
     .eq('session_id', session_id)
     .eq('user_id', user.id)
-    .order('created_at', { ascending: false })
-    .limit(1)
-    .maybeSingle();
-
-  // Validate and sanitize parameters from last performance
-  let currentInterval = lastPerformance?.next_interval_days || 1;
-  let currentEaseFactor = lastPerformance?.ease_factor || 2.5;
-  let repetitionNumber = (lastPerformance?.repetition_number || 0) + 1;
-
-  // Parameter validation and bounds checking
-  if (lastPerformance) {
-    // Validate ease factor (should be 1.3 to 3.0)
-    if (
-      lastPerformance.ease_factor < 1.3 ||
-      lastPerformance.ease_factor > 3.0
-    ) {
-      console.warn(
-        `Invalid ease factor ${lastPerformance.ease_factor} for session ${session_id}, resetting to 2.5`,
-      );
-      currentEaseFactor = 2.5;
-    }
-
-    // Validate interval (should be 1 to 365 days)
-    if (
-      lastPerformance.next_interval_days < 1 ||
-      lastPerformance.next_interval_days > 365
-    ) {
-      console.warn(
-        `Invalid interval ${lastPerformance.next_interval_days} for session ${session_id}, resetting to 1`,
-      );
-      currentInterval = 1;
-    }
+    .order('review_date', { ascending: true });
 
-    // Validate repetition number (should be positive)
-    if (lastPerformance.repetition_number < 0) {
-      console.warn(
-        `Invalid repetition number ${lastPerformance.repetition_number} for session ${session_id}, resetting to 0`,
-      );
-      repetitionNumber = 1;
-    } else {
-      repetitionNumber = lastPerformance.repetition_number + 1;
-    }
+  if (historyError) {
+    throw handleDbError(historyError);
   }
 
   // 2.5: Check for cramming behavior (multiple reviews in short time)
@@ -136,35 +109,33 @@ async function handleRecordSRSPerformance(req: AuthenticatedRequest) {
   });
 
   const isCramming = crammingData?.[0]?.is_cramming || false;
-
-  // Adjust ease factor if cramming detected (be more conservative)
-  let adjustedEaseFactor = currentEaseFactor;
   if (isCramming) {
     console.log(
       `Cramming detected for session ${session_id} - adjusting algorithm to be more conservative`,
     );
-    // When cramming, reduce ease factor slightly to prevent over-confidence
-    // This makes intervals grow slower during cramming sessions
-    adjustedEaseFactor = Math.max(1.3, currentEaseFactor - 0.1);
   }
 
-  // 3. Calculate next interval using SM-2 algorithm
-  const { data: calculation, error: calcError } = await supabaseClient.rpc(
-    'calculate_next_srs_interval',
-    {
-      p_quality_rating: quality_rating,
-      p_current_interval: currentInterval,
-      p_ease_factor: adjustedEaseFactor, // Use adjusted ease factor
-      p_repetition_number: repetitionNumber,
-    },
+  // 3. Calculate next interval with the user's scheduler (SM-2 or FSRS)
+  const schedulerSettings = await getSRSSchedulerSettings(
+    supabaseClient,
+    user.id,
   );
-
-  if (calcError) {
+  const scheduler = createSRSScheduler(schedulerSettings, supabaseClient);
+
+  let schedule: SRSScheduleResult;
+  try {
+    schedule = await scheduler.schedule((history ?? []) as SRSReviewRecord[], {
+      qualityRating: quality_rating,
+      reviewedAt: new Date(),
+      isCramming,
+    });
+  } catch (calcError) {
     throw handleDbError(calcError);
   }
 
-  const nextInterval = calculation[0]?.next_interval || 1;
-  const newEaseFactor = calculation[0]?.new_ease_factor || 2.5;
+  const nextInterval = schedule.nextIntervalDays;
+  const newEaseFactor = schedule.easeFactor;
+  const repetitionNumber = schedule.repetitionNumber;
 
   // 4. Record performance
   const { data: performance, error: performanceError } = await supabaseClient
@@ -177,9 +148,13 @@ async function handleRecordSRSPerformance(req: AuthenticatedRequest) {
       quality_rating,
       response_time_seconds,
       ease_factor: newEaseFactor,
-      interval_days: currentInterval,
+      interval_days: schedule.intervalDays,
       next_interval_days: nextInterval,
       repetition_number: repetitionNumber,
+      scheduler: schedule.scheduler,
+      stability: schedule.stability,
+      difficulty: schedule.difficulty,
+      retrievability: schedule.retrievability,
     })
     .select()
     .single();
@@ -236,68 +211,104 @@ async function handleRecordSRSPerformance(req: AuthenticatedRequest) {
   let schedulingWarning = null;
   if (schedule_next && quality_rating >= 3) {
     try {
-      // Get optimal hour for reminders
-      const { data: optimalHour } = await supabaseClient.rpc(
-        'get_optimal_reminder_hour',
-        {
-          p_user_id: user.id,
-          p_reminder_type: 'spaced_repetition',
-        },
+      // No reviews after the course's term is over or the exam has started
+      const reviewDeadline = await getReviewDeadline(
+        supabaseClient,
+        user.id,
+        session,
       );
 
-      const preferredHour = optimalHour || 10;
-
-      // Use timezone-aware scheduling
-      const { data: nextReminderTime } = await supabaseClient.rpc(
-        'schedule_reminder_in_user_timezone',
+      // Send at the hour the user has learned to act on reviews, falling
+      // back to the fixed hour if the learned one misses the deadline
+      const jitterSeed = `${session_id}-${nextInterval}`;
+      const { data: learnedHour } = await supabaseClient.rpc(
+        'get_optimal_reminder_hour',
         {
           p_user_id: user.id,
-          p_base_time: new Date().toISOString(),
-          p_days_offset: nextInterval,
-          p_hour: preferredHour,
+          p_reminder_type: 'spaced_repetition',
+          p_fixed_hour: FIXED_SEND_HOURS.spaced_repetition,
+          p_seed: jitterSeed,
         },
       );
 
-      // Apply deterministic jitter (same as initial scheduling)
       const { addDeterministicJitter } = await import(
         '../_shared/deterministic-jitter.ts'
       );
-      const baseTime = nextReminderTime
-        ? new Date(nextReminderTime)
-        : new Date();
-      const jitterSeed = `${session_id}-${nextInterval}`;
-      const jitteredTime = addDeterministicJitter(baseTime, 30, jitterSeed); // 30 minutes jitter
+      const reviewTimeAt = async (hour: number) => {
+        // Use timezone-aware scheduling
+        const { data: nextReminderTime } = await supabaseClient.rpc(
+          'schedule_reminder_in_user_timezone',
+          {
+            p_user_id: user.id,
+            p_base_time: new Date().toISOString(),
+            p_days_offset: nextInterval,
+            p_hour: hour,
+          },
+        );
 
-      // Insert next reminder
-      const { data: newReminder, error: reminderError } = await supabaseClient
-        .from('reminders')
-        .insert({
-          user_id: user.id,
-          session_id: session_id,
-          reminder_time: jitteredTime.toISOString(),
-          reminder_type: 'spaced_repetition',
-          title: `Review: ${session.topic}`,
-          body: `Time to review "${session.topic}" to strengthen your memory`,
-          completed: false,
-          priority: quality_rating <= 2 ? 'high' : 'medium', // Higher priority for difficult topics
-        })
-        .select()
-        .single();
+        // Apply deterministic jitter (same as initial scheduling)
+        const baseTime = nextReminderTime
+          ? new Date(nextReminderTime)
+          : new Date();
+        return addDeterministicJitter(baseTime, 30, jitterSeed); // 30 minutes jitter
+      };
+
+      let jitteredTime = await reviewTimeAt(
+        typeof learnedHour === 'number'
+          ? learnedHour
+          : FIXED_SEND_HOURS.spaced_repetition,
+      );
+      if (
+        reviewDeadline &&
+        jitteredTime > reviewDeadline &&
+        typeof learnedHour === 'number' &&
+        learnedHour !== FIXED_SEND_HOURS.spaced_repetition
+      ) {
+        jitteredTime = await reviewTimeAt(FIXED_SEND_HOURS.spaced_repetition);
+      }
 
-      if (!reminderError) {
-        nextReminder = newReminder;
-      } else {
-        await logger.error(
-          'Failed to insert next reminder',
+      if (reviewDeadline && jitteredTime > reviewDeadline) {
+        await logger.info(
+          'Next review falls after the end of the term or the exam; not scheduled',
           {
             user_id: user.id,
             session_id,
-            error: reminderError.message,
+            review_deadline: reviewDeadline.toISOString(),
           },
           traceContext,
         );
-        schedulingWarning =
-          'Your review was recorded, but the next reminder could not be scheduled. Please schedule it manually.';
+      } else {
+        // Insert next reminder
+        const { data: newReminder, error: reminderError } = await supabaseClient
+          .from('reminders')
+          .insert({
+            user_id: user.id,
+            session_id: session_id,
+            reminder_time: jitteredTime.toISOString(),
+            reminder_type: 'spaced_repetition',
+            title: `Review: ${session.topic}`,
+            body: `Time to review "${session.topic}" to strengthen your memory`,
+            completed: false,
+            priority: quality_rating <= 2 ? 'high' : 'medium', // Higher priority for difficult topics
+          })
+          .select()
+          .single();
+
+        if (!reminderError) {
+          nextReminder = newReminder;
+        } else {
+          await logger.error(
+            'Failed to insert next reminder',
+            {
+              user_id: user.id,
+              session_id,
+              error: reminderError.message,
+            },
+            traceContext,
+          );
+          schedulingWarning =
+            'Your review was recorded, but the next reminder could not be scheduled. Please schedule it manually.';
+        }
       }
     } catch (scheduleError) {
       await logger.error(
@@ -317,6 +328,33 @@ async function handleRecordSRSPerformance(req: AuthenticatedRequest) {
     }
   }
 
+  // 8. A review is a study day and can earn an SRS consistency badge.
+  // Badges are written with the service role; users can only read theirs.
+  try {
+    const serviceClient = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '',
+    );
+    await recordStudyDay(
+      serviceClient,
+      user.id,
+      new Date(performance.review_date),
+    );
+    await awardAchievements(serviceClient, user.id);
+  } catch (progressError) {
+    await logger.warn(
+      'Failed to update streak after SRS review',
+      {
+        user_id: user.id,
+        error:
+          progressError instanceof Error
+            ? progressError.message
+            : String(progressError),
+      },
+      traceContext,
+    );
+  }
+
   await logger.info(
     'SRS performance recorded',
     {
@@ -324,6 +362,7 @@ async function handleRecordSRSPerformance(req: AuthenticatedRequest) {
       session_id,
       next_interval_days: nextInterval,
       ease_factor: newEaseFactor,
+      scheduler: schedule.scheduler,
     },
     traceContext,
   );
@@ -333,6 +372,10 @@ async function handleRecordSRSPerformance(req: AuthenticatedRequest) {
     performance,
     next_interval_days: nextInterval,
     ease_factor: newEaseFactor,
+    scheduler: schedule.scheduler,
+    stability: schedule.stability,
+    difficulty: schedule.difficulty,
+    retrievability: schedule.retrievability,
     next_reminder: nextReminder,
     warning: schedulingWarning || null, // Add warning field if scheduling failed
     message:
@@ -105,17 +105,6 @@ async function handleScheduleReminders(req: AuthenticatedRequest) {
   const sessionDate = new Date(session_date);
   const JITTER_MINUTES = 30; // We'll add +/- 30 minutes of jitter
 
-  // Get optimal hour for reminders based on user patterns
-  const { data: optimalHour } = await supabaseClient.rpc(
-    'get_optimal_reminder_hour',
-    {
-      p_user_id: user.id,
-      p_reminder_type: 'spaced_repetition',
-    },
-  );
-
-  const preferredHour = optimalHour || 10; // Default to 10 AM if no data
-
   // Cancel existing reminders for this session before scheduling new ones
   const { cancelExistingSRSReminders } = await import(
     '../_shared/reminder-scheduling.ts'
@@ -143,7 +132,6 @@ async function handleScheduleReminders(req: AuthenticatedRequest) {
     sessionId: session_id,
     sessionDate,
     topic,
-    preferredHour,
     jitterMinutes: JITTER_MINUTES,
     useDeterministicJitter: true, // Deterministic for consistency
     intervals,
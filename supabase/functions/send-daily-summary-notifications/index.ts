@@ -9,8 +9,27 @@ import {
   getTodayBoundsInTimezone,
   getUserNotificationPreferences,
 } from '../_shared/notification-helpers.ts';
+import { FIXED_SEND_HOURS } from '../_shared/send-time-model.ts';
+import {
+  formatList,
+  resolveUserLocale,
+  textDirection,
+  translate,
+} from '../_shared/i18n.ts';
+
+function localHour(date: Date, timeZone: string): number {
+  return parseInt(
+    date.toLocaleTimeString('en-US', {
+      timeZone,
+      hour: '2-digit',
+      hourCycle: 'h23',
+    }),
+  );
+}
 
-// The core business logic for sending daily summaries
+// The core business logic for sending daily summaries. Runs hourly; each
+// user's summary goes out once a day, at the hour they have learned to act
+// on it (or their preferred morning time).
 async function handleSendDailySummaries(supabaseAdminClient: SupabaseClient) {
   const traceContext = extractTraceContext(
     new Request('https://cron.internal'),
@@ -32,11 +51,14 @@ async function handleSendDailySummaries(supabaseAdminClient: SupabaseClient) {
           push_notifications,
           master_toggle,
           do_not_disturb,
+          preferred_morning_time,
       user:users (
         id,
             email,
             first_name,
         timezone,
+        locale,
+        device_locale,
         user_devices (
           push_token
         )
@@ -78,13 +100,6 @@ async function handleSendDailySummaries(supabaseAdminClient: SupabaseClient) {
     }
 
     try {
-      // Get full preferences for unified sender (to avoid refetch)
-      const userPrefs = await getUserNotificationPreferences(
-        supabaseAdminClient,
-        user.id,
-      );
-      if (!userPrefs) continue;
-
       const timezone = user.timezone || 'UTC';
 
       // 3. Calculate the start and end of "today" in the user's timezone
@@ -92,30 +107,91 @@ async function handleSendDailySummaries(supabaseAdminClient: SupabaseClient) {
       const { start: todayStart, end: todayEnd } =
         getTodayBoundsInTimezone(timezone);
 
-      // 4. Fetch today's tasks for the user
+      // 4. Work out the hour today's summary goes out at
+      const fixedHour = pref.preferred_morning_time
+        ? parseInt(pref.preferred_morning_time.split(':')[0])
+        : FIXED_SEND_HOURS.daily_summary;
+      const localDate = new Intl.DateTimeFormat('en-CA', {
+        timeZone: timezone,
+      }).format(new Date());
+      const { data: learnedHour } = await supabaseAdminClient.rpc(
+        'get_optimal_reminder_hour',
+        {
+          p_user_id: user.id,
+          p_reminder_type: 'daily_summary',
+          p_fixed_hour: fixedHour,
+          p_seed: `${user.id}-${localDate}`,
+        },
+      );
+      const summaryHour =
+        typeof learnedHour === 'number' ? learnedHour : fixedHour;
+      const currentHour = localHour(new Date(), timezone);
+      if (currentHour !== summaryHour && currentHour !== fixedHour) {
+        continue;
+      }
+
+      const { count: sentToday } = await supabaseAdminClient
+        .from('notification_deliveries')
+        .select('id', { count: 'exact', head: true })
+        .eq('user_id', user.id)
+        .eq('notification_type', 'daily_summary')
+        .gte('sent_at', todayStart.toISOString());
+      if (sentToday) continue;
+
+      // Get full preferences for unified sender (to avoid refetch)
+      const userPrefs = await getUserNotificationPreferences(
+        supabaseAdminClient,
+        user.id,
+      );
+      if (!userPrefs) continue;
+
+      // 5. Fetch today's tasks for the user
       const [lecturesRes, assignmentsRes, studySessionsRes] = await Promise.all(
         [
           supabaseAdminClient
             .from('lectures')
-            .select('id', { count: 'exact' })
+            .select('id, start_time', { count: 'exact' })
             .eq('user_id', user.id)
             .gte('start_time', todayStart.toISOString())
-            .lt('start_time', todayEnd.toISOString()),
+            .lt('start_time', todayEnd.toISOString())
+            .order('start_time')
+            .limit(1),
           supabaseAdminClient
             .from('assignments')
-            .select('id', { count: 'exact' })
+            .select('id, due_date', { count: 'exact' })
             .eq('user_id', user.id)
             .gte('due_date', todayStart.toISOString())
-            .lt('due_date', todayEnd.toISOString()),
+            .lt('due_date', todayEnd.toISOString())
+            .order('due_date')
+            .limit(1),
           supabaseAdminClient
             .from('study_sessions')
-            .select('id', { count: 'exact' })
+            .select('id, session_date', { count: 'exact' })
             .eq('user_id', user.id)
             .gte('session_date', todayStart.toISOString())
-            .lt('session_date', todayEnd.toISOString()),
+            .lt('session_date', todayEnd.toISOString())
+            .order('session_date')
+            .limit(1),
         ],
       );
 
+      // A learned hour later than the fixed one is only used when the
+      // summary still arrives before the day's first task
+      const firstTaskHour = Math.min(
+        ...[
+          lecturesRes.data?.[0]?.start_time,
+          assignmentsRes.data?.[0]?.due_date,
+          studySessionsRes.data?.[0]?.session_date,
+        ]
+          .filter(Boolean)
+          .map(time => localHour(new Date(time), timezone)),
+      );
+      const plannedHour =
+        summaryHour > fixedHour && firstTaskHour < summaryHour
+          ? fixedHour
+          : summaryHour;
+      if (currentHour !== plannedHour) continue;
+
       const lectureCount = lecturesRes.count || 0;
       const assignmentCount = assignmentsRes.count || 0;
       const studySessionCount = studySessionsRes.count || 0;
@@ -125,40 +201,53 @@ async function handleSendDailySummaries(supabaseAdminClient: SupabaseClient) {
         continue; // Don't send a notification if there's nothing scheduled
       }
 
-      // 5. Construct the summary message
-      let message = "Today's Plan: ";
+      // 6. Construct the summary message in the user's language
+      const locale = resolveUserLocale(user);
       const parts = [];
       if (lectureCount > 0)
-        parts.push(`${lectureCount} lecture${lectureCount > 1 ? 's' : ''}`);
+        parts.push(
+          translate(locale, 'summary.lectures', { count: lectureCount }),
+        );
       if (assignmentCount > 0)
         parts.push(
-          `${assignmentCount} assignment${assignmentCount > 1 ? 's' : ''} due`,
+          translate(locale, 'summary.assignmentsDue', {
+            count: assignmentCount,
+          }),
         );
       if (studySessionCount > 0)
         parts.push(
-          `${studySessionCount} study session${studySessionCount > 1 ? 's' : ''}`,
+          translate(locale, 'summary.studySessions', {
+            count: studySessionCount,
+          }),
         );
-      message += parts.join(', ') + '.';
+      const message = translate(locale, 'summary.body', {
+        parts: formatList(locale, parts),
+      });
 
-      // 6. Send unified notification (push + email) respecting preferences
+      // 7. Send unified notification (push + email) respecting preferences
       // Pass preferences to avoid refetch in unified sender
-      const emailSubject = 'Your Daily ELARO Summary';
+      const emailSubject = translate(locale, 'summary.emailSubject');
       const emailContent = `
-        <h2>Hi ${user.first_name || 'there'}! 👋</h2>
-        <p>Here's your daily academic summary:</p>
+        <div dir="${textDirection(locale)}">
+        <h2>${translate(locale, 'summary.emailGreeting', {
+          name:
+            user.first_name || translate(locale, 'summary.emailFallbackName'),
+        })}</h2>
+        <p>${translate(locale, 'summary.emailIntro')}</p>
         <ul>
-          ${lectureCount > 0 ? `<li><strong>${lectureCount}</strong> lecture${lectureCount > 1 ? 's' : ''} scheduled</li>` : ''}
-          ${assignmentCount > 0 ? `<li><strong>${assignmentCount}</strong> assignment${assignmentCount > 1 ? 's' : ''} due</li>` : ''}
-          ${studySessionCount > 0 ? `<li><strong>${studySessionCount}</strong> study session${studySessionCount > 1 ? 's' : ''} planned</li>` : ''}
+          ${lectureCount > 0 ? `<li>${translate(locale, 'summary.emailLectures', { count: lectureCount })}</li>` : ''}
+          ${assignmentCount > 0 ? `<li>${translate(locale, 'summary.emailAssignments', { count: assignmentCount })}</li>` : ''}
+          ${studySessionCount > 0 ? `<li>${translate(locale, 'summary.emailStudySessions', { count: studySessionCount })}</li>` : ''}
         </ul>
-        <p>Stay on track and have a productive day! 🎓</p>
-        <p><a href="https://myelaro.com/dashboard">View Dashboard</a></p>
+        <p>${translate(locale, 'summary.emailClosing')}</p>
+        <p><a href="https://myelaro.com/dashboard">${translate(locale, 'summary.emailDashboard')}</a></p>
+        </div>
       `;
 
       const result = await sendUnifiedNotification(supabaseAdminClient, {
         userId: user.id,
         notificationType: 'daily_summary',
-        title: "Here's your daily summary!",
+        title: translate(locale, 'summary.title'),
         body: message,
         emailSubject,
         emailContent,
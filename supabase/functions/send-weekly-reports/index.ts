@@ -0,0 +1,351 @@
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts';
+import { createScheduledHandler } from '../_shared/function-handler.ts';
+import { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.0.0';
+import { sendUnifiedNotification } from '../_shared/unified-notification-sender.ts';
+import { handleDbError } from '../api-v2/_handler-utils.ts';
+import { logger } from '../_shared/logging.ts';
+import { extractTraceContext } from '../_shared/tracing.ts';
+import { getUserNotificationPreferences } from '../_shared/notification-helpers.ts';
+import {
+  SupportedLocale,
+  resolveUserLocale,
+  textDirection,
+  translate,
+} from '../_shared/i18n.ts';
+import {
+  ReportWeek,
+  WeeklyReportData,
+  buildWeeklyReport,
+  dueReportWeek,
+  getPublishedTemplates,
+} from '../_shared/weekly-report.ts';
+
+const PRIMARY_COLOR = '#2C5EFF';
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+function formatWeekRange(locale: SupportedLocale, week: ReportWeek): string {
+  const format = (day: string) =>
+    new Intl.DateTimeFormat(locale, {
+      month: 'short',
+      day: 'numeric',
+      timeZone: 'UTC',
+    }).format(new Date(`${day}T00:00:00Z`));
+  return `${format(week.weekStart)} – ${format(week.weekEnd)}`;
+}
+
+/**
+ * Take the user's report for the week. Returns null when another run has it,
+ * so each report is only sent once; a failed attempt can be retried.
+ */
+async function claimReport(
+  supabaseAdmin: SupabaseClient,
+  userId: string,
+  week: ReportWeek,
+): Promise<string | null> {
+  const { data, error } = await supabaseAdmin
+    .from('weekly_reports')
+    .insert({
+      user_id: userId,
+      week_start_date: week.weekStart,
+      week_end_date: week.weekEnd,
+      report_data: {},
+      status: 'generating',
+    })
+    .select('id')
+    .single();
+
+  if (!error) return data.id;
+  if (error.code !== '23505') handleDbError(error);
+
+  const { data: retried, error: retryError } = await supabaseAdmin
+    .from('weekly_reports')
+    .update({ status: 'generating', updated_at: new Date().toISOString() })
+    .eq('user_id', userId)
+    .eq('week_start_date', week.weekStart)
+    .eq('status', 'failed')
+    .select('id')
+    .maybeSingle();
+
+  if (retryError) handleDbError(retryError);
+  return retried?.id ?? null;
+}
+
+function renderEmail(
+  locale: SupportedLocale,
+  firstName: string | null,
+  week: ReportWeek,
+  report: WeeklyReportData,
+  reportId: string,
+): string {
+  const { academic_performance, time_management, progress_tracking } = report;
+  const hours =
+    Math.round((academic_performance.total_study_time / 60) * 10) / 10;
+
+  const stats = [
+    [
+      translate(locale, 'weeklyReport.studyTime'),
+      translate(locale, 'weeklyReport.hours', { hours }),
+    ],
+    [
+      translate(locale, 'weeklyReport.tasksCompleted'),
+      String(academic_performance.completed_tasks),
+    ],
+    [
+      translate(locale, 'weeklyReport.focusSessions'),
+      String(time_management.focus_sessions),
+    ],
+    [
+      translate(locale, 'weeklyReport.streak'),
+      translate(locale, 'weeklyReport.days', {
+        count: progress_tracking.current_streak,
+      }),
+    ],
+  ]
+    .map(
+      ([label, value]) => `
+        <td style="padding:8px;text-align:center;">
+          <div style="font-size:20px;font-weight:bold;">${escapeHtml(value)}</div>
+          <div style="font-size:12px;color:#666;">${escapeHtml(label)}</div>
+        </td>`,
+    )
+    .join('');
+
+  // Bars as table cells, which email clients render reliably
+  const maxMinutes = Math.max(
+    1,
+    ...time_management.daily_activity.map(day => day.study_time),
+  );
+  const weekday = new Intl.DateTimeFormat(locale, {
+    weekday: 'short',
+    timeZone: 'UTC',
+  });
+  const bars = time_management.daily_activity
+    .map(day => {
+      const width = Math.round((day.study_time / maxMinutes) * 100);
+      return `
+        <tr>
+          <td style="padding:2px 8px;font-size:12px;width:48px;">${escapeHtml(
+            weekday.format(new Date(`${day.date}T00:00:00Z`)),
+          )}</td>
+          <td style="padding:2px 0;">
+            <div style="background:${PRIMARY_COLOR};height:12px;border-radius:6px;width:${Math.max(width, day.study_time > 0 ? 2 : 0)}%;"></div>
+          </td>
+          <td style="padding:2px 8px;font-size:12px;width:40px;text-align:end;">${day.study_time}</td>
+        </tr>`;
+    })
+    .join('');
+
+  const list = (items: string[]) =>
+    items.length
+      ? `<ul>${items.map(item => `<li>${escapeHtml(item)}</li>`).join('')}</ul>`
+      : '';
+
+  const narrative = report.narrative
+    .filter(section => section.text)
+    .map(section => `<p>${escapeHtml(section.text)}</p>`)
+    .join('');
+
+  const badges = progress_tracking.achievements.length
+    ? `<h3>${translate(locale, 'weeklyReport.achievements')}</h3>
+        ${list(
+          progress_tracking.achievements.map(
+            achievement => `${achievement.title}: ${achievement.description}`,
+          ),
+        )}`
+    : '';
+
+  return `
+    <div dir="${textDirection(locale)}">
+    <h2>${escapeHtml(
+      translate(locale, 'summary.emailGreeting', {
+        name: firstName || translate(locale, 'summary.emailFallbackName'),
+      }),
+    )}</h2>
+    <p>${escapeHtml(
+      translate(locale, 'weeklyReport.emailIntro', {
+        range: formatWeekRange(locale, week),
+      }),
+    )}</p>
+    <table style="width:100%;border-collapse:collapse;"><tr>${stats}</tr></table>
+    ${list(report.summary.key_highlights)}
+    ${narrative}
+    <h3>${translate(locale, 'weeklyReport.dailyActivity')}</h3>
+    <table style="width:100%;border-collapse:collapse;">${bars}</table>
+    ${badges}
+    <h3>${translate(locale, 'weeklyReport.tips')}</h3>
+    ${list(progress_tracking.next_week_recommendations)}
+    <p><a href="elaro://weekly-report/${reportId}">${translate(locale, 'weeklyReport.viewReport')}</a></p>
+    <p style="font-size:12px;color:#666;">${translate(locale, 'weeklyReport.footer')}</p>
+    </div>
+  `;
+}
+
+// Generate and send reports for users whose week has just ended
+async function handleSendWeeklyReports(supabaseAdminClient: SupabaseClient) {
+  const traceContext = extractTraceContext(
+    new Request('https://cron.internal'),
+  );
+  const now = new Date();
+
+  await logger.info('Starting weekly report job', {}, traceContext);
+
+  const { data: users, error: usersError } = await supabaseAdminClient
+    .from('notification_preferences')
+    .select(
+      `
+      user_id,
+      user:users (
+        id,
+        email,
+        first_name,
+        timezone,
+        locale,
+        device_locale
+      )
+    `,
+    )
+    .eq('weekly_report_enabled', true);
+
+  if (usersError) {
+    throw handleDbError(usersError);
+  }
+
+  // Only users whose local week ends around this run
+  const due = (users ?? []).flatMap(pref => {
+    const user = pref.user;
+    if (!user) return [];
+    const week = dueReportWeek(now, user.timezone || 'UTC');
+    return week ? [{ user, week }] : [];
+  });
+
+  if (due.length === 0) {
+    await logger.info('No weekly reports due', {}, traceContext);
+    return { success: true, processedUsers: 0 };
+  }
+
+  const templates =
+    await getPublishedTemplates(supabaseAdminClient).catch(handleDbError);
+
+  let generatedCount = 0;
+  let sentCount = 0;
+  let failureCount = 0;
+
+  for (const { user, week } of due) {
+    let reportId: string | null = null;
+    try {
+      reportId = await claimReport(supabaseAdminClient, user.id, week);
+      if (!reportId) continue;
+
+      const locale = resolveUserLocale(user);
+      const report = await buildWeeklyReport(
+        supabaseAdminClient,
+        { ...user, timezone: user.timezone || 'UTC' },
+        week,
+        templates,
+        locale,
+      );
+
+      const { error: saveError } = await supabaseAdminClient
+        .from('weekly_reports')
+        .update({
+          report_data: report,
+          status: 'completed',
+          generated_at: new Date().toISOString(),
+          updated_at: new Date().toISOString(),
+        })
+        .eq('id', reportId);
+      if (saveError) handleDbError(saveError);
+      generatedCount++;
+
+      const userPrefs = await getUserNotificationPreferences(
+        supabaseAdminClient,
+        user.id,
+      );
+      if (!userPrefs) continue;
+
+      // The in-app report is saved either way; push and email follow the
+      // user's channel preferences
+      const result = await sendUnifiedNotification(supabaseAdminClient, {
+        userId: user.id,
+        notificationType: 'weekly_report',
+        title: translate(locale, 'weeklyReport.title'),
+        body: translate(locale, 'weeklyReport.body', {
+          count: report.academic_performance.completed_tasks,
+          hours:
+            Math.round(
+              (report.academic_performance.total_study_time / 60) * 10,
+            ) / 10,
+        }),
+        emailSubject: translate(locale, 'weeklyReport.emailSubject', {
+          range: formatWeekRange(locale, week),
+        }),
+        emailContent: renderEmail(
+          locale,
+          user.first_name,
+          week,
+          report,
+          reportId,
+        ),
+        data: {
+          url: `elaro://weekly-report/${reportId}`,
+          reportId,
+          weekStart: week.weekStart,
+        },
+        options: {
+          priority: 'normal',
+          categoryId: 'weekly_report',
+        },
+        preferences: userPrefs,
+      });
+
+      if (result.pushSent || result.emailSent) {
+        sentCount++;
+        await supabaseAdminClient
+          .from('weekly_reports')
+          .update({ delivered_at: new Date().toISOString() })
+          .eq('id', reportId);
+      }
+    } catch (error: unknown) {
+      await logger.error(
+        'Failed to generate weekly report for user',
+        {
+          user_id: user.id,
+          week_start: week.weekStart,
+          error: error instanceof Error ? error.message : String(error),
+        },
+        traceContext,
+      );
+      failureCount++;
+
+      // Leave the row for the next run to retry
+      if (reportId) {
+        await supabaseAdminClient
+          .from('weekly_reports')
+          .update({ status: 'failed', updated_at: new Date().toISOString() })
+          .eq('id', reportId)
+          .eq('status', 'generating');
+      }
+    }
+  }
+
+  const result = {
+    success: true,
+    dueUsers: due.length,
+    reportsGenerated: generatedCount,
+    reportsSent: sentCount,
+    failures: failureCount,
+  };
+
+  await logger.info('Finished weekly report job', result, traceContext);
+  return result;
+}
+
+serve(createScheduledHandler(handleSendWeeklyReports));
@@ -27,6 +27,14 @@ import { corsHeaders } from '../_shared/cors.ts';
 import { errorResponse } from '../_shared/response.ts';
 import { logger } from '../_shared/logging.ts';
 import { extractTraceContext } from '../_shared/tracing.ts';
+import { getReviewDeadline } from '../_shared/exam-revision.ts';
+import {
+  createSRSScheduler,
+  getSRSSchedulerSettings,
+  SRS_REVIEW_RECORD_COLUMNS,
+  type SRSReviewRecord,
+  type SRSScheduleResult,
+} from '../_shared/srs-scheduler.ts';
 import { z } from 'zod';
 import {
   type SupabaseClient,
@@ -79,20 +87,15 @@ class SRSService {
       );
     }
 
-    // 2. Get the last performance record (not single record - multiple records exist)
-    const { data: lastPerformance } = await this.supabaseClient
+    // 2. Get the session's review history (multiple records exist)
+    const { data: history, error: historyError } = await this.supabaseClient
       .from('srs_performance')
-      .select('*')
+      .select(SRS_REVIEW_RECORD_COLUMNS)
       .eq('session_id', session_id)
       .eq('user_id', this.user.id)
-      .order('created_at', { ascending: false })
-      .limit(1)
-      .maybeSingle();
+      .order('review_date', { ascending: true });
 
-    // Calculate parameters from last performance or defaults
-    const currentInterval = lastPerformance?.next_interval_days || 1;
-    const currentEaseFactor = lastPerformance?.ease_factor || 2.5;
-    const repetitionNumber = (lastPerformance?.repetition_number || 0) + 1;
+    if (historyError) handleDbError(historyError);
 
     // Check for cramming
     const { data: crammingData } = await this.supabaseClient.rpc(
@@ -105,24 +108,26 @@ class SRSService {
     );
 
     const isCramming = crammingData?.[0]?.is_cramming || false;
-    let adjustedEaseFactor = currentEaseFactor;
-    if (isCramming) {
-      adjustedEaseFactor = Math.max(1.3, currentEaseFactor - 0.1);
-    }
 
-    // Calculate next interval using SM-2 algorithm
-    const { data: calculation, error: calcError } =
-      await this.supabaseClient.rpc('calculate_next_srs_interval', {
-        p_quality_rating: quality_rating,
-        p_current_interval: currentInterval,
-        p_ease_factor: adjustedEaseFactor,
-        p_repetition_number: repetitionNumber,
-      });
-
-    if (calcError) handleDbError(calcError);
+    // Calculate next interval with the user's scheduler (SM-2 or FSRS)
+    const scheduler = createSRSScheduler(
+      await getSRSSchedulerSettings(this.supabaseClient, this.user.id),
+      this.supabaseClient,
+    );
 
-    const nextInterval = calculation[0]?.next_interval || 1;
-    const newEaseFactor = calculation[0]?.new_ease_factor || 2.5;
+    let schedule: SRSScheduleResult;
+    try {
+      schedule = await scheduler.schedule(
+        (history ?? []) as SRSReviewRecord[],
+        {
+          qualityRating: quality_rating,
+          reviewedAt: new Date(),
+          isCramming,
+        },
+      );
+    } catch (calcError) {
+      handleDbError(calcError);
+    }
 
     // Insert new performance record (not update - each review is a new record)
     const { data: srsRecord, error: createError } = await this.supabaseClient
@@ -134,10 +139,14 @@ class SRSService {
         review_date: new Date().toISOString(),
         quality_rating: quality_rating,
         response_time_seconds: response_time_seconds,
-        ease_factor: newEaseFactor,
-        interval_days: currentInterval,
-        next_interval_days: nextInterval,
-        repetition_number: repetitionNumber,
+        ease_factor: schedule.easeFactor,
+        interval_days: schedule.intervalDays,
+        next_interval_days: schedule.nextIntervalDays,
+        repetition_number: schedule.repetitionNumber,
+        scheduler: schedule.scheduler,
+        stability: schedule.stability,
+        difficulty: schedule.difficulty,
+        retrievability: schedule.retrievability,
       })
       .select()
       .single();
@@ -233,7 +242,7 @@ class SRSService {
     // Verify session ownership
     const { data: session, error: sessionError } = await this.supabaseClient
       .from('study_sessions')
-      .select('id, topic')
+      .select('id, topic, course_id, exam_id')
       .eq('id', session_id)
       .eq('user_id', this.user.id)
       .single();
@@ -246,6 +255,19 @@ class SRSService {
       );
     }
 
+    const reviewDeadline = await getReviewDeadline(
+      this.supabaseClient,
+      this.user.id,
+      session,
+    );
+    if (reviewDeadline && new Date(next_review_date) > reviewDeadline) {
+      throw new AppError(
+        'Reviews cannot be scheduled after the end of the term or the exam',
+        400,
+        ERROR_CODES.VALIDATION_ERROR,
+      );
+    }
+
     // Schedule reminder in reminders table (not srs_performance)
     const { data: reminder, error: reminderError } = await this.supabaseClient
       .from('reminders')
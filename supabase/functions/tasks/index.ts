@@ -24,10 +24,7 @@ import {
 } from '../_shared/function-handler.ts';
 import { ERROR_CODES } from '../_shared/error-codes.ts';
 import { z } from 'zod';
-import {
-  initializeEventDrivenArchitecture,
-  DatabaseEventEmitter,
-} from '../_shared/event-driven-architecture.ts';
+import { initializeEventDrivenArchitecture } from '../_shared/event-driven-architecture.ts';
 
 // Schemas for validation
 const CreateAssignmentSchema = z.object({
@@ -94,15 +91,6 @@ class TaskService {
     if (error)
       throw new AppError(error.message, 500, 'ASSIGNMENT_CREATE_ERROR');
 
-    // Emit event
-    const eventEmitter = new DatabaseEventEmitter(this.supabaseClient);
-    await eventEmitter.emitTaskCompleted({
-      taskId: assignment.id,
-      taskType: 'assignment',
-      userId,
-      completedAt: new Date().toISOString(),
-    });
-
     return assignment;
   }
 
@@ -155,15 +143,6 @@ class TaskService {
 
     if (error) throw new AppError(error.message, 500, 'LECTURE_CREATE_ERROR');
 
-    // Emit event
-    const eventEmitter = new DatabaseEventEmitter(this.supabaseClient);
-    await eventEmitter.emitTaskCompleted({
-      taskId: lecture.id,
-      taskType: 'lecture',
-      userId,
-      completedAt: new Date().toISOString(),
-    });
-
     return lecture;
   }
 
@@ -214,15 +193,6 @@ class TaskService {
     if (error)
       throw new AppError(error.message, 500, 'STUDY_SESSION_CREATE_ERROR');
 
-    // Emit event
-    const eventEmitter = new DatabaseEventEmitter(this.supabaseClient);
-    await eventEmitter.emitTaskCompleted({
-      taskId: session.id,
-      taskType: 'study_session',
-      userId,
-      completedAt: new Date().toISOString(),
-    });
-
     return session;
   }
 
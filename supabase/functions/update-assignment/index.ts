@@ -5,16 +5,23 @@ import {
   AppError,
 } from '../_shared/function-handler.ts';
 import { ERROR_CODES } from '../_shared/error-codes.ts';
-import { handleDbError } from '../api-v2/_handler-utils.ts';
+import {
+  handleDbError,
+  updateWithVersionCheck,
+} from '../api-v2/_handler-utils.ts';
 import { logger } from '../_shared/logging.ts';
 import { extractTraceContext } from '../_shared/tracing.ts';
 import { UpdateAssignmentSchema } from '../_shared/schemas/assignment.ts';
 import { encrypt } from '../_shared/encryption.ts';
+import {
+  DatabaseEventEmitter,
+  initializeEventDrivenArchitecture,
+} from '../_shared/event-driven-architecture.ts';
 
 async function handleUpdateAssignment(req: AuthenticatedRequest) {
   const { user, supabaseClient, body } = req;
   const traceContext = extractTraceContext(req as unknown as Request);
-  const { assignment_id, ...updates } = body;
+  const { assignment_id, expected_version, ...updates } = body;
   const encryptionKey = Deno.env.get('ENCRYPTION_KEY');
   if (!encryptionKey)
     throw new AppError(
@@ -32,7 +39,7 @@ async function handleUpdateAssignment(req: AuthenticatedRequest) {
   // SECURITY: Verify ownership before updating
   const { data: existing, error: checkError } = await supabaseClient
     .from('assignments')
-    .select('id')
+    .select('id, status')
     .eq('id', assignment_id)
     .eq('user_id', user.id)
     .single();
@@ -60,17 +67,25 @@ async function handleUpdateAssignment(req: AuthenticatedRequest) {
     );
   }
 
-  const { data, error: updateError } = await supabaseClient
-    .from('assignments')
-    .update({
-      ...encryptedUpdates,
-      updated_at: new Date().toISOString(),
-    })
-    .eq('id', assignment_id)
-    .select()
-    .single();
+  // Rejected with VERSION_CONFLICT if the row changed since the client read it
+  const data = await updateWithVersionCheck(
+    supabaseClient,
+    'assignments',
+    assignment_id,
+    user.id,
+    { ...encryptedUpdates, updated_at: new Date().toISOString() },
+    expected_version,
+  );
 
-  if (updateError) throw handleDbError(updateError);
+  if (updates.status === 'completed' && existing.status !== 'completed') {
+    initializeEventDrivenArchitecture(supabaseClient);
+    await new DatabaseEventEmitter(supabaseClient).emitTaskCompleted({
+      taskId: assignment_id,
+      taskType: 'assignment',
+      userId: user.id,
+      completedAt: new Date().toISOString(),
+    });
+  }
 
   await logger.info(
     'Successfully updated assignment',
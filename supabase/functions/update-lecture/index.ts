@@ -5,16 +5,23 @@ import {
   AppError,
 } from '../_shared/function-handler.ts';
 import { ERROR_CODES } from '../_shared/error-codes.ts';
-import { handleDbError } from '../api-v2/_handler-utils.ts';
+import {
+  handleDbError,
+  updateWithVersionCheck,
+} from '../api-v2/_handler-utils.ts';
 import { logger } from '../_shared/logging.ts';
 import { extractTraceContext } from '../_shared/tracing.ts';
 import { UpdateLectureSchema } from '../_shared/schemas/lecture.ts';
 import { encrypt } from '../_shared/encryption.ts';
+import {
+  DatabaseEventEmitter,
+  initializeEventDrivenArchitecture,
+} from '../_shared/event-driven-architecture.ts';
 
 async function handleUpdateLecture(req: AuthenticatedRequest) {
   const { user, supabaseClient, body } = req;
   const traceContext = extractTraceContext(req as unknown as Request);
-  const { lecture_id, ...updates } = body;
+  const { lecture_id, expected_version, ...updates } = body;
   const encryptionKey = Deno.env.get('ENCRYPTION_KEY');
   if (!encryptionKey)
     throw new AppError(
@@ -32,7 +39,7 @@ async function handleUpdateLecture(req: AuthenticatedRequest) {
   // SECURITY: Verify ownership before updating
   const { data: existing, error: checkError } = await supabaseClient
     .from('lectures')
-    .select('id')
+    .select('id, status')
     .eq('id', lecture_id)
     .eq('user_id', user.id)
     .single();
@@ -50,6 +57,10 @@ async function handleUpdateLecture(req: AuthenticatedRequest) {
 
   // Encrypt fields if they are being updated
   const encryptedUpdates = { ...updates };
+  // lecture_date mirrors the start time, which is what the calendar groups by
+  if (updates.start_time) {
+    encryptedUpdates.lecture_date = updates.start_time;
+  }
   if (updates.lecture_name) {
     encryptedUpdates.lecture_name = await encrypt(
       updates.lecture_name,
@@ -63,17 +74,25 @@ async function handleUpdateLecture(req: AuthenticatedRequest) {
     );
   }
 
-  const { data, error: updateError } = await supabaseClient
-    .from('lectures')
-    .update({
-      ...encryptedUpdates,
-      updated_at: new Date().toISOString(),
-    })
-    .eq('id', lecture_id)
-    .select()
-    .single();
+  // Rejected with VERSION_CONFLICT if the row changed since the client read it
+  const data = await updateWithVersionCheck(
+    supabaseClient,
+    'lectures',
+    lecture_id,
+    user.id,
+    { ...encryptedUpdates, updated_at: new Date().toISOString() },
+    expected_version,
+  );
 
-  if (updateError) throw handleDbError(updateError);
+  if (updates.status === 'completed' && existing.status !== 'completed') {
+    initializeEventDrivenArchitecture(supabaseClient);
+    await new DatabaseEventEmitter(supabaseClient).emitTaskCompleted({
+      taskId: lecture_id,
+      taskType: 'lecture',
+      userId: user.id,
+      completedAt: new Date().toISOString(),
+    });
+  }
 
   await logger.info(
     'Successfully updated lecture',
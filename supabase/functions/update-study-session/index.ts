@@ -5,16 +5,23 @@ import {
   AppError,
 } from '../_shared/function-handler.ts';
 import { ERROR_CODES } from '../_shared/error-codes.ts';
-import { handleDbError } from '../api-v2/_handler-utils.ts';
+import {
+  handleDbError,
+  updateWithVersionCheck,
+} from '../api-v2/_handler-utils.ts';
 import { logger } from '../_shared/logging.ts';
 import { extractTraceContext } from '../_shared/tracing.ts';
 import { UpdateStudySessionSchema } from '../_shared/schemas/studySession.ts';
 import { encrypt } from '../_shared/encryption.ts';
+import {
+  DatabaseEventEmitter,
+  initializeEventDrivenArchitecture,
+} from '../_shared/event-driven-architecture.ts';
 
 async function handleUpdateStudySession(req: AuthenticatedRequest) {
   const { user, supabaseClient, body } = req;
   const traceContext = extractTraceContext(req as unknown as Request);
-  const { session_id, ...updates } = body;
+  const { study_session_id: session_id, expected_version, ...updates } = body;
   const encryptionKey = Deno.env.get('ENCRYPTION_KEY');
   if (!encryptionKey)
     throw new AppError(
@@ -32,7 +39,7 @@ async function handleUpdateStudySession(req: AuthenticatedRequest) {
   // SECURITY: Verify ownership before updating
   const { data: existing, error: checkError } = await supabaseClient
     .from('study_sessions')
-    .select('id')
+    .select('id, status')
     .eq('id', session_id)
     .eq('user_id', user.id)
     .single();
@@ -57,17 +64,25 @@ async function handleUpdateStudySession(req: AuthenticatedRequest) {
     encryptedUpdates.notes = await encrypt(updates.notes, encryptionKey);
   }
 
-  const { data, error: updateError } = await supabaseClient
-    .from('study_sessions')
-    .update({
-      ...encryptedUpdates,
-      updated_at: new Date().toISOString(),
-    })
-    .eq('id', session_id)
-    .select()
-    .single();
+  // Rejected with VERSION_CONFLICT if the row changed since the client read it
+  const data = await updateWithVersionCheck(
+    supabaseClient,
+    'study_sessions',
+    session_id,
+    user.id,
+    { ...encryptedUpdates, updated_at: new Date().toISOString() },
+    expected_version,
+  );
 
-  if (updateError) throw handleDbError(updateError);
+  if (updates.status === 'completed' && existing.status !== 'completed') {
+    initializeEventDrivenArchitecture(supabaseClient);
+    await new DatabaseEventEmitter(supabaseClient).emitTaskCompleted({
+      taskId: session_id,
+      taskType: 'study_session',
+      userId: user.id,
+      completedAt: new Date().toISOString(),
+    });
+  }
 
   await logger.info(
     'Successfully updated study session',
@@ -0,0 +1,45 @@
+-- Create calendar feed tokens for iCalendar (.ics) subscriptions
+-- Calendar apps (Google, Apple, Outlook) cannot send a Supabase JWT, so the
+-- subscription feed is authorized by an opaque per-user token in the URL.
+
+CREATE TABLE IF NOT EXISTS public.calendar_feed_tokens (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  token TEXT NOT NULL UNIQUE,
+  last_accessed_at TIMESTAMPTZ,
+  revoked_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- Only one active token per user; rotating revokes the previous one
+CREATE UNIQUE INDEX IF NOT EXISTS idx_calendar_feed_tokens_active_user
+  ON public.calendar_feed_tokens(user_id)
+  WHERE revoked_at IS NULL;
+
+COMMENT ON TABLE public.calendar_feed_tokens IS 'Per-user secret tokens authorizing the read-only iCalendar subscription feed';
+COMMENT ON COLUMN public.calendar_feed_tokens.token IS 'Random 256-bit hex token embedded in the feed URL';
+COMMENT ON COLUMN public.calendar_feed_tokens.revoked_at IS 'Set when the user rotates or disables the feed (null if active)';
+
+-- Enable RLS
+ALTER TABLE public.calendar_feed_tokens ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own calendar feed tokens"
+  ON public.calendar_feed_tokens
+  FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create own calendar feed tokens"
+  ON public.calendar_feed_tokens
+  FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can revoke own calendar feed tokens"
+  ON public.calendar_feed_tokens
+  FOR UPDATE
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Service role can manage calendar feed tokens"
+  ON public.calendar_feed_tokens
+  FOR ALL
+  USING (auth.jwt() ->> 'role' = 'service_role');
@@ -0,0 +1,37 @@
+-- Add FSRS as an alternative SRS scheduler to SM-2
+-- Each srs_performance row records which scheduler produced it. FSRS rows also
+-- store the memory state (stability/difficulty) after the review, so the next
+-- review can continue from it. Sessions with only SM-2 history are seeded by
+-- replaying their quality ratings through FSRS on the first FSRS review.
+
+ALTER TABLE public.srs_performance
+ADD COLUMN IF NOT EXISTS scheduler TEXT NOT NULL DEFAULT 'sm2'
+  CHECK (scheduler IN ('sm2', 'fsrs')),
+ADD COLUMN IF NOT EXISTS stability NUMERIC CHECK (stability > 0),
+ADD COLUMN IF NOT EXISTS difficulty NUMERIC CHECK (difficulty >= 1 AND difficulty <= 10),
+ADD COLUMN IF NOT EXISTS retrievability NUMERIC CHECK (retrievability >= 0 AND retrievability <= 1);
+
+COMMENT ON COLUMN public.srs_performance.scheduler IS 'Scheduling algorithm that calculated next_interval_days (sm2 or fsrs)';
+COMMENT ON COLUMN public.srs_performance.stability IS 'FSRS: days until recall probability drops to 90% after this review';
+COMMENT ON COLUMN public.srs_performance.difficulty IS 'FSRS: item difficulty from 1 (easy) to 10 (hard) after this review';
+COMMENT ON COLUMN public.srs_performance.retrievability IS 'FSRS: estimated recall probability at the time of this review';
+
+-- Scheduler choice and FSRS retention target live in srs_preferences
+ALTER TABLE public.users
+ALTER COLUMN srs_preferences SET DEFAULT '{
+  "preferredStudyTimes": [],
+  "difficultyAdjustment": "moderate",
+  "reminderFrequency": "standard",
+  "learningStyle": "mixed",
+  "customIntervals": [],
+  "timezone": "UTC",
+  "algorithm": "sm2",
+  "desiredRetention": 0.9
+}'::jsonb;
+
+-- Existing users keep SM-2 until they opt in
+UPDATE public.users
+SET srs_preferences = jsonb_build_object('algorithm', 'sm2', 'desiredRetention', 0.9)
+  || srs_preferences
+WHERE srs_preferences IS NOT NULL
+  AND NOT (srs_preferences ? 'algorithm' AND srs_preferences ? 'desiredRetention');
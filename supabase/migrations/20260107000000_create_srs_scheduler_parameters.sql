@@ -0,0 +1,126 @@
+-- Per-user FSRS parameters fitted from each user's srs_performance review log
+-- The optimize-fsrs-parameters job (process-jobs) writes a new version whenever
+-- a fit beats the default weights. Schedulers use the latest version.
+
+CREATE TABLE IF NOT EXISTS public.srs_scheduler_parameters (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  algorithm TEXT NOT NULL DEFAULT 'fsrs' CHECK (algorithm IN ('fsrs')),
+  version INTEGER NOT NULL CHECK (version > 0),
+  parameters JSONB NOT NULL,
+  review_count INTEGER NOT NULL,
+  log_loss NUMERIC NOT NULL,
+  default_log_loss NUMERIC NOT NULL,
+  predicted_retention NUMERIC NOT NULL CHECK (predicted_retention >= 0 AND predicted_retention <= 1),
+  actual_retention NUMERIC NOT NULL CHECK (actual_retention >= 0 AND actual_retention <= 1),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (user_id, algorithm, version)
+);
+
+CREATE INDEX IF NOT EXISTS idx_srs_scheduler_parameters_latest
+  ON public.srs_scheduler_parameters(user_id, algorithm, version DESC);
+
+COMMENT ON TABLE public.srs_scheduler_parameters IS 'Versioned per-user scheduler weights fitted from srs_performance';
+COMMENT ON COLUMN public.srs_scheduler_parameters.parameters IS 'FSRS weight vector (17 numbers)';
+COMMENT ON COLUMN public.srs_scheduler_parameters.review_count IS 'Number of reviews in the log when the parameters were fitted';
+COMMENT ON COLUMN public.srs_scheduler_parameters.log_loss IS 'Recall prediction log loss with the fitted parameters';
+COMMENT ON COLUMN public.srs_scheduler_parameters.default_log_loss IS 'Recall prediction log loss with the default parameters, for comparison';
+COMMENT ON COLUMN public.srs_scheduler_parameters.predicted_retention IS 'Mean predicted recall probability over the fitted reviews';
+COMMENT ON COLUMN public.srs_scheduler_parameters.actual_retention IS 'Share of fitted reviews that were recalled (quality_rating >= 3)';
+
+-- Enable RLS (written by the service role only)
+ALTER TABLE public.srs_scheduler_parameters ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own scheduler parameters"
+  ON public.srs_scheduler_parameters
+  FOR SELECT
+  USING (auth.uid() = user_id);
+
+-- Users with enough new reviews since their last fit, in user_id order so the
+-- job can page through them
+CREATE OR REPLACE FUNCTION public.get_fsrs_optimization_candidates(
+  p_min_reviews INTEGER,
+  p_min_new_reviews INTEGER,
+  p_after_user_id UUID DEFAULT NULL,
+  p_limit INTEGER DEFAULT 10
+)
+RETURNS TABLE (user_id UUID, review_count BIGINT)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT counts.user_id, counts.review_count
+  FROM (
+    SELECT sp.user_id, COUNT(*) AS review_count
+    FROM public.srs_performance sp
+    WHERE p_after_user_id IS NULL OR sp.user_id > p_after_user_id
+    GROUP BY sp.user_id
+  ) counts
+  LEFT JOIN LATERAL (
+    SELECT params.review_count
+    FROM public.srs_scheduler_parameters params
+    WHERE params.user_id = counts.user_id
+      AND params.algorithm = 'fsrs'
+    ORDER BY params.version DESC
+    LIMIT 1
+  ) latest ON TRUE
+  WHERE counts.review_count >= p_min_reviews
+    AND counts.review_count - COALESCE(latest.review_count, 0) >= p_min_new_reviews
+  ORDER BY counts.user_id
+  LIMIT p_limit;
+$$;
+
+REVOKE ALL ON FUNCTION public.get_fsrs_optimization_candidates(INTEGER, INTEGER, UUID, INTEGER) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.get_fsrs_optimization_candidates(INTEGER, INTEGER, UUID, INTEGER) TO service_role;
+
+-- Ensure pg_cron extension exists
+CREATE EXTENSION IF NOT EXISTS pg_cron WITH SCHEMA cron;
+
+-- Enqueue the optimization weekly (Sundays at 5 AM UTC), and run the job
+-- queue processor every 5 minutes
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM cron.job
+    WHERE jobname = 'enqueue-fsrs-optimization-weekly'
+  ) THEN
+    PERFORM cron.schedule(
+      'enqueue-fsrs-optimization-weekly',
+      '0 5 * * 0',
+      $sql$
+      INSERT INTO public.job_queue (job_name, job_data)
+      VALUES ('optimize-fsrs-parameters', '{}'::jsonb);
+      $sql$
+    );
+
+    RAISE NOTICE 'Cron job enqueue-fsrs-optimization-weekly scheduled successfully (Sundays at 5 AM UTC)';
+  ELSE
+    RAISE NOTICE 'Cron job enqueue-fsrs-optimization-weekly already exists, skipping creation';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM cron.job
+    WHERE jobname = 'process-jobs'
+  ) THEN
+    PERFORM cron.schedule(
+      'process-jobs',
+      '*/5 * * * *', -- Every 5 minutes
+      $sql$
+      SELECT
+        net.http_post(
+          url := 'https://oqwyoucchbjiyddnznwf.supabase.co/functions/v1/process-jobs',
+          headers := jsonb_build_object(
+            'Content-Type', 'application/json',
+            'Authorization', 'Bearer ' || current_setting('app.settings.cron_secret', true)
+          ),
+          body := '{}'::jsonb
+        ) AS request_id;
+      $sql$
+    );
+
+    RAISE NOTICE 'Cron job process-jobs scheduled successfully (every 5 minutes)';
+  ELSE
+    RAISE NOTICE 'Cron job process-jobs already exists, skipping creation';
+  END IF;
+END $$;
@@ -0,0 +1,58 @@
+-- Row versions for optimistic concurrency on offline edits
+-- Every update bumps version and updated_at. Clients send the version they
+-- edited from as expected_version; api-v2 rejects the update with
+-- VERSION_CONFLICT if the row has moved on, and the client's SyncManager
+-- merges or asks the user instead of overwriting the newer edit.
+
+ALTER TABLE public.courses
+ADD COLUMN IF NOT EXISTS version INTEGER NOT NULL DEFAULT 1;
+
+ALTER TABLE public.assignments
+ADD COLUMN IF NOT EXISTS version INTEGER NOT NULL DEFAULT 1,
+ADD COLUMN IF NOT EXISTS updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW();
+
+ALTER TABLE public.lectures
+ADD COLUMN IF NOT EXISTS version INTEGER NOT NULL DEFAULT 1,
+ADD COLUMN IF NOT EXISTS updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW();
+
+ALTER TABLE public.study_sessions
+ADD COLUMN IF NOT EXISTS version INTEGER NOT NULL DEFAULT 1,
+ADD COLUMN IF NOT EXISTS updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW();
+
+COMMENT ON COLUMN public.courses.version IS 'Incremented on every update; used for optimistic concurrency';
+COMMENT ON COLUMN public.assignments.version IS 'Incremented on every update; used for optimistic concurrency';
+COMMENT ON COLUMN public.lectures.version IS 'Incremented on every update; used for optimistic concurrency';
+COMMENT ON COLUMN public.study_sessions.version IS 'Incremented on every update; used for optimistic concurrency';
+
+CREATE OR REPLACE FUNCTION public.bump_row_version()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.version = OLD.version + 1;
+  NEW.updated_at = NOW();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS bump_courses_version ON public.courses;
+CREATE TRIGGER bump_courses_version
+  BEFORE UPDATE ON public.courses
+  FOR EACH ROW
+  EXECUTE FUNCTION public.bump_row_version();
+
+DROP TRIGGER IF EXISTS bump_assignments_version ON public.assignments;
+CREATE TRIGGER bump_assignments_version
+  BEFORE UPDATE ON public.assignments
+  FOR EACH ROW
+  EXECUTE FUNCTION public.bump_row_version();
+
+DROP TRIGGER IF EXISTS bump_lectures_version ON public.lectures;
+CREATE TRIGGER bump_lectures_version
+  BEFORE UPDATE ON public.lectures
+  FOR EACH ROW
+  EXECUTE FUNCTION public.bump_row_version();
+
+DROP TRIGGER IF EXISTS bump_study_sessions_version ON public.study_sessions;
+CREATE TRIGGER bump_study_sessions_version
+  BEFORE UPDATE ON public.study_sessions
+  FOR EACH ROW
+  EXECUTE FUNCTION public.bump_row_version();
@@ -0,0 +1,43 @@
+-- Single-occurrence edits for recurring lectures
+-- lectures.recurring_pattern now holds an RFC 5545 recurrence set (an RRULE
+-- line plus an EXDATE line for cancelled occurrences); the legacy 'weekly'
+-- and 'bi-weekly' values are still understood. When one occurrence of a
+-- series is edited on its own ("this event"), the change is stored here,
+-- keyed by the start the occurrence has in the series.
+
+CREATE TABLE IF NOT EXISTS public.lecture_occurrence_overrides (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  lecture_id UUID NOT NULL REFERENCES public.lectures(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  occurrence_start TIMESTAMPTZ NOT NULL,
+  start_time TIMESTAMPTZ NOT NULL,
+  end_time TIMESTAMPTZ,
+  lecture_name TEXT,
+  description TEXT,
+  venue TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (lecture_id, occurrence_start)
+);
+
+CREATE INDEX IF NOT EXISTS idx_lecture_occurrence_overrides_user_start
+  ON public.lecture_occurrence_overrides(user_id, start_time);
+
+COMMENT ON TABLE public.lecture_occurrence_overrides IS 'Edits to a single occurrence of a recurring lecture (RFC 5545 RECURRENCE-ID)';
+COMMENT ON COLUMN public.lecture_occurrence_overrides.occurrence_start IS 'Start of the occurrence as generated by the series rule';
+COMMENT ON COLUMN public.lecture_occurrence_overrides.start_time IS 'Start of the occurrence after the edit';
+COMMENT ON COLUMN public.lecture_occurrence_overrides.lecture_name IS 'Replaces the series name for this occurrence (null keeps it)';
+
+-- Enable RLS
+ALTER TABLE public.lecture_occurrence_overrides ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage own lecture occurrence overrides"
+  ON public.lecture_occurrence_overrides
+  FOR ALL
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Service role can manage lecture occurrence overrides"
+  ON public.lecture_occurrence_overrides
+  FOR ALL
+  USING (auth.jwt() ->> 'role' = 'service_role');
@@ -0,0 +1,51 @@
+-- Focus (Pomodoro) timer logs
+-- One row per focus timer run: the work/break cycles that were planned, the
+-- time actually spent focusing and on breaks, and what interrupted the user.
+-- Weekly analytics read real study time from here instead of inferring it.
+
+CREATE TABLE IF NOT EXISTS public.focus_logs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  study_session_id UUID REFERENCES public.study_sessions(id) ON DELETE SET NULL,
+  started_at TIMESTAMPTZ NOT NULL,
+  ended_at TIMESTAMPTZ NOT NULL,
+  work_minutes INTEGER NOT NULL CHECK (work_minutes > 0),
+  short_break_minutes INTEGER NOT NULL CHECK (short_break_minutes >= 0),
+  long_break_minutes INTEGER NOT NULL CHECK (long_break_minutes >= 0),
+  planned_cycles INTEGER NOT NULL CHECK (planned_cycles > 0),
+  completed_cycles INTEGER NOT NULL DEFAULT 0 CHECK (completed_cycles >= 0),
+  focused_seconds INTEGER NOT NULL DEFAULT 0 CHECK (focused_seconds >= 0),
+  break_seconds INTEGER NOT NULL DEFAULT 0 CHECK (break_seconds >= 0),
+  interruption_count INTEGER NOT NULL DEFAULT 0 CHECK (interruption_count >= 0),
+  interruptions JSONB NOT NULL DEFAULT '[]'::jsonb,
+  status TEXT NOT NULL CHECK (status IN ('completed', 'stopped')),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CHECK (ended_at >= started_at)
+);
+
+CREATE INDEX IF NOT EXISTS idx_focus_logs_user_started
+  ON public.focus_logs(user_id, started_at);
+
+CREATE INDEX IF NOT EXISTS idx_focus_logs_study_session
+  ON public.focus_logs(study_session_id)
+  WHERE study_session_id IS NOT NULL;
+
+COMMENT ON TABLE public.focus_logs IS 'Timed focus (Pomodoro) runs with real focused/break durations and interruptions';
+COMMENT ON COLUMN public.focus_logs.completed_cycles IS 'Work phases run to the end';
+COMMENT ON COLUMN public.focus_logs.focused_seconds IS 'Time spent in work phases, pauses excluded';
+COMMENT ON COLUMN public.focus_logs.interruptions IS 'Array of {reason, started_at, ended_at}; reason is paused or left_app';
+COMMENT ON COLUMN public.focus_logs.status IS 'completed: every planned cycle ran; stopped: ended early';
+
+-- Enable RLS
+ALTER TABLE public.focus_logs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage own focus logs"
+  ON public.focus_logs
+  FOR ALL
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Service role can manage focus logs"
+  ON public.focus_logs
+  FOR ALL
+  USING (auth.jwt() ->> 'role' = 'service_role');
@@ -0,0 +1,28 @@
+-- Grade tracking
+-- Assignments record the score the user got and how much they count towards
+-- the course grade. Each course has a grading scheme: weighted categories
+-- (e.g. Homework 20%, Exams 50%) and the letter-grade boundaries used to turn
+-- a percentage into a letter and grade points. Credits weight the course in
+-- the GPA.
+
+ALTER TABLE public.assignments
+ADD COLUMN IF NOT EXISTS score NUMERIC CHECK (score >= 0),
+ADD COLUMN IF NOT EXISTS max_score NUMERIC CHECK (max_score > 0),
+ADD COLUMN IF NOT EXISTS weight NUMERIC CHECK (weight >= 0 AND weight <= 100),
+ADD COLUMN IF NOT EXISTS grade_category TEXT;
+
+COMMENT ON COLUMN public.assignments.score IS 'Points received; NULL until graded';
+COMMENT ON COLUMN public.assignments.max_score IS 'Points possible';
+COMMENT ON COLUMN public.assignments.weight IS 'Percent of the course grade; NULL shares the grade category weight equally';
+COMMENT ON COLUMN public.assignments.grade_category IS 'id of a category in courses.grading_scheme';
+
+ALTER TABLE public.courses
+ADD COLUMN IF NOT EXISTS grading_scheme JSONB,
+ADD COLUMN IF NOT EXISTS credits NUMERIC CHECK (credits >= 0);
+
+COMMENT ON COLUMN public.courses.grading_scheme IS '{categories: [{id, name, weight}], letter_grades: [{letter, min_percent, grade_points}]}; NULL uses the default letter scale';
+COMMENT ON COLUMN public.courses.credits IS 'Credit hours used to weight the course in the GPA';
+
+CREATE INDEX IF NOT EXISTS idx_assignments_course_graded
+  ON public.assignments(course_id)
+  WHERE score IS NOT NULL AND deleted_at IS NULL;
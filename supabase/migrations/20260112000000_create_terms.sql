@@ -0,0 +1,218 @@
+-- Academic terms
+-- A term (semester, quarter, ...) has a start and end date and optional
+-- breaks (e.g. spring break). Courses belong to at most one term. Archiving a
+-- term hides its courses and their tasks from the home screen and calendar
+-- without deleting anything; unarchiving brings them back.
+-- Recurring lectures are only expanded inside their course's term, skipping
+-- breaks, and SRS reviews are not scheduled past the term's end.
+
+CREATE TABLE IF NOT EXISTS public.terms (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  name TEXT NOT NULL CHECK (char_length(name) BETWEEN 1 AND 100),
+  start_date DATE NOT NULL,
+  end_date DATE NOT NULL,
+  breaks JSONB NOT NULL DEFAULT '[]'::jsonb,
+  archived_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CHECK (end_date >= start_date)
+);
+
+CREATE INDEX IF NOT EXISTS idx_terms_user_start
+  ON public.terms(user_id, start_date);
+
+COMMENT ON TABLE public.terms IS 'Academic terms (semesters, quarters) that group and bound courses';
+COMMENT ON COLUMN public.terms.start_date IS 'First day of the term, in the user''s time zone';
+COMMENT ON COLUMN public.terms.end_date IS 'Last day of the term (inclusive), in the user''s time zone';
+COMMENT ON COLUMN public.terms.breaks IS 'Array of {name, start_date, end_date}; no lectures are expanded on these days';
+COMMENT ON COLUMN public.terms.archived_at IS 'Set when archived; courses in archived terms are hidden from home and calendar';
+
+DROP TRIGGER IF EXISTS update_terms_updated_at ON public.terms;
+CREATE TRIGGER update_terms_updated_at
+  BEFORE UPDATE ON public.terms
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Enable RLS
+ALTER TABLE public.terms ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage own terms"
+  ON public.terms
+  FOR ALL
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Service role can manage terms"
+  ON public.terms
+  FOR ALL
+  USING (auth.jwt() ->> 'role' = 'service_role');
+
+ALTER TABLE public.courses
+ADD COLUMN IF NOT EXISTS term_id UUID REFERENCES public.terms(id) ON DELETE SET NULL;
+
+COMMENT ON COLUMN public.courses.term_id IS 'Term the course belongs to; NULL for courses outside any term';
+
+CREATE INDEX IF NOT EXISTS idx_courses_term
+  ON public.courses(term_id)
+  WHERE term_id IS NOT NULL;
+
+-- True when the course belongs to an archived term; false for NULL courses
+CREATE OR REPLACE FUNCTION public.is_course_in_archived_term(p_course_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.courses c
+    JOIN public.terms t ON t.id = c.term_id
+    WHERE c.id = p_course_id
+      AND t.archived_at IS NOT NULL
+  );
+$$;
+
+-- Home screen data without tasks from archived terms
+CREATE OR REPLACE FUNCTION "public"."get_home_screen_data_for_user"("p_user_id" "uuid") RETURNS "jsonb"
+    LANGUAGE "plpgsql"
+    AS $$
+DECLARE
+  next_upcoming_task JSONB;
+  today_overview JSONB;
+  monthly_task_count INTEGER;
+  today_start TIMESTAMP;
+  today_end TIMESTAMP;
+  month_start TIMESTAMP;
+BEGIN
+  -- Set date ranges
+  today_start := DATE_TRUNC('day', NOW());
+  today_end := today_start + INTERVAL '1 day';
+  month_start := NOW() - INTERVAL '30 days';
+
+  -- 1. Get the next upcoming task (single task, not array)
+  WITH all_tasks AS (
+    -- Lectures
+    SELECT
+      id,
+      'lecture' AS type,
+      lecture_name AS title,
+      start_time,
+      end_time,
+      course_id,
+      created_at
+    FROM lectures
+    WHERE user_id = p_user_id
+      AND deleted_at IS NULL
+      AND start_time > NOW()
+
+    UNION ALL
+
+    -- Assignments
+    SELECT
+      id,
+      'assignment' AS type,
+      title,
+      due_date AS start_time,
+      NULL AS end_time,
+      course_id,
+      created_at
+    FROM assignments
+    WHERE user_id = p_user_id
+      AND deleted_at IS NULL
+      AND due_date > NOW()
+
+    UNION ALL
+
+    -- Study Sessions
+    SELECT
+      id,
+      'study_session' AS type,
+      topic AS title,
+      session_date AS start_time,
+      NULL AS end_time,
+      course_id,
+      created_at
+    FROM study_sessions
+    WHERE user_id = p_user_id
+      AND deleted_at IS NULL
+      AND session_date > NOW()
+  )
+  SELECT to_jsonb(t)
+  INTO next_upcoming_task
+  FROM (
+    SELECT
+      t.id,
+      t.type,
+      t.title,
+      t.start_time,
+      t.end_time,
+      c.course_name,
+      c.course_code
+    FROM all_tasks t
+    JOIN courses c ON t.course_id = c.id
+    LEFT JOIN terms tm ON tm.id = c.term_id
+    WHERE tm.archived_at IS NULL
+    ORDER BY t.start_time ASC
+    LIMIT 1
+  ) t;
+
+  -- 2. Calculate today's overview (counts for today)
+  SELECT jsonb_build_object(
+    'lectures', COALESCE((
+      SELECT COUNT(*)::INTEGER
+      FROM lectures
+      WHERE user_id = p_user_id
+        AND deleted_at IS NULL
+        AND DATE(start_time) = DATE(NOW())
+        AND NOT public.is_course_in_archived_term(course_id)
+    ), 0),
+    'studySessions', COALESCE((
+      SELECT COUNT(*)::INTEGER
+      FROM study_sessions
+      WHERE user_id = p_user_id
+        AND deleted_at IS NULL
+        AND DATE(session_date) = DATE(NOW())
+        AND NOT public.is_course_in_archived_term(course_id)
+    ), 0),
+    'assignments', COALESCE((
+      SELECT COUNT(*)::INTEGER
+      FROM assignments
+      WHERE user_id = p_user_id
+        AND deleted_at IS NULL
+        AND DATE(due_date) = DATE(NOW())
+        AND NOT public.is_course_in_archived_term(course_id)
+    ), 0),
+    'reviews', 0  -- SRS reviews can be calculated separately if needed
+  ) INTO today_overview;
+
+  -- 3. Calculate monthly task count (tasks created in last 30 days)
+  SELECT COALESCE((
+    SELECT COUNT(*)::INTEGER
+    FROM (
+      SELECT id FROM lectures
+      WHERE user_id = p_user_id AND created_at >= month_start
+        AND NOT public.is_course_in_archived_term(course_id)
+      UNION ALL
+      SELECT id FROM assignments
+      WHERE user_id = p_user_id AND created_at >= month_start
+        AND NOT public.is_course_in_archived_term(course_id)
+      UNION ALL
+      SELECT id FROM study_sessions
+      WHERE user_id = p_user_id AND created_at >= month_start
+        AND NOT public.is_course_in_archived_term(course_id)
+    ) monthly_tasks
+  ), 0) INTO monthly_task_count;
+
+  -- 4. Return the correct structure matching HomeScreenData interface
+  RETURN jsonb_build_object(
+    'nextUpcomingTask', COALESCE(next_upcoming_task, NULL::jsonb),
+    'todayOverview', COALESCE(today_overview, jsonb_build_object(
+      'lectures', 0,
+      'studySessions', 0,
+      'assignments', 0,
+      'reviews', 0
+    )),
+    'monthlyTaskCount', monthly_task_count
+  );
+END;
+$$;
@@ -0,0 +1,45 @@
+-- Bulk edits with undo
+-- batch-action can reschedule, move, complete or soft-delete many tasks in
+-- one request. Each such batch saves the values it overwrote under an undo
+-- token; undoing the batch writes them back. Tokens are single-use and expire
+-- after an hour.
+-- Tasks also get the completion status the app already sends when a task is
+-- marked complete.
+
+ALTER TABLE public.assignments
+ADD COLUMN IF NOT EXISTS status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'completed'));
+
+ALTER TABLE public.lectures
+ADD COLUMN IF NOT EXISTS status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'completed'));
+
+ALTER TABLE public.study_sessions
+ADD COLUMN IF NOT EXISTS status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'completed'));
+
+CREATE TABLE IF NOT EXISTS public.batch_action_undo (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  action TEXT NOT NULL CHECK (action IN ('RESCHEDULE', 'MOVE_COURSE', 'COMPLETE', 'SOFT_DELETE')),
+  changes JSONB NOT NULL,
+  expires_at TIMESTAMPTZ NOT NULL DEFAULT NOW() + INTERVAL '1 hour',
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_batch_action_undo_user_expires
+  ON public.batch_action_undo(user_id, expires_at);
+
+COMMENT ON TABLE public.batch_action_undo IS 'Previous values of tasks changed by a bulk edit; the row id is the undo token';
+COMMENT ON COLUMN public.batch_action_undo.changes IS 'Array of {id, type, previous}; previous holds the overwritten columns';
+
+-- Enable RLS
+ALTER TABLE public.batch_action_undo ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage own batch undo tokens"
+  ON public.batch_action_undo
+  FOR ALL
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Service role can manage batch undo tokens"
+  ON public.batch_action_undo
+  FOR ALL
+  USING (auth.jwt() ->> 'role' = 'service_role');
@@ -0,0 +1,12 @@
+-- Assignment subtasks
+-- Long assignments (a term paper, a project) can be broken into an ordered
+-- checklist. Each subtask has a title, an optional due date and a completion
+-- time; the assignment's progress is the share of subtasks completed. The
+-- list is stored on the assignment so it is saved, synced and versioned with
+-- the rest of the row.
+
+ALTER TABLE public.assignments
+ADD COLUMN IF NOT EXISTS subtasks JSONB NOT NULL DEFAULT '[]'::jsonb
+  CHECK (jsonb_typeof(subtasks) = 'array');
+
+COMMENT ON COLUMN public.assignments.subtasks IS 'Ordered array of {id, title, due_date, completed_at}; completed_at is NULL until the subtask is checked off';
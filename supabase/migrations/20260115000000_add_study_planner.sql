@@ -0,0 +1,25 @@
+-- Study planner
+-- The planner fills free time before deadlines with study sessions. Each
+-- assignment can carry an effort estimate; accepted blocks are ordinary study
+-- sessions that remember the assignment they were planned for and the due
+-- date at the time, so a moved deadline or a missed block can be detected
+-- and the plan re-run.
+
+ALTER TABLE public.assignments
+ADD COLUMN IF NOT EXISTS estimated_minutes INTEGER
+  CHECK (estimated_minutes IS NULL OR estimated_minutes BETWEEN 15 AND 6000);
+
+ALTER TABLE public.study_sessions
+ADD COLUMN IF NOT EXISTS duration_minutes INTEGER
+  CHECK (duration_minutes IS NULL OR duration_minutes BETWEEN 5 AND 720),
+ADD COLUMN IF NOT EXISTS plan_assignment_id UUID REFERENCES public.assignments(id) ON DELETE SET NULL,
+ADD COLUMN IF NOT EXISTS plan_due_date TIMESTAMPTZ;
+
+CREATE INDEX IF NOT EXISTS idx_study_sessions_plan_assignment
+ON public.study_sessions(user_id, plan_assignment_id)
+WHERE plan_assignment_id IS NOT NULL AND deleted_at IS NULL;
+
+COMMENT ON COLUMN public.assignments.estimated_minutes IS 'How long the user expects the assignment to take; the study planner assumes a default when NULL';
+COMMENT ON COLUMN public.study_sessions.duration_minutes IS 'Planned length of the session; NULL for sessions without one';
+COMMENT ON COLUMN public.study_sessions.plan_assignment_id IS 'Assignment the study planner created this session for; NULL for sessions added by hand';
+COMMENT ON COLUMN public.study_sessions.plan_due_date IS 'Due date of plan_assignment_id when the session was planned; differs from it once the deadline moves';
@@ -0,0 +1,252 @@
+-- Exams
+-- An exam has a date, a duration, an optional location, the topics it
+-- covers and its weight in the course grade. Titles, topics and notes are
+-- encrypted like other task text.
+-- Revision for an exam is a set of ordinary study sessions linked through
+-- study_sessions.exam_id; their spaced-repetition reviews are never scheduled
+-- after the exam starts.
+
+CREATE TABLE IF NOT EXISTS public.exams (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  course_id UUID NOT NULL REFERENCES public.courses(id) ON DELETE CASCADE,
+  title TEXT NOT NULL,
+  exam_date TIMESTAMPTZ NOT NULL,
+  duration_minutes INTEGER NOT NULL DEFAULT 120
+    CHECK (duration_minutes BETWEEN 5 AND 720),
+  location TEXT,
+  topics TEXT[] NOT NULL DEFAULT '{}',
+  weight NUMERIC(5,2) CHECK (weight IS NULL OR (weight >= 0 AND weight <= 100)),
+  description TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  deleted_at TIMESTAMPTZ
+);
+
+CREATE INDEX IF NOT EXISTS idx_exams_user_date
+  ON public.exams(user_id, exam_date)
+  WHERE deleted_at IS NULL;
+
+COMMENT ON TABLE public.exams IS 'Exams with a countdown and an optional revision plan of study sessions';
+COMMENT ON COLUMN public.exams.title IS 'Encrypted exam title';
+COMMENT ON COLUMN public.exams.topics IS 'Encrypted topics the exam covers; each gets a revision session';
+COMMENT ON COLUMN public.exams.weight IS 'Percent of the course grade the exam is worth';
+COMMENT ON COLUMN public.exams.description IS 'Encrypted notes';
+
+DROP TRIGGER IF EXISTS update_exams_updated_at ON public.exams;
+CREATE TRIGGER update_exams_updated_at
+  BEFORE UPDATE ON public.exams
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Enable RLS
+ALTER TABLE public.exams ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage own exams"
+  ON public.exams
+  FOR ALL
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Service role can manage exams"
+  ON public.exams
+  FOR ALL
+  USING (auth.jwt() ->> 'role' = 'service_role');
+
+ALTER TABLE public.study_sessions
+ADD COLUMN IF NOT EXISTS exam_id UUID REFERENCES public.exams(id) ON DELETE SET NULL;
+
+COMMENT ON COLUMN public.study_sessions.exam_id IS 'Exam this session revises for; its reviews end when the exam starts';
+
+CREATE INDEX IF NOT EXISTS idx_study_sessions_exam
+  ON public.study_sessions(exam_id)
+  WHERE exam_id IS NOT NULL;
+
+ALTER TABLE public.reminders
+ADD COLUMN IF NOT EXISTS exam_id UUID REFERENCES public.exams(id) ON DELETE CASCADE;
+
+CREATE INDEX IF NOT EXISTS idx_reminders_exam
+  ON public.reminders(exam_id)
+  WHERE exam_id IS NOT NULL;
+
+ALTER TABLE public.reminders
+DROP CONSTRAINT IF EXISTS reminders_reminder_type_check;
+
+ALTER TABLE public.reminders
+ADD CONSTRAINT reminders_reminder_type_check CHECK (
+  reminder_type = ANY (ARRAY['study_session', 'lecture', 'assignment', 'exam', 'spaced_repetition'])
+);
+
+-- Home screen data with exams
+CREATE OR REPLACE FUNCTION "public"."get_home_screen_data_for_user"("p_user_id" "uuid") RETURNS "jsonb"
+    LANGUAGE "plpgsql"
+    AS $$
+DECLARE
+  next_upcoming_task JSONB;
+  today_overview JSONB;
+  monthly_task_count INTEGER;
+  today_start TIMESTAMP;
+  today_end TIMESTAMP;
+  month_start TIMESTAMP;
+BEGIN
+  -- Set date ranges
+  today_start := DATE_TRUNC('day', NOW());
+  today_end := today_start + INTERVAL '1 day';
+  month_start := NOW() - INTERVAL '30 days';
+
+  -- 1. Get the next upcoming task (single task, not array)
+  WITH all_tasks AS (
+    -- Lectures
+    SELECT
+      id,
+      'lecture' AS type,
+      lecture_name AS title,
+      start_time,
+      end_time,
+      course_id,
+      created_at
+    FROM lectures
+    WHERE user_id = p_user_id
+      AND deleted_at IS NULL
+      AND start_time > NOW()
+
+    UNION ALL
+
+    -- Assignments
+    SELECT
+      id,
+      'assignment' AS type,
+      title,
+      due_date AS start_time,
+      NULL AS end_time,
+      course_id,
+      created_at
+    FROM assignments
+    WHERE user_id = p_user_id
+      AND deleted_at IS NULL
+      AND due_date > NOW()
+
+    UNION ALL
+
+    -- Study Sessions
+    SELECT
+      id,
+      'study_session' AS type,
+      topic AS title,
+      session_date AS start_time,
+      NULL AS end_time,
+      course_id,
+      created_at
+    FROM study_sessions
+    WHERE user_id = p_user_id
+      AND deleted_at IS NULL
+      AND session_date > NOW()
+
+    UNION ALL
+
+    -- Exams
+    SELECT
+      id,
+      'exam' AS type,
+      title,
+      exam_date AS start_time,
+      exam_date + (duration_minutes * INTERVAL '1 minute') AS end_time,
+      course_id,
+      created_at
+    FROM exams
+    WHERE user_id = p_user_id
+      AND deleted_at IS NULL
+      AND exam_date > NOW()
+  )
+  SELECT to_jsonb(t)
+  INTO next_upcoming_task
+  FROM (
+    SELECT
+      t.id,
+      t.type,
+      t.title,
+      t.start_time,
+      t.end_time,
+      c.course_name,
+      c.course_code
+    FROM all_tasks t
+    JOIN courses c ON t.course_id = c.id
+    LEFT JOIN terms tm ON tm.id = c.term_id
+    WHERE tm.archived_at IS NULL
+    ORDER BY t.start_time ASC
+    LIMIT 1
+  ) t;
+
+  -- 2. Calculate today's overview (counts for today)
+  SELECT jsonb_build_object(
+    'lectures', COALESCE((
+      SELECT COUNT(*)::INTEGER
+      FROM lectures
+      WHERE user_id = p_user_id
+        AND deleted_at IS NULL
+        AND DATE(start_time) = DATE(NOW())
+        AND NOT public.is_course_in_archived_term(course_id)
+    ), 0),
+    'studySessions', COALESCE((
+      SELECT COUNT(*)::INTEGER
+      FROM study_sessions
+      WHERE user_id = p_user_id
+        AND deleted_at IS NULL
+        AND DATE(session_date) = DATE(NOW())
+        AND NOT public.is_course_in_archived_term(course_id)
+    ), 0),
+    'assignments', COALESCE((
+      SELECT COUNT(*)::INTEGER
+      FROM assignments
+      WHERE user_id = p_user_id
+        AND deleted_at IS NULL
+        AND DATE(due_date) = DATE(NOW())
+        AND NOT public.is_course_in_archived_term(course_id)
+    ), 0),
+    'exams', COALESCE((
+      SELECT COUNT(*)::INTEGER
+      FROM exams
+      WHERE user_id = p_user_id
+        AND deleted_at IS NULL
+        AND DATE(exam_date) = DATE(NOW())
+        AND NOT public.is_course_in_archived_term(course_id)
+    ), 0),
+    'reviews', 0  -- SRS reviews can be calculated separately if needed
+  ) INTO today_overview;
+
+  -- 3. Calculate monthly task count (tasks created in last 30 days)
+  SELECT COALESCE((
+    SELECT COUNT(*)::INTEGER
+    FROM (
+      SELECT id FROM lectures
+      WHERE user_id = p_user_id AND created_at >= month_start
+        AND NOT public.is_course_in_archived_term(course_id)
+      UNION ALL
+      SELECT id FROM assignments
+      WHERE user_id = p_user_id AND created_at >= month_start
+        AND NOT public.is_course_in_archived_term(course_id)
+      UNION ALL
+      SELECT id FROM study_sessions
+      WHERE user_id = p_user_id AND created_at >= month_start
+        AND NOT public.is_course_in_archived_term(course_id)
+      UNION ALL
+      SELECT id FROM exams
+      WHERE user_id = p_user_id AND created_at >= month_start
+        AND NOT public.is_course_in_archived_term(course_id)
+    ) monthly_tasks
+  ), 0) INTO monthly_task_count;
+
+  -- 4. Return the correct structure matching HomeScreenData interface
+  RETURN jsonb_build_object(
+    'nextUpcomingTask', COALESCE(next_upcoming_task, NULL::jsonb),
+    'todayOverview', COALESCE(today_overview, jsonb_build_object(
+      'lectures', 0,
+      'studySessions', 0,
+      'assignments', 0,
+      'exams', 0,
+      'reviews', 0
+    )),
+    'monthlyTaskCount', monthly_task_count
+  );
+END;
+$$;
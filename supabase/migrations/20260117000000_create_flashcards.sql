@@ -0,0 +1,141 @@
+-- Flashcard decks
+-- A deck belongs to a study session or to a whole course. Its cards are
+-- scheduled one by one with the user's SRS scheduler (SM-2 or FSRS), so a
+-- deck of vocabulary or formulas no longer shares one ease factor.
+-- Card text and deck titles are encrypted like other task text.
+
+CREATE TABLE IF NOT EXISTS public.flashcard_decks (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  study_session_id UUID REFERENCES public.study_sessions(id) ON DELETE CASCADE,
+  course_id UUID REFERENCES public.courses(id) ON DELETE CASCADE,
+  title TEXT NOT NULL,
+  description TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  deleted_at TIMESTAMPTZ,
+  CONSTRAINT flashcard_decks_owner_check
+    CHECK (study_session_id IS NOT NULL OR course_id IS NOT NULL)
+);
+
+CREATE INDEX IF NOT EXISTS idx_flashcard_decks_session
+  ON public.flashcard_decks(study_session_id)
+  WHERE deleted_at IS NULL AND study_session_id IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_flashcard_decks_course
+  ON public.flashcard_decks(course_id)
+  WHERE deleted_at IS NULL AND course_id IS NOT NULL;
+
+COMMENT ON TABLE public.flashcard_decks IS 'Decks of flashcards attached to a study session or a course';
+COMMENT ON COLUMN public.flashcard_decks.title IS 'Encrypted deck title';
+COMMENT ON COLUMN public.flashcard_decks.description IS 'Encrypted notes';
+
+CREATE TABLE IF NOT EXISTS public.flashcards (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  deck_id UUID NOT NULL REFERENCES public.flashcard_decks(id) ON DELETE CASCADE,
+  card_type TEXT NOT NULL DEFAULT 'basic'
+    CHECK (card_type IN ('basic', 'cloze')),
+  front TEXT NOT NULL,
+  back TEXT,
+  image_url TEXT,
+  due_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  last_reviewed_at TIMESTAMPTZ,
+  review_count INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  deleted_at TIMESTAMPTZ
+);
+
+CREATE INDEX IF NOT EXISTS idx_flashcards_deck_due
+  ON public.flashcards(deck_id, due_at)
+  WHERE deleted_at IS NULL;
+
+COMMENT ON TABLE public.flashcards IS 'Cards of a flashcard deck, each with its own review schedule';
+COMMENT ON COLUMN public.flashcards.card_type IS 'basic: front and back; cloze: front with {{deletions}}, back is an optional hint';
+COMMENT ON COLUMN public.flashcards.front IS 'Encrypted front text, or the cloze text';
+COMMENT ON COLUMN public.flashcards.back IS 'Encrypted back text';
+COMMENT ON COLUMN public.flashcards.due_at IS 'When the card is next due; new cards are due immediately';
+
+-- One row per card review, with the same scheduler columns as
+-- srs_performance so both can share the schedulers in srs-scheduler.ts
+CREATE TABLE IF NOT EXISTS public.flashcard_reviews (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  flashcard_id UUID NOT NULL REFERENCES public.flashcards(id) ON DELETE CASCADE,
+  deck_id UUID NOT NULL REFERENCES public.flashcard_decks(id) ON DELETE CASCADE,
+  review_date TIMESTAMPTZ NOT NULL,
+  quality_rating INTEGER NOT NULL CHECK (quality_rating BETWEEN 0 AND 5),
+  response_time_seconds INTEGER,
+  ease_factor DECIMAL(4,2) DEFAULT 2.5,
+  interval_days INTEGER NOT NULL,
+  next_interval_days INTEGER,
+  repetition_number INTEGER DEFAULT 1,
+  scheduler TEXT NOT NULL DEFAULT 'sm2' CHECK (scheduler IN ('sm2', 'fsrs')),
+  stability NUMERIC CHECK (stability > 0),
+  difficulty NUMERIC CHECK (difficulty BETWEEN 1 AND 10),
+  retrievability NUMERIC CHECK (retrievability BETWEEN 0 AND 1),
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_flashcard_reviews_card
+  ON public.flashcard_reviews(flashcard_id, review_date);
+
+CREATE INDEX IF NOT EXISTS idx_flashcard_reviews_user
+  ON public.flashcard_reviews(user_id, created_at DESC);
+
+COMMENT ON TABLE public.flashcard_reviews IS 'Per-card spaced repetition reviews; counted with srs_performance in SRS analytics';
+
+DROP TRIGGER IF EXISTS update_flashcard_decks_updated_at ON public.flashcard_decks;
+CREATE TRIGGER update_flashcard_decks_updated_at
+  BEFORE UPDATE ON public.flashcard_decks
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+DROP TRIGGER IF EXISTS update_flashcards_updated_at ON public.flashcards;
+CREATE TRIGGER update_flashcards_updated_at
+  BEFORE UPDATE ON public.flashcards
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Enable RLS
+ALTER TABLE public.flashcard_decks ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.flashcards ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.flashcard_reviews ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage own flashcard decks"
+  ON public.flashcard_decks
+  FOR ALL
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Service role can manage flashcard decks"
+  ON public.flashcard_decks
+  FOR ALL
+  USING (auth.jwt() ->> 'role' = 'service_role');
+
+CREATE POLICY "Users can manage own flashcards"
+  ON public.flashcards
+  FOR ALL
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Service role can manage flashcards"
+  ON public.flashcards
+  FOR ALL
+  USING (auth.jwt() ->> 'role' = 'service_role');
+
+CREATE POLICY "Users can view own flashcard reviews"
+  ON public.flashcard_reviews
+  FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own flashcard reviews"
+  ON public.flashcard_reviews
+  FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Service role can manage flashcard reviews"
+  ON public.flashcard_reviews
+  FOR ALL
+  USING (auth.jwt() ->> 'role' = 'service_role');
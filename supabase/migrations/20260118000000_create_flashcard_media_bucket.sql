@@ -0,0 +1,29 @@
+-- Flashcard media
+-- Images that come with imported Anki packages are stored in a public
+-- bucket, one folder per user, and cards link to them through image_url.
+
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES (
+  'flashcard-media',
+  'flashcard-media',
+  true,
+  5242880,
+  ARRAY['image/png', 'image/jpeg', 'image/gif', 'image/webp', 'image/svg+xml']
+)
+ON CONFLICT (id) DO NOTHING;
+
+CREATE POLICY "Users can upload own flashcard media"
+  ON storage.objects
+  FOR INSERT
+  WITH CHECK (
+    bucket_id = 'flashcard-media'
+    AND (storage.foldername(name))[1] = auth.uid()::text
+  );
+
+CREATE POLICY "Users can delete own flashcard media"
+  ON storage.objects
+  FOR DELETE
+  USING (
+    bucket_id = 'flashcard-media'
+    AND (storage.foldername(name))[1] = auth.uid()::text
+  );
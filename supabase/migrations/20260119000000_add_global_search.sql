@@ -0,0 +1,148 @@
+-- Global search
+-- Full-text search over the plaintext fields a user can search for: course
+-- names and codes, lecture venues and notification history. Assignment,
+-- lecture and study session titles and notes are encrypted at rest, so the
+-- api-v2 search handler matches those after decrypting them.
+-- The 'simple' configuration is used so course codes and names in any
+-- language are indexed as typed, without English stemming.
+
+CREATE INDEX IF NOT EXISTS idx_courses_search
+  ON public.courses
+  USING gin(to_tsvector('simple', coalesce(course_name, '') || ' ' || coalesce(course_code, '')))
+  WHERE deleted_at IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_lectures_venue_search
+  ON public.lectures
+  USING gin(to_tsvector('simple', coalesce(venue, '')))
+  WHERE deleted_at IS NULL AND venue IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_notification_deliveries_search
+  ON public.notification_deliveries
+  USING gin(to_tsvector('simple', coalesce(title, '') || ' ' || coalesce(body, '')));
+
+COMMENT ON INDEX idx_courses_search IS 'Full-text index on course name and code for global search';
+COMMENT ON INDEX idx_lectures_venue_search IS 'Full-text index on lecture venues for global search';
+COMMENT ON INDEX idx_notification_deliveries_search IS 'Full-text index on notification history for global search';
+
+-- Turns what the user typed into a prefix query matching every word, so
+-- "calc lin" finds "Linear Calculus". NULL when there is nothing to search.
+CREATE OR REPLACE FUNCTION public.search_prefix_query(p_query TEXT)
+RETURNS tsquery
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT to_tsquery('simple', string_agg(quote_literal(term) || ':*', ' & '))
+  FROM regexp_split_to_table(lower(p_query), '[^[:alnum:]]+') AS term
+  WHERE term <> '';
+$$;
+
+-- Courses, lectures (by venue) and notifications matching p_query, best
+-- matches first. p_types limits the result types ('course', 'lecture',
+-- 'notification'). Courses have no date, so they are left out when a date
+-- range is given; notifications have no course, so they are left out when
+-- a course is given. Recurring lectures match a range they have started by.
+-- Lecture names come back encrypted.
+CREATE OR REPLACE FUNCTION public.search_user_content(
+  p_user_id UUID,
+  p_query TEXT,
+  p_types TEXT[] DEFAULT NULL,
+  p_course_id UUID DEFAULT NULL,
+  p_from TIMESTAMPTZ DEFAULT NULL,
+  p_to TIMESTAMPTZ DEFAULT NULL,
+  p_limit INTEGER DEFAULT 20
+)
+RETURNS TABLE (
+  result_type TEXT,
+  id UUID,
+  course_id UUID,
+  course_name TEXT,
+  title TEXT,
+  body TEXT,
+  occurred_at TIMESTAMPTZ,
+  rank REAL
+)
+LANGUAGE sql
+STABLE
+AS $$
+  WITH q AS (
+    SELECT public.search_prefix_query(p_query) AS query
+  )
+  (
+    SELECT
+      'course',
+      c.id,
+      c.id,
+      c.course_name,
+      c.course_name,
+      c.course_code,
+      NULL::timestamptz,
+      ts_rank(
+        to_tsvector('simple', coalesce(c.course_name, '') || ' ' || coalesce(c.course_code, '')),
+        q.query
+      )
+    FROM public.courses c, q
+    WHERE c.user_id = p_user_id
+      AND c.deleted_at IS NULL
+      AND (p_types IS NULL OR 'course' = ANY(p_types))
+      AND (p_course_id IS NULL OR c.id = p_course_id)
+      AND p_from IS NULL
+      AND p_to IS NULL
+      AND to_tsvector('simple', coalesce(c.course_name, '') || ' ' || coalesce(c.course_code, '')) @@ q.query
+    ORDER BY 8 DESC
+    LIMIT p_limit
+  )
+  UNION ALL
+  (
+    SELECT
+      'lecture',
+      l.id,
+      l.course_id,
+      c.course_name,
+      l.lecture_name,
+      l.venue,
+      l.start_time,
+      ts_rank(to_tsvector('simple', coalesce(l.venue, '')), q.query)
+    FROM public.lectures l
+    JOIN public.courses c ON c.id = l.course_id AND c.deleted_at IS NULL
+    CROSS JOIN q
+    WHERE l.user_id = p_user_id
+      AND l.deleted_at IS NULL
+      AND l.venue IS NOT NULL
+      AND (p_types IS NULL OR 'lecture' = ANY(p_types))
+      AND (p_course_id IS NULL OR l.course_id = p_course_id)
+      AND (p_to IS NULL OR l.start_time <= p_to)
+      AND (p_from IS NULL OR l.is_recurring OR l.start_time >= p_from)
+      AND to_tsvector('simple', coalesce(l.venue, '')) @@ q.query
+    ORDER BY 8 DESC, l.start_time DESC
+    LIMIT p_limit
+  )
+  UNION ALL
+  (
+    SELECT
+      'notification',
+      n.id,
+      NULL::uuid,
+      NULL::text,
+      n.title,
+      n.body,
+      coalesce(n.sent_at, n.created_at),
+      ts_rank(
+        to_tsvector('simple', coalesce(n.title, '') || ' ' || coalesce(n.body, '')),
+        q.query
+      )
+    FROM public.notification_deliveries n, q
+    WHERE n.user_id = p_user_id
+      AND (p_types IS NULL OR 'notification' = ANY(p_types))
+      AND p_course_id IS NULL
+      AND (p_from IS NULL OR coalesce(n.sent_at, n.created_at) >= p_from)
+      AND (p_to IS NULL OR coalesce(n.sent_at, n.created_at) <= p_to)
+      AND to_tsvector('simple', coalesce(n.title, '') || ' ' || coalesce(n.body, '')) @@ q.query
+    ORDER BY 8 DESC, 7 DESC
+    LIMIT p_limit
+  );
+$$;
+
+COMMENT ON FUNCTION public.search_user_content IS 'Full-text search over a user''s courses, lecture venues and notification history';
+
+GRANT EXECUTE ON FUNCTION public.search_prefix_query(TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.search_user_content(UUID, TEXT, TEXT[], UUID, TIMESTAMPTZ, TIMESTAMPTZ, INTEGER) TO authenticated;
@@ -0,0 +1,143 @@
+-- Task tags and priority
+-- Users define their own colored tags and attach any number of them to
+-- assignments, lectures and study sessions, alongside a priority level.
+-- Tags are referenced by id from a tag_ids array on each task, so deleting
+-- a tag takes it off every task (see remove_deleted_tag_from_tasks).
+-- Reminders for high-priority tasks are escalated by process-due-reminders,
+-- which schedules one follow-up per reminder (reminders.escalated_from).
+
+CREATE TABLE IF NOT EXISTS public.tags (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  name TEXT NOT NULL CHECK (char_length(name) BETWEEN 1 AND 50),
+  color TEXT NOT NULL CHECK (color ~ '^#[0-9A-Fa-f]{6}$'),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- Tag names are unique per user, ignoring case
+CREATE UNIQUE INDEX IF NOT EXISTS idx_tags_user_name
+  ON public.tags(user_id, lower(name));
+
+COMMENT ON TABLE public.tags IS 'User-defined colored labels for assignments, lectures and study sessions';
+COMMENT ON COLUMN public.tags.color IS 'Hex color, #RRGGBB';
+
+DROP TRIGGER IF EXISTS update_tags_updated_at ON public.tags;
+CREATE TRIGGER update_tags_updated_at
+  BEFORE UPDATE ON public.tags
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Enable RLS
+ALTER TABLE public.tags ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage own tags"
+  ON public.tags
+  FOR ALL
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Service role can manage tags"
+  ON public.tags
+  FOR ALL
+  USING (auth.jwt() ->> 'role' = 'service_role');
+
+ALTER TABLE public.assignments
+  ADD COLUMN IF NOT EXISTS priority TEXT NOT NULL DEFAULT 'medium'
+    CHECK (priority IN ('low', 'medium', 'high')),
+  ADD COLUMN IF NOT EXISTS tag_ids UUID[] NOT NULL DEFAULT '{}';
+
+ALTER TABLE public.lectures
+  ADD COLUMN IF NOT EXISTS priority TEXT NOT NULL DEFAULT 'medium'
+    CHECK (priority IN ('low', 'medium', 'high')),
+  ADD COLUMN IF NOT EXISTS tag_ids UUID[] NOT NULL DEFAULT '{}';
+
+ALTER TABLE public.study_sessions
+  ADD COLUMN IF NOT EXISTS priority TEXT NOT NULL DEFAULT 'medium'
+    CHECK (priority IN ('low', 'medium', 'high')),
+  ADD COLUMN IF NOT EXISTS tag_ids UUID[] NOT NULL DEFAULT '{}';
+
+COMMENT ON COLUMN public.assignments.priority IS 'low, medium or high; reminders for high-priority tasks are escalated';
+COMMENT ON COLUMN public.assignments.tag_ids IS 'Ids of the user''s tags on this assignment';
+COMMENT ON COLUMN public.lectures.priority IS 'low, medium or high; reminders for high-priority tasks are escalated';
+COMMENT ON COLUMN public.lectures.tag_ids IS 'Ids of the user''s tags on this lecture';
+COMMENT ON COLUMN public.study_sessions.priority IS 'low, medium or high; reminders for high-priority tasks are escalated';
+COMMENT ON COLUMN public.study_sessions.tag_ids IS 'Ids of the user''s tags on this study session';
+
+-- Filtering tasks by tag
+CREATE INDEX IF NOT EXISTS idx_assignments_tag_ids
+  ON public.assignments USING gin(tag_ids);
+CREATE INDEX IF NOT EXISTS idx_lectures_tag_ids
+  ON public.lectures USING gin(tag_ids);
+CREATE INDEX IF NOT EXISTS idx_study_sessions_tag_ids
+  ON public.study_sessions USING gin(tag_ids);
+
+-- An array can't carry a foreign key, so tasks may only reference tags of
+-- the same user. Raised as a foreign key violation for the API error mapping.
+CREATE OR REPLACE FUNCTION public.check_task_tag_ids()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF cardinality(NEW.tag_ids) > 0 AND EXISTS (
+    SELECT 1
+    FROM unnest(NEW.tag_ids) AS tag_id
+    WHERE NOT EXISTS (
+      SELECT 1 FROM public.tags t
+      WHERE t.id = tag_id AND t.user_id = NEW.user_id
+    )
+  ) THEN
+    RAISE EXCEPTION 'Unknown tag on %', TG_TABLE_NAME
+      USING ERRCODE = '23503';
+  END IF;
+  -- Each tag once
+  NEW.tag_ids := ARRAY(SELECT DISTINCT unnest(NEW.tag_ids));
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS check_assignment_tag_ids ON public.assignments;
+CREATE TRIGGER check_assignment_tag_ids
+  BEFORE INSERT OR UPDATE OF tag_ids ON public.assignments
+  FOR EACH ROW
+  EXECUTE FUNCTION public.check_task_tag_ids();
+
+DROP TRIGGER IF EXISTS check_lecture_tag_ids ON public.lectures;
+CREATE TRIGGER check_lecture_tag_ids
+  BEFORE INSERT OR UPDATE OF tag_ids ON public.lectures
+  FOR EACH ROW
+  EXECUTE FUNCTION public.check_task_tag_ids();
+
+DROP TRIGGER IF EXISTS check_study_session_tag_ids ON public.study_sessions;
+CREATE TRIGGER check_study_session_tag_ids
+  BEFORE INSERT OR UPDATE OF tag_ids ON public.study_sessions
+  FOR EACH ROW
+  EXECUTE FUNCTION public.check_task_tag_ids();
+
+CREATE OR REPLACE FUNCTION public.remove_deleted_tag_from_tasks()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.assignments SET tag_ids = array_remove(tag_ids, OLD.id)
+    WHERE user_id = OLD.user_id AND tag_ids @> ARRAY[OLD.id];
+  UPDATE public.lectures SET tag_ids = array_remove(tag_ids, OLD.id)
+    WHERE user_id = OLD.user_id AND tag_ids @> ARRAY[OLD.id];
+  UPDATE public.study_sessions SET tag_ids = array_remove(tag_ids, OLD.id)
+    WHERE user_id = OLD.user_id AND tag_ids @> ARRAY[OLD.id];
+  RETURN OLD;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS remove_deleted_tag ON public.tags;
+CREATE TRIGGER remove_deleted_tag
+  AFTER DELETE ON public.tags
+  FOR EACH ROW
+  EXECUTE FUNCTION public.remove_deleted_tag_from_tasks();
+
+ALTER TABLE public.reminders
+ADD COLUMN IF NOT EXISTS escalated_from UUID REFERENCES public.reminders(id) ON DELETE SET NULL;
+
+COMMENT ON COLUMN public.reminders.escalated_from IS 'For follow-ups of a high-priority task''s reminder: the reminder that was followed up';
@@ -0,0 +1,29 @@
+-- User locale
+-- The language a user picked in the app, used to translate what the server
+-- writes for them: reminder pushes, daily summaries and emails. users.locale
+-- is the user's own choice and NULL when they follow their device; the app
+-- keeps users.device_locale up to date for that case. The server uses
+-- locale, then device_locale, then English.
+-- Email templates can have a row per locale; email-system sends the row for
+-- the recipient's locale and falls back to English.
+
+ALTER TABLE public.users
+  ADD COLUMN IF NOT EXISTS locale TEXT
+  CHECK (locale IN ('en', 'es', 'fr', 'ar')),
+  ADD COLUMN IF NOT EXISTS device_locale TEXT
+  CHECK (device_locale IN ('en', 'es', 'fr', 'ar'));
+
+COMMENT ON COLUMN public.users.locale IS 'App language chosen by the user (en, es, fr, ar); NULL follows the device';
+COMMENT ON COLUMN public.users.device_locale IS 'Supported language of the user''s device, reported by the app';
+
+DO $$
+BEGIN
+  IF to_regclass('public.email_templates') IS NOT NULL THEN
+    ALTER TABLE public.email_templates
+      ADD COLUMN IF NOT EXISTS locale TEXT NOT NULL DEFAULT 'en'
+      CHECK (locale IN ('en', 'es', 'fr', 'ar'));
+
+    CREATE UNIQUE INDEX IF NOT EXISTS idx_email_templates_name_locale
+      ON public.email_templates(template_name, locale);
+  END IF;
+END $$;
@@ -0,0 +1,62 @@
+-- Study streaks and achievements
+-- A study day is a day, in the user's timezone, on which they completed a
+-- task or did a spaced-repetition review. streaks.current_streak counts
+-- consecutive study days. Every 7 days of streak earns a freeze, up to 2,
+-- and a freeze covers one missed day.
+-- Badges are earned by rules over the user's progress (see
+-- _shared/achievements.ts). Each badge key is stored once per user, so
+-- re-checking the rules never awards a badge twice.
+
+-- Keep one streak row per user before making user_id unique
+DELETE FROM public.streaks s
+USING public.streaks newer
+WHERE s.user_id = newer.user_id
+  AND (COALESCE(s.updated_at, s.created_at, 'epoch'), s.id)
+    < (COALESCE(newer.updated_at, newer.created_at, 'epoch'), newer.id);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_streaks_user_unique
+  ON public.streaks(user_id);
+
+ALTER TABLE public.streaks
+  ADD COLUMN IF NOT EXISTS freezes_available INTEGER NOT NULL DEFAULT 0
+  CHECK (freezes_available BETWEEN 0 AND 2),
+  ADD COLUMN IF NOT EXISTS freezes_used INTEGER NOT NULL DEFAULT 0;
+
+COMMENT ON COLUMN public.streaks.last_activity_date IS 'Last study day, in the user''s timezone';
+COMMENT ON COLUMN public.streaks.freezes_available IS 'Missed days the streak can still survive';
+COMMENT ON COLUMN public.streaks.freezes_used IS 'Freezes spent over the life of the account';
+
+CREATE TABLE IF NOT EXISTS public.user_achievements (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  achievement_key TEXT NOT NULL,
+  type TEXT NOT NULL
+    CHECK (type IN ('streak', 'milestone', 'improvement', 'srs_consistency')),
+  metadata JSONB NOT NULL DEFAULT '{}',
+  earned_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (user_id, achievement_key)
+);
+
+CREATE INDEX IF NOT EXISTS idx_user_achievements_user_earned
+  ON public.user_achievements(user_id, earned_at DESC);
+
+COMMENT ON TABLE public.user_achievements IS 'Badges a user has earned, one row per badge';
+COMMENT ON COLUMN public.user_achievements.achievement_key IS 'Badge id, e.g. streak_7, tasks_50, srs_days_7 or improvement_2026-01-19';
+COMMENT ON COLUMN public.user_achievements.metadata IS 'Numbers behind the badge, e.g. the weekly counts for an improvement';
+
+-- Enable RLS
+ALTER TABLE public.user_achievements ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own achievements"
+  ON public.user_achievements
+  FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Service role can manage achievements"
+  ON public.user_achievements
+  FOR ALL
+  USING (auth.jwt() ->> 'role' = 'service_role');
+
+-- Weekly task completion counts for improvement badges
+CREATE INDEX IF NOT EXISTS idx_user_events_user_type_created
+  ON public.user_events(user_id, event_type, created_at DESC);
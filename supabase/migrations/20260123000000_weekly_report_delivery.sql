@@ -0,0 +1,60 @@
+-- Weekly report delivery
+-- send-weekly-reports runs hourly and, once it is Sunday evening in a
+-- user's timezone, builds their report for the week, renders it through the
+-- published report_templates and sends it by push and email. Users opt in
+-- or out with notification_preferences.weekly_report_enabled.
+
+-- Columns the report generator already writes
+ALTER TABLE public.weekly_reports
+  ADD COLUMN IF NOT EXISTS status TEXT NOT NULL DEFAULT 'completed'
+    CHECK (status IN ('generating', 'completed', 'failed')),
+  ADD COLUMN IF NOT EXISTS generated_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS delivered_at TIMESTAMPTZ;
+
+COMMENT ON COLUMN public.weekly_reports.week_start_date IS 'Monday of the report week, in the user''s timezone';
+COMMENT ON COLUMN public.weekly_reports.delivered_at IS 'When the report was sent by push/email; NULL until then';
+
+CREATE INDEX IF NOT EXISTS idx_weekly_reports_user_week
+  ON public.weekly_reports(user_id, week_start_date DESC);
+
+ALTER TABLE public.notification_preferences
+  ADD COLUMN IF NOT EXISTS weekly_report_enabled BOOLEAN NOT NULL DEFAULT true;
+
+COMMENT ON COLUMN public.notification_preferences.weekly_report_enabled IS 'Controls the weekly progress report (push, email and in-app history).';
+
+-- The report job reads published templates with the service role
+DROP POLICY IF EXISTS "Service role can read report templates" ON public.report_templates;
+CREATE POLICY "Service role can read report templates" ON public.report_templates
+  FOR SELECT
+  USING (auth.jwt() ->> 'role' = 'service_role');
+
+CREATE EXTENSION IF NOT EXISTS pg_cron WITH SCHEMA cron;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM cron.job
+    WHERE jobname = 'send-weekly-reports'
+  ) THEN
+    -- Hourly, so every timezone reaches Sunday evening on some run
+    PERFORM cron.schedule(
+      'send-weekly-reports',
+      '5 * * * *',
+      $sql$
+      SELECT
+        net.http_post(
+          url := 'https://oqwyoucchbjiyddnznwf.supabase.co/functions/v1/send-weekly-reports',
+          headers := jsonb_build_object(
+            'Content-Type', 'application/json',
+            'Authorization', 'Bearer ' || current_setting('app.settings.cron_secret', true)
+          ),
+          body := '{}'::jsonb
+        ) AS request_id;
+      $sql$
+    );
+
+    RAISE NOTICE 'Cron job send-weekly-reports scheduled successfully (hourly)';
+  ELSE
+    RAISE NOTICE 'Cron job send-weekly-reports already exists, skipping creation';
+  END IF;
+END $$;
@@ -0,0 +1,94 @@
+-- Reminder bundling and send caps
+-- process-due-reminders collapses a user's reminders that fall due within
+-- their bundle window into one digest push, and holds reminders back once
+-- the user has had max_per_hour / max_per_day notifications. Every reminder
+-- still gets its own notification_deliveries row; rows sent together share
+-- metadata->>'bundleId'.
+
+ALTER TABLE public.notification_preferences
+  ADD COLUMN IF NOT EXISTS bundle_window_minutes INTEGER NOT NULL DEFAULT 10
+    CHECK (bundle_window_minutes BETWEEN 0 AND 60),
+  ADD COLUMN IF NOT EXISTS max_per_hour INTEGER DEFAULT 4;
+
+COMMENT ON COLUMN public.notification_preferences.bundle_window_minutes IS 'Reminders due within this many minutes of each other are sent as one digest; 0 sends each on its own';
+COMMENT ON COLUMN public.notification_preferences.max_per_hour IS 'Maximum notifications per hour';
+
+CREATE INDEX IF NOT EXISTS idx_notification_deliveries_user_sent
+  ON public.notification_deliveries(user_id, sent_at DESC);
+
+-- Lock the reminders of these users that fall due within their bundle
+-- window, so they go out with the user's reminders that are due now
+CREATE OR REPLACE FUNCTION public.acquire_bundled_reminder_locks(
+  p_lock_id UUID,
+  p_user_ids UUID[],
+  p_stale_threshold_minutes INTEGER DEFAULT 10
+)
+RETURNS TABLE(id UUID)
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  stale_threshold TIMESTAMPTZ;
+BEGIN
+  stale_threshold := NOW() - (p_stale_threshold_minutes || ' minutes')::INTERVAL;
+
+  RETURN QUERY
+  WITH locked AS (
+    UPDATE public.reminders r
+    SET
+      processing_started_at = NOW(),
+      processing_lock_id = p_lock_id,
+      processing_attempts = COALESCE(r.processing_attempts, 0) + 1
+    FROM public.notification_preferences np
+    WHERE
+      np.user_id = r.user_id
+      AND r.user_id = ANY(p_user_ids)
+      AND np.bundle_window_minutes > 0
+      AND r.completed = false
+      AND r.reminder_time > NOW()
+      AND r.reminder_time <= NOW() + make_interval(mins => np.bundle_window_minutes)
+      AND (
+        r.processing_started_at IS NULL
+        OR r.processing_started_at < stale_threshold
+      )
+    RETURNING r.id
+  )
+  SELECT * FROM locked;
+END;
+$$;
+
+COMMENT ON FUNCTION public.acquire_bundled_reminder_locks IS
+'Locks reminders due within each user''s bundle window so they are sent in the same digest as the user''s due reminders.';
+
+-- Notifications a user has been sent since p_since. A digest and the
+-- separate rows for the reminders in it count once.
+CREATE OR REPLACE FUNCTION public.count_notifications_sent(
+  p_user_id UUID,
+  p_since TIMESTAMPTZ
+)
+RETURNS INTEGER
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+AS $$
+  SELECT COUNT(DISTINCT COALESCE(
+    metadata->>'bundleId',
+    metadata->>'reminderId',
+    id::TEXT
+  ))::INTEGER
+  FROM public.notification_deliveries
+  WHERE user_id = p_user_id
+    AND sent_at >= p_since
+    AND (
+      COALESCE((metadata->>'push_sent')::BOOLEAN, false)
+      OR COALESCE((metadata->>'email_sent')::BOOLEAN, false)
+    );
+$$;
+
+COMMENT ON FUNCTION public.count_notifications_sent IS
+'Counts notifications sent to a user since a time, for the per-user hourly and daily caps.';
+
+REVOKE ALL ON FUNCTION public.acquire_bundled_reminder_locks(UUID, UUID[], INTEGER) FROM PUBLIC;
+REVOKE ALL ON FUNCTION public.count_notifications_sent(UUID, TIMESTAMPTZ) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.acquire_bundled_reminder_locks(UUID, UUID[], INTEGER) TO service_role;
+GRANT EXECUTE ON FUNCTION public.count_notifications_sent(UUID, TIMESTAMPTZ) TO service_role;
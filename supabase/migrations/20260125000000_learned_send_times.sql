@@ -0,0 +1,153 @@
+-- Learned reminder send times
+-- learn-reminder-send-times works out, per user and reminder type, the
+-- local hour at which that user's reminders are acted on most, from
+-- reminder_analytics. Flexible reminders (spaced repetition reviews and the
+-- daily summary) are then sent at that hour instead of the fixed default.
+
+CREATE TABLE IF NOT EXISTS public.reminder_send_windows (
+  user_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  reminder_type TEXT NOT NULL,
+  best_hour INTEGER CHECK (best_hour BETWEEN 0 AND 23),
+  fixed_hour INTEGER NOT NULL CHECK (fixed_hour BETWEEN 0 AND 23),
+  hour_scores JSONB NOT NULL DEFAULT '[]'::jsonb,
+  sample_size INTEGER NOT NULL DEFAULT 0,
+  baseline_rate NUMERIC(4,3),
+  learned_rate NUMERIC(4,3),
+  fixed_rate NUMERIC(4,3),
+  lift NUMERIC(6,3),
+  learned_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (user_id, reminder_type)
+);
+
+COMMENT ON TABLE public.reminder_send_windows IS 'Hour of day each user acts on each type of reminder most, learned nightly from reminder_analytics';
+COMMENT ON COLUMN public.reminder_send_windows.best_hour IS 'Local hour flexible reminders are sent at; NULL until there is enough history';
+COMMENT ON COLUMN public.reminder_send_windows.fixed_hour IS 'Local hour the reminders are sent at without learning';
+COMMENT ON COLUMN public.reminder_send_windows.hour_scores IS 'Smoothed engagement rate and send count for each local hour with history';
+COMMENT ON COLUMN public.reminder_send_windows.lift IS 'Relative change in engagement of sends at best_hour over sends at fixed_hour';
+
+ALTER TABLE public.reminder_send_windows ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own reminder send windows"
+  ON public.reminder_send_windows
+  FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE INDEX IF NOT EXISTS idx_reminders_user_sent
+  ON public.reminders(user_id, sent_at DESC)
+  WHERE sent_at IS NOT NULL;
+
+-- Replaces the most-frequent-hour lookup with the learned window. A tenth of
+-- sends (chosen by p_seed) stay at the fixed hour so the learned window can
+-- still be compared against it, and a learned hour that has since moved
+-- into the user's quiet hours is not used.
+DROP FUNCTION IF EXISTS public.get_optimal_reminder_hour(UUID, TEXT);
+
+CREATE OR REPLACE FUNCTION public.get_optimal_reminder_hour(
+  p_user_id UUID,
+  p_reminder_type TEXT DEFAULT 'study_session',
+  p_fixed_hour INTEGER DEFAULT 10,
+  p_seed TEXT DEFAULT NULL
+) RETURNS INTEGER
+LANGUAGE plpgsql
+STABLE
+AS $$
+DECLARE
+  learned_hour INTEGER;
+  prefs RECORD;
+  slot TIME;
+BEGIN
+  IF p_seed IS NOT NULL AND abs(hashtext(p_seed)) % 10 = 0 THEN
+    RETURN p_fixed_hour;
+  END IF;
+
+  SELECT best_hour
+  INTO learned_hour
+  FROM public.reminder_send_windows
+  WHERE user_id = p_user_id
+    AND reminder_type = p_reminder_type;
+
+  IF learned_hour IS NULL THEN
+    RETURN p_fixed_hour;
+  END IF;
+
+  SELECT quiet_hours_enabled, quiet_hours_start, quiet_hours_end
+  INTO prefs
+  FROM public.notification_preferences
+  WHERE user_id = p_user_id;
+
+  IF prefs.quiet_hours_enabled
+    AND prefs.quiet_hours_start IS NOT NULL
+    AND prefs.quiet_hours_end IS NOT NULL
+  THEN
+    slot := make_time(learned_hour, 0, 0);
+    IF (prefs.quiet_hours_start <= prefs.quiet_hours_end
+          AND slot >= prefs.quiet_hours_start AND slot < prefs.quiet_hours_end)
+      OR (prefs.quiet_hours_start > prefs.quiet_hours_end
+          AND (slot >= prefs.quiet_hours_start OR slot < prefs.quiet_hours_end))
+    THEN
+      RETURN p_fixed_hour;
+    END IF;
+  END IF;
+
+  RETURN learned_hour;
+END;
+$$;
+
+COMMENT ON FUNCTION public.get_optimal_reminder_hour IS 'Local hour to send a flexible reminder at: the learned send window, or p_fixed_hour without one';
+
+-- Learn send windows nightly, and send daily summaries hourly so each user
+-- gets theirs at their own local hour
+CREATE EXTENSION IF NOT EXISTS pg_cron WITH SCHEMA cron;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM cron.job
+    WHERE jobname = 'learn-reminder-send-times'
+  ) THEN
+    PERFORM cron.schedule(
+      'learn-reminder-send-times',
+      '30 3 * * *',
+      $sql$
+      SELECT
+        net.http_post(
+          url := 'https://oqwyoucchbjiyddnznwf.supabase.co/functions/v1/learn-reminder-send-times',
+          headers := jsonb_build_object(
+            'Content-Type', 'application/json',
+            'Authorization', 'Bearer ' || current_setting('app.settings.cron_secret', true)
+          ),
+          body := '{}'::jsonb
+        ) AS request_id;
+      $sql$
+    );
+
+    RAISE NOTICE 'Cron job learn-reminder-send-times scheduled successfully (daily)';
+  ELSE
+    RAISE NOTICE 'Cron job learn-reminder-send-times already exists, skipping creation';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM cron.job
+    WHERE jobname = 'send-daily-summary-notifications'
+  ) THEN
+    PERFORM cron.schedule(
+      'send-daily-summary-notifications',
+      '0 * * * *',
+      $sql$
+      SELECT
+        net.http_post(
+          url := 'https://oqwyoucchbjiyddnznwf.supabase.co/functions/v1/send-daily-summary-notifications',
+          headers := jsonb_build_object(
+            'Content-Type', 'application/json',
+            'Authorization', 'Bearer ' || current_setting('app.settings.cron_secret', true)
+          ),
+          body := '{}'::jsonb
+        ) AS request_id;
+      $sql$
+    );
+
+    RAISE NOTICE 'Cron job send-daily-summary-notifications scheduled successfully (hourly)';
+  ELSE
+    RAISE NOTICE 'Cron job send-daily-summary-notifications already exists, skipping creation';
+  END IF;
+END $$;